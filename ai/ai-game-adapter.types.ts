@@ -8,7 +8,7 @@
  * This interface lives in ai/ to avoid importing cli/ modules that use node:fs.
  */
 
-import type { GameSnapshot } from "../core/engine/game-engine.types";
+import type { CommandOutcome, GameSnapshot } from "../core/engine/game-engine.types";
 
 /**
  * Adapter interface for AI agent to interact with the game engine.
@@ -20,6 +20,12 @@ export interface AIGameAdapter {
   /** Get current game state */
   getSnapshot(): GameSnapshot;
 
+  /**
+   * Outcome of the most recent command sent to the engine (null before any).
+   * A method that rejects its positions before reaching the engine leaves it unchanged.
+   */
+  getLastOutcome(): CommandOutcome | null;
+
   /** Draw from stock pile */
   drawFromStock(): GameSnapshot;
 
@@ -69,6 +69,20 @@ describe("AIPlayerRegistry", () => {
     const noModel = registry.getModel("player-0");
     expect(noModel).toBeUndefined();
   });
+
+  it("should register bots without a model", () => {
+    const registry = new AIPlayerRegistry();
+    registry.register("player-1", { name: "Easy Bot", modelId: "bot:easy" });
+    registry.register("player-2", { name: "GPT 5 Mini", modelId: "default:openai" });
+    registry.register("player-3", { name: "Monte Carlo Bot", modelId: "bot:montecarlo" });
+
+    expect(registry.isAI("player-1")).toBe(true);
+    expect(registry.getModel("player-1")).toBeUndefined();
+    expect(registry.getBotPolicy("player-1")).not.toBeNull();
+    expect(registry.getBotPolicy("player-3")).not.toBeNull();
+    expect(registry.getBotPolicy("player-2")).toBeNull();
+    expect(registry.getBotPolicy("player-0")).toBeNull();
+  });
 });
 
 describe("setupGameWithAI", () => {
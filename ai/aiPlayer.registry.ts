@@ -8,6 +8,7 @@
 
 import type { LanguageModel } from "ai";
 import { modelRegistry, withDevTools, type ModelId } from "./modelRegistry";
+import { createBotPolicy, type BotPolicy, type BotSeatModelId } from "./botPolicy";
 import type { AIPlayerConfig, GamePlayerConfig } from "./aiPlayer.types";
 
 /**
@@ -16,7 +17,7 @@ import type { AIPlayerConfig, GamePlayerConfig } from "./aiPlayer.types";
 interface AIPlayerEntry {
   playerId: string;
   name: string;
-  modelId: ModelId;
+  modelId: ModelId | BotSeatModelId;
 }
 
 /**
@@ -58,22 +59,31 @@ export class AIPlayerRegistry {
 
   /**
    * Get the model for an AI player
-   * Returns undefined if player is not AI
+   * Returns undefined if player is not AI or is a heuristic bot
    */
   getModel(playerId: string): LanguageModel | undefined {
     const entry = this.entries.get(playerId);
-    if (!entry) return undefined;
-    const model = modelRegistry.languageModel(entry.modelId);
+    if (!entry || createBotPolicy(entry.modelId)) return undefined;
+    const model = modelRegistry.languageModel(entry.modelId as ModelId);
     return this._useDevTools ? withDevTools(model) : model;
   }
 
   /**
    * Get the model ID for an AI player
    */
-  getModelId(playerId: string): ModelId | undefined {
+  getModelId(playerId: string): ModelId | BotSeatModelId | undefined {
     return this.entries.get(playerId)?.modelId;
   }
 
+  /**
+   * Get the policy that plays a bot seat
+   * Returns null if player is not a bot
+   */
+  getBotPolicy(playerId: string): BotPolicy | null {
+    const entry = this.entries.get(playerId);
+    return entry ? createBotPolicy(entry.modelId) : null;
+  }
+
   /**
    * Get the player name for an AI player
    */
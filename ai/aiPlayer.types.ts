@@ -3,6 +3,7 @@
  */
 
 import type { ModelId } from "./modelRegistry";
+import type { BotSeatModelId } from "./botPolicy";
 
 /**
  * Configuration for an AI player
@@ -11,8 +12,11 @@ export interface AIPlayerConfig {
   /** The player's display name */
   name: string;
 
-  /** Model ID from the registry (e.g., "default:openai", "default:claude") */
-  modelId: ModelId;
+  /**
+   * Model ID from the registry (e.g., "default:openai", "default:claude"),
+   * or a bot seat (e.g., "bot:easy") that needs no model
+   */
+  modelId: ModelId | BotSeatModelId;
 }
 
 /**
@@ -0,0 +1,44 @@
+/**
+ * Bot seats
+ *
+ * Maps a bot model ID to the policy that plays it, so the web and CLI turn
+ * paths can run any bot seat the same way:
+ * - bot:easy, bot:medium, bot:hard - the heuristic bot at that difficulty
+ * - bot:montecarlo - the Monte Carlo bot, which only sees the player's view
+ */
+
+import { createPlayerView } from "../core/engine/game-engine.view";
+import type { GameSnapshot, JournalCommand } from "../core/engine/game-engine.types";
+import { chooseHeuristicCommand, getBotDifficulty, type BotModelId } from "./heuristicBot";
+import {
+  chooseMonteCarloCommand,
+  MONTE_CARLO_MODEL_ID,
+  type MonteCarloBotOptions,
+} from "./monteCarloBot";
+
+/** Model ID for any bot seat */
+export type BotSeatModelId = BotModelId | typeof MONTE_CARLO_MODEL_ID;
+
+/**
+ * Picks a bot's next command, or null if it has nothing to do
+ */
+export type BotPolicy = (snapshot: GameSnapshot, playerId: string) => JournalCommand | null;
+
+export interface BotPolicyOptions {
+  /** Search budget for Monte Carlo seats */
+  monteCarlo?: MonteCarloBotOptions;
+}
+
+/**
+ * The policy for a bot seat's model ID, or null for any other model
+ */
+export function createBotPolicy(modelId: string, options: BotPolicyOptions = {}): BotPolicy | null {
+  if (modelId === MONTE_CARLO_MODEL_ID) {
+    return (snapshot, playerId) =>
+      chooseMonteCarloCommand(createPlayerView(snapshot, playerId), options.monteCarlo);
+  }
+
+  const difficulty = getBotDifficulty(modelId);
+  if (!difficulty) return null;
+  return (snapshot, playerId) => chooseHeuristicCommand(snapshot, playerId, { difficulty });
+}
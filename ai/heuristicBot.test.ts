@@ -0,0 +1,418 @@
+/**
+ * Tests for the heuristic bot
+ */
+
+import { describe, it, expect } from "bun:test";
+import { GameEngine } from "../core/engine/game-engine";
+import type { Card } from "../core/card/card.types";
+import type { Meld } from "../core/meld/meld.types";
+import type { GameSnapshot } from "../core/engine/game-engine.types";
+import { CONTRACTS } from "../core/engine/contracts";
+import { chooseHeuristicCommand, getBotDifficulty } from "./heuristicBot";
+
+function card(rank: Card["rank"], suit: Card["suit"], id?: string): Card {
+  return { id: id ?? `${rank}-${suit}`, rank, suit };
+}
+
+function createEngine(seed = "bot-seed") {
+  return GameEngine.createGame({
+    playerNames: ["Alice", "Bob", "Carol", "Dave"],
+    seed,
+  });
+}
+
+/** Replace one player's hand (and down status) in a snapshot */
+function withHand(
+  snapshot: GameSnapshot,
+  playerId: string,
+  hand: Card[],
+  isDown = false
+): GameSnapshot {
+  return {
+    ...snapshot,
+    players: snapshot.players.map((p) => (p.id === playerId ? { ...p, hand, isDown } : p)),
+  };
+}
+
+/** The awaiting player at the start of a turn, with the given top discard */
+function atDraw(hand: Card[], topDiscard: Card): GameSnapshot {
+  const snapshot = createEngine().getSnapshot();
+  return withHand(
+    { ...snapshot, discard: [topDiscard, ...snapshot.discard.slice(1)] },
+    snapshot.awaitingPlayerId,
+    hand
+  );
+}
+
+/** The awaiting player after drawing */
+function afterDraw(hand: Card[], isDown = false, table: Meld[] = []): GameSnapshot {
+  const engine = createEngine();
+  const playerId = engine.getAwaitingPlayerId();
+  engine.drawFromStock(playerId);
+  return { ...withHand(engine.getSnapshot(), playerId, hand, isDown), table };
+}
+
+/** The awaiting player in the discard phase */
+function atDiscard(hand: Card[], isDown = false, table: Meld[] = []): GameSnapshot {
+  const engine = createEngine();
+  const playerId = engine.getAwaitingPlayerId();
+  engine.drawFromStock(playerId);
+  engine.skip(playerId);
+  return { ...withHand(engine.getSnapshot(), playerId, hand, isDown), table };
+}
+
+const pairsHand = [
+  card("7", "hearts"),
+  card("7", "clubs"),
+  card("K", "hearts"),
+  card("K", "diamonds"),
+  card("4", "diamonds"),
+  card("A", "spades"),
+];
+
+describe("chooseHeuristicCommand - drawing", () => {
+  it("takes the discard when it completes a set", () => {
+    const snapshot = atDraw(pairsHand, card("7", "spades"));
+
+    expect(chooseHeuristicCommand(snapshot, snapshot.awaitingPlayerId)).toEqual({
+      type: "DRAW_FROM_DISCARD",
+      playerId: snapshot.awaitingPlayerId,
+    });
+  });
+
+  it("draws from the stock when the discard does not help", () => {
+    const snapshot = atDraw(pairsHand, card("9", "spades"));
+
+    expect(chooseHeuristicCommand(snapshot, snapshot.awaitingPlayerId)).toEqual({
+      type: "DRAW_FROM_STOCK",
+      playerId: snapshot.awaitingPlayerId,
+    });
+  });
+});
+
+describe("chooseHeuristicCommand - laying down and off", () => {
+  it("lays down as soon as it can, keeping wilds when naturals will do", () => {
+    const hand = [
+      card("7", "hearts"),
+      card("7", "clubs"),
+      card("7", "spades"),
+      card("K", "hearts"),
+      card("K", "diamonds"),
+      card("K", "clubs"),
+      card("2", "hearts"),
+      card("4", "diamonds"),
+    ];
+    const snapshot = afterDraw(hand);
+
+    const command = chooseHeuristicCommand(snapshot, snapshot.awaitingPlayerId);
+
+    expect(command?.type).toBe("LAY_DOWN");
+    const used = command?.type === "LAY_DOWN" ? command.melds.flatMap((m) => m.cardIds) : [];
+    expect(used).not.toContain("2-hearts");
+  });
+
+  it("lays off the most expensive card first once down", () => {
+    const nines: Meld = {
+      id: "meld-nines",
+      type: "set",
+      ownerId: "someone",
+      cards: [card("9", "hearts"), card("9", "diamonds"), card("9", "clubs")],
+    };
+    const hand = [card("9", "spades"), card("2", "clubs"), card("5", "hearts")];
+    const snapshot = afterDraw(hand, true, [nines]);
+    const playerId = snapshot.awaitingPlayerId;
+
+    expect(chooseHeuristicCommand(snapshot, playerId)).toEqual({
+      type: "LAY_OFF",
+      playerId,
+      cardId: "2-clubs",
+      meldId: "meld-nines",
+    });
+  });
+
+  it("skips when it can neither lay down nor lay off", () => {
+    const snapshot = afterDraw(pairsHand);
+
+    expect(chooseHeuristicCommand(snapshot, snapshot.awaitingPlayerId)).toEqual({
+      type: "SKIP",
+      playerId: snapshot.awaitingPlayerId,
+    });
+  });
+});
+
+describe("chooseHeuristicCommand - discarding", () => {
+  it("keeps pairs and sheds the highest dead card", () => {
+    const snapshot = atDiscard(pairsHand);
+
+    expect(chooseHeuristicCommand(snapshot, snapshot.awaitingPlayerId)).toEqual({
+      type: "DISCARD",
+      playerId: snapshot.awaitingPlayerId,
+      cardId: "A-spades",
+    });
+  });
+
+  it("keeps run connectors over a lower singleton", () => {
+    const hand = [
+      card("5", "hearts"),
+      card("6", "hearts"),
+      card("7", "hearts"),
+      card("Q", "clubs"),
+      card("Q", "spades"),
+      card("3", "diamonds"),
+    ];
+    const snapshot = atDiscard(hand);
+    // Round 2: one set and one run
+    const contractSnapshot = { ...snapshot, currentRound: 2 as const, contract: CONTRACTS[2] };
+
+    expect(chooseHeuristicCommand(contractSnapshot, snapshot.awaitingPlayerId)).toEqual({
+      type: "DISCARD",
+      playerId: snapshot.awaitingPlayerId,
+      cardId: "3-diamonds",
+    });
+  });
+
+  it("holds wilds while there is anything else to discard", () => {
+    const hand = [card("Joker", null, "JK1"), card("2", "clubs"), card("4", "diamonds")];
+    const snapshot = atDiscard(hand);
+
+    expect(chooseHeuristicCommand(snapshot, snapshot.awaitingPlayerId)).toEqual({
+      type: "DISCARD",
+      playerId: snapshot.awaitingPlayerId,
+      cardId: "4-diamonds",
+    });
+  });
+
+  it("avoids discarding a card that plays on the table", () => {
+    const kings: Meld = {
+      id: "meld-kings",
+      type: "set",
+      ownerId: "someone",
+      cards: [card("K", "clubs"), card("K", "spades"), card("K", "hearts", "K-hearts-2")],
+    };
+    const hand = [card("K", "diamonds"), card("Q", "hearts")];
+    const snapshot = atDiscard(hand, true, [kings]);
+
+    expect(chooseHeuristicCommand(snapshot, snapshot.awaitingPlayerId)).toEqual({
+      type: "DISCARD",
+      playerId: snapshot.awaitingPlayerId,
+      cardId: "Q-hearts",
+    });
+  });
+});
+
+describe("chooseHeuristicCommand - May I", () => {
+  /** A discard is up and another player is waiting to draw */
+  function afterDiscard(topDiscard: Card) {
+    const engine = createEngine();
+    const discarderId = engine.getAwaitingPlayerId();
+    engine.drawFromStock(discarderId);
+    engine.skip(discarderId);
+    const hand = engine.getSnapshot().players.find((p) => p.id === discarderId)!.hand;
+    engine.discard(discarderId, hand[0]!.id);
+    const snapshot = engine.getSnapshot();
+    const other = snapshot.players.find(
+      (p) => p.id !== snapshot.awaitingPlayerId && p.id !== discarderId
+    )!;
+    return {
+      snapshot: { ...snapshot, discard: [topDiscard, ...snapshot.discard.slice(1)] },
+      otherId: other.id,
+    };
+  }
+
+  it("calls May I out of turn for a card that completes a set", () => {
+    const { snapshot, otherId } = afterDiscard(card("7", "spades"));
+
+    expect(chooseHeuristicCommand(withHand(snapshot, otherId, pairsHand), otherId)).toEqual({
+      type: "CALL_MAY_I",
+      playerId: otherId,
+    });
+  });
+
+  it("does not call May I for a card that does not help", () => {
+    const { snapshot, otherId } = afterDiscard(card("9", "spades"));
+
+    expect(chooseHeuristicCommand(withHand(snapshot, otherId, pairsHand), otherId)).toBeNull();
+  });
+
+  it("does not call May I when someone is about to go out", () => {
+    const { snapshot, otherId } = afterDiscard(card("7", "spades"));
+    const rival = snapshot.players.find((p) => p.id !== otherId)!;
+    const risky = withHand(
+      withHand(snapshot, otherId, pairsHand),
+      rival.id,
+      [card("5", "hearts")],
+      true
+    );
+
+    expect(chooseHeuristicCommand(risky, otherId)).toBeNull();
+  });
+
+  it("claims when prompted for a card it wants and allows otherwise", () => {
+    const engine = createEngine();
+    const discarderId = engine.getAwaitingPlayerId();
+    engine.drawFromStock(discarderId);
+    engine.skip(discarderId);
+    const hand = engine.getSnapshot().players.find((p) => p.id === discarderId)!.hand;
+    engine.discard(discarderId, hand[0]!.id);
+    const waiting = engine.getSnapshot();
+    const caller = waiting.players.find(
+      (p) => p.id !== waiting.awaitingPlayerId && p.id !== discarderId
+    )!;
+    engine.callMayI(caller.id);
+
+    const resolving = engine.getSnapshot();
+    const promptedId = resolving.mayIContext!.playerBeingPrompted!;
+    const claimed = resolving.mayIContext!.cardBeingClaimed;
+    const wanting = [
+      { ...claimed, id: "same-rank-1", suit: claimed.suit === "hearts" ? "clubs" : "hearts" },
+      { ...claimed, id: "same-rank-2", suit: claimed.suit === "spades" ? "diamonds" : "spades" },
+      card("4", "diamonds"),
+    ] as Card[];
+    // Two pairs and two singletons, none of the claimed rank
+    const [a, b, c, d] = (["7", "K", "4", "A", "9"] as const).filter((r) => r !== claimed.rank);
+    const notWanting = [
+      card(a!, "hearts"),
+      card(a!, "clubs"),
+      card(b!, "hearts"),
+      card(b!, "clubs"),
+      card(c!, "diamonds"),
+      card(d!, "spades"),
+    ];
+
+    // Wilds help every hand, so only check with a natural up for grabs
+    if (claimed.rank !== "2" && claimed.rank !== "Joker") {
+      expect(chooseHeuristicCommand(withHand(resolving, promptedId, wanting), promptedId)).toEqual(
+        { type: "CLAIM_MAY_I", playerId: promptedId }
+      );
+      expect(
+        chooseHeuristicCommand(withHand(resolving, promptedId, notWanting), promptedId)
+      ).toEqual({ type: "ALLOW_MAY_I", playerId: promptedId });
+    }
+  });
+});
+
+describe("chooseHeuristicCommand - difficulty", () => {
+  it("reads the difficulty from bot model IDs", () => {
+    expect(getBotDifficulty("bot:hard")).toBe("hard");
+    expect(getBotDifficulty("bot:expert")).toBeNull();
+    expect(getBotDifficulty("default:grok")).toBeNull();
+  });
+
+  it("easy draws from the stock even when the discard would help", () => {
+    const snapshot = atDraw(pairsHand, card("7", "spades"));
+
+    expect(
+      chooseHeuristicCommand(snapshot, snapshot.awaitingPlayerId, { difficulty: "easy" })
+    ).toEqual({ type: "DRAW_FROM_STOCK", playerId: snapshot.awaitingPlayerId });
+  });
+
+  it("easy keeps pairs but not run connectors", () => {
+    const hand = [
+      card("5", "hearts"),
+      card("6", "hearts"),
+      card("Q", "clubs"),
+      card("Q", "spades"),
+      card("3", "diamonds"),
+    ];
+    const snapshot = atDiscard(hand);
+    const contractSnapshot = { ...snapshot, currentRound: 2 as const, contract: CONTRACTS[2] };
+
+    expect(
+      chooseHeuristicCommand(contractSnapshot, snapshot.awaitingPlayerId, { difficulty: "easy" })
+    ).toEqual({ type: "DISCARD", playerId: snapshot.awaitingPlayerId, cardId: "6-hearts" });
+  });
+
+  it("hard lets go of a pair whose outs have all been seen", () => {
+    const hand = [
+      card("7", "hearts"),
+      card("7", "clubs"),
+      card("K", "hearts"),
+      card("K", "diamonds"),
+      card("Q", "hearts"),
+      card("Q", "diamonds"),
+    ];
+    // Both decks' other six Queens are already in the discard pile
+    const deadQueens = [
+      card("Q", "clubs", "Q-clubs-1"),
+      card("Q", "clubs", "Q-clubs-2"),
+      card("Q", "spades", "Q-spades-1"),
+      card("Q", "spades", "Q-spades-2"),
+      card("Q", "hearts", "Q-hearts-2"),
+      card("Q", "diamonds", "Q-diamonds-2"),
+    ];
+    const snapshot = { ...atDiscard(hand), discard: deadQueens };
+    const playerId = snapshot.awaitingPlayerId;
+
+    expect(chooseHeuristicCommand(snapshot, playerId)).toEqual({
+      type: "DISCARD",
+      playerId,
+      cardId: "K-hearts",
+    });
+    expect(chooseHeuristicCommand(snapshot, playerId, { difficulty: "hard" })).toEqual({
+      type: "DISCARD",
+      playerId,
+      cardId: "Q-hearts",
+    });
+  });
+
+  it("only medium and hard call May I", () => {
+    const engine = createEngine();
+    const discarderId = engine.getAwaitingPlayerId();
+    engine.drawFromStock(discarderId);
+    engine.skip(discarderId);
+    const discarderHand = engine.getSnapshot().players.find((p) => p.id === discarderId)!.hand;
+    engine.discard(discarderId, discarderHand[0]!.id);
+    const waiting = engine.getSnapshot();
+    const other = waiting.players.find(
+      (p) => p.id !== waiting.awaitingPlayerId && p.id !== discarderId
+    )!;
+    const snapshot = withHand(
+      { ...waiting, discard: [card("7", "spades"), ...waiting.discard.slice(1)] },
+      other.id,
+      pairsHand
+    );
+
+    expect(chooseHeuristicCommand(snapshot, other.id, { difficulty: "easy" })).toBeNull();
+    expect(chooseHeuristicCommand(snapshot, other.id, { difficulty: "hard" })?.type).toBe(
+      "CALL_MAY_I"
+    );
+  });
+});
+
+describe("chooseHeuristicCommand - full round", () => {
+  it("plays a round to the end with every command accepted", () => {
+    const engine = createEngine("bot-round");
+    // One seat per difficulty, plus a second medium
+    const difficulties = ["easy", "medium", "hard", "medium"] as const;
+    const difficultyOf = (playerId: string) =>
+      difficulties[engine.getSnapshot().players.findIndex((p) => p.id === playerId)];
+
+    for (let step = 0; step < 2000; step++) {
+      const snapshot = engine.getSnapshot();
+      if (snapshot.roundHistory.length > 0) break;
+
+      const actorId =
+        snapshot.phase === "RESOLVING_MAY_I"
+          ? snapshot.mayIContext!.playerBeingPrompted!
+          : snapshot.awaitingPlayerId;
+      // Give the others a chance to call May I before the draw
+      const caller =
+        snapshot.turnPhase === "AWAITING_DRAW" && snapshot.phase === "ROUND_ACTIVE"
+          ? snapshot.players.find(
+              (p) =>
+                p.id !== actorId &&
+                chooseHeuristicCommand(snapshot, p.id, { difficulty: difficultyOf(p.id) }) !== null
+            )
+          : undefined;
+
+      const playerId = caller?.id ?? actorId;
+      const command = chooseHeuristicCommand(snapshot, playerId, {
+        difficulty: difficultyOf(playerId),
+      });
+      expect(command).not.toBeNull();
+      expect(engine.dispatch(command!).accepted).toBe(true);
+    }
+
+    expect(engine.getSnapshot().roundHistory).toHaveLength(1);
+  });
+});
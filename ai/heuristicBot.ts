@@ -0,0 +1,384 @@
+/**
+ * May I? Heuristic Bot
+ *
+ * A deterministic, rule-based player that follows docs/game-strategy.md.
+ * It needs no model or API key, so AI seats keep playing sensibly when the
+ * LLM agent fails or is not configured.
+ *
+ * The bot picks one command at a time from the legal moves:
+ * - Draw: take the discard only when it brings the contract closer
+ * - Action: swap Jokers when it costs nothing, lay down as soon as possible
+ *   (saving wilds unless someone is about to go out), then lay off greedily
+ * - Discard: keep pairs and connectors, shed dead high cards, avoid feeding
+ *   table melds
+ * - May I: call or claim only for a card that helps, when close to going
+ *   down and nobody is about to go out
+ *
+ * Difficulty sets how much of that the bot sees. Easy looks no further than
+ * pairs in its own hand, medium weighs every card against its contract and
+ * watches the table, and hard also remembers every card that has been seen,
+ * so it holds on to partials that can still be completed.
+ */
+
+import type { Card } from "../core/card/card.types";
+import { getPointValue, isWild } from "../core/card/card.utils";
+import { resolveContract, type Contract } from "../core/engine/contracts";
+import { getLayDownValidationOptions, resolveRuleSet } from "../core/engine/house-rules";
+import { canLayOffToRun, canLayOffToSet } from "../core/engine/layoff";
+import { enumerateLegalMoves, type LegalMove } from "../core/engine/game-engine.moves";
+import { diagnoseCommand } from "../core/engine/game-engine.outcome";
+import { getDeckConfig } from "../core/engine/round.machine";
+import type { Player } from "../core/engine/engine.types";
+import type { GameSnapshot, JournalCommand } from "../core/engine/game-engine.types";
+import { evaluateContractDistance } from "../core/meld/meld.distance";
+import type { MeldValidationOptions } from "../core/meld/meld.validation";
+import { solveContract, type ContractSolution } from "../core/meld/meld.solver";
+
+/** A down opponent holding this many cards or fewer may go out any turn */
+const ENDGAME_HAND_SIZE = 2;
+
+/** Only call May I when at most this many cards from the contract after taking it */
+const MAY_I_MAX_CARDS_NEEDED = 3;
+
+export const BOT_DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+export type BotDifficulty = (typeof BOT_DIFFICULTIES)[number];
+
+/** Model ID for a bot seat, e.g. "bot:easy" */
+export type BotModelId = `bot:${BotDifficulty}`;
+
+/**
+ * The difficulty of a bot seat's model ID, or null for any other model
+ */
+export function getBotDifficulty(modelId: string): BotDifficulty | null {
+  const [prefix, difficulty] = modelId.split(":");
+  return prefix === "bot" && BOT_DIFFICULTIES.includes(difficulty as BotDifficulty)
+    ? (difficulty as BotDifficulty)
+    : null;
+}
+
+interface DifficultyProfile {
+  /** Weigh each draw, discard and May I by how it changes the contract distance */
+  lookahead: boolean;
+  /** Watch the table for opponents about to go out and melds a discard would feed */
+  watchesTable: boolean;
+  /** Count the copies of each out still unseen, so dead partials are let go */
+  tracksCards: boolean;
+}
+
+const DIFFICULTY_PROFILES: Record<BotDifficulty, DifficultyProfile> = {
+  easy: { lookahead: false, watchesTable: false, tracksCards: false },
+  medium: { lookahead: true, watchesTable: true, tracksCards: false },
+  hard: { lookahead: true, watchesTable: true, tracksCards: true },
+};
+
+export interface HeuristicBotOptions {
+  /** How much the bot looks ahead and tracks cards (default: medium) */
+  difficulty?: BotDifficulty;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Decision
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Choose the bot's next command, or null if it has nothing to do.
+ *
+ * On its own turn the bot always has a command until the turn ends. Out of
+ * turn it returns CALL_MAY_I when calling is worthwhile, and ALLOW_MAY_I or
+ * CLAIM_MAY_I when prompted.
+ */
+export function chooseHeuristicCommand(
+  snapshot: GameSnapshot,
+  playerId: string,
+  options: HeuristicBotOptions = {}
+): JournalCommand | null {
+  const player = snapshot.players.find((p) => p.id === playerId);
+  const moves = enumerateLegalMoves(snapshot, playerId);
+  if (!player || moves.length === 0) return null;
+
+  const context = createContext(snapshot, player, options.difficulty ?? "medium");
+  const { lookahead } = context.profile;
+
+  if (snapshot.phase === "RESOLVING_MAY_I") {
+    const card = snapshot.mayIContext?.cardBeingClaimed;
+    const claim = findMove(moves, "CLAIM_MAY_I");
+    const isCurrentPlayer = snapshot.players[snapshot.currentPlayerIndex]?.id === playerId;
+    // The current player takes the card without a penalty, so any help is enough
+    const wantsCard =
+      lookahead && card && (isCurrentPlayer ? helps(context, card) : shouldMayI(context, card));
+    if (claim && wantsCard) return claim;
+    return findMove(moves, "ALLOW_MAY_I");
+  }
+
+  if (snapshot.awaitingPlayerId !== playerId) {
+    const call = findMove(moves, "CALL_MAY_I");
+    const card = snapshot.discard[0];
+    return lookahead && call && card && shouldMayI(context, card) ? call : null;
+  }
+
+  switch (snapshot.turnPhase) {
+    case "AWAITING_DRAW":
+      return chooseDraw(context, moves);
+    case "AWAITING_ACTION":
+      return chooseAction(context, moves);
+    case "AWAITING_DISCARD":
+      return chooseDiscard(context, moves);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Context
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface BotContext {
+  snapshot: GameSnapshot;
+  player: Player;
+  profile: DifficultyProfile;
+  contract: Contract;
+  validation: MeldValidationOptions;
+  keepCardToDiscard: boolean;
+}
+
+function createContext(
+  snapshot: GameSnapshot,
+  player: Player,
+  difficulty: BotDifficulty
+): BotContext {
+  const rules = resolveRuleSet(snapshot.rules);
+  return {
+    snapshot,
+    player,
+    profile: DIFFICULTY_PROFILES[difficulty],
+    contract: resolveContract(snapshot.contract, snapshot.currentRound),
+    validation: getLayDownValidationOptions(rules),
+    keepCardToDiscard: !rules.allowGoOutWithoutDiscard,
+  };
+}
+
+function findMove<T extends LegalMove["type"]>(
+  moves: LegalMove[],
+  type: T
+): Extract<LegalMove, { type: T }> | null {
+  return (moves.find((m) => m.type === type) as Extract<LegalMove, { type: T }>) ?? null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Hand evaluation
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Cards still missing from the partial melds. Unlike cardsNeeded, this
+ * ignores final-hand dead weight, so one more useful card always counts.
+ */
+function missingCards(context: BotContext, hand: Card[]): number {
+  const distance = evaluateContractDistance(hand, context.contract, context.validation);
+  return distance.partials.reduce((sum, p) => sum + p.missing, 0);
+}
+
+/** Whether adding the card brings the player's contract closer */
+function helps(context: BotContext, card: Card): boolean {
+  if (context.player.isDown) return false;
+  const hand = context.player.hand;
+  return missingCards(context, [...hand, card]) < missingCards(context, hand);
+}
+
+/**
+ * Someone who is down with a nearly empty hand could go out on their turn
+ */
+function isEndgame(context: BotContext): boolean {
+  if (!context.profile.watchesTable) return false;
+  return context.snapshot.players.some(
+    (p) => p.id !== context.player.id && p.isDown && p.hand.length <= ENDGAME_HAND_SIZE
+  );
+}
+
+/**
+ * May I costs a penalty card, so only take the card when it helps, the
+ * contract is within reach, and nobody is about to go out. In the final
+ * hand every card must be melded, so the card has to complete the contract.
+ */
+function shouldMayI(context: BotContext, card: Card): boolean {
+  if (!helps(context, card) || isEndgame(context)) return false;
+  const missingAfter = missingCards(context, [...context.player.hand, card]);
+  const limit = context.contract.mustUseAllCards ? 0 : MAY_I_MAX_CARDS_NEEDED;
+  return missingAfter <= limit;
+}
+
+/** Whether the card would lay off onto a meld already on the table */
+function playsOnTable(context: BotContext, card: Card): boolean {
+  if (!context.profile.watchesTable) return false;
+  return context.snapshot.table.some(
+    (meld) => canLayOffToSet(card, meld) || canLayOffToRun(card, meld)
+  );
+}
+
+/**
+ * Copies of the partials' outs not yet seen in this hand, on the table or
+ * in the discard pile. An out whose copies are all accounted for can only
+ * be filled by a wild.
+ */
+function liveOuts(context: BotContext, hand: Card[]): number {
+  const { snapshot } = context;
+  const seen = [
+    ...context.player.hand,
+    ...snapshot.table.flatMap((m) => m.cards),
+    ...snapshot.discard,
+  ];
+  const { deckCount } = getDeckConfig(snapshot.players.length);
+  const distance = evaluateContractDistance(hand, context.contract, context.validation);
+
+  let live = 0;
+  for (const need of distance.partials.flatMap((p) => p.outs)) {
+    const copies = need.suit === null ? deckCount * 4 : deckCount;
+    const seenCopies = seen.filter(
+      (c) => c.rank === need.rank && (need.suit === null || c.suit === need.suit)
+    ).length;
+    live += Math.max(0, copies - seenCopies);
+  }
+  return live;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Turn phases
+// ═══════════════════════════════════════════════════════════════════════════
+
+function chooseDraw(context: BotContext, moves: LegalMove[]): JournalCommand | null {
+  const fromDiscard = findMove(moves, "DRAW_FROM_DISCARD");
+  const topDiscard = context.snapshot.discard[0];
+  if (fromDiscard && topDiscard && context.profile.lookahead && helps(context, topDiscard)) {
+    return fromDiscard;
+  }
+  return findMove(moves, "DRAW_FROM_STOCK") ?? fromDiscard;
+}
+
+function chooseAction(context: BotContext, moves: LegalMove[]): JournalCommand | null {
+  const { player } = context;
+
+  if (!player.isDown) {
+    const swap = context.profile.lookahead ? chooseJokerSwap(context, moves) : null;
+    if (swap) return swap;
+
+    const layDown = chooseLayDown(context);
+    if (layDown) return layDown;
+  }
+
+  // Lay off the most expensive card first
+  const layOffs = moves.filter((m) => m.type === "LAY_OFF");
+  const layOff = maxBy(layOffs, (m) => cardValue(player.hand, m.cardId));
+  if (layOff) return layOff;
+
+  return findMove(moves, "SKIP");
+}
+
+/**
+ * Take a Joker when giving up the natural does not set the contract back
+ */
+function chooseJokerSwap(context: BotContext, moves: LegalMove[]): JournalCommand | null {
+  const hand = context.player.hand;
+  const before = missingCards(context, hand);
+
+  for (const move of moves) {
+    if (move.type !== "SWAP_JOKER") continue;
+    const joker = context.snapshot.table
+      .find((m) => m.id === move.meldId)
+      ?.cards.find((c) => c.id === move.jokerCardId);
+    if (!joker) continue;
+    const after = [...hand.filter((c) => c.id !== move.swapCardId), joker];
+    if (missingCards(context, after) <= before) return move;
+  }
+  return null;
+}
+
+/**
+ * Lay down the best solution. Wilds are saved for laying off unless someone
+ * is about to go out, in which case getting points out of hand matters more.
+ */
+function chooseLayDown(context: BotContext): JournalCommand | null {
+  const { player, contract } = context;
+  const solutions = solveContract(player.hand, contract, {
+    ...context.validation,
+    keepCardToDiscard: context.keepCardToDiscard,
+  });
+  if (solutions.length === 0) return null;
+
+  const wildsUsed = (solution: ContractSolution) =>
+    player.hand.filter(isWild).length - solution.remaining.filter(isWild).length;
+  const ranked = isEndgame(context)
+    ? solutions
+    : [...solutions].sort((a, b) => wildsUsed(a) - wildsUsed(b) || a.pointsLeft - b.pointsLeft);
+
+  const command: JournalCommand = {
+    type: "LAY_DOWN",
+    playerId: player.id,
+    melds: ranked[0]!.melds,
+  };
+  return diagnoseCommand(context.snapshot, command) === null ? command : null;
+}
+
+/**
+ * Keep the cards that build toward the contract (or play on the table once
+ * down), and shed the most expensive of the rest. Wilds go last. When
+ * tracking cards, keep the partials that can still be completed.
+ */
+function chooseDiscard(context: BotContext, moves: LegalMove[]): JournalCommand | null {
+  const { player, profile } = context;
+  const discards = moves.filter((m) => m.type === "DISCARD");
+  const cardOf = (cardId: string) => player.hand.find((c) => c.id === cardId)!;
+
+  const scored = discards.map((move) => {
+    const card = cardOf(move.cardId);
+    const rest = player.hand.filter((c) => c.id !== card.id);
+    return {
+      move,
+      wild: isWild(card),
+      cost: discardCost(context, card, rest),
+      liveOuts: profile.tracksCards && !player.isDown ? liveOuts(context, rest) : 0,
+      feedsTable: playsOnTable(context, card),
+      points: getPointValue(card),
+    };
+  });
+
+  scored.sort(
+    (a, b) =>
+      Number(a.wild) - Number(b.wild) ||
+      a.cost - b.cost ||
+      b.liveOuts - a.liveOuts ||
+      Number(a.feedsTable) - Number(b.feedsTable) ||
+      b.points - a.points
+  );
+  return scored[0]?.move ?? null;
+}
+
+/**
+ * How much discarding the card sets the hand back. Without lookahead the
+ * bot only knows to keep pairs.
+ */
+function discardCost(context: BotContext, card: Card, rest: Card[]): number {
+  // Once down, the only use for a card is laying it off
+  if (context.player.isDown) return playsOnTable(context, card) ? 1 : 0;
+  if (!context.profile.lookahead) return rest.some((c) => c.rank === card.rank) ? 1 : 0;
+  return missingCards(context, rest);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════════════
+
+function cardValue(hand: Card[], cardId: string): number {
+  const card = hand.find((c) => c.id === cardId);
+  return card ? getPointValue(card) : 0;
+}
+
+function maxBy<T>(items: T[], score: (item: T) => number): T | null {
+  let best: T | null = null;
+  let bestScore = -Infinity;
+  for (const item of items) {
+    const value = score(item);
+    if (value > bestScore) {
+      best = item;
+      bestScore = value;
+    }
+  }
+  return best;
+}
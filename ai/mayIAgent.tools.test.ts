@@ -10,6 +10,8 @@ import { getAvailableToolNames } from "./mayIAgent.tools";
 import type { GameSnapshot } from "../core/engine/game-engine.types";
 import type { Player } from "../core/engine/engine.types";
 import type { Meld } from "../core/meld/meld.types";
+import { DEFAULT_RULE_SET } from "../core/engine/house-rules";
+import { DEFAULT_CONTRACTS } from "../core/engine/contracts";
 
 /**
  * Helper to create minimal snapshots for testing.
@@ -66,11 +68,16 @@ function makeSnapshot(overrides: {
     lastDiscardedByPlayerId: null,
     discardClaimed: false,
     currentRound,
-    contract: { roundNumber: currentRound, sets: 2, runs: 0 },
+    contract: { roundNumber: currentRound, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: currentRound === 6 },
+    contracts: DEFAULT_CONTRACTS,
+    seed: null,
+    roundSeed: null,
+    rules: DEFAULT_RULE_SET,
     players: [player],
     dealerIndex: 0,
     currentPlayerIndex: 0,
     table,
+    discardHistory: [],
     stock: [],
     discard: [],
     stockCount: 50,
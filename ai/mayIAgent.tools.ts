@@ -10,13 +10,14 @@ import { z } from "zod/v4";
 import type { GameSnapshot } from "../core/engine/game-engine.types";
 import type { AIGameAdapter } from "./ai-game-adapter.types";
 import type { ToolExecutionResult } from "./mayIAgent.types";
-import { outputGameStateForLLM, type ActionLogEntry } from "../cli/shared/cli.llm-output";
+import type { DomainEvent } from "../core/engine/game-engine.events";
+import { outputGameStateForLLM } from "../cli/shared/cli.llm-output";
 import { getAvailableActions } from "../core/engine/game-engine.availability";
 
 /** Options for creating May I tools */
 export interface CreateMayIToolsOptions {
-  /** Optional action log entries for LLM context */
-  actionLog?: ActionLogEntry[];
+  /** Recent domain events from before this turn, for LLM context */
+  recentEvents?: DomainEvent[];
 }
 
 /**
@@ -29,15 +30,36 @@ export function createMayITools(
   playerId: string,
   options: CreateMayIToolsOptions = {}
 ) {
+  // Only passed in when the caller has a recent events feed
+  const recentEvents = options.recentEvents ? [...options.recentEvents] : undefined;
+
   function executeAction(actionFn: () => GameSnapshot): ToolExecutionResult {
-    const after = actionFn();
+    const previous = game.getLastOutcome();
+    actionFn();
+    // A new outcome means the action reached the engine
+    const outcome = game.getLastOutcome();
+    const sent = outcome !== null && outcome !== previous;
+    if (sent) {
+      recentEvents?.push(...outcome.domainEvents);
+    }
     const state = game.getSnapshot();
-    const gameState = outputGameStateForLLM(state, playerId, { actionLog: options.actionLog });
+    const gameState = outputGameStateForLLM(state, playerId, { recentEvents });
     const turnComplete = state.awaitingPlayerId !== playerId;
 
+    if (!sent) {
+      return {
+        success: false,
+        message: "Invalid card position or meld number",
+        errorCode: null,
+        gameState,
+        turnComplete,
+      };
+    }
+
     return {
-      success: after.lastError === null,
-      message: after.lastError ?? "OK",
+      success: outcome.accepted,
+      message: outcome.accepted ? "OK" : `${outcome.errorCode}: ${outcome.message}`,
+      errorCode: outcome.errorCode,
       gameState,
       turnComplete,
     };
@@ -6,7 +6,8 @@
 
 import { generateText, type LanguageModel, type StepResult } from "ai";
 import type { AIGameAdapter } from "./ai-game-adapter.types";
-import { outputGameStateForLLM, type ActionLogEntry } from "../cli/shared/cli.llm-output";
+import { outputGameStateForLLM } from "../cli/shared/cli.llm-output";
+import type { DomainEvent } from "../core/engine/game-engine.events";
 import { buildSystemPrompt } from "./mayIAgent.prompt";
 import {
   createMayITools,
@@ -69,8 +70,8 @@ export interface ExecuteTurnConfig {
   /** Enable telemetry/devtools. Default: true */
   telemetry?: boolean;
 
-  /** Optional action log entries for LLM context (only used in CLI mode) */
-  actionLog?: ActionLogEntry[];
+  /** Recent domain events for the RECENT ACTIONS section of the game state */
+  recentEvents?: DomainEvent[];
 
   /** AbortSignal to cancel the LLM call mid-turn (e.g., when May-I is called) */
   abortSignal?: AbortSignal;
@@ -110,12 +111,12 @@ export async function executeTurn(
     maxSteps = 10,
     debug = false,
     telemetry = true,
-    actionLog,
+    recentEvents,
     abortSignal,
     onPersist,
   } = config;
 
-  const tools = createMayITools(game, playerId, { actionLog });
+  const tools = createMayITools(game, playerId, { recentEvents });
   const systemPrompt = buildSystemPrompt();
   const actions: string[] = [];
 
@@ -143,11 +144,12 @@ export async function executeTurn(
     currentState.phase === "ROUND_ACTIVE" &&
     currentState.turnPhase === "AWAITING_DRAW"
   ) {
-    const drawResult = game.drawFromStock();
+    game.drawFromStock();
     actions.push("draw_from_stock({})");
 
     if (debug) {
-      console.log(`[AI] Auto-draw (down player): ${drawResult.lastError ?? "OK"}`);
+      const outcome = game.getLastOutcome();
+      console.log(`[AI] Auto-draw (down player): ${outcome?.accepted ? "OK" : outcome?.message}`);
     }
 
     // Refresh state after auto-draw
@@ -164,7 +166,7 @@ export async function executeTurn(
   }
 
   // Get game state for the AI (after potential auto-draw)
-  const initialGameState = outputGameStateForLLM(currentState, playerId, { actionLog });
+  const initialGameState = outputGameStateForLLM(currentState, playerId, { recentEvents });
 
   try {
     // Get display name for telemetry
@@ -2,6 +2,8 @@
  * Type definitions for May I? AI Agent
  */
 
+import type { CommandErrorCode } from "../core/engine/game-engine.outcome";
+
 /**
  * Result of a tool execution
  */
@@ -12,6 +14,9 @@ export interface ToolExecutionResult {
   /** Human-readable message about what happened */
   message: string;
 
+  /** Why the engine rejected the action (null when it succeeded) */
+  errorCode: CommandErrorCode | null;
+
   /** The new game state as text for the LLM */
   gameState: string;
 
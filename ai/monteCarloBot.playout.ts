@@ -0,0 +1,263 @@
+/**
+ * Playouts for the Monte Carlo bot
+ *
+ * A stripped-down model of a round, fast enough to play hundreds of times per
+ * decision. It keeps what decides who goes out and with how many points
+ * (drawing, laying down, laying off, discarding and May I) and drops the
+ * rest: hand order, Joker swaps, stock reshuffles and the May I priority
+ * queue (only the current player can block a May I).
+ *
+ * Every seat plays the same quick policy: take a discard that pairs up or is
+ * wild, lay down the first contract the solver finds, lay off everything that
+ * fits, and shed the most expensive card that builds toward nothing.
+ */
+
+import type { Card } from "../core/card/card.types";
+import { getPointValue, getRankValue, isWild } from "../core/card/card.utils";
+import { resolveContract, type Contract } from "../core/engine/contracts";
+import { getLayDownValidationOptions, resolveRuleSet } from "../core/engine/house-rules";
+import { canLayOffToRun, canLayOffToSet, getRunInsertPosition } from "../core/engine/layoff";
+import type { GameSnapshot } from "../core/engine/game-engine.types";
+import { evaluateContractDistance } from "../core/meld/meld.distance";
+import type { Meld } from "../core/meld/meld.types";
+import type { MeldValidationOptions } from "../core/meld/meld.validation";
+import { solveContract } from "../core/meld/meld.solver";
+
+/** Points charged per card still needed when a playout stops before the round ends */
+const CARD_NEEDED_PENALTY = 15;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// State
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface PlayoutSeat {
+  id: string;
+  hand: Card[];
+  isDown: boolean;
+}
+
+export interface PlayoutState {
+  seats: PlayoutSeat[];
+  /** Stock, top card first */
+  stock: Card[];
+  /** Discard pile, top card first */
+  discard: Card[];
+  table: Meld[];
+  /** Seat index whose turn it is */
+  current: number;
+  contract: Contract;
+  validation: MeldValidationOptions;
+  allowGoOutWithoutDiscard: boolean;
+  /** Who went out, once the round is over */
+  wentOut: string | null;
+}
+
+/**
+ * Copy a (determinized) snapshot into a playout state the playout can mutate
+ */
+export function createPlayoutState(snapshot: GameSnapshot): PlayoutState {
+  const rules = resolveRuleSet(snapshot.rules);
+  return {
+    seats: snapshot.players.map((p) => ({ id: p.id, hand: [...p.hand], isDown: p.isDown })),
+    stock: [...snapshot.stock],
+    discard: [...snapshot.discard],
+    table: snapshot.table.map((m) => ({ ...m, cards: [...m.cards] })),
+    current: snapshot.currentPlayerIndex,
+    contract: resolveContract(snapshot.contract, snapshot.currentRound),
+    validation: getLayDownValidationOptions(rules),
+    allowGoOutWithoutDiscard: rules.allowGoOutWithoutDiscard,
+    wentOut: null,
+  };
+}
+
+function seatIndex(state: PlayoutState, playerId: string): number {
+  return state.seats.findIndex((s) => s.id === playerId);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Turns
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Play the current seat's turn from the draw, then pass to the next seat.
+ * Pass a draw choice to override the policy.
+ *
+ * @returns false if there was no card to draw
+ */
+export function playTurn(state: PlayoutState, draw?: "stock" | "discard"): boolean {
+  const seat = state.seats[state.current]!;
+  const top = state.discard[0];
+  const fromDiscard =
+    draw === "discard" || (draw === undefined && top !== undefined && wantsCard(state, seat, top));
+
+  const card = fromDiscard ? state.discard.shift() : state.stock.shift();
+  if (!card) return false;
+  seat.hand.push(card);
+  finishTurn(state);
+  return true;
+}
+
+/**
+ * Play the current seat's turn after the draw: lay down or off, then discard
+ */
+export function finishTurn(state: PlayoutState): void {
+  const seat = state.seats[state.current]!;
+
+  // Lay offs wait for the next turn after laying down
+  if (!seat.isDown) {
+    layDown(state, seat);
+  } else if (!state.contract.mustUseAllCards) {
+    layOffAll(state, seat);
+  }
+
+  // In a final hand the solver only lays down with every card
+  if (seat.hand.length === 0) {
+    state.wentOut = seat.id;
+    return;
+  }
+
+  discard(state, seat, chooseDiscard(state, seat));
+}
+
+/**
+ * Discard a card from the current seat and pass to the next seat
+ */
+export function discard(state: PlayoutState, seat: PlayoutSeat, card: Card): void {
+  seat.hand = seat.hand.filter((c) => c.id !== card.id);
+  state.discard.unshift(card);
+  if (seat.hand.length === 0) {
+    state.wentOut = seat.id;
+    return;
+  }
+  state.current = (state.current + 1) % state.seats.length;
+}
+
+/**
+ * A player takes the top discard out of turn, plus a penalty card from the
+ * stock. The current player may block by taking it as their draw.
+ */
+export function mayI(state: PlayoutState, callerId: string, blockable: boolean): void {
+  const current = state.seats[state.current]!;
+  const top = state.discard[0];
+  if (!top) return;
+
+  if (blockable && wantsCard(state, current, top)) {
+    playTurn(state, "discard");
+    return;
+  }
+
+  const caller = state.seats[seatIndex(state, callerId)];
+  if (!caller) return;
+  caller.hand.push(state.discard.shift()!);
+  const penalty = state.stock.shift();
+  if (penalty) caller.hand.push(penalty);
+  playTurn(state, "stock");
+}
+
+/**
+ * Keep playing turns until the round ends, the stock runs out, or the turn limit
+ */
+export function playOut(state: PlayoutState, turns: number): void {
+  for (let turn = 0; turn < turns && state.wentOut === null; turn++) {
+    if (!playTurn(state)) return;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Policy
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Take wilds, cards that pair up, and (when the contract has runs) cards
+ * within two ranks of a same-suit card
+ */
+function wantsCard(state: PlayoutState, seat: PlayoutSeat, card: Card): boolean {
+  if (seat.isDown) return false;
+  if (isWild(card)) return true;
+  return seat.hand.some((c) => connects(state, c, card));
+}
+
+function connects(state: PlayoutState, a: Card, b: Card): boolean {
+  if (isWild(a) || isWild(b)) return false;
+  if (a.rank === b.rank) return true;
+  if (state.contract.runs === 0 || a.suit !== b.suit) return false;
+  return Math.abs(getRankValue(a.rank)! - getRankValue(b.rank)!) <= 2;
+}
+
+function layDown(state: PlayoutState, seat: PlayoutSeat): void {
+  const [solution] = solveContract(seat.hand, state.contract, {
+    ...state.validation,
+    keepCardToDiscard: !state.allowGoOutWithoutDiscard,
+  });
+  if (!solution) return;
+
+  for (const spec of solution.melds) {
+    state.table.push({
+      id: `playout-meld-${state.table.length}`,
+      type: spec.type,
+      ownerId: seat.id,
+      cards: spec.cardIds.map((id) => seat.hand.find((c) => c.id === id)!),
+    });
+  }
+  seat.hand = solution.remaining;
+  seat.isDown = true;
+}
+
+function layOffAll(state: PlayoutState, seat: PlayoutSeat): void {
+  const keep = state.allowGoOutWithoutDiscard ? 0 : 1;
+  for (const card of [...seat.hand]) {
+    if (seat.hand.length <= keep) return;
+    const meld = state.table.find((m) => canLayOffToSet(card, m) || canLayOffToRun(card, m));
+    if (!meld) continue;
+    if (getRunInsertPosition(card, meld) === "low") {
+      meld.cards.unshift(card);
+    } else {
+      meld.cards.push(card);
+    }
+    seat.hand = seat.hand.filter((c) => c.id !== card.id);
+  }
+}
+
+/**
+ * Shed the most expensive card that neither connects to another card in
+ * hand nor (once down) plays on the table. Wilds go last.
+ */
+function chooseDiscard(state: PlayoutState, seat: PlayoutSeat): Card {
+  const useful = (card: Card) =>
+    seat.isDown
+      ? state.table.some((m) => canLayOffToSet(card, m) || canLayOffToRun(card, m))
+      : seat.hand.some((c) => c.id !== card.id && connects(state, c, card));
+
+  return [...seat.hand].sort(
+    (a, b) =>
+      Number(isWild(a)) - Number(isWild(b)) ||
+      Number(useful(a)) - Number(useful(b)) ||
+      getPointValue(b) - getPointValue(a)
+  )[0]!;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Evaluation
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * How the playout went for a player, in points (higher is better): the
+ * opponents' average penalty minus the player's own. A finished round
+ * scores the cards left in hand; an unfinished one also charges for each
+ * card still needed to lay down.
+ */
+export function evaluatePlayout(state: PlayoutState, playerId: string): number {
+  const penalty = (seat: PlayoutSeat) => {
+    const points = seat.hand.reduce((sum, c) => sum + getPointValue(c), 0);
+    if (state.wentOut !== null || seat.isDown) return points;
+    const distance = evaluateContractDistance(seat.hand, state.contract, state.validation);
+    return points + CARD_NEEDED_PENALTY * distance.cardsNeeded;
+  };
+
+  const own = state.seats.find((s) => s.id === playerId);
+  const opponents = state.seats.filter((s) => s.id !== playerId);
+  if (!own || opponents.length === 0) return 0;
+
+  const opponentPenalty = opponents.reduce((sum, s) => sum + penalty(s), 0) / opponents.length;
+  return opponentPenalty - penalty(own);
+}
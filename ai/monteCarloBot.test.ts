@@ -0,0 +1,158 @@
+/**
+ * Tests for the Monte Carlo bot
+ */
+
+import { describe, it, expect } from "bun:test";
+import { GameEngine } from "../core/engine/game-engine";
+import { createPlayerView } from "../core/engine/game-engine.view";
+import { createRandomSource } from "../core/card/card.random";
+import type { Card } from "../core/card/card.types";
+import type { GameSnapshot } from "../core/engine/game-engine.types";
+import { chooseHeuristicCommand } from "./heuristicBot";
+import { chooseMonteCarloCommand, determinize } from "./monteCarloBot";
+
+function card(rank: Card["rank"], suit: Card["suit"], id?: string): Card {
+  return { id: id ?? `${rank}-${suit}`, rank, suit };
+}
+
+function createEngine(seed = "mc-seed") {
+  return GameEngine.createGame({
+    playerNames: ["Alice", "Bob", "Carol", "Dave"],
+    seed,
+  });
+}
+
+/** The awaiting player at the start of a turn, with the given hand and top discard */
+function atDraw(hand: Card[], topDiscard: Card): GameSnapshot {
+  const snapshot = createEngine().getSnapshot();
+  return {
+    ...snapshot,
+    discard: [topDiscard, ...snapshot.discard.slice(1)],
+    players: snapshot.players.map((p) => (p.id === snapshot.awaitingPlayerId ? { ...p, hand } : p)),
+  };
+}
+
+const pairsHand = [
+  card("7", "hearts"),
+  card("7", "clubs"),
+  card("K", "hearts"),
+  card("K", "diamonds"),
+  card("4", "diamonds"),
+  card("A", "spades"),
+  card("9", "clubs"),
+  card("3", "spades"),
+];
+
+/** A small budget that does not depend on the machine's speed */
+const budget = { iterations: 60, timeLimitMs: Infinity, seed: "mc-test" };
+
+describe("determinize", () => {
+  it("deals the hidden cards without touching what the player can see", () => {
+    const engine = createEngine();
+    const snapshot = engine.getSnapshot();
+    const viewerId = snapshot.awaitingPlayerId;
+    const view = createPlayerView(snapshot, viewerId);
+
+    const sampled = determinize(view, createRandomSource("determinize"));
+
+    expect(sampled.players.find((p) => p.id === viewerId)!.hand).toEqual(view.yourHand);
+    for (const opponent of view.opponents) {
+      expect(sampled.players.find((p) => p.id === opponent.id)!.hand).toHaveLength(
+        opponent.handCount
+      );
+    }
+    expect(sampled.stock).toHaveLength(view.stockCount);
+    expect(sampled.discard).toHaveLength(view.discardCount);
+    expect(sampled.discard[0]).toEqual(view.topDiscard!);
+    expect(sampled.currentPlayerIndex).toBe(snapshot.currentPlayerIndex);
+
+    // Every card is dealt once, and the full deck is accounted for
+    const all = [...sampled.players.flatMap((p) => p.hand), ...sampled.stock, ...sampled.discard];
+    expect(new Set(all.map((c) => c.id)).size).toBe(all.length);
+    expect(all).toHaveLength(
+      [...snapshot.players.flatMap((p) => p.hand), ...snapshot.stock, ...snapshot.discard].length
+    );
+  });
+
+  it("never samples a card the player holds", () => {
+    const snapshot = atDraw(pairsHand, card("7", "spades"));
+    const view = createPlayerView(snapshot, snapshot.awaitingPlayerId);
+    const sampled = determinize(view, createRandomSource("hidden"));
+
+    // Two decks hold two 4 of diamonds: one in hand leaves one unseen
+    const hidden = [
+      ...sampled.players.filter((p) => p.id !== view.viewingPlayerId).flatMap((p) => p.hand),
+      ...sampled.stock,
+      ...sampled.discard.slice(1),
+    ];
+    expect(hidden.filter((c) => c.rank === "4" && c.suit === "diamonds")).toHaveLength(1);
+    expect(hidden.filter((c) => c.rank === "7" && c.suit === "spades")).toHaveLength(1);
+  });
+});
+
+describe("chooseMonteCarloCommand", () => {
+  it("takes a discard that completes a set", () => {
+    const snapshot = atDraw(pairsHand, card("7", "spades"));
+    const view = createPlayerView(snapshot, snapshot.awaitingPlayerId);
+
+    expect(chooseMonteCarloCommand(view, budget)).toEqual({
+      type: "DRAW_FROM_DISCARD",
+      playerId: view.viewingPlayerId,
+    });
+  });
+
+  it("makes the same decision for the same seed", () => {
+    const snapshot = atDraw(pairsHand, card("Q", "clubs"));
+    const view = createPlayerView(snapshot, snapshot.awaitingPlayerId);
+
+    expect(chooseMonteCarloCommand(view, budget)).toEqual(chooseMonteCarloCommand(view, budget));
+  });
+
+  it("lets a May I chance pass for a card it cannot use", () => {
+    const base = atDraw(pairsHand, card("Q", "clubs"));
+    const other = base.players.find((p) => p.id !== base.awaitingPlayerId)!;
+    const snapshot = {
+      ...base,
+      players: base.players.map((p) => (p.id === other.id ? { ...p, hand: pairsHand } : p)),
+    };
+    const view = createPlayerView(snapshot, other.id);
+
+    expect(view.availableActions.canMayI).toBe(true);
+    expect(chooseMonteCarloCommand(view, budget)).toBeNull();
+  });
+
+  it("plays a round to the end against heuristic bots with every command accepted", () => {
+    const engine = createEngine("mc-round");
+    const monteCarloId = engine.getSnapshot().players[0]!.id;
+    const choose = (snapshot: GameSnapshot, playerId: string) =>
+      playerId === monteCarloId
+        ? chooseMonteCarloCommand(createPlayerView(snapshot, playerId), {
+            iterations: 8,
+            timeLimitMs: Infinity,
+            seed: `mc-${snapshot.turnNumber}`,
+          })
+        : chooseHeuristicCommand(snapshot, playerId);
+
+    for (let step = 0; step < 2000; step++) {
+      const snapshot = engine.getSnapshot();
+      if (snapshot.roundHistory.length > 0) break;
+
+      const actorId =
+        snapshot.phase === "RESOLVING_MAY_I"
+          ? snapshot.mayIContext!.playerBeingPrompted!
+          : snapshot.awaitingPlayerId;
+      // Give the others a chance to call May I before the draw
+      const caller =
+        snapshot.turnPhase === "AWAITING_DRAW" && snapshot.phase === "ROUND_ACTIVE"
+          ? snapshot.players.find((p) => p.id !== actorId && choose(snapshot, p.id) !== null)
+          : undefined;
+
+      const playerId = caller?.id ?? actorId;
+      const command = choose(snapshot, playerId);
+      expect(command).not.toBeNull();
+      expect(engine.dispatch(command!).accepted).toBe(true);
+    }
+
+    expect(engine.getSnapshot().roundHistory).toHaveLength(1);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * May I? Monte Carlo Bot
+ *
+ * An information-set Monte Carlo player. It sees only what its PlayerView
+ * shows: its own hand, opponents' hand counts, the table and the public card
+ * knowledge (the discard pile and the cards opponents picked up from it).
+ * For each decision it repeatedly samples the hidden cards (opponents' hands
+ * and the stock order) consistent with that view, plays
+ * each candidate out with fast playouts, and picks the candidate with the
+ * best average result. Candidates are sampled with UCB1, so promising moves
+ * get more playouts.
+ *
+ * The search covers draws, discards and May I decisions. Lay downs and lay
+ * offs only depend on cards the bot can see, so the heuristic bot picks them.
+ *
+ * The playout count is the budget that bounds a decision everywhere. The
+ * search is synchronous, and on Workers the clock doesn't move during
+ * synchronous code, so the wall-clock limit only cuts searches short in Bun
+ * (the CLI and tests). Web seats get a smaller playout budget from the AI turn
+ * coordinator so a turn stays within a Worker request.
+ */
+
+import { shuffle } from "../core/card/card.deck";
+import { createRandomSource, type RandomSource } from "../core/card/card.random";
+import type { Card } from "../core/card/card.types";
+import type { Player } from "../core/engine/engine.types";
+import type { GameSnapshot, JournalCommand, PlayerView } from "../core/engine/game-engine.types";
+import { cardKey } from "../core/meld/meld.pool";
+import { chooseHeuristicCommand } from "./heuristicBot";
+import {
+  createPlayoutState,
+  discard,
+  evaluatePlayout,
+  mayI,
+  playOut,
+  playTurn,
+  type PlayoutState,
+} from "./monteCarloBot.playout";
+
+/** Model ID for a Monte Carlo bot seat */
+export const MONTE_CARLO_MODEL_ID = "bot:montecarlo";
+
+const DEFAULT_ITERATIONS = 200;
+const DEFAULT_TIME_LIMIT_MS = 1000;
+
+/** Each playout runs this many times around the table after the decision */
+const PLAYOUT_ROUNDS = 2;
+
+/** UCB1 exploration weight, in playout points */
+const EXPLORATION = 30;
+
+export interface MonteCarloBotOptions {
+  /** Playouts per decision (default: 200). The budget enforced everywhere. */
+  iterations?: number;
+  /**
+   * Wall-clock budget per decision in ms (default: 1000). Only takes effect in
+   * Bun and the CLI: on Workers the clock stands still during the search.
+   */
+  timeLimitMs?: number;
+  /** Seed for sampling hidden cards, for repeatable decisions */
+  seed?: string;
+}
+
+/** A decision to search; null lets a May I chance pass */
+type Candidate = JournalCommand | null;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Decision
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Choose the bot's next command from its view, or null if it has nothing to do.
+ *
+ * Like the heuristic bot, out of turn it returns CALL_MAY_I when calling is
+ * worthwhile, and ALLOW_MAY_I or CLAIM_MAY_I when prompted.
+ */
+export function chooseMonteCarloCommand(
+  view: PlayerView,
+  options: MonteCarloBotOptions = {}
+): JournalCommand | null {
+  const random = createRandomSource(options.seed);
+  const playerId = view.viewingPlayerId;
+
+  if (view.isYourTurn && view.phase === "ROUND_ACTIVE" && view.turnPhase === "AWAITING_ACTION") {
+    return chooseHeuristicCommand(determinize(view, random), playerId);
+  }
+
+  const candidates = listCandidates(view);
+  if (candidates.length <= 1) return candidates[0] ?? null;
+
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const deadline = Date.now() + (options.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS);
+  const stats = candidates.map(() => ({ visits: 0, total: 0 }));
+
+  // Every candidate gets at least one playout, whatever the budget
+  for (let i = 0; i < iterations && (i < candidates.length || Date.now() < deadline); i++) {
+    const index = selectCandidate(stats, i);
+    const state = createPlayoutState(determinize(view, random));
+    applyCandidate(state, view, candidates[index]!);
+    playOut(state, state.seats.length * PLAYOUT_ROUNDS);
+    stats[index]!.visits++;
+    stats[index]!.total += evaluatePlayout(state, playerId);
+  }
+
+  // Ties go to the earlier, more conservative candidate
+  let best = 0;
+  stats.forEach((s, i) => {
+    if (s.visits > 0 && s.total / s.visits > stats[best]!.total / stats[best]!.visits) best = i;
+  });
+  return candidates[best]!;
+}
+
+/**
+ * The decisions open to the player, most conservative first
+ */
+function listCandidates(view: PlayerView): Candidate[] {
+  const playerId = view.viewingPlayerId;
+  const actions = view.availableActions;
+
+  if (view.phase === "RESOLVING_MAY_I") {
+    return actions.canClaimMayI
+      ? [
+          { type: "ALLOW_MAY_I", playerId },
+          { type: "CLAIM_MAY_I", playerId },
+        ]
+      : [];
+  }
+  if (view.phase !== "ROUND_ACTIVE") return [];
+
+  if (!view.isYourTurn) {
+    return actions.canMayI ? [null, { type: "CALL_MAY_I", playerId }] : [];
+  }
+
+  switch (view.turnPhase) {
+    case "AWAITING_DRAW":
+      return [
+        { type: "DRAW_FROM_STOCK", playerId },
+        ...(actions.canDrawFromDiscard ? [{ type: "DRAW_FROM_DISCARD" as const, playerId }] : []),
+      ];
+    case "AWAITING_DISCARD": {
+      // Identical cards make identical discards
+      const distinct = new Map(view.yourHand.map((c) => [cardKey(c), c] as const));
+      return [...distinct.values()].map((card) => ({ type: "DISCARD", playerId, cardId: card.id }));
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * UCB1: try each candidate once, then balance the best average against
+ * candidates with few playouts
+ */
+function selectCandidate(stats: { visits: number; total: number }[], played: number): number {
+  const unvisited = stats.findIndex((s) => s.visits === 0);
+  if (unvisited !== -1) return unvisited;
+
+  let best = 0;
+  let bestScore = -Infinity;
+  stats.forEach((s, i) => {
+    const score = s.total / s.visits + EXPLORATION * Math.sqrt(Math.log(played) / s.visits);
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Play the candidate in the playout, up to the end of the current turn
+ */
+function applyCandidate(state: PlayoutState, view: PlayerView, candidate: Candidate): void {
+  const playerId = view.viewingPlayerId;
+  const isCurrent = state.seats[state.current]?.id === playerId;
+  if (!candidate) return;
+
+  switch (candidate.type) {
+    case "DRAW_FROM_STOCK":
+      playTurn(state, "stock");
+      return;
+    case "DRAW_FROM_DISCARD":
+      playTurn(state, "discard");
+      return;
+    case "DISCARD": {
+      const seat = state.seats[state.current]!;
+      const card = seat.hand.find((c) => c.id === candidate.cardId);
+      if (card) discard(state, seat, card);
+      return;
+    }
+    case "CALL_MAY_I":
+      mayI(state, playerId, true);
+      return;
+    case "CLAIM_MAY_I":
+      // The current player claims the discard as their draw
+      if (isCurrent) playTurn(state, "discard");
+      else mayI(state, playerId, false);
+      return;
+    case "ALLOW_MAY_I": {
+      const callerId = view.mayIContext?.originalCaller;
+      if (callerId) mayI(state, callerId, false);
+      return;
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Determinization
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Sample a full snapshot consistent with a player's view.
+ *
+ * Opponents keep the discards they are known to hold. The rest of their hands
+ * and the stock are dealt at random from the cards not yet seen.
+ * Sampled cards get "unseen-" IDs so they never collide with real ones.
+ * Turn details the view leaves out are inferred from the available actions.
+ */
+export function determinize(view: PlayerView, random: RandomSource): GameSnapshot {
+  const playerIds = view.turnOrder;
+  const knowledge = view.cardKnowledge;
+
+  const unseen = knowledge.unseen.flatMap(({ rank, suit, count }) =>
+    Array.from({ length: count }, (): Card => ({ id: "", rank, suit }))
+  );
+  const pool = shuffle(unseen, random).map((card, i) => ({ ...card, id: `unseen-${i}` }));
+  const take = (count: number) => pool.splice(0, Math.max(0, count));
+
+  const players: Player[] = playerIds.map((id) => {
+    if (id === view.viewingPlayerId) {
+      return {
+        id,
+        name: view.yourName,
+        avatarId: view.yourAvatarId,
+        hand: [...view.yourHand],
+        isDown: view.youAreDown,
+        totalScore: view.yourTotalScore,
+      };
+    }
+    const opponent = view.opponents.find((o) => o.id === id)!;
+    const known = knowledge.opponents.find((k) => k.playerId === id)?.knownInHand ?? [];
+    return {
+      id,
+      name: opponent.name,
+      avatarId: opponent.avatarId,
+      hand: [...known, ...take(opponent.handCount - known.length)],
+      isDown: opponent.isDown,
+      totalScore: opponent.totalScore,
+    };
+  });
+
+  const stock = take(view.stockCount);
+  const indexOf = (id: string) => Math.max(0, playerIds.indexOf(id));
+  const currentId = view.opponents.find((o) => o.isCurrentPlayer)?.id ?? view.viewingPlayerId;
+  const dealerId = view.opponents.find((o) => o.isDealer)?.id ?? view.viewingPlayerId;
+
+  return {
+    version: "3.0",
+    gameId: view.gameId,
+    lastError: null,
+    phase: view.phase,
+    turnPhase: view.turnPhase,
+    turnNumber: view.turnNumber,
+    lastDiscardedByPlayerId: null,
+    discardClaimed: false,
+    currentRound: view.currentRound,
+    contract: view.contract,
+    // The view only shows this round's contract
+    contracts: [view.contract],
+    seed: null,
+    roundSeed: null,
+    rules: view.rules,
+    players,
+    dealerIndex: indexOf(dealerId),
+    currentPlayerIndex: indexOf(currentId),
+    awaitingPlayerId: view.awaitingPlayerId,
+    stock,
+    discard: [...knowledge.discardPile],
+    table: view.table,
+    // Only the knowledge built from the history is in the view
+    discardHistory: [],
+    hasDrawn: view.turnPhase !== "AWAITING_DRAW",
+    // Lay offs are blocked right after laying down
+    laidDownThisTurn:
+      view.isYourTurn &&
+      view.youAreDown &&
+      view.turnPhase === "AWAITING_ACTION" &&
+      !view.availableActions.canLayOff,
+    tookActionThisTurn: view.availableActions.shouldNudgeDiscard,
+    mayIContext: view.mayIContext,
+    roundHistory: view.roundHistory,
+    createdAt: "",
+    updatedAt: "",
+  };
+}
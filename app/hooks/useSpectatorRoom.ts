@@ -0,0 +1,224 @@
+/**
+ * useSpectatorRoom hook
+ *
+ * Connects to a room as a spectator (no seat, no hand) and keeps the public
+ * game state, May I notifications and round/game results up to date.
+ * Used by screens that only watch, like the big-screen table view.
+ *
+ * useSpectatorState is the message handling on its own, for screens that
+ * already have a socket and only sometimes spectate (the game route's
+ * "Watch" mode).
+ */
+
+import { useEffect, useRef, useState } from "react";
+import PartySocket from "partysocket";
+import type { ConnectionStatus } from "~/ui/lobby/lobby.types";
+import type { TurnClockInfo } from "~/ui/game-view/game-view.types";
+import type { MayINotificationState } from "~/routes/game.$roomId";
+import type {
+  ActivityLogEntry,
+  ClientMessage,
+  GameEndedMessage,
+  LobbyStatePayload,
+  RoundEndedMessage,
+  ServerMessage,
+  SpectatorView,
+} from "~/party/protocol.types";
+import { formatCardText } from "core/card/card-text.utils";
+import { usePartyConnection } from "./usePartyConnection";
+
+/** How long the round summary stays up (matches the players' countdown) */
+const ROUND_END_DISPLAY_MS = 15500;
+/** How long a resolved May I stays visible */
+const MAY_I_RESOLVED_DISPLAY_MS = 5000;
+
+export interface SpectatorState {
+  /** Lobby settings and seated players (null until the first LOBBY_STATE) */
+  lobby: LobbyStatePayload | null;
+  /** Public game state (null until a game is running) */
+  state: SpectatorView | null;
+  activityLog: ActivityLogEntry[];
+  mayINotification: MayINotificationState | null;
+  aiThinkingPlayerName: string | undefined;
+  turnClock: TurnClockInfo | null;
+  /** Shown for a while after each round */
+  roundEnded: RoundEndedMessage | null;
+  gameEnded: GameEndedMessage | null;
+}
+
+export interface SpectatorRoomState extends SpectatorState {
+  connectionStatus: ConnectionStatus;
+}
+
+export function useSpectatorRoom(roomId: string): SpectatorRoomState {
+  const [socket, setSocket] = useState<PartySocket | null>(null);
+  const { connectionStatus } = usePartyConnection({ socket });
+  const spectatorState = useSpectatorState(socket);
+
+  useEffect(() => {
+    // Client-only: websocket
+    const newSocket = new PartySocket({
+      host: window.location.host,
+      room: roomId,
+      party: "may-i-room",
+      startClosed: true,
+    });
+    setSocket(newSocket);
+
+    // Spectating keeps nothing on the server, so every (re)connect just asks again
+    const handleOpen = () => {
+      newSocket.send(JSON.stringify({ type: "SPECTATE" } satisfies ClientMessage));
+    };
+
+    newSocket.addEventListener("open", handleOpen);
+    newSocket.reconnect();
+
+    return () => {
+      newSocket.removeEventListener("open", handleOpen);
+      newSocket.close();
+      setSocket(null);
+    };
+  }, [roomId]);
+
+  return { connectionStatus, ...spectatorState };
+}
+
+/**
+ * Track the spectator view of a room from the messages on a socket
+ *
+ * Only spectators are sent SPECTATOR_STATE, so `state` stays null on a socket
+ * that has taken a seat.
+ */
+export function useSpectatorState(socket: PartySocket | null): SpectatorState {
+  const [lobby, setLobby] = useState<LobbyStatePayload | null>(null);
+  const [state, setState] = useState<SpectatorView | null>(null);
+  const [activityLog, setActivityLog] = useState<ActivityLogEntry[]>([]);
+  const [mayINotification, setMayINotification] = useState<MayINotificationState | null>(null);
+  const [aiThinkingPlayerName, setAiThinkingPlayerName] = useState<string | undefined>();
+  const [turnClock, setTurnClock] = useState<TurnClockInfo | null>(null);
+  const [roundEnded, setRoundEnded] = useState<RoundEndedMessage | null>(null);
+  const [gameEnded, setGameEnded] = useState<GameEndedMessage | null>(null);
+  const roundEndTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (typeof event.data !== "string") return;
+
+      let msg: ServerMessage;
+      try {
+        msg = JSON.parse(event.data) as ServerMessage;
+      } catch {
+        return;
+      }
+
+      switch (msg.type) {
+        case "LOBBY_STATE": {
+          setLobby(msg.lobbyState);
+          return;
+        }
+        case "SPECTATOR_STATE": {
+          setState(msg.state);
+          setActivityLog(msg.activityLog);
+          // The next game of a match replaces the end screen
+          if (msg.state.phase !== "GAME_END") {
+            setGameEnded(null);
+          }
+          return;
+        }
+        case "TURN_CLOCK": {
+          // Durations from the server, turned into local deadlines
+          const receivedAt = Date.now();
+          setTurnClock(
+            msg.clock
+              ? {
+                  playerId: msg.clock.playerId,
+                  turnEndsAt: receivedAt + msg.clock.turnRemainingMs,
+                  deadline:
+                    receivedAt + msg.clock.turnRemainingMs + msg.clock.bankRemainingMs,
+                }
+              : null
+          );
+          return;
+        }
+        case "AI_THINKING": {
+          setAiThinkingPlayerName(msg.playerName);
+          return;
+        }
+        case "AI_DONE": {
+          setAiThinkingPlayerName(undefined);
+          return;
+        }
+        case "MAY_I_NOTIFICATION": {
+          setMayINotification({
+            callerId: msg.callerId,
+            callerName: msg.callerName,
+            cardText: formatCardText(msg.card),
+            expiresAt: null,
+          });
+          return;
+        }
+        case "MAY_I_RESOLVED": {
+          setMayINotification((prev) =>
+            prev
+              ? {
+                  ...prev,
+                  outcome: msg.outcome === "resolved" ? "allowed" : "blocked",
+                  expiresAt: Date.now() + MAY_I_RESOLVED_DISPLAY_MS,
+                }
+              : null
+          );
+          return;
+        }
+        case "ROUND_ENDED": {
+          if (roundEndTimeoutRef.current) {
+            clearTimeout(roundEndTimeoutRef.current);
+          }
+          setRoundEnded(msg);
+          roundEndTimeoutRef.current = setTimeout(() => {
+            setRoundEnded(null);
+            roundEndTimeoutRef.current = null;
+          }, ROUND_END_DISPLAY_MS);
+          return;
+        }
+        case "GAME_ENDED": {
+          setGameEnded(msg);
+          return;
+        }
+      }
+    };
+
+    socket.addEventListener("message", handleMessage);
+
+    return () => {
+      socket.removeEventListener("message", handleMessage);
+      if (roundEndTimeoutRef.current) {
+        clearTimeout(roundEndTimeoutRef.current);
+        roundEndTimeoutRef.current = null;
+      }
+    };
+  }, [socket]);
+
+  // Clear a resolved May I once it has been shown long enough
+  useEffect(() => {
+    if (!mayINotification?.expiresAt) return;
+
+    const timeoutId = setTimeout(
+      () => setMayINotification(null),
+      Math.max(0, mayINotification.expiresAt - Date.now())
+    );
+    return () => clearTimeout(timeoutId);
+  }, [mayINotification?.expiresAt]);
+
+  return {
+    lobby,
+    state,
+    activityLog,
+    mayINotification,
+    aiThinkingPlayerName,
+    turnClock,
+    roundEnded,
+    gameEnded,
+  };
+}
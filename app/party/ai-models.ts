@@ -5,12 +5,19 @@
  * protocol types and agent test state validation.
  */
 
-/** Available AI model IDs - use default: prefix for stable references */
+/**
+ * Available AI model IDs - use default: prefix for stable references.
+ * bot: seats are played by the heuristic bot and need no API keys.
+ */
 export const AI_MODEL_IDS = [
   "default:grok",
   "default:claude",
   "default:openai",
   "default:gemini",
+  "bot:easy",
+  "bot:medium",
+  "bot:hard",
+  "bot:montecarlo",
 ] as const;
 
 export type AIModelId = (typeof AI_MODEL_IDS)[number];
@@ -21,5 +28,14 @@ export const AI_MODEL_DISPLAY_NAMES: Record<AIModelId, string> = {
   "default:claude": "Claude",
   "default:openai": "GPT",
   "default:gemini": "Gemini",
+  "bot:easy": "Easy Bot",
+  "bot:medium": "Medium Bot",
+  "bot:hard": "Hard Bot",
+  "bot:montecarlo": "Monte Carlo Bot",
 };
 
+
+/** Whether the seat is played by the heuristic bot rather than an LLM */
+export function isBotModelId(modelId: AIModelId): boolean {
+  return modelId.startsWith("bot:");
+}
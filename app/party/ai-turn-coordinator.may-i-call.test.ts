@@ -0,0 +1,166 @@
+/**
+ * Off-turn May I calls from AI seats
+ *
+ * Humans call May I from the client; AI seats only act when the room asks
+ * them. After a human discards, the room runs the game action's
+ * executeAIMayICallIfNeeded effect, and the coordinator lets each AI seat's
+ * bot decide whether to call.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { AITurnCoordinator } from "./ai-turn-coordinator";
+import { PartyGameAdapter, type StoredGameState } from "./party-game-adapter";
+import { handleGameActionMessage } from "./mayi-room.message-handlers";
+import { convertAgentTestStateToStoredState } from "./agent-state.converter";
+import type { AgentTestState } from "./agent-state.types";
+import { createTestCard, createTestHand } from "../../core/engine/test.fixtures";
+
+/**
+ * Alice is about to discard the queen of clubs, Bob plays next, and the
+ * medium bot holds a pair of queens and a pair of kings
+ */
+function createDiscardState(botModelId: string): StoredGameState {
+  const state: AgentTestState = {
+    players: [
+      {
+        id: "alice",
+        name: "Alice",
+        isAI: false,
+        hand: [
+          ...createTestHand([
+            { rank: "3", suit: "diamonds" },
+            { rank: "5", suit: "spades" },
+            { rank: "7", suit: "clubs" },
+            { rank: "9", suit: "diamonds" },
+            { rank: "J", suit: "spades" },
+            { rank: "4", suit: "clubs" },
+            { rank: "6", suit: "diamonds" },
+            { rank: "8", suit: "spades" },
+            { rank: "10", suit: "clubs" },
+            { rank: "2", suit: "hearts" },
+            { rank: "A", suit: "diamonds" },
+          ]),
+          createTestCard("Q", "clubs", "alice-queen"),
+        ],
+        isDown: false,
+      },
+      {
+        id: "bob",
+        name: "Bob",
+        isAI: false,
+        hand: createTestHand([
+          { rank: "3", suit: "spades" },
+          { rank: "5", suit: "hearts" },
+          { rank: "7", suit: "diamonds" },
+          { rank: "9", suit: "spades" },
+          { rank: "J", suit: "hearts" },
+          { rank: "4", suit: "spades" },
+          { rank: "6", suit: "hearts" },
+          { rank: "8", suit: "diamonds" },
+          { rank: "10", suit: "spades" },
+          { rank: "2", suit: "diamonds" },
+          { rank: "A", suit: "spades" },
+        ]),
+        isDown: false,
+      },
+      {
+        id: "bot",
+        name: "Bot",
+        isAI: true,
+        aiModelId: botModelId,
+        hand: createTestHand([
+          { rank: "Q", suit: "hearts" },
+          { rank: "Q", suit: "diamonds" },
+          { rank: "K", suit: "hearts" },
+          { rank: "K", suit: "spades" },
+          { rank: "3", suit: "clubs" },
+          { rank: "5", suit: "diamonds" },
+          { rank: "7", suit: "spades" },
+          { rank: "9", suit: "hearts" },
+          { rank: "J", suit: "clubs" },
+          { rank: "4", suit: "diamonds" },
+          { rank: "6", suit: "spades" },
+        ]),
+        isDown: false,
+      },
+    ],
+    roundNumber: 1,
+    stock: [
+      createTestCard("2", "clubs", "stock-1"),
+      createTestCard("3", "hearts", "stock-2"),
+      createTestCard("4", "hearts", "stock-3"),
+    ],
+    discard: [createTestCard("8", "clubs", "discard-1")],
+    table: [],
+    turn: {
+      currentPlayerIndex: 0,
+      hasDrawn: true,
+      phase: "awaitingDiscard",
+    },
+  };
+  return convertAgentTestStateToStoredState(state, "test-room");
+}
+
+/**
+ * Alice discards the queen, then the room runs the effects up to the May I check
+ */
+async function discardQueen(botModelId: string) {
+  const stored = { current: createDiscardState(botModelId) };
+  const coordinator = new AITurnCoordinator({
+    getState: async () => stored.current,
+    setState: async (state) => {
+      stored.current = state;
+    },
+    broadcast: async () => {},
+    executeAITurn: async () => ({ success: true, actions: [], usedFallback: false }),
+    env: {},
+  });
+
+  const result = handleGameActionMessage({
+    state: {
+      roomPhase: "playing",
+      callerPlayerId: "alice",
+      gameState: stored.current,
+      action: { type: "DISCARD", cardId: "alice-queen" },
+    },
+  });
+  if (!result.ok) {
+    throw new Error(`Discard failed: ${result.outboundMessages[0].error}`);
+  }
+
+  let calledAdapter: PartyGameAdapter | null = null;
+  for (const effect of result.sideEffects) {
+    if (effect.type === "setGameState") {
+      stored.current = effect.state;
+    } else if (effect.type === "executeAIMayICallIfNeeded") {
+      calledAdapter = await coordinator.executeAIMayICallIfNeeded();
+    }
+  }
+
+  return { calledAdapter, stored: stored.current };
+}
+
+describe("AI May I calls after a human discard", () => {
+  it("lets a bot seat that wants the discard call May I out of turn", async () => {
+    const { calledAdapter, stored } = await discardQueen("bot:medium");
+
+    expect(calledAdapter).not.toBeNull();
+    const snapshot = PartyGameAdapter.fromStoredState(stored).getSnapshot();
+    expect(snapshot.phase).toBe("RESOLVING_MAY_I");
+    expect(snapshot.mayIContext?.cardBeingClaimed.id).toBe("alice-queen");
+
+    const adapter = PartyGameAdapter.fromStoredState(stored);
+    expect(adapter.engineIdToLobbyId(snapshot.mayIContext!.originalCaller)).toBe("bot");
+    // Bob is up next, so he is asked first whether to take the queen himself
+    expect(adapter.getAwaitingLobbyPlayerId()).toBe("bob");
+  });
+
+  it("leaves the game alone when the bot passes on the discard", async () => {
+    const { calledAdapter, stored } = await discardQueen("bot:easy");
+
+    expect(calledAdapter).toBeNull();
+    const adapter = PartyGameAdapter.fromStoredState(stored);
+    expect(adapter.getSnapshot().phase).toBe("ROUND_ACTIVE");
+    expect(adapter.getAwaitingLobbyPlayerId()).toBe("bob");
+  });
+});
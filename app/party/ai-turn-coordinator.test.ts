@@ -165,6 +165,22 @@ describe("AITurnCoordinator", () => {
       expect(coordinator.isRunning()).toBe(false); // Cleaned up after completion
     });
 
+    it("should cap Monte Carlo seats at a playout budget that fits a Worker request", async () => {
+      let iterations: number | undefined;
+      const { deps } = createFakeDeps({
+        isAITurn: true,
+        executeAITurnFn: async ({ monteCarlo }) => {
+          iterations = monteCarlo?.iterations;
+          return { success: true, actions: ["draw", "discard"], usedFallback: false };
+        },
+      });
+
+      const coordinator = new AITurnCoordinator(deps);
+      await coordinator.executeAITurnsIfNeeded();
+
+      expect(iterations).toBe(40);
+    });
+
     it("should call onAIDone when abort interrupts a turn", async () => {
       const { deps } = createFakeDeps({
         isAITurn: true,
@@ -326,6 +342,27 @@ describe("AITurnCoordinator", () => {
       expect(aiTurnCount).toBe(3);
     });
 
+    it("should call onTurnEnd after each AI turn, before the next one starts", async () => {
+      const events: string[] = [];
+
+      const { deps } = createFakeDeps({
+        isAIPlayerTurnSequence: [true, true, false],
+        executeAITurnFn: async () => {
+          events.push("turn");
+          return { success: true, actions: ["draw", "discard"], usedFallback: false };
+        },
+      });
+
+      const coordinator = new AITurnCoordinator(deps);
+      await coordinator.executeAITurnsIfNeeded({
+        onTurnEnd: async () => {
+          events.push("turnEnd");
+        },
+      });
+
+      expect(events).toEqual(["turn", "turnEnd", "turn", "turnEnd"]);
+    });
+
     it("should stop chaining when game ends after an AI turn", async () => {
       let phase = "ROUND_ACTIVE";
       let aiTurnCount = 0;
@@ -5,6 +5,7 @@
  * - AbortController lifecycle for interrupting AI turns
  * - Immediate state persistence via onPersist callbacks
  * - Clean exit on abort (for May-I handling)
+ * - May-I calls from AI seats that are not on turn
  *
  * Extracted from MayIRoom for testability without PartyKit.
  */
@@ -16,17 +17,23 @@ import {
   mergeAIStatePreservingOtherPlayerHands,
 } from "./party-game-adapter";
 import {
+  executeAIMayICall,
   executeAITurn as realExecuteAITurn,
   isAIPlayerTurn as realIsAIPlayerTurn,
   type AITurnResult,
   type ExecuteAITurnOptions,
 } from "./ai-turn-handler";
 import type { AIEnv } from "./ai-model-factory";
+import type { MonteCarloBotOptions } from "../../ai/monteCarloBot";
 
 const MAX_CHAINED_TURNS = 8; // Safety limit to prevent infinite loops
 const DEFAULT_INTER_TURN_DELAY_MS = 300; // Delay between AI turns for UX
 const DEFAULT_AI_THINKING_DELAY_MS = 500; // Initial delay to show thinking indicator
 const DEFAULT_TOOL_DELAY_MS = 0; // Delay after each tool execution (set higher for testing May-I)
+// Monte Carlo search budget for web seats. The playout count is the only limit
+// that holds on Workers (the clock stands still during the search), and about
+// 40 playouts keep an 8-player decision near 200 ms of CPU.
+const DEFAULT_MONTE_CARLO_OPTIONS: MonteCarloBotOptions = { iterations: 40 };
 
 /**
  * AI player info extracted from game state
@@ -75,6 +82,9 @@ export interface AITurnCoordinatorDeps {
 
   /** Enable debug logging to see LLM vs fallback usage. Default: false. */
   debug?: boolean;
+
+  /** Search budget for Monte Carlo bot seats. Default: 40 playouts per decision. */
+  monteCarlo?: MonteCarloBotOptions;
 }
 
 /**
@@ -94,6 +104,9 @@ export interface AITurnEventCallbacks {
     roundBefore: number,
     snapshotBefore: import("../../core/engine/game-engine.types").GameSnapshot
   ) => Promise<void>;
+
+  /** Called after each AI turn, once its discard is saved and broadcast */
+  onTurnEnd?: () => Promise<void>;
 }
 
 /**
@@ -182,6 +195,7 @@ export class AITurnCoordinator {
             maxSteps: 10,
             debug,
             useFallbackOnError: true,
+            monteCarlo: this.deps.monteCarlo ?? DEFAULT_MONTE_CARLO_OPTIONS,
             abortSignal: this.abortController.signal,
             onPersist: async () => {
               // Persist after each tool call
@@ -246,6 +260,8 @@ export class AITurnCoordinator {
             return;
           }
 
+          await callbacks?.onTurnEnd?.();
+
           // Small delay between AI turns for better UX
           if (interTurnDelayMs > 0) {
             await new Promise((resolve) => setTimeout(resolve, interTurnDelayMs));
@@ -278,6 +294,30 @@ export class AITurnCoordinator {
     }
   }
 
+  /**
+   * Let AI seats that are not on turn call May I on the exposed discard
+   *
+   * Saves the game when a seat calls and returns the adapter, so the caller
+   * can announce the May I and prompt players. Returns null when no seat called.
+   */
+  async executeAIMayICallIfNeeded(): Promise<PartyGameAdapter | null> {
+    const gameState = await this.deps.getState();
+    if (!gameState) return null;
+
+    const createAdapter = this.deps.createAdapter ?? PartyGameAdapter.fromStoredState;
+    const adapter = createAdapter(gameState);
+    const caller = executeAIMayICall(adapter, {
+      monteCarlo: this.deps.monteCarlo ?? DEFAULT_MONTE_CARLO_OPTIONS,
+    });
+    if (!caller) return null;
+
+    if (this.deps.debug) {
+      console.log(`[AI] ${caller.name} called May I`);
+    }
+    await this.deps.setState(adapter.getStoredState());
+    return adapter;
+  }
+
   /**
    * Abort the currently running AI turn
    *
@@ -83,7 +83,7 @@ function setupMayIResolutionGame(): {
 }
 
 describe("executeFallbackTurn - May-I Response", () => {
-  it("should auto-allow May-I when prompted player uses fallback", async () => {
+  it("should allow or claim May-I when prompted player uses fallback", async () => {
     const { adapter, promptedPlayerId } = setupMayIResolutionGame();
 
     // Verify we're in RESOLVING_MAY_I phase
@@ -93,10 +93,11 @@ describe("executeFallbackTurn - May-I Response", () => {
     // Execute fallback for the prompted player
     const result = await executeFallbackTurn(adapter, promptedPlayerId);
 
-    // Should succeed with allow_may_i action
+    // Should succeed with the heuristic bot's response
     expect(result.success).toBe(true);
     expect(result.usedFallback).toBe(true);
-    expect(result.actions).toContain("allow_may_i");
+    expect(result.actions).toHaveLength(1);
+    expect(["allow_may_i", "claim_may_i"]).toContain(result.actions[0]!);
 
     // Verify phase changed (either still RESOLVING_MAY_I for next player, or ROUND_ACTIVE)
     const newSnapshot = adapter.getSnapshot();
@@ -210,7 +211,7 @@ describe("executeFallbackTurn - Regular Turn", () => {
     // Should succeed with regular turn actions
     expect(result.success).toBe(true);
     expect(result.usedFallback).toBe(true);
-    expect(result.actions).toContain("draw_from_stock");
+    expect(["draw_from_stock", "draw_from_discard"]).toContain(result.actions[0]!);
     // Discard action includes card ID like "discard(card-63)"
     expect(result.actions.some(a => a.startsWith("discard("))).toBe(true);
   });
@@ -255,6 +256,7 @@ describe("executeFallbackTurn - Regular Turn", () => {
 
     expect(result.success).toBe(true);
     expect(result.usedFallback).toBe(true);
-    expect(result.actions).toContain("draw_from_stock");
+    expect(result.actions).toHaveLength(1);
+    expect(["draw_from_stock", "draw_from_discard"]).toContain(result.actions[0]!);
   });
 });
@@ -6,13 +6,20 @@
  * expected AIGameAdapter interface.
  */
 
-import type { GameSnapshot, MeldSpec } from "../../core/engine/game-engine.types";
+import type {
+  CommandOutcome,
+  GameSnapshot,
+  JournalCommand,
+  MeldSpec,
+} from "../../core/engine/game-engine.types";
 import type { AIGameAdapter } from "../../ai/ai-game-adapter.types";
 import type { PartyGameAdapter, PlayerMapping } from "./party-game-adapter";
 import { executeTurn, type ExecuteTurnResult } from "../../ai/mayIAgent";
+import { chooseHeuristicCommand } from "../../ai/heuristicBot";
+import { createBotPolicy, type BotPolicy } from "../../ai/botPolicy";
+import type { MonteCarloBotOptions } from "../../ai/monteCarloBot";
 import { createWorkerAIModelAsync, type AIEnv } from "./ai-model-factory";
 import { isValidRun, isValidSet } from "../../core/meld/meld.validation";
-import { renderCard } from "../../cli/shared/cli.renderer";
 
 /**
  * Adapter that makes PartyGameAdapter look like AIGameAdapter for AI agent
@@ -22,6 +29,8 @@ import { renderCard } from "../../cli/shared/cli.renderer";
  * always executing commands for the specified AI player.
  */
 export class AIGameAdapterProxy implements AIGameAdapter {
+  private lastOutcome: CommandOutcome | null = null;
+
   constructor(
     private adapter: PartyGameAdapter,
     private aiPlayerId: string
@@ -31,35 +40,40 @@ export class AIGameAdapterProxy implements AIGameAdapter {
     return this.adapter.getSnapshot();
   }
 
+  getLastOutcome(): CommandOutcome | null {
+    return this.lastOutcome;
+  }
+
+  /**
+   * Dispatch a command for the AI player, keeping its outcome
+   */
+  private send(command: JournalCommand): CommandOutcome | null {
+    this.lastOutcome = this.adapter.dispatch(command);
+    return this.lastOutcome;
+  }
+
   drawFromStock(): GameSnapshot {
-    const before = this.adapter.getSnapshot();
-    const result = this.adapter.drawFromStock(this.aiPlayerId);
-    if (!result) {
+    const outcome = this.send({ type: "DRAW_FROM_STOCK", playerId: this.aiPlayerId });
+    if (!outcome?.accepted) {
       return this.adapter.getSnapshot();
     }
-    // Log the draw action
-    this.adapter.logDraw(this.aiPlayerId, before, result, "stock");
-    return result;
+    return outcome.snapshot;
   }
 
   drawFromDiscard(): GameSnapshot {
-    const before = this.adapter.getSnapshot();
-    const result = this.adapter.drawFromDiscard(this.aiPlayerId);
-    if (!result) {
+    const outcome = this.send({ type: "DRAW_FROM_DISCARD", playerId: this.aiPlayerId });
+    if (!outcome?.accepted) {
       return this.adapter.getSnapshot();
     }
-    // Log the draw action
-    this.adapter.logDraw(this.aiPlayerId, before, result, "discard");
-    return result;
+    return outcome.snapshot;
   }
 
   skip(): GameSnapshot {
-    const result = this.adapter.skip(this.aiPlayerId);
-    if (!result) {
+    const outcome = this.send({ type: "SKIP", playerId: this.aiPlayerId });
+    if (!outcome?.accepted) {
       return this.adapter.getSnapshot();
     }
-    // Skip is not logged (filtered as boring)
-    return result;
+    return outcome.snapshot;
   }
 
   /**
@@ -97,14 +111,11 @@ export class AIGameAdapterProxy implements AIGameAdapter {
       return { type, cardIds: cards.map((c) => c.id) };
     });
 
-    const before = this.adapter.getSnapshot();
-    const result = this.adapter.layDown(this.aiPlayerId, meldSpecs);
-    if (!result) {
+    const outcome = this.send({ type: "LAY_DOWN", playerId: this.aiPlayerId, melds: meldSpecs });
+    if (!outcome?.accepted) {
       return this.adapter.getSnapshot();
     }
-    // Log the lay down action
-    this.adapter.logLayDown(this.aiPlayerId, before, result);
-    return result;
+    return outcome.snapshot;
   }
 
   /**
@@ -134,14 +145,16 @@ export class AIGameAdapterProxy implements AIGameAdapter {
       return snapshot;
     }
 
-    const before = this.adapter.getSnapshot();
-    const result = this.adapter.layOff(this.aiPlayerId, card.id, meld.id);
-    if (!result) {
+    const outcome = this.send({
+      type: "LAY_OFF",
+      playerId: this.aiPlayerId,
+      cardId: card.id,
+      meldId: meld.id,
+    });
+    if (!outcome?.accepted) {
       return this.adapter.getSnapshot();
     }
-    // Log the lay off action
-    this.adapter.logLayOff(this.aiPlayerId, card.id, before, result);
-    return result;
+    return outcome.snapshot;
   }
 
   /**
@@ -176,11 +189,17 @@ export class AIGameAdapterProxy implements AIGameAdapter {
       return snapshot;
     }
 
-    const result = this.adapter.swapJoker(this.aiPlayerId, meld.id, jokerCard.id, swapCard.id);
-    if (!result) {
+    const outcome = this.send({
+      type: "SWAP_JOKER",
+      playerId: this.aiPlayerId,
+      meldId: meld.id,
+      jokerCardId: jokerCard.id,
+      swapCardId: swapCard.id,
+    });
+    if (!outcome?.accepted) {
       return this.adapter.getSnapshot();
     }
-    return result;
+    return outcome.snapshot;
   }
 
   /**
@@ -204,55 +223,27 @@ export class AIGameAdapterProxy implements AIGameAdapter {
       return snapshot;
     }
 
-    const before = this.adapter.getSnapshot();
-    const result = this.adapter.discard(this.aiPlayerId, card.id);
-    if (!result) {
+    const outcome = this.send({ type: "DISCARD", playerId: this.aiPlayerId, cardId: card.id });
+    if (!outcome?.accepted) {
       return this.adapter.getSnapshot();
     }
-    // Log the discard action
-    this.adapter.logDiscard(this.aiPlayerId, before, result, card.id);
-    return result;
+    return outcome.snapshot;
   }
 
   allowMayI(_playerId: string): GameSnapshot {
-    const before = this.adapter.getSnapshot();
-    const result = this.adapter.allowMayI(this.aiPlayerId);
-    if (!result) {
+    const outcome = this.send({ type: "ALLOW_MAY_I", playerId: this.aiPlayerId });
+    if (!outcome?.accepted) {
       return this.adapter.getSnapshot();
     }
-    // Log the allow action
-    this.adapter.logMayIAllow(this.aiPlayerId);
-    // If May-I just resolved (phase changed), log who got the card
-    if (before.phase === "RESOLVING_MAY_I" && result.phase === "ROUND_ACTIVE") {
-      const mayIContext = before.mayIContext;
-      if (mayIContext) {
-        const cardRendered = renderCard(mayIContext.cardBeingClaimed);
-        const winnerEngineId = mayIContext.originalCaller;
-        const winnerMapping = this.adapter.getAllPlayerMappings().find(
-          (m) => m.engineId === winnerEngineId
-        );
-        if (winnerMapping) {
-          this.adapter.logMayIResolved(winnerMapping.lobbyId, cardRendered, false);
-        }
-      }
-    }
-    return result;
+    return outcome.snapshot;
   }
 
   claimMayI(_playerId: string): GameSnapshot {
-    const before = this.adapter.getSnapshot();
-    const result = this.adapter.claimMayI(this.aiPlayerId);
-    if (!result) {
+    const outcome = this.send({ type: "CLAIM_MAY_I", playerId: this.aiPlayerId });
+    if (!outcome?.accepted) {
       return this.adapter.getSnapshot();
     }
-    // Log the claim action and resolution
-    const mayIContext = before.mayIContext;
-    if (mayIContext) {
-      const cardRendered = renderCard(mayIContext.cardBeingClaimed);
-      this.adapter.logMayIClaim(this.aiPlayerId, cardRendered);
-      this.adapter.logMayIResolved(this.aiPlayerId, cardRendered, true);
-    }
-    return result;
+    return outcome.snapshot;
   }
 }
 
@@ -280,6 +271,8 @@ export interface FallbackTurnOptions {
   onPersist?: () => Promise<void>;
   /** Delay between phases in ms (default: 300, allows May-I window) */
   phaseDelayMs?: number;
+  /** Bot that picks each command (default: the heuristic bot) */
+  policy?: BotPolicy;
 }
 
 /**
@@ -298,20 +291,44 @@ async function delayWithAbort(ms: number, signal?: AbortSignal): Promise<void> {
   });
 }
 
+/** Upper bound on commands in one fallback turn (draw, lay offs, discard) */
+const MAX_FALLBACK_STEPS = 30;
+
 /**
- * Execute a fallback turn (draw, skip, discard first card)
+ * Short action name for a fallback command, e.g. "draw_from_stock" or "discard(card-63)"
+ */
+function describeFallbackAction(command: JournalCommand): string {
+  switch (command.type) {
+    case "LAY_OFF":
+    case "DISCARD":
+      return `${command.type.toLowerCase()}(${command.cardId})`;
+    case "SWAP_JOKER":
+      return `swap_joker(${command.jokerCardId})`;
+    default:
+      return command.type.toLowerCase();
+  }
+}
+
+/**
+ * Execute a fallback turn with the heuristic bot
  *
- * Used when AI agent fails or for disconnected players.
- * Now async with abort support and delays between phases.
+ * Used for bot seats, when AI agent fails, or for disconnected players.
+ * Async with abort support and delays between commands.
  */
 export async function executeFallbackTurn(
   adapter: PartyGameAdapter,
   playerId: string,
   options: FallbackTurnOptions = {}
 ): Promise<AITurnResult> {
-  const { abortSignal, onPersist, phaseDelayMs = 300 } = options;
+  const {
+    abortSignal,
+    onPersist,
+    phaseDelayMs = 300,
+    policy = chooseHeuristicCommand,
+  } = options;
   const actions: string[] = [];
-  let snapshot = adapter.getSnapshot();
+  const snapshot = adapter.getSnapshot();
+  const mapping = adapter.getPlayerMapping(playerId);
 
   // Handle May-I response phase - when player is prompted to allow/claim
   if (snapshot.phase === "RESOLVING_MAY_I") {
@@ -326,7 +343,6 @@ export async function executeFallbackTurn(
     }
 
     // Check if this player is the one being prompted
-    const mapping = adapter.getPlayerMapping(playerId);
     if (!mapping || mayIContext.playerBeingPrompted !== mapping.engineId) {
       return {
         success: false,
@@ -336,37 +352,22 @@ export async function executeFallbackTurn(
       };
     }
 
-    // Auto-allow May-I as fallback behavior
-    const before = snapshot;
-    const result = adapter.allowMayI(playerId);
-    if (!result || result.lastError) {
+    const command: JournalCommand = policy(snapshot, mapping.engineId) ?? {
+      type: "ALLOW_MAY_I",
+      playerId,
+    };
+    const outcome = adapter.dispatch({ ...command, playerId });
+    if (!outcome?.accepted) {
       return {
         success: false,
         actions: [],
-        error: result?.lastError ?? "Failed to allow May-I",
+        error: outcome?.message ?? "Failed to respond to May-I",
         usedFallback: true,
       };
     }
+    actions.push(describeFallbackAction(command));
 
-    // Log the allow action
-    adapter.logMayIAllow(playerId);
-    // If May-I just resolved (phase changed), log who got the card
-    if (before.phase === "RESOLVING_MAY_I" && result.phase === "ROUND_ACTIVE") {
-      if (mayIContext) {
-        const cardRendered = renderCard(mayIContext.cardBeingClaimed);
-        const winnerEngineId = mayIContext.originalCaller;
-        const winnerMapping = adapter.getAllPlayerMappings().find(
-          (m) => m.engineId === winnerEngineId
-        );
-        if (winnerMapping) {
-          adapter.logMayIResolved(winnerMapping.lobbyId, cardRendered, false);
-        }
-      }
-    }
-
-    actions.push("allow_may_i");
-
-    // Persist immediately after allowing
+    // Persist immediately after responding
     if (onPersist) {
       await onPersist();
     }
@@ -388,110 +389,47 @@ export async function executeFallbackTurn(
     };
   }
 
-  try {
-    // Draw phase - draw from stock
-    if (snapshot.turnPhase === "AWAITING_DRAW") {
-      const before = snapshot;
-      const result = adapter.drawFromStock(playerId);
-      if (!result || result.lastError) {
-        return {
-          success: false,
-          actions,
-          error: result?.lastError ?? "Failed to draw from stock",
-          usedFallback: true,
-        };
-      }
-      // Log the draw
-      adapter.logDraw(playerId, before, result, "stock");
-      actions.push("draw_from_stock");
-      snapshot = result;
+  if (!mapping) {
+    return {
+      success: false,
+      actions,
+      error: "Player not found",
+      usedFallback: true,
+    };
+  }
 
-      // Persist immediately after draw
-      if (onPersist) {
-        await onPersist();
+  try {
+    for (let step = 0; step < MAX_FALLBACK_STEPS; step++) {
+      const current = adapter.getSnapshot();
+      if (current.phase !== "ROUND_ACTIVE" || current.awaitingPlayerId !== mapping.engineId) {
+        break;
       }
 
-      // Delay for May-I window
-      await delayWithAbort(phaseDelayMs, abortSignal);
-    }
+      const command = policy(current, mapping.engineId);
+      if (!command) break;
 
-    // Action phase - skip (don't try to lay down)
-    if (snapshot.turnPhase === "AWAITING_ACTION") {
-      const result = adapter.skip(playerId);
-      if (!result || result.lastError) {
+      const outcome = adapter.dispatch({ ...command, playerId });
+      if (!outcome?.accepted) {
         return {
           success: false,
           actions,
-          error: result?.lastError ?? "Failed to skip",
+          error: outcome?.message ?? `Failed to ${describeFallbackAction(command)}`,
           usedFallback: true,
         };
       }
-      // Skip is not logged (filtered as boring)
-      actions.push("skip");
-      snapshot = result;
+      actions.push(describeFallbackAction(command));
 
-      // Persist immediately after skip
+      // Persist immediately after each command
       if (onPersist) {
         await onPersist();
       }
 
+      if (command.type === "DISCARD") break;
+
       // Delay for May-I window
       await delayWithAbort(phaseDelayMs, abortSignal);
     }
 
-    // Discard phase - discard first card
-    if (snapshot.turnPhase === "AWAITING_DISCARD") {
-      // Find the current player's hand
-      const mapping = adapter.getPlayerMapping(playerId);
-      if (!mapping) {
-        return {
-          success: false,
-          actions,
-          error: "Player not found",
-          usedFallback: true,
-        };
-      }
-
-      const player = snapshot.players.find((p) => p.id === mapping.engineId);
-      if (!player || player.hand.length === 0) {
-        return {
-          success: false,
-          actions,
-          error: "No cards to discard",
-          usedFallback: true,
-        };
-      }
-
-      const cardToDiscard = player.hand[0];
-      if (!cardToDiscard) {
-        return {
-          success: false,
-          actions,
-          error: "No cards to discard",
-          usedFallback: true,
-        };
-      }
-
-      const before = snapshot;
-      const result = adapter.discard(playerId, cardToDiscard.id);
-      if (!result || result.lastError) {
-        return {
-          success: false,
-          actions,
-          error: result?.lastError ?? "Failed to discard",
-          usedFallback: true,
-        };
-      }
-      // Log the discard
-      adapter.logDiscard(playerId, before, result, cardToDiscard.id);
-      actions.push(`discard(${cardToDiscard.id})`);
-
-      // Persist immediately after discard
-      if (onPersist) {
-        await onPersist();
-      }
-    }
-
     return {
       success: true,
       actions,
@@ -535,13 +473,16 @@ export interface ExecuteAITurnOptions {
   abortSignal?: AbortSignal;
   /** Callback invoked after each tool execution to persist state immediately */
   onPersist?: () => Promise<void>;
+  /** Search budget for Monte Carlo bot seats */
+  monteCarlo?: MonteCarloBotOptions;
 }
 
 /**
  * Execute an AI player's turn
  *
- * Uses the mayIAgent to make decisions, with fallback to simple
- * draw-skip-discard if the AI fails.
+ * Uses the mayIAgent to make decisions, with fallback to the heuristic
+ * bot if the AI fails. Bot seats (bot:easy, bot:medium, bot:hard and
+ * bot:montecarlo) are played by their bot directly, without creating a model.
  */
 export async function executeAITurn(options: ExecuteAITurnOptions): Promise<AITurnResult> {
   const {
@@ -555,6 +496,7 @@ export async function executeAITurn(options: ExecuteAITurnOptions): Promise<AITu
     useFallbackOnError = true,
     abortSignal,
     onPersist,
+    monteCarlo,
   } = options;
 
   // Check if it's this player's turn
@@ -579,6 +521,16 @@ export async function executeAITurn(options: ExecuteAITurnOptions): Promise<AITu
     };
   }
 
+  const policy = createBotPolicy(modelId, { monteCarlo });
+  if (policy) {
+    const result = await executeFallbackTurn(adapter, aiPlayerId, {
+      abortSignal,
+      onPersist,
+      policy,
+    });
+    return { ...result, usedFallback: false };
+  }
+
   try {
     // Get the model using worker-compatible factory (with DevTools in local dev)
     const model = await createWorkerAIModelAsync(modelId, env);
@@ -593,6 +545,7 @@ export async function executeAITurn(options: ExecuteAITurnOptions): Promise<AITu
       game: proxy,
       playerId: mapping.engineId,
       playerName: playerName ?? mapping.name,
+      recentEvents: adapter.getRecentEvents(),
       maxSteps,
       debug,
       telemetry: false, // Disable telemetry for server-side execution
@@ -690,3 +643,44 @@ export function isAIPlayerTurn(adapter: PartyGameAdapter): PlayerMapping | null
 export function getNextAIPlayer(adapter: PartyGameAdapter): PlayerMapping | null {
   return isAIPlayerTurn(adapter);
 }
+
+/**
+ * Options for off-turn May I calls
+ */
+export interface AIMayICallOptions {
+  /** Search budget for Monte Carlo bot seats */
+  monteCarlo?: MonteCarloBotOptions;
+}
+
+/**
+ * Let AI seats that are not on turn call May I on the exposed discard
+ *
+ * Run after each discard, before the next player draws. Each AI seat's bot
+ * decides whether the card is worth a May I; LLM seats decide with the
+ * heuristic bot, since asking an agent at every discard would be too slow.
+ * The first seat that decides to call has its CALL_MAY_I dispatched.
+ *
+ * @returns The seat that called May I, or null if none did
+ */
+export function executeAIMayICall(
+  adapter: PartyGameAdapter,
+  options: AIMayICallOptions = {}
+): PlayerMapping | null {
+  const snapshot = adapter.getSnapshot();
+  if (snapshot.phase !== "ROUND_ACTIVE") return null;
+
+  for (const mapping of adapter.getAIPlayerMappings()) {
+    if (mapping.engineId === snapshot.awaitingPlayerId) continue;
+
+    const policy =
+      createBotPolicy(mapping.aiModelId ?? "", { monteCarlo: options.monteCarlo }) ??
+      chooseHeuristicCommand;
+    const command = policy(snapshot, mapping.engineId);
+    if (command?.type !== "CALL_MAY_I") continue;
+
+    const outcome = adapter.dispatch({ ...command, playerId: mapping.lobbyId });
+    if (outcome?.accepted) return mapping;
+  }
+
+  return null;
+}
@@ -1,6 +1,6 @@
 import { describe, it, expect } from "bun:test";
 
-import { executeAITurn, isAIPlayerTurn } from "./ai-turn-handler";
+import { executeAIMayICall, executeAITurn, isAIPlayerTurn } from "./ai-turn-handler";
 import { PartyGameAdapter } from "./party-game-adapter";
 import { convertAgentTestStateToStoredState } from "./agent-state.converter";
 import type { AgentTestState } from "./agent-state.types";
@@ -102,6 +102,40 @@ describe("executeAITurn", () => {
     expect(result.usedFallback).toBe(false);
     expect(result.error).toContain("Not this player's turn");
   });
+
+  it("plays a bot seat without a model or API keys", async () => {
+    const adapter = createAdapterFromState(createAIOnlyState());
+
+    const result = await executeAITurn({
+      adapter,
+      aiPlayerId: "ai-0",
+      modelId: "bot:easy",
+      env: {},
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.usedFallback).toBe(false);
+    expect(result.actions[0]).toBe("draw_from_stock");
+    expect(result.actions.at(-1)).toMatch(/^discard\(/);
+    expect(adapter.getAwaitingLobbyPlayerId()).toBe("ai-1");
+  });
+
+  it("plays a Monte Carlo seat within its budget", async () => {
+    const adapter = createAdapterFromState(createAIOnlyState());
+
+    const result = await executeAITurn({
+      adapter,
+      aiPlayerId: "ai-0",
+      modelId: "bot:montecarlo",
+      env: {},
+      monteCarlo: { iterations: 10, seed: "turn" },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.usedFallback).toBe(false);
+    expect(result.actions.at(-1)).toMatch(/^discard\(/);
+    expect(adapter.getAwaitingLobbyPlayerId()).toBe("ai-1");
+  });
 });
 
 describe("isAIPlayerTurn", () => {
@@ -129,3 +163,96 @@ describe("isAIPlayerTurn", () => {
     expect(mapping).toBeNull();
   });
 });
+
+/**
+ * A human on turn, an AI seat holding a pair of queens and a pair of kings,
+ * and the AI seat that just discarded the queen of clubs
+ */
+function createMayICallState(callerModelId: string): AgentTestState {
+  const otherHand = createTestHand([
+    { rank: "3", suit: "diamonds" },
+    { rank: "5", suit: "spades" },
+    { rank: "7", suit: "clubs" },
+    { rank: "9", suit: "diamonds" },
+    { rank: "J", suit: "spades" },
+    { rank: "4", suit: "clubs" },
+    { rank: "6", suit: "diamonds" },
+    { rank: "8", suit: "spades" },
+    { rank: "10", suit: "clubs" },
+    { rank: "2", suit: "hearts" },
+    { rank: "A", suit: "diamonds" },
+  ]);
+  return {
+    players: [
+      { id: "human-0", name: "Human", isAI: false, hand: otherHand, isDown: false },
+      {
+        id: "ai-1",
+        name: "AI-1",
+        isAI: true,
+        aiModelId: callerModelId,
+        hand: createTestHand([
+          { rank: "Q", suit: "hearts" },
+          { rank: "Q", suit: "diamonds" },
+          { rank: "K", suit: "hearts" },
+          { rank: "K", suit: "spades" },
+          { rank: "3", suit: "clubs" },
+          { rank: "5", suit: "diamonds" },
+          { rank: "7", suit: "spades" },
+          { rank: "9", suit: "hearts" },
+          { rank: "J", suit: "clubs" },
+          { rank: "4", suit: "diamonds" },
+          { rank: "6", suit: "spades" },
+        ]),
+        isDown: false,
+      },
+      {
+        id: "ai-2",
+        name: "AI-2",
+        isAI: true,
+        aiModelId: "bot:medium",
+        hand: otherHand.map((card) => ({ ...card, id: `${card.id}-ai-2` })),
+        isDown: false,
+      },
+    ],
+    roundNumber: 1,
+    stock: createTestHand([
+      { rank: "2", suit: "clubs" },
+      { rank: "3", suit: "hearts" },
+      { rank: "4", suit: "spades" },
+      { rank: "5", suit: "clubs" },
+    ]),
+    discard: [createTestCard("Q", "clubs", "discard-queen")],
+    table: [],
+    turn: {
+      currentPlayerIndex: 0,
+      hasDrawn: false,
+      phase: "awaitingDraw",
+    },
+  };
+}
+
+describe("executeAIMayICall", () => {
+  it("calls May I for an AI seat whose bot wants the discard", () => {
+    const adapter = createAdapterFromState(createMayICallState("bot:medium"));
+
+    const caller = executeAIMayICall(adapter);
+
+    expect(caller?.lobbyId).toBe("ai-1");
+    const snapshot = adapter.getSnapshot();
+    expect(snapshot.phase).toBe("RESOLVING_MAY_I");
+    expect(snapshot.mayIContext?.originalCaller).toBe(caller!.engineId);
+  });
+
+  it("decides for LLM seats with the heuristic bot", () => {
+    const adapter = createAdapterFromState(createMayICallState("default:grok"));
+
+    expect(executeAIMayICall(adapter)?.lobbyId).toBe("ai-1");
+  });
+
+  it("leaves the discard alone when no bot wants it", () => {
+    const adapter = createAdapterFromState(createMayICallState("bot:easy"));
+
+    expect(executeAIMayICall(adapter)).toBeNull();
+    expect(adapter.getSnapshot().phase).toBe("ROUND_ACTIVE");
+  });
+});
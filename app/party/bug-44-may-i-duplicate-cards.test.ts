@@ -113,7 +113,7 @@ describe("Bug #44 - Multiple May-I clicks deal duplicate cards", () => {
       currentPlayerEngineId
     );
 
-    // Second CALL_MAY_I (human) should be a no-op for the same discard.
+    // Second CALL_MAY_I (human) should be rejected for the same discard.
     const adapterAfterSecondClick = PartyGameAdapter.fromStoredState(mergedState);
     const beforeSecond = adapterAfterSecondClick.getSnapshot();
     const humanBeforeSecond = beforeSecond.players.find((p) => p.id === human.engineId);
@@ -122,7 +122,8 @@ describe("Bug #44 - Multiple May-I clicks deal duplicate cards", () => {
     const secondResult = executeGameAction(adapterAfterSecondClick, human.lobbyId, {
       type: "CALL_MAY_I",
     });
-    expect(secondResult.success).toBe(true);
+    expect(secondResult.success).toBe(false);
+    expect(secondResult.error).toBe("DISCARD_EMPTY");
 
     const afterSecond = adapterAfterSecondClick.getSnapshot();
     const humanAfterSecond = afterSecond.players.find((p) => p.id === human.engineId);
@@ -207,7 +207,7 @@ describe("executeGameAction", () => {
       }
     });
 
-    it("returns lastError when engine rejects a lay down", () => {
+    it("returns the error code when engine rejects a lay down", () => {
       const adapter = createTestAdapter();
       const awaitingId = adapter.getAwaitingLobbyPlayerId()!;
 
@@ -224,7 +224,8 @@ describe("executeGameAction", () => {
       });
 
       expect(result.success).toBe(false);
-      expect(result.error).toBe("card not in hand");
+      expect(result.error).toBe("CARD_NOT_IN_HAND");
+      expect(result.message).toBe("card not in hand");
       expect(result.snapshot?.lastError).toBe("card not in hand");
     });
   });
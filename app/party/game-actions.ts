@@ -7,8 +7,7 @@
 
 import type { GameAction } from "./protocol.types";
 import type { PartyGameAdapter } from "./party-game-adapter";
-import type { GameSnapshot } from "../../core/engine/game-engine.types";
-import { renderCard } from "../../cli/shared/cli.renderer";
+import type { GameSnapshot, JournalCommand } from "../../core/engine/game-engine.types";
 
 const ACTIONS_THAT_DONT_REQUIRE_TURN: ReadonlySet<GameAction["type"]> = new Set([
   "CALL_MAY_I",
@@ -17,33 +16,29 @@ const ACTIONS_THAT_DONT_REQUIRE_TURN: ReadonlySet<GameAction["type"]> = new Set(
   "REORDER_HAND",
 ]);
 
-// These actions are processed by the round machine and don't touch `lastError`,
-// so checking `lastError` would incorrectly surface stale errors from previous
-// failed turn actions.
-const ACTIONS_THAT_IGNORE_LAST_ERROR = ACTIONS_THAT_DONT_REQUIRE_TURN;
-
 export interface ActionResult {
   success: boolean;
   snapshot: GameSnapshot | null;
+  /** Error code, e.g. INVALID_PHASE or an engine CommandErrorCode */
   error?: string;
+  /** Human-readable reason for engine rejections */
+  message?: string;
 }
 
 /**
  * Execute a game action for a player
  *
  * Validates that the action is valid for the current game state
- * and executes it via the adapter. Logs successful actions to the activity log.
+ * and executes it via the adapter, which logs the resulting domain events.
  */
 export function executeGameAction(
   adapter: PartyGameAdapter,
   lobbyPlayerId: string,
   action: GameAction
 ): ActionResult {
-  // Get the current state to validate the action and compare after
-  const snapshotBefore = adapter.getSnapshot();
+  // Get the current state to validate the action
+  const snapshot = adapter.getSnapshot();
   const awaitingId = adapter.getAwaitingLobbyPlayerId();
-  // Use snapshotBefore as our reference snapshot
-  const snapshot = snapshotBefore;
 
   // Most actions require it to be the player's turn
   const requiresPlayerTurn = !ACTIONS_THAT_DONT_REQUIRE_TURN.has(action.type);
@@ -56,8 +51,8 @@ export function executeGameAction(
     };
   }
 
-  // Execute the action based on type
-  let result: GameSnapshot | null = null;
+  // Build the engine command based on type
+  let command: JournalCommand;
 
   switch (action.type) {
     case "DRAW_FROM_STOCK": {
@@ -68,7 +63,7 @@ export function executeGameAction(
           error: "INVALID_PHASE",
         };
       }
-      result = adapter.drawFromStock(lobbyPlayerId);
+      command = { type: "DRAW_FROM_STOCK", playerId: lobbyPlayerId };
       break;
     }
 
@@ -80,7 +75,7 @@ export function executeGameAction(
           error: "INVALID_PHASE",
         };
       }
-      result = adapter.drawFromDiscard(lobbyPlayerId);
+      command = { type: "DRAW_FROM_DISCARD", playerId: lobbyPlayerId };
       break;
     }
 
@@ -102,7 +97,7 @@ export function executeGameAction(
           error: "MISSING_CARD_ID",
         };
       }
-      result = adapter.discard(lobbyPlayerId, action.cardId);
+      command = { type: "DISCARD", playerId: lobbyPlayerId, cardId: action.cardId };
       break;
     }
 
@@ -114,7 +109,7 @@ export function executeGameAction(
           error: "INVALID_PHASE",
         };
       }
-      result = adapter.skip(lobbyPlayerId);
+      command = { type: "SKIP", playerId: lobbyPlayerId };
       break;
     }
 
@@ -133,7 +128,7 @@ export function executeGameAction(
           error: "MISSING_MELDS",
         };
       }
-      result = adapter.layDown(lobbyPlayerId, action.melds);
+      command = { type: "LAY_DOWN", playerId: lobbyPlayerId, melds: action.melds };
       break;
     }
 
@@ -155,7 +150,13 @@ export function executeGameAction(
           error: "MISSING_CARD_OR_MELD_ID",
         };
       }
-      result = adapter.layOff(lobbyPlayerId, action.cardId, action.meldId, action.position);
+      command = {
+        type: "LAY_OFF",
+        playerId: lobbyPlayerId,
+        cardId: action.cardId,
+        meldId: action.meldId,
+        position: action.position,
+      };
       break;
     }
 
@@ -177,12 +178,13 @@ export function executeGameAction(
           error: "MISSING_SWAP_PARAMS",
         };
       }
-      result = adapter.swapJoker(
-        lobbyPlayerId,
-        action.meldId,
-        action.jokerCardId,
-        action.swapCardId
-      );
+      command = {
+        type: "SWAP_JOKER",
+        playerId: lobbyPlayerId,
+        meldId: action.meldId,
+        jokerCardId: action.jokerCardId,
+        swapCardId: action.swapCardId,
+      };
       break;
     }
 
@@ -194,7 +196,7 @@ export function executeGameAction(
           error: "MISSING_CARD_IDS",
         };
       }
-      result = adapter.reorderHand(lobbyPlayerId, action.cardIds);
+      command = { type: "REORDER_HAND", playerId: lobbyPlayerId, cardIds: action.cardIds };
       break;
     }
 
@@ -214,7 +216,7 @@ export function executeGameAction(
           error: "CANNOT_CALL_MAY_I_ON_OWN_TURN",
         };
       }
-      result = adapter.callMayI(lobbyPlayerId);
+      command = { type: "CALL_MAY_I", playerId: lobbyPlayerId };
       break;
     }
 
@@ -226,7 +228,7 @@ export function executeGameAction(
           error: "INVALID_PHASE",
         };
       }
-      result = adapter.allowMayI(lobbyPlayerId);
+      command = { type: "ALLOW_MAY_I", playerId: lobbyPlayerId };
       break;
     }
 
@@ -238,7 +240,7 @@ export function executeGameAction(
           error: "INVALID_PHASE",
         };
       }
-      result = adapter.claimMayI(lobbyPlayerId);
+      command = { type: "CLAIM_MAY_I", playerId: lobbyPlayerId };
       break;
     }
 
@@ -251,8 +253,10 @@ export function executeGameAction(
     }
   }
 
-  // Check if the action succeeded
-  if (!result) {
+  const outcome = adapter.dispatch(command);
+
+  // Unknown lobby player
+  if (!outcome) {
     return {
       success: false,
       snapshot: null,
@@ -260,93 +264,18 @@ export function executeGameAction(
     };
   }
 
-  // Check if the engine recorded an error (skip for actions that ignore `lastError`)
-  if (!ACTIONS_THAT_IGNORE_LAST_ERROR.has(action.type) && result.lastError) {
+  if (!outcome.accepted) {
     return {
       success: false,
-      snapshot: result,
-      error: result.lastError,
+      snapshot: outcome.snapshot,
+      error: outcome.errorCode ?? "ACTION_FAILED",
+      message: outcome.message ?? undefined,
     };
   }
 
-  // Log successful action
-  logSuccessfulAction(adapter, lobbyPlayerId, action, snapshotBefore, result);
-
+  // The adapter logs the command's domain events
   return {
     success: true,
-    snapshot: result,
+    snapshot: outcome.snapshot,
   };
 }
-
-/**
- * Log a successful action to the activity log
- */
-function logSuccessfulAction(
-  adapter: PartyGameAdapter,
-  lobbyPlayerId: string,
-  action: GameAction,
-  before: GameSnapshot,
-  after: GameSnapshot
-): void {
-  switch (action.type) {
-    case "DRAW_FROM_STOCK":
-      adapter.logDraw(lobbyPlayerId, before, after, "stock");
-      break;
-
-    case "DRAW_FROM_DISCARD":
-      adapter.logDraw(lobbyPlayerId, before, after, "discard");
-      break;
-
-    case "DISCARD":
-      adapter.logDiscard(lobbyPlayerId, before, after, action.cardId);
-      break;
-
-    case "LAY_DOWN":
-      adapter.logLayDown(lobbyPlayerId, before, after);
-      break;
-
-    case "LAY_OFF":
-      adapter.logLayOff(lobbyPlayerId, action.cardId, before, after, action.position);
-      break;
-
-    case "CALL_MAY_I": {
-      const cardId = before.discard[0]?.id;
-      if (cardId) {
-        adapter.logMayICall(lobbyPlayerId, cardId, before);
-      }
-      break;
-    }
-
-    case "ALLOW_MAY_I": {
-      adapter.logMayIAllow(lobbyPlayerId);
-      // If May-I just resolved (phase changed), log who got the card
-      if (before.phase === "RESOLVING_MAY_I" && after.phase === "ROUND_ACTIVE") {
-        const mayIContext = before.mayIContext;
-        if (mayIContext) {
-          const cardRendered = renderCard(mayIContext.cardBeingClaimed);
-          const winnerEngineId = mayIContext.originalCaller;
-          const winnerMapping = adapter.getAllPlayerMappings().find(
-            (m) => m.engineId === winnerEngineId
-          );
-          if (winnerMapping) {
-            adapter.logMayIResolved(winnerMapping.lobbyId, cardRendered, false);
-          }
-        }
-      }
-      break;
-    }
-
-    case "CLAIM_MAY_I": {
-      const mayIContext = before.mayIContext;
-      if (mayIContext) {
-        const cardRendered = renderCard(mayIContext.cardBeingClaimed);
-        adapter.logMayIClaim(lobbyPlayerId, cardRendered);
-        // Claimer is this player, they took the card
-        adapter.logMayIResolved(lobbyPlayerId, cardRendered, true);
-      }
-      break;
-    }
-
-    // SKIP, REORDER_HAND, SWAP_JOKER are not logged (too verbose)
-  }
-}
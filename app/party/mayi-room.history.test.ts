@@ -0,0 +1,41 @@
+import { describe, expect, it } from "bun:test";
+
+import { appendRoomHistory, MAX_ROOM_HISTORY } from "./mayi-room.history";
+import type { RoomGameSummary } from "./protocol.types";
+
+const createGame = (n: number): Omit<RoomGameSummary, "gameNumber"> => ({
+  finalScores: { p1: n, p2: n + 10 },
+  winnerId: "p1",
+  playerNames: { p1: "Ann", p2: "Bob" },
+  endedAt: `2026-01-${String(n).padStart(2, "0")}T00:00:00.000Z`,
+});
+
+describe("MayIRoom history logic", () => {
+  it("appends games oldest first", () => {
+    const history = appendRoomHistory(appendRoomHistory([], createGame(1)), createGame(2));
+
+    expect(history.map((game) => game.finalScores.p1)).toEqual([1, 2]);
+    expect(history.map((game) => game.gameNumber)).toEqual([1, 2]);
+  });
+
+  it("drops the oldest games past the limit", () => {
+    let history: RoomGameSummary[] = [];
+    for (let n = 1; n <= MAX_ROOM_HISTORY + 2; n++) {
+      history = appendRoomHistory(history, createGame(n));
+    }
+
+    expect(history.length).toBe(MAX_ROOM_HISTORY);
+    expect(history[0]!.finalScores.p1).toBe(3);
+    expect(history.at(-1)!.finalScores.p1).toBe(MAX_ROOM_HISTORY + 2);
+  });
+
+  it("keeps numbering games after the oldest are dropped", () => {
+    let history: RoomGameSummary[] = [];
+    for (let n = 1; n <= MAX_ROOM_HISTORY + 2; n++) {
+      history = appendRoomHistory(history, createGame(n));
+    }
+
+    expect(history[0]!.gameNumber).toBe(3);
+    expect(history.at(-1)!.gameNumber).toBe(MAX_ROOM_HISTORY + 2);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Pure room history logic: the results of games already played in a room
+ *
+ * This file contains NO Durable Object / WebSocket code so we can unit test it
+ * with Bun without needing a Workers runtime.
+ *
+ * Rematches reuse the room, so the history lets everyone look back at earlier
+ * games without a new link. Only the most recent games are kept.
+ *
+ * Follows the same pattern as mayi-room.match.ts
+ */
+
+import type { RoomGameSummary } from "./protocol.types";
+
+/** Games kept in a room's history (oldest are dropped first) */
+export const MAX_ROOM_HISTORY = 20;
+
+/**
+ * Add a finished game to the history, oldest first, numbering it after the
+ * last game so numbers keep counting once old games are dropped
+ */
+export function appendRoomHistory(
+  history: RoomGameSummary[],
+  game: Omit<RoomGameSummary, "gameNumber">
+): RoomGameSummary[] {
+  const gameNumber = (history.at(-1)?.gameNumber ?? 0) + 1;
+  return [...history, { ...game, gameNumber }].slice(-MAX_ROOM_HISTORY);
+}
@@ -4,6 +4,8 @@ import {
   applyAddAIPlayerAction,
   applyRemoveAIPlayerAction,
   applySetStartingRoundAction,
+  applySetTurnTimerAction,
+  applySetMatchAction,
 } from "./mayi-room.lobby-actions";
 import {
   createInitialLobbyState,
@@ -156,4 +158,69 @@ describe("mayi-room.lobby-actions", () => {
       }
     });
   });
+
+  describe("applySetTurnTimerAction", () => {
+    it("returns INVALID_TURN_TIMER for out-of-range values", () => {
+      const lobbyState = createInitialLobbyState();
+      const result = applySetTurnTimerAction({
+        lobbyState,
+        message: { type: "SET_TURN_TIMER", turnTimer: { secondsPerTurn: 5, bankSeconds: 0 } },
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.error).toBe("INVALID_TURN_TIMER");
+      }
+    });
+
+    it("sets and clears the turn timer", () => {
+      const turnTimer = { secondsPerTurn: 30, bankSeconds: 120 };
+      const timed = applySetTurnTimerAction({
+        lobbyState: createInitialLobbyState(),
+        message: { type: "SET_TURN_TIMER", turnTimer },
+      });
+
+      expect(timed.ok).toBe(true);
+      if (!timed.ok) return;
+      expect(timed.lobbyState.turnTimer).toEqual(turnTimer);
+
+      const untimed = applySetTurnTimerAction({
+        lobbyState: timed.lobbyState,
+        message: { type: "SET_TURN_TIMER", turnTimer: null },
+      });
+      expect(untimed.ok && untimed.lobbyState.turnTimer).toBeNull();
+    });
+  });
+
+  describe("applySetMatchAction", () => {
+    it("returns INVALID_MATCH for a best-of with an even number of games", () => {
+      const result = applySetMatchAction({
+        lobbyState: createInitialLobbyState(),
+        message: { type: "SET_MATCH", match: { format: "best_of", games: 4 } },
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.error).toBe("INVALID_MATCH");
+      }
+    });
+
+    it("sets and clears the match", () => {
+      const match = { format: "fixed" as const, games: 4 };
+      const series = applySetMatchAction({
+        lobbyState: createInitialLobbyState(),
+        message: { type: "SET_MATCH", match },
+      });
+
+      expect(series.ok).toBe(true);
+      if (!series.ok) return;
+      expect(series.lobbyState.match).toEqual(match);
+
+      const single = applySetMatchAction({
+        lobbyState: series.lobbyState,
+        message: { type: "SET_MATCH", match: null },
+      });
+      expect(single.ok && single.lobbyState.match).toBeNull();
+    });
+  });
 });
@@ -2,12 +2,18 @@ import type {
   AddAIPlayerMessage,
   RemoveAIPlayerMessage,
   SetStartingRoundMessage,
+  SetContractsMessage,
+  SetTurnTimerMessage,
+  SetMatchMessage,
   HumanPlayerInfo,
 } from "./protocol.types";
 import {
   addAIPlayer,
   removeAIPlayer,
   setStartingRound,
+  setContracts,
+  setTurnTimer,
+  setMatch,
   isAvatarIdTaken,
   type LobbyState,
 } from "./mayi-room.lobby";
@@ -16,7 +22,10 @@ export type LobbyActionErrorCode =
   | "AVATAR_TAKEN"
   | "MAX_PLAYERS"
   | "PLAYER_NOT_FOUND"
-  | "INVALID_ROUND";
+  | "INVALID_ROUND"
+  | "INVALID_CONTRACTS"
+  | "INVALID_TURN_TIMER"
+  | "INVALID_MATCH";
 
 export interface LobbyActionError {
   error: LobbyActionErrorCode;
@@ -100,7 +109,61 @@ export function applySetStartingRoundAction(args: {
       ok: false,
       error: {
         error: "INVALID_ROUND",
-        message: "Invalid round number (must be 1-6)",
+        message: `Invalid round number (must be 1-${args.lobbyState.contracts.length})`,
+      },
+    };
+  }
+
+  return { ok: true, lobbyState: newState };
+}
+
+export function applySetContractsAction(args: {
+  lobbyState: LobbyState;
+  message: SetContractsMessage;
+}): LobbyActionResult {
+  const newState = setContracts(args.lobbyState, args.message.contracts);
+  if (!newState) {
+    return {
+      ok: false,
+      error: {
+        error: "INVALID_CONTRACTS",
+        message: "Invalid contracts (each round needs a meld and enough cards dealt)",
+      },
+    };
+  }
+
+  return { ok: true, lobbyState: newState };
+}
+
+export function applySetTurnTimerAction(args: {
+  lobbyState: LobbyState;
+  message: SetTurnTimerMessage;
+}): LobbyActionResult {
+  const newState = setTurnTimer(args.lobbyState, args.message.turnTimer);
+  if (!newState) {
+    return {
+      ok: false,
+      error: {
+        error: "INVALID_TURN_TIMER",
+        message: "Invalid turn timer (seconds per turn or time bank out of range)",
+      },
+    };
+  }
+
+  return { ok: true, lobbyState: newState };
+}
+
+export function applySetMatchAction(args: {
+  lobbyState: LobbyState;
+  message: SetMatchMessage;
+}): LobbyActionResult {
+  const newState = setMatch(args.lobbyState, args.message.match);
+  if (!newState) {
+    return {
+      ok: false,
+      error: {
+        error: "INVALID_MATCH",
+        message: "Invalid match (best-of needs an odd number of games)",
       },
     };
   }
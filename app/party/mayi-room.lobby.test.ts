@@ -8,6 +8,7 @@ import {
   addAIPlayer,
   removeAIPlayer,
   setStartingRound,
+  setContracts,
   canStartGame,
   getTotalPlayerCount,
   buildLobbyStatePayload,
@@ -22,6 +23,7 @@ import type { LobbyState } from "./mayi-room.lobby";
 import type { AIPlayerInfo, HumanPlayerInfo } from "./protocol.types";
 import { AI_MODEL_DISPLAY_NAMES } from "./protocol.types";
 import type { StoredPlayer } from "./mayi-room.presence";
+import { DEFAULT_CONTRACTS } from "../../core/engine/contracts";
 
 describe("mayi-room.lobby", () => {
   describe("createInitialLobbyState", () => {
@@ -30,6 +32,7 @@ describe("mayi-room.lobby", () => {
 
       expect(state.aiPlayers).toEqual([]);
       expect(state.startingRound).toBe(DEFAULT_STARTING_ROUND);
+      expect(state.contracts).toBe(DEFAULT_CONTRACTS);
     });
   });
 
@@ -72,7 +75,13 @@ describe("mayi-room.lobby", () => {
         modelId: "default:grok",
         modelDisplayName: AI_MODEL_DISPLAY_NAMES["default:grok"],
       };
-      const state = { aiPlayers: [initial], startingRound: DEFAULT_STARTING_ROUND };
+      const state = {
+        aiPlayers: [initial],
+        startingRound: DEFAULT_STARTING_ROUND,
+        contracts: DEFAULT_CONTRACTS,
+        turnTimer: null,
+        match: null,
+      };
       const result = removeAIPlayer(state, "ai-1");
 
       expect(result).not.toBeNull();
@@ -95,6 +104,45 @@ describe("mayi-room.lobby", () => {
 
       expect(result?.startingRound).toBe(3);
     });
+
+    it("accepts rounds past 6 when the contract sequence is longer", () => {
+      const state = setContracts(
+        createInitialLobbyState(),
+        Array.from({ length: 7 }, () => ({ sets: 2, runs: 0 }))
+      )!;
+
+      expect(setStartingRound(state, 7)?.startingRound).toBe(7);
+      expect(setStartingRound(state, 8)).toBeNull();
+    });
+  });
+
+  describe("setContracts", () => {
+    it("numbers rounds in order and fills in defaults", () => {
+      const result = setContracts(createInitialLobbyState(), [
+        { sets: 1, runs: 0, cardsDealt: 7 },
+        { sets: 1, runs: 1, mustUseAllCards: true },
+      ]);
+
+      expect(result?.contracts).toEqual([
+        { roundNumber: 1, sets: 1, runs: 0, cardsDealt: 7, mustUseAllCards: false },
+        { roundNumber: 2, sets: 1, runs: 1, cardsDealt: 11, mustUseAllCards: true },
+      ]);
+    });
+
+    it("resets the starting round when it is past the last round", () => {
+      const state = setStartingRound(createInitialLobbyState(), 5)!;
+      const result = setContracts(state, [{ sets: 2, runs: 0 }]);
+
+      expect(result?.startingRound).toBe(DEFAULT_STARTING_ROUND);
+    });
+
+    it("returns null for invalid sequences", () => {
+      const state = createInitialLobbyState();
+
+      expect(setContracts(state, [])).toBeNull();
+      expect(setContracts(state, [{ sets: 0, runs: 0 }])).toBeNull();
+      expect(setContracts(state, [{ sets: 3, runs: 0, cardsDealt: 5 }])).toBeNull();
+    });
   });
 
   describe("canStartGame", () => {
@@ -128,6 +176,9 @@ describe("mayi-room.lobby", () => {
           },
         ],
         startingRound: 1,
+        contracts: DEFAULT_CONTRACTS,
+        turnTimer: { secondsPerTurn: 45, bankSeconds: 120 },
+        match: { format: "best_of", games: 3 },
       };
 
       const payload = buildLobbyStatePayload(humans, lobbyState);
@@ -135,7 +186,37 @@ describe("mayi-room.lobby", () => {
       expect(payload.players).toBe(humans);
       expect(payload.aiPlayers).toBe(lobbyState.aiPlayers);
       expect(payload.startingRound).toBe(1);
+      expect(payload.contracts).toBe(DEFAULT_CONTRACTS);
+      expect(payload.turnTimer).toEqual({ secondsPerTurn: 45, bankSeconds: 120 });
+      expect(payload.match).toEqual({ format: "best_of", games: 3 });
       expect(payload.canStart).toBe(true);
+      expect(payload.ratings).toEqual({});
+      expect(payload.spectatorCount).toBe(0);
+      expect(payload.seats).toEqual([]);
+    });
+
+    it("passes through lobby ratings", () => {
+      const lobbyState = createInitialLobbyState();
+
+      const payload = buildLobbyStatePayload([], lobbyState, {
+        ratings: { h1: 1532, "ai-1": 1488 },
+      });
+
+      expect(payload.ratings).toEqual({ h1: 1532, "ai-1": 1488 });
+    });
+
+    it("counts spectators without letting them start a game", () => {
+      const humans: HumanPlayerInfo[] = [
+        { playerId: "h1", name: "A", isConnected: true, disconnectedAt: null },
+        { playerId: "h2", name: "B", isConnected: true, disconnectedAt: null },
+      ];
+
+      const payload = buildLobbyStatePayload(humans, createInitialLobbyState(), {
+        spectatorCount: 4,
+      });
+
+      expect(payload.spectatorCount).toBe(4);
+      expect(payload.canStart).toBe(false);
     });
   });
 
@@ -9,14 +9,25 @@
 
 import { nanoid } from "nanoid";
 import type { RoundNumber } from "../../core/engine/engine.types";
+import {
+  DEFAULT_CONTRACTS,
+  createContractSequence,
+  type Contract,
+  type ContractSpec,
+} from "../../core/engine/contracts";
 import type {
   AIPlayerInfo,
   AIModelId,
+  GameSeatInfo,
   HumanPlayerInfo,
   LobbyStatePayload,
+  MatchSettings,
+  TurnTimerSettings,
 } from "./protocol.types";
 import { AI_MODEL_DISPLAY_NAMES } from "./protocol.types";
 import type { StoredPlayer } from "./mayi-room.presence";
+import { isValidTurnTimerSettings } from "./mayi-room.turn-clock";
+import { isValidMatchSettings } from "./mayi-room.match";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Constants
@@ -34,6 +45,12 @@ export const DEFAULT_STARTING_ROUND: RoundNumber = 1;
 export interface LobbyState {
   aiPlayers: AIPlayerInfo[];
   startingRound: RoundNumber;
+  /** Contract sequence for the game, one per round */
+  contracts: Contract[];
+  /** Per-turn clock for human players (null = untimed) */
+  turnTimer: TurnTimerSettings | null;
+  /** Match series format (null = a single game) */
+  match: MatchSettings | null;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -47,6 +64,9 @@ export function createInitialLobbyState(): LobbyState {
   return {
     aiPlayers: [],
     startingRound: DEFAULT_STARTING_ROUND,
+    contracts: DEFAULT_CONTRACTS,
+    turnTimer: null,
+    match: null,
   };
 }
 
@@ -109,7 +129,7 @@ export function setStartingRound(
   state: LobbyState,
   round: number
 ): LobbyState | null {
-  if (round < 1 || round > 6 || !Number.isInteger(round)) {
+  if (round < 1 || round > state.contracts.length || !Number.isInteger(round)) {
     return null; // Invalid round
   }
 
@@ -119,6 +139,63 @@ export function setStartingRound(
   };
 }
 
+/**
+ * Set the contract sequence
+ * Returns new state or null if the sequence is invalid.
+ * Resets the starting round when it is past the last round.
+ */
+export function setContracts(
+  state: LobbyState,
+  specs: ContractSpec[]
+): LobbyState | null {
+  let contracts: Contract[];
+  try {
+    contracts = createContractSequence(specs);
+  } catch {
+    return null; // Invalid contract sequence
+  }
+
+  return {
+    ...state,
+    contracts,
+    startingRound:
+      state.startingRound > contracts.length ? DEFAULT_STARTING_ROUND : state.startingRound,
+  };
+}
+
+/**
+ * Set or clear the per-turn clock
+ * Returns new state or null if the settings are out of range
+ */
+export function setTurnTimer(
+  state: LobbyState,
+  turnTimer: TurnTimerSettings | null
+): LobbyState | null {
+  if (turnTimer && !isValidTurnTimerSettings(turnTimer)) {
+    return null; // Invalid settings
+  }
+
+  return {
+    ...state,
+    turnTimer,
+  };
+}
+
+/**
+ * Set the match series format
+ * Returns new state or null if the settings are out of range
+ */
+export function setMatch(state: LobbyState, match: MatchSettings | null): LobbyState | null {
+  if (match && !isValidMatchSettings(match)) {
+    return null; // Invalid settings
+  }
+
+  return {
+    ...state,
+    match,
+  };
+}
+
 /**
  * Check if the game can be started
  */
@@ -167,10 +244,17 @@ export function getTotalPlayerCount(
 
 /**
  * Build the lobby state payload to send to clients
+ *
+ * Spectators are only counted; they never make a game startable.
  */
 export function buildLobbyStatePayload(
   humanPlayers: HumanPlayerInfo[],
-  lobbyState: LobbyState
+  lobbyState: LobbyState,
+  extras: {
+    ratings?: Record<string, number>;
+    spectatorCount?: number;
+    seats?: GameSeatInfo[];
+  } = {}
 ): LobbyStatePayload {
   const humanCount = humanPlayers.length;
   const aiCount = lobbyState.aiPlayers.length;
@@ -179,6 +263,12 @@ export function buildLobbyStatePayload(
     players: humanPlayers,
     aiPlayers: lobbyState.aiPlayers,
     startingRound: lobbyState.startingRound,
+    contracts: lobbyState.contracts,
+    turnTimer: lobbyState.turnTimer,
+    match: lobbyState.match,
+    ratings: extras.ratings ?? {},
+    spectatorCount: extras.spectatorCount ?? 0,
+    seats: extras.seats ?? [],
     canStart: canStartGame(humanCount, aiCount),
   };
 }
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+  buildMatchStandings,
+  buildMatchSummaryPayload,
+  createMatchState,
+  getMatchWinnerId,
+  isMatchOver,
+  isValidMatchSettings,
+  recordMatchGame,
+} from "./mayi-room.match";
+
+const NAMES = { p1: "Ann", p2: "Bob", p3: "Cat" };
+
+describe("MayIRoom match logic", () => {
+  it("validates match settings", () => {
+    expect(isValidMatchSettings({ format: "best_of", games: 3 })).toBe(true);
+    expect(isValidMatchSettings({ format: "fixed", games: 4 })).toBe(true);
+    expect(isValidMatchSettings({ format: "best_of", games: 4 })).toBe(false);
+    expect(isValidMatchSettings({ format: "fixed", games: 1 })).toBe(false);
+    expect(isValidMatchSettings({ format: "fixed", games: 10 })).toBe(false);
+  });
+
+  it("accumulates scores and game wins", () => {
+    let state = createMatchState({ format: "fixed", games: 3 });
+    state = recordMatchGame(state, { p1: 40, p2: 90, p3: 120 }, NAMES);
+    state = recordMatchGame(state, { p1: 150, p2: 60, p3: 70 }, NAMES);
+
+    expect(buildMatchStandings(state)).toEqual([
+      { playerId: "p2", name: "Bob", totalScore: 150, gamesWon: 1 },
+      { playerId: "p1", name: "Ann", totalScore: 190, gamesWon: 1 },
+      { playerId: "p3", name: "Cat", totalScore: 190, gamesWon: 0 },
+    ]);
+    expect(isMatchOver(state)).toBe(false);
+  });
+
+  it("shares a game win between players tied for lowest", () => {
+    const state = recordMatchGame(
+      createMatchState({ format: "fixed", games: 2 }),
+      { p1: 50, p2: 50, p3: 80 },
+      NAMES
+    );
+
+    expect(state.games[0]?.winnerIds).toEqual(["p1", "p2"]);
+  });
+
+  it("ends a best-of match once someone wins a majority", () => {
+    let state = createMatchState({ format: "best_of", games: 5 });
+    state = recordMatchGame(state, { p1: 10, p2: 90, p3: 120 }, NAMES);
+    state = recordMatchGame(state, { p1: 20, p2: 30, p3: 70 }, NAMES);
+    expect(isMatchOver(state)).toBe(false);
+
+    state = recordMatchGame(state, { p1: 300, p2: 30, p3: 70 }, NAMES);
+    expect(isMatchOver(state)).toBe(false);
+
+    state = recordMatchGame(state, { p1: 5, p2: 30, p3: 70 }, NAMES);
+    expect(buildMatchSummaryPayload(state)).toMatchObject({
+      format: "best_of",
+      games: 5,
+      gamesPlayed: 4,
+      isOver: true,
+      winnerId: "p1",
+    });
+  });
+
+  it("ends a fixed match after N games with the lowest total winning", () => {
+    let state = createMatchState({ format: "fixed", games: 2 });
+    state = recordMatchGame(state, { p1: 10, p2: 90, p3: 120 }, NAMES);
+    state = recordMatchGame(state, { p1: 200, p2: 30, p3: 70 }, NAMES);
+
+    expect(isMatchOver(state)).toBe(true);
+    expect(getMatchWinnerId(state)).toBe("p2");
+  });
+
+  it("has no winner when the leaders finish level", () => {
+    let state = createMatchState({ format: "fixed", games: 2 });
+    state = recordMatchGame(state, { p1: 10, p2: 90, p3: 120 }, NAMES);
+    state = recordMatchGame(state, { p1: 90, p2: 10, p3: 70 }, NAMES);
+
+    expect(isMatchOver(state)).toBe(true);
+    expect(getMatchWinnerId(state)).toBeNull();
+  });
+});
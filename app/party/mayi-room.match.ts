@@ -0,0 +1,163 @@
+/**
+ * Pure match series logic for playing several games in a row
+ *
+ * This file contains NO Durable Object / WebSocket code so we can unit test it
+ * with Bun without needing a Workers runtime. The room persists the state,
+ * records each finished game and starts the next one with the same seats.
+ *
+ * A match is either best-of-N (first to win a majority of N games) or a fixed
+ * N games (lowest cumulative score wins). Within each game the lowest score
+ * wins as usual; players who tie for lowest all take the game.
+ *
+ * Follows the same pattern as mayi-room.presence.ts
+ */
+
+import type { MatchSettings, MatchStanding, MatchSummaryPayload } from "./protocol.types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const MATCH_FORMATS = ["best_of", "fixed"] as const;
+export const MIN_MATCH_GAMES = 2;
+export const MAX_MATCH_GAMES = 9;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** One finished game of the match */
+export interface MatchGameResult {
+  /** Final score per lobby player ID */
+  finalScores: Record<string, number>;
+  /** Lobby IDs of the players with the lowest score */
+  winnerIds: string[];
+}
+
+/** Match state stored in the room */
+export interface MatchState {
+  settings: MatchSettings;
+  games: MatchGameResult[];
+  /** Display names per lobby player ID, from the latest game */
+  playerNames: Record<string, string>;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Pure State Functions
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Check match settings are in range (best-of needs an odd number of games)
+ */
+export function isValidMatchSettings(settings: MatchSettings): boolean {
+  if (!MATCH_FORMATS.includes(settings.format)) return false;
+  if (!Number.isInteger(settings.games)) return false;
+  if (settings.games < MIN_MATCH_GAMES || settings.games > MAX_MATCH_GAMES) return false;
+  return settings.format !== "best_of" || settings.games % 2 === 1;
+}
+
+/**
+ * Create a match with no games played
+ */
+export function createMatchState(settings: MatchSettings): MatchState {
+  return { settings, games: [], playerNames: {} };
+}
+
+/**
+ * Games a player needs to win a best-of match
+ */
+export function getGamesToWin(settings: MatchSettings): number {
+  return Math.floor(settings.games / 2) + 1;
+}
+
+/**
+ * Record a finished game (lowest score wins, ties share the win)
+ */
+export function recordMatchGame(
+  state: MatchState,
+  finalScores: Record<string, number>,
+  playerNames: Record<string, string>
+): MatchState {
+  const lowest = Math.min(...Object.values(finalScores));
+  const winnerIds = Object.keys(finalScores).filter((id) => finalScores[id] === lowest);
+
+  return {
+    ...state,
+    games: [...state.games, { finalScores, winnerIds }],
+    playerNames: { ...state.playerNames, ...playerNames },
+  };
+}
+
+/**
+ * Build cumulative standings, leader first
+ *
+ * Best-of matches rank by games won, then total score. Fixed matches rank by
+ * total score, then games won.
+ */
+export function buildMatchStandings(state: MatchState): MatchStanding[] {
+  const byPlayer = new Map<string, MatchStanding>();
+
+  for (const game of state.games) {
+    for (const [playerId, score] of Object.entries(game.finalScores)) {
+      const standing = byPlayer.get(playerId) ?? {
+        playerId,
+        name: state.playerNames[playerId] ?? playerId,
+        totalScore: 0,
+        gamesWon: 0,
+      };
+      standing.totalScore += score;
+      if (game.winnerIds.includes(playerId)) standing.gamesWon += 1;
+      byPlayer.set(playerId, standing);
+    }
+  }
+
+  const byWins = (a: MatchStanding, b: MatchStanding) => b.gamesWon - a.gamesWon;
+  const byScore = (a: MatchStanding, b: MatchStanding) => a.totalScore - b.totalScore;
+  const [first, second] =
+    state.settings.format === "best_of" ? [byWins, byScore] : [byScore, byWins];
+
+  return [...byPlayer.values()].sort((a, b) => first(a, b) || second(a, b));
+}
+
+/**
+ * Check whether the match is decided
+ */
+export function isMatchOver(state: MatchState): boolean {
+  if (state.games.length >= state.settings.games) return true;
+  if (state.settings.format !== "best_of") return false;
+
+  const toWin = getGamesToWin(state.settings);
+  return buildMatchStandings(state).some((standing) => standing.gamesWon >= toWin);
+}
+
+/**
+ * Get the match winner, or null while undecided or if the leaders are level
+ */
+export function getMatchWinnerId(state: MatchState): string | null {
+  if (!isMatchOver(state)) return null;
+
+  const [leader, runnerUp] = buildMatchStandings(state);
+  if (!leader) return null;
+  if (
+    runnerUp &&
+    runnerUp.gamesWon === leader.gamesWon &&
+    runnerUp.totalScore === leader.totalScore
+  ) {
+    return null;
+  }
+  return leader.playerId;
+}
+
+/**
+ * Build the match summary sent to clients with GAME_ENDED
+ */
+export function buildMatchSummaryPayload(state: MatchState): MatchSummaryPayload {
+  return {
+    format: state.settings.format,
+    games: state.settings.games,
+    gamesPlayed: state.games.length,
+    standings: buildMatchStandings(state),
+    isOver: isMatchOver(state),
+    winnerId: getMatchWinnerId(state),
+  };
+}
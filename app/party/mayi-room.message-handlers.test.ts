@@ -3,12 +3,18 @@ import { describe, expect, it } from "bun:test";
 import { createInitialLobbyState, MAX_PLAYERS } from "./mayi-room.lobby";
 import {
   handleAddAIPlayerMessage,
+  handleClaimSeatMessage,
   handleGameActionMessage,
+  handleHandSeatToAIMessage,
   handleJoinMessage,
   handleRemoveAIPlayerMessage,
   handleStartGameMessage,
   handleSetStartingRoundMessage,
+  handleSpectateMessage,
+  handleStartNextGameMessage,
+  handleRematchMessage,
 } from "./mayi-room.message-handlers";
+import { createMatchState } from "./mayi-room.match";
 import type { StoredPlayer } from "./mayi-room.presence";
 import type {
   AIPlayerInfo,
@@ -23,6 +29,7 @@ import { PartyGameAdapter } from "./party-game-adapter";
 describe("mayi-room.message-handlers", () => {
   const baseLobbyState = createInitialLobbyState();
   const baseHumanPlayers: HumanPlayerInfo[] = [];
+  const testProfile = { profileId: "profile-1", profileToken: "profile-1.signature" };
 
   const buildJoin = (overrides: Partial<JoinMessage> = {}): JoinMessage => ({
     type: "JOIN",
@@ -42,6 +49,8 @@ describe("mayi-room.message-handlers", () => {
         lobbyState: baseLobbyState,
         roomPhase: "lobby",
         gameState: null,
+        seatToken: "seat-token",
+        profile: testProfile,
       },
     });
 
@@ -66,6 +75,8 @@ describe("mayi-room.message-handlers", () => {
         lobbyState: baseLobbyState,
         roomPhase: "lobby",
         gameState: null,
+        seatToken: "seat-token",
+        profile: testProfile,
       },
     });
 
@@ -100,6 +111,8 @@ describe("mayi-room.message-handlers", () => {
         lobbyState: baseLobbyState,
         roomPhase: "lobby",
         gameState: null,
+        seatToken: "seat-token",
+        profile: testProfile,
       },
     });
 
@@ -129,6 +142,8 @@ describe("mayi-room.message-handlers", () => {
         lobbyState: baseLobbyState,
         roomPhase: "lobby",
         gameState: null,
+        seatToken: "seat-token",
+        profile: testProfile,
       },
     });
 
@@ -139,6 +154,7 @@ describe("mayi-room.message-handlers", () => {
         playerId: "player-2",
         name: "Bob",
         avatarId: "curt",
+        profileId: "profile-1",
         joinedAt: now,
         lastSeenAt: now,
         isConnected: true,
@@ -151,6 +167,8 @@ describe("mayi-room.message-handlers", () => {
           type: "JOINED",
           playerId: "player-2",
           playerName: "Bob",
+          seatToken: "seat-token",
+          profileToken: "profile-1.signature",
         },
       ]);
       expect(result.afterBroadcastMessages).toEqual([]);
@@ -180,6 +198,7 @@ describe("mayi-room.message-handlers", () => {
       message: buildJoin({
         playerId: "h2",
         playerName: "Bob",
+        seatToken: "seat-token",
       }),
       state: {
         connectionId: "conn-3",
@@ -189,6 +208,8 @@ describe("mayi-room.message-handlers", () => {
         lobbyState: baseLobbyState,
         roomPhase: "playing",
         gameState: adapter.getStoredState(),
+        seatToken: "seat-token",
+        profile: testProfile,
       },
     });
 
@@ -198,6 +219,184 @@ describe("mayi-room.message-handlers", () => {
     }
   });
 
+  it("requires the seat token for a game seat after its presence record expired", () => {
+    const humanPlayers: HumanPlayerInfo[] = [
+      { playerId: "h1", name: "Alice", isConnected: true, disconnectedAt: null },
+      { playerId: "h2", name: "Bob", isConnected: true, disconnectedAt: null },
+      { playerId: "h3", name: "Cara", isConnected: true, disconnectedAt: null },
+    ];
+    const gameState = PartyGameAdapter.createFromLobby({
+      roomId: "room-1",
+      humanPlayers,
+      aiPlayers: [
+        { playerId: "ai-1", name: "Grok", modelId: "default:grok", modelDisplayName: "Grok" },
+      ],
+      startingRound: 1,
+    }).getStoredState();
+    const join = (playerId: string) =>
+      handleJoinMessage({
+        message: buildJoin({ playerId, playerName: "Mallory" }),
+        state: {
+          connectionId: "conn-9",
+          now: 999,
+          // h2's presence record is gone once the disconnect grace period passes
+          existingPlayer: null,
+          humanPlayers: humanPlayers.filter((p) => p.playerId !== "h2"),
+          lobbyState: baseLobbyState,
+          roomPhase: "playing",
+          gameState,
+          seatToken: "seat-token",
+          profile: testProfile,
+        },
+      });
+
+    for (const result of [join("h2"), join("ai-1")]) {
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.outboundMessages[0].error).toBe("INVALID_SEAT_TOKEN");
+      }
+    }
+  });
+
+  it("refuses joins when seat tokens can't be issued", () => {
+    const result = handleJoinMessage({
+      message: buildJoin(),
+      state: {
+        connectionId: "conn-1",
+        now: 1,
+        existingPlayer: null,
+        humanPlayers: baseHumanPlayers,
+        lobbyState: baseLobbyState,
+        roomPhase: "lobby",
+        gameState: null,
+        seatToken: null,
+        profile: testProfile,
+      },
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.outboundMessages[0].error).toBe("SEAT_TOKENS_UNAVAILABLE");
+    }
+  });
+
+  it("rejects a join whose profile token is forged", () => {
+    const result = handleJoinMessage({
+      message: buildJoin({ profileToken: "victim-profile.forged" }),
+      state: {
+        connectionId: "conn-1",
+        now: 1,
+        existingPlayer: null,
+        humanPlayers: baseHumanPlayers,
+        lobbyState: baseLobbyState,
+        roomPhase: "lobby",
+        gameState: null,
+        seatToken: "seat-token",
+        profile: null,
+      },
+    });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.outboundMessages[0].error).toBe("INVALID_PROFILE_TOKEN");
+    }
+  });
+
+  it("rejects a returning player without their seat token", () => {
+    const existingPlayer: StoredPlayer = {
+      playerId: "player-1",
+      name: "Alice",
+      joinedAt: 1,
+      lastSeenAt: 1,
+      isConnected: false,
+      currentConnectionId: null,
+      connectedAt: null,
+      disconnectedAt: 1,
+    };
+    const join = (seatToken?: string) =>
+      handleJoinMessage({
+        message: buildJoin({ seatToken }),
+        state: {
+          connectionId: "conn-2",
+          now: 2,
+          existingPlayer,
+          humanPlayers: baseHumanPlayers,
+          lobbyState: baseLobbyState,
+          roomPhase: "lobby",
+          gameState: null,
+          seatToken: "seat-token",
+          profile: testProfile,
+        },
+      });
+
+    for (const result of [join(), join("stolen-guess")]) {
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.outboundMessages[0].error).toBe("INVALID_SEAT_TOKEN");
+      }
+    }
+    expect(join("seat-token").ok).toBe(true);
+  });
+
+  describe("spectate handler", () => {
+    it("marks the connection as a spectator in the lobby", () => {
+      const result = handleSpectateMessage({
+        state: { callerPlayerId: null, roomPhase: "lobby", gameState: null },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.outboundMessages).toEqual([{ type: "SPECTATING" }]);
+        expect(result.sideEffects).toEqual([
+          { type: "setConnectionState", state: { isSpectator: true } },
+          { type: "broadcastLobbyState" },
+        ]);
+      }
+    });
+
+    it("sends the spectator view during a game", () => {
+      const adapter = PartyGameAdapter.createFromLobby({
+        roomId: "room-1",
+        humanPlayers: [
+          { playerId: "h1", name: "Alice", isConnected: true, disconnectedAt: null },
+          { playerId: "h2", name: "Bob", isConnected: true, disconnectedAt: null },
+          { playerId: "h3", name: "Cara", isConnected: true, disconnectedAt: null },
+        ],
+        aiPlayers: [],
+        startingRound: 1,
+      });
+
+      const result = handleSpectateMessage({
+        state: {
+          callerPlayerId: null,
+          roomPhase: "playing",
+          gameState: adapter.getStoredState(),
+        },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        const stateMessage = result.outboundMessages[1];
+        expect(stateMessage?.type).toBe("SPECTATOR_STATE");
+        if (stateMessage?.type === "SPECTATOR_STATE") {
+          expect(stateMessage.state.players).toHaveLength(3);
+          expect(stateMessage.state).not.toHaveProperty("yourHand");
+        }
+      }
+    });
+
+    it("rejects connections that already joined as a player", () => {
+      const result = handleSpectateMessage({
+        state: { callerPlayerId: "h1", roomPhase: "lobby", gameState: null },
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.outboundMessages[0].error).toBe("ALREADY_JOINED");
+      }
+    });
+  });
+
   describe("lobby action handlers", () => {
     const buildAddAI = (
       overrides: Partial<AddAIPlayerMessage> = {}
@@ -496,6 +695,354 @@ describe("mayi-room.message-handlers", () => {
     });
   });
 
+  describe("start next game handler", () => {
+    const createGameInProgress = () =>
+      PartyGameAdapter.createFromLobby({
+        roomId: "room-1",
+        humanPlayers: [
+          { playerId: "h1", name: "Alice", isConnected: true, disconnectedAt: null },
+          { playerId: "h2", name: "Bob", isConnected: true, disconnectedAt: null },
+          { playerId: "h3", name: "Cara", isConnected: true, disconnectedAt: null },
+        ],
+        aiPlayers: [],
+        startingRound: 1,
+      }).getStoredState();
+
+    it("rejects callers without a seat", () => {
+      const result = handleStartNextGameMessage({
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: "spectator",
+          lobbyState: baseLobbyState,
+          gameState: createGameInProgress(),
+          matchState: createMatchState({ format: "best_of", games: 3 }),
+        },
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.outboundMessages[0].error).toBe("NOT_JOINED");
+      }
+    });
+
+    it("rejects starting the next game before the current one ends", () => {
+      const result = handleStartNextGameMessage({
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: "h1",
+          lobbyState: baseLobbyState,
+          gameState: createGameInProgress(),
+          matchState: createMatchState({ format: "best_of", games: 3 }),
+        },
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.outboundMessages[0].error).toBe("GAME_NOT_OVER");
+      }
+    });
+
+    it("rejects when the room is still in the lobby", () => {
+      const result = handleStartNextGameMessage({
+        state: {
+          roomPhase: "lobby",
+          callerPlayerId: "h1",
+          lobbyState: baseLobbyState,
+          gameState: null,
+          matchState: null,
+        },
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.outboundMessages[0].error).toBe("GAME_NOT_STARTED");
+      }
+    });
+  });
+
+  describe("rematch handler", () => {
+    const createGame = () =>
+      PartyGameAdapter.createFromLobby({
+        roomId: "room-1",
+        humanPlayers: [
+          { playerId: "h1", name: "Alice", isConnected: true, disconnectedAt: null },
+          { playerId: "h2", name: "Bob", isConnected: true, disconnectedAt: null },
+        ],
+        aiPlayers: [
+          {
+            playerId: "ai-1",
+            name: "Grok",
+            modelId: "default:grok",
+            modelDisplayName: "Grok",
+          },
+        ],
+        startingRound: 1,
+      }).getStoredState();
+
+    /** Move a stored game straight to its end state */
+    const createEndedGame = () => {
+      const gameState = createGame();
+      const snapshot = JSON.parse(gameState.engineSnapshot);
+      snapshot.value = "gameEnd";
+      snapshot.children = {};
+      return { ...gameState, engineSnapshot: JSON.stringify(snapshot) };
+    };
+
+    it("starts a new game with the same seats from the chosen round", () => {
+      const result = handleRematchMessage({
+        message: { type: "REMATCH", startingRound: 3 },
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: "h2",
+          lobbyState: baseLobbyState,
+          gameState: createEndedGame(),
+          matchState: null,
+        },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        const adapter = PartyGameAdapter.fromStoredState(result.nextState.gameState);
+        expect(adapter.getSnapshot().phase).toBe("ROUND_ACTIVE");
+        expect(adapter.getSnapshot().currentRound).toBe(3);
+        expect(result.nextState.gameState.playerMappings).toEqual(
+          createGame().playerMappings
+        );
+        expect(result.nextState.lobbyState.startingRound).toBe(3);
+        expect(result.sideEffects.map((effect) => effect.type)).toEqual([
+          "setLobbyState",
+          "setGameState",
+          "setRoomPhase",
+          "broadcastPlayerViews",
+          "broadcastLobbyState",
+          "executeAITurnsIfNeeded",
+        ]);
+      }
+    });
+
+    it("rejects playing again while the game is still going", () => {
+      const result = handleRematchMessage({
+        message: { type: "REMATCH", startingRound: 1 },
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: "h1",
+          lobbyState: baseLobbyState,
+          gameState: createGame(),
+          matchState: null,
+        },
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.outboundMessages[0].error).toBe("GAME_NOT_OVER");
+      }
+    });
+
+    it("rejects playing again in the middle of a match", () => {
+      const result = handleRematchMessage({
+        message: { type: "REMATCH", startingRound: 1 },
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: "h1",
+          lobbyState: baseLobbyState,
+          gameState: createEndedGame(),
+          matchState: createMatchState({ format: "best_of", games: 3 }),
+        },
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.outboundMessages[0].error).toBe("MATCH_IN_PROGRESS");
+      }
+    });
+
+    it("rejects callers without a seat and invalid rounds", () => {
+      const spectator = handleRematchMessage({
+        message: { type: "REMATCH", startingRound: 1 },
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: "spectator",
+          lobbyState: baseLobbyState,
+          gameState: createEndedGame(),
+          matchState: null,
+        },
+      });
+      const badRound = handleRematchMessage({
+        message: { type: "REMATCH", startingRound: 99 },
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: "h1",
+          lobbyState: baseLobbyState,
+          gameState: createEndedGame(),
+          matchState: null,
+        },
+      });
+
+      expect(spectator.ok).toBe(false);
+      if (!spectator.ok) {
+        expect(spectator.outboundMessages[0].error).toBe("NOT_JOINED");
+      }
+      expect(badRound.ok).toBe(false);
+      if (!badRound.ok) {
+        expect(badRound.outboundMessages[0].error).toBe("INVALID_ROUND");
+      }
+    });
+  });
+
+  describe("seat takeover handlers", () => {
+    const roomPlayers: HumanPlayerInfo[] = [
+      { playerId: "h1", name: "Alice", isConnected: true, disconnectedAt: null },
+      { playerId: "h2", name: "Bob", isConnected: false, disconnectedAt: 123 },
+      { playerId: "h3", name: "Cara", isConnected: true, disconnectedAt: null },
+      { playerId: "h4", name: "Dana", isConnected: true, disconnectedAt: null },
+    ];
+
+    const createGame = () =>
+      PartyGameAdapter.createFromLobby({
+        roomId: "room-1",
+        humanPlayers: roomPlayers.slice(0, 3),
+        aiPlayers: [
+          {
+            playerId: "ai-1",
+            name: "Grok",
+            modelId: "default:grok",
+            modelDisplayName: "Grok",
+          },
+        ],
+        startingRound: 1,
+      });
+
+    it("hands a disconnected player's seat to an AI", () => {
+      const result = handleHandSeatToAIMessage({
+        message: { type: "HAND_SEAT_TO_AI", playerId: "h2", modelId: "bot:medium" },
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: "h1",
+          gameState: createGame().getStoredState(),
+          humanPlayers: roomPlayers,
+        },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        const seat = result.nextState.gameState.playerMappings[1]!;
+        expect(seat.engineId).toBe("player-1");
+        expect(seat.name).toBe("Bob");
+        expect(seat.isAI).toBe(true);
+        expect(seat.aiModelId).toBe("bot:medium");
+        expect(seat.lobbyId).not.toBe("h2");
+        expect(result.sideEffects.map((effect) => effect.type)).toEqual([
+          "setGameState",
+          "broadcastGameState",
+          "broadcastLobbyState",
+          "executeAITurnsIfNeeded",
+        ]);
+      }
+    });
+
+    it("rejects handing over a seat whose player is still connected", () => {
+      const result = handleHandSeatToAIMessage({
+        message: { type: "HAND_SEAT_TO_AI", playerId: "h3", modelId: "bot:medium" },
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: "h1",
+          gameState: createGame().getStoredState(),
+          humanPlayers: roomPlayers,
+        },
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.outboundMessages[0].error).toBe("SEAT_NOT_VACANT");
+      }
+    });
+
+    it("rejects handing over a seat from someone without a seat", () => {
+      const result = handleHandSeatToAIMessage({
+        message: { type: "HAND_SEAT_TO_AI", playerId: "h2", modelId: "bot:medium" },
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: "h4",
+          gameState: createGame().getStoredState(),
+          humanPlayers: roomPlayers,
+        },
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.outboundMessages[0].error).toBe("NOT_JOINED");
+      }
+    });
+
+    it("lets a player without a seat take over an AI seat", () => {
+      const result = handleClaimSeatMessage({
+        message: { type: "CLAIM_SEAT", playerId: "ai-1" },
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: "h4",
+          gameState: createGame().getStoredState(),
+          humanPlayers: roomPlayers,
+        },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        const seat = result.nextState.gameState.playerMappings[3]!;
+        expect(seat).toEqual({
+          lobbyId: "h4",
+          engineId: "player-3",
+          name: "Grok",
+          isAI: false,
+        });
+        const started = result.outboundMessages[0];
+        expect(started?.type).toBe("GAME_STARTED");
+        if (started?.type === "GAME_STARTED") {
+          expect(started.state.viewingPlayerId).toBe("player-3");
+        }
+      }
+    });
+
+    it("stops the AI when the claimed seat is the one playing", () => {
+      const adapter = createGame();
+      const awaiting = adapter.getAwaitingLobbyPlayerId()!;
+      adapter.reassignSeat(awaiting, { lobbyId: "ai-2", isAI: true, aiModelId: "bot:easy" });
+
+      const result = handleClaimSeatMessage({
+        message: { type: "CLAIM_SEAT", playerId: "ai-2" },
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: "h4",
+          gameState: adapter.getStoredState(),
+          humanPlayers: roomPlayers,
+        },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.sideEffects[0]).toEqual({ type: "abortAITurn" });
+      }
+    });
+
+    it("rejects claiming a human seat or a second seat", () => {
+      const gameState = createGame().getStoredState();
+      const humanSeat = handleClaimSeatMessage({
+        message: { type: "CLAIM_SEAT", playerId: "h2" },
+        state: { roomPhase: "playing", callerPlayerId: "h4", gameState, humanPlayers: roomPlayers },
+      });
+      const secondSeat = handleClaimSeatMessage({
+        message: { type: "CLAIM_SEAT", playerId: "ai-1" },
+        state: { roomPhase: "playing", callerPlayerId: "h1", gameState, humanPlayers: roomPlayers },
+      });
+
+      expect(humanSeat.ok).toBe(false);
+      expect(secondSeat.ok).toBe(false);
+      if (!humanSeat.ok && !secondSeat.ok) {
+        expect(humanSeat.outboundMessages[0].error).toBe("SEAT_TAKEN");
+        expect(secondSeat.outboundMessages[0].error).toBe("ALREADY_SEATED");
+      }
+    });
+  });
+
   describe("game action handler", () => {
     const humanPlayers: HumanPlayerInfo[] = [
       { playerId: "h1", name: "Alice", isConnected: true, disconnectedAt: null },
@@ -664,6 +1211,41 @@ describe("mayi-room.message-handlers", () => {
       }
     });
 
+    it("lets AI seats call May I after a discard, before the next turn", () => {
+      const adapter = PartyGameAdapter.createFromLobby({
+        roomId: "room-1",
+        humanPlayers,
+        aiPlayers: [],
+        startingRound: 1,
+      });
+      const awaiting = adapter.getAwaitingLobbyPlayerId();
+      if (!awaiting) {
+        throw new Error("Expected an awaiting player");
+      }
+      adapter.drawFromStock(awaiting);
+      const cardId = adapter.getPlayerView(awaiting)?.yourHand[0]?.id;
+      if (!cardId) {
+        throw new Error("Expected a card to discard");
+      }
+
+      const result = handleGameActionMessage({
+        state: {
+          roomPhase: "playing",
+          callerPlayerId: awaiting,
+          gameState: adapter.getStoredState(),
+          action: { type: "DISCARD", cardId },
+        },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.sideEffects.map((effect) => effect.type).slice(-2)).toEqual([
+          "executeAIMayICallIfNeeded",
+          "executeAITurnsIfNeeded",
+        ]);
+      }
+    });
+
     it("adds May-I prompt effects when CALL_MAY_I starts resolution", () => {
       const adapter = PartyGameAdapter.createFromLobby({
         roomId: "room-1",
@@ -1,13 +1,20 @@
 import type {
   AddAIPlayerMessage,
+  ClaimSeatMessage,
   ErrorMessage,
   GameAction,
+  HandSeatToAIMessage,
   HumanPlayerInfo,
   JoinMessage,
+  RematchMessage,
   RemoveAIPlayerMessage,
   ServerMessage,
   SetStartingRoundMessage,
+  SetContractsMessage,
+  SetTurnTimerMessage,
+  SetMatchMessage,
 } from "./protocol.types";
+import { AI_MODEL_DISPLAY_NAMES } from "./protocol.types";
 import {
   upsertStoredPlayerOnJoin,
   type StoredPlayer,
@@ -22,7 +29,13 @@ import {
   applyAddAIPlayerAction,
   applyRemoveAIPlayerAction,
   applySetStartingRoundAction,
+  applySetContractsAction,
+  applySetTurnTimerAction,
+  applySetMatchAction,
 } from "./mayi-room.lobby-actions";
+import { isMatchOver, type MatchState } from "./mayi-room.match";
+import { createTakeoverAIPlayerId, isSeatVacant } from "./mayi-room.seats";
+import { seatTokensMatch } from "./seat-token";
 import { PartyGameAdapter, type StoredGameState } from "./party-game-adapter";
 import { executeGameAction } from "./game-actions";
 
@@ -40,6 +53,13 @@ export interface JoinHandlerState {
   lobbyState: LobbyState;
   roomPhase: RoomPhase;
   gameState: StoredGameState | null;
+  /** Signed token for the requested player ID (null when tokens can't be issued) */
+  seatToken: string | null;
+  /**
+   * Profile from the JOIN's profile token, or a new one if it had none. null
+   * when the presented token is forged or tokens can't be issued.
+   */
+  profile: { profileId: string; profileToken: string } | null;
 }
 
 export interface JoinHandlerInput {
@@ -64,6 +84,21 @@ export type JoinHandlerResult =
       sideEffects: JoinSideEffect[];
     };
 
+export interface SpectateHandlerState {
+  /** Lobby ID the connection joined as (null if it hasn't joined) */
+  callerPlayerId: string | null;
+  roomPhase: RoomPhase;
+  gameState: StoredGameState | null;
+}
+
+export type SpectateSideEffect =
+  | { type: "setConnectionState"; state: { isSpectator: true } }
+  | { type: "broadcastLobbyState" };
+
+export type SpectateHandlerResult =
+  | { ok: false; outboundMessages: [ErrorMessage]; sideEffects: [] }
+  | { ok: true; outboundMessages: ServerMessage[]; sideEffects: SpectateSideEffect[] };
+
 export interface AddAIPlayerHandlerState {
   lobbyState: LobbyState;
   humanPlayers: HumanPlayerInfo[];
@@ -78,6 +113,22 @@ export interface StartGameHandlerState {
   storedPlayers: StoredPlayer[];
 }
 
+export interface StartNextGameHandlerState {
+  roomPhase: RoomPhase;
+  callerPlayerId: string | null;
+  lobbyState: LobbyState;
+  gameState: StoredGameState | null;
+  matchState: MatchState | null;
+}
+
+export interface RematchHandlerState {
+  roomPhase: RoomPhase;
+  callerPlayerId: string | null;
+  lobbyState: LobbyState;
+  gameState: StoredGameState | null;
+  matchState: MatchState | null;
+}
+
 export interface GameActionHandlerState {
   roomPhase: RoomPhase;
   callerPlayerId: string | null;
@@ -85,6 +136,14 @@ export interface GameActionHandlerState {
   action: GameAction;
 }
 
+export interface SeatTakeoverHandlerState {
+  roomPhase: RoomPhase;
+  callerPlayerId: string | null;
+  gameState: StoredGameState | null;
+  /** Humans still in the room (departed humans are missing) */
+  humanPlayers: HumanPlayerInfo[];
+}
+
 export interface RemoveAIPlayerHandlerState {
   lobbyState: LobbyState;
 }
@@ -93,6 +152,18 @@ export interface SetStartingRoundHandlerState {
   lobbyState: LobbyState;
 }
 
+export interface SetContractsHandlerState {
+  lobbyState: LobbyState;
+}
+
+export interface SetTurnTimerHandlerState {
+  lobbyState: LobbyState;
+}
+
+export interface SetMatchHandlerState {
+  lobbyState: LobbyState;
+}
+
 export type LobbyActionSideEffect =
   | { type: "setLobbyState"; state: LobbyState }
   | { type: "broadcastLobbyState" };
@@ -112,6 +183,8 @@ export type StartGameSideEffect =
   | { type: "broadcastPlayerViews"; adapter: PartyGameAdapter }
   | { type: "executeAITurnsIfNeeded" };
 
+export type RematchSideEffect = StartGameSideEffect | LobbyActionSideEffect;
+
 export type GameActionSideEffect =
   | { type: "setGameState"; state: StoredGameState }
   | {
@@ -126,6 +199,16 @@ export type GameActionSideEffect =
   | { type: "executeAIMayIResponseIfNeeded"; adapter: PartyGameAdapter }
   | { type: "broadcastMayIResolved"; adapter: PartyGameAdapter }
   | { type: "broadcastGameState" }
+  | { type: "executeAIMayICallIfNeeded" }
+  | { type: "executeAITurnsIfNeeded" };
+
+export type SeatTakeoverSideEffect =
+  | { type: "abortAITurn" }
+  | { type: "setGameState"; state: StoredGameState }
+  | { type: "broadcastGameState" }
+  | { type: "broadcastLobbyState" }
+  | { type: "broadcastMayIPrompt"; adapter: PartyGameAdapter }
+  | { type: "executeAIMayIResponseIfNeeded"; adapter: PartyGameAdapter }
   | { type: "executeAITurnsIfNeeded" };
 
 export type StartGameHandlerResult =
@@ -137,6 +220,15 @@ export type StartGameHandlerResult =
       sideEffects: StartGameSideEffect[];
     };
 
+export type RematchHandlerResult =
+  | { ok: false; outboundMessages: [ErrorMessage]; sideEffects: [] }
+  | {
+      ok: true;
+      nextState: { gameState: StoredGameState; roomPhase: RoomPhase; lobbyState: LobbyState };
+      outboundMessages: [];
+      sideEffects: RematchSideEffect[];
+    };
+
 export type GameActionHandlerResult =
   | { ok: false; outboundMessages: [ErrorMessage]; sideEffects: [] }
   | {
@@ -146,6 +238,16 @@ export type GameActionHandlerResult =
       sideEffects: GameActionSideEffect[];
     };
 
+export type SeatTakeoverHandlerResult =
+  | { ok: false; outboundMessages: [ErrorMessage]; sideEffects: [] }
+  | {
+      ok: true;
+      nextState: { gameState: StoredGameState };
+      /** Sent to the caller once the new game state is stored */
+      outboundMessages: ServerMessage[];
+      sideEffects: SeatTakeoverSideEffect[];
+    };
+
 function buildErrorMessage(error: string, message: string): ErrorMessage {
   return { type: "ERROR", error, message };
 }
@@ -172,6 +274,44 @@ export function handleJoinMessage(args: JoinHandlerInput): JoinHandlerResult {
     };
   }
 
+  const seatToken = args.state.seatToken;
+  if (!seatToken) {
+    return {
+      ok: false,
+      outboundMessages: [
+        buildErrorMessage("SEAT_TOKENS_UNAVAILABLE", "Seats can't be issued right now"),
+      ],
+      sideEffects: [],
+    };
+  }
+
+  // Only a player's first JOIN may come without their token. Game seats count
+  // too, since presence records expire while the seat lives on.
+  const holdsSeat =
+    args.state.existingPlayer !== null ||
+    args.state.lobbyState.aiPlayers.some((ai) => ai.playerId === playerId) ||
+    (args.state.gameState?.playerMappings.some((m) => m.lobbyId === playerId) ?? false);
+  if (holdsSeat && !seatTokensMatch(args.message.seatToken, seatToken)) {
+    return {
+      ok: false,
+      outboundMessages: [
+        buildErrorMessage("INVALID_SEAT_TOKEN", "This seat belongs to another player"),
+      ],
+      sideEffects: [],
+    };
+  }
+
+  const profile = args.state.profile;
+  if (!profile) {
+    return {
+      ok: false,
+      outboundMessages: [
+        buildErrorMessage("INVALID_PROFILE_TOKEN", "That profile belongs to another player"),
+      ],
+      sideEffects: [],
+    };
+  }
+
   if (normalizedAvatarId) {
     if (
       isAvatarIdTaken(normalizedAvatarId, {
@@ -194,6 +334,7 @@ export function handleJoinMessage(args: JoinHandlerInput): JoinHandlerResult {
     playerId,
     playerName,
     avatarId: normalizedAvatarId,
+    profileId: profile.profileId,
     connectionId: args.state.connectionId,
     now: args.state.now,
   });
@@ -203,6 +344,8 @@ export function handleJoinMessage(args: JoinHandlerInput): JoinHandlerResult {
       type: "JOINED",
       playerId,
       playerName: storedPlayer.name,
+      seatToken,
+      profileToken: profile.profileToken,
     },
   ];
 
@@ -235,6 +378,45 @@ export function handleJoinMessage(args: JoinHandlerInput): JoinHandlerResult {
   };
 }
 
+/**
+ * Watch the room without a seat
+ *
+ * Spectators aren't stored as players, so they never count toward starting
+ * a game. During a game they get the public SpectatorView.
+ */
+export function handleSpectateMessage(args: {
+  state: SpectateHandlerState;
+}): SpectateHandlerResult {
+  if (args.state.callerPlayerId) {
+    return {
+      ok: false,
+      outboundMessages: [
+        buildErrorMessage("ALREADY_JOINED", "Players can't switch to spectating"),
+      ],
+      sideEffects: [],
+    };
+  }
+
+  const outboundMessages: ServerMessage[] = [{ type: "SPECTATING" }];
+  if (args.state.roomPhase === "playing" && args.state.gameState) {
+    const adapter = PartyGameAdapter.fromStoredState(args.state.gameState);
+    outboundMessages.push({
+      type: "SPECTATOR_STATE",
+      state: adapter.getSpectatorView(),
+      activityLog: adapter.getRecentActivityLog(10),
+    });
+  }
+
+  return {
+    ok: true,
+    outboundMessages,
+    sideEffects: [
+      { type: "setConnectionState", state: { isSpectator: true } },
+      { type: "broadcastLobbyState" },
+    ],
+  };
+}
+
 export function handleAddAIPlayerMessage(args: {
   message: AddAIPlayerMessage;
   state: AddAIPlayerHandlerState;
@@ -321,6 +503,90 @@ export function handleSetStartingRoundMessage(args: {
   };
 }
 
+export function handleSetContractsMessage(args: {
+  message: SetContractsMessage;
+  state: SetContractsHandlerState;
+}): LobbyActionHandlerResult {
+  const result = applySetContractsAction({
+    lobbyState: args.state.lobbyState,
+    message: args.message,
+  });
+
+  if (!result.ok) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage(result.error.error, result.error.message)],
+      sideEffects: [],
+    };
+  }
+
+  return {
+    ok: true,
+    nextState: { lobbyState: result.lobbyState },
+    outboundMessages: [],
+    sideEffects: [
+      { type: "setLobbyState", state: result.lobbyState },
+      { type: "broadcastLobbyState" },
+    ],
+  };
+}
+
+export function handleSetTurnTimerMessage(args: {
+  message: SetTurnTimerMessage;
+  state: SetTurnTimerHandlerState;
+}): LobbyActionHandlerResult {
+  const result = applySetTurnTimerAction({
+    lobbyState: args.state.lobbyState,
+    message: args.message,
+  });
+
+  if (!result.ok) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage(result.error.error, result.error.message)],
+      sideEffects: [],
+    };
+  }
+
+  return {
+    ok: true,
+    nextState: { lobbyState: result.lobbyState },
+    outboundMessages: [],
+    sideEffects: [
+      { type: "setLobbyState", state: result.lobbyState },
+      { type: "broadcastLobbyState" },
+    ],
+  };
+}
+
+export function handleSetMatchMessage(args: {
+  message: SetMatchMessage;
+  state: SetMatchHandlerState;
+}): LobbyActionHandlerResult {
+  const result = applySetMatchAction({
+    lobbyState: args.state.lobbyState,
+    message: args.message,
+  });
+
+  if (!result.ok) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage(result.error.error, result.error.message)],
+      sideEffects: [],
+    };
+  }
+
+  return {
+    ok: true,
+    nextState: { lobbyState: result.lobbyState },
+    outboundMessages: [],
+    sideEffects: [
+      { type: "setLobbyState", state: result.lobbyState },
+      { type: "broadcastLobbyState" },
+    ],
+  };
+}
+
 export function handleStartGameMessage(args: {
   state: StartGameHandlerState;
 }): StartGameHandlerResult {
@@ -363,6 +629,68 @@ export function handleStartGameMessage(args: {
     humanPlayers,
     aiPlayers: args.state.lobbyState.aiPlayers,
     startingRound: args.state.lobbyState.startingRound,
+    contracts: args.state.lobbyState.contracts,
+  });
+
+  const gameState = adapter.getStoredState();
+
+  return {
+    ok: true,
+    nextState: { gameState, roomPhase: "playing" },
+    outboundMessages: [],
+    sideEffects: [
+      { type: "setGameState", state: gameState },
+      { type: "setRoomPhase", phase: "playing" },
+      { type: "broadcastPlayerViews", adapter },
+      { type: "executeAITurnsIfNeeded" },
+    ],
+  };
+}
+
+export function handleStartNextGameMessage(args: {
+  state: StartNextGameHandlerState;
+}): StartGameHandlerResult {
+  if (args.state.roomPhase !== "playing" || !args.state.gameState) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage("GAME_NOT_STARTED", "Game has not started yet")],
+      sideEffects: [],
+    };
+  }
+
+  const previous = PartyGameAdapter.fromStoredState(args.state.gameState);
+  const caller = args.state.callerPlayerId
+    ? previous.getPlayerMapping(args.state.callerPlayerId)
+    : null;
+  if (!caller) {
+    return {
+      ok: false,
+      outboundMessages: [
+        buildErrorMessage("NOT_JOINED", "Only seated players can start the next game"),
+      ],
+      sideEffects: [],
+    };
+  }
+
+  if (previous.getSnapshot().phase !== "GAME_END") {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage("GAME_NOT_OVER", "The current game is still going")],
+      sideEffects: [],
+    };
+  }
+
+  if (!args.state.matchState || isMatchOver(args.state.matchState)) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage("MATCH_OVER", "There is no next game to play")],
+      sideEffects: [],
+    };
+  }
+
+  const adapter = PartyGameAdapter.createNextGame(previous, {
+    startingRound: args.state.lobbyState.startingRound,
+    contracts: args.state.lobbyState.contracts,
   });
 
   const gameState = adapter.getStoredState();
@@ -380,6 +708,89 @@ export function handleStartGameMessage(args: {
   };
 }
 
+/**
+ * Play again in the same room once the game (or match) is over
+ *
+ * Keeps every seat - humans, AI seats and their models - and passes the deal
+ * on, like the next game of a match. The chosen starting round is also saved
+ * to the lobby settings.
+ */
+export function handleRematchMessage(args: {
+  message: RematchMessage;
+  state: RematchHandlerState;
+}): RematchHandlerResult {
+  if (args.state.roomPhase !== "playing" || !args.state.gameState) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage("GAME_NOT_STARTED", "Game has not started yet")],
+      sideEffects: [],
+    };
+  }
+
+  const previous = PartyGameAdapter.fromStoredState(args.state.gameState);
+  const caller = args.state.callerPlayerId
+    ? previous.getPlayerMapping(args.state.callerPlayerId)
+    : null;
+  if (!caller) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage("NOT_JOINED", "Only seated players can play again")],
+      sideEffects: [],
+    };
+  }
+
+  if (previous.getSnapshot().phase !== "GAME_END") {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage("GAME_NOT_OVER", "The current game is still going")],
+      sideEffects: [],
+    };
+  }
+
+  if (args.state.matchState && !isMatchOver(args.state.matchState)) {
+    return {
+      ok: false,
+      outboundMessages: [
+        buildErrorMessage("MATCH_IN_PROGRESS", "Finish the match before playing again"),
+      ],
+      sideEffects: [],
+    };
+  }
+
+  const lobbyResult = applySetStartingRoundAction({
+    lobbyState: args.state.lobbyState,
+    message: { type: "SET_STARTING_ROUND", round: args.message.startingRound },
+  });
+  if (!lobbyResult.ok) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage(lobbyResult.error.error, lobbyResult.error.message)],
+      sideEffects: [],
+    };
+  }
+
+  const lobbyState = lobbyResult.lobbyState;
+  const adapter = PartyGameAdapter.createNextGame(previous, {
+    startingRound: lobbyState.startingRound,
+    contracts: lobbyState.contracts,
+  });
+  const gameState = adapter.getStoredState();
+
+  return {
+    ok: true,
+    nextState: { gameState, roomPhase: "playing", lobbyState },
+    outboundMessages: [],
+    sideEffects: [
+      { type: "setLobbyState", state: lobbyState },
+      { type: "setGameState", state: gameState },
+      { type: "setRoomPhase", phase: "playing" },
+      { type: "broadcastPlayerViews", adapter },
+      { type: "broadcastLobbyState" },
+      { type: "executeAITurnsIfNeeded" },
+    ],
+  };
+}
+
 export function handleGameActionMessage(args: {
   state: GameActionHandlerState;
 }): GameActionHandlerResult {
@@ -427,7 +838,7 @@ export function handleGameActionMessage(args: {
     return {
       ok: false,
       outboundMessages: [
-        buildErrorMessage(errorCode, `Action failed: ${result.error}`),
+        buildErrorMessage(errorCode, `Action failed: ${result.message ?? result.error}`),
       ],
       sideEffects: [],
     };
@@ -467,6 +878,10 @@ export function handleGameActionMessage(args: {
   sideEffects.push({ type: "broadcastGameState" });
 
   if (phaseAfter === "ROUND_ACTIVE") {
+    // AI seats get their chance to call May I before the next player draws
+    if (args.state.action.type === "DISCARD") {
+      sideEffects.push({ type: "executeAIMayICallIfNeeded" });
+    }
     sideEffects.push({ type: "executeAITurnsIfNeeded" });
   }
 
@@ -477,3 +892,180 @@ export function handleGameActionMessage(args: {
     sideEffects,
   };
 }
+
+/**
+ * Let an AI model or bot play a disconnected or departed human's seat
+ *
+ * The seat keeps its hand and score. If the game is waiting on that seat,
+ * the AI picks it up straight away.
+ */
+export function handleHandSeatToAIMessage(args: {
+  message: HandSeatToAIMessage;
+  state: SeatTakeoverHandlerState;
+}): SeatTakeoverHandlerResult {
+  if (args.state.roomPhase !== "playing" || !args.state.gameState) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage("GAME_NOT_STARTED", "Game has not started yet")],
+      sideEffects: [],
+    };
+  }
+
+  const adapter = PartyGameAdapter.fromStoredState(args.state.gameState);
+  const caller = args.state.callerPlayerId
+    ? adapter.getPlayerMapping(args.state.callerPlayerId)
+    : null;
+  if (!caller || caller.isAI) {
+    return {
+      ok: false,
+      outboundMessages: [
+        buildErrorMessage("NOT_JOINED", "Only seated players can hand a seat to an AI"),
+      ],
+      sideEffects: [],
+    };
+  }
+
+  const seat = adapter.getPlayerMapping(args.message.playerId);
+  if (!seat) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage("SEAT_NOT_FOUND", "That seat is not in this game")],
+      sideEffects: [],
+    };
+  }
+
+  if (!isSeatVacant(seat, args.state.humanPlayers)) {
+    return {
+      ok: false,
+      outboundMessages: [
+        buildErrorMessage("SEAT_NOT_VACANT", `${seat.name} is still playing that seat`),
+      ],
+      sideEffects: [],
+    };
+  }
+
+  const aiPlayerId = createTakeoverAIPlayerId();
+  adapter.reassignSeat(seat.lobbyId, {
+    lobbyId: aiPlayerId,
+    isAI: true,
+    aiModelId: args.message.modelId,
+  });
+  adapter.logAction(aiPlayerId, "handed to", AI_MODEL_DISPLAY_NAMES[args.message.modelId]);
+
+  const gameState = adapter.getStoredState();
+  const phase = adapter.getSnapshot().phase;
+  const sideEffects: SeatTakeoverSideEffect[] = [
+    { type: "setGameState", state: gameState },
+    { type: "broadcastGameState" },
+    { type: "broadcastLobbyState" },
+  ];
+  if (phase === "RESOLVING_MAY_I") {
+    sideEffects.push({ type: "executeAIMayIResponseIfNeeded", adapter });
+  } else if (phase === "ROUND_ACTIVE") {
+    sideEffects.push({ type: "executeAITurnsIfNeeded" });
+  }
+
+  return {
+    ok: true,
+    nextState: { gameState },
+    outboundMessages: [],
+    sideEffects,
+  };
+}
+
+/**
+ * Take over an AI seat as the calling human
+ *
+ * Works for newcomers and for humans whose seat was handed to an AI. If the
+ * AI is in the middle of that seat's turn, the turn is stopped.
+ */
+export function handleClaimSeatMessage(args: {
+  message: ClaimSeatMessage;
+  state: SeatTakeoverHandlerState;
+}): SeatTakeoverHandlerResult {
+  if (args.state.roomPhase !== "playing" || !args.state.gameState) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage("GAME_NOT_STARTED", "Game has not started yet")],
+      sideEffects: [],
+    };
+  }
+
+  const callerPlayerId = args.state.callerPlayerId;
+  if (!callerPlayerId) {
+    return {
+      ok: false,
+      outboundMessages: [
+        buildErrorMessage("NOT_JOINED", "You must join before taking a seat"),
+      ],
+      sideEffects: [],
+    };
+  }
+
+  const adapter = PartyGameAdapter.fromStoredState(args.state.gameState);
+  if (adapter.getPlayerMapping(callerPlayerId)) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage("ALREADY_SEATED", "You already have a seat")],
+      sideEffects: [],
+    };
+  }
+
+  const seat = adapter.getPlayerMapping(args.message.playerId);
+  if (!seat) {
+    return {
+      ok: false,
+      outboundMessages: [buildErrorMessage("SEAT_NOT_FOUND", "That seat is not in this game")],
+      sideEffects: [],
+    };
+  }
+
+  if (!seat.isAI) {
+    return {
+      ok: false,
+      outboundMessages: [
+        buildErrorMessage("SEAT_TAKEN", "Only seats played by an AI can be taken over"),
+      ],
+      sideEffects: [],
+    };
+  }
+
+  const snapshot = adapter.getSnapshot();
+  const isSeatsTurn = adapter.getAwaitingLobbyPlayerId() === seat.lobbyId;
+  const isSeatPrompted = snapshot.mayIContext?.playerBeingPrompted === seat.engineId;
+  const callerName =
+    args.state.humanPlayers.find((p) => p.playerId === callerPlayerId)?.name ?? "a player";
+
+  adapter.reassignSeat(seat.lobbyId, { lobbyId: callerPlayerId, isAI: false });
+  adapter.logAction(callerPlayerId, "taken over by", callerName);
+
+  const gameState = adapter.getStoredState();
+  const sideEffects: SeatTakeoverSideEffect[] = [];
+  if (isSeatsTurn && snapshot.phase === "ROUND_ACTIVE") {
+    sideEffects.push({ type: "abortAITurn" });
+  }
+  sideEffects.push(
+    { type: "setGameState", state: gameState },
+    { type: "broadcastGameState" },
+    { type: "broadcastLobbyState" }
+  );
+  if (snapshot.phase === "RESOLVING_MAY_I" && isSeatPrompted) {
+    sideEffects.push({ type: "broadcastMayIPrompt", adapter });
+  }
+
+  const playerView = adapter.getPlayerView(callerPlayerId);
+  return {
+    ok: true,
+    nextState: { gameState },
+    outboundMessages: playerView
+      ? [
+          {
+            type: "GAME_STARTED",
+            state: playerView,
+            activityLog: adapter.getRecentActivityLog(10),
+          },
+        ]
+      : [],
+    sideEffects,
+  };
+}
@@ -2,6 +2,7 @@ import { describe, expect, it } from "bun:test";
 
 import {
   buildPlayersSnapshotFromStorageEntries,
+  getProfileIdsByPlayerId,
   maybeUpdateStoredPlayerOnClose,
   upsertStoredPlayerOnJoin,
   type StoredPlayer,
@@ -266,5 +267,21 @@ describe("MayIRoom presence logic", () => {
 
     expect(snapshot.players.map((p) => p.playerId)).toEqual(["p_early", "p_late"]);
   });
-});
 
+  it("getProfileIdsByPlayerId maps only players with a verified profile", () => {
+    const base = {
+      joinedAt: 100,
+      lastSeenAt: 100,
+      isConnected: true,
+      currentConnectionId: "c1",
+      connectedAt: 100,
+      disconnectedAt: null,
+    };
+    const players: StoredPlayer[] = [
+      { ...base, playerId: "p1", name: "Ann", profileId: "profile-ann" },
+      { ...base, playerId: "p2", name: "Bob" },
+    ];
+
+    expect(getProfileIdsByPlayerId(players)).toEqual({ p1: "profile-ann" });
+  });
+});
@@ -9,6 +9,7 @@ export interface StoredPlayer {
   playerId: string;
   name: string;
   avatarId?: string; // Character avatar (e.g., "ethel", "curt")
+  profileId?: string; // Read from a verified profile token on JOIN; keys stats and ratings
 
   // timestamps (ms since epoch)
   joinedAt: number; // first time we ever saw this playerId
@@ -36,6 +37,7 @@ export function upsertStoredPlayerOnJoin(
     playerId: string;
     playerName: string;
     avatarId?: string;
+    profileId?: string;
     connectionId: string;
     now: number;
   }
@@ -45,11 +47,13 @@ export function upsertStoredPlayerOnJoin(
   const joinedAt = existing ? existing.joinedAt : args.now;
   // Preserve existing avatarId if not provided in new join
   const avatarId = args.avatarId ?? existing?.avatarId;
+  const profileId = args.profileId ?? existing?.profileId;
 
   return {
     playerId: args.playerId,
     name: trimmedName,
     avatarId,
+    profileId,
     joinedAt,
     lastSeenAt: args.now,
     isConnected: true,
@@ -59,6 +63,20 @@ export function upsertStoredPlayerOnJoin(
   };
 }
 
+/**
+ * Map each stored player's lobby ID to their profile ID
+ *
+ * Stored profile IDs only ever come from profile tokens the room verified on
+ * JOIN, so this is the one identity stats and skill ratings may be keyed by.
+ */
+export function getProfileIdsByPlayerId(players: StoredPlayer[]): Record<string, string> {
+  const profileIds: Record<string, string> = {};
+  for (const player of players) {
+    if (player.profileId) profileIds[player.playerId] = player.profileId;
+  }
+  return profileIds;
+}
+
 export function maybeUpdateStoredPlayerOnClose(
   existing: StoredPlayer,
   args: { closingConnectionId: string; now: number }
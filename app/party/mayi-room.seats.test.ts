@@ -0,0 +1,54 @@
+import { describe, expect, it } from "bun:test";
+
+import { buildGameSeats, createTakeoverAIPlayerId, isSeatVacant } from "./mayi-room.seats";
+import type { PlayerMapping } from "./party-game-adapter";
+import type { HumanPlayerInfo } from "./protocol.types";
+
+describe("MayIRoom seat takeover logic", () => {
+  const mappings: PlayerMapping[] = [
+    { lobbyId: "h1", engineId: "player-0", name: "Alice", avatarId: "ethel", isAI: false },
+    { lobbyId: "h2", engineId: "player-1", name: "Bob", isAI: false },
+    { lobbyId: "h3", engineId: "player-2", name: "Cara", isAI: false },
+    {
+      lobbyId: "ai-1",
+      engineId: "player-3",
+      name: "Grok",
+      isAI: true,
+      aiModelId: "default:grok",
+    },
+  ];
+
+  const humanPlayers: HumanPlayerInfo[] = [
+    { playerId: "h1", name: "Alice", isConnected: true, disconnectedAt: null },
+    { playerId: "h2", name: "Bob", isConnected: false, disconnectedAt: 123 },
+  ];
+
+  it("buildGameSeats describes each seat in seat order", () => {
+    expect(buildGameSeats(mappings, humanPlayers)).toEqual([
+      { playerId: "h1", name: "Alice", avatarId: "ethel", isAI: false, isConnected: true },
+      { playerId: "h2", name: "Bob", isAI: false, isConnected: false },
+      { playerId: "h3", name: "Cara", isAI: false, isConnected: false },
+      {
+        playerId: "ai-1",
+        name: "Grok",
+        isAI: true,
+        modelId: "default:grok",
+        isConnected: true,
+      },
+    ]);
+  });
+
+  it("isSeatVacant is true for disconnected and departed humans only", () => {
+    expect(isSeatVacant(mappings[0]!, humanPlayers)).toBe(false);
+    expect(isSeatVacant(mappings[1]!, humanPlayers)).toBe(true);
+    expect(isSeatVacant(mappings[2]!, humanPlayers)).toBe(true);
+    expect(isSeatVacant(mappings[3]!, humanPlayers)).toBe(false);
+  });
+
+  it("createTakeoverAIPlayerId makes a fresh AI lobby ID", () => {
+    const id = createTakeoverAIPlayerId();
+
+    expect(id.startsWith("ai-")).toBe(true);
+    expect(createTakeoverAIPlayerId()).not.toBe(id);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Pure seat takeover logic for games in progress
+ *
+ * This file contains NO Durable Object / WebSocket code so we can unit test it
+ * with Bun without needing a Workers runtime.
+ *
+ * When someone has to leave mid-game, their seat can be handed to an AI model
+ * or bot so the others can finish; a new or returning human can later take an
+ * AI seat back. The seat keeps its hand, melds and score either way - only the
+ * lobby ID playing it changes (PartyGameAdapter.reassignSeat).
+ *
+ * Follows the same pattern as mayi-room.presence.ts
+ */
+
+import { nanoid } from "nanoid";
+import type { PlayerMapping } from "./party-game-adapter";
+import {
+  AI_MODEL_IDS,
+  type AIModelId,
+  type GameSeatInfo,
+  type HumanPlayerInfo,
+} from "./protocol.types";
+
+/**
+ * Describe every seat of the game for clients
+ *
+ * @param humanPlayers - Humans still in the room (departed humans are missing)
+ */
+export function buildGameSeats(
+  playerMappings: PlayerMapping[],
+  humanPlayers: HumanPlayerInfo[]
+): GameSeatInfo[] {
+  return playerMappings.map((mapping) => ({
+    playerId: mapping.lobbyId,
+    name: mapping.name,
+    ...(mapping.avatarId ? { avatarId: mapping.avatarId } : {}),
+    isAI: mapping.isAI,
+    ...(mapping.isAI && isAIModelId(mapping.aiModelId) ? { modelId: mapping.aiModelId } : {}),
+    isConnected:
+      mapping.isAI ||
+      humanPlayers.some((p) => p.playerId === mapping.lobbyId && p.isConnected),
+  }));
+}
+
+/**
+ * Whether a human seat can be handed to an AI: its player has disconnected
+ * or left the room
+ */
+export function isSeatVacant(mapping: PlayerMapping, humanPlayers: HumanPlayerInfo[]): boolean {
+  if (mapping.isAI) return false;
+  const player = humanPlayers.find((p) => p.playerId === mapping.lobbyId);
+  return !player?.isConnected;
+}
+
+/**
+ * Create the lobby ID for an AI taking over a seat
+ *
+ * A fresh ID (rather than the human's) means a returning human is never
+ * mistaken for the AI now playing their cards.
+ */
+export function createTakeoverAIPlayerId(): string {
+  return `ai-${nanoid(8)}`;
+}
+
+function isAIModelId(modelId: string | undefined): modelId is AIModelId {
+  return (AI_MODEL_IDS as readonly string[]).includes(modelId ?? "");
+}
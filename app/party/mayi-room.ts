@@ -7,6 +7,7 @@ import {
 
 import {
   buildPlayersSnapshotFromStorageEntries,
+  getProfileIdsByPlayerId,
   maybeUpdateStoredPlayerOnClose,
   type StoredPlayer,
 } from "./mayi-room.presence";
@@ -23,19 +24,33 @@ import {
   handleAddAIPlayerMessage,
   handleGameActionMessage,
   handleJoinMessage,
+  handleSpectateMessage,
   handleRemoveAIPlayerMessage,
   handleStartGameMessage,
   handleSetStartingRoundMessage,
+  handleSetContractsMessage,
+  handleSetTurnTimerMessage,
+  handleSetMatchMessage,
+  handleStartNextGameMessage,
+  handleRematchMessage,
+  handleHandSeatToAIMessage,
+  handleClaimSeatMessage,
   type RoomPhase,
+  type SeatTakeoverHandlerState,
+  type SeatTakeoverHandlerResult,
 } from "./mayi-room.message-handlers";
+import { buildGameSeats } from "./mayi-room.seats";
 
 import {
   parseClientMessage,
   type ClientMessage,
   type ServerMessage,
   type HumanPlayerInfo,
+  type LobbyStatePayload,
   type InjectStateMessage,
   type AgentSetupMessage,
+  type RematchMessage,
+  type RoomGameSummary,
   type MayINotificationMessage,
 } from "./protocol.types";
 
@@ -48,8 +63,44 @@ import {
   type StoredGameState,
 } from "./party-game-adapter";
 
+import {
+  buildTurnClockPayload,
+  createTurnClockState,
+  getTimedTurn,
+  isTurnClockExpired,
+  stopTurnClock,
+  syncTurnClock,
+  type TurnClockState,
+} from "./mayi-room.turn-clock";
+
+import {
+  buildMatchSummaryPayload,
+  createMatchState,
+  recordMatchGame,
+  type MatchState,
+} from "./mayi-room.match";
+import { appendRoomHistory } from "./mayi-room.history";
+
+import { buildPlayerGameRecords } from "./player-stats.records";
+import {
+  buildRatingParticipants,
+  getHumanRatingKey,
+  getModelRatingKey,
+} from "./skill-ratings";
+import { SKILL_RATINGS_NAME } from "./skill-ratings.store";
+
+import {
+  createProfileId,
+  createProfileToken,
+  createSeatToken,
+  getSeatTokenSecret,
+  readProfileToken,
+  seatTokensMatch,
+} from "./seat-token";
+
 import { captureRoundSummary } from "./round-summary.capture";
 import type { RoundSummaryPayload } from "./round-summary.types";
+import { DEFAULT_CONTRACTS } from "../../core/engine/contracts";
 
 import {
   executeAITurn,
@@ -64,10 +115,15 @@ const AUTO_PLAY_TIMEOUT_MS = 30 * 1000; // 30 seconds before auto-play for disco
 const LOBBY_STATE_KEY = "lobby:state";
 const GAME_STATE_KEY = "game:state";
 const ROOM_PHASE_KEY = "room:phase";
+const TURN_CLOCK_KEY = "game:turnClock";
+const MATCH_STATE_KEY = "match:state";
+const ROOM_HISTORY_KEY = "room:history";
 
-type MayIRoomConnectionState = { playerId: string };
+/** Players have a lobby playerId; spectators watch without one */
+type MayIRoomConnectionState = { playerId?: string; isSpectator?: true };
 
 const AGENT_TESTING_ENABLED = import.meta.env.MODE !== "production";
+const SEAT_TOKEN_DEV_SECRET_ALLOWED = import.meta.env.MODE !== "production";
 
 function safeJsonParse(value: string): unknown {
   return JSON.parse(value) as unknown;
@@ -113,6 +169,39 @@ export class MayIRoom extends Server {
     return this.aiCoordinator;
   }
 
+  /** Sign a lobby player ID for this room, or null if no secret is configured */
+  private async createSeatToken(playerId: string): Promise<string | null> {
+    const secret = this.getTokenSecret();
+    return secret ? await createSeatToken(secret, this.name, playerId) : null;
+  }
+
+  /**
+   * Get the profile a JOIN claims with its token, or mint one for a JOIN
+   * without a token. null if the token is forged or no secret is configured.
+   */
+  private async resolveProfile(
+    profileToken: string | undefined
+  ): Promise<{ profileId: string; profileToken: string } | null> {
+    const secret = this.getTokenSecret();
+    if (!secret) return null;
+
+    if (profileToken) {
+      const profileId = await readProfileToken(secret, profileToken);
+      return profileId ? { profileId, profileToken } : null;
+    }
+
+    const profileId = createProfileId();
+    return { profileId, profileToken: await createProfileToken(secret, profileId) };
+  }
+
+  private getTokenSecret(): string | null {
+    const secret = getSeatTokenSecret(this.env, SEAT_TOKEN_DEV_SECRET_ALLOWED);
+    if (!secret) {
+      this.log("SEAT_TOKEN_SECRET is not set; refusing to issue seat or profile tokens");
+    }
+    return secret;
+  }
+
   override async onConnect(
     conn: Connection<MayIRoomConnectionState>,
     _ctx: ConnectionContext
@@ -128,27 +217,10 @@ export class MayIRoom extends Server {
     const players = await this.readPlayersSnapshot();
     conn.send(JSON.stringify({ type: "PLAYERS", players } satisfies ServerMessage));
 
-    // Check room phase
-    const roomPhase = await this.getRoomPhase();
-
-    if (roomPhase === "playing") {
-      // Game in progress - send game state (will be sent on JOIN when player ID is known)
-      // For now, just send lobby state for reference
-      const lobbyState = await this.getLobbyState();
-      const humanPlayers = storedPlayersToHumanPlayerInfo(
-        await this.getStoredPlayers()
-      );
-      const lobbyPayload = buildLobbyStatePayload(humanPlayers, lobbyState);
-      conn.send(JSON.stringify({ type: "LOBBY_STATE", lobbyState: lobbyPayload } satisfies ServerMessage));
-    } else {
-      // Lobby phase - send lobby state
-      const lobbyState = await this.getLobbyState();
-      const humanPlayers = storedPlayersToHumanPlayerInfo(
-        await this.getStoredPlayers()
-      );
-      const lobbyPayload = buildLobbyStatePayload(humanPlayers, lobbyState);
-      conn.send(JSON.stringify({ type: "LOBBY_STATE", lobbyState: lobbyPayload } satisfies ServerMessage));
-    }
+    // Send lobby state (during a game, for reference - the game state is sent
+    // on JOIN or SPECTATE once we know who is connecting)
+    const lobbyPayload = await this.buildLobbyPayload();
+    conn.send(JSON.stringify({ type: "LOBBY_STATE", lobbyState: lobbyPayload } satisfies ServerMessage));
   }
 
   override async onMessage(conn: Connection<MayIRoomConnectionState>, message: WSMessage) {
@@ -205,6 +277,10 @@ export class MayIRoom extends Server {
         await this.handleJoin(conn, msg);
         break;
 
+      case "SPECTATE":
+        await this.handleSpectate(conn);
+        break;
+
       case "ADD_AI_PLAYER":
         await this.handleAddAIPlayer(conn, msg);
         break;
@@ -217,10 +293,50 @@ export class MayIRoom extends Server {
         await this.handleSetStartingRound(conn, msg);
         break;
 
+      case "SET_CONTRACTS":
+        await this.handleSetContracts(conn, msg);
+        break;
+
+      case "SET_TURN_TIMER":
+        await this.handleSetTurnTimer(conn, msg);
+        break;
+
+      case "SET_MATCH":
+        await this.handleSetMatch(conn, msg);
+        break;
+
       case "START_GAME":
         await this.handleStartGame(conn);
         break;
 
+      case "START_NEXT_GAME":
+        await this.handleStartNextGame(conn);
+        break;
+
+      case "REMATCH":
+        await this.handleRematch(conn, msg);
+        break;
+
+      case "HAND_SEAT_TO_AI":
+        await this.applySeatTakeover(
+          conn,
+          handleHandSeatToAIMessage({
+            message: msg,
+            state: await this.getSeatTakeoverState(conn),
+          })
+        );
+        break;
+
+      case "CLAIM_SEAT":
+        await this.applySeatTakeover(
+          conn,
+          handleClaimSeatMessage({
+            message: msg,
+            state: await this.getSeatTakeoverState(conn),
+          })
+        );
+        break;
+
       case "GAME_ACTION":
         await this.handleGameAction(conn, msg);
         break;
@@ -274,6 +390,8 @@ export class MayIRoom extends Server {
         lobbyState,
         roomPhase,
         gameState,
+        seatToken: await this.createSeatToken(trimmedPlayerId),
+        profile: await this.resolveProfile(msg.profileToken),
       },
     });
 
@@ -307,6 +425,50 @@ export class MayIRoom extends Server {
     for (const message of result.afterBroadcastMessages) {
       conn.send(JSON.stringify(message));
     }
+
+    if (roomPhase === "playing" && gameState) {
+      const adapter = PartyGameAdapter.fromStoredState(gameState);
+      const message = this.buildTurnClockMessage(await this.getTurnClock(), adapter);
+      conn.send(JSON.stringify(message));
+      await this.sendGameEndedIfOver(conn, adapter);
+    }
+  }
+
+  private async handleSpectate(conn: Connection<MayIRoomConnectionState>) {
+    const roomPhase = await this.getRoomPhase();
+    const gameState = roomPhase === "playing" ? await this.getGameState() : null;
+    const result = handleSpectateMessage({
+      state: {
+        callerPlayerId: conn.state?.playerId ?? null,
+        roomPhase,
+        gameState,
+      },
+    });
+
+    if (!result.ok) {
+      conn.send(JSON.stringify(result.outboundMessages[0]));
+      return;
+    }
+
+    for (const effect of result.sideEffects) {
+      if (effect.type === "setConnectionState") {
+        conn.setState(effect.state);
+      }
+    }
+
+    for (const message of result.outboundMessages) {
+      conn.send(JSON.stringify(message));
+    }
+
+    if (result.sideEffects.some((effect) => effect.type === "broadcastLobbyState")) {
+      await this.broadcastLobbyState();
+    }
+
+    if (gameState) {
+      const adapter = PartyGameAdapter.fromStoredState(gameState);
+      conn.send(JSON.stringify(this.buildTurnClockMessage(await this.getTurnClock(), adapter)));
+      await this.sendGameEndedIfOver(conn, adapter);
+    }
   }
 
   private async handleAddAIPlayer(
@@ -387,6 +549,77 @@ export class MayIRoom extends Server {
       }
     }
   }
+  private async handleSetContracts(
+    conn: Connection<MayIRoomConnectionState>,
+    msg: Extract<ClientMessage, { type: "SET_CONTRACTS" }>
+  ) {
+    const lobbyState = await this.getLobbyState();
+    const result = handleSetContractsMessage({
+      message: msg,
+      state: { lobbyState },
+    });
+
+    if (!result.ok) {
+      conn.send(JSON.stringify(result.outboundMessages[0]));
+      return;
+    }
+
+    for (const effect of result.sideEffects) {
+      if (effect.type === "setLobbyState") {
+        await this.setLobbyState(effect.state);
+      } else if (effect.type === "broadcastLobbyState") {
+        await this.broadcastLobbyState();
+      }
+    }
+  }
+
+  private async handleSetTurnTimer(
+    conn: Connection<MayIRoomConnectionState>,
+    msg: Extract<ClientMessage, { type: "SET_TURN_TIMER" }>
+  ) {
+    const lobbyState = await this.getLobbyState();
+    const result = handleSetTurnTimerMessage({
+      message: msg,
+      state: { lobbyState },
+    });
+
+    if (!result.ok) {
+      conn.send(JSON.stringify(result.outboundMessages[0]));
+      return;
+    }
+
+    for (const effect of result.sideEffects) {
+      if (effect.type === "setLobbyState") {
+        await this.setLobbyState(effect.state);
+      } else if (effect.type === "broadcastLobbyState") {
+        await this.broadcastLobbyState();
+      }
+    }
+  }
+
+  private async handleSetMatch(
+    conn: Connection<MayIRoomConnectionState>,
+    msg: Extract<ClientMessage, { type: "SET_MATCH" }>
+  ) {
+    const lobbyState = await this.getLobbyState();
+    const result = handleSetMatchMessage({
+      message: msg,
+      state: { lobbyState },
+    });
+
+    if (!result.ok) {
+      conn.send(JSON.stringify(result.outboundMessages[0]));
+      return;
+    }
+
+    for (const effect of result.sideEffects) {
+      if (effect.type === "setLobbyState") {
+        await this.setLobbyState(effect.state);
+      } else if (effect.type === "broadcastLobbyState") {
+        await this.broadcastLobbyState();
+      }
+    }
+  }
 
   private async handleStartGame(
     conn: Connection<MayIRoomConnectionState>
@@ -410,6 +643,44 @@ export class MayIRoom extends Server {
       return;
     }
 
+    // Starting from the lobby always begins a fresh match
+    if (lobbyState.match) {
+      await this.setMatchState(createMatchState(lobbyState.match));
+    } else {
+      await this.ctx.storage.delete(MATCH_STATE_KEY);
+    }
+
+    for (const effect of result.sideEffects) {
+      if (effect.type === "setGameState") {
+        await this.setGameState(effect.state);
+      } else if (effect.type === "setRoomPhase") {
+        await this.setRoomPhase(effect.phase);
+      } else if (effect.type === "broadcastPlayerViews") {
+        await this.broadcastPlayerViews(effect.adapter);
+      } else if (effect.type === "executeAITurnsIfNeeded") {
+        await this.executeAITurnsIfNeeded();
+      }
+    }
+  }
+
+  private async handleStartNextGame(
+    conn: Connection<MayIRoomConnectionState>
+  ) {
+    const result = handleStartNextGameMessage({
+      state: {
+        roomPhase: await this.getRoomPhase(),
+        callerPlayerId: conn.state?.playerId ?? null,
+        lobbyState: await this.getLobbyState(),
+        gameState: await this.getGameState(),
+        matchState: await this.getMatchState(),
+      },
+    });
+
+    if (!result.ok) {
+      conn.send(JSON.stringify(result.outboundMessages[0]));
+      return;
+    }
+
     for (const effect of result.sideEffects) {
       if (effect.type === "setGameState") {
         await this.setGameState(effect.state);
@@ -423,6 +694,51 @@ export class MayIRoom extends Server {
     }
   }
 
+  private async handleRematch(
+    conn: Connection<MayIRoomConnectionState>,
+    msg: RematchMessage
+  ) {
+    const result = handleRematchMessage({
+      message: msg,
+      state: {
+        roomPhase: await this.getRoomPhase(),
+        callerPlayerId: conn.state?.playerId ?? null,
+        lobbyState: await this.getLobbyState(),
+        gameState: await this.getGameState(),
+        matchState: await this.getMatchState(),
+      },
+    });
+
+    if (!result.ok) {
+      conn.send(JSON.stringify(result.outboundMessages[0]));
+      return;
+    }
+
+    // Playing again begins a fresh match, as when starting from the lobby
+    const { match } = result.nextState.lobbyState;
+    if (match) {
+      await this.setMatchState(createMatchState(match));
+    } else {
+      await this.ctx.storage.delete(MATCH_STATE_KEY);
+    }
+
+    for (const effect of result.sideEffects) {
+      if (effect.type === "setLobbyState") {
+        await this.setLobbyState(effect.state);
+      } else if (effect.type === "setGameState") {
+        await this.setGameState(effect.state);
+      } else if (effect.type === "setRoomPhase") {
+        await this.setRoomPhase(effect.phase);
+      } else if (effect.type === "broadcastPlayerViews") {
+        await this.broadcastPlayerViews(effect.adapter);
+      } else if (effect.type === "broadcastLobbyState") {
+        await this.broadcastLobbyState();
+      } else if (effect.type === "executeAITurnsIfNeeded") {
+        await this.executeAITurnsIfNeeded();
+      }
+    }
+  }
+
   /**
    * Handle INJECT_STATE message for agent testing
    *
@@ -476,6 +792,7 @@ export class MayIRoom extends Server {
       type: "JOIN",
       playerId: msg.human.playerId,
       playerName: msg.human.name,
+      seatToken: (await this.createSeatToken(msg.human.playerId)) ?? undefined,
     });
 
     const roomPhase = await this.getRoomPhase();
@@ -533,7 +850,7 @@ export class MayIRoom extends Server {
     const humanCount = storedPlayers.length;
 
     // Starting round (defaults to 1)
-    const startingRound = (msg.startingRound ?? 1) as 1 | 2 | 3 | 4 | 5 | 6;
+    const startingRound = msg.startingRound ?? 1;
     const updatedRoundState = setStartingRound(lobbyState, startingRound);
     if (!updatedRoundState) {
       throw new Error("Invalid starting round");
@@ -616,6 +933,9 @@ export class MayIRoom extends Server {
     const lobbyState: LobbyState = {
       aiPlayers,
       startingRound: snapshot.currentRound,
+      contracts: snapshot.contracts,
+      turnTimer: null,
+      match: null,
     };
 
     await this.setLobbyState(lobbyState);
@@ -650,6 +970,9 @@ export class MayIRoom extends Server {
     const lobbyState: LobbyState = {
       aiPlayers,
       startingRound: state.roundNumber,
+      contracts: DEFAULT_CONTRACTS,
+      turnTimer: null,
+      match: null,
     };
 
     await this.setLobbyState(lobbyState);
@@ -669,6 +992,21 @@ export class MayIRoom extends Server {
   ) {
     const roomPhase = await this.getRoomPhase();
     const callerPlayerId = conn.state?.playerId ?? null;
+
+    if (callerPlayerId) {
+      const expectedToken = await this.createSeatToken(callerPlayerId);
+      if (!expectedToken || !seatTokensMatch(msg.seatToken, expectedToken)) {
+        conn.send(
+          JSON.stringify({
+            type: "ERROR",
+            error: "INVALID_SEAT_TOKEN",
+            message: "This seat belongs to another player",
+          } satisfies ServerMessage)
+        );
+        return;
+      }
+    }
+
     const gameState = roomPhase === "playing" ? await this.getGameState() : null;
 
     if (msg.action.type === "CALL_MAY_I" && roomPhase === "playing" && callerPlayerId && gameState) {
@@ -751,6 +1089,52 @@ export class MayIRoom extends Server {
         );
       } else if (effect.type === "broadcastGameState") {
         await this.broadcastGameState();
+      } else if (effect.type === "executeAIMayICallIfNeeded") {
+        await this.executeAIMayICallIfNeeded();
+      } else if (effect.type === "executeAITurnsIfNeeded") {
+        await this.executeAITurnsIfNeeded();
+      }
+    }
+  }
+
+  private async getSeatTakeoverState(
+    conn: Connection<MayIRoomConnectionState>
+  ): Promise<SeatTakeoverHandlerState> {
+    const roomPhase = await this.getRoomPhase();
+    return {
+      roomPhase,
+      callerPlayerId: conn.state?.playerId ?? null,
+      gameState: roomPhase === "playing" ? await this.getGameState() : null,
+      humanPlayers: await this.readPlayersSnapshot(),
+    };
+  }
+
+  private async applySeatTakeover(
+    conn: Connection<MayIRoomConnectionState>,
+    result: SeatTakeoverHandlerResult
+  ) {
+    if (!result.ok) {
+      conn.send(JSON.stringify(result.outboundMessages[0]));
+      return;
+    }
+
+    for (const effect of result.sideEffects) {
+      if (effect.type === "abortAITurn") {
+        this.getAICoordinator().abortCurrentTurn();
+      } else if (effect.type === "setGameState") {
+        await this.setGameState(effect.state);
+        // The caller's new seat is ready before any AI turn starts
+        for (const message of result.outboundMessages) {
+          conn.send(JSON.stringify(message));
+        }
+      } else if (effect.type === "broadcastGameState") {
+        await this.broadcastGameState();
+      } else if (effect.type === "broadcastLobbyState") {
+        await this.broadcastLobbyState();
+      } else if (effect.type === "broadcastMayIPrompt") {
+        await this.broadcastMayIPrompt(effect.adapter);
+      } else if (effect.type === "executeAIMayIResponseIfNeeded") {
+        await this.executeAIMayIResponseIfNeeded(effect.adapter);
       } else if (effect.type === "executeAITurnsIfNeeded") {
         await this.executeAITurnsIfNeeded();
       }
@@ -763,6 +1147,11 @@ export class MayIRoom extends Server {
     _reason: string,
     _wasClean: boolean
   ) {
+    if (conn.state?.isSpectator) {
+      await this.broadcastLobbyState();
+      return;
+    }
+
     const playerId = conn.state?.playerId;
     if (!playerId) return;
 
@@ -786,7 +1175,8 @@ export class MayIRoom extends Server {
 
   private async getLobbyState(): Promise<LobbyState> {
     const stored = await this.ctx.storage.get<LobbyState>(LOBBY_STATE_KEY);
-    return stored ?? createInitialLobbyState();
+    // Lobbies stored before contract sequences have no contracts
+    return { ...createInitialLobbyState(), ...stored };
   }
 
   private async setLobbyState(state: LobbyState): Promise<void> {
@@ -800,6 +1190,11 @@ export class MayIRoom extends Server {
 
   private async setRoomPhase(phase: RoomPhase): Promise<void> {
     await this.ctx.storage.put(ROOM_PHASE_KEY, phase);
+    if (phase === "playing") {
+      // A new game starts with full banks under the lobby's current settings
+      await this.ctx.storage.delete(TURN_CLOCK_KEY);
+      await this.updateTurnClock();
+    }
   }
 
   private async getGameState(): Promise<StoredGameState | null> {
@@ -808,6 +1203,31 @@ export class MayIRoom extends Server {
 
   private async setGameState(state: StoredGameState): Promise<void> {
     await this.ctx.storage.put(GAME_STATE_KEY, state);
+    await this.updateTurnClock(state);
+  }
+
+  private async getTurnClock(): Promise<TurnClockState | null> {
+    return await this.ctx.storage.get<TurnClockState>(TURN_CLOCK_KEY) ?? null;
+  }
+
+  private async setTurnClock(clock: TurnClockState): Promise<void> {
+    await this.ctx.storage.put(TURN_CLOCK_KEY, clock);
+  }
+
+  private async getMatchState(): Promise<MatchState | null> {
+    return await this.ctx.storage.get<MatchState>(MATCH_STATE_KEY) ?? null;
+  }
+
+  private async setMatchState(match: MatchState): Promise<void> {
+    await this.ctx.storage.put(MATCH_STATE_KEY, match);
+  }
+
+  private async getRoomHistory(): Promise<RoomGameSummary[]> {
+    return await this.ctx.storage.get<RoomGameSummary[]>(ROOM_HISTORY_KEY) ?? [];
+  }
+
+  private async setRoomHistory(history: RoomGameSummary[]): Promise<void> {
+    await this.ctx.storage.put(ROOM_HISTORY_KEY, history);
   }
 
   private async getStoredPlayers(): Promise<StoredPlayer[]> {
@@ -835,21 +1255,164 @@ export class MayIRoom extends Server {
     return snapshot.players;
   }
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // Turn Clock
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Start, move or stop the turn clock to match the game
+   *
+   * The deadline is kept in a Durable Object alarm so a timed out turn is
+   * still auto-played after the room restarts.
+   */
+  private async updateTurnClock(gameState?: StoredGameState): Promise<void> {
+    if ((await this.getRoomPhase()) !== "playing") return;
+
+    const state = gameState ?? (await this.getGameState());
+    if (!state) return;
+
+    const stored = await this.getTurnClock();
+    const { turnTimer } = await this.getLobbyState();
+    const clock = stored ?? (turnTimer ? createTurnClockState(turnTimer) : null);
+    if (!clock) return;
+
+    const adapter = PartyGameAdapter.fromStoredState(state);
+    const awaitingId = adapter.getAwaitingLobbyPlayerId();
+    const mapping = awaitingId ? adapter.getPlayerMapping(awaitingId) : null;
+    const turn = getTimedTurn(
+      adapter.getSnapshot(),
+      mapping ? { lobbyId: mapping.lobbyId, isAI: mapping.isAI } : null
+    );
+
+    const next = syncTurnClock(clock, turn, Date.now());
+    if (next === stored) return;
+
+    await this.setTurnClock(next);
+    if (next.active) {
+      await this.ctx.storage.setAlarm(next.active.deadline);
+    } else {
+      await this.ctx.storage.deleteAlarm();
+    }
+    this.broadcastTurnClock(next, adapter);
+  }
+
+  /**
+   * Turn clock alarm: auto-play for the human whose time ran out
+   */
+  override async onAlarm(): Promise<void> {
+    if ((await this.getRoomPhase()) !== "playing") return;
+
+    const clock = await this.getTurnClock();
+    const gameState = await this.getGameState();
+    if (!clock?.active || !gameState) return;
+
+    const now = Date.now();
+    if (!isTurnClockExpired(clock, now)) {
+      await this.ctx.storage.setAlarm(clock.active.deadline);
+      return;
+    }
+
+    // The bank is spent; whatever happens next starts a fresh clock
+    const playerId = clock.active.playerId;
+    await this.setTurnClock(stopTurnClock(clock, now));
+
+    const adapter = PartyGameAdapter.fromStoredState(gameState);
+    if (adapter.getAwaitingLobbyPlayerId() !== playerId) {
+      await this.updateTurnClock(gameState);
+      return;
+    }
+
+    this.log(`[Turn clock] Time ran out for ${playerId}, auto-playing`);
+    const snapshotBefore = adapter.getSnapshot();
+    const result = await executeFallbackTurn(adapter, playerId, { phaseDelayMs: 0 });
+
+    if (!result.success) {
+      this.log(`[Turn clock] Auto-play failed for ${playerId}: ${result.error}`);
+      await this.updateTurnClock(gameState);
+      return;
+    }
+
+    await this.setGameState(adapter.getStoredState());
+
+    const phaseAfter = adapter.getSnapshot().phase;
+    if (snapshotBefore.phase === "RESOLVING_MAY_I") {
+      if (phaseAfter === "RESOLVING_MAY_I") {
+        await this.broadcastMayIPrompt(adapter);
+        await this.executeAIMayIResponseIfNeeded(adapter);
+      } else {
+        await this.broadcastMayIResolved(adapter);
+      }
+    }
+    await this.detectAndBroadcastTransitions(
+      adapter,
+      snapshotBefore.phase,
+      snapshotBefore.currentRound,
+      snapshotBefore
+    );
+    await this.broadcastGameState();
+
+    if (adapter.getSnapshot().phase === "ROUND_ACTIVE") {
+      if (snapshotBefore.phase === "ROUND_ACTIVE") {
+        await this.executeAIMayICallIfNeeded();
+      }
+      await this.executeAITurnsIfNeeded();
+    }
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // Broadcast Helpers
   // ═══════════════════════════════════════════════════════════════════════════
 
+  /**
+   * Build TURN_CLOCK, naming the player by the engine ID used in PlayerView
+   */
+  private buildTurnClockMessage(
+    clock: TurnClockState | null,
+    adapter: PartyGameAdapter
+  ): ServerMessage {
+    const payload = buildTurnClockPayload(clock, Date.now());
+    const engineId = payload ? adapter.lobbyIdToEngineId(payload.playerId) : null;
+    return {
+      type: "TURN_CLOCK",
+      clock: payload && engineId ? { ...payload, playerId: engineId } : null,
+    };
+  }
+
+  /**
+   * Broadcast TURN_CLOCK to all clients
+   */
+  private broadcastTurnClock(clock: TurnClockState, adapter: PartyGameAdapter): void {
+    this.broadcast(JSON.stringify(this.buildTurnClockMessage(clock, adapter)));
+  }
+
   private async broadcastPlayers(): Promise<void> {
     const players = await this.readPlayersSnapshot();
     this.broadcast(JSON.stringify({ type: "PLAYERS", players } satisfies ServerMessage));
   }
 
-  private async broadcastLobbyState(): Promise<void> {
+  private async buildLobbyPayload(): Promise<LobbyStatePayload> {
     const lobbyState = await this.getLobbyState();
-    const humanPlayers = storedPlayersToHumanPlayerInfo(
-      await this.getStoredPlayers()
-    );
-    const lobbyPayload = buildLobbyStatePayload(humanPlayers, lobbyState);
+    const storedPlayers = await this.getStoredPlayers();
+    const humanPlayers = storedPlayersToHumanPlayerInfo(storedPlayers);
+    const ratings = await this.getLobbyRatings(storedPlayers, lobbyState);
+    const gameState = (await this.getRoomPhase()) === "playing" ? await this.getGameState() : null;
+    return buildLobbyStatePayload(humanPlayers, lobbyState, {
+      ratings,
+      spectatorCount: this.getSpectatorCount(),
+      seats: gameState ? buildGameSeats(gameState.playerMappings, humanPlayers) : [],
+    });
+  }
+
+  private getSpectatorCount(): number {
+    let count = 0;
+    for (const conn of this.getConnections<MayIRoomConnectionState>()) {
+      if (conn.state?.isSpectator) count++;
+    }
+    return count;
+  }
+
+  private async broadcastLobbyState(): Promise<void> {
+    const lobbyPayload = await this.buildLobbyPayload();
     this.broadcast(JSON.stringify({ type: "LOBBY_STATE", lobbyState: lobbyPayload } satisfies ServerMessage));
   }
 
@@ -860,9 +1423,11 @@ export class MayIRoom extends Server {
 
   /**
    * Broadcast GAME_STARTED to each connected player with their specific PlayerView
+   * (spectators get the public SpectatorView instead)
    */
   private async broadcastPlayerViews(adapter: PartyGameAdapter): Promise<void> {
     const activityLog = adapter.getRecentActivityLog(10);
+    this.broadcastSpectatorView(adapter);
 
     for (const conn of this.getConnections<MayIRoomConnectionState>()) {
       const lobbyPlayerId = conn.state?.playerId;
@@ -890,6 +1455,7 @@ export class MayIRoom extends Server {
 
     const adapter = PartyGameAdapter.fromStoredState(gameState);
     const activityLog = adapter.getRecentActivityLog(10);
+    this.broadcastSpectatorView(adapter);
 
     for (const conn of this.getConnections<MayIRoomConnectionState>()) {
       const lobbyPlayerId = conn.state?.playerId;
@@ -908,6 +1474,25 @@ export class MayIRoom extends Server {
     }
   }
 
+  /**
+   * Send SPECTATOR_STATE to every spectator (one view, since none of them has a hand)
+   */
+  private broadcastSpectatorView(adapter: PartyGameAdapter): void {
+    const spectators = [...this.getConnections<MayIRoomConnectionState>()].filter(
+      (conn) => conn.state?.isSpectator
+    );
+    if (spectators.length === 0) return;
+
+    const message = JSON.stringify({
+      type: "SPECTATOR_STATE",
+      state: adapter.getSpectatorView(),
+      activityLog: adapter.getRecentActivityLog(10),
+    } satisfies ServerMessage);
+    for (const conn of spectators) {
+      conn.send(message);
+    }
+  }
+
   /**
    * Detect and broadcast round/game end transitions
    *
@@ -942,9 +1527,98 @@ export class MayIRoom extends Server {
     // Detect game end
     if (phaseAfter === "GAME_END" && phaseBefore !== "GAME_END") {
       await this.broadcastGameEnded(adapter);
+      await this.recordPlayerStats(adapter);
+      await this.recordSkillRatings(adapter);
+    }
+  }
+
+  /**
+   * Send each human seat's result to their PlayerStats Durable Object
+   *
+   * Best effort: a stats failure must never affect the game itself. Games
+   * without a journal (agent-injected states) are not recorded.
+   */
+  private async recordPlayerStats(adapter: PartyGameAdapter): Promise<void> {
+    const { journal } = adapter.getStoredState();
+    if (!journal) return;
+
+    const profileIds = getProfileIdsByPlayerId(await this.getStoredPlayers());
+
+    try {
+      const records = buildPlayerGameRecords({
+        roomId: this.name,
+        endedAt: new Date().toISOString(),
+        journal,
+        playerMappings: adapter.getAllPlayerMappings(),
+        profileIds,
+      });
+      for (const [profileId, record] of Object.entries(records)) {
+        const stub = this.env.PlayerStats.get(this.env.PlayerStats.idFromName(profileId));
+        await stub.recordGame(record);
+      }
+    } catch (error) {
+      this.log("Failed to record player stats", error);
+    }
+  }
+
+  /**
+   * Update the skill ratings of every rated seat (best effort, like stats)
+   */
+  private async recordSkillRatings(adapter: PartyGameAdapter): Promise<void> {
+    const snapshot = adapter.getSnapshot();
+    const playerMappings = adapter.getAllPlayerMappings();
+
+    const finalScores: Record<string, number> = {};
+    for (const mapping of playerMappings) {
+      const player = snapshot.players.find((p) => p.id === mapping.engineId);
+      if (player) finalScores[mapping.lobbyId] = player.totalScore;
+    }
+
+    const profileIds = getProfileIdsByPlayerId(await this.getStoredPlayers());
+    const participants = buildRatingParticipants({ playerMappings, finalScores, profileIds });
+    if (participants.length < 2) return;
+
+    try {
+      await this.getSkillRatingsStub().recordGame(participants);
+    } catch (error) {
+      this.log("Failed to record skill ratings", error);
+    }
+  }
+
+  /**
+   * Get the skill rating of each rated player in the lobby, by lobby ID
+   */
+  private async getLobbyRatings(
+    storedPlayers: StoredPlayer[],
+    lobbyState: LobbyState
+  ): Promise<Record<string, number>> {
+    const keys: Record<string, string> = {};
+    for (const [playerId, profileId] of Object.entries(getProfileIdsByPlayerId(storedPlayers))) {
+      keys[playerId] = getHumanRatingKey(profileId);
+    }
+    for (const ai of lobbyState.aiPlayers) {
+      keys[ai.playerId] = getModelRatingKey(ai.modelId);
+    }
+    if (Object.keys(keys).length === 0) return {};
+
+    try {
+      const entries = await this.getSkillRatingsStub().getRatings(Object.values(keys));
+      const ratings: Record<string, number> = {};
+      for (const [playerId, key] of Object.entries(keys)) {
+        const entry = entries[key];
+        if (entry) ratings[playerId] = Math.round(entry.rating);
+      }
+      return ratings;
+    } catch (error) {
+      this.log("Failed to load skill ratings", error);
+      return {};
     }
   }
 
+  private getSkillRatingsStub() {
+    return this.env.SkillRatings.get(this.env.SkillRatings.idFromName(SKILL_RATINGS_NAME));
+  }
+
   /**
    * Broadcast ROUND_ENDED to all clients
    *
@@ -985,12 +1659,13 @@ export class MayIRoom extends Server {
   }
 
   /**
-   * Broadcast GAME_ENDED to all clients
+   * Final scores by lobby ID and the winner (lowest score wins)
    */
-  private async broadcastGameEnded(adapter: PartyGameAdapter): Promise<void> {
+  private getFinalResults(adapter: PartyGameAdapter): {
+    finalScores: Record<string, number>;
+    winnerId: string;
+  } {
     const snapshot = adapter.getSnapshot();
-
-    // Build final scores map and find winner (lowest score wins)
     const finalScores: Record<string, number> = {};
     let winnerId = "";
     let lowestScore = Infinity;
@@ -1006,15 +1681,72 @@ export class MayIRoom extends Server {
       }
     }
 
+    return { finalScores, winnerId };
+  }
+
+  /**
+   * Broadcast GAME_ENDED to all clients
+   */
+  private async broadcastGameEnded(adapter: PartyGameAdapter): Promise<void> {
+    const { finalScores, winnerId } = this.getFinalResults(adapter);
+
     // Include player names map for UI display
     const playerNames = adapter.getPlayerNamesMap();
 
+    // Add the game to the match standings when playing a series
+    let match = await this.getMatchState();
+    if (match) {
+      match = recordMatchGame(match, finalScores, playerNames);
+      await this.setMatchState(match);
+    }
+
+    // Earlier games stay visible after a rematch in the same room
+    const history = await this.getRoomHistory();
+    await this.setRoomHistory(
+      appendRoomHistory(history, {
+        finalScores,
+        winnerId,
+        playerNames,
+        endedAt: new Date().toISOString(),
+      })
+    );
+
     this.broadcast(
       JSON.stringify({
         type: "GAME_ENDED",
         finalScores,
         winnerId,
         playerNames,
+        ...(match && { match: buildMatchSummaryPayload(match) }),
+        ...(history.length > 0 && { history }),
+      } satisfies ServerMessage)
+    );
+  }
+
+  /**
+   * Send GAME_ENDED to a player or spectator who connects after the game ended
+   *
+   * The match standings and room history were already updated when the game
+   * ended, so the history's last entry is this game.
+   */
+  private async sendGameEndedIfOver(
+    conn: Connection<MayIRoomConnectionState>,
+    adapter: PartyGameAdapter
+  ): Promise<void> {
+    if (adapter.getSnapshot().phase !== "GAME_END") return;
+
+    const { finalScores, winnerId } = this.getFinalResults(adapter);
+    const match = await this.getMatchState();
+    const history = (await this.getRoomHistory()).slice(0, -1);
+
+    conn.send(
+      JSON.stringify({
+        type: "GAME_ENDED",
+        finalScores,
+        winnerId,
+        playerNames: adapter.getPlayerNamesMap(),
+        ...(match && { match: buildMatchSummaryPayload(match) }),
+        ...(history.length > 0 && { history }),
       } satisfies ServerMessage)
     );
   }
@@ -1250,9 +1982,36 @@ export class MayIRoom extends Server {
       onTransitionCheck: async (adapter, phaseBefore, roundBefore, snapshotBefore) => {
         await this.detectAndBroadcastTransitions(adapter, phaseBefore, roundBefore, snapshotBefore);
       },
+      onTurnEnd: async () => {
+        await this.executeAIMayICallIfNeeded();
+      },
     });
   }
 
+  /**
+   * Let AI seats call May I on the discard that was just made
+   *
+   * Humans call May I from the client whenever the button is shown; AI seats
+   * only act when asked, so the room asks them after each discard. A call is
+   * announced and prompted like a human's CALL_MAY_I.
+   */
+  private async executeAIMayICallIfNeeded(): Promise<void> {
+    const adapter = await this.getAICoordinator().executeAIMayICallIfNeeded();
+    if (!adapter) return;
+
+    const snapshot = adapter.getSnapshot();
+    this.logMayI(`AI May-I call, phase is now ${snapshot.phase}`);
+    if (snapshot.phase === "RESOLVING_MAY_I") {
+      await this.broadcastMayINotification(adapter);
+      await this.broadcastMayIPrompt(adapter);
+      await this.broadcastGameState();
+      await this.executeAIMayIResponseIfNeeded(adapter);
+    } else {
+      await this.broadcastMayIResolved(adapter);
+      await this.broadcastGameState();
+    }
+  }
+
   /**
    * Check if a disconnected human player needs auto-play and execute it
    *
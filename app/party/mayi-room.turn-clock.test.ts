@@ -0,0 +1,106 @@
+import { describe, expect, it } from "bun:test";
+
+import { GameEngine } from "../../core/engine/game-engine";
+import {
+  buildTurnClockPayload,
+  createTurnClockState,
+  getBankMs,
+  getTimedTurn,
+  isTurnClockExpired,
+  isValidTurnTimerSettings,
+  stopTurnClock,
+  syncTurnClock,
+} from "./mayi-room.turn-clock";
+
+const NOW = 1_700_000_000_000;
+const SETTINGS = { secondsPerTurn: 30, bankSeconds: 60 };
+
+describe("MayIRoom turn clock logic", () => {
+  it("validates turn timer settings", () => {
+    expect(isValidTurnTimerSettings(SETTINGS)).toBe(true);
+    expect(isValidTurnTimerSettings({ secondsPerTurn: 30, bankSeconds: 0 })).toBe(true);
+    expect(isValidTurnTimerSettings({ secondsPerTurn: 5, bankSeconds: 0 })).toBe(false);
+    expect(isValidTurnTimerSettings({ secondsPerTurn: 30, bankSeconds: -1 })).toBe(false);
+    expect(isValidTurnTimerSettings({ secondsPerTurn: 30.5, bankSeconds: 0 })).toBe(false);
+  });
+
+  it("times human decisions only while a round is being played", () => {
+    const engine = GameEngine.createGame({ playerNames: ["A", "B", "C"], seed: "clock" });
+    const snapshot = engine.getSnapshot();
+
+    expect(getTimedTurn(snapshot, { lobbyId: "human-1", isAI: false })).toEqual({
+      turnKey: `1:${snapshot.turnNumber}:ROUND_ACTIVE:${snapshot.awaitingPlayerId}`,
+      playerId: "human-1",
+    });
+    expect(getTimedTurn(snapshot, { lobbyId: "ai-1", isAI: true })).toBeNull();
+    expect(getTimedTurn(snapshot, null)).toBeNull();
+    expect(getTimedTurn({ ...snapshot, phase: "ROUND_END" }, { lobbyId: "h", isAI: false })).toBeNull();
+  });
+
+  it("starts a clock with the per-turn time plus the player's bank", () => {
+    const state = syncTurnClock(createTurnClockState(SETTINGS), { turnKey: "t1", playerId: "p1" }, NOW);
+
+    expect(state.active).toEqual({
+      turnKey: "t1",
+      playerId: "p1",
+      startedAt: NOW,
+      turnEndsAt: NOW + 30_000,
+      deadline: NOW + 90_000,
+    });
+    expect(buildTurnClockPayload(state, NOW + 10_000)).toEqual({
+      playerId: "p1",
+      turnRemainingMs: 20_000,
+      bankRemainingMs: 60_000,
+    });
+    expect(buildTurnClockPayload(state, NOW + 40_000)).toEqual({
+      playerId: "p1",
+      turnRemainingMs: 0,
+      bankRemainingMs: 50_000,
+    });
+  });
+
+  it("keeps running while the same decision is pending", () => {
+    const started = syncTurnClock(createTurnClockState(SETTINGS), { turnKey: "t1", playerId: "p1" }, NOW);
+
+    expect(syncTurnClock(started, { turnKey: "t1", playerId: "p1" }, NOW + 5_000)).toBe(started);
+  });
+
+  it("charges the bank only for time past the per-turn limit", () => {
+    let state = syncTurnClock(createTurnClockState(SETTINGS), { turnKey: "t1", playerId: "p1" }, NOW);
+    state = syncTurnClock(state, { turnKey: "t2", playerId: "p2" }, NOW + 45_000);
+
+    expect(getBankMs(state, "p1")).toBe(45_000);
+    expect(getBankMs(state, "p2")).toBe(60_000);
+    expect(state.active?.playerId).toBe("p2");
+
+    // A quick turn leaves the bank alone
+    state = syncTurnClock(state, { turnKey: "t3", playerId: "p1" }, NOW + 50_000);
+    expect(getBankMs(state, "p2")).toBe(60_000);
+    expect(state.active?.deadline).toBe(NOW + 50_000 + 30_000 + 45_000);
+  });
+
+  it("expires at the deadline and empties the bank when stopped", () => {
+    const started = syncTurnClock(createTurnClockState(SETTINGS), { turnKey: "t1", playerId: "p1" }, NOW);
+
+    expect(isTurnClockExpired(started, NOW + 89_999)).toBe(false);
+    expect(isTurnClockExpired(started, NOW + 90_000)).toBe(true);
+
+    const stopped = stopTurnClock(started, NOW + 95_000);
+    expect(stopped.active).toBeNull();
+    expect(getBankMs(stopped, "p1")).toBe(0);
+    expect(buildTurnClockPayload(stopped, NOW + 95_000)).toBeNull();
+
+    // The same decision gets a fresh per-turn clock with no bank behind it
+    const retried = syncTurnClock(stopped, { turnKey: "t1", playerId: "p1" }, NOW + 95_000);
+    expect(retried.active?.deadline).toBe(NOW + 125_000);
+  });
+
+  it("stops when no human decision is pending", () => {
+    const started = syncTurnClock(createTurnClockState(SETTINGS), { turnKey: "t1", playerId: "p1" }, NOW);
+    const stopped = syncTurnClock(started, null, NOW + 10_000);
+
+    expect(stopped.active).toBeNull();
+    expect(getBankMs(stopped, "p1")).toBe(60_000);
+    expect(syncTurnClock(stopped, null, NOW + 20_000)).toBe(stopped);
+  });
+});
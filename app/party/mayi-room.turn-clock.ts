@@ -0,0 +1,183 @@
+/**
+ * Pure turn clock logic for the room's per-turn timer
+ *
+ * This file contains NO Durable Object / WebSocket code so we can unit test it
+ * with Bun without needing a Workers runtime. The room persists the state,
+ * schedules a Durable Object alarm for the deadline and auto-plays the timed
+ * out player when the alarm fires.
+ *
+ * Each human decision (a turn, or an answer to a May I prompt) gets
+ * `secondsPerTurn`. When that runs out the player's time bank starts draining;
+ * whatever they use is gone for the rest of the game. AI seats are never timed.
+ *
+ * Follows the same pattern as mayi-room.presence.ts
+ */
+
+import type { GameSnapshot } from "../../core/engine/game-engine.types";
+import type { TurnClockPayload, TurnTimerSettings } from "./protocol.types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const MIN_SECONDS_PER_TURN = 10;
+export const MAX_SECONDS_PER_TURN = 600;
+export const MAX_BANK_SECONDS = 3600;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** The decision currently being timed */
+export interface ActiveTurnClock {
+  /** Identifies the decision; a new key starts a new clock */
+  turnKey: string;
+  /** Lobby ID of the player on the clock */
+  playerId: string;
+  startedAt: number;
+  /** When the per-turn time runs out and the bank starts draining */
+  turnEndsAt: number;
+  /** When the bank is empty too and the turn is auto-played */
+  deadline: number;
+}
+
+/** Turn clock state stored in the room */
+export interface TurnClockState {
+  settings: TurnTimerSettings;
+  /** Bank remaining per lobby player ID, in ms (missing = full bank) */
+  bankMs: Record<string, number>;
+  active: ActiveTurnClock | null;
+}
+
+/** A human decision the game is waiting on */
+export interface TimedTurn {
+  turnKey: string;
+  playerId: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Pure State Functions
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Check turn timer settings are in range
+ */
+export function isValidTurnTimerSettings(settings: TurnTimerSettings): boolean {
+  return (
+    Number.isInteger(settings.secondsPerTurn) &&
+    Number.isInteger(settings.bankSeconds) &&
+    settings.secondsPerTurn >= MIN_SECONDS_PER_TURN &&
+    settings.secondsPerTurn <= MAX_SECONDS_PER_TURN &&
+    settings.bankSeconds >= 0 &&
+    settings.bankSeconds <= MAX_BANK_SECONDS
+  );
+}
+
+/**
+ * Create a stopped clock with every player's bank full
+ */
+export function createTurnClockState(settings: TurnTimerSettings): TurnClockState {
+  return { settings, bankMs: {}, active: null };
+}
+
+/**
+ * Work out which human decision the game is waiting on, if any
+ *
+ * Returns null between rounds, at game end and while an AI seat is playing.
+ */
+export function getTimedTurn(
+  snapshot: GameSnapshot,
+  awaiting: { lobbyId: string; isAI: boolean } | null
+): TimedTurn | null {
+  if (!awaiting || awaiting.isAI) return null;
+  if (snapshot.phase !== "ROUND_ACTIVE" && snapshot.phase !== "RESOLVING_MAY_I") return null;
+
+  return {
+    turnKey: [
+      snapshot.currentRound,
+      snapshot.turnNumber,
+      snapshot.phase,
+      snapshot.awaitingPlayerId,
+    ].join(":"),
+    playerId: awaiting.lobbyId,
+  };
+}
+
+/**
+ * Get a player's remaining bank in ms
+ */
+export function getBankMs(state: TurnClockState, playerId: string): number {
+  return state.bankMs[playerId] ?? state.settings.bankSeconds * 1000;
+}
+
+/**
+ * Bring the clock in line with the decision the game is waiting on
+ *
+ * Keeps running while the same decision is pending. Otherwise charges the
+ * previous player for any bank they used and starts a fresh clock.
+ */
+export function syncTurnClock(
+  state: TurnClockState,
+  turn: TimedTurn | null,
+  now: number
+): TurnClockState {
+  if (state.active && turn && state.active.turnKey === turn.turnKey) return state;
+  if (!state.active && !turn) return state;
+
+  const settled = stopTurnClock(state, now);
+  if (!turn) return settled;
+
+  const turnEndsAt = now + settled.settings.secondsPerTurn * 1000;
+  return {
+    ...settled,
+    active: {
+      turnKey: turn.turnKey,
+      playerId: turn.playerId,
+      startedAt: now,
+      turnEndsAt,
+      deadline: turnEndsAt + getBankMs(settled, turn.playerId),
+    },
+  };
+}
+
+/**
+ * Check whether the active clock has run out
+ */
+export function isTurnClockExpired(state: TurnClockState, now: number): boolean {
+  return state.active !== null && now >= state.active.deadline;
+}
+
+/**
+ * Stop the active clock, charging the player for any bank they used
+ */
+export function stopTurnClock(state: TurnClockState, now: number): TurnClockState {
+  const { active } = state;
+  if (!active) return state;
+
+  const used = Math.max(0, Math.min(now, active.deadline) - active.turnEndsAt);
+  const remaining = Math.max(0, getBankMs(state, active.playerId) - used);
+  return {
+    ...state,
+    bankMs: { ...state.bankMs, [active.playerId]: remaining },
+    active: null,
+  };
+}
+
+/**
+ * Build the clock for clients as durations, so client clock skew doesn't matter
+ *
+ * playerId is still the lobby ID here; the room swaps in the engine ID.
+ */
+export function buildTurnClockPayload(
+  state: TurnClockState | null,
+  now: number
+): TurnClockPayload | null {
+  const active = state?.active;
+  if (!state || !active) return null;
+
+  return {
+    playerId: active.playerId,
+    turnRemainingMs: Math.max(0, active.turnEndsAt - now),
+    bankRemainingMs: Math.max(0, active.deadline - Math.max(now, active.turnEndsAt)),
+  };
+}
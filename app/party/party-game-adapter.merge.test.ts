@@ -120,6 +120,44 @@ describe("mergeAIStatePreservingOtherPlayerHands", () => {
     expect(mergedAiHand?.length).toBe(aiHandBefore.length + 1);
   });
 
+  it("merges journals so the merged state can be replayed", () => {
+    const engine = GameEngine.createGame({
+      playerNames: ["Human", "AI-Alice", "AI-Bob"],
+      gameId: "test-room",
+      seed: "merge-seed",
+    });
+    const state: StoredGameState = {
+      ...createTestGameState(["Human", "AI-Alice", "AI-Bob"]),
+      engineSnapshot: engine.toJSON(),
+      journal: engine.getJournal(),
+    };
+
+    // AI (player-1) draws while the human (player-0) reorders
+    const aiAdapter = PartyGameAdapter.fromStoredState(state);
+    aiAdapter.drawFromStock("lobby-2");
+    const aiState = aiAdapter.getStoredState();
+
+    const humanAdapter = PartyGameAdapter.fromStoredState(state);
+    const reversedHand = [...getPlayerHand(state, "player-0")!].reverse();
+    humanAdapter.reorderHand("lobby-1", reversedHand);
+    const freshState = humanAdapter.getStoredState();
+
+    const merged = mergeAIStatePreservingOtherPlayerHands(freshState, aiState, "player-1");
+    const entries = merged.journal!.entries;
+
+    expect(entries.map((e) => [e.seq, e.command.type])).toEqual([
+      [0, "DRAW_FROM_STOCK"],
+      [1, "REORDER_HAND"],
+    ]);
+
+    const replayed = GameEngine.replay(merged.journal!.options, entries);
+    const replayedHand = replayed
+      .getSnapshot()
+      .players.find((p) => p.id === "player-0")!
+      .hand.map((c) => c.id);
+    expect(replayedHand).toEqual(getPlayerHand(merged, "player-0")!);
+  });
+
   it("handles null fresh state by returning AI state", () => {
     const state = createTestGameState(["Human", "AI-Alice", "AI-Bob"]);
 
@@ -260,6 +298,23 @@ describe("mergeAIStatePreservingOtherPlayerHands", () => {
     expect(getPlayerHand(merged, "player-3")).toEqual(ai3Hand);
   });
 
+  it("keeps seat takeovers made during the AI turn", () => {
+    const state = createTestGameState(["Human", "AI-A", "AI-B"]);
+
+    // A human takes over AI-B's seat while AI-A is playing
+    const fresh = PartyGameAdapter.fromStoredState(state);
+    fresh.reassignSeat("lobby-3", { lobbyId: "human-2", isAI: false });
+
+    const merged = mergeAIStatePreservingOtherPlayerHands(
+      fresh.getStoredState(),
+      state,
+      "player-1"
+    );
+
+    expect(merged.playerMappings[2]?.lobbyId).toBe("human-2");
+    expect(merged.playerMappings[2]?.isAI).toBe(false);
+  });
+
   describe("round transition handling", () => {
     // Helper to get round number from stored state
     function getRoundNumber(state: StoredGameState): number | undefined {
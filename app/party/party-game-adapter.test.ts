@@ -81,6 +81,26 @@ describe("PartyGameAdapter", () => {
     });
   });
 
+  describe("createNextGame", () => {
+    it("keeps the seats and passes the deal to the left", () => {
+      const first = PartyGameAdapter.createFromLobby({
+        roomId: "test-room",
+        humanPlayers,
+        aiPlayers,
+        startingRound: 6,
+      });
+      const lastDealer = first.getSnapshot().dealerIndex;
+
+      const next = PartyGameAdapter.createNextGame(first, { startingRound: 1 });
+      const snapshot = next.getSnapshot();
+
+      expect(next.getAllPlayerMappings()).toEqual(first.getAllPlayerMappings());
+      expect(snapshot.gameId).toBe("test-room");
+      expect(snapshot.currentRound).toBe(1);
+      expect(snapshot.dealerIndex).toBe((lastDealer + 1) % 3);
+    });
+  });
+
   describe("ID translation", () => {
     it("translates lobby ID to engine ID", () => {
       const adapter = PartyGameAdapter.createFromLobby({
@@ -124,6 +144,64 @@ describe("PartyGameAdapter", () => {
     });
   });
 
+  describe("reassignSeat", () => {
+    it("hands a human seat to an AI with the same hand and score", () => {
+      const adapter = PartyGameAdapter.createFromLobby({
+        roomId: "test-room",
+        humanPlayers,
+        aiPlayers,
+        startingRound: 1,
+      });
+      const handBefore = adapter.getPlayerView("human-2")?.yourHand;
+
+      const seat = adapter.reassignSeat("human-2", {
+        lobbyId: "ai-takeover",
+        isAI: true,
+        aiModelId: "bot:medium",
+      });
+
+      expect(seat).toEqual({
+        lobbyId: "ai-takeover",
+        engineId: "player-1",
+        name: "Bob",
+        isAI: true,
+        aiModelId: "bot:medium",
+      });
+      expect(adapter.getPlayerView("human-2")).toBe(null);
+      expect(adapter.getPlayerView("ai-takeover")?.yourHand).toEqual(handBefore!);
+
+      const restored = PartyGameAdapter.fromStoredState(adapter.getStoredState());
+      expect(restored.isAIPlayer("ai-takeover")).toBe(true);
+    });
+
+    it("lets a human take over an AI seat", () => {
+      const adapter = PartyGameAdapter.createFromLobby({
+        roomId: "test-room",
+        humanPlayers,
+        aiPlayers,
+        startingRound: 1,
+      });
+
+      const seat = adapter.reassignSeat("ai-abc123", { lobbyId: "human-3", isAI: false });
+
+      expect(seat?.engineId).toBe("player-2");
+      expect(seat?.aiModelId).toBeUndefined();
+      expect(adapter.isAIPlayer("human-3")).toBe(false);
+      expect(adapter.getAIPlayerMappings()).toHaveLength(0);
+    });
+
+    it("returns null for an unknown seat", () => {
+      const adapter = PartyGameAdapter.createFromLobby({
+        roomId: "test-room",
+        humanPlayers,
+        aiPlayers,
+        startingRound: 1,
+      });
+
+      expect(adapter.reassignSeat("unknown", { lobbyId: "human-3", isAI: false })).toBe(null);
+    });
+  });
+
   describe("getPlayerView", () => {
     it("returns player view for valid lobby ID", () => {
       const adapter = PartyGameAdapter.createFromLobby({
@@ -152,6 +230,23 @@ describe("PartyGameAdapter", () => {
     });
   });
 
+  describe("getSpectatorView", () => {
+    it("shows every seat with avatars and no hands", () => {
+      const adapter = PartyGameAdapter.createFromLobby({
+        roomId: "test-room",
+        humanPlayers: [{ ...humanPlayers[0]!, avatarId: "ethel" }, humanPlayers[1]!],
+        aiPlayers,
+        startingRound: 1,
+      });
+
+      const view = adapter.getSpectatorView();
+      expect(view.players.map((p) => p.id)).toEqual(["player-0", "player-1", "player-2"]);
+      expect(view.players[0]?.avatarId).toBe("ethel");
+      expect(view.players.every((p) => p.handCount === 11)).toBe(true);
+      expect(view).not.toHaveProperty("yourHand");
+    });
+  });
+
   describe("serialization", () => {
     it("serializes and restores game state", () => {
       const adapter = PartyGameAdapter.createFromLobby({
@@ -481,11 +576,7 @@ describe("PartyGameAdapter", () => {
       });
 
       const awaitingId = adapter.getAwaitingLobbyPlayerId()!;
-      const snapshotBefore = adapter.getSnapshot();
-      const snapshotAfter = adapter.drawFromStock(awaitingId)!;
-
-      // Log the draw
-      adapter.logDraw(awaitingId, snapshotBefore, snapshotAfter, "stock");
+      adapter.dispatch({ type: "DRAW_FROM_STOCK", playerId: awaitingId });
 
       // Check the log - should have "Game started" filtered out, only draw remains
       const log = adapter.getRecentActivityLog(10);
@@ -507,9 +598,7 @@ describe("PartyGameAdapter", () => {
       });
 
       const awaitingId = adapter.getAwaitingLobbyPlayerId()!;
-      const snapshotBefore = adapter.getSnapshot();
-      const snapshotAfter = adapter.drawFromStock(awaitingId)!;
-      adapter.logDraw(awaitingId, snapshotBefore, snapshotAfter, "stock");
+      adapter.dispatch({ type: "DRAW_FROM_STOCK", playerId: awaitingId });
 
       // Save and restore
       const stored = adapter.getStoredState();
@@ -539,17 +628,13 @@ describe("PartyGameAdapter", () => {
 
       // First player draws
       const player1 = adapter.getAwaitingLobbyPlayerId()!;
-      const before1 = adapter.getSnapshot();
-      const after1 = adapter.drawFromStock(player1)!;
-      adapter.logDraw(player1, before1, after1, "stock");
+      adapter.dispatch({ type: "DRAW_FROM_STOCK", playerId: player1 });
 
       // Skip, then discard
-      const afterSkip = adapter.skip(player1)!;
+      const afterSkip = adapter.dispatch({ type: "SKIP", playerId: player1 })!.snapshot;
       const player = afterSkip.players.find((p) => p.id === adapter.lobbyIdToEngineId(player1));
       const cardToDiscard = player!.hand[0]!;
-      const beforeDiscard = afterSkip;
-      const afterDiscard = adapter.discard(player1, cardToDiscard.id)!;
-      adapter.logDiscard(player1, beforeDiscard, afterDiscard, cardToDiscard.id);
+      adapter.dispatch({ type: "DISCARD", playerId: player1, cardId: cardToDiscard.id });
 
       // Check we have 2 interesting entries
       const log = adapter.getRecentActivityLog(10);
@@ -563,9 +648,7 @@ describe("PartyGameAdapter", () => {
 
       // Second player draws
       const player2 = adapter2.getAwaitingLobbyPlayerId()!;
-      const before2 = adapter2.getSnapshot();
-      const after2 = adapter2.drawFromStock(player2)!;
-      adapter2.logDraw(player2, before2, after2, "stock");
+      adapter2.dispatch({ type: "DRAW_FROM_STOCK", playerId: player2 });
 
       // Should now have 3 entries
       const log2 = adapter2.getRecentActivityLog(10);
@@ -577,6 +660,25 @@ describe("PartyGameAdapter", () => {
       const log3 = adapter3.getRecentActivityLog(10);
       expect(log3.length).toBe(3);
     });
+    it("keeps recent domain events for AI players across save/restore", () => {
+      const adapter = PartyGameAdapter.createFromLobby({
+        roomId: "test-room",
+        humanPlayers,
+        aiPlayers,
+        startingRound: 1,
+      });
+
+      const awaitingId = adapter.getAwaitingLobbyPlayerId()!;
+      adapter.dispatch({ type: "DRAW_FROM_STOCK", playerId: awaitingId });
+
+      const restored = PartyGameAdapter.fromStoredState(adapter.getStoredState());
+      const events = restored.getRecentEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        type: "CardDrawnFromStock",
+        playerId: adapter.lobbyIdToEngineId(awaitingId),
+      });
+    });
   });
 
   describe("May-I resolution", () => {
@@ -13,10 +13,16 @@
 import { GameEngine } from "../../core/engine/game-engine";
 import type {
   PlayerView,
+  SpectatorView,
   MeldSpec,
   GameSnapshot,
+  GameJournal,
+  JournalCommand,
+  CommandOutcome,
 } from "../../core/engine/game-engine.types";
+import type { DomainEvent } from "../../core/engine/game-engine.events";
 import type { RoundNumber } from "../../core/engine/engine.types";
+import type { ContractSpec } from "../../core/engine/contracts";
 import type { AIPlayerInfo, HumanPlayerInfo, ActivityLogEntry } from "./protocol.types";
 import { renderCard } from "../../cli/shared/cli.renderer";
 
@@ -61,6 +67,10 @@ export interface StoredGameState {
   updatedAt: string;
   /** Activity log entries */
   activityLog: ActivityLogEntry[];
+  /** Most recent domain events, for AI players (missing in older stored state) */
+  recentEvents?: DomainEvent[];
+  /** Engine command journal (missing for games stored before journaling) */
+  journal?: GameJournal | null;
 }
 
 /**
@@ -73,8 +83,10 @@ export interface CreateGameFromLobbyOptions {
   humanPlayers: HumanPlayerInfo[];
   /** AI players */
   aiPlayers: AIPlayerInfo[];
-  /** Starting round (1-6) */
+  /** Starting round (1 to the number of contracts) */
   startingRound: RoundNumber;
+  /** Contract sequence, defaults to the 6 house-rule contracts */
+  contracts?: ContractSpec[];
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -96,6 +108,7 @@ export interface CreateGameFromLobbyOptions {
  * With this merge:
  * - Use AI's game state (stock, discard, table, turn, current player's hand)
  * - Preserve fresh state's hands for non-current players (reorders, etc.)
+ * - Keep fresh state's player mappings (a seat may have been taken over)
  *
  * XState v5 persisted snapshot structure:
  * - snapshot.context.players: player metadata with empty hands
@@ -133,7 +146,9 @@ export function mergeAIStatePreservingOtherPlayerHands(
     aiRoundNumber !== undefined &&
     freshRoundNumber !== aiRoundNumber
   ) {
-    return aiRoundNumber > freshRoundNumber ? aiState : freshState;
+    return aiRoundNumber > freshRoundNumber
+      ? { ...aiState, playerMappings: freshState.playerMappings }
+      : freshState;
   }
 
   // Navigate to players array in both snapshots
@@ -337,16 +352,79 @@ export function mergeAIStatePreservingOtherPlayerHands(
 
   return {
     ...aiState,
+    playerMappings: freshState.playerMappings,
     engineSnapshot: JSON.stringify(mergedSnapshot),
+    journal: mergeJournalPreservingOtherPlayerReorders(
+      freshState.journal ?? null,
+      aiState.journal ?? null,
+      currentPlayerEngineId
+    ),
   };
 }
 
+/**
+ * Merge journals to match mergeAIStatePreservingOtherPlayerHands.
+ *
+ * Both journals share the entries recorded before the AI loaded its state.
+ * The AI's entries come next, followed by the hand reorders other players
+ * made meanwhile (the only fresh changes the state merge keeps).
+ */
+function mergeJournalPreservingOtherPlayerReorders(
+  freshJournal: GameJournal | null,
+  aiJournal: GameJournal | null,
+  currentPlayerEngineId: string
+): GameJournal | null {
+  if (!freshJournal || !aiJournal) return aiJournal;
+
+  let sharedCount = 0;
+  while (
+    sharedCount < freshJournal.entries.length &&
+    sharedCount < aiJournal.entries.length &&
+    JSON.stringify(freshJournal.entries[sharedCount]) ===
+      JSON.stringify(aiJournal.entries[sharedCount])
+  ) {
+    sharedCount++;
+  }
+
+  // A reorder doesn't change the phase, so in the merged timeline each one
+  // leaves the game where the AI's last command did
+  const lastAIEntry = aiJournal.entries.at(-1);
+  const otherPlayerReorders = freshJournal.entries
+    .slice(sharedCount)
+    .filter(
+      (entry) =>
+        entry.command.type === "REORDER_HAND" &&
+        entry.command.playerId !== currentPlayerEngineId
+    )
+    .map((entry) =>
+      lastAIEntry
+        ? {
+            ...entry,
+            round: lastAIEntry.round,
+            phase: lastAIEntry.phase,
+            turnPhase: lastAIEntry.turnPhase,
+          }
+        : entry
+    );
+
+  const entries = [...aiJournal.entries, ...otherPlayerReorders].map((entry, seq) => ({
+    ...entry,
+    seq,
+  }));
+
+  return { options: aiJournal.options, entries };
+}
+
+/** How many domain events to keep for the AI players' recent actions feed */
+const RECENT_EVENTS_LIMIT = 20;
+
 export class PartyGameAdapter {
   private engine: GameEngine;
   private playerMappings: PlayerMapping[];
   private roomId: string;
   private createdAt: string;
   private activityLog: ActivityLogEntry[];
+  private recentEvents: DomainEvent[];
   private logIdCounter: number = 0;
 
   private constructor(
@@ -354,13 +432,15 @@ export class PartyGameAdapter {
     playerMappings: PlayerMapping[],
     roomId: string,
     createdAt: string,
-    activityLog: ActivityLogEntry[] = []
+    activityLog: ActivityLogEntry[] = [],
+    recentEvents: DomainEvent[] = []
   ) {
     this.engine = engine;
     this.playerMappings = playerMappings;
     this.roomId = roomId;
     this.createdAt = createdAt;
     this.activityLog = activityLog;
+    this.recentEvents = recentEvents;
     // Initialize counter from existing log entries
     this.logIdCounter = activityLog.length;
   }
@@ -373,7 +453,7 @@ export class PartyGameAdapter {
    * Create a new game from lobby state
    */
   static createFromLobby(options: CreateGameFromLobbyOptions): PartyGameAdapter {
-    const { roomId, humanPlayers, aiPlayers, startingRound } = options;
+    const { roomId, humanPlayers, aiPlayers, startingRound, contracts } = options;
 
     // Build player names array (humans first, then AI)
     const playerNames: string[] = [
@@ -416,6 +496,7 @@ export class PartyGameAdapter {
       playerNames,
       startingRound,
       gameId: roomId,
+      contracts,
     });
 
     const now = new Date().toISOString();
@@ -427,6 +508,36 @@ export class PartyGameAdapter {
     return adapter;
   }
 
+  /**
+   * Start the next game of a match with the same seats
+   *
+   * Keeps every player's lobby and engine IDs, and passes the deal on from
+   * the dealer of the previous game's last round.
+   */
+  static createNextGame(
+    previous: PartyGameAdapter,
+    options: Pick<CreateGameFromLobbyOptions, "startingRound" | "contracts">
+  ): PartyGameAdapter {
+    const playerMappings = previous.getAllPlayerMappings().map((mapping) => ({ ...mapping }));
+    const playerNames = playerMappings.map((mapping) => mapping.name);
+    const { dealerIndex } = previous.getSnapshot();
+
+    const engine = GameEngine.createGame({
+      playerNames,
+      startingRound: options.startingRound,
+      gameId: previous.roomId,
+      contracts: options.contracts,
+      dealerIndex: (dealerIndex + 1) % playerNames.length,
+    });
+
+    const now = new Date().toISOString();
+    const adapter = new PartyGameAdapter(engine, playerMappings, previous.roomId, now, []);
+
+    adapter.logAction("system", "Next game started", playerNames.join(", "));
+
+    return adapter;
+  }
+
   /**
    * Restore game from stored state
    */
@@ -434,7 +545,8 @@ export class PartyGameAdapter {
     const engine = GameEngine.fromJSON(
       storedState.engineSnapshot,
       storedState.roomId,
-      storedState.createdAt
+      storedState.createdAt,
+      storedState.journal ?? null
     );
 
     return new PartyGameAdapter(
@@ -442,7 +554,8 @@ export class PartyGameAdapter {
       storedState.playerMappings,
       storedState.roomId,
       storedState.createdAt,
-      storedState.activityLog ?? []
+      storedState.activityLog ?? [],
+      storedState.recentEvents ?? []
     );
   }
 
@@ -461,6 +574,8 @@ export class PartyGameAdapter {
       createdAt: this.createdAt,
       updatedAt: new Date().toISOString(),
       activityLog: this.activityLog,
+      recentEvents: this.recentEvents,
+      journal: this.engine.getJournal(),
     };
   }
 
@@ -480,6 +595,14 @@ export class PartyGameAdapter {
     return interesting.slice(-count);
   }
 
+  /**
+   * Get the most recent domain events (engine player IDs, cards included).
+   * Not for broadcast: stock draws reveal the drawn card.
+   */
+  getRecentEvents(count: number = 10): DomainEvent[] {
+    return this.recentEvents.slice(-count);
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // ID Translation
   // ═══════════════════════════════════════════════════════════════════════════
@@ -529,6 +652,31 @@ export class PartyGameAdapter {
     return mapping?.isAI ?? false;
   }
 
+  /**
+   * Hand a seat to a new occupant (a human or an AI model) mid-game
+   *
+   * The seat keeps its engine ID, name, avatar, hand and score; only the
+   * lobby ID playing it changes. Returns null if no seat has `lobbyId`.
+   */
+  reassignSeat(
+    lobbyId: string,
+    occupant: { lobbyId: string; isAI: boolean; aiModelId?: string }
+  ): PlayerMapping | null {
+    const index = this.playerMappings.findIndex((m) => m.lobbyId === lobbyId);
+    const current = this.playerMappings[index];
+    if (!current) return null;
+
+    const { aiModelId: _previousModel, ...seat } = current;
+    const updated: PlayerMapping = {
+      ...seat,
+      lobbyId: occupant.lobbyId,
+      isAI: occupant.isAI,
+      ...(occupant.isAI && occupant.aiModelId ? { aiModelId: occupant.aiModelId } : {}),
+    };
+    this.playerMappings = this.playerMappings.map((m, i) => (i === index ? updated : m));
+    return updated;
+  }
+
   /**
    * Get a map of lobby player IDs to player names.
    * Used for displaying player names in UI when scores are keyed by lobby ID.
@@ -587,6 +735,22 @@ export class PartyGameAdapter {
     }
   }
 
+  /**
+   * Get the public view for spectators
+   *
+   * Enriches every player with their avatarId from player mappings.
+   */
+  getSpectatorView(): SpectatorView {
+    const view = this.engine.getSpectatorView();
+    return {
+      ...view,
+      players: view.players.map((player) => {
+        const mapping = this.playerMappings.find((m) => m.engineId === player.id);
+        return { ...player, avatarId: mapping?.avatarId };
+      }),
+    };
+  }
+
   /**
    * Get the lobby ID of the player the engine is waiting on
    *
@@ -615,6 +779,18 @@ export class PartyGameAdapter {
   // Commands (using lobby player IDs)
   // ═══════════════════════════════════════════════════════════════════════════
 
+  /**
+   * Send any command (playerId is a lobby player ID) and get a typed outcome.
+   * The command's domain events are added to the activity log.
+   */
+  dispatch(command: JournalCommand): CommandOutcome | null {
+    const engineId = this.lobbyIdToEngineId(command.playerId);
+    if (!engineId) return null;
+    const outcome = this.engine.dispatch({ ...command, playerId: engineId });
+    this.recordEvents(outcome.domainEvents);
+    return outcome;
+  }
+
   /**
    * Draw from stock pile
    */
@@ -766,146 +942,79 @@ export class PartyGameAdapter {
   }
 
   /**
-   * Log a draw action with the drawn card
+   * Record the domain events of an accepted command: as activity log
+   * entries for the room, and in the recent events feed for AI players
    */
-  logDraw(
-    lobbyPlayerId: string,
-    before: GameSnapshot,
-    after: GameSnapshot,
-    source: "stock" | "discard"
-  ): void {
-    const mapping = this.playerMappings.find((m) => m.lobbyId === lobbyPlayerId);
-    if (!mapping) return;
-
-    const beforePlayer = before.players.find((p) => p.id === mapping.engineId);
-    const afterPlayer = after.players.find((p) => p.id === mapping.engineId);
-    if (!beforePlayer || !afterPlayer) return;
-
-    // Check if draw succeeded
-    if (afterPlayer.hand.length !== beforePlayer.hand.length + 1) return;
-
-    // Find the new card
-    const beforeIds = new Set(beforePlayer.hand.map((c) => c.id));
-    const drawn = afterPlayer.hand.find((c) => !beforeIds.has(c.id));
-    if (!drawn) return;
-
-    if (source === "stock") {
-      // Stock is face-down, so don't reveal the card
-      this.logAction(lobbyPlayerId, "drew from the draw pile");
-    } else {
-      // Discard is face-up, so everyone can see what was taken
-      this.logAction(lobbyPlayerId, "took from discard", renderCard(drawn));
+  private recordEvents(events: DomainEvent[]): void {
+    for (const event of events) {
+      this.logEvent(event);
     }
+    this.recentEvents = [...this.recentEvents, ...events].slice(-RECENT_EVENTS_LIMIT);
   }
 
   /**
-   * Log a discard action
+   * Render one domain event as an activity log entry
    */
-  logDiscard(
-    lobbyPlayerId: string,
-    before: GameSnapshot,
-    after: GameSnapshot,
-    cardId: string
-  ): void {
-    // Find the card that was discarded
-    const card = before.discard.find((c) => c.id === cardId) ??
-      after.discard.find((c) => c.id === cardId);
-
-    // Check if discard succeeded
-    const cardInDiscard = after.discard.some((c) => c.id === cardId);
-    const roundEnded = after.currentRound !== before.currentRound || after.phase === "GAME_END";
-
-    if (cardInDiscard || roundEnded) {
-      if (card) {
-        this.logAction(lobbyPlayerId, "discarded", renderCard(card));
-      }
+  private logEvent(event: DomainEvent): void {
+    const lobbyId = (engineId: string) => this.engineIdToLobbyId(engineId) ?? engineId;
 
-      // Log "went out" if player went out
-      const mapping = this.playerMappings.find((m) => m.lobbyId === lobbyPlayerId);
-      if (mapping) {
-        const beforePlayer = before.players.find((p) => p.id === mapping.engineId);
-        if (beforePlayer && beforePlayer.hand.length === 1 && roundEnded) {
-          this.logAction(lobbyPlayerId, "went out!");
-        }
-      }
-    }
-  }
+    switch (event.type) {
+      case "CardDrawnFromStock":
+        // Stock is face-down, so don't reveal the card
+        this.logAction(lobbyId(event.playerId), "drew from the draw pile");
+        break;
 
-  /**
-   * Log a lay down action
-   */
-  logLayDown(lobbyPlayerId: string, before: GameSnapshot, after: GameSnapshot): void {
-    const mapping = this.playerMappings.find((m) => m.lobbyId === lobbyPlayerId);
-    if (!mapping) return;
+      case "DiscardTaken":
+        // Discard is face-up, so everyone can see what was taken
+        this.logAction(lobbyId(event.playerId), "took from discard", renderCard(event.card));
+        break;
 
-    const beforePlayer = before.players.find((p) => p.id === mapping.engineId);
-    const afterPlayer = after.players.find((p) => p.id === mapping.engineId);
+      case "ContractLaidDown":
+        this.logAction(lobbyId(event.playerId), "laid down contract");
+        break;
 
-    if (beforePlayer && afterPlayer && !beforePlayer.isDown && afterPlayer.isDown) {
-      this.logAction(lobbyPlayerId, "laid down contract");
-    }
-  }
+      case "CardLaidOff": {
+        // Only show "at start" for prepending - appending is the default
+        const positionText = event.position === "start" ? " at start" : "";
+        this.logAction(lobbyId(event.playerId), `laid off${positionText}`, renderCard(event.card));
+        break;
+      }
 
-  /**
-   * Log a lay off action
-   *
-   * @param position - Only shown in log when "start" (prepending to run)
-   */
-  logLayOff(
-    lobbyPlayerId: string,
-    cardId: string,
-    before: GameSnapshot,
-    after: GameSnapshot,
-    position?: "start" | "end"
-  ): void {
-    const mapping = this.playerMappings.find((m) => m.lobbyId === lobbyPlayerId);
-    if (!mapping) return;
+      case "JokerSwapped":
+        this.logAction(lobbyId(event.playerId), "swapped Joker", renderCard(event.card));
+        break;
 
-    const beforePlayer = before.players.find((p) => p.id === mapping.engineId);
-    const afterPlayer = after.players.find((p) => p.id === mapping.engineId);
+      case "CardDiscarded":
+        this.logAction(lobbyId(event.playerId), "discarded", renderCard(event.card));
+        break;
 
-    if (beforePlayer && afterPlayer && afterPlayer.hand.length === beforePlayer.hand.length - 1) {
-      const card = beforePlayer.hand.find((c) => c.id === cardId);
-      if (card) {
-        // Only show "at start" for prepending - appending is the default
-        const positionText = position === "start" ? " at start" : "";
-        this.logAction(lobbyPlayerId, `laid off${positionText}`, renderCard(card));
-      }
-    }
-  }
+      case "MayICalled":
+        this.logAction(lobbyId(event.playerId), "called May I", renderCard(event.card));
+        break;
 
-  /**
-   * Log a May I call
-   */
-  logMayICall(lobbyPlayerId: string, cardId: string, before: GameSnapshot): void {
-    const card = before.discard.find((c) => c.id === cardId);
-    if (card) {
-      this.logAction(lobbyPlayerId, "called May I", renderCard(card));
-    }
-  }
+      case "MayIAllowed":
+        this.logAction(lobbyId(event.playerId), "allowed May I");
+        break;
 
-  /**
-   * Log when a player allows May-I to proceed
-   */
-  logMayIAllow(lobbyPlayerId: string): void {
-    this.logAction(lobbyPlayerId, "allowed May I");
-  }
+      case "MayIClaimed":
+        this.logAction(lobbyId(event.playerId), "claimed May I", renderCard(event.card));
+        break;
 
-  /**
-   * Log when a player claims and blocks the original caller
-   */
-  logMayIClaim(lobbyPlayerId: string, cardRendered: string): void {
-    this.logAction(lobbyPlayerId, "claimed May I", cardRendered);
-  }
+      case "MayIResolved":
+        this.logAction(lobbyId(event.winnerId), "took the May I card", renderCard(event.card));
+        break;
 
-  /**
-   * Log May I resolution - who took the card
-   */
-  logMayIResolved(winnerLobbyId: string, cardRendered: string, wasBlocked: boolean): void {
-    if (wasBlocked) {
-      this.logAction(winnerLobbyId, "took the May I card", cardRendered);
-    } else {
-      this.logAction(winnerLobbyId, "took the May I card", cardRendered);
+      case "StockReshuffled":
+        this.logAction("system", "Stock reshuffled", `${event.cardCount} cards`);
+        break;
+
+      case "RoundEnded":
+        this.logAction(lobbyId(event.winnerId), "went out!");
+        break;
+
+      // Skips are not logged (too verbose)
+      case "ActionSkipped":
+        break;
     }
   }
 }
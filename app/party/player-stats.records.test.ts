@@ -0,0 +1,119 @@
+import { describe, expect, it } from "bun:test";
+
+import { GameEngine } from "../../core/engine/game-engine";
+import {
+  applyGameRecord,
+  buildPlayerGameRecords,
+  buildPlayerStatsSummary,
+  createEmptyPlayerStats,
+  MAX_RECENT_GAMES,
+  tallyGameJournal,
+  type PlayerGameRecord,
+} from "./player-stats.records";
+import type { PlayerMapping } from "./party-game-adapter";
+
+const MAPPINGS: PlayerMapping[] = [
+  { lobbyId: "h1", engineId: "player-0", name: "Ann", isAI: false },
+  { lobbyId: "h2", engineId: "player-1", name: "Bob", isAI: false },
+  { lobbyId: "ai-1", engineId: "player-2", name: "Bot", isAI: true, aiModelId: "default:grok" },
+  { lobbyId: "h3", engineId: "player-3", name: "Cat", isAI: false },
+];
+
+function buildRecord(overrides: Partial<PlayerGameRecord> = {}): PlayerGameRecord {
+  return {
+    roomId: "room-1",
+    endedAt: "2026-01-01T00:00:00.000Z",
+    name: "Ann",
+    playerCount: 4,
+    roundScores: [0, 25, 10],
+    totalScore: 35,
+    won: true,
+    roundsWon: 1,
+    jokersCaught: 1,
+    mayICalls: 2,
+    ...overrides,
+  };
+}
+
+/** A game where someone other than the current player has called May I */
+function createGameWithMayICall() {
+  const engine = GameEngine.createGame({ playerNames: ["Ann", "Bob", "Bot", "Cat"], seed: "stats" });
+  const current = engine.getSnapshot().awaitingPlayerId;
+  const caller = engine.getSnapshot().players.find((p) => p.id !== current)!;
+  engine.callMayI(caller.id);
+  const journal = engine.getJournal()!;
+  engine.stop();
+  return { journal, callerId: caller.id };
+}
+
+describe("player stats records", () => {
+  it("tallies May I calls by replaying the journal", () => {
+    const { journal, callerId } = createGameWithMayICall();
+
+    const tallies = tallyGameJournal(journal);
+
+    expect(Object.keys(tallies)).toEqual(["player-0", "player-1", "player-2", "player-3"]);
+    expect(tallies[callerId]).toEqual({
+      roundScores: [],
+      roundsWon: 0,
+      jokersCaught: 0,
+      mayICalls: 1,
+    });
+  });
+
+  it("builds records for human seats with a profile only", () => {
+    const { journal } = createGameWithMayICall();
+
+    const records = buildPlayerGameRecords({
+      roomId: "room-1",
+      endedAt: "2026-01-01T00:00:00.000Z",
+      journal,
+      playerMappings: MAPPINGS,
+      profileIds: { h1: "profile-ann", "ai-1": "profile-bot", h3: "profile-cat" },
+    });
+
+    expect(Object.keys(records)).toEqual(["profile-ann", "profile-cat"]);
+    expect(records["profile-cat"]).toMatchObject({
+      roomId: "room-1",
+      name: "Cat",
+      playerCount: 4,
+      totalScore: 0,
+    });
+  });
+
+  it("folds finished games into lifetime stats", () => {
+    let stats = createEmptyPlayerStats();
+    stats = applyGameRecord(stats, buildRecord());
+    stats = applyGameRecord(
+      stats,
+      buildRecord({ roundScores: [50, 40, 15], totalScore: 105, won: false, roundsWon: 0 })
+    );
+
+    expect(buildPlayerStatsSummary(stats)).toMatchObject({
+      gamesPlayed: 2,
+      gamesWon: 1,
+      roundsPlayed: 6,
+      roundsWon: 1,
+      totalPoints: 140,
+      jokersCaught: 2,
+      mayICalls: 4,
+      averagePointsPerRound: 140 / 6,
+    });
+    expect(stats.recentGames[0]?.totalScore).toBe(105);
+  });
+
+  it("keeps only the most recent games", () => {
+    let stats = createEmptyPlayerStats();
+    for (let i = 0; i < MAX_RECENT_GAMES + 5; i++) {
+      stats = applyGameRecord(stats, buildRecord({ roomId: `room-${i}` }));
+    }
+
+    expect(stats.gamesPlayed).toBe(MAX_RECENT_GAMES + 5);
+    expect(stats.recentGames).toHaveLength(MAX_RECENT_GAMES);
+    expect(stats.recentGames[0]?.roomId).toBe(`room-${MAX_RECENT_GAMES + 4}`);
+  });
+
+  it("has no average before any rounds are played", () => {
+    expect(buildPlayerStatsSummary(createEmptyPlayerStats()).averagePointsPerRound).toBeNull();
+  });
+});
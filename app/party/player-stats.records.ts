@@ -0,0 +1,211 @@
+/**
+ * Pure player statistics logic
+ *
+ * This file contains NO Durable Object code so we can unit test it with Bun
+ * without needing a Workers runtime. When a game ends the room turns it into
+ * one record per human seat, and the PlayerStatsStore Durable Object folds
+ * each record into that player's lifetime stats.
+ *
+ * Records are derived by replaying the game's command journal, so they see
+ * every May I call and every hand left at the end of a round, not just what
+ * happened to be in the room's recent activity.
+ */
+
+import { GameEngine } from "../../core/engine/game-engine";
+import { deriveDomainEvents } from "../../core/engine/game-engine.events";
+import type { GameJournal } from "../../core/engine/game-engine.types";
+import type { PlayerMapping } from "./party-game-adapter";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** How many recent games to keep per player */
+export const MAX_RECENT_GAMES = 20;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** What one seat did over a game, keyed by engine player ID */
+export interface SeatTally {
+  /** Points taken in each finished round, in order */
+  roundScores: number[];
+  /** Rounds this seat went out */
+  roundsWon: number;
+  /** Rounds that ended with at least one Joker still in hand */
+  jokersCaught: number;
+  mayICalls: number;
+}
+
+/** One finished game from one player's seat */
+export interface PlayerGameRecord {
+  roomId: string;
+  endedAt: string;
+  /** Display name the player used in that game */
+  name: string;
+  playerCount: number;
+  roundScores: number[];
+  totalScore: number;
+  /** Lowest total score (players tied for lowest all win) */
+  won: boolean;
+  roundsWon: number;
+  jokersCaught: number;
+  mayICalls: number;
+}
+
+/** Lifetime stats stored per player */
+export interface PlayerStats {
+  gamesPlayed: number;
+  gamesWon: number;
+  roundsPlayed: number;
+  roundsWon: number;
+  totalPoints: number;
+  jokersCaught: number;
+  mayICalls: number;
+  /** Newest first, at most MAX_RECENT_GAMES */
+  recentGames: PlayerGameRecord[];
+}
+
+/** Stats as shown on the profile page */
+export interface PlayerStatsSummary extends PlayerStats {
+  averagePointsPerRound: number | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Game Records
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Replay a game's journal and tally what each seat did
+ */
+export function tallyGameJournal(journal: GameJournal): Record<string, SeatTally> {
+  const engine = GameEngine.createGame(journal.options);
+  const tallies: Record<string, SeatTally> = {};
+  for (const player of engine.getSnapshot().players) {
+    tallies[player.id] = { roundScores: [], roundsWon: 0, jokersCaught: 0, mayICalls: 0 };
+  }
+
+  try {
+    for (const entry of journal.entries) {
+      const before = engine.getSnapshot();
+      engine.dispatch(entry.command);
+      const after = engine.getSnapshot();
+
+      for (const event of deriveDomainEvents(before, after, entry.command)) {
+        if (event.type === "MayICalled") {
+          tallies[event.playerId]!.mayICalls += 1;
+        } else if (event.type === "RoundEnded") {
+          tallies[event.winnerId]!.roundsWon += 1;
+          // Hands before the going-out command are what everyone else was left holding
+          for (const player of before.players) {
+            if (player.id === event.winnerId) continue;
+            if (player.hand.some((card) => card.rank === "Joker")) {
+              tallies[player.id]!.jokersCaught += 1;
+            }
+          }
+        }
+      }
+    }
+
+    for (const record of engine.getSnapshot().roundHistory) {
+      for (const [playerId, score] of Object.entries(record.scores)) {
+        tallies[playerId]?.roundScores.push(score);
+      }
+    }
+  } finally {
+    engine.stop();
+  }
+
+  return tallies;
+}
+
+/**
+ * Build a record for each human seat that has a profile
+ *
+ * Returns the records keyed by profile ID. AI seats are skipped.
+ */
+export function buildPlayerGameRecords(args: {
+  roomId: string;
+  endedAt: string;
+  journal: GameJournal;
+  playerMappings: PlayerMapping[];
+  /** Profile ID per lobby player ID */
+  profileIds: Record<string, string>;
+}): Record<string, PlayerGameRecord> {
+  const tallies = tallyGameJournal(args.journal);
+  const totals = Object.values(tallies).map((tally) => sum(tally.roundScores));
+  const lowest = Math.min(...totals);
+
+  const records: Record<string, PlayerGameRecord> = {};
+  for (const mapping of args.playerMappings) {
+    const profileId = args.profileIds[mapping.lobbyId];
+    const tally = tallies[mapping.engineId];
+    if (mapping.isAI || !profileId || !tally) continue;
+
+    const totalScore = sum(tally.roundScores);
+    records[profileId] = {
+      roomId: args.roomId,
+      endedAt: args.endedAt,
+      name: mapping.name,
+      playerCount: args.playerMappings.length,
+      roundScores: tally.roundScores,
+      totalScore,
+      won: totalScore === lowest,
+      roundsWon: tally.roundsWon,
+      jokersCaught: tally.jokersCaught,
+      mayICalls: tally.mayICalls,
+    };
+  }
+  return records;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Lifetime Stats
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Create stats for a player with no finished games
+ */
+export function createEmptyPlayerStats(): PlayerStats {
+  return {
+    gamesPlayed: 0,
+    gamesWon: 0,
+    roundsPlayed: 0,
+    roundsWon: 0,
+    totalPoints: 0,
+    jokersCaught: 0,
+    mayICalls: 0,
+    recentGames: [],
+  };
+}
+
+/**
+ * Fold a finished game into a player's stats
+ */
+export function applyGameRecord(stats: PlayerStats, record: PlayerGameRecord): PlayerStats {
+  return {
+    gamesPlayed: stats.gamesPlayed + 1,
+    gamesWon: stats.gamesWon + (record.won ? 1 : 0),
+    roundsPlayed: stats.roundsPlayed + record.roundScores.length,
+    roundsWon: stats.roundsWon + record.roundsWon,
+    totalPoints: stats.totalPoints + record.totalScore,
+    jokersCaught: stats.jokersCaught + record.jokersCaught,
+    mayICalls: stats.mayICalls + record.mayICalls,
+    recentGames: [record, ...stats.recentGames].slice(0, MAX_RECENT_GAMES),
+  };
+}
+
+/**
+ * Add the derived figures shown on the profile page
+ */
+export function buildPlayerStatsSummary(stats: PlayerStats): PlayerStatsSummary {
+  return {
+    ...stats,
+    averagePointsPerRound: stats.roundsPlayed > 0 ? stats.totalPoints / stats.roundsPlayed : null,
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
@@ -0,0 +1,47 @@
+/**
+ * PlayerStatsStore - one Durable Object per player profile
+ *
+ * Holds a player's lifetime stats across every room they play in. Rooms
+ * record finished games and the profile page reads the stats, both through
+ * RPC on a stub from `env.PlayerStats.idFromName(profileId)`. There is no
+ * HTTP or WebSocket API, so clients can't write stats directly.
+ *
+ * All of the bookkeeping lives in player-stats.records.ts.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import {
+  applyGameRecord,
+  buildPlayerStatsSummary,
+  createEmptyPlayerStats,
+  type PlayerGameRecord,
+  type PlayerStats,
+  type PlayerStatsSummary,
+} from "./player-stats.records";
+
+const STATS_KEY = "stats";
+
+export class PlayerStatsStore extends DurableObject<Env> {
+  /**
+   * Fold a finished game into this player's stats
+   */
+  async recordGame(record: PlayerGameRecord): Promise<void> {
+    const stats = await this.getStoredStats();
+    await this.ctx.storage.put(STATS_KEY, applyGameRecord(stats, record));
+  }
+
+  /**
+   * Get this player's stats for the profile page
+   */
+  async getStats(): Promise<PlayerStatsSummary> {
+    return buildPlayerStatsSummary(await this.getStoredStats());
+  }
+
+  override async fetch(): Promise<Response> {
+    return new Response("Not found", { status: 404 });
+  }
+
+  private async getStoredStats(): Promise<PlayerStats> {
+    return (await this.ctx.storage.get<PlayerStats>(STATS_KEY)) ?? createEmptyPlayerStats();
+  }
+}
@@ -28,6 +28,101 @@ describe("protocol.types", () => {
       }
     });
 
+    it("accepts ADD_AI_PLAYER with a bot difficulty", () => {
+      const result = parseClientMessage({
+        type: "ADD_AI_PLAYER",
+        name: "Robo",
+        modelId: "bot:easy",
+      });
+
+      expect(result.success).toBe(true);
+      const unknown = parseClientMessage({ type: "ADD_AI_PLAYER", name: "Robo", modelId: "bot:wild" });
+      expect(unknown.success).toBe(false);
+    });
+
+    it("accepts SET_TURN_TIMER within range or turned off", () => {
+      const timed = parseClientMessage({
+        type: "SET_TURN_TIMER",
+        turnTimer: { secondsPerTurn: 60, bankSeconds: 180 },
+      });
+      const off = parseClientMessage({ type: "SET_TURN_TIMER", turnTimer: null });
+      const tooShort = parseClientMessage({
+        type: "SET_TURN_TIMER",
+        turnTimer: { secondsPerTurn: 1, bankSeconds: 0 },
+      });
+
+      expect(timed.success).toBe(true);
+      expect(off.success).toBe(true);
+      expect(tooShort.success).toBe(false);
+    });
+
+    it("accepts SET_MATCH with a known format and game count", () => {
+      const bestOf = parseClientMessage({
+        type: "SET_MATCH",
+        match: { format: "best_of", games: 3 },
+      });
+      const single = parseClientMessage({ type: "SET_MATCH", match: null });
+      const unknown = parseClientMessage({
+        type: "SET_MATCH",
+        match: { format: "race_to", games: 3 },
+      });
+
+      expect(bestOf.success).toBe(true);
+      expect(single.success).toBe(true);
+      expect(unknown.success).toBe(false);
+    });
+
+    it("accepts SPECTATE", () => {
+      const result = parseClientMessage({ type: "SPECTATE" });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(isLobbyPhaseMessage(result.data)).toBe(true);
+      }
+    });
+
+    it("accepts seat takeover messages as game phase messages", () => {
+      const handOver = parseClientMessage({
+        type: "HAND_SEAT_TO_AI",
+        playerId: "human-1",
+        modelId: "bot:medium",
+      });
+      const claim = parseClientMessage({ type: "CLAIM_SEAT", playerId: "ai-1" });
+      const unknownModel = parseClientMessage({
+        type: "HAND_SEAT_TO_AI",
+        playerId: "human-1",
+        modelId: "bot:impossible",
+      });
+
+      expect(handOver.success).toBe(true);
+      expect(claim.success).toBe(true);
+      expect(unknownModel.success).toBe(false);
+      if (handOver.success && claim.success) {
+        expect(isGamePhaseMessage(handOver.data)).toBe(true);
+        expect(isGamePhaseMessage(claim.data)).toBe(true);
+      }
+    });
+
+    it("accepts a rematch with a starting round as a game phase message", () => {
+      const rematch = parseClientMessage({ type: "REMATCH", startingRound: 3 });
+      const noRound = parseClientMessage({ type: "REMATCH", startingRound: 0 });
+
+      expect(rematch.success).toBe(true);
+      expect(noRound.success).toBe(false);
+      if (rematch.success) {
+        expect(isGamePhaseMessage(rematch.data)).toBe(true);
+      }
+    });
+
+    it("requires a seat token on game actions", () => {
+      const unsigned = parseClientMessage({
+        type: "GAME_ACTION",
+        action: { type: "DRAW_FROM_STOCK" },
+      });
+
+      expect(unsigned.success).toBe(false);
+    });
+
     it("rejects an invalid message payload", () => {
       const result = parseClientMessage({ type: "JOIN", playerId: "" });
 
@@ -54,6 +149,7 @@ describe("protocol.types", () => {
       const action: ClientMessage = {
         type: "GAME_ACTION",
         action: { type: "DRAW_FROM_STOCK" },
+        seatToken: "seat-token",
       };
 
       expect(isGamePhaseMessage(action)).toBe(true);
@@ -8,17 +8,23 @@
 import { z } from "zod";
 import type { Card } from "../../core/card/card.types";
 import type { Meld } from "../../core/meld/meld.types";
-import type { PlayerView, MeldSpec } from "../../core/engine/game-engine.types";
+import type { PlayerView, MeldSpec, SpectatorView } from "../../core/engine/game-engine.types";
 import type { RoundSummaryPayload } from "./round-summary.types";
 import type { RoundNumber } from "../../core/engine/engine.types";
 import type { Contract } from "../../core/engine/contracts";
 import type { AgentTestState } from "./agent-state.types";
 import { agentTestStateSchema } from "./agent-state.validation";
-import { AI_MODEL_DISPLAY_NAMES, AI_MODEL_IDS, type AIModelId } from "./ai-models";
+import { AI_MODEL_DISPLAY_NAMES, AI_MODEL_IDS, isBotModelId, type AIModelId } from "./ai-models";
 import { agentSetupMessageSchema } from "./agent-harness.types";
+import {
+  MAX_BANK_SECONDS,
+  MAX_SECONDS_PER_TURN,
+  MIN_SECONDS_PER_TURN,
+} from "./mayi-room.turn-clock";
+import { MATCH_FORMATS, MAX_MATCH_GAMES, MIN_MATCH_GAMES } from "./mayi-room.match";
 
 // Re-export types needed by clients
-export type { PlayerView } from "../../core/engine/game-engine.types";
+export type { PlayerView, SpectatorView } from "../../core/engine/game-engine.types";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Activity Log Types
@@ -52,7 +58,7 @@ export interface ActivityLogEntry {
 // AI Player Types
 // ═══════════════════════════════════════════════════════════════════════════
 
-export { AI_MODEL_IDS, AI_MODEL_DISPLAY_NAMES };
+export { AI_MODEL_IDS, AI_MODEL_DISPLAY_NAMES, isBotModelId };
 export type { AIModelId };
 
 /** AI player information */
@@ -77,14 +83,54 @@ export interface HumanPlayerInfo {
   disconnectedAt: number | null;
 }
 
+/** Per-turn clock for human players */
+export interface TurnTimerSettings {
+  /** Time for each turn or May I answer before the bank starts draining */
+  secondsPerTurn: number;
+  /** Extra time each player can spend across the whole game */
+  bankSeconds: number;
+}
+
+/** Play several games in a row with the same seats */
+export interface MatchSettings {
+  /** best_of = first to win a majority of games; fixed = play every game */
+  format: (typeof MATCH_FORMATS)[number];
+  games: number;
+}
+
 /** Full lobby state sent to clients */
 export interface LobbyStatePayload {
   players: HumanPlayerInfo[];
   aiPlayers: AIPlayerInfo[];
   startingRound: RoundNumber;
+  contracts: Contract[];
+  /** null = no turn clock */
+  turnTimer: TurnTimerSettings | null;
+  /** null = a single game */
+  match: MatchSettings | null;
+  /** Skill rating per lobby player ID (unrated players are left out) */
+  ratings: Record<string, number>;
+  /** Connections watching without a seat (not counted as players) */
+  spectatorCount: number;
+  /** Seats of the game in progress, in seat order (empty outside a game) */
+  seats: GameSeatInfo[];
   canStart: boolean;
 }
 
+/** Who is playing a seat of the game in progress */
+export interface GameSeatInfo {
+  /** Lobby ID holding the seat (changes when the seat is taken over) */
+  playerId: string;
+  /** Seat name (kept through takeovers) */
+  name: string;
+  avatarId?: string;
+  isAI: boolean;
+  /** AI seats only */
+  modelId?: AIModelId;
+  /** False once a human disconnects or leaves the room (always true for AI) */
+  isConnected: boolean;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Client → Server Messages
 // ═══════════════════════════════════════════════════════════════════════════
@@ -95,6 +141,15 @@ export const joinMessageSchema = z.object({
   playerId: z.string().min(1).max(64),
   playerName: z.string().min(1).max(24),
   avatarId: z.string().max(32).optional(),
+  /** Profile token from an earlier JOINED, keeps stats across rooms */
+  profileToken: z.string().min(1).max(128).optional(),
+  /** Token from JOINED, required once the player ID has joined the room */
+  seatToken: z.string().max(128).optional(),
+});
+
+// Watch the room without taking a seat
+export const spectateMessageSchema = z.object({
+  type: z.literal("SPECTATE"),
 });
 
 export const addAIPlayerSchema = z.object({
@@ -111,13 +166,69 @@ export const removeAIPlayerSchema = z.object({
 
 export const setStartingRoundSchema = z.object({
   type: z.literal("SET_STARTING_ROUND"),
-  round: z.number().int().min(1).max(6),
+  round: z.number().int().min(1),
+});
+
+export const contractSpecSchema = z.object({
+  sets: z.number().int().min(0).max(8),
+  runs: z.number().int().min(0).max(8),
+  cardsDealt: z.number().int().min(1).max(20).optional(),
+  mustUseAllCards: z.boolean().optional(),
+});
+
+export const setContractsSchema = z.object({
+  type: z.literal("SET_CONTRACTS"),
+  contracts: z.array(contractSpecSchema).min(1).max(12),
+});
+
+export const setTurnTimerSchema = z.object({
+  type: z.literal("SET_TURN_TIMER"),
+  turnTimer: z
+    .object({
+      secondsPerTurn: z.number().int().min(MIN_SECONDS_PER_TURN).max(MAX_SECONDS_PER_TURN),
+      bankSeconds: z.number().int().min(0).max(MAX_BANK_SECONDS),
+    })
+    .nullable(),
+});
+
+export const setMatchSchema = z.object({
+  type: z.literal("SET_MATCH"),
+  match: z
+    .object({
+      format: z.enum(MATCH_FORMATS),
+      games: z.number().int().min(MIN_MATCH_GAMES).max(MAX_MATCH_GAMES),
+    })
+    .nullable(),
 });
 
 export const startGameSchema = z.object({
   type: z.literal("START_GAME"),
 });
 
+// Start the next game of a match once the current one has ended
+export const startNextGameSchema = z.object({
+  type: z.literal("START_NEXT_GAME"),
+});
+
+// Play another game with the same seats once the game (or match) has ended
+export const rematchSchema = z.object({
+  type: z.literal("REMATCH"),
+  startingRound: z.number().int().min(1),
+});
+
+// Let an AI play a disconnected or departed human's seat mid-game
+export const handSeatToAISchema = z.object({
+  type: z.literal("HAND_SEAT_TO_AI"),
+  playerId: z.string().min(1),
+  modelId: z.enum(AI_MODEL_IDS),
+});
+
+// Take over an AI seat mid-game (a new player, or a human whose seat an AI took)
+export const claimSeatSchema = z.object({
+  type: z.literal("CLAIM_SEAT"),
+  playerId: z.string().min(1),
+});
+
 // Agent testing message for state injection
 export const injectStateMessageSchema = z.object({
   type: z.literal("INJECT_STATE"),
@@ -155,6 +266,8 @@ export const gameActionSchema = z.discriminatedUnion("type", [
 export const gameActionMessageSchema = z.object({
   type: z.literal("GAME_ACTION"),
   action: gameActionSchema,
+  /** Token from JOINED, proving the connection owns its seat */
+  seatToken: z.string().min(1).max(128),
 });
 
 // Combined client message schema
@@ -165,10 +278,18 @@ export const pingMessageSchema = z.object({
 
 export const clientMessageSchema = z.discriminatedUnion("type", [
   joinMessageSchema,
+  spectateMessageSchema,
   addAIPlayerSchema,
   removeAIPlayerSchema,
   setStartingRoundSchema,
+  setContractsSchema,
+  setTurnTimerSchema,
+  setMatchSchema,
   startGameSchema,
+  startNextGameSchema,
+  rematchSchema,
+  handSeatToAISchema,
+  claimSeatSchema,
   gameActionMessageSchema,
   pingMessageSchema,
   injectStateMessageSchema,
@@ -177,10 +298,18 @@ export const clientMessageSchema = z.discriminatedUnion("type", [
 
 // TypeScript types derived from Zod schemas
 export type JoinMessage = z.infer<typeof joinMessageSchema>;
+export type SpectateMessage = z.infer<typeof spectateMessageSchema>;
 export type AddAIPlayerMessage = z.infer<typeof addAIPlayerSchema>;
 export type RemoveAIPlayerMessage = z.infer<typeof removeAIPlayerSchema>;
 export type SetStartingRoundMessage = z.infer<typeof setStartingRoundSchema>;
+export type SetContractsMessage = z.infer<typeof setContractsSchema>;
+export type SetTurnTimerMessage = z.infer<typeof setTurnTimerSchema>;
+export type SetMatchMessage = z.infer<typeof setMatchSchema>;
 export type StartGameMessage = z.infer<typeof startGameSchema>;
+export type StartNextGameMessage = z.infer<typeof startNextGameSchema>;
+export type RematchMessage = z.infer<typeof rematchSchema>;
+export type HandSeatToAIMessage = z.infer<typeof handSeatToAISchema>;
+export type ClaimSeatMessage = z.infer<typeof claimSeatSchema>;
 export type InjectStateMessage = z.infer<typeof injectStateMessageSchema>;
 export type AgentSetupMessage = z.infer<typeof agentSetupSchema>;
 export type GameActionMessage = z.infer<typeof gameActionMessageSchema>;
@@ -202,6 +331,15 @@ export interface JoinedMessage {
   type: "JOINED";
   playerId: string;
   playerName: string;
+  /** Present on later JOINs and every GAME_ACTION (see seat-token.ts) */
+  seatToken: string;
+  /** Server-issued profile for stats and ratings, presented on later JOINs */
+  profileToken: string;
+}
+
+/** Sent to a connection once it is watching as a spectator */
+export interface SpectatingMessage {
+  type: "SPECTATING";
 }
 
 export interface PlayersMessage {
@@ -254,6 +392,29 @@ export interface GameStateMessage {
   activityLog: ActivityLogEntry[];
 }
 
+/** Sent to spectators in place of GAME_STARTED and GAME_STATE */
+export interface SpectatorStateMessage {
+  type: "SPECTATOR_STATE";
+  state: SpectatorView;
+  activityLog: ActivityLogEntry[];
+}
+
+/** The human player on the clock, as durations from when the message was sent */
+export interface TurnClockPayload {
+  /** Engine ID of the player on the clock (as used in PlayerView) */
+  playerId: string;
+  /** Per-turn time left (0 once the bank is draining) */
+  turnRemainingMs: number;
+  /** Bank left after the per-turn time runs out */
+  bankRemainingMs: number;
+}
+
+/** Sent whenever the turn clock starts, moves to another player or stops */
+export interface TurnClockMessage {
+  type: "TURN_CLOCK";
+  clock: TurnClockPayload | null;
+}
+
 export interface AIThinkingMessage {
   type: "AI_THINKING";
   playerId: string;
@@ -302,12 +463,47 @@ export interface RoundEndedMessage {
   summary: RoundSummaryPayload;
 }
 
+/** A player's cumulative result across the games of a match */
+export interface MatchStanding {
+  playerId: string;
+  name: string;
+  totalScore: number;
+  gamesWon: number;
+}
+
+/** Match progress sent with GAME_ENDED */
+export interface MatchSummaryPayload {
+  format: MatchSettings["format"];
+  games: number;
+  gamesPlayed: number;
+  /** Leader first */
+  standings: MatchStanding[];
+  isOver: boolean;
+  /** null while the match continues or if the leaders finished level */
+  winnerId: string | null;
+}
+
+/** A finished game kept in the room's history */
+export interface RoomGameSummary {
+  /** 1-based count of games played in the room, including ones dropped from the history */
+  gameNumber: number;
+  finalScores: Record<string, number>;
+  winnerId: string;
+  /** Map of lobby player IDs to display names */
+  playerNames: Record<string, string>;
+  endedAt: string;
+}
+
 export interface GameEndedMessage {
   type: "GAME_ENDED";
   finalScores: Record<string, number>;
   winnerId: string;
   /** Map of lobby player IDs to display names */
   playerNames: Record<string, string>;
+  /** Present when the game is part of a match */
+  match?: MatchSummaryPayload;
+  /** Earlier games played in this room, oldest first */
+  history?: RoomGameSummary[];
 }
 
 export interface AgentSetupResultMessage {
@@ -321,6 +517,7 @@ export interface AgentSetupResultMessage {
 export type ServerMessage =
   | ConnectedMessage
   | JoinedMessage
+  | SpectatingMessage
   | PlayersMessage
   | ErrorMessage
   | PongMessage
@@ -330,6 +527,8 @@ export type ServerMessage =
   | StartingRoundChangedMessage
   | GameStartedMessage
   | GameStateMessage
+  | SpectatorStateMessage
+  | TurnClockMessage
   | AIThinkingMessage
   | AIDoneMessage
   | MayIPromptMessage
@@ -366,9 +565,13 @@ export function parseClientMessage(
 export function isLobbyPhaseMessage(msg: ClientMessage): boolean {
   return (
     msg.type === "JOIN" ||
+    msg.type === "SPECTATE" ||
     msg.type === "ADD_AI_PLAYER" ||
     msg.type === "REMOVE_AI_PLAYER" ||
     msg.type === "SET_STARTING_ROUND" ||
+    msg.type === "SET_CONTRACTS" ||
+    msg.type === "SET_TURN_TIMER" ||
+    msg.type === "SET_MATCH" ||
     msg.type === "START_GAME" ||
     msg.type === "INJECT_STATE" ||
     msg.type === "AGENT_SETUP"
@@ -379,7 +582,13 @@ export function isLobbyPhaseMessage(msg: ClientMessage): boolean {
  * Type guard for game phase messages
  */
 export function isGamePhaseMessage(msg: ClientMessage): boolean {
-  return msg.type === "GAME_ACTION";
+  return (
+    msg.type === "GAME_ACTION" ||
+    msg.type === "START_NEXT_GAME" ||
+    msg.type === "REMATCH" ||
+    msg.type === "HAND_SEAT_TO_AI" ||
+    msg.type === "CLAIM_SEAT"
+  );
 }
 
 /**
@@ -4,6 +4,8 @@ import type { GameSnapshot } from "../../core/engine/game-engine.types";
 import type { PlayerMapping } from "./party-game-adapter";
 import type { Card, Rank, Suit } from "../../core/card/card.types";
 import type { Meld } from "../../core/meld/meld.types";
+import { DEFAULT_RULE_SET } from "../../core/engine/house-rules";
+import { DEFAULT_CONTRACTS } from "../../core/engine/contracts";
 
 // Rank mapping for test convenience
 const rankMap: Record<number, Rank> = {
@@ -42,7 +44,11 @@ function createTestSnapshot(overrides: Partial<GameSnapshot>): GameSnapshot {
     lastDiscardedByPlayerId: null,
     discardClaimed: false,
     currentRound: 1,
-    contract: { roundNumber: 1, sets: 2, runs: 0 },
+    contract: { roundNumber: 1, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: false },
+    contracts: DEFAULT_CONTRACTS,
+    seed: null,
+    roundSeed: null,
+    rules: DEFAULT_RULE_SET,
     players: [],
     dealerIndex: 0,
     currentPlayerIndex: 0,
@@ -50,6 +56,7 @@ function createTestSnapshot(overrides: Partial<GameSnapshot>): GameSnapshot {
     stock: [],
     discard: [],
     table: [],
+    discardHistory: [],
     hasDrawn: false,
     laidDownThisTurn: false,
     tookActionThisTurn: false,
@@ -138,7 +145,7 @@ describe("captureRoundSummary", () => {
     const snapshot = createTestSnapshot({
       currentRound: 2,
       turnNumber: 8,
-      contract: { roundNumber: 2, sets: 1, runs: 1 },
+      contract: { roundNumber: 2, sets: 1, runs: 1, cardsDealt: 11, mustUseAllCards: false },
       players: [
         { id: "player-0", name: "P1", hand: [], isDown: true, totalScore: 0 },
         { id: "player-1", name: "P2", hand: [mockCard("x1", 5, "hearts")], isDown: true, totalScore: 20 },
@@ -162,7 +169,7 @@ describe("captureRoundSummary", () => {
     const snapshot = createTestSnapshot({
       currentRound: 3,
       turnNumber: 10,
-      contract: { roundNumber: 3, sets: 0, runs: 2 },
+      contract: { roundNumber: 3, sets: 0, runs: 2, cardsDealt: 11, mustUseAllCards: false },
       table: [
         mockMeld("m1", "player-0", [mockCard("a1", 4, "hearts"), mockCard("a2", 4, "spades"), mockCard("a3", 4, "diamonds")], "set"),
         mockMeld("m2", "player-0", [mockCard("b1", 6, "clubs"), mockCard("b2", 7, "clubs"), mockCard("b3", 8, "clubs")], "run"),
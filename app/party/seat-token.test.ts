@@ -0,0 +1,74 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+  createProfileId,
+  createProfileToken,
+  createSeatToken,
+  DEV_SEAT_TOKEN_SECRET,
+  getSeatTokenSecret,
+  readProfileToken,
+  seatTokensMatch,
+} from "./seat-token";
+
+describe("seat tokens", () => {
+  it("signs the same room and player to the same URL-safe token", async () => {
+    const token = await createSeatToken("secret", "room-1", "player-a");
+
+    expect(await createSeatToken("secret", "room-1", "player-a")).toBe(token);
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+
+  it("gives a different token per room, player and secret", async () => {
+    const token = await createSeatToken("secret", "room-1", "player-a");
+
+    expect(await createSeatToken("secret", "room-2", "player-a")).not.toBe(token);
+    expect(await createSeatToken("secret", "room-1", "player-b")).not.toBe(token);
+    expect(await createSeatToken("other", "room-1", "player-a")).not.toBe(token);
+  });
+
+  it("matches only the exact token", async () => {
+    const token = await createSeatToken("secret", "room-1", "player-a");
+    const tampered = `${token.slice(0, -1)}${token.endsWith("A") ? "B" : "A"}`;
+
+    expect(seatTokensMatch(token, token)).toBe(true);
+    expect(seatTokensMatch(tampered, token)).toBe(false);
+    expect(seatTokensMatch(token.slice(1), token)).toBe(false);
+    expect(seatTokensMatch(undefined, token)).toBe(false);
+  });
+
+  it("falls back to the dev secret in local dev only", () => {
+    expect(getSeatTokenSecret({ SEAT_TOKEN_SECRET: "prod" }, false)).toBe("prod");
+    expect(getSeatTokenSecret({}, true)).toBe(DEV_SEAT_TOKEN_SECRET);
+    expect(getSeatTokenSecret({ SEAT_TOKEN_SECRET: "" }, true)).toBe(DEV_SEAT_TOKEN_SECRET);
+  });
+
+  it("has no secret outside local dev when none is configured", () => {
+    expect(getSeatTokenSecret({}, false)).toBeNull();
+    expect(getSeatTokenSecret({ SEAT_TOKEN_SECRET: "" }, false)).toBeNull();
+  });
+
+  it("reads the profile ID back from a profile token", async () => {
+    const profileId = createProfileId();
+    const token = await createProfileToken("secret", profileId);
+
+    expect(token.startsWith(`${profileId}.`)).toBe(true);
+    expect(await readProfileToken("secret", token)).toBe(profileId);
+  });
+
+  it("rejects profile tokens that weren't signed for that profile", async () => {
+    const token = await createProfileToken("secret", "victim-profile");
+    const signature = token.slice(token.indexOf(".") + 1);
+
+    expect(await readProfileToken("other", token)).toBeNull();
+    expect(await readProfileToken("secret", `mallory-profile.${signature}`)).toBeNull();
+    expect(await readProfileToken("secret", "victim-profile")).toBeNull();
+    expect(await readProfileToken("secret", `.${signature}`)).toBeNull();
+  });
+
+  it("never signs a profile the same as a seat", async () => {
+    const seat = await createSeatToken("secret", "profile", "abc");
+    const profile = await createProfileToken("secret", "abc");
+
+    expect(profile.endsWith(seat)).toBe(false);
+  });
+});
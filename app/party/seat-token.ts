@@ -0,0 +1,102 @@
+/**
+ * Signed seat and profile tokens: proof that a connection owns a lobby player
+ * ID, and a browser owns its cross-room profile
+ *
+ * Player IDs are generated by the browser, so anyone who learns one could
+ * otherwise JOIN as that player and see their hand. On a player's first JOIN
+ * the room issues an HMAC of the room and player ID; after that, JOINs and
+ * GAME_ACTIONs for the ID must present the same token.
+ *
+ * Profile IDs key lifetime stats and skill ratings, so they are minted by the
+ * server and handed out as signed profile tokens ("<profileId>.<signature>").
+ * A JOIN can only claim a profile by presenting its token.
+ *
+ * Tokens are deterministic, so the room never has to store them. The secret
+ * comes from the SEAT_TOKEN_SECRET Worker secret. Only local dev may fall back
+ * to a fixed default; elsewhere a missing secret means no tokens at all, so
+ * seats can't be joined rather than being forgeable.
+ */
+
+import { nanoid } from "nanoid";
+
+/** Used when SEAT_TOKEN_SECRET isn't set (local dev only) */
+export const DEV_SEAT_TOKEN_SECRET = "mayi-local-dev-seat-token-secret";
+
+/**
+ * Get the signing secret, or null when none is configured outside local dev
+ */
+export function getSeatTokenSecret(
+  env: { SEAT_TOKEN_SECRET?: string },
+  isLocalDev: boolean
+): string | null {
+  if (env.SEAT_TOKEN_SECRET) return env.SEAT_TOKEN_SECRET;
+  return isLocalDev ? DEV_SEAT_TOKEN_SECRET : null;
+}
+
+/**
+ * Sign a player ID for a room (HMAC-SHA256, base64url)
+ */
+export async function createSeatToken(
+  secret: string,
+  roomId: string,
+  playerId: string
+): Promise<string> {
+  return await sign(secret, `seat:${roomId}:${playerId}`);
+}
+
+/**
+ * Create a new profile ID (only ever done by the server)
+ */
+export function createProfileId(): string {
+  return nanoid(16);
+}
+
+/**
+ * Sign a profile ID into the token the browser keeps
+ */
+export async function createProfileToken(secret: string, profileId: string): Promise<string> {
+  return `${profileId}.${await sign(secret, `profile:${profileId}`)}`;
+}
+
+/**
+ * Get the profile ID from a profile token, or null if the signature is wrong
+ */
+export async function readProfileToken(secret: string, token: string): Promise<string | null> {
+  const dotIndex = token.lastIndexOf(".");
+  if (dotIndex <= 0) return null;
+
+  const profileId = token.slice(0, dotIndex);
+  const expected = await createProfileToken(secret, profileId);
+  return seatTokensMatch(token, expected) ? profileId : null;
+}
+
+/**
+ * Compare a presented token with the expected one in constant time
+ */
+export function seatTokensMatch(presented: string | undefined, expected: string): boolean {
+  if (presented === undefined || presented.length !== expected.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= presented.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/** HMAC-SHA256 of the data, base64url without padding */
+async function sign(secret: string, data: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(data));
+
+  return btoa(String.fromCharCode(...new Uint8Array(signature)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
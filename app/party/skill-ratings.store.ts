@@ -0,0 +1,66 @@
+/**
+ * SkillRatingsStore - a single Durable Object holding every skill rating
+ *
+ * A rating update needs everyone at the table, so all ratings live in one
+ * object (`env.SkillRatings.idFromName(SKILL_RATINGS_NAME)`) and each game is
+ * applied in one go. Rooms and routes use it through RPC only.
+ *
+ * All of the rating math lives in skill-ratings.ts.
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import {
+  applyGameToRatings,
+  sortRatings,
+  type RatingEntry,
+  type RatingParticipant,
+} from "./skill-ratings";
+
+/** Name of the one SkillRatingsStore instance */
+export const SKILL_RATINGS_NAME = "global";
+
+const RATING_KEY_PREFIX = "rating:";
+
+export class SkillRatingsStore extends DurableObject<Env> {
+  /**
+   * Apply a finished game to its participants' ratings
+   */
+  async recordGame(participants: RatingParticipant[]): Promise<void> {
+    const current = await this.getRatings(participants.map((p) => p.key));
+    const updated = applyGameToRatings(current, participants);
+
+    const entries: Record<string, RatingEntry> = {};
+    for (const entry of Object.values(updated)) {
+      entries[RATING_KEY_PREFIX + entry.key] = entry;
+    }
+    await this.ctx.storage.put(entries);
+  }
+
+  /**
+   * Get the ratings for the given keys (unrated keys are left out)
+   */
+  async getRatings(keys: string[]): Promise<Record<string, RatingEntry>> {
+    if (keys.length === 0) return {};
+
+    const stored = await this.ctx.storage.get<RatingEntry>(
+      [...new Set(keys)].map((key) => RATING_KEY_PREFIX + key)
+    );
+    const ratings: Record<string, RatingEntry> = {};
+    for (const entry of stored.values()) {
+      ratings[entry.key] = entry;
+    }
+    return ratings;
+  }
+
+  /**
+   * Get every rating, best first
+   */
+  async getLeaderboard(): Promise<RatingEntry[]> {
+    const stored = await this.ctx.storage.list<RatingEntry>({ prefix: RATING_KEY_PREFIX });
+    return sortRatings([...stored.values()]);
+  }
+
+  override async fetch(): Promise<Response> {
+    return new Response("Not found", { status: 404 });
+  }
+}
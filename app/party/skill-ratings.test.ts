@@ -0,0 +1,86 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+  applyGameToRatings,
+  buildRatingParticipants,
+  getExpectedResult,
+  INITIAL_RATING,
+  sortRatings,
+  type RatingEntry,
+  type RatingParticipant,
+} from "./skill-ratings";
+import type { PlayerMapping } from "./party-game-adapter";
+
+function seat(key: string, score: number, isAI = false): RatingParticipant {
+  return { key, name: key, isAI, score };
+}
+
+function entry(key: string, rating: number, games = 10): RatingEntry {
+  return { key, name: key, isAI: false, rating, games };
+}
+
+describe("skill ratings", () => {
+  it("rates seats by profile or model and skips anonymous humans", () => {
+    const mappings: PlayerMapping[] = [
+      { lobbyId: "h1", engineId: "player-0", name: "Ann", isAI: false },
+      { lobbyId: "h2", engineId: "player-1", name: "Bob", isAI: false },
+      { lobbyId: "ai-1", engineId: "player-2", name: "Gus", isAI: true, aiModelId: "default:grok" },
+    ];
+
+    const participants = buildRatingParticipants({
+      playerMappings: mappings,
+      finalScores: { h1: 40, h2: 90, "ai-1": 120 },
+      profileIds: { h1: "abc" },
+    });
+
+    expect(participants).toEqual([
+      { key: "profile:abc", name: "Ann", isAI: false, score: 40 },
+      { key: "model:default:grok", name: "Grok", isAI: true, score: 120 },
+    ]);
+  });
+
+  it("moves equal newcomers apart by placement and conserves points", () => {
+    const updated = applyGameToRatings({}, [seat("a", 10), seat("b", 50), seat("c", 90)]);
+
+    expect(updated.a!.rating).toBeCloseTo(INITIAL_RATING + 16);
+    expect(updated.b!.rating).toBeCloseTo(INITIAL_RATING);
+    expect(updated.c!.rating).toBeCloseTo(INITIAL_RATING - 16);
+    expect(updated.a!.games).toBe(1);
+  });
+
+  it("treats equal scores as draws", () => {
+    const updated = applyGameToRatings({}, [seat("a", 30), seat("b", 30)]);
+
+    expect(updated.a!.rating).toBe(INITIAL_RATING);
+    expect(updated.b!.rating).toBe(INITIAL_RATING);
+  });
+
+  it("rewards an upset more than an expected win", () => {
+    const current = { strong: entry("strong", 1700), weak: entry("weak", 1300) };
+
+    const expected = applyGameToRatings(current, [seat("strong", 10), seat("weak", 90)]);
+    const upset = applyGameToRatings(current, [seat("strong", 90), seat("weak", 10)]);
+
+    expect(getExpectedResult(1700, 1300)).toBeGreaterThan(0.9);
+    expect(upset.weak!.rating - 1300).toBeGreaterThan(expected.strong!.rating - 1700);
+  });
+
+  it("combines seats of the same model into one game", () => {
+    const updated = applyGameToRatings({}, [
+      seat("model:bot:hard", 10, true),
+      seat("model:bot:hard", 20, true),
+      seat("p", 90),
+    ]);
+
+    expect(Object.keys(updated)).toEqual(["model:bot:hard", "p"]);
+    expect(updated["model:bot:hard"]!.games).toBe(1);
+    expect(updated["model:bot:hard"]!.rating).toBeCloseTo(INITIAL_RATING + 16);
+    expect(updated.p!.rating).toBeCloseTo(INITIAL_RATING - 16);
+  });
+
+  it("sorts best rating first", () => {
+    const sorted = sortRatings([entry("a", 1450), entry("b", 1620), entry("c", 1500)]);
+
+    expect(sorted.map((e) => e.key)).toEqual(["b", "c", "a"]);
+  });
+});
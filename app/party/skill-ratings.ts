@@ -0,0 +1,160 @@
+/**
+ * Pure skill rating logic (multiplayer Elo)
+ *
+ * This file contains NO Durable Object code so we can unit test it with Bun
+ * without needing a Workers runtime. The SkillRatingsStore Durable Object
+ * keeps every rating and applies each finished game here.
+ *
+ * A game with N seats is scored as N(N-1)/2 head-to-head results: a lower
+ * final score beats a higher one, equal scores draw. Each seat moves by
+ * K / (N - 1) times the sum of (result - expected) over its opponents, so a
+ * game is worth about as much as one two-player Elo game however many play.
+ *
+ * Humans are rated by profile ID. Every AI model ID (LLM or bot difficulty)
+ * has one shared rating, so seats of the same model never play themselves.
+ */
+
+import type { PlayerMapping } from "./party-game-adapter";
+import { AI_MODEL_DISPLAY_NAMES, type AIModelId } from "./ai-models";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const INITIAL_RATING = 1500;
+export const RATING_K_FACTOR = 32;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Stored rating for one human or AI model */
+export interface RatingEntry {
+  key: string;
+  /** Latest display name (player name or model name) */
+  name: string;
+  isAI: boolean;
+  rating: number;
+  games: number;
+}
+
+/** One seat's result in a finished game */
+export interface RatingParticipant {
+  key: string;
+  name: string;
+  isAI: boolean;
+  /** Final score (lower is better) */
+  score: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Keys
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function getHumanRatingKey(profileId: string): string {
+  return `profile:${profileId}`;
+}
+
+export function getModelRatingKey(modelId: string): string {
+  return `model:${modelId}`;
+}
+
+/**
+ * Get the rating key for a seat, or null for humans without a profile
+ */
+export function getSeatRatingKey(
+  mapping: PlayerMapping,
+  profileIds: Record<string, string>
+): string | null {
+  if (mapping.isAI) {
+    return mapping.aiModelId ? getModelRatingKey(mapping.aiModelId) : null;
+  }
+  const profileId = profileIds[mapping.lobbyId];
+  return profileId ? getHumanRatingKey(profileId) : null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Ratings
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Build the rated seats of a finished game
+ *
+ * Seats without a rating key are left out and don't affect anyone's rating.
+ */
+export function buildRatingParticipants(args: {
+  playerMappings: PlayerMapping[];
+  /** Final score per lobby player ID */
+  finalScores: Record<string, number>;
+  /** Profile ID per lobby player ID */
+  profileIds: Record<string, string>;
+}): RatingParticipant[] {
+  const participants: RatingParticipant[] = [];
+  for (const mapping of args.playerMappings) {
+    const key = getSeatRatingKey(mapping, args.profileIds);
+    const score = args.finalScores[mapping.lobbyId];
+    if (!key || score === undefined) continue;
+
+    participants.push({
+      key,
+      name: mapping.aiModelId
+        ? (AI_MODEL_DISPLAY_NAMES[mapping.aiModelId as AIModelId] ?? mapping.name)
+        : mapping.name,
+      isAI: mapping.isAI,
+      score,
+    });
+  }
+  return participants;
+}
+
+/**
+ * Chance that a player rated `rating` beats one rated `opponentRating`
+ */
+export function getExpectedResult(rating: number, opponentRating: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+/**
+ * Apply a finished game and return the updated entries for its participants
+ *
+ * Everyone is rated against the ratings from before the game. Seats sharing
+ * a key (two bots of the same model) add their changes together and count
+ * as one game.
+ */
+export function applyGameToRatings(
+  current: Record<string, RatingEntry>,
+  participants: RatingParticipant[]
+): Record<string, RatingEntry> {
+  const before = (key: string) => current[key]?.rating ?? INITIAL_RATING;
+  const seatCount = participants.length;
+  const updated: Record<string, RatingEntry> = {};
+
+  for (const seat of participants) {
+    const entry = updated[seat.key] ?? {
+      key: seat.key,
+      name: seat.name,
+      isAI: seat.isAI,
+      rating: before(seat.key),
+      games: (current[seat.key]?.games ?? 0) + 1,
+    };
+
+    let delta = 0;
+    for (const opponent of participants) {
+      if (opponent.key === seat.key) continue;
+      const result = seat.score < opponent.score ? 1 : seat.score === opponent.score ? 0.5 : 0;
+      delta += result - getExpectedResult(before(seat.key), before(opponent.key));
+    }
+
+    entry.rating += seatCount > 1 ? (RATING_K_FACTOR / (seatCount - 1)) * delta : 0;
+    updated[seat.key] = entry;
+  }
+
+  return updated;
+}
+
+/**
+ * Sort ratings best first
+ */
+export function sortRatings(entries: RatingEntry[]): RatingEntry[] {
+  return [...entries].sort((a, b) => b.rating - a.rating || b.games - a.games);
+}
@@ -6,5 +6,8 @@ export default [
   route("game/agent/new", "routes/game.agent.new.tsx"),
   route("game/agent/state/:state", "routes/game.agent.state.$state.tsx"),
   route("game/:roomId", "routes/game.$roomId.tsx"),
+  route("game/:roomId/table", "routes/game.$roomId.table.tsx"),
+  route("stats", "routes/stats.tsx"),
+  route("ratings", "routes/ratings.tsx"),
   route("storybook/*", "storybook/StorybookLayout.tsx"),
 ] satisfies RouteConfig;
@@ -0,0 +1,136 @@
+import type { Route } from "./+types/game.$roomId.table";
+import { useEffect, useMemo, useState } from "react";
+import { Tv } from "lucide-react";
+import { TableTvView } from "~/ui/table-tv/TableTvView";
+import { RoundSummaryDialog } from "~/ui/round-summary/RoundSummaryDialog";
+import { GameEndScreen } from "~/ui/game-transitions/GameEndScreen";
+import { ConnectionBanner } from "~/ui/connection-status/ConnectionBanner";
+import { useSpectatorRoom } from "~/hooks/useSpectatorRoom";
+
+export function meta({ params }: Route.MetaArgs) {
+  return [{ title: params.roomId ? `Table: ${params.roomId}` : "Table" }];
+}
+
+export async function loader({ params }: Route.LoaderArgs) {
+  if (!params.roomId) {
+    throw new Response("Missing roomId", { status: 404 });
+  }
+
+  return { roomId: params.roomId };
+}
+
+/**
+ * Big-screen table for a shared TV: watches the room without a seat and
+ * shows the public table only (never anyone's hand)
+ */
+export default function GameTable({ loaderData }: Route.ComponentProps) {
+  const { roomId } = loaderData;
+  const {
+    connectionStatus,
+    lobby,
+    state,
+    activityLog,
+    mayINotification,
+    aiThinkingPlayerName,
+    turnClock,
+    roundEnded,
+    gameEnded,
+  } = useSpectatorRoom(roomId);
+  const [joinUrl, setJoinUrl] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    // Client-only: the URL players open on their phones
+    setJoinUrl(new URL(`/game/${roomId}`, window.location.origin).toString());
+  }, [roomId]);
+
+  const formattedActivityLog = useMemo(() => {
+    return activityLog.map((entry) => ({
+      id: entry.id,
+      message: entry.details
+        ? `${entry.playerName}: ${entry.action} ${entry.details}`
+        : `${entry.playerName}: ${entry.action}`,
+    }));
+  }, [activityLog]);
+
+  if (state) {
+    return (
+      <>
+        <TableTvView
+          state={state}
+          aiThinkingPlayerName={aiThinkingPlayerName}
+          activityLog={formattedActivityLog}
+          connectionStatus={connectionStatus}
+          mayINotification={mayINotification}
+          turnClock={turnClock}
+        />
+        {roundEnded && !gameEnded && (
+          <RoundSummaryDialog
+            roundNumber={roundEnded.roundNumber}
+            winnerId={roundEnded.summary.winnerId}
+            tableMelds={roundEnded.summary.tableMelds}
+            playerHands={roundEnded.summary.playerHands}
+            scores={roundEnded.scores}
+            playerNames={roundEnded.playerNames}
+            playerAvatars={roundEnded.summary.playerAvatars}
+            currentPlayerId=""
+            countdownSeconds={15}
+          />
+        )}
+        {gameEnded && (
+          <GameEndScreen
+            finalScores={gameEnded.finalScores}
+            winnerId={gameEnded.winnerId}
+            playerNames={gameEnded.playerNames}
+            currentPlayerId=""
+            match={gameEnded.match}
+            history={gameEnded.history}
+          />
+        )}
+      </>
+    );
+  }
+
+  // Waiting for the game to start
+  const seats = [...(lobby?.players ?? []), ...(lobby?.aiPlayers ?? [])];
+
+  return (
+    <main className="flex flex-col h-screen">
+      <ConnectionBanner status={connectionStatus} />
+      <div className="flex-1 flex flex-col items-center justify-center gap-8 p-8 text-center">
+        <Tv className="h-12 w-12 text-muted-foreground" />
+        <div>
+          <h1 className="text-4xl font-bold">May I?</h1>
+          <p className="text-xl text-muted-foreground mt-2">
+            Waiting for the game to start
+          </p>
+        </div>
+        {joinUrl && (
+          <div>
+            <div className="text-sm text-muted-foreground">Join on your phone</div>
+            <div className="text-2xl font-mono mt-1">{joinUrl}</div>
+          </div>
+        )}
+        {seats.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-6">
+            {seats.map((player) => (
+              <div key={player.playerId} className="flex flex-col items-center gap-2">
+                {player.avatarId ? (
+                  <img
+                    src={`/avatars/${player.avatarId}.svg`}
+                    alt={player.name}
+                    className="w-16 h-16 rounded-full"
+                  />
+                ) : (
+                  <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center text-2xl font-semibold">
+                    {player.name.charAt(0).toUpperCase()}
+                  </div>
+                )}
+                <span className="text-lg">{player.name}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -14,34 +14,47 @@ import {
   getOrCreatePlayerId,
   getPlayerIdKey,
   getPlayerNameKey,
+  getStoredSeatToken,
+  storeSeatToken,
   storeAvatarId,
   clearStoredAvatarId,
+  getStoredProfileToken,
+  storeProfileToken,
+  clearStoredProfileToken,
 } from "./player-storage";
 
 import { LobbyView } from "~/ui/lobby/LobbyView";
 import { GameView } from "~/ui/game-view/GameView";
+import { SpectatorGameView } from "~/ui/spectator-view/SpectatorGameView";
 import { MayIPromptDialog } from "~/ui/may-i-request/MayIPromptDialog";
 import { RoundSummaryDialog } from "~/ui/round-summary/RoundSummaryDialog";
 import { GameEndScreen } from "~/ui/game-transitions/GameEndScreen";
 import { usePartyConnection } from "~/hooks/usePartyConnection";
+import { useSpectatorState } from "~/hooks/useSpectatorRoom";
 import type {
   ConnectionStatus,
   JoinStatus,
   PlayerInfo,
   LobbyGameSettings,
   AIModelId,
+  MatchSettings,
   RoundNumber,
+  TurnTimerSettings,
 } from "~/ui/lobby/lobby.types";
+import type { TurnClockInfo } from "~/ui/game-view/game-view.types";
 import type {
   ClientMessage,
   ServerMessage,
   PlayerView,
   GameAction,
   ActivityLogEntry,
+  MatchSummaryPayload,
+  RoomGameSummary,
 } from "~/party/protocol.types";
 import type { RoundSummaryPayload } from "~/party/round-summary.types";
 import type { Card } from "core/card/card.types";
 import { formatCardText } from "core/card/card-text.utils";
+import { DEFAULT_CONTRACTS } from "core/engine/contracts";
 import { useAgentHarnessSetup } from "~/ui/agent-harness/useAgentHarnessSetup";
 import { sendGameActionIfConnected } from "./game/game-action.sender";
 
@@ -74,6 +87,8 @@ export async function loader({ params, request }: Route.LoaderArgs) {
 
   return {
     roomId: params.roomId,
+    // ?watch opens the room as a spectator
+    watch: url.searchParams.has("watch"),
     agentState: agentStateParam,
     agentQuickStart: agentQuickStartParam === "true" || agentQuickStartParam === "",
   };
@@ -82,6 +97,7 @@ export async function loader({ params, request }: Route.LoaderArgs) {
 export default function Game({ loaderData }: Route.ComponentProps) {
   const {
     roomId,
+    watch,
     agentState: agentStateEncoded,
     agentQuickStart,
   } = loaderData;
@@ -99,6 +115,7 @@ export default function Game({ loaderData }: Route.ComponentProps) {
   const joinStatusRef = useRef<JoinStatus>("unjoined");
   const [players, setPlayers] = useState<PlayerInfo[]>([]);
   const [currentPlayerId, setCurrentPlayerId] = useState<string | null>(null);
+  const [seatToken, setSeatToken] = useState<string | null>(null);
   const [showNamePrompt, setShowNamePrompt] = useState(false);
   const [shareUrl, setShareUrl] = useState<string | undefined>(undefined);
   const [storedAvatarId, setStoredAvatarId] = useState<string | null>(null);
@@ -107,6 +124,12 @@ export default function Game({ loaderData }: Route.ComponentProps) {
   const [gameSettings, setGameSettings] = useState<LobbyGameSettings>({
     aiPlayers: [],
     startingRound: 1,
+    contracts: DEFAULT_CONTRACTS,
+    turnTimer: null,
+    match: null,
+    ratings: {},
+    spectatorCount: 0,
+    seats: [],
     canStart: false,
   });
   const [isStartingGame, setIsStartingGame] = useState(false);
@@ -116,6 +139,9 @@ export default function Game({ loaderData }: Route.ComponentProps) {
   const roomPhaseRef = useRef<RoomPhase>("lobby");
   const [gameState, setGameState] = useState<PlayerView | null>(null);
 
+  // Turn clock (null when untimed or nobody is on the clock)
+  const [turnClock, setTurnClock] = useState<TurnClockInfo | null>(null);
+
   // Phase 3.3: AI thinking indicator
   const [aiThinkingPlayerName, setAiThinkingPlayerName] = useState<
     string | undefined
@@ -143,6 +169,8 @@ export default function Game({ loaderData }: Route.ComponentProps) {
     finalScores: Record<string, number>;
     winnerId: string;
     playerNames: Record<string, string>;
+    match?: MatchSummaryPayload;
+    history?: RoomGameSummary[];
   } | null>(null);
 
   // Ref to track the round end auto-dismiss timeout
@@ -188,8 +216,12 @@ export default function Game({ loaderData }: Route.ComponentProps) {
     return () => clearTimeout(timeoutId);
   }, [mayINotification?.expiresAt]);
 
-  // Handle reconnection - resync state by re-sending JOIN
+  // Handle reconnection - resync state by re-sending JOIN (or SPECTATE)
   const handleReconnect = useCallback(() => {
+    if (joinStatusRef.current === "spectating" && socketRef.current) {
+      socketRef.current.send(JSON.stringify({ type: "SPECTATE" } satisfies ClientMessage));
+      return;
+    }
     const playerId = currentPlayerId;
     const storedName = getStoredPlayerName();
     const storedAvatarId = getStoredAvatarId();
@@ -200,9 +232,11 @@ export default function Game({ loaderData }: Route.ComponentProps) {
         playerId,
         playerName: storedName,
         avatarId: storedAvatarId ?? undefined,
+        profileToken: getStoredProfileToken() ?? undefined,
+        seatToken: getStoredSeatToken(roomId) ?? undefined,
       } as ClientMessage));
     }
-  }, [currentPlayerId]);
+  }, [currentPlayerId, roomId]);
 
   // Use the connection hook for heartbeat and status management
   const { connectionStatus } = usePartyConnection({
@@ -210,6 +244,9 @@ export default function Game({ loaderData }: Route.ComponentProps) {
     onReconnect: handleReconnect,
   });
 
+  // "Watch" mode shares this socket; spectators never get GAME_STATE
+  const spectator = useSpectatorState(socket);
+
   const setTransientGameError = useCallback((message: string) => {
     setGameError(message);
     setTimeout(() => setGameError(null), 5000);
@@ -223,9 +260,16 @@ export default function Game({ loaderData }: Route.ComponentProps) {
 
   const sendJoin = useCallback(
     (playerId: string, playerName: string, avatarId?: string) => {
-      sendMessage({ type: "JOIN", playerId, playerName, avatarId });
+      sendMessage({
+        type: "JOIN",
+        playerId,
+        playerName,
+        avatarId,
+        profileToken: getStoredProfileToken() ?? undefined,
+        seatToken: getStoredSeatToken(roomId) ?? undefined,
+      });
     },
-    [sendMessage]
+    [roomId, sendMessage]
   );
 
   const onJoin = useCallback(
@@ -247,6 +291,11 @@ export default function Game({ loaderData }: Route.ComponentProps) {
     [currentPlayerId, roomId, sendJoin]
   );
 
+  const onSpectate = useCallback(() => {
+    setShowNamePrompt(false);
+    sendMessage({ type: "SPECTATE" });
+  }, [sendMessage]);
+
   const shareUrlForRoom = useMemo(() => {
     // During SSR this is undefined; it is set on the client in an effect below.
     return shareUrl;
@@ -274,37 +323,68 @@ export default function Game({ loaderData }: Route.ComponentProps) {
     [sendMessage]
   );
 
+  const onSetTurnTimer = useCallback(
+    (turnTimer: TurnTimerSettings | null) => {
+      sendMessage({ type: "SET_TURN_TIMER", turnTimer });
+    },
+    [sendMessage]
+  );
+
+  const onSetMatch = useCallback(
+    (match: MatchSettings | null) => {
+      sendMessage({ type: "SET_MATCH", match });
+    },
+    [sendMessage]
+  );
+
   const onStartGame = useCallback(() => {
     setIsStartingGame(true);
     sendMessage({ type: "START_GAME" });
   }, [sendMessage]);
 
+  // Seat takeover during a game
+  const onClaimSeat = useCallback(
+    (playerId: string) => {
+      sendMessage({ type: "CLAIM_SEAT", playerId });
+    },
+    [sendMessage]
+  );
+
+  const onHandSeatToAI = useCallback(
+    (playerId: string, modelId: AIModelId) => {
+      sendMessage({ type: "HAND_SEAT_TO_AI", playerId, modelId });
+    },
+    [sendMessage]
+  );
+
   // Phase 3.6: May I prompt actions
   const onAllowMayI = useCallback(() => {
     const result = sendGameActionIfConnected({
       connectionStatus,
       sendMessage,
       action: { type: "ALLOW_MAY_I" },
+      seatToken,
     });
     if (!result.sent) {
       setTransientGameError("Connection lost. Retrying...");
       return;
     }
     setMayIPrompt(null);
-  }, [connectionStatus, sendMessage, setTransientGameError]);
+  }, [connectionStatus, sendMessage, seatToken, setTransientGameError]);
 
   const onClaimMayI = useCallback(() => {
     const result = sendGameActionIfConnected({
       connectionStatus,
       sendMessage,
       action: { type: "CLAIM_MAY_I" },
+      seatToken,
     });
     if (!result.sent) {
       setTransientGameError("Connection lost. Retrying...");
       return;
     }
     setMayIPrompt(null);
-  }, [connectionStatus, sendMessage, setTransientGameError]);
+  }, [connectionStatus, sendMessage, seatToken, setTransientGameError]);
 
   // Phase 3.3: Handle game actions from GameView
   const onGameAction = useCallback(
@@ -379,6 +459,7 @@ export default function Game({ loaderData }: Route.ComponentProps) {
           connectionStatus,
           sendMessage,
           action: gameAction,
+          seatToken,
         });
         if (!result.sent) {
           setTransientGameError("Connection lost. Retrying...");
@@ -387,7 +468,7 @@ export default function Game({ loaderData }: Route.ComponentProps) {
         console.log("[onGameAction] No game action to send (gameAction is null)");
       }
     },
-    [connectionStatus, sendMessage, setTransientGameError]
+    [connectionStatus, sendMessage, seatToken, setTransientGameError]
   );
 
   useEffect(() => {
@@ -451,7 +532,10 @@ export default function Game({ loaderData }: Route.ComponentProps) {
       const storedAvatarId = getStoredAvatarId();
       setStoredAvatarId(storedAvatarId);
 
-      if (storedName && storedAvatarId) {
+      if (watch) {
+        setShowNamePrompt(false);
+        newSocket.send(JSON.stringify({ type: "SPECTATE" } satisfies ClientMessage));
+      } else if (storedName && storedAvatarId) {
         setShowNamePrompt(false);
         setJoinStatus("joining");
         sendJoin(playerId, storedName, storedAvatarId);
@@ -490,11 +574,19 @@ export default function Game({ loaderData }: Route.ComponentProps) {
           // injection, where the injected human playerId must persist across reloads.
           setCurrentPlayerId(msg.playerId);
           sessionStorage.setItem(getPlayerIdKey(roomId), msg.playerId);
+          setSeatToken(msg.seatToken);
+          storeSeatToken(roomId, msg.seatToken);
+          storeProfileToken(msg.profileToken);
 
           // Ensure we persist the final server-accepted name.
           storePlayerName(msg.playerName);
           return;
         }
+        case "SPECTATING": {
+          setJoinStatus("spectating");
+          setShowNamePrompt(false);
+          return;
+        }
         case "ERROR": {
           if (msg.error === "AVATAR_TAKEN") {
             clearStoredAvatarId();
@@ -505,6 +597,24 @@ export default function Game({ loaderData }: Route.ComponentProps) {
             return;
           }
 
+          // Someone else holds this player ID: join again under a fresh one
+          if (msg.error === "INVALID_SEAT_TOKEN" && joinStatusRef.current !== "joined") {
+            sessionStorage.removeItem(getPlayerIdKey(roomId));
+            setCurrentPlayerId(null);
+            setJoinStatus("unjoined");
+            setShowNamePrompt(true);
+            return;
+          }
+
+          // The stored profile token is forged or from another deployment: drop it
+          // so the next JOIN is issued a fresh profile
+          if (msg.error === "INVALID_PROFILE_TOKEN" && joinStatusRef.current !== "joined") {
+            clearStoredProfileToken();
+            setJoinStatus("unjoined");
+            setShowNamePrompt(true);
+            return;
+          }
+
           // Use ref to get current roomPhase (avoids stale closure)
           const currentPhase = roomPhaseRef.current;
           console.log("[ERROR handler] Received error:", msg.error, msg.message, "roomPhase:", currentPhase);
@@ -527,6 +637,12 @@ export default function Game({ loaderData }: Route.ComponentProps) {
           setGameSettings({
             aiPlayers: msg.lobbyState.aiPlayers,
             startingRound: msg.lobbyState.startingRound,
+            contracts: msg.lobbyState.contracts,
+            turnTimer: msg.lobbyState.turnTimer,
+            match: msg.lobbyState.match,
+            ratings: msg.lobbyState.ratings,
+            spectatorCount: msg.lobbyState.spectatorCount,
+            seats: msg.lobbyState.seats,
             canStart: msg.lobbyState.canStart,
           });
           return;
@@ -542,6 +658,11 @@ export default function Game({ loaderData }: Route.ComponentProps) {
           setRoomPhase("playing");
           setGameState(msg.state);
           setActivityLog(msg.activityLog ?? []);
+          // The next game of a match replaces the end screen
+          if (msg.state.phase !== "GAME_END") {
+            setGameEndData(null);
+            setRoundEndData(null);
+          }
 
           agentHarness.stripAgentParams();
           return;
@@ -552,6 +673,21 @@ export default function Game({ loaderData }: Route.ComponentProps) {
           setActivityLog(msg.activityLog ?? []);
           return;
         }
+        case "TURN_CLOCK": {
+          // Durations from the server, turned into local deadlines
+          const receivedAt = Date.now();
+          setTurnClock(
+            msg.clock
+              ? {
+                  playerId: msg.clock.playerId,
+                  turnEndsAt: receivedAt + msg.clock.turnRemainingMs,
+                  deadline:
+                    receivedAt + msg.clock.turnRemainingMs + msg.clock.bankRemainingMs,
+                }
+              : null
+          );
+          return;
+        }
         // Phase 3.3: AI thinking indicator
         case "AI_THINKING": {
           setAiThinkingPlayerName(msg.playerName);
@@ -622,6 +758,8 @@ export default function Game({ loaderData }: Route.ComponentProps) {
             finalScores: msg.finalScores,
             winnerId: msg.winnerId,
             playerNames: msg.playerNames,
+            match: msg.match,
+            history: msg.history,
           });
           return;
         }
@@ -642,6 +780,7 @@ export default function Game({ loaderData }: Route.ComponentProps) {
     };
   }, [
     roomId,
+    watch,
     sendJoin,
     sendMessage,
     agentHarness.enabled,
@@ -676,9 +815,21 @@ export default function Game({ loaderData }: Route.ComponentProps) {
     window.location.href = "/";
   }, []);
 
-  // Format activity log for GameView
+  const onNextGame = useCallback(() => {
+    sendMessage({ type: "START_NEXT_GAME" });
+  }, [sendMessage]);
+
+  const onRematch = useCallback(
+    (startingRound: RoundNumber) => {
+      sendMessage({ type: "REMATCH", startingRound });
+    },
+    [sendMessage]
+  );
+
+  // Format activity log for GameView (or the spectator view)
+  const isSpectating = joinStatus === "spectating";
   const formattedActivityLog = useMemo(() => {
-    return activityLog.map((entry) => {
+    return (isSpectating ? spectator.activityLog : activityLog).map((entry) => {
       // Format: "PlayerName: action details"
       const message = entry.details
         ? `${entry.playerName}: ${entry.action} ${entry.details}`
@@ -689,7 +840,48 @@ export default function Game({ loaderData }: Route.ComponentProps) {
         // Don't include timestamp - it clutters the UI
       };
     });
-  }, [activityLog]);
+  }, [isSpectating, spectator.activityLog, activityLog]);
+
+  // Spectators watch the public view, with the same round and game end screens
+  if (isSpectating && spectator.state) {
+    const { roundEnded, gameEnded } = spectator;
+    return (
+      <>
+        <SpectatorGameView
+          state={spectator.state}
+          aiThinkingPlayerName={spectator.aiThinkingPlayerName}
+          activityLog={formattedActivityLog}
+          connectionStatus={connectionStatus}
+          mayINotification={spectator.mayINotification}
+          turnClock={spectator.turnClock}
+        />
+        {roundEnded && !gameEnded && (
+          <RoundSummaryDialog
+            roundNumber={roundEnded.roundNumber}
+            winnerId={roundEnded.summary.winnerId}
+            tableMelds={roundEnded.summary.tableMelds}
+            playerHands={roundEnded.summary.playerHands}
+            scores={roundEnded.scores}
+            playerNames={roundEnded.playerNames}
+            playerAvatars={roundEnded.summary.playerAvatars}
+            currentPlayerId=""
+            countdownSeconds={15}
+          />
+        )}
+        {gameEnded && (
+          <GameEndScreen
+            finalScores={gameEnded.finalScores}
+            winnerId={gameEnded.winnerId}
+            playerNames={gameEnded.playerNames}
+            currentPlayerId=""
+            match={gameEnded.match}
+            history={gameEnded.history}
+            onLeave={onLeaveGame}
+          />
+        )}
+      </>
+    );
+  }
 
   // Phase 3.3: Render lobby or game based on room phase
   if (roomPhase === "playing" && gameState) {
@@ -703,6 +895,9 @@ export default function Game({ loaderData }: Route.ComponentProps) {
           errorMessage={gameError}
           connectionStatus={connectionStatus}
           mayINotification={mayINotification}
+          turnClock={turnClock}
+          vacantSeats={gameSettings.seats.filter((seat) => !seat.isAI && !seat.isConnected)}
+          onHandSeatToAI={onHandSeatToAI}
         />
         {/* Phase 3.6: May I Prompt Dialog */}
         {mayIPrompt && (
@@ -740,6 +935,12 @@ export default function Game({ loaderData }: Route.ComponentProps) {
             winnerId={gameEndData.winnerId}
             playerNames={gameEndData.playerNames}
             currentPlayerId={currentPlayerId ?? ""}
+            match={gameEndData.match}
+            history={gameEndData.history}
+            onNextGame={onNextGame}
+            onRematch={onRematch}
+            contracts={gameSettings.contracts}
+            defaultStartingRound={gameSettings.startingRound}
             onNewGame={onLeaveGame}
             onLeave={onLeaveGame}
           />
@@ -760,13 +961,17 @@ export default function Game({ loaderData }: Route.ComponentProps) {
         showNamePrompt={showNamePrompt}
         onNamePromptChange={setShowNamePrompt}
         onJoin={onJoin}
+        onSpectate={onSpectate}
         fallbackAvatarId={storedAvatarId ?? undefined}
         // Phase 3: Game settings and callbacks
         gameSettings={gameSettings}
         onAddAIPlayer={onAddAIPlayer}
         onRemoveAIPlayer={onRemoveAIPlayer}
         onSetStartingRound={onSetStartingRound}
+        onSetTurnTimer={onSetTurnTimer}
+        onSetMatch={onSetMatch}
         onStartGame={onStartGame}
+        onClaimSeat={onClaimSeat}
         isStartingGame={isStartingGame}
       />
     </main>
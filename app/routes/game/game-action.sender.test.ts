@@ -20,10 +20,11 @@ describe("sendGameActionIfConnected", () => {
       connectionStatus: "connected",
       sendMessage,
       action,
+      seatToken: "seat-token",
     });
 
     expect(result).toEqual({ sent: true, error: null });
-    expect(sent).toEqual([{ type: "GAME_ACTION", action }]);
+    expect(sent).toEqual([{ type: "GAME_ACTION", action, seatToken: "seat-token" }]);
   });
 
   it("does not send when disconnected", () => {
@@ -35,9 +36,24 @@ describe("sendGameActionIfConnected", () => {
       connectionStatus: status,
       sendMessage,
       action,
+      seatToken: "seat-token",
     });
 
     expect(result).toEqual({ sent: false, error: "CONNECTION_NOT_READY" });
     expect(sent).toEqual([]);
   });
+
+  it("does not send before the join is accepted", () => {
+    const { sent, sendMessage } = createSendCapture();
+
+    const result = sendGameActionIfConnected({
+      connectionStatus: "connected",
+      sendMessage,
+      action: { type: "DRAW_FROM_STOCK" },
+      seatToken: null,
+    });
+
+    expect(result).toEqual({ sent: false, error: "NOT_JOINED" });
+    expect(sent).toEqual([]);
+  });
 });
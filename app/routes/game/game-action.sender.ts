@@ -5,6 +5,8 @@ interface SendGameActionOptions {
   connectionStatus: ConnectionStatus;
   sendMessage: (message: ClientMessage) => void;
   action: GameAction;
+  /** From JOINED; null until the server has accepted the join */
+  seatToken: string | null;
 }
 
 interface SendGameActionResult {
@@ -16,11 +18,15 @@ export function sendGameActionIfConnected({
   connectionStatus,
   sendMessage,
   action,
+  seatToken,
 }: SendGameActionOptions): SendGameActionResult {
   if (connectionStatus !== "connected") {
     return { sent: false, error: "CONNECTION_NOT_READY" };
   }
+  if (!seatToken) {
+    return { sent: false, error: "NOT_JOINED" };
+  }
 
-  sendMessage({ type: "GAME_ACTION", action });
+  sendMessage({ type: "GAME_ACTION", action, seatToken });
   return { sent: true, error: null };
 }
@@ -1,6 +1,6 @@
-import { useState } from "react";
-import { Form, redirect } from "react-router";
-import { BookOpen } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Form, Link, redirect } from "react-router";
+import { BarChart3, BookOpen, Trophy } from "lucide-react";
 import type { Route } from "./+types/home";
 import { generateRoomId } from "../../core/room/room-id.utils";
 import { Button } from "~/shadcn/components/ui/button";
@@ -13,6 +13,7 @@ import {
   CardTitle,
 } from "~/shadcn/components/ui/card";
 import { HouseRulesDrawer } from "~/ui/house-rules/HouseRulesDrawer";
+import { getStoredProfileToken } from "./player-storage";
 
 export function meta() {
   return [{ title: "May I?" }];
@@ -37,6 +38,10 @@ export async function action({ request }: Route.ActionArgs) {
 
 export default function Home() {
   const [rulesOpen, setRulesOpen] = useState(false);
+  // The profile token lives in localStorage, so it's only known after hydration.
+  // Rooms issue it on the first JOIN, so there are no stats to link before that.
+  const [profileToken, setProfileToken] = useState<string | null>(null);
+  useEffect(() => setProfileToken(getStoredProfileToken()), []);
 
   return (
     <main className="flex flex-col items-center justify-center min-h-screen gap-8">
@@ -79,6 +84,23 @@ export default function Home() {
             View House Rules
           </Button>
           <HouseRulesDrawer open={rulesOpen} onOpenChange={setRulesOpen} />
+
+          <div className="flex gap-2">
+            {profileToken && (
+              <Button variant="ghost" className="flex-1" asChild>
+                <Link to="/stats">
+                  <BarChart3 className="h-4 w-4 mr-2" />
+                  My Stats
+                </Link>
+              </Button>
+            )}
+            <Button variant="ghost" className="flex-1" asChild>
+              <Link to="/ratings">
+                <Trophy className="h-4 w-4 mr-2" />
+                Ratings
+              </Link>
+            </Button>
+          </div>
         </CardContent>
       </Card>
     </main>
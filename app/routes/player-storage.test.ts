@@ -6,6 +6,11 @@ import {
   getStoredAvatarId,
   storeAvatarId,
   clearStoredAvatarId,
+  getStoredProfileToken,
+  storeProfileToken,
+  clearStoredProfileToken,
+  getStoredSeatToken,
+  storeSeatToken,
 } from "./player-storage";
 
 // Mock localStorage and sessionStorage for testing
@@ -132,6 +137,17 @@ describe("player-storage", () => {
     });
   });
 
+  describe("seat tokens", () => {
+    it("stores the seat token per room", () => {
+      expect(getStoredSeatToken("room-1")).toBeNull();
+
+      storeSeatToken("room-1", "token-1");
+
+      expect(getStoredSeatToken("room-1")).toBe("token-1");
+      expect(getStoredSeatToken("room-2")).toBeNull();
+    });
+  });
+
   describe("name persistence across rooms (integration)", () => {
     it("remembers user name when switching rooms", () => {
       // User joins room 1 and enters their name
@@ -181,6 +197,20 @@ describe("player-storage", () => {
     });
   });
 
+  describe("profile token", () => {
+    it("keeps the server-issued profile token for every room", () => {
+      expect(getStoredProfileToken()).toBeNull();
+
+      storeProfileToken("profile-1.signature");
+
+      expect(getStoredProfileToken()).toBe("profile-1.signature");
+      expect(mockLocalStorage.getItem("mayi:profileToken")).toBe("profile-1.signature");
+
+      clearStoredProfileToken();
+      expect(getStoredProfileToken()).toBeNull();
+    });
+  });
+
   describe("avatar persistence across rooms (integration)", () => {
     it("remembers user avatar when switching rooms", () => {
       // User joins room 1 and picks their avatar
@@ -3,12 +3,18 @@ import { nanoid } from "nanoid";
 // Global keys - persist across all rooms
 const PLAYER_NAME_KEY = "mayi:playerName";
 const PLAYER_AVATAR_KEY = "mayi:avatarId";
+const PROFILE_TOKEN_KEY = "mayi:profileToken";
 
 // Room-specific key for player ID - each room has its own identity
 export function getPlayerIdKey(roomId: string): string {
   return `mayi:room:${roomId}:playerId`;
 }
 
+// Room-specific key for the signed seat token issued on JOINED
+export function getSeatTokenKey(roomId: string): string {
+  return `mayi:room:${roomId}:seatToken`;
+}
+
 // Room-specific key for player name override (used by agent harness)
 export function getPlayerNameKey(roomId: string): string {
   return `mayi:room:${roomId}:playerName`;
@@ -46,6 +52,50 @@ export function getOrCreatePlayerId(roomId: string): string {
   return playerId;
 }
 
+/**
+ * Get the seat token for a room from sessionStorage (kept with the player ID)
+ */
+export function getStoredSeatToken(roomId: string): string | null {
+  if (typeof sessionStorage === "undefined") return null;
+  return sessionStorage.getItem(getSeatTokenKey(roomId));
+}
+
+/**
+ * Store the seat token the server issued for this room
+ */
+export function storeSeatToken(roomId: string, seatToken: string): void {
+  if (typeof sessionStorage === "undefined") return;
+  sessionStorage.setItem(getSeatTokenKey(roomId), seatToken);
+}
+
+/**
+ * Get the profile token from localStorage (persists across all rooms)
+ *
+ * Room player IDs are per room and per tab, so stats are keyed by the profile
+ * instead. The server issues the token on the first JOIN; returns null before
+ * that and during SSR.
+ */
+export function getStoredProfileToken(): string | null {
+  if (typeof localStorage === "undefined") return null;
+  return localStorage.getItem(PROFILE_TOKEN_KEY);
+}
+
+/**
+ * Store the profile token the server issued with JOINED
+ */
+export function storeProfileToken(profileToken: string): void {
+  if (typeof localStorage === "undefined") return;
+  localStorage.setItem(PROFILE_TOKEN_KEY, profileToken);
+}
+
+/**
+ * Forget a profile token the server rejected, so the next JOIN gets a new one
+ */
+export function clearStoredProfileToken(): void {
+  if (typeof localStorage === "undefined") return;
+  localStorage.removeItem(PROFILE_TOKEN_KEY);
+}
+
 /**
  * Get stored avatar ID from localStorage (persists across all rooms)
  */
@@ -0,0 +1,56 @@
+/**
+ * Skill Ratings Route
+ *
+ * GET /ratings
+ *
+ * Leaderboards from the SkillRatingsStore Durable Object: one for AI models
+ * (each LLM and bot difficulty) and one for players.
+ */
+
+import { Link } from "react-router";
+import type { Route } from "./+types/ratings";
+import { SKILL_RATINGS_NAME } from "~/party/skill-ratings.store";
+import { Button } from "~/shadcn/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "~/shadcn/components/ui/card";
+import { SkillRatingsTable } from "~/ui/player-stats/SkillRatingsTable";
+
+export function meta() {
+  return [{ title: "May I? – Ratings" }];
+}
+
+export async function loader({ context }: Route.LoaderArgs) {
+  const { SkillRatings } = context.cloudflare.env;
+  const stub = SkillRatings.get(SkillRatings.idFromName(SKILL_RATINGS_NAME));
+  return { leaderboard: await stub.getLeaderboard() };
+}
+
+export default function Ratings({ loaderData }: Route.ComponentProps) {
+  const { leaderboard } = loaderData;
+
+  return (
+    <main className="flex flex-col items-center min-h-screen gap-6 py-10 px-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl">Skill Ratings</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <SkillRatingsTable
+            title="AI Models"
+            entries={leaderboard.filter((entry) => entry.isAI)}
+          />
+          <SkillRatingsTable
+            title="Players"
+            entries={leaderboard.filter((entry) => !entry.isAI)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Elo-style ratings from final scores: every finished game counts as a
+            head-to-head result between each pair of seats. Everyone starts at 1500.
+          </p>
+        </CardContent>
+      </Card>
+      <Button variant="outline" asChild>
+        <Link to="/">Back to Home</Link>
+      </Button>
+    </main>
+  );
+}
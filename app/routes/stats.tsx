@@ -0,0 +1,70 @@
+/**
+ * Player Stats Route
+ *
+ * GET /stats, then POST /stats with the profile token
+ *
+ * Shows the lifetime stats kept by the player's PlayerStats Durable Object.
+ * The profile token the room issued to this browser (see player-storage.ts)
+ * is also what JOIN uses to claim the profile, so it never goes in the URL:
+ * the page posts it in the request body and the action verifies it.
+ */
+
+import { useEffect } from "react";
+import { Link, useFetcher } from "react-router";
+import type { Route } from "./+types/stats";
+import { Button } from "~/shadcn/components/ui/button";
+import { PlayerStatsView } from "~/ui/player-stats/PlayerStatsView";
+import { getSeatTokenSecret, readProfileToken } from "~/party/seat-token";
+import { getStoredProfileToken } from "./player-storage";
+
+export function meta() {
+  return [{ title: "May I? – Stats" }];
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const profileToken = formData.get("profileToken");
+  const secret = getSeatTokenSecret(
+    context.cloudflare.env,
+    import.meta.env.MODE !== "production"
+  );
+  const profileId =
+    secret && typeof profileToken === "string"
+      ? await readProfileToken(secret, profileToken)
+      : null;
+  if (!profileId) {
+    throw new Response("Unknown profile", { status: 404 });
+  }
+
+  const { PlayerStats } = context.cloudflare.env;
+  const stub = PlayerStats.get(PlayerStats.idFromName(profileId));
+  return { stats: await stub.getStats() };
+}
+
+export default function Stats() {
+  const fetcher = useFetcher<typeof action>();
+  const { submit } = fetcher;
+
+  useEffect(() => {
+    // Client-only: the token lives in localStorage
+    const profileToken = getStoredProfileToken();
+    if (profileToken) {
+      submit({ profileToken }, { method: "post" });
+    }
+  }, [submit]);
+
+  return (
+    <main className="flex flex-col items-center min-h-screen gap-6 py-10 px-4">
+      {fetcher.data ? (
+        <PlayerStatsView stats={fetcher.data.stats} />
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {fetcher.state === "idle" ? "Play a game to start your stats." : "Loading stats…"}
+        </p>
+      )}
+      <Button variant="outline" asChild>
+        <Link to="/">Back to Home</Link>
+      </Button>
+    </main>
+  );
+}
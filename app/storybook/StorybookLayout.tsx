@@ -7,6 +7,9 @@ import { DiscardPileDisplayStory } from "~/ui/game-table/DiscardPileDisplay.stor
 import { PlayerMeldsDisplayStory } from "~/ui/game-table/PlayerMeldsDisplay.story";
 import { TableDisplayStory } from "~/ui/game-table/TableDisplay.story";
 import { PlayersTableDisplayStory } from "~/ui/game-status/PlayersTableDisplay.story";
+import { OpponentTrackerDisplayStory } from "~/ui/game-status/OpponentTrackerDisplay.story";
+import { PlayerStatsViewStory } from "~/ui/player-stats/PlayerStatsView.story";
+import { SkillRatingsTableStory } from "~/ui/player-stats/SkillRatingsTable.story";
 import { GameHeaderStory } from "~/ui/game-status/GameHeader.story";
 import { ActivityLogStory } from "~/ui/game-status/ActivityLog.story";
 import { ActionBarStory } from "~/ui/action-bar/ActionBar.story";
@@ -21,11 +24,15 @@ import { MayIRequestViewStory } from "~/ui/may-i-request/MayIRequestView.story";
 import { LobbyViewStory } from "~/ui/lobby/LobbyView.story";
 import { CharacterPickerStory } from "~/ui/lobby/CharacterPicker.story";
 import { GameViewStory } from "~/ui/game-view/GameView.story";
+import { SpectatorGameViewStory } from "~/ui/spectator-view/SpectatorGameView.story";
+import { TableTvViewStory } from "~/ui/table-tv/TableTvView.story";
 import { HandDrawerStory, HandDrawerFullscreenTest } from "~/ui/hand-drawer/HandDrawer.story";
 import { HouseRulesDrawerStory } from "~/ui/house-rules/HouseRulesDrawer.story";
 
 const STORIES: Array<{ path: string; label: string; component: React.ComponentType; fullscreen?: boolean }> = [
   { path: "game-view", label: "GameView (Layout)", component: GameViewStory },
+  { path: "spectator-view", label: "SpectatorGameView", component: SpectatorGameViewStory },
+  { path: "table-tv", label: "TableTvView", component: TableTvViewStory },
   { path: "hand-drawer", label: "HandDrawer (Mobile)", component: HandDrawerStory },
   { path: "hand-drawer-fullscreen", label: "HandDrawer (Fullscreen)", component: HandDrawerFullscreenTest, fullscreen: true },
   { path: "lobby-view", label: "LobbyView", component: LobbyViewStory },
@@ -37,6 +44,9 @@ const STORIES: Array<{ path: string; label: string; component: React.ComponentTy
   { path: "player-melds", label: "PlayerMeldsDisplay", component: PlayerMeldsDisplayStory },
   { path: "table-display", label: "TableDisplay", component: TableDisplayStory },
   { path: "players-table", label: "PlayersTableDisplay", component: PlayersTableDisplayStory },
+  { path: "opponent-tracker", label: "OpponentTrackerDisplay", component: OpponentTrackerDisplayStory },
+  { path: "player-stats", label: "PlayerStatsView", component: PlayerStatsViewStory },
+  { path: "skill-ratings", label: "SkillRatingsTable", component: SkillRatingsTableStory },
   { path: "game-header", label: "GameHeader", component: GameHeaderStory },
   { path: "activity-log", label: "ActivityLog", component: ActivityLogStory },
   { path: "action-bar", label: "ActionBar", component: ActionBarStory },
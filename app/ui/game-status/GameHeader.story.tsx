@@ -11,6 +11,9 @@ const CONTRACTS = [
   { sets: 1, runs: 2 }, // Round 6
 ];
 
+// Fixed when the story module loads, so the countdowns run down live
+const STORY_NOW = Date.now();
+
 export function GameHeaderStory() {
   return (
     <div className="space-y-10">
@@ -54,6 +57,38 @@ export function GameHeaderStory() {
         <GameHeader round={6} totalRounds={6} contract={CONTRACTS[5]!} />
       </section>
 
+      {/* Turn Clock */}
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Turn Clock</h2>
+        <div className="space-y-2">
+          <GameHeader
+            round={2}
+            totalRounds={6}
+            contract={CONTRACTS[1]!}
+            turnClock={{
+              label: "Your time",
+              isYours: true,
+              turnEndsAt: STORY_NOW + 25_000,
+              deadline: STORY_NOW + 85_000,
+            }}
+          />
+          <GameHeader
+            round={2}
+            totalRounds={6}
+            contract={CONTRACTS[1]!}
+            turnClock={{
+              label: "Alice",
+              isYours: false,
+              turnEndsAt: STORY_NOW - 1_000,
+              deadline: STORY_NOW + 40_000,
+            }}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          Counts down the per-turn time, then the player's time bank (amber).
+        </p>
+      </section>
+
       {/* Custom Contracts */}
       <section>
         <h2 className="text-lg font-semibold mb-3">Custom Contracts</h2>
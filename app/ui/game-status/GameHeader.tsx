@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Link } from "react-router";
 import { HelpCircle } from "lucide-react";
 import { cn } from "~/shadcn/lib/utils";
@@ -10,6 +10,17 @@ interface Contract {
   runs: number;
 }
 
+interface TurnCountdownInfo {
+  /** Whose clock it is, e.g. "Your turn" or "Alice" */
+  label: string;
+  /** Whether the viewing player is on the clock - affects styling */
+  isYours: boolean;
+  /** Local timestamp when the per-turn time runs out */
+  turnEndsAt: number;
+  /** Local timestamp when the turn is played automatically */
+  deadline: number;
+}
+
 interface GameHeaderProps {
   round?: number;
   totalRounds?: number;
@@ -18,6 +29,8 @@ interface GameHeaderProps {
   turnStatus?: string;
   /** Whether it's the viewing player's turn - affects turn status styling */
   isYourTurn?: boolean;
+  /** Turn clock countdown (omit when the room has no turn timer) */
+  turnClock?: TurnCountdownInfo;
   className?: string;
 }
 
@@ -38,6 +51,7 @@ export function GameHeader({
   contract,
   turnStatus,
   isYourTurn,
+  turnClock,
   className,
 }: GameHeaderProps) {
   const [rulesOpen, setRulesOpen] = useState(false);
@@ -93,6 +107,42 @@ export function GameHeader({
           {turnStatus}
         </div>
       )}
+
+      {/* Turn clock countdown */}
+      {turnClock && <TurnCountdown {...turnClock} />}
     </header>
   );
 }
+
+function formatSeconds(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+function TurnCountdown({ label, isYours, turnEndsAt, deadline }: TurnCountdownInfo) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(intervalId);
+  }, [turnEndsAt, deadline]);
+
+  const inBank = now >= turnEndsAt;
+  const remaining = Math.max(0, (inBank ? deadline : turnEndsAt) - now);
+  const bank = Math.max(0, deadline - Math.max(now, turnEndsAt));
+
+  return (
+    <div
+      className={cn(
+        "text-sm mt-1 tabular-nums",
+        inBank ? "text-amber-600 font-medium" : isYours ? "text-primary" : "text-muted-foreground"
+      )}
+      role="timer"
+    >
+      {label}: {formatSeconds(remaining)}
+      {inBank ? " (time bank)" : bank > 0 && ` + ${formatSeconds(bank)} bank`}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import type { Card, Rank, Suit } from "core/card/card.types";
+import { OpponentTrackerDisplay } from "./OpponentTrackerDisplay";
+import { ViewportComparison } from "~/storybook/ViewportSimulator";
+
+function card(id: string, rank: Rank, suit: Suit | null): Card {
+  return { id, rank, suit };
+}
+
+const MID_ROUND_OPPONENTS = [
+  {
+    id: "p2",
+    name: "Bob",
+    pickedUp: [card("c1", "9", "clubs"), card("c2", "9", "hearts")],
+    wonByMayI: [],
+    discarded: [card("c3", "K", "spades"), card("c4", "3", "diamonds")],
+  },
+  {
+    id: "p3",
+    name: "Charlie",
+    pickedUp: [],
+    wonByMayI: [card("c5", "Q", "hearts"), card("c6", "Joker", null)],
+    discarded: [card("c7", "5", "diamonds")],
+  },
+  {
+    id: "p4",
+    name: "Diana",
+    pickedUp: [],
+    wonByMayI: [],
+    discarded: [card("c8", "2", "clubs")],
+  },
+];
+
+const START_OF_ROUND_OPPONENTS = [
+  { id: "p2", name: "Bob", pickedUp: [], wonByMayI: [], discarded: [] },
+  { id: "p3", name: "Charlie", pickedUp: [], wonByMayI: [], discarded: [] },
+];
+
+export function OpponentTrackerDisplayStory() {
+  return (
+    <div className="space-y-10 max-w-md">
+      <header>
+        <h1 className="text-2xl font-bold">OpponentTrackerDisplay</h1>
+        <p className="text-muted-foreground mt-1">
+          Cards each opponent picked up, won with May I, or discarded this round.
+        </p>
+      </header>
+
+      {/* Mid Round */}
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Mid Round</h2>
+        <OpponentTrackerDisplay opponents={MID_ROUND_OPPONENTS} />
+        <p className="text-xs text-muted-foreground mt-2">
+          Bob is collecting nines. Charlie won a queen and a Joker with May I.
+        </p>
+      </section>
+
+      {/* Start of Round */}
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Start of Round</h2>
+        <OpponentTrackerDisplay opponents={START_OF_ROUND_OPPONENTS} />
+        <p className="text-xs text-muted-foreground mt-2">
+          Nobody has touched the discard pile yet.
+        </p>
+      </section>
+
+      {/* Responsive */}
+      <section className="max-w-none">
+        <h2 className="text-lg font-semibold mb-3">Responsive Comparison</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          How the tracker adapts to different container widths.
+        </p>
+        <ViewportComparison>
+          <div className="p-2">
+            <OpponentTrackerDisplay opponents={MID_ROUND_OPPONENTS} />
+          </div>
+        </ViewportComparison>
+      </section>
+    </div>
+  );
+}
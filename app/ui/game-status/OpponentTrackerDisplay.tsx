@@ -0,0 +1,91 @@
+import type { Card } from "core/card/card.types";
+import { formatCardText } from "core/card/card-text.utils";
+import { cn } from "~/shadcn/lib/utils";
+
+interface OpponentTrackerEntry {
+  id: string;
+  name: string;
+  avatarId?: string;
+  /** Cards drawn from the discard pile on their own turn */
+  pickedUp: Card[];
+  /** Cards won with May I */
+  wonByMayI: Card[];
+  /** Cards they discarded */
+  discarded: Card[];
+}
+
+interface OpponentTrackerDisplayProps {
+  opponents: OpponentTrackerEntry[];
+  /** Hide the outer border (useful when embedded in a container) */
+  borderless?: boolean;
+  className?: string;
+}
+
+/**
+ * What an attentive player remembers about each opponent this round:
+ * the discards they picked up or won with May I, and what they threw away.
+ */
+export function OpponentTrackerDisplay({
+  opponents,
+  borderless = false,
+  className,
+}: OpponentTrackerDisplayProps) {
+  return (
+    <div className={cn(!borderless && "rounded-lg border", "overflow-hidden", className)}>
+      <div className="divide-y divide-border">
+        {opponents.map((opponent) => {
+          const hasHistory =
+            opponent.pickedUp.length > 0 ||
+            opponent.wonByMayI.length > 0 ||
+            opponent.discarded.length > 0;
+          return (
+            <div key={opponent.id} className="py-2 px-3 space-y-1 text-sm">
+              <div className="font-medium">{opponent.name}</div>
+              {hasHistory ? (
+                <>
+                  <CardRow label="Picked up" cards={opponent.pickedUp} />
+                  <CardRow label="May I" cards={opponent.wonByMayI} />
+                  <CardRow label="Discarded" cards={opponent.discarded} />
+                </>
+              ) : (
+                <div className="text-xs text-muted-foreground italic">
+                  Nothing picked up or discarded yet
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function CardRow({ label, cards }: { label: string; cards: Card[] }) {
+  if (cards.length === 0) return null;
+
+  return (
+    <div className="flex items-baseline gap-2">
+      <span className="text-xs text-muted-foreground shrink-0 w-16">{label}</span>
+      <div className="flex flex-wrap gap-1">
+        {cards.map((card) => (
+          <CardChip key={card.id} card={card} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function CardChip({ card }: { card: Card }) {
+  const isRed = card.suit === "hearts" || card.suit === "diamonds";
+  return (
+    <span
+      className={cn(
+        "rounded border bg-white px-1 text-xs font-medium tabular-nums",
+        isRed ? "text-red-600" : "text-gray-900",
+        card.rank === "Joker" && "text-purple-600"
+      )}
+    >
+      {formatCardText(card)}
+    </span>
+  );
+}
@@ -1,13 +1,29 @@
+import { useState } from "react";
 import { Trophy } from "lucide-react";
 import { Button } from "~/shadcn/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "~/shadcn/components/ui/card";
 import { cn } from "~/shadcn/lib/utils";
+import type { MatchSummaryPayload, RoomGameSummary } from "~/party/protocol.types";
+import { StartingRoundSelector } from "~/ui/lobby/StartingRoundSelector";
+import type { RoundNumber } from "../../../core/engine/engine.types";
+import type { Contract } from "../../../core/engine/contracts";
 
 interface GameEndScreenProps {
   finalScores: Record<string, number>;
   winnerId: string;
   playerNames: Record<string, string>;
   currentPlayerId: string;
+  /** Match progress when this game is part of a series */
+  match?: MatchSummaryPayload;
+  /** Earlier games played in this room, oldest first */
+  history?: RoomGameSummary[];
+  /** Start the next game of the match with the same seats */
+  onNextGame?: () => void;
+  /** Play again in this room with the same seats, from the chosen round */
+  onRematch?: (startingRound: RoundNumber) => void;
+  /** Round options for a rematch */
+  contracts?: Contract[];
+  defaultStartingRound?: RoundNumber;
   onNewGame?: () => void;
   onLeave?: () => void;
   className?: string;
@@ -18,14 +34,22 @@ export function GameEndScreen({
   winnerId,
   playerNames,
   currentPlayerId,
+  match,
+  history = [],
+  onNextGame,
+  onRematch,
+  contracts,
+  defaultStartingRound = 1,
   onNewGame,
   onLeave,
   className,
 }: GameEndScreenProps) {
+  const [startingRound, setStartingRound] = useState<RoundNumber>(defaultStartingRound);
   // Sort players by score (ascending - lowest is best)
   const sortedPlayers = Object.entries(finalScores).sort(([, a], [, b]) => a - b);
   const winnerName = playerNames[winnerId] ?? "Unknown";
   const isYouWinner = winnerId === currentPlayerId;
+  const isMatchContinuing = match !== undefined && !match.isOver;
 
   return (
     <div
@@ -39,9 +63,11 @@ export function GameEndScreen({
           <div className="mx-auto w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center">
             <Trophy className="w-8 h-8 text-primary" />
           </div>
-          <CardTitle className="text-2xl">Game Over!</CardTitle>
+          <CardTitle className="text-2xl">{match?.isOver ? "Match Over!" : "Game Over!"}</CardTitle>
           <p className="text-lg text-muted-foreground">
-            {isYouWinner ? (
+            {match?.isOver ? (
+              <MatchResult match={match} currentPlayerId={currentPlayerId} />
+            ) : isYouWinner ? (
               <span className="text-primary font-semibold">
                 Congratulations, You Won!
               </span>
@@ -96,9 +122,22 @@ export function GameEndScreen({
               })}
             </div>
           </div>
+          {match && <MatchStandings match={match} currentPlayerId={currentPlayerId} />}
+          {history.length > 0 && <EarlierGames history={history} />}
+          {!isMatchContinuing && onRematch && (
+            <StartingRoundSelector
+              value={startingRound}
+              onChange={setStartingRound}
+              contracts={contracts}
+            />
+          )}
         </CardContent>
         <CardFooter className="flex gap-3 justify-center">
-          {onNewGame && (
+          {isMatchContinuing && onNextGame && <Button onClick={onNextGame}>Next Game</Button>}
+          {!isMatchContinuing && onRematch && (
+            <Button onClick={() => onRematch(startingRound)}>Play Again</Button>
+          )}
+          {!isMatchContinuing && !onRematch && onNewGame && (
             <Button onClick={onNewGame}>Play Again</Button>
           )}
           {onLeave && (
@@ -111,3 +150,92 @@ export function GameEndScreen({
     </div>
   );
 }
+
+function MatchResult({
+  match,
+  currentPlayerId,
+}: {
+  match: MatchSummaryPayload;
+  currentPlayerId: string;
+}) {
+  if (!match.winnerId) {
+    return <>The match ends in a tie!</>;
+  }
+  if (match.winnerId === currentPlayerId) {
+    return <span className="text-primary font-semibold">You won the match!</span>;
+  }
+  const winner = match.standings.find((s) => s.playerId === match.winnerId);
+  return (
+    <>
+      <span className="font-semibold">{winner?.name ?? "Unknown"}</span> wins the match!
+    </>
+  );
+}
+
+function MatchStandings({
+  match,
+  currentPlayerId,
+}: {
+  match: MatchSummaryPayload;
+  currentPlayerId: string;
+}) {
+  const progress =
+    match.format === "best_of"
+      ? `Game ${match.gamesPlayed} · best of ${match.games}`
+      : `Game ${match.gamesPlayed} of ${match.games}`;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="flex justify-between text-sm font-medium text-muted-foreground">
+        <span>Match Standings</span>
+        <span>{progress}</span>
+      </h3>
+      <div className="divide-y rounded-lg border">
+        {match.standings.map((standing) => {
+          const isYou = standing.playerId === currentPlayerId;
+          return (
+            <div
+              key={standing.playerId}
+              className={cn(
+                "flex items-center justify-between py-2 px-4 text-sm",
+                standing.playerId === match.winnerId && "bg-primary/5",
+                isYou && "font-semibold"
+              )}
+            >
+              <span>{isYou ? `${standing.name} (You)` : standing.name}</span>
+              <span className="flex gap-4 tabular-nums">
+                <span className="text-muted-foreground">
+                  {standing.gamesWon} {standing.gamesWon === 1 ? "win" : "wins"}
+                </span>
+                <span className="font-medium">{standing.totalScore} pts</span>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function EarlierGames({ history }: { history: RoomGameSummary[] }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-muted-foreground">Earlier Games</h3>
+      <div className="divide-y rounded-lg border">
+        {history.map((game) => (
+          <div
+            key={game.gameNumber}
+            className="flex items-center justify-between py-2 px-4 text-sm"
+          >
+            <span className="text-muted-foreground">Game {game.gameNumber}</span>
+            <span>
+              <span className="font-medium">{game.playerNames[game.winnerId] ?? "Unknown"}</span>
+              {" won with "}
+              <span className="tabular-nums">{game.finalScores[game.winnerId] ?? 0} pts</span>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { GameView } from "./GameView";
 import type { PlayerView } from "~/party/protocol.types";
 import type { Meld } from "core/meld/meld.types";
 import type { Card } from "core/card/card.types";
+import { DEFAULT_RULE_SET } from "core/engine/house-rules";
 import { ViewportSimulator, ViewportComparison } from "~/storybook/ViewportSimulator";
 import { DiscardPileDisplay } from "~/ui/game-table/DiscardPileDisplay";
 import { StockPileDisplay } from "~/ui/game-table/StockPileDisplay";
@@ -122,6 +123,31 @@ const MOCK_HAND: Card[] = [
   card("h3", "10", "diamonds"),
 ];
 
+const MOCK_CARD_KNOWLEDGE: PlayerView["cardKnowledge"] = {
+  discardPile: [card("d1", "3", "hearts")],
+  opponents: [
+    {
+      playerId: "p2",
+      tookFromDiscard: [card("k1", "9", "clubs")],
+      wonByMayI: [],
+      knownInHand: [],
+      passed: [card("k2", "5", "diamonds")],
+      discarded: [card("k3", "K", "spades")],
+    },
+    {
+      playerId: "p3",
+      tookFromDiscard: [],
+      wonByMayI: [card("k4", "Q", "hearts")],
+      knownInHand: [card("k4", "Q", "hearts")],
+      passed: [],
+      discarded: [card("k2", "5", "diamonds")],
+    },
+    { playerId: "p4", tookFromDiscard: [], wonByMayI: [], knownInHand: [], passed: [], discarded: [] },
+  ],
+  unseen: [],
+  unseenCount: 0,
+};
+
 // Full game state for storybook
 const MOCK_GAME_STATE: PlayerView = {
   gameId: "story-game",
@@ -138,7 +164,9 @@ const MOCK_GAME_STATE: PlayerView = {
     { id: "p4", name: "Charlie", handCount: 1, isDown: true, totalScore: 20, isDealer: true, isCurrentPlayer: false },
   ],
   currentRound: 1,
-  contract: { roundNumber: 1, sets: 2, runs: 0 },
+  totalRounds: 6,
+  contract: { roundNumber: 1, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: false },
+  rules: DEFAULT_RULE_SET,
   phase: "ROUND_ACTIVE",
   turnPhase: "AWAITING_DISCARD",
   turnNumber: 15,
@@ -147,6 +175,7 @@ const MOCK_GAME_STATE: PlayerView = {
   topDiscard: card("d1", "3", "hearts"),
   discardCount: 12,
   table: MOCK_TABLE_MELDS,
+  cardKnowledge: MOCK_CARD_KNOWLEDGE,
   roundHistory: [],
   mayIContext: null,
   availableActions: {
@@ -1,13 +1,15 @@
-import type { PlayerView } from "~/party/protocol.types";
+import type { AIModelId, GameSeatInfo, PlayerView } from "~/party/protocol.types";
 import type { ConnectionStatus } from "~/ui/lobby/lobby.types";
-import type { ActivityEntry } from "./game-view.types";
+import type { ActivityEntry, TurnClockInfo } from "./game-view.types";
 import type { MayINotificationState } from "~/routes/game.$roomId";
 import { GameHeader } from "~/ui/game-status/GameHeader";
 import { TableDisplay } from "~/ui/game-table/TableDisplay";
 import { PlayersTableDisplay } from "~/ui/game-status/PlayersTableDisplay";
+import { OpponentTrackerDisplay } from "~/ui/game-status/OpponentTrackerDisplay";
 import { ActivityLog } from "~/ui/game-status/ActivityLog";
 import { AIThinkingIndicator } from "./AIThinkingIndicator";
 import { InactivityHintBanner } from "./InactivityHintBanner";
+import { VacantSeatsBanner } from "./VacantSeatsBanner";
 import { ConnectionBanner } from "~/ui/connection-status/ConnectionBanner";
 import {
   HandDrawer,
@@ -37,6 +39,11 @@ interface GameViewProps {
   connectionStatus?: ConnectionStatus;
   /** May I notification shown to all players in table view */
   mayINotification?: MayINotificationState | null;
+  /** Turn clock, when the room has a turn timer */
+  turnClock?: TurnClockInfo | null;
+  /** Seats of players who left, which an AI can take over */
+  vacantSeats?: GameSeatInfo[];
+  onHandSeatToAI?: (playerId: string, modelId: AIModelId) => void;
   className?: string;
 }
 
@@ -48,6 +55,9 @@ export function GameView({
   errorMessage,
   connectionStatus = "connected",
   mayINotification,
+  turnClock,
+  vacantSeats = [],
+  onHandSeatToAI,
   className,
 }: GameViewProps) {
   const isMobile = useMediaQuery(MOBILE_MEDIA_QUERY);
@@ -66,6 +76,9 @@ export function GameView({
     message: inactivityMessage,
     activityKey: state.activityCounter,
   });
+  const clockPlayer = turnClock
+    ? derived.allPlayers.find((p) => p.id === turnClock.playerId)
+    : undefined;
 
   return (
     <div className={cn("flex flex-col min-h-screen", className)}>
@@ -76,6 +89,17 @@ export function GameView({
       <GameHeader
         turnStatus={isMobile ? derived.turnPhaseText : undefined}
         isYourTurn={isMobile ? gameState.isYourTurn : undefined}
+        turnClock={
+          turnClock && clockPlayer
+            ? {
+                label:
+                  clockPlayer.id === gameState.viewingPlayerId ? "Your time" : clockPlayer.name,
+                isYours: clockPlayer.id === gameState.viewingPlayerId,
+                turnEndsAt: turnClock.turnEndsAt,
+                deadline: turnClock.deadline,
+              }
+            : undefined
+        }
       />
 
       {/* Inactivity Hint */}
@@ -88,6 +112,13 @@ export function GameView({
         </div>
       )}
 
+      {/* Seats of players who left */}
+      {onHandSeatToAI && vacantSeats.length > 0 && (
+        <div className="px-4 py-2">
+          <VacantSeatsBanner seats={vacantSeats} onHandSeatToAI={onHandSeatToAI} />
+        </div>
+      )}
+
       {/* AI Thinking Indicator */}
       {aiThinkingPlayerName && (
         <div className="px-4 py-2">
@@ -138,7 +169,7 @@ export function GameView({
           <div className="rounded-lg border bg-card overflow-hidden">
             {/* Round & Contract Info */}
             <div className="px-4 py-2 bg-muted/30 text-center text-sm text-muted-foreground">
-              Round {gameState.currentRound} of 6 ·{" "}
+              Round {gameState.currentRound} of {gameState.totalRounds} ·{" "}
               <span className="font-medium text-foreground">
                 {gameState.contract.sets > 0 &&
                   `${gameState.contract.sets} set${gameState.contract.sets > 1 ? "s" : ""}`}
@@ -158,6 +189,26 @@ export function GameView({
               borderless
             />
 
+            {/* Opponent Tracker - inline on desktop, in a drawer on mobile */}
+            {isMobile ? (
+              <div className="px-4 py-2 border-t">
+                <button
+                  type="button"
+                  className="w-full text-sm font-medium text-muted-foreground hover:text-foreground"
+                  onClick={() => state.handleAction("opponentTracker")}
+                >
+                  Opponent tracker
+                </button>
+              </div>
+            ) : (
+              <div className="p-4 border-t">
+                <h3 className="text-sm font-medium text-muted-foreground mb-3">
+                  Opponent Tracker
+                </h3>
+                <OpponentTrackerDisplay opponents={derived.opponentTracker} />
+              </div>
+            )}
+
             {/* Activity Log */}
             <div className="p-4 border-t">
               <h3 className="text-sm font-medium text-muted-foreground mb-3">
@@ -203,6 +254,7 @@ export function GameView({
         closeDrawer={state.closeDrawer}
         gameState={gameState}
         tablePlayers={derived.tablePlayers}
+        opponentTracker={derived.opponentTracker}
         swappableJokers={derived.swappableJokers}
         onLayDown={state.handleLayDown}
         onLayOff={state.handleLayOff}
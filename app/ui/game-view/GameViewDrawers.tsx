@@ -1,12 +1,17 @@
 import type { PlayerView } from "~/party/protocol.types";
 import type { SwappableJoker } from "~/ui/swap-joker-view/swap-joker-view.types";
-import type { ActiveDrawer, TablePlayerInfo } from "./game-view.types";
+import type {
+  ActiveDrawer,
+  OpponentTrackerInfo,
+  TablePlayerInfo,
+} from "./game-view.types";
 import { ResponsiveDrawer } from "~/ui/responsive-drawer/ResponsiveDrawer";
 import { LayDownDrawer } from "~/ui/lay-down-view/LayDownDrawer";
 import { LayOffView } from "~/ui/lay-off-view/LayOffView";
 import { DiscardView } from "~/ui/discard-view/DiscardView";
 import { SwapJokerView } from "~/ui/swap-joker-view/SwapJokerView";
 import { OrganizeHandView } from "~/ui/organize-hand/OrganizeHandView";
+import { OpponentTrackerDisplay } from "~/ui/game-status/OpponentTrackerDisplay";
 
 interface MeldSubmission {
   type: "set" | "run";
@@ -18,6 +23,7 @@ interface GameViewDrawersProps {
   closeDrawer: () => void;
   gameState: PlayerView;
   tablePlayers: TablePlayerInfo[];
+  opponentTracker: OpponentTrackerInfo[];
   swappableJokers: SwappableJoker[];
   onLayDown: (melds: Array<MeldSubmission>) => void;
   onLayOff: (
@@ -35,7 +41,8 @@ interface GameViewDrawersProps {
 }
 
 /**
- * Groups all action drawers (layDown, layOff, discard, swapJoker, organize).
+ * Groups all action drawers (layDown, layOff, discard, swapJoker, organize)
+ * and the opponent tracker, which mobile shows in a drawer.
  * Each drawer is controlled by the activeDrawer state.
  */
 export function GameViewDrawers({
@@ -43,6 +50,7 @@ export function GameViewDrawers({
   closeDrawer,
   gameState,
   tablePlayers,
+  opponentTracker,
   swappableJokers,
   onLayDown,
   onLayOff,
@@ -131,6 +139,17 @@ export function GameViewDrawers({
           onCancel={closeDrawer}
         />
       </ResponsiveDrawer>
+
+      {/* Opponent Tracker Drawer */}
+      <ResponsiveDrawer
+        open={activeDrawer === "opponentTracker"}
+        onOpenChange={(open) => !open && closeDrawer()}
+        title="Opponent Tracker"
+        description="Cards each opponent picked up and discarded this round"
+        className="sm:max-w-lg"
+      >
+        <OpponentTrackerDisplay opponents={opponentTracker} />
+      </ResponsiveDrawer>
     </>
   );
 }
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Bot, UserX } from "lucide-react";
+import { Button } from "~/shadcn/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/shadcn/components/ui/select";
+import {
+  AI_MODEL_IDS,
+  AI_MODEL_DISPLAY_NAMES,
+  type AIModelId,
+  type GameSeatInfo,
+} from "~/party/protocol.types";
+import { cn } from "~/shadcn/lib/utils";
+
+/** Bots need no API key, so they are the safest stand-in */
+const DEFAULT_STAND_IN_MODEL: AIModelId = "bot:medium";
+
+interface VacantSeatsBannerProps {
+  /** Human seats whose player disconnected or left */
+  seats: GameSeatInfo[];
+  onHandSeatToAI: (playerId: string, modelId: AIModelId) => void;
+  className?: string;
+}
+
+/**
+ * Offers to let an AI play the seats of players who left, so the rest of the
+ * table can finish the game
+ */
+export function VacantSeatsBanner({ seats, onHandSeatToAI, className }: VacantSeatsBannerProps) {
+  if (seats.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {seats.map((seat) => (
+        <VacantSeatRow key={seat.playerId} seat={seat} onHandSeatToAI={onHandSeatToAI} />
+      ))}
+    </div>
+  );
+}
+
+function VacantSeatRow({
+  seat,
+  onHandSeatToAI,
+}: {
+  seat: GameSeatInfo;
+  onHandSeatToAI: (playerId: string, modelId: AIModelId) => void;
+}) {
+  const [modelId, setModelId] = useState<AIModelId>(DEFAULT_STAND_IN_MODEL);
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-2 px-3 py-2 rounded-lg bg-slate-50 border border-slate-200"
+      role="status"
+    >
+      <UserX className="w-4 h-4 shrink-0 text-muted-foreground" />
+      <span className="text-sm font-medium">{seat.name} has left the table</span>
+      <div className="ml-auto flex items-center gap-2">
+        <Select value={modelId} onValueChange={(v) => setModelId(v as AIModelId)}>
+          <SelectTrigger className="h-8 w-40" aria-label={`AI to play for ${seat.name}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {AI_MODEL_IDS.map((id) => (
+              <SelectItem key={id} value={id}>
+                {AI_MODEL_DISPLAY_NAMES[id]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          className="h-8 gap-1"
+          onClick={() => onHandSeatToAI(seat.playerId, modelId)}
+        >
+          <Bot className="h-4 w-4" />
+          Let AI play
+        </Button>
+      </div>
+    </div>
+  );
+}
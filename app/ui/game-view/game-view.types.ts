@@ -2,12 +2,15 @@
  * Shared types for GameView components
  */
 
+import type { Card } from "core/card/card.types";
+
 export type ActiveDrawer =
   | "layDown"
   | "layOff"
   | "discard"
   | "swapJoker"
   | "organize"
+  | "opponentTracker"
   | null;
 
 export interface ActivityEntry {
@@ -28,6 +31,30 @@ export interface PlayerDisplayInfo {
   score: number;
 }
 
+/**
+ * Per-opponent discard pile history used by OpponentTrackerDisplay
+ */
+export interface OpponentTrackerInfo {
+  id: string;
+  name: string;
+  avatarId?: string;
+  pickedUp: Card[];
+  wonByMayI: Card[];
+  discarded: Card[];
+}
+
+/**
+ * Turn clock as local timestamps (converted from the server's durations on receipt)
+ */
+export interface TurnClockInfo {
+  /** Player on the clock */
+  playerId: string;
+  /** When the per-turn time runs out and the time bank starts */
+  turnEndsAt: number;
+  /** When the turn is played automatically */
+  deadline: number;
+}
+
 /**
  * Simplified player info for TableDisplay (just identity)
  */
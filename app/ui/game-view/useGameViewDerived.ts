@@ -1,7 +1,11 @@
 import { useMemo } from "react";
 import type { PlayerView } from "~/party/protocol.types";
 import type { SwappableJoker } from "~/ui/swap-joker-view/swap-joker-view.types";
-import type { PlayerDisplayInfo, TablePlayerInfo } from "./game-view.types";
+import type {
+  OpponentTrackerInfo,
+  PlayerDisplayInfo,
+  TablePlayerInfo,
+} from "./game-view.types";
 import { identifyJokerPositions } from "core/meld/meld.joker";
 import {
   getDiscardInteractiveLabel,
@@ -19,6 +23,8 @@ export interface UseGameViewDerivedReturn {
   allPlayers: PlayerDisplayInfo[];
   /** Simple player info (id, name, avatarId) for TableDisplay */
   tablePlayers: TablePlayerInfo[];
+  /** Opponents in turn order with their discard pile history, for OpponentTrackerDisplay */
+  opponentTracker: OpponentTrackerInfo[];
   /** Label for discard pile interaction ("pickup" | "may-i" | undefined) */
   discardInteractiveLabel: "pickup" | "may-i" | undefined;
   /** Player whose turn it is (for display) */
@@ -112,6 +118,26 @@ export function useGameViewDerived({
     }));
   }, [allPlayers]);
 
+  // Opponents' public discard pile history this round, in turn order
+  const opponentTracker = useMemo((): OpponentTrackerInfo[] => {
+    const knowledgeById = new Map(
+      gameState.cardKnowledge.opponents.map((o) => [o.playerId, o])
+    );
+    return allPlayers
+      .filter((p) => p.id !== gameState.viewingPlayerId)
+      .map((p) => {
+        const knowledge = knowledgeById.get(p.id);
+        return {
+          id: p.id,
+          name: p.name,
+          avatarId: p.avatarId,
+          pickedUp: knowledge?.tookFromDiscard ?? [],
+          wonByMayI: knowledge?.wonByMayI ?? [],
+          discarded: knowledge?.discarded ?? [],
+        };
+      });
+  }, [allPlayers, gameState.cardKnowledge, gameState.viewingPlayerId]);
+
   // Current player (the one whose turn it is)
   const currentPlayerId = gameState.awaitingPlayerId;
 
@@ -153,6 +179,7 @@ export function useGameViewDerived({
     swappableJokers,
     allPlayers,
     tablePlayers,
+    opponentTracker,
     discardInteractiveLabel,
     awaitingPlayer,
     turnPhaseText,
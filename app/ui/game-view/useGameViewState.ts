@@ -104,7 +104,8 @@ export function useGameViewState({
         action === "layOff" ||
         action === "discard" ||
         action === "swapJoker" ||
-        action === "organize"
+        action === "organize" ||
+        action === "opponentTracker"
       ) {
         setIsHandDrawerOpen(false);
         setActiveDrawer(action);
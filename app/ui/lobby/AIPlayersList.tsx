@@ -5,10 +5,12 @@ import { PlayerCard } from "./PlayerCard";
 
 interface AIPlayersListProps {
   aiPlayers: AIPlayerInfo[];
+  /** Skill rating per player ID (the rating of the seat's model) */
+  ratings?: Record<string, number>;
   onRemove: (playerId: string) => void;
 }
 
-export function AIPlayersList({ aiPlayers, onRemove }: AIPlayersListProps) {
+export function AIPlayersList({ aiPlayers, ratings, onRemove }: AIPlayersListProps) {
   if (aiPlayers.length === 0) {
     return null;
   }
@@ -21,6 +23,7 @@ export function AIPlayersList({ aiPlayers, onRemove }: AIPlayersListProps) {
           name={player.name}
           avatarId={player.avatarId}
           isAI
+          rating={ratings?.[player.playerId]}
         >
           <RemoveButton
             name={player.name}
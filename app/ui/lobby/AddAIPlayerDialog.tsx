@@ -4,19 +4,25 @@ import { Label } from "~/shadcn/components/ui/label";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "~/shadcn/components/ui/select";
 import {
   AI_MODEL_IDS,
   AI_MODEL_DISPLAY_NAMES,
+  isBotModelId,
   type AIModelId,
 } from "~/party/protocol.types";
 import { Bot, Plus } from "lucide-react";
 import { CharacterPicker, type Character } from "./CharacterPicker";
 import { ResponsiveDrawer } from "~/ui/responsive-drawer/ResponsiveDrawer";
 
+const LLM_MODEL_IDS = AI_MODEL_IDS.filter((id) => !isBotModelId(id));
+const BOT_MODEL_IDS = AI_MODEL_IDS.filter(isBotModelId);
+
 interface AddAIPlayerDialogProps {
   onAdd: (name: string, modelId: AIModelId, avatarId: string) => void;
   takenCharacterIds?: string[];
@@ -72,11 +78,22 @@ export function AddAIPlayerDialog({
                 <SelectValue placeholder="Select AI model" />
               </SelectTrigger>
               <SelectContent>
-                {AI_MODEL_IDS.map((id) => (
-                  <SelectItem key={id} value={id}>
-                    {AI_MODEL_DISPLAY_NAMES[id]}
-                  </SelectItem>
-                ))}
+                <SelectGroup>
+                  <SelectLabel>Language models</SelectLabel>
+                  {LLM_MODEL_IDS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {AI_MODEL_DISPLAY_NAMES[id]}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+                <SelectGroup>
+                  <SelectLabel>Bots (no API key needed)</SelectLabel>
+                  {BOT_MODEL_IDS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {AI_MODEL_DISPLAY_NAMES[id]}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
               </SelectContent>
             </Select>
           </div>
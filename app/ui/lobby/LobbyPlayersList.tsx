@@ -4,12 +4,15 @@ import { PlayerCard } from "./PlayerCard";
 interface LobbyPlayersListProps {
   players: PlayerInfo[];
   currentPlayerId?: string | null;
+  /** Skill rating per player ID */
+  ratings?: Record<string, number>;
   onClickCurrentPlayer?: () => void;
 }
 
 export function LobbyPlayersList({
   players,
   currentPlayerId,
+  ratings,
   onClickCurrentPlayer,
 }: LobbyPlayersListProps) {
   if (players.length === 0) {
@@ -28,6 +31,7 @@ export function LobbyPlayersList({
             avatarId={player.avatarId}
             isCurrentPlayer={isCurrentPlayer}
             isConnected={player.isConnected}
+            rating={ratings?.[player.playerId]}
             onClick={isCurrentPlayer ? onClickCurrentPlayer : undefined}
           />
         );
@@ -4,8 +4,9 @@ import { LobbyPlayersList } from "./LobbyPlayersList";
 import { ShareLinkCard } from "./ShareLinkCard";
 import { ConnectionStatusIndicator } from "./ConnectionStatusIndicator";
 import { NamePromptDialog } from "./NamePromptDialog";
+import { OpenSeatsCard } from "./OpenSeatsCard";
 import { ViewportComparison } from "~/storybook/ViewportSimulator";
-import type { PlayerInfo, ConnectionStatus } from "./lobby.types";
+import type { PlayerInfo, ConnectionStatus, GameSeatInfo } from "./lobby.types";
 
 const SAMPLE_PLAYERS: PlayerInfo[] = [
   {
@@ -34,6 +35,12 @@ const SAMPLE_PLAYERS: PlayerInfo[] = [
   },
 ];
 
+const SAMPLE_SEATS: GameSeatInfo[] = [
+  { playerId: "player-1", name: "Alice", isAI: false, isConnected: true },
+  { playerId: "player-2", name: "Bob", isAI: false, isConnected: true },
+  { playerId: "ai-1", name: "Charlie", isAI: true, modelId: "bot:medium", isConnected: true },
+];
+
 function InteractiveLobby() {
   const [showNamePrompt, setShowNamePrompt] = useState(false);
   const [players, setPlayers] = useState<PlayerInfo[]>(SAMPLE_PLAYERS);
@@ -158,6 +165,14 @@ export function LobbyViewStory() {
         </div>
       </section>
 
+      {/* Open Seats Card */}
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Game In Progress</h2>
+        <div className="max-w-md">
+          <OpenSeatsCard seats={SAMPLE_SEATS} onClaimSeat={() => {}} />
+        </div>
+      </section>
+
       {/* Share Link Card */}
       <section>
         <h2 className="text-lg font-semibold mb-3">Share Link Card</h2>
@@ -14,8 +14,11 @@ import { ShareLinkCard } from "./ShareLinkCard";
 import { NamePromptDialog } from "./NamePromptDialog";
 import { AddAIPlayerDialog } from "./AddAIPlayerDialog";
 import { StartingRoundSelector } from "./StartingRoundSelector";
+import { TurnTimerSelector } from "./TurnTimerSelector";
+import { MatchSelector } from "./MatchSelector";
 import { StartGameButton } from "./StartGameButton";
-import { UserPlus, Pencil, ChevronDown, ChevronUp } from "lucide-react";
+import { OpenSeatsCard } from "./OpenSeatsCard";
+import { UserPlus, Pencil, ChevronDown, ChevronUp, Eye } from "lucide-react";
 import { useState } from "react";
 import type {
   ConnectionStatus,
@@ -23,7 +26,9 @@ import type {
   PlayerInfo,
   LobbyGameSettings,
   AIModelId,
+  MatchSettings,
   RoundNumber,
+  TurnTimerSettings,
 } from "./lobby.types";
 
 interface LobbyViewProps {
@@ -39,13 +44,19 @@ interface LobbyViewProps {
   showNamePrompt: boolean;
   onNamePromptChange: (open: boolean) => void;
   onJoin: (name: string, avatarId?: string) => void;
+  /** Watch without taking a seat */
+  onSpectate?: () => void;
   /** Phase 3: Game settings */
   gameSettings?: LobbyGameSettings;
   /** Phase 3: Callbacks for game setup */
   onAddAIPlayer?: (name: string, modelId: AIModelId, avatarId: string) => void;
   onRemoveAIPlayer?: (playerId: string) => void;
   onSetStartingRound?: (round: RoundNumber) => void;
+  onSetTurnTimer?: (turnTimer: TurnTimerSettings | null) => void;
+  onSetMatch?: (match: MatchSettings | null) => void;
   onStartGame?: () => void;
+  /** Take over an AI seat of the game in progress */
+  onClaimSeat?: (playerId: string) => void;
   /** Phase 3: Loading state for start game */
   isStartingGame?: boolean;
   className?: string;
@@ -62,16 +73,24 @@ export function LobbyView({
   showNamePrompt,
   onNamePromptChange,
   onJoin,
+  onSpectate,
   gameSettings,
   onAddAIPlayer,
   onRemoveAIPlayer,
   onSetStartingRound,
+  onSetTurnTimer,
+  onSetMatch,
   onStartGame,
+  onClaimSeat,
   isStartingGame,
   className,
 }: LobbyViewProps) {
   const isJoining = joinStatus === "joining";
   const isJoined = joinStatus === "joined";
+  const isSpectating = joinStatus === "spectating";
+  const spectatorCount = gameSettings?.spectatorCount ?? 0;
+  const seats = gameSettings?.seats ?? [];
+  const isGameInProgress = seats.length > 0;
   const [showAdvanced, setShowAdvanced] = useState(false);
 
   // Get current player's avatar for pre-filling the dialog
@@ -104,7 +123,7 @@ export function LobbyView({
         <div>
           <h1 className="text-2xl font-bold">Game Lobby</h1>
           <p className="text-muted-foreground text-sm">
-            Waiting for players to join...
+            {isGameInProgress ? "A game is being played" : "Waiting for players to join..."}
           </p>
         </div>
         <ConnectionStatusIndicator status={connectionStatus} />
@@ -125,11 +144,29 @@ export function LobbyView({
         ) : (
           <>
             <UserPlus className="h-4 w-4 mr-2" />
-            Choose Character
+            {isSpectating ? "Join the Game" : "Choose Character"}
           </>
         )}
       </Button>
 
+      {/* Watch without a seat (not joined yet) */}
+      {onSpectate && joinStatus === "unjoined" && (
+        <Button variant="ghost" className="w-full -mt-4" onClick={onSpectate}>
+          <Eye className="h-4 w-4 mr-2" />
+          Just watch
+        </Button>
+      )}
+      {isSpectating && (
+        <p className="-mt-4 text-center text-sm text-muted-foreground">
+          You're watching. The game will appear here when it starts.
+        </p>
+      )}
+
+      {/* Seats of the game in progress */}
+      {isGameInProgress && (
+        <OpenSeatsCard seats={seats} onClaimSeat={isJoined ? onClaimSeat : undefined} />
+      )}
+
       {/* Share link card */}
       <ShareLinkCard roomId={roomId} shareUrl={shareUrl} />
 
@@ -156,6 +193,7 @@ export function LobbyView({
             </span>
             <span className="text-sm font-normal text-muted-foreground">
               {players.filter((p) => p.isConnected).length} online
+              {spectatorCount > 0 && ` · ${spectatorCount} watching`}
             </span>
           </CardTitle>
         </CardHeader>
@@ -166,11 +204,13 @@ export function LobbyView({
               <LobbyPlayersList
                 players={players}
                 currentPlayerId={currentPlayerId}
+                ratings={gameSettings?.ratings}
                 onClickCurrentPlayer={() => onNamePromptChange(true)}
               />
               {gameSettings && gameSettings.aiPlayers.length > 0 && (
                 <AIPlayersList
                   aiPlayers={gameSettings.aiPlayers}
+                  ratings={gameSettings.ratings}
                   onRemove={onRemoveAIPlayer ?? (() => {})}
                 />
               )}
@@ -191,7 +231,7 @@ export function LobbyView({
       </Card>
 
       {/* Start Game Button (joined players, Phase 3) */}
-      {isJoined && onStartGame && (
+      {isJoined && onStartGame && !isGameInProgress && (
         <StartGameButton
           playerCount={totalPlayerCount}
           onStart={onStartGame}
@@ -222,11 +262,16 @@ export function LobbyView({
           </Button>
           {showAdvanced && (
             <Card>
-              <CardContent className="pt-4">
+              <CardContent className="pt-4 space-y-4">
                 <StartingRoundSelector
                   value={gameSettings.startingRound}
+                  contracts={gameSettings.contracts}
                   onChange={onSetStartingRound}
                 />
+                {onSetTurnTimer && (
+                  <TurnTimerSelector value={gameSettings.turnTimer} onChange={onSetTurnTimer} />
+                )}
+                {onSetMatch && <MatchSelector value={gameSettings.match} onChange={onSetMatch} />}
               </CardContent>
             </Card>
           )}
@@ -0,0 +1,65 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/shadcn/components/ui/select";
+import { Label } from "~/shadcn/components/ui/label";
+import type { MatchSettings } from "./lobby.types";
+import { cn } from "~/shadcn/lib/utils";
+
+const MATCH_OPTIONS: { match: MatchSettings; label: string }[] = [
+  { match: { format: "best_of", games: 3 }, label: "Best of 3" },
+  { match: { format: "best_of", games: 5 }, label: "Best of 5" },
+  { match: { format: "fixed", games: 2 }, label: "2 games" },
+  { match: { format: "fixed", games: 3 }, label: "3 games" },
+  { match: { format: "fixed", games: 4 }, label: "4 games" },
+];
+
+const SINGLE = "single";
+
+function toValue(match: MatchSettings | null): string {
+  return match ? `${match.format}:${match.games}` : SINGLE;
+}
+
+interface MatchSelectorProps {
+  /** null = a single game */
+  value: MatchSettings | null;
+  onChange: (match: MatchSettings | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function MatchSelector({ value, onChange, disabled, className }: MatchSelectorProps) {
+  const onValueChange = (v: string) => {
+    const option = MATCH_OPTIONS.find((o) => toValue(o.match) === v);
+    onChange(option ? option.match : null);
+  };
+
+  return (
+    <div className={cn("grid gap-2", className)}>
+      <Label htmlFor="match-format">Match</Label>
+      <Select value={toValue(value)} onValueChange={onValueChange} disabled={disabled}>
+        <SelectTrigger id="match-format" className="w-full">
+          <SelectValue placeholder="Single game" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={SINGLE}>Single game</SelectItem>
+          {MATCH_OPTIONS.map((option) => (
+            <SelectItem key={toValue(option.match)} value={toValue(option.match)}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">
+        {value?.format === "best_of"
+          ? "First to win a majority of games takes the match."
+          : value
+            ? "Lowest total score after every game wins the match."
+            : "One six-round game."}
+      </p>
+    </div>
+  );
+}
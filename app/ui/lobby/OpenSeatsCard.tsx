@@ -0,0 +1,73 @@
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "~/shadcn/components/ui/card";
+import { Button } from "~/shadcn/components/ui/button";
+import { Armchair } from "lucide-react";
+import { AI_MODEL_DISPLAY_NAMES, type GameSeatInfo } from "~/party/protocol.types";
+import { PlayerCard } from "./PlayerCard";
+
+interface OpenSeatsCardProps {
+  /** Seats of the game in progress */
+  seats: GameSeatInfo[];
+  /** Omit until the player has joined the room */
+  onClaimSeat?: (playerId: string) => void;
+  className?: string;
+}
+
+/**
+ * Lobby card for a game already in progress: any seat an AI is playing can be
+ * taken over, keeping its cards and score
+ */
+export function OpenSeatsCard({ seats, onClaimSeat, className }: OpenSeatsCardProps) {
+  const hasAISeats = seats.some((seat) => seat.isAI);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Armchair className="w-5 h-5 text-primary" />
+          Game in progress
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {!hasAISeats
+            ? "Every seat has a player. You can watch until the game ends."
+            : onClaimSeat
+              ? "Take over a seat an AI is playing. You keep its cards and score."
+              : "Choose a character to take over a seat an AI is playing."}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {seats.map((seat) => (
+            <PlayerCard
+              key={seat.playerId}
+              name={seat.name}
+              avatarId={seat.avatarId}
+              isAI={seat.isAI}
+              isConnected={seat.isConnected}
+            >
+              {seat.isAI && seat.modelId && (
+                <span className="text-xs text-muted-foreground">
+                  {AI_MODEL_DISPLAY_NAMES[seat.modelId]}
+                </span>
+              )}
+              {seat.isAI && onClaimSeat && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="mt-2 h-7"
+                  onClick={() => onClaimSeat(seat.playerId)}
+                >
+                  Take seat
+                </Button>
+              )}
+            </PlayerCard>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
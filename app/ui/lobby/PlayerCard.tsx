@@ -7,6 +7,8 @@ interface PlayerCardProps {
   isCurrentPlayer?: boolean;
   isAI?: boolean;
   isConnected?: boolean;
+  /** Skill rating, shown under the name once the player has one */
+  rating?: number;
   onClick?: () => void;
   children?: React.ReactNode;
 }
@@ -17,6 +19,7 @@ export function PlayerCard({
   isCurrentPlayer = false,
   isAI = false,
   isConnected = true,
+  rating,
   onClick,
   children,
 }: PlayerCardProps) {
@@ -36,6 +39,11 @@ export function PlayerCard({
       {isCurrentPlayer && (
         <span className="text-xs text-muted-foreground">(you)</span>
       )}
+      {rating !== undefined && (
+        <span className="text-xs text-muted-foreground tabular-nums" title="Skill rating">
+          {rating}
+        </span>
+      )}
       {children}
     </>
   );
@@ -1,4 +1,6 @@
 import { useState, useCallback } from "react";
+import { Link } from "react-router";
+import { Tv } from "lucide-react";
 import {
   Card,
   CardContent,
@@ -115,6 +117,14 @@ export function ShareLinkCard({
           <code className="bg-muted px-2 py-0.5 rounded font-mono text-sm font-medium">
             {roomId}
           </code>
+          <Link
+            to={`/game/${roomId}/table`}
+            target="_blank"
+            className="ml-auto flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <Tv className="h-3.5 w-3.5" />
+            Show on a TV
+          </Link>
         </div>
       </CardContent>
     </Card>
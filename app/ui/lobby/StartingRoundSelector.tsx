@@ -7,23 +7,20 @@ import {
 } from "~/shadcn/components/ui/select";
 import { Label } from "~/shadcn/components/ui/label";
 import type { RoundNumber } from "../../../core/engine/engine.types";
+import {
+  DEFAULT_CARDS_DEALT,
+  DEFAULT_CONTRACTS,
+  describeContract,
+  getContractForRound,
+  type Contract,
+} from "../../../core/engine/contracts";
 import { cn } from "~/shadcn/lib/utils";
 
-/**
- * Contract descriptions for each round
- */
-const ROUND_CONTRACTS: Record<RoundNumber, string> = {
-  1: "2 sets",
-  2: "1 set + 1 run",
-  3: "2 runs",
-  4: "3 sets",
-  5: "2 sets + 1 run",
-  6: "1 set + 2 runs",
-};
-
 interface StartingRoundSelectorProps {
   value: RoundNumber;
   onChange: (round: RoundNumber) => void;
+  /** The game's contract sequence, one option per round */
+  contracts?: Contract[];
   disabled?: boolean;
   className?: string;
 }
@@ -31,9 +28,12 @@ interface StartingRoundSelectorProps {
 export function StartingRoundSelector({
   value,
   onChange,
+  contracts = DEFAULT_CONTRACTS,
   disabled,
   className,
 }: StartingRoundSelectorProps) {
+  const selected = getContractForRound(value, contracts);
+
   return (
     <div className={cn("grid gap-2", className)}>
       <Label htmlFor="starting-round">Starting Round</Label>
@@ -46,26 +46,24 @@ export function StartingRoundSelector({
           <SelectValue placeholder="Select starting round" />
         </SelectTrigger>
         <SelectContent>
-          {([1, 2, 3, 4, 5, 6] as RoundNumber[]).map((round) => (
-            <SelectItem key={round} value={round.toString()}>
+          {contracts.map((contract) => (
+            <SelectItem key={contract.roundNumber} value={contract.roundNumber.toString()}>
               <span className="flex items-center gap-2">
-                <span className="font-medium">Round {round}</span>
+                <span className="font-medium">Round {contract.roundNumber}</span>
                 <span className="text-muted-foreground">
-                  — {ROUND_CONTRACTS[round]}
+                  — {describeContract(contract)}
                 </span>
               </span>
             </SelectItem>
           ))}
         </SelectContent>
       </Select>
-      <p className="text-xs text-muted-foreground">
-        Contract: {ROUND_CONTRACTS[value]}
-      </p>
+      {selected && (
+        <p className="text-xs text-muted-foreground">
+          Contract: {describeContract(selected)}
+          {selected.cardsDealt !== DEFAULT_CARDS_DEALT && ` · ${selected.cardsDealt} cards dealt`}
+        </p>
+      )}
     </div>
   );
 }
-
-/**
- * Export contract descriptions for use in other components
- */
-export { ROUND_CONTRACTS };
@@ -0,0 +1,97 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "~/shadcn/components/ui/select";
+import { Label } from "~/shadcn/components/ui/label";
+import type { TurnTimerSettings } from "./lobby.types";
+import { cn } from "~/shadcn/lib/utils";
+
+const TURN_OPTIONS = [
+  { seconds: 30, label: "30 seconds" },
+  { seconds: 60, label: "1 minute" },
+  { seconds: 90, label: "90 seconds" },
+  { seconds: 120, label: "2 minutes" },
+];
+
+const BANK_OPTIONS = [
+  { seconds: 0, label: "No time bank" },
+  { seconds: 60, label: "1 minute" },
+  { seconds: 180, label: "3 minutes" },
+  { seconds: 300, label: "5 minutes" },
+];
+
+const OFF = "off";
+
+interface TurnTimerSelectorProps {
+  /** null = no turn clock */
+  value: TurnTimerSettings | null;
+  onChange: (turnTimer: TurnTimerSettings | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function TurnTimerSelector({
+  value,
+  onChange,
+  disabled,
+  className,
+}: TurnTimerSelectorProps) {
+  const onTurnChange = (v: string) => {
+    if (v === OFF) {
+      onChange(null);
+      return;
+    }
+    onChange({ secondsPerTurn: parseInt(v, 10), bankSeconds: value?.bankSeconds ?? 0 });
+  };
+
+  return (
+    <div className={cn("grid gap-2", className)}>
+      <Label htmlFor="turn-timer">Turn Timer</Label>
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          value={value ? value.secondsPerTurn.toString() : OFF}
+          onValueChange={onTurnChange}
+          disabled={disabled}
+        >
+          <SelectTrigger id="turn-timer" className="w-full">
+            <SelectValue placeholder="Time per turn" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={OFF}>No timer</SelectItem>
+            {TURN_OPTIONS.map((option) => (
+              <SelectItem key={option.seconds} value={option.seconds.toString()}>
+                {option.label} per turn
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={(value?.bankSeconds ?? 0).toString()}
+          onValueChange={(v) =>
+            value && onChange({ ...value, bankSeconds: parseInt(v, 10) })
+          }
+          disabled={disabled || !value}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Time bank" />
+          </SelectTrigger>
+          <SelectContent>
+            {BANK_OPTIONS.map((option) => (
+              <SelectItem key={option.seconds} value={option.seconds.toString()}>
+                {option.seconds === 0 ? option.label : `${option.label} bank`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {value
+          ? "When a player's time and bank run out, their turn is played for them."
+          : "Players can take as long as they like."}
+      </p>
+    </div>
+  );
+}
@@ -4,13 +4,20 @@
  */
 
 import type { RoundNumber } from "../../../core/engine/engine.types";
-import type { AIPlayerInfo, AIModelId } from "~/party/protocol.types";
+import type { Contract } from "../../../core/engine/contracts";
+import type {
+  AIPlayerInfo,
+  AIModelId,
+  GameSeatInfo,
+  MatchSettings,
+  TurnTimerSettings,
+} from "~/party/protocol.types";
 
 /** Connection status for the WebSocket */
 export type ConnectionStatus = "connecting" | "connected" | "disconnected" | "reconnecting";
 
-/** Join status for the player */
-export type JoinStatus = "unjoined" | "joining" | "joined";
+/** Join status for the player ("spectating" = watching without a seat) */
+export type JoinStatus = "unjoined" | "joining" | "joined" | "spectating";
 
 /** Player info as sent from server */
 export interface PlayerInfo {
@@ -25,6 +32,17 @@ export interface PlayerInfo {
 export interface LobbyGameSettings {
   aiPlayers: AIPlayerInfo[];
   startingRound: RoundNumber;
+  contracts: Contract[];
+  /** null = no turn clock */
+  turnTimer: TurnTimerSettings | null;
+  /** null = a single game */
+  match: MatchSettings | null;
+  /** Skill rating per player ID (unrated players are left out) */
+  ratings: Record<string, number>;
+  /** Connections watching without a seat */
+  spectatorCount: number;
+  /** Seats of the game in progress (empty outside a game) */
+  seats: GameSeatInfo[];
   canStart: boolean;
 }
 
@@ -38,4 +56,11 @@ export interface LobbyState {
 }
 
 /** Re-export types for convenience */
-export type { AIPlayerInfo, AIModelId, RoundNumber };
+export type {
+  AIPlayerInfo,
+  AIModelId,
+  GameSeatInfo,
+  MatchSettings,
+  RoundNumber,
+  TurnTimerSettings,
+};
@@ -0,0 +1,64 @@
+import { PlayerStatsView } from "./PlayerStatsView";
+import {
+  buildPlayerStatsSummary,
+  createEmptyPlayerStats,
+} from "~/party/player-stats.records";
+
+const SEASONED_PLAYER = buildPlayerStatsSummary({
+  gamesPlayed: 12,
+  gamesWon: 4,
+  roundsPlayed: 72,
+  roundsWon: 19,
+  totalPoints: 3240,
+  jokersCaught: 9,
+  mayICalls: 31,
+  recentGames: [
+    {
+      roomId: "happy-otter-42",
+      endedAt: "2026-03-14T21:10:00.000Z",
+      name: "Alice",
+      playerCount: 4,
+      roundScores: [0, 35, 10, 0, 60, 15],
+      totalScore: 120,
+      won: true,
+      roundsWon: 2,
+      jokersCaught: 1,
+      mayICalls: 3,
+    },
+    {
+      roomId: "quiet-heron-7",
+      endedAt: "2026-03-07T20:45:00.000Z",
+      name: "Alice",
+      playerCount: 5,
+      roundScores: [45, 20, 80, 0, 35, 95],
+      totalScore: 275,
+      won: false,
+      roundsWon: 1,
+      jokersCaught: 2,
+      mayICalls: 4,
+    },
+  ],
+});
+
+export function PlayerStatsViewStory() {
+  return (
+    <div className="space-y-10 max-w-lg">
+      <header>
+        <h1 className="text-2xl font-bold">PlayerStatsView</h1>
+        <p className="text-muted-foreground mt-1">
+          Lifetime stats and recent games on the profile page.
+        </p>
+      </header>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Seasoned Player</h2>
+        <PlayerStatsView stats={SEASONED_PLAYER} />
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-3">No Games Yet</h2>
+        <PlayerStatsView stats={buildPlayerStatsSummary(createEmptyPlayerStats())} />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { Card, CardContent, CardHeader, CardTitle } from "~/shadcn/components/ui/card";
+import { cn } from "~/shadcn/lib/utils";
+import type { PlayerStatsSummary } from "~/party/player-stats.records";
+
+interface PlayerStatsViewProps {
+  stats: PlayerStatsSummary;
+  className?: string;
+}
+
+/**
+ * Lifetime stats for the player on this device, with their recent games
+ */
+export function PlayerStatsView({ stats, className }: PlayerStatsViewProps) {
+  const name = stats.recentGames[0]?.name;
+  const winRate = stats.gamesPlayed > 0 ? stats.gamesWon / stats.gamesPlayed : null;
+
+  return (
+    <Card className={cn("w-full max-w-lg", className)}>
+      <CardHeader>
+        <CardTitle className="text-2xl">{name ? `${name}'s Stats` : "Your Stats"}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {stats.gamesPlayed === 0 ? (
+          <p className="text-sm text-muted-foreground italic">
+            Finish a game to start your stats.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-3">
+              <Stat label="Games" value={stats.gamesPlayed} />
+              <Stat
+                label="Wins"
+                value={stats.gamesWon}
+                detail={winRate !== null ? `${Math.round(winRate * 100)}%` : undefined}
+              />
+              <Stat label="Rounds won" value={stats.roundsWon} detail={`of ${stats.roundsPlayed}`} />
+              <Stat
+                label="Avg pts / round"
+                value={
+                  stats.averagePointsPerRound !== null
+                    ? stats.averagePointsPerRound.toFixed(1)
+                    : "–"
+                }
+              />
+              <Stat label="Caught with Jokers" value={stats.jokersCaught} />
+              <Stat label="May I calls" value={stats.mayICalls} />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-muted-foreground">Recent Games</h3>
+              <div className="divide-y rounded-lg border">
+                {stats.recentGames.map((game) => (
+                  <div
+                    key={`${game.roomId}-${game.endedAt}`}
+                    className={cn(
+                      "flex items-center justify-between py-2 px-3 text-sm",
+                      game.won && "bg-primary/5"
+                    )}
+                  >
+                    <div>
+                      <div className="font-medium">
+                        {game.won ? "Won" : "Played"} · {game.playerCount} players
+                      </div>
+                      <div className="text-xs text-muted-foreground tabular-nums">
+                        {new Date(game.endedAt).toLocaleDateString()} · rounds{" "}
+                        {game.roundScores.join(" / ")}
+                      </div>
+                    </div>
+                    <span className="tabular-nums font-medium">{game.totalScore} pts</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function Stat({
+  label,
+  value,
+  detail,
+}: {
+  label: string;
+  value: number | string;
+  detail?: string;
+}) {
+  return (
+    <div className="rounded-lg border px-3 py-2">
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-xl font-semibold tabular-nums">
+        {value}
+        {detail && <span className="ml-1 text-xs font-normal text-muted-foreground">{detail}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { SkillRatingsTable } from "./SkillRatingsTable";
+import type { RatingEntry } from "~/party/skill-ratings";
+
+const AI_MODELS: RatingEntry[] = [
+  { key: "model:default:claude", name: "Claude", isAI: true, rating: 1587.4, games: 23 },
+  { key: "model:default:grok", name: "Grok", isAI: true, rating: 1541.9, games: 21 },
+  { key: "model:bot:hard", name: "Hard Bot", isAI: true, rating: 1502.2, games: 1 },
+];
+
+const PLAYERS: RatingEntry[] = [
+  { key: "profile:abc", name: "Alice", isAI: false, rating: 1563.1, games: 12 },
+  { key: "profile:def", name: "Bob", isAI: false, rating: 1448.6, games: 9 },
+];
+
+export function SkillRatingsTableStory() {
+  return (
+    <div className="space-y-10 max-w-lg">
+      <header>
+        <h1 className="text-2xl font-bold">SkillRatingsTable</h1>
+        <p className="text-muted-foreground mt-1">Leaderboards on the ratings page.</p>
+      </header>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-3">AI Models</h2>
+        <SkillRatingsTable title="AI Models" entries={AI_MODELS} />
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Players</h2>
+        <SkillRatingsTable title="Players" entries={PLAYERS} />
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Empty</h2>
+        <SkillRatingsTable title="Players" entries={[]} />
+      </section>
+    </div>
+  );
+}
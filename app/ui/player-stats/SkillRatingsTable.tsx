@@ -0,0 +1,51 @@
+import { Bot } from "lucide-react";
+import { cn } from "~/shadcn/lib/utils";
+import type { RatingEntry } from "~/party/skill-ratings";
+
+interface SkillRatingsTableProps {
+  title: string;
+  /** Best first */
+  entries: RatingEntry[];
+  className?: string;
+}
+
+/**
+ * One leaderboard of skill ratings (AI models or players)
+ */
+export function SkillRatingsTable({
+  title,
+  entries,
+  className,
+}: SkillRatingsTableProps) {
+  return (
+    <div className={cn("space-y-2", className)}>
+      <h3 className="text-sm font-medium text-muted-foreground">{title}</h3>
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">No rated games yet</p>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {entries.map((entry, index) => (
+            <div
+              key={entry.key}
+              className="flex items-center justify-between py-2 px-3 text-sm"
+            >
+              <div className="flex items-center gap-3">
+                <span className="w-5 text-right text-muted-foreground tabular-nums">
+                  {index + 1}
+                </span>
+                <span>{entry.name}</span>
+                {entry.isAI && <Bot className="h-3.5 w-3.5 text-violet-500" />}
+              </div>
+              <div className="flex gap-4 tabular-nums">
+                <span className="text-muted-foreground">
+                  {entry.games} {entry.games === 1 ? "game" : "games"}
+                </span>
+                <span className="font-medium w-12 text-right">{Math.round(entry.rating)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { Eye } from "lucide-react";
+import type { SpectatorView } from "~/party/protocol.types";
+import type { ConnectionStatus } from "~/ui/lobby/lobby.types";
+import type { ActivityEntry, TurnClockInfo } from "~/ui/game-view/game-view.types";
+import type { MayINotificationState } from "~/routes/game.$roomId";
+import { GameHeader } from "~/ui/game-status/GameHeader";
+import { TableDisplay } from "~/ui/game-table/TableDisplay";
+import { DiscardPileDisplay } from "~/ui/game-table/DiscardPileDisplay";
+import { PlayersTableDisplay } from "~/ui/game-status/PlayersTableDisplay";
+import { ActivityLog } from "~/ui/game-status/ActivityLog";
+import { AIThinkingIndicator } from "~/ui/game-view/AIThinkingIndicator";
+import { ConnectionBanner } from "~/ui/connection-status/ConnectionBanner";
+import { cn } from "~/shadcn/lib/utils";
+
+interface SpectatorGameViewProps {
+  state: SpectatorView;
+  /** Name of AI player currently thinking (if any) */
+  aiThinkingPlayerName?: string;
+  activityLog?: ActivityEntry[];
+  connectionStatus?: ConnectionStatus;
+  mayINotification?: MayINotificationState | null;
+  turnClock?: TurnClockInfo | null;
+  className?: string;
+}
+
+/**
+ * Read-only game view for spectators: the table, piles, scores and activity,
+ * with no hand and no actions
+ */
+export function SpectatorGameView({
+  state,
+  aiThinkingPlayerName,
+  activityLog = [],
+  connectionStatus = "connected",
+  mayINotification,
+  turnClock,
+  className,
+}: SpectatorGameViewProps) {
+  const awaitingPlayer = state.players.find((p) => p.id === state.awaitingPlayerId);
+  const clockPlayer = turnClock
+    ? state.players.find((p) => p.id === turnClock.playerId)
+    : undefined;
+
+  return (
+    <div className={cn("flex flex-col min-h-screen", className)}>
+      <ConnectionBanner status={connectionStatus} />
+
+      <GameHeader
+        round={state.currentRound}
+        totalRounds={state.totalRounds}
+        contract={state.contract}
+        turnStatus={awaitingPlayer ? `Waiting for ${awaitingPlayer.name}` : undefined}
+        turnClock={
+          turnClock && clockPlayer
+            ? {
+                label: clockPlayer.name,
+                isYours: false,
+                turnEndsAt: turnClock.turnEndsAt,
+                deadline: turnClock.deadline,
+              }
+            : undefined
+        }
+      />
+
+      <div className="flex items-center justify-center gap-2 py-1 text-xs text-muted-foreground">
+        <Eye className="h-3.5 w-3.5" />
+        Watching
+      </div>
+
+      {aiThinkingPlayerName && (
+        <div className="px-4 py-2">
+          <AIThinkingIndicator playerName={aiThinkingPlayerName} />
+        </div>
+      )}
+
+      <div className="flex-1 p-4 min-h-0 overflow-y-auto">
+        <div className="max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-4 lg:gap-6">
+          <div className="lg:col-span-2 space-y-4">
+            <div className="flex items-end justify-center gap-6">
+              <DiscardPileDisplay topCard={state.topDiscard} size="lg" />
+              <div className="text-sm text-muted-foreground tabular-nums">
+                {state.stockCount} cards in stock
+              </div>
+            </div>
+            <TableDisplay
+              melds={state.table}
+              players={state.players}
+              currentPlayerId={state.awaitingPlayerId}
+              mayINotification={mayINotification}
+            />
+          </div>
+
+          <div className="rounded-lg border bg-card overflow-hidden">
+            <PlayersTableDisplay
+              players={state.players.map((p) => ({
+                id: p.id,
+                name: p.name,
+                avatarId: p.avatarId,
+                cardCount: p.handCount,
+                isDown: p.isDown,
+                score: p.totalScore,
+              }))}
+              activePlayerId={state.awaitingPlayerId}
+              borderless
+            />
+            <div className="p-4 border-t">
+              <h3 className="text-sm font-medium text-muted-foreground mb-3">Activity</h3>
+              <ActivityLog entries={activityLog} maxEntries={8} />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
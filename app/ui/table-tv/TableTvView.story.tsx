@@ -0,0 +1,139 @@
+import { TableTvView } from "./TableTvView";
+import type { SpectatorView } from "~/party/protocol.types";
+import type { Card } from "core/card/card.types";
+import { DEFAULT_RULE_SET } from "core/engine/house-rules";
+
+function card(id: string, rank: Card["rank"], suit: Card["suit"]): Card {
+  return { id, rank, suit };
+}
+
+const MOCK_STATE: SpectatorView = {
+  gameId: "story-game",
+  players: [
+    {
+      id: "p1",
+      name: "Grandma",
+      avatarId: "ethel",
+      handCount: 6,
+      isDown: true,
+      totalScore: 35,
+      isDealer: true,
+      isCurrentPlayer: false,
+    },
+    {
+      id: "p2",
+      name: "Max",
+      avatarId: "curt",
+      handCount: 9,
+      isDown: false,
+      totalScore: 80,
+      isDealer: false,
+      isCurrentPlayer: true,
+    },
+    {
+      id: "p3",
+      name: "Lily",
+      handCount: 4,
+      isDown: true,
+      totalScore: 10,
+      isDealer: false,
+      isCurrentPlayer: false,
+    },
+    {
+      id: "p4",
+      name: "Uncle Joe",
+      handCount: 11,
+      isDown: false,
+      totalScore: 120,
+      isDealer: false,
+      isCurrentPlayer: false,
+    },
+  ],
+  currentRound: 2,
+  totalRounds: 6,
+  contract: { roundNumber: 2, sets: 1, runs: 1, cardsDealt: 11, mustUseAllCards: false },
+  rules: DEFAULT_RULE_SET,
+  phase: "ROUND_ACTIVE",
+  turnPhase: "AWAITING_DISCARD",
+  turnNumber: 14,
+  awaitingPlayerId: "p2",
+  stockCount: 52,
+  topDiscard: card("d1", "7", "hearts"),
+  discardCount: 12,
+  table: [
+    {
+      id: "meld-1",
+      type: "set",
+      ownerId: "p1",
+      cards: [card("c1", "K", "hearts"), card("c2", "K", "clubs"), card("c3", "K", "spades")],
+    },
+    {
+      id: "meld-2",
+      type: "run",
+      ownerId: "p1",
+      cards: [
+        card("c4", "5", "diamonds"),
+        card("c5", "6", "diamonds"),
+        card("c6", "7", "diamonds"),
+        card("c7", "8", "diamonds"),
+      ],
+    },
+    {
+      id: "meld-3",
+      type: "set",
+      ownerId: "p3",
+      cards: [card("c8", "9", "hearts"), card("c9", "9", "spades"), card("c10", "9", "clubs")],
+    },
+  ],
+  roundHistory: [],
+  mayIContext: null,
+};
+
+const MAY_I_STATE: SpectatorView = {
+  ...MOCK_STATE,
+  phase: "RESOLVING_MAY_I",
+  turnPhase: "AWAITING_DRAW",
+  mayIContext: {
+    originalCaller: "p3",
+    cardBeingClaimed: card("d1", "7", "hearts"),
+    playersToCheck: ["p2", "p4"],
+    currentPromptIndex: 0,
+    playerBeingPrompted: "p2",
+    playersWhoAllowed: [],
+    winner: null,
+    outcome: null,
+  },
+};
+
+const ACTIVITY = [
+  { id: "1", message: "Lily: laid down 9♥ 9♠ 9♣" },
+  { id: "2", message: "Lily: discarded 7♥" },
+  { id: "3", message: "Max: drew from stock" },
+];
+
+export function TableTvViewStory() {
+  return (
+    <div className="space-y-6">
+      <header>
+        <h1 className="text-2xl font-bold">TableTvView</h1>
+        <p className="text-muted-foreground mt-1">
+          Landscape big-screen table for a shared TV: melds, piles, scores and May I calls.
+        </p>
+      </header>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-3">Mid-turn</h2>
+        <div className="border rounded-lg overflow-hidden aspect-video">
+          <TableTvView state={MOCK_STATE} activityLog={ACTIVITY} className="h-full" />
+        </div>
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-3">May I in progress</h2>
+        <div className="border rounded-lg overflow-hidden aspect-video">
+          <TableTvView state={MAY_I_STATE} activityLog={ACTIVITY} className="h-full" />
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { Hand, Layers } from "lucide-react";
+import type { SpectatorView } from "~/party/protocol.types";
+import type { ConnectionStatus } from "~/ui/lobby/lobby.types";
+import type { ActivityEntry, TurnClockInfo } from "~/ui/game-view/game-view.types";
+import type { MayINotificationState } from "~/routes/game.$roomId";
+import { GameHeader } from "~/ui/game-status/GameHeader";
+import { TableDisplay } from "~/ui/game-table/TableDisplay";
+import { DiscardPileDisplay } from "~/ui/game-table/DiscardPileDisplay";
+import { StockPileDisplay } from "~/ui/game-table/StockPileDisplay";
+import { PlayingCard } from "~/ui/playing-card/PlayingCard";
+import { ActivityLog } from "~/ui/game-status/ActivityLog";
+import { AIThinkingIndicator } from "~/ui/game-view/AIThinkingIndicator";
+import { ConnectionBanner } from "~/ui/connection-status/ConnectionBanner";
+import { cn } from "~/shadcn/lib/utils";
+import { getMayIInProgress, getScoreboard, getTableStatusText } from "./table-tv.utils";
+
+/** Cards on a TV are read from across the room */
+const PILE_ZOOM = 1.5;
+
+interface TableTvViewProps {
+  state: SpectatorView;
+  /** Name of AI player currently thinking (if any) */
+  aiThinkingPlayerName?: string;
+  activityLog?: ActivityEntry[];
+  connectionStatus?: ConnectionStatus;
+  mayINotification?: MayINotificationState | null;
+  turnClock?: TurnClockInfo | null;
+  className?: string;
+}
+
+/**
+ * Landscape big-screen view of the shared table: everyone's melds, the
+ * piles, whose turn it is, May I calls and the scoreboard. No hands.
+ */
+export function TableTvView({
+  state,
+  aiThinkingPlayerName,
+  activityLog = [],
+  connectionStatus = "connected",
+  mayINotification,
+  turnClock,
+  className,
+}: TableTvViewProps) {
+  const currentPlayer = state.players.find((p) => p.id === state.awaitingPlayerId);
+  const clockPlayer = turnClock
+    ? state.players.find((p) => p.id === turnClock.playerId)
+    : undefined;
+  const mayI = getMayIInProgress(state);
+
+  return (
+    <div className={cn("flex flex-col h-screen overflow-hidden", className)}>
+      <ConnectionBanner status={connectionStatus} />
+
+      <GameHeader
+        round={state.currentRound}
+        totalRounds={state.totalRounds}
+        contract={state.contract}
+        turnStatus={getTableStatusText(state)}
+        turnClock={
+          turnClock && clockPlayer
+            ? {
+                label: clockPlayer.name,
+                isYours: false,
+                turnEndsAt: turnClock.turnEndsAt,
+                deadline: turnClock.deadline,
+              }
+            : undefined
+        }
+      />
+
+      <div className="flex-1 min-h-0 grid grid-cols-3 gap-6 p-6">
+        {/* Melds grouped by player */}
+        <div className="col-span-2 min-h-0 overflow-y-auto">
+          <TableDisplay
+            melds={state.table}
+            players={state.players}
+            currentPlayerId={state.awaitingPlayerId}
+            mayINotification={mayINotification}
+            className="grid grid-cols-2 gap-3 space-y-0"
+          />
+        </div>
+
+        <div className="min-h-0 flex flex-col gap-4">
+          {/* Current player */}
+          {currentPlayer && (
+            <div className="flex items-center gap-4 rounded-lg border-[3px] border-orange-400 bg-orange-50 p-4">
+              {currentPlayer.avatarId ? (
+                <img
+                  src={`/avatars/${currentPlayer.avatarId}.svg`}
+                  alt={currentPlayer.name}
+                  className="w-16 h-16 rounded-full shrink-0"
+                />
+              ) : (
+                <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center text-2xl font-semibold shrink-0">
+                  {currentPlayer.name.charAt(0).toUpperCase()}
+                </div>
+              )}
+              <div className="min-w-0">
+                <div className="text-sm text-muted-foreground">Now playing</div>
+                <div className="text-2xl font-bold truncate">{currentPlayer.name}</div>
+                <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                  <Hand className="h-3.5 w-3.5" />
+                  {currentPlayer.handCount} cards
+                </div>
+              </div>
+            </div>
+          )}
+
+          {aiThinkingPlayerName && <AIThinkingIndicator playerName={aiThinkingPlayerName} />}
+
+          {/* May I in progress */}
+          {mayI && (
+            <div className="flex items-center gap-4 rounded-lg border-[3px] border-amber-500 bg-amber-50 p-4 animate-in fade-in slide-in-from-right-8 duration-300">
+              <PlayingCard
+                key={mayI.card.id}
+                card={mayI.card}
+                size="lg"
+                className="animate-in zoom-in-50 duration-500"
+              />
+              <div className="min-w-0">
+                <div className="text-2xl font-bold">May I?</div>
+                <div className="text-lg">{mayI.callerName} wants it</div>
+                {mayI.promptedName && (
+                  <div className="text-sm text-muted-foreground">
+                    Waiting for {mayI.promptedName}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Piles */}
+          <div className="flex items-end justify-center gap-8" style={{ zoom: PILE_ZOOM }}>
+            <div className="flex flex-col items-center gap-1">
+              <StockPileDisplay size="lg" />
+              <span className="flex items-center gap-1 text-xs text-muted-foreground tabular-nums">
+                <Layers className="h-3 w-3" />
+                {state.stockCount}
+              </span>
+            </div>
+            {/* Keyed by card so each new discard animates in */}
+            <DiscardPileDisplay
+              key={state.topDiscard?.id ?? "empty"}
+              topCard={state.topDiscard}
+              size="lg"
+              className="animate-in zoom-in-50 fade-in duration-500"
+            />
+          </div>
+
+          {/* Scoreboard */}
+          <div className="rounded-lg border bg-card">
+            <h3 className="px-4 pt-3 text-sm font-medium text-muted-foreground">Scores</h3>
+            <div className="divide-y">
+              {getScoreboard(state.players).map((player, index) => (
+                <div
+                  key={player.id}
+                  className={cn(
+                    "flex items-center justify-between px-4 py-2 text-lg",
+                    player.id === state.awaitingPlayerId && "font-semibold"
+                  )}
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="w-5 text-right text-muted-foreground tabular-nums">
+                      {index + 1}
+                    </span>
+                    <span className="truncate">{player.name}</span>
+                  </div>
+                  <span className="tabular-nums">{player.totalScore}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex-1 min-h-0 overflow-hidden rounded-lg border bg-card p-4">
+            <h3 className="text-sm font-medium text-muted-foreground mb-3">Activity</h3>
+            <ActivityLog entries={activityLog} maxEntries={5} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "bun:test";
+import { getMayIInProgress, getScoreboard, getTableStatusText } from "./table-tv.utils";
+import { GameEngine } from "core/engine/game-engine";
+import type { SpectatorView } from "~/party/protocol.types";
+
+function buildState(overrides: Partial<SpectatorView> = {}): SpectatorView {
+  const engine = GameEngine.createGame({
+    playerNames: ["Alice", "Bob", "Carol"],
+    dealerIndex: 0,
+  });
+  return { ...engine.getSpectatorView(), ...overrides };
+}
+
+describe("table-tv.utils", () => {
+  describe("getScoreboard", () => {
+    it("orders players by total score, keeping seat order for ties", () => {
+      const players = buildState().players.map((p, index) => ({
+        ...p,
+        totalScore: [40, 15, 40][index]!,
+      }));
+
+      expect(getScoreboard(players).map((p) => p.name)).toEqual(["Bob", "Alice", "Carol"]);
+    });
+  });
+
+  describe("getTableStatusText", () => {
+    it("names the player the table is waiting on", () => {
+      const state = buildState();
+
+      expect(getTableStatusText(state)).toBe("Bob to draw");
+      expect(getTableStatusText({ ...state, turnPhase: "AWAITING_DISCARD" })).toBe(
+        "Bob to discard"
+      );
+    });
+
+    it("describes a May I in progress", () => {
+      const state = buildState();
+      const [alice, bob, carol] = state.players;
+      const mayIState = buildState({
+        phase: "RESOLVING_MAY_I",
+        mayIContext: {
+          originalCaller: carol!.id,
+          cardBeingClaimed: state.topDiscard!,
+          playersToCheck: [bob!.id, alice!.id],
+          currentPromptIndex: 0,
+          playerBeingPrompted: bob!.id,
+          playersWhoAllowed: [],
+          winner: null,
+          outcome: null,
+        },
+      });
+
+      expect(getMayIInProgress(mayIState)).toEqual({
+        callerName: "Carol",
+        card: state.topDiscard!,
+        promptedName: "Bob",
+      });
+      expect(getTableStatusText(mayIState)).toBe("Carol called May I · Bob to answer");
+    });
+
+    it("reports the end of a round and of the game", () => {
+      expect(getTableStatusText(buildState({ phase: "ROUND_END" }))).toBe("Round 1 is over");
+      expect(getTableStatusText(buildState({ phase: "GAME_END" }))).toBe("Game over");
+    });
+  });
+});
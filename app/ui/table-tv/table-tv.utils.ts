@@ -0,0 +1,66 @@
+/**
+ * Pure helpers for the big-screen table view
+ */
+
+import type { Card } from "core/card/card.types";
+import type { OpponentInfo } from "core/engine/game-engine.types";
+import type { SpectatorView } from "~/party/protocol.types";
+
+/** A May I call the table is still resolving */
+export interface MayIInProgress {
+  callerName: string;
+  card: Card;
+  /** Player who has to allow or claim next (null once resolved) */
+  promptedName: string | null;
+}
+
+function getPlayerName(state: SpectatorView, playerId: string | null): string | null {
+  if (!playerId) return null;
+  return state.players.find((p) => p.id === playerId)?.name ?? null;
+}
+
+/**
+ * Players for the scoreboard: lowest total first, seat order for ties
+ */
+export function getScoreboard(players: OpponentInfo[]): OpponentInfo[] {
+  return [...players].sort((a, b) => a.totalScore - b.totalScore);
+}
+
+/**
+ * The May I being resolved, with player names (null when there is none)
+ */
+export function getMayIInProgress(state: SpectatorView): MayIInProgress | null {
+  const context = state.mayIContext;
+  if (state.phase !== "RESOLVING_MAY_I" || !context) return null;
+
+  return {
+    callerName: getPlayerName(state, context.originalCaller) ?? "Someone",
+    card: context.cardBeingClaimed,
+    promptedName: getPlayerName(state, context.playerBeingPrompted),
+  };
+}
+
+/**
+ * One line saying what the table is waiting for
+ */
+export function getTableStatusText(state: SpectatorView): string {
+  if (state.phase === "GAME_END") return "Game over";
+  if (state.phase === "ROUND_END") return `Round ${state.currentRound} is over`;
+
+  const mayI = getMayIInProgress(state);
+  if (mayI) {
+    return mayI.promptedName
+      ? `${mayI.callerName} called May I · ${mayI.promptedName} to answer`
+      : `${mayI.callerName} called May I`;
+  }
+
+  const name = getPlayerName(state, state.awaitingPlayerId) ?? "Next player";
+  switch (state.turnPhase) {
+    case "AWAITING_DRAW":
+      return `${name} to draw`;
+    case "AWAITING_DISCARD":
+      return `${name} to discard`;
+    default:
+      return `${name} is playing`;
+  }
+}
@@ -2,6 +2,8 @@ import { createRequestHandler } from "react-router";
 import { routePartykitRequest } from "partyserver";
 
 export { MayIRoom } from "../party/mayi-room";
+export { PlayerStatsStore } from "../party/player-stats.store";
+export { SkillRatingsStore } from "../party/skill-ratings.store";
 
 declare module "react-router" {
   export interface AppLoadContext {
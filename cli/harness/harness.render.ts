@@ -25,9 +25,9 @@ export function renderStatus(state: GameSnapshot): string {
 
   // Header
   lines.push("═".repeat(66));
-  lines.push(centerText(`MAY I? — Round ${state.currentRound} of 6`, 66));
+  lines.push(centerText(`MAY I? — Round ${state.currentRound} of ${state.contracts.length}`, 66));
   lines.push(centerText(formatContract(state.contract), 66));
-  if (state.currentRound === 6) {
+  if (state.contract.mustUseAllCards) {
     lines.push(centerText("⚠️  Must lay down ALL cards to win!", 66));
   }
   lines.push("═".repeat(66));
@@ -232,8 +232,8 @@ export function getAvailableCommands(state: GameSnapshot): AvailableCommands {
           // Use dynamic laydown hint based on contract
           commands.push(getLaydownCommandHint(state.contract));
 
-          // Check for joker swaps available (not in Round 6 - no melds on table)
-          if (state.currentRound !== 6) {
+          // Check for joker swaps available (not in a final hand - no melds on table)
+          if (!state.contract.mustUseAllCards) {
             const swappableJokers = findSwappableJokers(state);
             if (swappableJokers.length > 0) {
               commands.push("swap <meld> <pos> <card>");
@@ -241,8 +241,8 @@ export function getAvailableCommands(state: GameSnapshot): AvailableCommands {
           }
         }
 
-        // Lay off is only available in Rounds 1-5 when player is down
-        if (awaitingPlayer?.isDown && state.currentRound !== 6) {
+        // Lay off is only available when player is down, outside a final hand
+        if (awaitingPlayer?.isDown && !state.contract.mustUseAllCards) {
           commands.push("layoff <card> <meld>");
         }
 
@@ -16,14 +16,8 @@ console.log(`Connecting to ${url}...`);
 const ws = new WebSocket(url);
 
 ws.onopen = () => {
-  console.log("Connected! Joining as inspector...");
-  // Join as a temp player to get state
-  ws.send(JSON.stringify({
-    type: "JOIN",
-    playerId: "inspector-" + Date.now(),
-    playerName: "Inspector",
-    isAI: false,
-  }));
+  console.log("Connected! Watching as a spectator...");
+  ws.send(JSON.stringify({ type: "SPECTATE" }));
 };
 
 ws.onmessage = (event) => {
@@ -32,31 +26,29 @@ ws.onmessage = (event) => {
     console.log("\n=== Message received ===");
     console.log("Type:", msg.type);
 
-    if (msg.type === "GAME_STATE") {
+    if (msg.type === "SPECTATOR_STATE") {
+      const state = msg.state;
       console.log("\n--- Game State ---");
-      console.log("Phase:", msg.snapshot?.phase);
-      console.log("Turn Phase:", msg.snapshot?.turnPhase);
-      console.log("Current Round:", msg.snapshot?.currentRound);
-      console.log("Awaiting Player:", msg.snapshot?.awaitingPlayer);
+      console.log("Phase:", state.phase);
+      console.log("Turn Phase:", state.turnPhase);
+      console.log("Current Round:", state.currentRound);
+      console.log("Awaiting Player:", state.awaitingPlayerId);
 
-      if (msg.snapshot?.mayIContext) {
+      if (state.mayIContext) {
         console.log("\n--- May-I Context ---");
-        console.log("Original Caller:", msg.snapshot.mayIContext.originalCaller);
-        console.log("Card Being Claimed:", JSON.stringify(msg.snapshot.mayIContext.cardBeingClaimed));
-        console.log("Player Being Prompted:", msg.snapshot.mayIContext.playerBeingPrompted);
-        console.log("Players Who Allowed:", msg.snapshot.mayIContext.playersWhoAllowed);
+        console.log("Original Caller:", state.mayIContext.originalCaller);
+        console.log("Card Being Claimed:", JSON.stringify(state.mayIContext.cardBeingClaimed));
+        console.log("Player Being Prompted:", state.mayIContext.playerBeingPrompted);
+        console.log("Players Who Allowed:", state.mayIContext.playersWhoAllowed);
       }
 
       console.log("\n--- Players ---");
-      if (msg.snapshot?.players) {
-        for (const [id, player] of Object.entries(msg.snapshot.players)) {
-          const p = player as any;
-          console.log(`  ${id}: ${p.hand?.length || 0} cards, down=${p.hasLaidDown}`);
-        }
+      for (const player of state.players) {
+        console.log(`  ${player.id} (${player.name}): ${player.handCount} cards, down=${player.isDown}`);
       }
 
-      console.log("\n--- Full Snapshot ---");
-      console.log(JSON.stringify(msg.snapshot, null, 2));
+      console.log("\n--- Full Spectator View ---");
+      console.log(JSON.stringify(state, null, 2));
 
       // Close after receiving state
       setTimeout(() => {
@@ -20,8 +20,9 @@ import { formatRecentActivity } from "../shared/cli.activity";
 import { sortHandByRank, sortHandBySuit, moveCard } from "../../core/engine/hand.reordering";
 import { AIPlayerRegistry, setupGameWithAI } from "../../ai/aiPlayer.registry";
 import { executeAITurn } from "../../ai/mayIAgent";
+import { chooseHeuristicCommand } from "../../ai/heuristicBot";
+import type { BotPolicy } from "../../ai/botPolicy";
 import type { AIPlayerConfig } from "../../ai/aiPlayer.types";
-import type { ModelId } from "../../ai/modelRegistry";
 import type { DecisionPhase } from "../shared/cli.types";
 
 // Track the current game ID for persistence
@@ -36,14 +37,21 @@ const aiRegistry = new AIPlayerRegistry().enableDevTools();
  */
 const AI_FIRST_NAMES = ["Alice", "Bob", "Charlie", "Diana", "Eve", "Frank", "Grace"];
 
+/** An LLM from the model registry or a heuristic bot seat */
+type ModelId = AIPlayerConfig["modelId"];
+
 /**
- * Available AI models for player selection
+ * Available AI models for player selection. Bots play offline without API keys.
  */
 const MODEL_OPTIONS: readonly { id: ModelId; name: string; provider: string }[] = [
   { id: "default:grok", name: "Grok", provider: "xAI" },
   { id: "default:claude", name: "Claude", provider: "Anthropic" },
   { id: "default:openai", name: "GPT", provider: "OpenAI" },
   { id: "default:gemini", name: "Gemini", provider: "Google" },
+  { id: "bot:easy", name: "Easy Bot", provider: "offline" },
+  { id: "bot:medium", name: "Medium Bot", provider: "offline" },
+  { id: "bot:hard", name: "Hard Bot", provider: "offline" },
+  { id: "bot:montecarlo", name: "Monte Carlo Bot", provider: "offline" },
 ];
 
 const DEFAULT_MODEL_INDEX = 0; // Grok is default (fastest)
@@ -153,9 +161,9 @@ function clearScreen(): void {
 
 function printHeader(state: GameSnapshot): void {
   console.log("═".repeat(66));
-  console.log(centerText(`MAY I? — Round ${state.currentRound} of 6`, 66));
+  console.log(centerText(`MAY I? — Round ${state.currentRound} of ${state.contracts.length}`, 66));
   console.log(centerText(formatContract(state.contract), 66));
-  if (state.currentRound === 6) {
+  if (state.contract.mustUseAllCards) {
     console.log(centerText("⚠️  No discard to go out this round!", 66));
   }
   console.log("═".repeat(66));
@@ -424,13 +432,14 @@ async function handleLaydown(state: GameSnapshot): Promise<void> {
     console.log("");
   }
 
-  const after = game.layDown(meldGroups);
-  if (!after.lastError) {
+  game.layDown(meldGroups);
+  const outcome = game.getLastOutcome();
+  if (outcome?.accepted) {
     console.log("");
     console.log("You laid down your contract!");
   } else {
     console.log("");
-    console.log(`Error: ${after.lastError}`);
+    console.log(`Error: ${outcome?.message}`);
     await prompt("Press Enter to continue...");
   }
 }
@@ -478,13 +487,14 @@ async function handleLayoff(state: GameSnapshot): Promise<void> {
     position = posChoice === 1 ? "start" : "end";
   }
 
-  const after = game.layOff(cardPos, meldNum, position);
-  if (!after.lastError) {
+  game.layOff(cardPos, meldNum, position);
+  const outcome = game.getLastOutcome();
+  if (outcome?.accepted) {
     console.log("");
     console.log("Laid off.");
   } else {
     console.log("");
-    console.log(`Error: ${after.lastError}`);
+    console.log(`Error: ${outcome?.message}`);
     await prompt("Press Enter to continue...");
   }
 }
@@ -513,13 +523,14 @@ async function handleDiscard(state: GameSnapshot): Promise<void> {
     }
 
     const card = human.hand[choice - 1]!;
-    const after = game.discardCard(choice);
-    if (!after.lastError) {
+    game.discardCard(choice);
+    const outcome = game.getLastOutcome();
+    if (outcome?.accepted) {
       console.log("");
       console.log(`You discarded ${renderCard(card)}.`);
     } else {
       console.log("");
-      console.log(`Error: ${after.lastError}`);
+      console.log(`Error: ${outcome?.message}`);
     }
     break;
   }
@@ -555,13 +566,14 @@ async function handleSwap(state: GameSnapshot): Promise<void> {
   const meld = state.table[meldNum - 1]!;
   const jokerIdx = meld.cards.findIndex((c) => c.rank === "Joker");
 
-  const after = game.swap(meldNum, jokerIdx + 1, cardPos);
-  if (!after.lastError) {
+  game.swap(meldNum, jokerIdx + 1, cardPos);
+  const outcome = game.getLastOutcome();
+  if (outcome?.accepted) {
     console.log("");
     console.log(`Swapped! You gave ${renderCard(cardToSwap)} and took the Joker.`);
   } else {
     console.log("");
-    console.log(`Error: ${after.lastError}`);
+    console.log(`Error: ${outcome?.message}`);
     await prompt("Press Enter to continue...");
   }
 }
@@ -658,6 +670,12 @@ async function resolveMayIIfNeeded(): Promise<void> {
       continue;
     }
 
+    const botPolicy = aiRegistry.getBotPolicy(awaitingPlayer.id);
+    if (botPolicy) {
+      respondToMayIWithBot(awaitingPlayer.id, botPolicy);
+      continue;
+    }
+
     if (aiRegistry.isAI(awaitingPlayer.id)) {
       const result = await executeAITurn({
         game,
@@ -667,14 +685,24 @@ async function resolveMayIIfNeeded(): Promise<void> {
       });
 
       if (!result.success) {
-        // Conservative fallback: allow
-        game.allowMayI(awaitingPlayer.id);
+        respondToMayIWithBot(awaitingPlayer.id);
       }
       continue;
     }
 
-    // Non-AI fallback: allow
-    game.allowMayI(awaitingPlayer.id);
+    respondToMayIWithBot(awaitingPlayer.id);
+  }
+}
+
+/**
+ * Offline May I response: the bot allows or claims (the heuristic bot by default)
+ */
+function respondToMayIWithBot(playerId: string, policy: BotPolicy = chooseHeuristicCommand): void {
+  const command = policy(game.getSnapshot(), playerId);
+  if (command) {
+    game.dispatch(command);
+  } else {
+    game.allowMayI(playerId);
   }
 }
 
@@ -755,6 +783,14 @@ async function handleAITurn(state: GameSnapshot): Promise<void> {
   console.log("");
   console.log(`${currentPlayer.name} is thinking...`);
 
+  // Bot seats are played by their bot policy
+  const botPolicy = aiRegistry.getBotPolicy(currentPlayer.id);
+  if (botPolicy) {
+    await handleSimpleAITurn(state, botPolicy);
+    await resolveMayIIfNeeded();
+    return;
+  }
+
   // Use the real AI agent if this player is registered
   if (aiRegistry.isAI(currentPlayer.id)) {
     const result = await executeAITurn({
@@ -784,28 +820,39 @@ async function handleAITurn(state: GameSnapshot): Promise<void> {
   }
 }
 
+/** Upper bound on commands in one offline AI turn */
+const MAX_BOT_TURN_STEPS = 30;
+
 /**
- * Simple fallback AI behavior (draw, skip, discard first card)
+ * Offline AI behavior: the bot plays the turn (the heuristic bot by default)
  */
-async function handleSimpleAITurn(state: GameSnapshot): Promise<void> {
+async function handleSimpleAITurn(
+  state: GameSnapshot,
+  policy: BotPolicy = chooseHeuristicCommand
+): Promise<void> {
   const currentPlayer = state.players[state.currentPlayerIndex]!;
 
-  if (getDecisionPhase(state) === "AWAITING_DRAW") {
-    game.drawFromStock();
+  for (let step = 0; step < MAX_BOT_TURN_STEPS; step++) {
     await resolveMayIIfNeeded();
-  }
+    const current = game.getSnapshot();
+    if (current.phase !== "ROUND_ACTIVE" || current.awaitingPlayerId !== currentPlayer.id) {
+      return;
+    }
 
-  const afterDraw = game.getSnapshot();
-  if (getDecisionPhase(afterDraw) === "AWAITING_ACTION") {
-    game.skip();
-  }
+    const command = policy(current, currentPlayer.id);
+    if (!command || !game.dispatch(command).accepted) {
+      return;
+    }
 
-  const afterSkip = game.getSnapshot();
-  if (getDecisionPhase(afterSkip) === "AWAITING_DISCARD") {
-    const player = afterSkip.players[afterSkip.currentPlayerIndex]!;
-    const discardedCard = player.hand[0]!;
-    game.discardCard(1);
-    console.log(`${currentPlayer.name} drew from stock. Discarded ${renderCard(discardedCard)}.`);
+    if (command.type === "LAY_DOWN") {
+      console.log(`${currentPlayer.name} laid down their contract.`);
+    }
+    if (command.type === "DISCARD") {
+      const player = current.players.find((p) => p.id === currentPlayer.id)!;
+      const discardedCard = player.hand.find((c) => c.id === command.cardId)!;
+      console.log(`${currentPlayer.name} discarded ${renderCard(discardedCard)}.`);
+      return;
+    }
   }
 }
 
@@ -956,7 +1003,7 @@ async function resumeGame(gameId: string): Promise<void> {
   currentGameId = gameId;
   const state = game.getSnapshot();
   console.log("");
-  console.log(`Resuming game ${gameId} — Round ${state.currentRound} of 6`);
+  console.log(`Resuming game ${gameId} — Round ${state.currentRound} of ${state.contracts.length}`);
 
   // Restore AI player configs from persisted file
   const persistedAIPlayers = loadAIPlayerConfigs(gameId);
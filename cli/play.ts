@@ -146,11 +146,22 @@ function handleNew(): void {
     }
   }
 
+  // Parse --seed flag (default: random seed chosen by the engine)
+  const seedIdx = args.indexOf("--seed");
+  let seed: string | undefined;
+  if (seedIdx !== -1) {
+    seed = args[seedIdx + 1];
+    if (seed === undefined) {
+      throw new Error("--seed requires a value");
+    }
+  }
+
   const players = generatePlayerNames(playerCount, false);
-  const state = adapter.newGame({ playerNames: players, startingRound });
+  const state = adapter.newGame({ playerNames: players, startingRound, seed });
 
   console.log("");
   console.log(`  Game ID: ${state.gameId}`);
+  console.log(`  Seed: ${state.seed}`);
   console.log("");
   const roundMsg = startingRound > 1 ? ` (starting at Round ${startingRound})` : "";
   console.log(`New game started! Players: ${players.join(", ")}${roundMsg}`);
@@ -190,6 +201,16 @@ function handleStatus(gameId: string, asJson: boolean): void {
   console.log(renderStatus(state));
 }
 
+/**
+ * Throw when the engine rejected the last command
+ */
+function assertAccepted(): void {
+  const outcome = game.getLastOutcome();
+  if (outcome && !outcome.accepted) {
+    throw new Error(`${outcome.message} (${outcome.errorCode})`);
+  }
+}
+
 function handleDraw(gameId: string, source?: string): void {
   game.loadGame(gameId);
 
@@ -203,9 +224,7 @@ function handleDraw(gameId: string, source?: string): void {
   if (!after) {
     throw new Error('Specify source: "draw stock" or "draw discard"');
   }
-  if (after.lastError) {
-    throw new Error(after.lastError);
-  }
+  assertAccepted();
 
   console.log("");
   console.log(`Game: ${gameId}`);
@@ -230,10 +249,8 @@ function handleLaydown(gameId: string, meldArgs: string[]): void {
     meldGroups.push(positions);
   }
 
-  const after = game.layDown(meldGroups);
-  if (after.lastError) {
-    throw new Error(after.lastError);
-  }
+  game.layDown(meldGroups);
+  assertAccepted();
 
   console.log("");
   console.log(`Game: ${gameId}`);
@@ -244,10 +261,8 @@ function handleLaydown(gameId: string, meldArgs: string[]): void {
 function handleSkip(gameId: string): void {
   game.loadGame(gameId);
 
-  const after = game.skip();
-  if (after.lastError) {
-    throw new Error(after.lastError);
-  }
+  game.skip();
+  assertAccepted();
 
   console.log("");
   console.log(`Game: ${gameId}`);
@@ -267,10 +282,8 @@ function handleDiscard(gameId: string, positionStr?: string): void {
     throw new Error(`Invalid position: ${positionStr}`);
   }
 
-  const after = game.discardCard(position);
-  if (after.lastError) {
-    throw new Error(after.lastError);
-  }
+  game.discardCard(position);
+  assertAccepted();
 
   console.log("");
   console.log(`Game: ${gameId}`);
@@ -300,10 +313,8 @@ function handleLayoff(gameId: string, cardPosStr?: string, meldNumStr?: string,
     position = positionStr;
   }
 
-  const after = game.layOff(cardPos, meldNum, position);
-  if (after.lastError) {
-    throw new Error(after.lastError);
-  }
+  game.layOff(cardPos, meldNum, position);
+  assertAccepted();
 
   console.log("");
   console.log(`Game: ${gameId}`);
@@ -325,10 +336,8 @@ function handleSwap(gameId: string, meldNumStr?: string, jokerPosStr?: string, c
     throw new Error("All arguments must be numbers");
   }
 
-  const after = game.swap(meldNum, jokerPos, cardPos);
-  if (after.lastError) {
-    throw new Error(after.lastError);
-  }
+  game.swap(meldNum, jokerPos, cardPos);
+  assertAccepted();
 
   console.log("");
   console.log(`Game: ${gameId}`);
@@ -353,10 +362,8 @@ function handleMayI(gameId: string, callerId?: string): void {
     throw new Error(reason);
   }
 
-  const after = game.callMayI(callerId);
-  if (after.lastError) {
-    throw new Error(after.lastError);
-  }
+  game.callMayI(callerId);
+  assertAccepted();
 
   console.log("");
   console.log(`Game: ${gameId}`);
@@ -410,10 +417,8 @@ function handleAllow(gameId: string): void {
     throw new Error("You are not the player being prompted");
   }
 
-  const after = game.allowMayI();
-  if (after.lastError) {
-    throw new Error(after.lastError);
-  }
+  game.allowMayI();
+  assertAccepted();
 
   console.log("");
   console.log(`Game: ${gameId}`);
@@ -435,10 +440,8 @@ function handleClaim(gameId: string): void {
     throw new Error("You are not the player being prompted");
   }
 
-  const after = game.claimMayI();
-  if (after.lastError) {
-    throw new Error(after.lastError);
-  }
+  game.claimMayI();
+  assertAccepted();
 
   console.log("");
   console.log(`Game: ${gameId}`);
@@ -468,6 +471,7 @@ Game Management:
   new                         Start a new 3-player game
   new --players <3-8>         Start game with N players
   new --round <1-6>           Start game at specific round
+  new --seed <seed>           Deal deterministically (reproduce a game)
   list                        List all saved games
 
 Commands (require game ID):
@@ -494,6 +498,7 @@ Examples:
   bun cli/play.ts new
   bun cli/play.ts new --players 5
   bun cli/play.ts new --players 4 --round 6
+  bun cli/play.ts new --seed family-night-42
   bun cli/play.ts list
   bun cli/play.ts a1b2c3 status
   bun cli/play.ts a1b2c3 draw stock
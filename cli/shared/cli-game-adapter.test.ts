@@ -383,6 +383,26 @@ describe("CliGameAdapter", () => {
     });
   });
 
+  describe("getLastOutcome", () => {
+    it("reports the error code of a rejected command", () => {
+      const gameId = `test-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+      createdGameIds.push(gameId);
+
+      const adapter = new CliGameAdapter();
+      adapter.newGame({ gameId, playerNames: ["Alice", "Bob", "Carol"] });
+      expect(adapter.getLastOutcome()).toBeNull();
+
+      adapter.discardCard(1);
+      expect(adapter.getLastOutcome()).toMatchObject({
+        accepted: false,
+        errorCode: "MUST_DRAW_FIRST",
+      });
+
+      adapter.drawFromStock();
+      expect(adapter.getLastOutcome()).toMatchObject({ accepted: true, errorCode: null });
+    });
+  });
+
   describe("error handling", () => {
     it("throws when no game is loaded", () => {
       const adapter = new CliGameAdapter();
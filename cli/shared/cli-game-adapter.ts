@@ -12,7 +12,13 @@
  */
 
 import { GameEngine } from "../../core/engine/game-engine";
-import type { GameSnapshot, MeldSpec } from "../../core/engine/game-engine.types";
+import type {
+  CommandOutcome,
+  GameSnapshot,
+  JournalCommand,
+  MeldSpec,
+} from "../../core/engine/game-engine.types";
+import type { DomainEvent } from "../../core/engine/game-engine.events";
 import type { RoundNumber } from "../../core/engine/engine.types";
 import { isValidRun, isValidSet } from "../../core/meld/meld.validation";
 import type { ActionLogEntry, CliGameSave } from "./cli.types";
@@ -26,10 +32,13 @@ export interface NewCliGameOptions {
   gameId?: string;
   playerNames: string[];
   startingRound?: RoundNumber;
+  /** Seed for deterministic dealing (random when omitted) */
+  seed?: string;
 }
 
 export class CliGameAdapter {
   private engine: GameEngine | null = null;
+  private lastOutcome: CommandOutcome | null = null;
 
   newGame(options: NewCliGameOptions): GameSnapshot {
     const gameId = options.gameId ?? generateGameId();
@@ -37,9 +46,11 @@ export class CliGameAdapter {
       gameId,
       playerNames: options.playerNames,
       startingRound: options.startingRound,
+      seed: options.seed,
     });
 
     this.engine = engine;
+    this.lastOutcome = null;
     const snapshot = engine.getSnapshot();
     this.persist();
     this.logAction(snapshot, "system", "GAME_STARTED", `Players: ${options.playerNames.join(", ")}`);
@@ -53,8 +64,14 @@ export class CliGameAdapter {
     this.engine?.stop();
 
     const engineSnapshot = save.engineSnapshot as EnginePersistedSnapshot;
-    const engine = GameEngine.fromPersistedSnapshot(engineSnapshot, save.gameId, save.createdAt);
+    const engine = GameEngine.fromPersistedSnapshot(
+      engineSnapshot,
+      save.gameId,
+      save.createdAt,
+      save.journal ?? null
+    );
     this.engine = engine;
+    this.lastOutcome = null;
     return engine.getSnapshot();
   }
 
@@ -62,13 +79,20 @@ export class CliGameAdapter {
     return this.requireEngine().getSnapshot();
   }
 
+  /**
+   * Outcome of the most recent command sent to the engine (null before any).
+   * Branch on `errorCode` rather than parsing `lastError`.
+   */
+  getLastOutcome(): CommandOutcome | null {
+    return this.lastOutcome;
+  }
+
   drawFromStock(): GameSnapshot {
     const engine = this.requireEngine();
     const before = engine.getSnapshot();
     const playerId = before.awaitingPlayerId;
-    const after = engine.drawFromStock(playerId);
+    const after = this.send({ type: "DRAW_FROM_STOCK", playerId });
     this.persist();
-    this.logDraw(before, after, playerId, "stock");
     return after;
   }
 
@@ -76,9 +100,8 @@ export class CliGameAdapter {
     const engine = this.requireEngine();
     const before = engine.getSnapshot();
     const playerId = before.awaitingPlayerId;
-    const after = engine.drawFromDiscard(playerId);
+    const after = this.send({ type: "DRAW_FROM_DISCARD", playerId });
     this.persist();
-    this.logDraw(before, after, playerId, "discard");
     return after;
   }
 
@@ -86,11 +109,8 @@ export class CliGameAdapter {
     const engine = this.requireEngine();
     const before = engine.getSnapshot();
     const playerId = before.awaitingPlayerId;
-    const after = engine.skip(playerId);
+    const after = this.send({ type: "SKIP", playerId });
     this.persist();
-    if (before.turnPhase === "AWAITING_ACTION" && after.turnPhase === "AWAITING_DISCARD") {
-      this.logAction(before, playerId, "skipped");
-    }
     return after;
   }
 
@@ -122,25 +142,8 @@ export class CliGameAdapter {
       return { type, cardIds: cards.map((c) => c.id) };
     });
 
-    const after = engine.layDown(playerId, meldSpecs);
+    const after = this.send({ type: "LAY_DOWN", playerId, melds: meldSpecs });
     this.persist();
-    const beforePlayer = before.players.find((p) => p.id === playerId);
-    const afterPlayer = after.players.find((p) => p.id === playerId);
-    if (beforePlayer && afterPlayer && !beforePlayer.isDown && afterPlayer.isDown) {
-      const details = meldGroups
-        .map((group, i) => {
-          const spec = meldSpecs[i]!;
-          const label = spec.type === "set" ? "Set" : "Run";
-          const cards = group
-            .map((pos) => player.hand[pos - 1])
-            .filter((c): c is NonNullable<typeof c> => Boolean(c))
-            .map(renderCard)
-            .join(" ");
-          return `${label}: ${cards}`;
-        })
-        .join(" | ");
-      this.logAction(before, playerId, "laid down", details || undefined);
-    }
     return after;
   }
 
@@ -165,19 +168,14 @@ export class CliGameAdapter {
       throw new Error(`Meld number out of range: ${meldNumber}`);
     }
 
-    const after = engine.layOff(playerId, card.id, numberedMeld.meld.id, position);
+    const after = this.send({
+      type: "LAY_OFF",
+      playerId,
+      cardId: card.id,
+      meldId: numberedMeld.meld.id,
+      position,
+    });
     this.persist();
-    const afterPlayer = after.players.find((p) => p.id === playerId);
-    if (afterPlayer && afterPlayer.hand.length === player.hand.length - 1) {
-      // Only show "at start" for prepending - appending is the default
-      const positionText = position === "start" ? " at start" : "";
-      this.logAction(
-        before,
-        playerId,
-        `laid off${positionText}`,
-        `${renderCard(card)} → meld ${meldNumber}`
-      );
-    }
     return after;
   }
 
@@ -207,23 +205,19 @@ export class CliGameAdapter {
       throw new Error(`Joker position out of range: ${jokerPosition}`);
     }
 
-    const after = engine.swap(playerId, numberedMeld.meld.id, jokerCard.id, swapCard.id);
+    const after = this.send({
+      type: "SWAP_JOKER",
+      playerId,
+      meldId: numberedMeld.meld.id,
+      jokerCardId: jokerCard.id,
+      swapCardId: swapCard.id,
+    });
     this.persist();
-    // Successful swap keeps hand size the same (swap card played, Joker taken)
-    const afterPlayer = after.players.find((p) => p.id === playerId);
-    if (afterPlayer && afterPlayer.hand.length === player.hand.length) {
-      this.logAction(
-        before,
-        playerId,
-        "swapped Joker",
-        `meld ${meldNumber}, ${renderCard(swapCard)} ↔ Joker`
-      );
-    }
     return after;
   }
 
   reorderHand(playerId: string, newCardOrder: string[]): GameSnapshot {
-    const after = this.requireEngine().reorderHand(playerId, newCardOrder);
+    const after = this.send({ type: "REORDER_HAND", playerId, cardIds: [...newCardOrder] });
     this.persist();
     return after;
   }
@@ -242,85 +236,53 @@ export class CliGameAdapter {
       throw new Error(`Card position out of range: ${position}`);
     }
 
-    const after = engine.discard(playerId, card.id);
+    const after = this.send({ type: "DISCARD", playerId, cardId: card.id });
     this.persist();
 
-    // Check if discard succeeded by seeing if the card moved to the discard pile
-    // OR if the round ended (card would be gone and player dealt new hand)
-    const cardInDiscard = after.discard.some((c) => c.id === card.id);
-    const roundEnded = after.currentRound !== before.currentRound || after.phase === "GAME_END";
-
-    if (cardInDiscard || roundEnded) {
-      this.logAction(before, playerId, "discarded", renderCard(card));
-
-      // If round ended because player went out, log that too
-      if (roundEnded && player.hand.length === 1) {
-        this.logAction(before, playerId, "went out", `Round ${before.currentRound} complete`);
-      }
-    }
     return after;
   }
 
   callMayI(callerId: string): GameSnapshot {
-    const engine = this.requireEngine();
-    const before = engine.getSnapshot();
-    const claimedCard = before.discard[0];
-
-    const after = engine.callMayI(callerId);
+    const after = this.send({ type: "CALL_MAY_I", playerId: callerId });
     this.persist();
-
-    if (!claimedCard) {
-      return after;
-    }
-
-    // Only log if May I had an effect (started resolution OR claimed the discard immediately)
-    const discardStillHasCard = after.discard.some((c) => c.id === claimedCard.id);
-    if (after.phase === "RESOLVING_MAY_I" || !discardStillHasCard) {
-      this.logAction(before, callerId, "called May I", renderCard(claimedCard));
-    }
-
-    // If the discard was claimed immediately (no prompts), log the winner.
-    if (after.phase !== "RESOLVING_MAY_I" && !discardStillHasCard) {
-      this.logMayIWinner(before, after, claimedCard.id);
-    }
-
     return after;
   }
 
   allowMayI(playerId?: string): GameSnapshot {
-    const engine = this.requireEngine();
-    const before = engine.getSnapshot();
-    const responderId = playerId ?? before.awaitingPlayerId;
-    const claimedCardId = before.mayIContext?.cardBeingClaimed.id ?? null;
-    const after = engine.allowMayI(responderId);
+    const responderId = playerId ?? this.requireEngine().getSnapshot().awaitingPlayerId;
+    const after = this.send({ type: "ALLOW_MAY_I", playerId: responderId });
     this.persist();
-
-    if (claimedCardId) {
-      this.logAction(before, responderId, "allowed May I");
-      if (after.phase !== "RESOLVING_MAY_I") {
-        this.logMayIWinner(before, after, claimedCardId);
-      }
-    }
-
     return after;
   }
 
   claimMayI(playerId?: string): GameSnapshot {
-    const engine = this.requireEngine();
-    const before = engine.getSnapshot();
-    const responderId = playerId ?? before.awaitingPlayerId;
-    const claimedCardId = before.mayIContext?.cardBeingClaimed.id ?? null;
-    const after = engine.claimMayI(responderId);
+    const responderId = playerId ?? this.requireEngine().getSnapshot().awaitingPlayerId;
+    const after = this.send({ type: "CLAIM_MAY_I", playerId: responderId });
     this.persist();
+    return after;
+  }
 
-    if (claimedCardId) {
-      this.logAction(before, responderId, "claimed May I");
-      if (after.phase !== "RESOLVING_MAY_I") {
-        this.logMayIWinner(before, after, claimedCardId);
-      }
-    }
+  /**
+   * Send any engine command (e.g. one chosen by the heuristic bot) and persist
+   */
+  dispatch(command: JournalCommand): CommandOutcome {
+    this.send(command);
+    this.persist();
+    return this.lastOutcome!;
+  }
 
-    return after;
+  /**
+   * Dispatch a command, keeping its outcome for getLastOutcome()
+   * and logging its domain events
+   */
+  private send(command: JournalCommand): GameSnapshot {
+    const engine = this.requireEngine();
+    const before = engine.getSnapshot();
+    this.lastOutcome = engine.dispatch(command);
+    for (const event of this.lastOutcome.domainEvents) {
+      this.logEvent(before, event);
+    }
+    return this.lastOutcome.snapshot;
   }
 
   private requireEngine(): GameEngine {
@@ -341,6 +303,7 @@ export class CliGameAdapter {
       createdAt: snapshot.createdAt,
       updatedAt: snapshot.updatedAt,
       engineSnapshot: persistedSnapshot,
+      journal: engine.getJournal(),
     };
 
     saveGameSave(snapshot.gameId, save);
@@ -370,46 +333,91 @@ export class CliGameAdapter {
     appendActionLog(state.gameId, entry);
   }
 
-  private logDraw(
-    before: GameSnapshot,
-    after: GameSnapshot,
-    playerId: string,
-    source: "stock" | "discard"
-  ): void {
-    const beforePlayer = before.players.find((p) => p.id === playerId);
-    const afterPlayer = after.players.find((p) => p.id === playerId);
-    if (!beforePlayer || !afterPlayer) return;
+  /**
+   * Render one domain event as an action log entry
+   *
+   * @param before - State before the command (round, turn and meld numbering)
+   */
+  private logEvent(before: GameSnapshot, event: DomainEvent): void {
+    const meldNumber = (meldId: string) =>
+      getNumberedMelds(before.table, before.players).find((m) => m.meld.id === meldId)
+        ?.meldNumber;
+
+    switch (event.type) {
+      case "CardDrawnFromStock":
+        this.logAction(before, event.playerId, "drew from stock", renderCard(event.card));
+        break;
+
+      case "DiscardTaken":
+        this.logAction(before, event.playerId, "drew from discard", renderCard(event.card));
+        break;
+
+      case "ActionSkipped":
+        this.logAction(before, event.playerId, "skipped");
+        break;
+
+      case "ContractLaidDown": {
+        const details = event.melds
+          .map((meld) => {
+            const label = meld.type === "set" ? "Set" : "Run";
+            return `${label}: ${meld.cards.map(renderCard).join(" ")}`;
+          })
+          .join(" | ");
+        this.logAction(before, event.playerId, "laid down", details || undefined);
+        break;
+      }
 
-    if (afterPlayer.hand.length !== beforePlayer.hand.length + 1) return;
+      case "CardLaidOff": {
+        // Only show "at start" for prepending - appending is the default
+        const positionText = event.position === "start" ? " at start" : "";
+        this.logAction(
+          before,
+          event.playerId,
+          `laid off${positionText}`,
+          `${renderCard(event.card)} → meld ${meldNumber(event.meldId)}`
+        );
+        break;
+      }
 
-    const beforeIds = new Set(beforePlayer.hand.map((c) => c.id));
-    const drawn = afterPlayer.hand.find((c) => !beforeIds.has(c.id));
-    if (!drawn) return;
+      case "JokerSwapped":
+        this.logAction(
+          before,
+          event.playerId,
+          "swapped Joker",
+          `meld ${meldNumber(event.meldId)}, ${renderCard(event.card)} ↔ Joker`
+        );
+        break;
+
+      case "CardDiscarded":
+        this.logAction(before, event.playerId, "discarded", renderCard(event.card));
+        break;
+
+      case "MayICalled":
+        this.logAction(before, event.playerId, "called May I", renderCard(event.card));
+        break;
+
+      case "MayIAllowed":
+        this.logAction(before, event.playerId, "allowed May I");
+        break;
+
+      case "MayIClaimed":
+        this.logAction(before, event.playerId, "claimed May I");
+        break;
+
+      case "MayIResolved": {
+        const cardStr = renderCard(event.card);
+        const details = event.penaltyCard ? `${cardStr} (+ penalty)` : cardStr;
+        this.logAction(before, event.winnerId, "won May I", details);
+        break;
+      }
 
-    const action = source === "stock" ? "drew from stock" : "drew from discard";
-    this.logAction(before, playerId, action, renderCard(drawn));
-  }
+      case "StockReshuffled":
+        this.logAction(before, "system", "reshuffled stock", `${event.cardCount} cards`);
+        break;
 
-  private logMayIWinner(
-    before: GameSnapshot,
-    after: GameSnapshot,
-    claimedCardId: string
-  ): void {
-    const winner = after.players.find((p) => p.hand.some((c) => c.id === claimedCardId));
-    if (!winner) return;
-
-    const beforeWinner = before.players.find((p) => p.id === winner.id);
-    const delta =
-      beforeWinner && winner.hand.length >= beforeWinner.hand.length
-        ? winner.hand.length - beforeWinner.hand.length
-        : null;
-
-    const claimedCard =
-      winner.hand.find((c) => c.id === claimedCardId) ??
-      before.discard.find((c) => c.id === claimedCardId);
-    const cardStr = claimedCard ? renderCard(claimedCard) : claimedCardId;
-
-    const details = delta !== null && delta >= 2 ? `${cardStr} (+ penalty)` : cardStr;
-    this.logAction(before, winner.id, "won May I", details);
+      case "RoundEnded":
+        this.logAction(before, event.winnerId, "went out", `Round ${event.roundNumber} complete`);
+        break;
+    }
   }
 }
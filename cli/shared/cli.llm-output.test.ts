@@ -2,6 +2,8 @@ import { describe, it, expect } from "bun:test";
 import { outputGameStateForLLM } from "./cli.llm-output";
 import type { GameSnapshot } from "../../core/engine/game-engine.types";
 import type { Card } from "../../core/card/card.types";
+import { DEFAULT_RULE_SET } from "../../core/engine/house-rules";
+import { DEFAULT_CONTRACTS } from "../../core/engine/contracts";
 
 /**
  * Create a minimal valid GameSnapshot for testing
@@ -41,7 +43,11 @@ function createMockSnapshot(overrides: Partial<GameSnapshot> = {}): GameSnapshot
     lastDiscardedByPlayerId: null,
     discardClaimed: false,
     currentRound: 1,
-    contract: { roundNumber: 1, sets: 2, runs: 0 },
+    contract: { roundNumber: 1, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: false },
+    contracts: DEFAULT_CONTRACTS,
+    seed: null,
+    roundSeed: null,
+    rules: DEFAULT_RULE_SET,
     players: defaultPlayers,
     dealerIndex: 0,
     currentPlayerIndex: 0,
@@ -49,6 +55,7 @@ function createMockSnapshot(overrides: Partial<GameSnapshot> = {}): GameSnapshot
     stock: [],
     discard: [{ id: "d1", rank: "Q", suit: "diamonds" }] as Card[],
     table: [],
+    discardHistory: [],
     hasDrawn: false,
     laidDownThisTurn: false,
     tookActionThisTurn: false,
@@ -69,14 +76,14 @@ describe("outputGameStateForLLM", () => {
     });
 
     it("includes round number and contract in header", () => {
-      const state = createMockSnapshot({ currentRound: 3, contract: { roundNumber: 3, sets: 2, runs: 0 } });
+      const state = createMockSnapshot({ currentRound: 3, contract: { roundNumber: 3, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: false } });
       const result = outputGameStateForLLM(state, "p1");
       expect(result).toContain("Round 3 of 6");
       expect(result).toContain("2 sets");
     });
 
     it("shows Hand 6 warning for final round", () => {
-      const state = createMockSnapshot({ currentRound: 6, contract: { roundNumber: 6, sets: 1, runs: 2 } });
+      const state = createMockSnapshot({ currentRound: 6, contract: { roundNumber: 6, sets: 1, runs: 2, cardsDealt: 11, mustUseAllCards: true } });
       const result = outputGameStateForLLM(state, "p1");
       expect(result).toContain("Must lay down ALL cards to win");
     });
@@ -189,6 +196,35 @@ describe("outputGameStateForLLM", () => {
     });
   });
 
+  describe("card tracking", () => {
+    it("omits the section between rounds", () => {
+      const state = createMockSnapshot({ phase: "ROUND_END" });
+      const result = outputGameStateForLLM(state, "p1");
+      expect(result).toContain("ROUND COMPLETE");
+      expect(result).not.toContain("CARD TRACKING");
+    });
+
+    it("shows what opponents took and passed on, and unseen copies of your cards", () => {
+      const state = createMockSnapshot({
+        discardHistory: [
+          { playerId: "p2", card: { id: "c4", rank: "K", suit: "spades" }, action: "took" },
+          { playerId: "p2", card: { id: "d1", rank: "Q", suit: "diamonds" }, action: "passed" },
+          { playerId: "p1", card: { id: "x1", rank: "7", suit: "hearts" }, action: "discarded" },
+        ],
+        discard: [
+          { id: "d1", rank: "Q", suit: "diamonds" },
+          { id: "x1", rank: "7", suit: "hearts" },
+        ] as Card[],
+      });
+      const result = outputGameStateForLLM(state, "p1");
+
+      expect(result).toContain("CARD TRACKING (this round):");
+      expect(result).toContain("Bob: took K♠ | passed on Q♦");
+      // Two decks: one 7♥ in hand and one in the discard pile leave none unseen
+      expect(result).toContain("Unseen copies of your cards: 7♥ ×0, 8♥ ×1, 9♥ ×1");
+    });
+  });
+
   describe("phase-specific context", () => {
     it("shows draw prompt for AWAITING_DRAW phase", () => {
       const state = createMockSnapshot({
@@ -217,7 +253,7 @@ describe("outputGameStateForLLM", () => {
         phase: "ROUND_ACTIVE",
         turnPhase: "AWAITING_ACTION",
         awaitingPlayerId: "p1",
-        contract: { roundNumber: 2, sets: 1, runs: 1 },
+        contract: { roundNumber: 2, sets: 1, runs: 1, cardsDealt: 11, mustUseAllCards: false },
         players: [
           { id: "p1", name: "Alice", hand: [], isDown: false, totalScore: 0 },
           { id: "p2", name: "Bob", hand: [], isDown: false, totalScore: 0 },
@@ -420,27 +456,61 @@ describe("outputGameStateForLLM", () => {
 
   describe("contract formatting", () => {
     it("formats sets only contract", () => {
-      const state = createMockSnapshot({ contract: { roundNumber: 4, sets: 3, runs: 0 } });
+      const state = createMockSnapshot({ contract: { roundNumber: 4, sets: 3, runs: 0, cardsDealt: 11, mustUseAllCards: false } });
       const result = outputGameStateForLLM(state, "p1");
       expect(result).toContain("3 sets");
     });
 
     it("formats runs only contract", () => {
-      const state = createMockSnapshot({ contract: { roundNumber: 3, sets: 0, runs: 2 } });
+      const state = createMockSnapshot({ contract: { roundNumber: 3, sets: 0, runs: 2, cardsDealt: 11, mustUseAllCards: false } });
       const result = outputGameStateForLLM(state, "p1");
       expect(result).toContain("2 runs");
     });
 
     it("formats mixed contract", () => {
-      const state = createMockSnapshot({ contract: { roundNumber: 5, sets: 2, runs: 1 } });
+      const state = createMockSnapshot({ contract: { roundNumber: 5, sets: 2, runs: 1, cardsDealt: 11, mustUseAllCards: false } });
       const result = outputGameStateForLLM(state, "p1");
       expect(result).toContain("2 sets + 1 run");
     });
 
     it("uses singular for single set/run", () => {
-      const state = createMockSnapshot({ contract: { roundNumber: 2, sets: 1, runs: 1 } });
+      const state = createMockSnapshot({ contract: { roundNumber: 2, sets: 1, runs: 1, cardsDealt: 11, mustUseAllCards: false } });
       const result = outputGameStateForLLM(state, "p1");
       expect(result).toContain("1 set + 1 run");
     });
   });
+
+  describe("recent actions", () => {
+    const sevenHearts = { id: "c1", rank: "7", suit: "hearts" } as Card;
+    const kingClubs = { id: "c5", rank: "K", suit: "clubs" } as Card;
+
+    it("omits the section without recent events", () => {
+      const result = outputGameStateForLLM(createMockSnapshot(), "p1");
+      expect(result).not.toContain("RECENT ACTIONS");
+    });
+
+    it("renders events from the viewing player's perspective", () => {
+      const result = outputGameStateForLLM(createMockSnapshot(), "p1", {
+        recentEvents: [
+          { type: "CardDrawnFromStock", playerId: "p1", card: sevenHearts },
+          { type: "CardDiscarded", playerId: "p1", card: sevenHearts },
+          { type: "MayICalled", playerId: "p2", card: sevenHearts },
+          { type: "MayIResolved", winnerId: "p2", card: sevenHearts, penaltyCard: kingClubs },
+        ],
+      });
+      expect(result).toContain("RECENT ACTIONS:");
+      expect(result).toContain("You drew 7♥ from the stock");
+      expect(result).toContain("You discarded 7♥");
+      expect(result).toContain("Bob called May I on 7♥");
+      expect(result).toContain("Bob took 7♥ + penalty card");
+    });
+
+    it("hides cards other players drew from the stock", () => {
+      const result = outputGameStateForLLM(createMockSnapshot(), "p1", {
+        recentEvents: [{ type: "CardDrawnFromStock", playerId: "p2", card: kingClubs }],
+      });
+      expect(result).toContain("Bob drew from the stock");
+      expect(result).not.toContain("K♣");
+    });
+  });
 });
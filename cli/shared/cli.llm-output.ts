@@ -5,26 +5,22 @@
  * Only shows information the specified player is allowed to see:
  * - Their full hand
  * - Other players' card counts (not their cards)
+ * - What the round's discards have made public
  */
 
+import { formatCardText } from "../../core/card/card-text.utils";
+import type { Card } from "../../core/card/card.types";
 import type { Player } from "../../core/engine/engine.types";
 import type { GameSnapshot } from "../../core/engine/game-engine.types";
+import type { DomainEvent } from "../../core/engine/game-engine.events";
+import { buildCardKnowledge, getUnseenCount } from "../../core/engine/game-engine.knowledge";
 import { renderCard, renderNumberedHand } from "./cli.renderer";
 import { getNumberedMelds } from "./cli-meld-numbering";
 
-/** Action log entry for LLM context */
-export interface ActionLogEntry {
-  roundNumber: number;
-  playerId: string;
-  playerName: string;
-  action: string;
-  details?: string;
-}
-
 /** Options for LLM state output */
 export interface LLMOutputOptions {
-  /** Optional action log entries (if not provided, RECENT ACTIONS section is omitted) */
-  actionLog?: ActionLogEntry[];
+  /** Optional recent domain events (if not provided, RECENT ACTIONS section is omitted) */
+  recentEvents?: DomainEvent[];
 }
 
 /**
@@ -48,9 +44,9 @@ export function outputGameStateForLLM(
 
   // Header
   lines.push("═".repeat(66));
-  lines.push(centerText(`MAY I? — Round ${state.currentRound} of 6`, 66));
+  lines.push(centerText(`MAY I? — Round ${state.currentRound} of ${state.contracts.length}`, 66));
   lines.push(centerText(formatContract(state.contract), 66));
-  if (state.currentRound === 6) {
+  if (state.contract.mustUseAllCards) {
     lines.push(centerText("⚠️  Must lay down ALL cards to win!", 66));
   }
   lines.push("═".repeat(66));
@@ -94,6 +90,13 @@ export function outputGameStateForLLM(
   const discardStr = topDiscard ? renderCard(topDiscard) : "(empty)";
   lines.push(`DISCARD: ${discardStr} (${state.discard.length} in pile) | STOCK: ${state.stock.length} cards`);
   lines.push("");
+
+  const tracking = formatCardTracking(state, player);
+  if (tracking.length > 0) {
+    lines.push("CARD TRACKING (this round):");
+    lines.push(...tracking.map((line) => `  ${line}`));
+    lines.push("");
+  }
   lines.push("─".repeat(66));
   lines.push("");
 
@@ -151,20 +154,18 @@ export function outputGameStateForLLM(
     }
   }
 
-  // Recent action log (last 10 actions from current round)
-  // Only shown if action log is provided in options
-  if (options.actionLog && options.actionLog.length > 0) {
-    const recentActions = options.actionLog
-      .filter((entry) => entry.roundNumber === state.currentRound)
+  // Recent actions (last 10 events)
+  // Only shown if recent events are provided in options
+  if (options.recentEvents && options.recentEvents.length > 0) {
+    const recentActions = options.recentEvents
+      .map((event) => formatRecentEvent(event, state, playerId))
+      .filter((line): line is string => line !== null)
       .slice(-10);
 
     if (recentActions.length > 0) {
       lines.push("RECENT ACTIONS:");
-      for (const entry of recentActions) {
-        const isYou = entry.playerId === playerId;
-        const name = isYou ? "You" : entry.playerName;
-        const details = entry.details ? ` ${entry.details}` : "";
-        lines.push(`  ${name} ${entry.action}${details}`);
+      for (const line of recentActions) {
+        lines.push(`  ${line}`);
       }
       lines.push("");
     }
@@ -173,6 +174,91 @@ export function outputGameStateForLLM(
   return lines.join("\n");
 }
 
+/**
+ * Describe a domain event as seen by the given player.
+ * Cards drawn from the stock are only shown to the player who drew them.
+ */
+function formatRecentEvent(
+  event: DomainEvent,
+  state: GameSnapshot,
+  viewerId: string
+): string | null {
+  const name = (id: string) =>
+    id === viewerId ? "You" : (state.players.find((p) => p.id === id)?.name ?? id);
+
+  switch (event.type) {
+    case "CardDrawnFromStock":
+      return event.playerId === viewerId
+        ? `You drew ${renderCard(event.card)} from the stock`
+        : `${name(event.playerId)} drew from the stock`;
+    case "DiscardTaken":
+      return `${name(event.playerId)} took ${renderCard(event.card)} from the discard`;
+    case "ContractLaidDown":
+      return `${name(event.playerId)} laid down the contract`;
+    case "CardLaidOff":
+      return `${name(event.playerId)} laid off ${renderCard(event.card)}`;
+    case "JokerSwapped":
+      return `${name(event.playerId)} swapped ${renderCard(event.card)} for a Joker`;
+    case "CardDiscarded":
+      return `${name(event.playerId)} discarded ${renderCard(event.card)}`;
+    case "MayICalled":
+      return `${name(event.playerId)} called May I on ${renderCard(event.card)}`;
+    case "MayIAllowed":
+      return `${name(event.playerId)} allowed May I`;
+    case "MayIClaimed":
+      return `${name(event.playerId)} claimed ${renderCard(event.card)}`;
+    case "MayIResolved": {
+      const penalty =
+        event.penaltyCard === null
+          ? ""
+          : event.winnerId === viewerId
+            ? ` + ${renderCard(event.penaltyCard)} penalty`
+            : " + penalty card";
+      return `${name(event.winnerId)} took ${renderCard(event.card)}${penalty}`;
+    }
+    case "StockReshuffled":
+      return `Discard pile reshuffled into the stock (${event.cardCount} cards)`;
+    case "RoundEnded":
+      return `${name(event.winnerId)} went out, ending round ${event.roundNumber}`;
+    case "ActionSkipped":
+      return null;
+  }
+}
+
+/**
+ * What opponents picked up from or passed on the discard pile, and how many
+ * copies of the player's own cards are still unseen
+ */
+function formatCardTracking(state: GameSnapshot, player: Player): string[] {
+  if (state.phase !== "ROUND_ACTIVE" && state.phase !== "RESOLVING_MAY_I") return [];
+
+  const knowledge = buildCardKnowledge(state, player.id);
+  const cards = (list: Card[]) => list.map(formatCardText).join(" ");
+  const lines: string[] = [];
+
+  for (const opponent of knowledge.opponents) {
+    const parts = [
+      opponent.tookFromDiscard.length > 0 ? `took ${cards(opponent.tookFromDiscard)}` : null,
+      opponent.wonByMayI.length > 0 ? `won by May I ${cards(opponent.wonByMayI)}` : null,
+      opponent.passed.length > 0 ? `passed on ${cards(opponent.passed)}` : null,
+    ].filter((part): part is string => part !== null);
+    if (parts.length === 0) continue;
+
+    const name = state.players.find((p) => p.id === opponent.playerId)?.name ?? opponent.playerId;
+    lines.push(`${name}: ${parts.join(" | ")}`);
+  }
+
+  const faces = new Map(player.hand.map((c) => [`${c.rank}-${c.suit}`, c] as const));
+  if (faces.size > 0) {
+    const counts = [...faces.values()].map(
+      (c) => `${formatCardText(c)} ×${getUnseenCount(knowledge, c)}`
+    );
+    lines.push(`Unseen copies of your cards: ${counts.join(", ")}`);
+  }
+
+  return lines;
+}
+
 function getAvailableActions(state: GameSnapshot, player: Player): string[] {
   if (state.phase === "RESOLVING_MAY_I") {
     return ["allow_may_i", "claim_may_i"];
@@ -5,6 +5,7 @@
  */
 
 import type { RoundNumber } from "../../core/engine/engine.types";
+import type { GameJournal } from "../../core/engine/game-engine.types";
 
 /**
  * Decision phases - what the CLI is waiting for
@@ -65,4 +66,6 @@ export interface CliGameSave {
   createdAt: string;
   updatedAt: string;
   engineSnapshot: unknown;
+  /** Engine command journal (missing for saves from before journaling) */
+  journal?: GameJournal | null;
 }
@@ -0,0 +1,122 @@
+#!/usr/bin/env bun
+/**
+ * May I? Tournament Runner
+ *
+ * Plays seeded games between strategies with no rendering and reports how
+ * each one did, to measure whether strategy or prompt changes improve play.
+ *
+ * Usage:
+ *   bun cli/tournament.ts --players bot:medium,bot:hard,bot:montecarlo --games 20
+ *   bun cli/tournament.ts --players bot:hard,bot:hard,llm:default:claude \
+ *     --recording .data/tournament-recording.json --format csv --out results.csv
+ *
+ * Strategies: bot:easy, bot:medium, bot:hard, bot:montecarlo, mock (the LLM
+ * agent with a scripted model) or llm:<model-id>.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import type { Recording } from "./tournament/tournament.models";
+import { REPORT_FORMATS, renderReport, type ReportFormat } from "./tournament/tournament.report";
+import { runTournament } from "./tournament/tournament.run";
+import { createStrategy } from "./tournament/tournament.strategies";
+
+const { values } = parseArgs({
+  options: {
+    players: { type: "string" },
+    games: { type: "string", default: "10" },
+    seed: { type: "string", default: "tournament" },
+    "start-round": { type: "string" },
+    format: { type: "string", default: "json" },
+    out: { type: "string" },
+    recording: { type: "string" },
+    offline: { type: "boolean", default: false },
+    "mc-iterations": { type: "string" },
+    "mc-time-ms": { type: "string" },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+if (values.help || !values.players) {
+  printHelp();
+  process.exit(values.help ? 0 : 1);
+}
+
+const format = values.format as ReportFormat;
+if (!REPORT_FORMATS.includes(format)) {
+  console.error(`Unknown format "${values.format}". Use ${REPORT_FORMATS.join(" or ")}.`);
+  process.exit(1);
+}
+
+const recording: Recording | undefined = values.recording
+  ? new Map(
+      existsSync(values.recording)
+        ? Object.entries(JSON.parse(readFileSync(values.recording, "utf-8")))
+        : []
+    )
+  : undefined;
+
+try {
+  const strategies = values.players.split(",").map((spec) =>
+    createStrategy(spec.trim(), {
+      monteCarlo: {
+        iterations: optionalNumber(values["mc-iterations"]),
+        timeLimitMs: optionalNumber(values["mc-time-ms"]),
+      },
+      recording,
+      offline: values.offline,
+    })
+  );
+  const games = Number(values.games);
+
+  const result = await runTournament({
+    strategies,
+    games,
+    seed: values.seed,
+    startingRound: optionalNumber(values["start-round"]),
+    onGameEnd: (game, index) => {
+      const scores = game.seats.map((s) => `${s.strategy}=${s.score}`).join(" ");
+      console.error(`Game ${index + 1}/${games} (${game.seed}): ${scores}`);
+    },
+  });
+
+  const report = renderReport(result, format);
+  if (values.out) {
+    writeFileSync(values.out, report + "\n");
+    console.error(`Wrote ${values.out}`);
+  } else {
+    console.log(report);
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+} finally {
+  if (values.recording && recording) {
+    writeFileSync(values.recording, JSON.stringify(Object.fromEntries(recording)));
+  }
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+function printHelp(): void {
+  console.log(`
+May I? Tournament Runner
+
+Usage: bun cli/tournament.ts --players <strategies> [options]
+
+  --players <list>      Comma-separated strategies, one per seat (3-8):
+                          bot:easy, bot:medium, bot:hard, bot:montecarlo,
+                          mock, llm:<model-id> (e.g. llm:default:claude)
+  --games <n>           Number of games (default: 10)
+  --seed <seed>         Base seed; game i uses <seed>-i (default: tournament)
+  --start-round <n>     Start each game at this round (default: 1)
+  --format json|csv     Report format (default: json)
+  --out <file>          Write the report to a file instead of stdout
+  --recording <file>    Replay LLM responses from this file, recording new ones
+  --offline             Fail LLM requests that are not in the recording
+  --mc-iterations <n>   Monte Carlo playouts per decision
+  --mc-time-ms <ms>     Monte Carlo time budget per decision
+`);
+}
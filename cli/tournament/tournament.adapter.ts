@@ -0,0 +1,112 @@
+/**
+ * In-memory AI game adapter for tournaments
+ *
+ * Lets the LLM agent play a seat of a GameEngine directly, without the CLI's
+ * file persistence. Positions from the agent's tools (1-indexed hand
+ * positions and meld numbers) are converted to card and meld IDs, the same
+ * way the PartyServer's adapter does.
+ */
+
+import type { AIGameAdapter } from "../../ai/ai-game-adapter.types";
+import type { GameEngine } from "../../core/engine/game-engine";
+import type {
+  CommandOutcome,
+  GameSnapshot,
+  JournalCommand,
+  MeldSpec,
+} from "../../core/engine/game-engine.types";
+import { isValidRun, isValidSet } from "../../core/meld/meld.validation";
+
+export class EngineAIGameAdapter implements AIGameAdapter {
+  private lastOutcome: CommandOutcome | null = null;
+
+  /**
+   * @param onOutcome - Called with every command the agent sends and its outcome
+   */
+  constructor(
+    private engine: GameEngine,
+    private playerId: string,
+    private onOutcome: (command: JournalCommand, outcome: CommandOutcome) => void = () => {}
+  ) {}
+
+  getSnapshot(): GameSnapshot {
+    return this.engine.getSnapshot();
+  }
+
+  getLastOutcome(): CommandOutcome | null {
+    return this.lastOutcome;
+  }
+
+  drawFromStock(): GameSnapshot {
+    return this.send({ type: "DRAW_FROM_STOCK", playerId: this.playerId });
+  }
+
+  drawFromDiscard(): GameSnapshot {
+    return this.send({ type: "DRAW_FROM_DISCARD", playerId: this.playerId });
+  }
+
+  skip(): GameSnapshot {
+    return this.send({ type: "SKIP", playerId: this.playerId });
+  }
+
+  layDown(meldGroups: number[][]): GameSnapshot {
+    const hand = this.hand();
+    const melds: MeldSpec[] = [];
+    for (const group of meldGroups) {
+      const cards = group.map((pos) => hand[pos - 1]);
+      if (cards.some((c) => !c)) return this.getSnapshot();
+
+      const valid = cards.filter((c) => c !== undefined);
+      // Infer the type; the engine still validates the meld
+      const type = isValidRun(valid) && !isValidSet(valid) ? "run" : "set";
+      melds.push({ type, cardIds: valid.map((c) => c.id) });
+    }
+    return this.send({ type: "LAY_DOWN", playerId: this.playerId, melds });
+  }
+
+  layOff(cardPosition: number, meldNumber: number): GameSnapshot {
+    const card = this.hand()[cardPosition - 1];
+    const meld = this.getSnapshot().table[meldNumber - 1];
+    if (!card || !meld) return this.getSnapshot();
+    return this.send({ type: "LAY_OFF", playerId: this.playerId, cardId: card.id, meldId: meld.id });
+  }
+
+  swap(meldNumber: number, jokerPosition: number, cardPosition: number): GameSnapshot {
+    const card = this.hand()[cardPosition - 1];
+    const meld = this.getSnapshot().table[meldNumber - 1];
+    const joker = meld?.cards[jokerPosition - 1];
+    if (!card || !meld || !joker) return this.getSnapshot();
+    return this.send({
+      type: "SWAP_JOKER",
+      playerId: this.playerId,
+      meldId: meld.id,
+      jokerCardId: joker.id,
+      swapCardId: card.id,
+    });
+  }
+
+  discardCard(position: number): GameSnapshot {
+    const card = this.hand()[position - 1];
+    if (!card) return this.getSnapshot();
+    return this.send({ type: "DISCARD", playerId: this.playerId, cardId: card.id });
+  }
+
+  allowMayI(): GameSnapshot {
+    return this.send({ type: "ALLOW_MAY_I", playerId: this.playerId });
+  }
+
+  claimMayI(): GameSnapshot {
+    return this.send({ type: "CLAIM_MAY_I", playerId: this.playerId });
+  }
+
+  private hand() {
+    return this.getSnapshot().players.find((p) => p.id === this.playerId)?.hand ?? [];
+  }
+
+  private send(command: JournalCommand): GameSnapshot {
+    const outcome = this.engine.dispatch(command);
+    this.lastOutcome = outcome;
+    this.onOutcome(command, outcome);
+    return this.getSnapshot();
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "bun:test";
+import { generateText, wrapLanguageModel } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { GameEngine } from "../../core/engine/game-engine";
+import { chooseToolCall, createRecordingMiddleware, type Recording } from "./tournament.models";
+
+function createModel() {
+  return new MockLanguageModelV3({
+    doGenerate: {
+      content: [{ type: "text", text: "live" }],
+      finishReason: { unified: "stop", raw: undefined },
+      usage: {
+        inputTokens: { total: 1, noCache: 1, cacheRead: 0, cacheWrite: 0 },
+        outputTokens: { total: 1, text: 1, reasoning: 0 },
+      },
+      warnings: [],
+    },
+  });
+}
+
+describe("createRecordingMiddleware", () => {
+  it("records new requests and replays them without calling the model", async () => {
+    const recording: Recording = new Map();
+    const first = createModel();
+    await generateText({
+      model: wrapLanguageModel({ model: first, middleware: createRecordingMiddleware(recording) }),
+      prompt: "Your turn",
+    });
+    expect(first.doGenerateCalls).toHaveLength(1);
+    expect(recording.size).toBe(1);
+
+    const second = createModel();
+    const replayed = await generateText({
+      model: wrapLanguageModel({ model: second, middleware: createRecordingMiddleware(recording) }),
+      prompt: "Your turn",
+    });
+    expect(second.doGenerateCalls).toHaveLength(0);
+    expect(replayed.text).toBe("live");
+  });
+
+  it("fails unrecorded requests when offline", async () => {
+    const model = wrapLanguageModel({
+      model: createModel(),
+      middleware: createRecordingMiddleware(new Map(), { offline: true }),
+    });
+
+    await expect(generateText({ model, prompt: "Your turn" })).rejects.toThrow(
+      "No recorded response"
+    );
+  });
+});
+
+describe("chooseToolCall", () => {
+  it("turns the heuristic bot's commands into agent tool calls", () => {
+    const engine = GameEngine.createGame({ playerNames: ["A", "B", "C"], seed: "tools" });
+    const playerId = engine.getAwaitingPlayerId();
+
+    const draw = chooseToolCall(engine.getSnapshot(), playerId);
+    expect(draw?.toolName).toMatch(/^draw_from_(stock|discard)$/);
+
+    engine.drawFromStock(playerId);
+    engine.skip(playerId);
+    const call = chooseToolCall(engine.getSnapshot(), playerId);
+    expect(call?.toolName).toBe("discard");
+    expect(call?.input.position).toBeGreaterThan(0);
+  });
+});
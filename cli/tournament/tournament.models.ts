@@ -0,0 +1,169 @@
+/**
+ * Language models for tournament LLM seats
+ *
+ * - createMockModel: a scripted model that answers every step with the tool
+ *   call the heuristic bot would make. It runs the full agent path (prompt,
+ *   tools, stop conditions) with no API key, so the runner can be tested.
+ * - createRecordingMiddleware: serves model responses from a recording and
+ *   records the ones it has not seen, so a tournament can be replayed
+ *   offline and only prompt changes cost new API calls.
+ */
+
+import { createHash } from "node:crypto";
+import type { LanguageModelMiddleware } from "ai";
+import { MockLanguageModelV3 } from "ai/test";
+import { chooseHeuristicCommand } from "../../ai/heuristicBot";
+import type { GameSnapshot, JournalCommand } from "../../core/engine/game-engine.types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Mock model
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface ToolCall {
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+const MOCK_USAGE = {
+  inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 0, text: 0, reasoning: 0 },
+};
+
+/**
+ * A model that plays a seat like the heuristic bot, through the agent's tools
+ */
+export function createMockModel(getSnapshot: () => GameSnapshot, playerId: string) {
+  let calls = 0;
+  return new MockLanguageModelV3({
+    provider: "tournament",
+    modelId: "mock",
+    doGenerate: async () => {
+      const call = chooseToolCall(getSnapshot(), playerId);
+      if (!call) {
+        return {
+          content: [{ type: "text", text: "Nothing to do." }],
+          finishReason: { unified: "stop", raw: undefined },
+          usage: MOCK_USAGE,
+          warnings: [],
+        };
+      }
+      return {
+        content: [
+          {
+            type: "tool-call",
+            toolCallId: `mock-${++calls}`,
+            toolName: call.toolName,
+            input: JSON.stringify(call.input),
+          },
+        ],
+        finishReason: { unified: "tool-calls", raw: undefined },
+        usage: MOCK_USAGE,
+        warnings: [],
+      };
+    },
+  });
+}
+
+/**
+ * The agent tool call for the heuristic bot's next command.
+ * The agent has no skip tool (discarding skips), so a skip becomes the
+ * discard the bot would make next.
+ */
+export function chooseToolCall(snapshot: GameSnapshot, playerId: string): ToolCall | null {
+  let command = chooseHeuristicCommand(snapshot, playerId);
+  if (command?.type === "SKIP") {
+    command = chooseHeuristicCommand({ ...snapshot, turnPhase: "AWAITING_DISCARD" }, playerId);
+  }
+  return command ? toToolCall(snapshot, command) : null;
+}
+
+function toToolCall(snapshot: GameSnapshot, command: JournalCommand): ToolCall | null {
+  const hand = snapshot.players.find((p) => p.id === command.playerId)?.hand ?? [];
+  const handPosition = (cardId: string) => hand.findIndex((c) => c.id === cardId) + 1;
+  const meldNumber = (meldId: string) => snapshot.table.findIndex((m) => m.id === meldId) + 1;
+
+  switch (command.type) {
+    case "DRAW_FROM_STOCK":
+      return { toolName: "draw_from_stock", input: {} };
+    case "DRAW_FROM_DISCARD":
+      return { toolName: "draw_from_discard", input: {} };
+    case "LAY_DOWN":
+      return {
+        toolName: "lay_down",
+        input: { melds: command.melds.map((m) => m.cardIds.map(handPosition)) },
+      };
+    case "LAY_OFF":
+      return {
+        toolName: "lay_off",
+        input: { cardPosition: handPosition(command.cardId), meldNumber: meldNumber(command.meldId) },
+      };
+    case "SWAP_JOKER": {
+      const meld = snapshot.table.find((m) => m.id === command.meldId);
+      return {
+        toolName: "swap_joker",
+        input: {
+          meldNumber: meldNumber(command.meldId),
+          jokerPosition: (meld?.cards.findIndex((c) => c.id === command.jokerCardId) ?? -1) + 1,
+          cardPosition: handPosition(command.swapCardId),
+        },
+      };
+    }
+    case "DISCARD":
+      return { toolName: "discard", input: { position: handPosition(command.cardId) } };
+    case "ALLOW_MAY_I":
+      return { toolName: "allow_may_i", input: {} };
+    case "CLAIM_MAY_I":
+      return { toolName: "claim_may_i", input: {} };
+    default:
+      return null;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Recorded responses
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Recorded model responses, keyed by a hash of the model and request
+ */
+export type Recording = Map<string, unknown>;
+
+export interface RecordingOptions {
+  /** Fail instead of calling the model for a request that was not recorded */
+  offline?: boolean;
+}
+
+/**
+ * Middleware that replays recorded responses and records new ones
+ */
+export function createRecordingMiddleware(
+  recording: Recording,
+  options: RecordingOptions = {}
+): LanguageModelMiddleware {
+  return {
+    specificationVersion: "v3",
+    wrapGenerate: async ({ doGenerate, params, model }) => {
+      const key = createHash("sha256")
+        .update(
+          JSON.stringify({
+            model: `${model.provider}:${model.modelId}`,
+            prompt: params.prompt,
+            tools: params.tools?.map((t) => t.name),
+          })
+        )
+        .digest("hex");
+
+      const recorded = recording.get(key) as Awaited<ReturnType<typeof doGenerate>> | undefined;
+      if (recorded) return recorded;
+
+      if (options.offline) {
+        throw new Error(`No recorded response for ${model.modelId} (record it without --offline)`);
+      }
+
+      const { content, finishReason, usage } = await doGenerate();
+      const response = { content, finishReason, usage, warnings: [] };
+      recording.set(key, response);
+      return response;
+    },
+  };
+}
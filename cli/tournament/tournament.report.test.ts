@@ -0,0 +1,37 @@
+import { describe, it, expect } from "bun:test";
+import { renderCsv, renderReport } from "./tournament.report";
+import type { StrategyStats } from "./tournament.run";
+
+const stats: StrategyStats = {
+  strategy: "llm:default:claude",
+  games: 3,
+  gamesWon: 1,
+  averageScore: 123.456,
+  roundsPlayed: 18,
+  roundsWon: 5,
+  averageTurnsToGoDown: null,
+  mayICalls: 0,
+  violations: 2,
+  fallbackTurns: 1,
+};
+
+describe("renderCsv", () => {
+  it("writes one row per strategy with rounded averages", () => {
+    expect(renderCsv([stats]).split("\n")).toEqual([
+      "strategy,games,gamesWon,averageScore,roundsPlayed,roundsWon,averageTurnsToGoDown,mayICalls,violations,fallbackTurns",
+      "llm:default:claude,3,1,123.46,18,5,,0,2,1",
+    ]);
+  });
+
+  it("quotes names with commas", () => {
+    expect(renderCsv([{ ...stats, strategy: 'a,"b"' }]).split("\n")[1]).toStartWith('"a,""b""",');
+  });
+});
+
+describe("renderReport", () => {
+  it("writes the games and strategies as JSON", () => {
+    const result = { games: [], strategies: [stats] };
+
+    expect(JSON.parse(renderReport(result, "json"))).toEqual(result);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Tournament reports as JSON or CSV
+ */
+
+import type { StrategyStats, TournamentResult } from "./tournament.run";
+
+export const REPORT_FORMATS = ["json", "csv"] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+const CSV_COLUMNS: (keyof StrategyStats)[] = [
+  "strategy",
+  "games",
+  "gamesWon",
+  "averageScore",
+  "roundsPlayed",
+  "roundsWon",
+  "averageTurnsToGoDown",
+  "mayICalls",
+  "violations",
+  "fallbackTurns",
+];
+
+export function renderReport(result: TournamentResult, format: ReportFormat): string {
+  return format === "csv" ? renderCsv(result.strategies) : JSON.stringify(result, null, 2);
+}
+
+/**
+ * One row per strategy; averages are rounded to two decimals
+ */
+export function renderCsv(strategies: StrategyStats[]): string {
+  const cell = (value: StrategyStats[keyof StrategyStats]) => {
+    if (value === null) return "";
+    if (typeof value === "number") return String(Math.round(value * 100) / 100);
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+
+  return [
+    CSV_COLUMNS.join(","),
+    ...strategies.map((s) => CSV_COLUMNS.map((column) => cell(s[column])).join(",")),
+  ].join("\n");
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "bun:test";
+import { runTournament, summarize, type SeatResult } from "./tournament.run";
+import { createStrategy } from "./tournament.strategies";
+
+function seat(overrides: Partial<SeatResult>): SeatResult {
+  return {
+    strategy: "bot:medium",
+    playerId: "player-0",
+    score: 0,
+    won: false,
+    roundsPlayed: 1,
+    roundsWon: 0,
+    turnsToGoDown: [],
+    mayICalls: 0,
+    violations: 0,
+    fallbackTurns: 0,
+    ...overrides,
+  };
+}
+
+describe("runTournament", () => {
+  it("plays seeded games between bots and the agent and tallies each strategy", async () => {
+    const strategies = ["bot:easy", "bot:hard", "mock"].map((spec) => createStrategy(spec));
+
+    const result = await runTournament({ strategies, games: 2, seed: "t", startingRound: 6 });
+
+    expect(result.games.map((g) => g.seed)).toEqual(["t-0", "t-1"]);
+    // Seats rotate between games
+    expect(result.games[0]!.seats.map((s) => s.strategy)).toEqual(["bot:easy", "bot:hard", "mock"]);
+    expect(result.games[1]!.seats.map((s) => s.strategy)).toEqual(["bot:hard", "mock", "bot:easy"]);
+
+    expect(result.strategies.map((s) => s.strategy)).toEqual(["bot:easy", "bot:hard", "mock"]);
+    for (const stats of result.strategies) {
+      expect(stats.games).toBe(2);
+      expect(stats.roundsPlayed).toBe(2);
+      expect(stats.violations).toBe(0);
+      expect(stats.fallbackTurns).toBe(0);
+    }
+    expect(result.strategies.reduce((n, s) => n + s.roundsWon, 0)).toBe(2);
+  });
+
+  it("deals the same games for the same seed", async () => {
+    const play = () =>
+      runTournament({
+        strategies: ["bot:medium", "bot:medium", "bot:hard"].map((spec) => createStrategy(spec)),
+        games: 1,
+        seed: "same",
+        startingRound: 6,
+      });
+
+    expect((await play()).games).toEqual((await play()).games);
+  });
+
+  it("rejects tables with too few seats", async () => {
+    const strategies = ["bot:easy", "bot:hard"].map((spec) => createStrategy(spec));
+
+    await expect(runTournament({ strategies, games: 1, seed: "t" })).rejects.toThrow("3-8 seats");
+  });
+});
+
+describe("summarize", () => {
+  it("averages scores and turns to go down per strategy", () => {
+    const stats = summarize([
+      {
+        seed: "a",
+        seats: [
+          seat({ score: 40, won: true, roundsWon: 1, turnsToGoDown: [3], mayICalls: 2 }),
+          seat({ strategy: "mock", score: 60, violations: 1, fallbackTurns: 1 }),
+        ],
+      },
+      {
+        seed: "b",
+        seats: [
+          seat({ score: 80, turnsToGoDown: [5, 7] }),
+          seat({ strategy: "mock", score: 20, won: true, roundsWon: 1 }),
+        ],
+      },
+    ]);
+
+    expect(stats).toEqual([
+      {
+        strategy: "bot:medium",
+        games: 2,
+        gamesWon: 1,
+        averageScore: 60,
+        roundsPlayed: 2,
+        roundsWon: 1,
+        averageTurnsToGoDown: 5,
+        mayICalls: 2,
+        violations: 0,
+        fallbackTurns: 0,
+      },
+      {
+        strategy: "mock",
+        games: 2,
+        gamesWon: 1,
+        averageScore: 40,
+        roundsPlayed: 2,
+        roundsWon: 1,
+        averageTurnsToGoDown: null,
+        mayICalls: 0,
+        violations: 1,
+        fallbackTurns: 1,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Headless tournament runner
+ *
+ * Plays seeded games between strategies on a GameEngine, with no rendering,
+ * and tallies how each strategy did. Seats rotate from game to game so every
+ * strategy plays from every position.
+ *
+ * Before each draw, bot seats get one chance to call May I. Agent seats play
+ * through the LLM agent's tools. Whatever a strategy leaves unfinished (an
+ * error, a rejected move, running out of steps) the heuristic bot finishes,
+ * and the runner counts it.
+ */
+
+import { executeTurn } from "../../ai/mayIAgent";
+import { chooseHeuristicCommand } from "../../ai/heuristicBot";
+import { GameEngine } from "../../core/engine/game-engine";
+import type {
+  CommandOutcome,
+  GameSnapshot,
+  JournalCommand,
+} from "../../core/engine/game-engine.types";
+import { EngineAIGameAdapter } from "./tournament.adapter";
+import type { SeatPlayer, Strategy } from "./tournament.strategies";
+
+/** Commands per game before the runner gives up on it */
+const MAX_COMMANDS_PER_GAME = 20_000;
+
+/** Tool calls the agent may make per turn */
+const AGENT_MAX_STEPS = 10;
+
+export interface TournamentConfig {
+  /** One strategy per seat (3-8) */
+  strategies: Strategy[];
+  /** Number of games */
+  games: number;
+  /** Base seed; game i is dealt from `${seed}-${i}` */
+  seed: string;
+  /** Round each game starts at (default: 1) */
+  startingRound?: number;
+  /** Called after each game, e.g. to report progress */
+  onGameEnd?: (game: GameResult, index: number) => void;
+}
+
+export interface SeatResult {
+  strategy: string;
+  playerId: string;
+  /** Final game score (lower is better) */
+  score: number;
+  /** Had the lowest score (ties all win) */
+  won: boolean;
+  roundsPlayed: number;
+  roundsWon: number;
+  /** Own turns it took to go down, for each round it went down */
+  turnsToGoDown: number[];
+  mayICalls: number;
+  /** Commands the engine rejected */
+  violations: number;
+  /** Turns the heuristic bot had to finish for the strategy */
+  fallbackTurns: number;
+}
+
+export interface GameResult {
+  seed: string;
+  seats: SeatResult[];
+}
+
+export interface StrategyStats {
+  strategy: string;
+  games: number;
+  gamesWon: number;
+  averageScore: number;
+  roundsPlayed: number;
+  roundsWon: number;
+  /** Average own turns to go down, null if it never went down */
+  averageTurnsToGoDown: number | null;
+  mayICalls: number;
+  violations: number;
+  fallbackTurns: number;
+}
+
+export interface TournamentResult {
+  games: GameResult[];
+  strategies: StrategyStats[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Tournament
+// ═══════════════════════════════════════════════════════════════════════════
+
+export async function runTournament(config: TournamentConfig): Promise<TournamentResult> {
+  const { strategies, games: gameCount, seed } = config;
+  if (strategies.length < 3 || strategies.length > 8) {
+    throw new Error("A tournament needs 3-8 seats");
+  }
+
+  const games: GameResult[] = [];
+  for (let i = 0; i < gameCount; i++) {
+    // Rotate seats so each strategy plays from each position
+    const seated = strategies.map((_, seat) => strategies[(seat + i) % strategies.length]!);
+    const game = await runGame(seated, `${seed}-${i}`, config.startingRound);
+    games.push(game);
+    config.onGameEnd?.(game, i);
+  }
+
+  return { games, strategies: summarize(games) };
+}
+
+/**
+ * Per-strategy totals, in order of first appearance
+ */
+export function summarize(games: GameResult[]): StrategyStats[] {
+  const bySeat = new Map<string, SeatResult[]>();
+  for (const seat of games.flatMap((g) => g.seats)) {
+    bySeat.set(seat.strategy, [...(bySeat.get(seat.strategy) ?? []), seat]);
+  }
+
+  return [...bySeat].map(([strategy, seats]) => {
+    const sum = (pick: (s: SeatResult) => number) => seats.reduce((t, s) => t + pick(s), 0);
+    const turnsToGoDown = seats.flatMap((s) => s.turnsToGoDown);
+    return {
+      strategy,
+      games: seats.length,
+      gamesWon: sum((s) => Number(s.won)),
+      averageScore: sum((s) => s.score) / seats.length,
+      roundsPlayed: sum((s) => s.roundsPlayed),
+      roundsWon: sum((s) => s.roundsWon),
+      averageTurnsToGoDown:
+        turnsToGoDown.length > 0
+          ? turnsToGoDown.reduce((t, n) => t + n, 0) / turnsToGoDown.length
+          : null,
+      mayICalls: sum((s) => s.mayICalls),
+      violations: sum((s) => s.violations),
+      fallbackTurns: sum((s) => s.fallbackTurns),
+    };
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Game
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface Seat {
+  id: string;
+  player: SeatPlayer;
+  result: SeatResult;
+  /** Own turns so far this round */
+  turns: number;
+}
+
+/**
+ * Play one game to the end, one strategy per seat
+ */
+export async function runGame(
+  strategies: Strategy[],
+  seed: string,
+  startingRound?: number
+): Promise<GameResult> {
+  const engine = GameEngine.createGame({
+    playerNames: strategies.map((s, i) => `Seat ${i + 1} (${s.name})`),
+    gameId: `tournament-${seed}`,
+    seed,
+    startingRound,
+  });
+  const seats: Seat[] = engine.getSnapshot().players.map((p, i) => ({
+    id: p.id,
+    player: strategies[i]!.createPlayer(engine, p.id),
+    result: {
+      strategy: strategies[i]!.name,
+      playerId: p.id,
+      score: 0,
+      won: false,
+      roundsPlayed: 0,
+      roundsWon: 0,
+      turnsToGoDown: [],
+      mayICalls: 0,
+      violations: 0,
+      fallbackTurns: 0,
+    },
+    turns: 0,
+  }));
+
+  const record = (seat: Seat, command: JournalCommand, outcome: CommandOutcome) =>
+    recordOutcome(seats, seat, command, outcome);
+  const send = (seat: Seat, command: JournalCommand) =>
+    record(seat, command, engine.dispatch(command));
+
+  let mayIWindow = "";
+  for (let commands = 0; engine.getSnapshot().phase !== "GAME_END"; commands++) {
+    if (commands >= MAX_COMMANDS_PER_GAME) {
+      throw new Error(`Game ${seed} did not finish in ${MAX_COMMANDS_PER_GAME} commands`);
+    }
+    const snapshot = engine.getSnapshot();
+
+    // Bots get one chance to call May I before each draw
+    const window = `${snapshot.currentRound}-${snapshot.turnNumber}`;
+    if (
+      snapshot.phase === "ROUND_ACTIVE" &&
+      snapshot.turnPhase === "AWAITING_DRAW" &&
+      window !== mayIWindow
+    ) {
+      mayIWindow = window;
+      const caller = seats.find(
+        (s) =>
+          s.id !== snapshot.awaitingPlayerId &&
+          s.player.kind === "bot" &&
+          s.player.policy(snapshot, s.id)?.type === "CALL_MAY_I"
+      );
+      if (caller) {
+        send(caller, { type: "CALL_MAY_I", playerId: caller.id });
+        continue;
+      }
+    }
+
+    const seat = seats.find((s) => s.id === snapshot.awaitingPlayerId);
+    if (!seat) throw new Error(`Game ${seed} is awaiting unknown player ${snapshot.awaitingPlayerId}`);
+
+    if (seat.player.kind === "bot") {
+      const command = seat.player.policy(snapshot, seat.id);
+      const outcome = command ? send(seat, command) : null;
+      if (!outcome?.accepted) {
+        if (!command) seat.result.violations++;
+        seat.result.fallbackTurns++;
+        finishWithHeuristic(engine, seat, send);
+      }
+      continue;
+    }
+
+    const result = await executeTurn({
+      model: seat.player.model,
+      game: new EngineAIGameAdapter(engine, seat.id, (command, outcome) =>
+        record(seat, command, outcome)
+      ),
+      playerId: seat.id,
+      maxSteps: AGENT_MAX_STEPS,
+      telemetry: false,
+    });
+    const after = engine.getSnapshot();
+    if (!result.success || (after.phase !== "GAME_END" && after.awaitingPlayerId === seat.id)) {
+      seat.result.fallbackTurns++;
+      finishWithHeuristic(engine, seat, send);
+    }
+  }
+
+  return { seed, seats: scoreGame(engine.getSnapshot(), seats) };
+}
+
+/**
+ * Track what a seat's command did: rejections, May I calls and going down
+ */
+function recordOutcome(
+  seats: Seat[],
+  seat: Seat,
+  command: JournalCommand,
+  outcome: CommandOutcome
+): CommandOutcome {
+  if (!outcome.accepted) {
+    seat.result.violations++;
+    return outcome;
+  }
+
+  if (command.type === "CALL_MAY_I") seat.result.mayICalls++;
+  if (command.type === "DRAW_FROM_STOCK" || command.type === "DRAW_FROM_DISCARD") seat.turns++;
+
+  for (const event of outcome.domainEvents) {
+    if (event.type === "ContractLaidDown") seat.result.turnsToGoDown.push(seat.turns);
+    // Turn counts start over each round
+    if (event.type === "RoundEnded") seats.forEach((s) => (s.turns = 0));
+  }
+  return outcome;
+}
+
+/**
+ * Let the heuristic bot play the seat until the engine stops awaiting it
+ */
+function finishWithHeuristic(
+  engine: GameEngine,
+  seat: Seat,
+  send: (seat: Seat, command: JournalCommand) => CommandOutcome
+): void {
+  for (;;) {
+    const snapshot = engine.getSnapshot();
+    if (snapshot.phase === "GAME_END" || snapshot.awaitingPlayerId !== seat.id) return;
+
+    const command = chooseHeuristicCommand(snapshot, seat.id);
+    if (!command || !send(seat, command).accepted) {
+      throw new Error(`Heuristic bot could not play for ${seat.id} (${describeState(snapshot)})`);
+    }
+  }
+}
+
+function scoreGame(snapshot: GameSnapshot, seats: Seat[]): SeatResult[] {
+  const best = Math.min(...snapshot.players.map((p) => p.totalScore));
+  return seats.map((seat) => {
+    const score = snapshot.players.find((p) => p.id === seat.id)?.totalScore ?? 0;
+    return {
+      ...seat.result,
+      score,
+      won: score === best,
+      roundsPlayed: snapshot.roundHistory.length,
+      roundsWon: snapshot.roundHistory.filter((r) => r.winnerId === seat.id).length,
+    };
+  });
+}
+
+function describeState(snapshot: GameSnapshot): string {
+  return `round ${snapshot.currentRound}, ${snapshot.phase}/${snapshot.turnPhase}`;
+}
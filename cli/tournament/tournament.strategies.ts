@@ -0,0 +1,69 @@
+/**
+ * Tournament strategies
+ *
+ * A strategy is what plays a seat, named by a spec string:
+ * - bot:easy, bot:medium, bot:hard - the heuristic bot at that difficulty
+ * - bot:montecarlo - the Monte Carlo search bot
+ * - mock - the LLM agent driven by a scripted model (no API key)
+ * - llm:<model-id> - the LLM agent with a registry model, e.g. llm:default:claude
+ */
+
+import { wrapLanguageModel, type LanguageModel } from "ai";
+import { createBotPolicy, type BotPolicy } from "../../ai/botPolicy";
+import type { MonteCarloBotOptions } from "../../ai/monteCarloBot";
+import { modelRegistry, type ModelId } from "../../ai/modelRegistry";
+import type { GameEngine } from "../../core/engine/game-engine";
+import { createMockModel, createRecordingMiddleware, type Recording } from "./tournament.models";
+
+/** What plays one seat of one game */
+export type SeatPlayer =
+  | { kind: "bot"; policy: BotPolicy }
+  | { kind: "agent"; model: LanguageModel };
+
+export interface Strategy {
+  /** The spec the strategy was created from, used as its name in results */
+  name: string;
+  /** Create the player for a seat */
+  createPlayer(engine: GameEngine, playerId: string): SeatPlayer;
+}
+
+export interface StrategyOptions {
+  /** Search budget for Monte Carlo bots */
+  monteCarlo?: MonteCarloBotOptions;
+  /** Recorded responses for llm: strategies (responses it lacks are recorded) */
+  recording?: Recording;
+  /** Fail llm: requests that are not in the recording instead of calling the model */
+  offline?: boolean;
+}
+
+export function createStrategy(spec: string, options: StrategyOptions = {}): Strategy {
+  const policy = createBotPolicy(spec, { monteCarlo: options.monteCarlo });
+  if (policy) {
+    return { name: spec, createPlayer: () => ({ kind: "bot", policy }) };
+  }
+
+  if (spec === "mock") {
+    return {
+      name: spec,
+      createPlayer: (engine, playerId) => ({
+        kind: "agent",
+        model: createMockModel(() => engine.getSnapshot(), playerId),
+      }),
+    };
+  }
+
+  if (spec.startsWith("llm:")) {
+    const base = modelRegistry.languageModel(spec.slice("llm:".length) as ModelId);
+    const model = options.recording
+      ? wrapLanguageModel({
+          model: base,
+          middleware: createRecordingMiddleware(options.recording, { offline: options.offline }),
+        })
+      : base;
+    return { name: spec, createPlayer: () => ({ kind: "agent", model }) };
+  }
+
+  throw new Error(
+    `Unknown strategy "${spec}". Use bot:easy, bot:medium, bot:hard, bot:montecarlo, mock or llm:<model-id>`
+  );
+}
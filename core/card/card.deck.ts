@@ -1,4 +1,5 @@
 import type { Card, Suit, Rank } from "./card.types";
+import type { RandomSource } from "./card.random";
 
 const SUITS: Suit[] = ["hearts", "diamonds", "clubs", "spades"];
 const RANKS: Rank[] = [
@@ -62,12 +63,14 @@ export function createDeck(options: DeckOptions): Card[] {
 /**
  * Shuffle a deck of cards using Fisher-Yates algorithm
  * Returns a new shuffled array, does not mutate the original
+ *
+ * Pass a seeded random source (see card.random.ts) for a deterministic order.
  */
-export function shuffle(cards: Card[]): Card[] {
+export function shuffle(cards: Card[], random: RandomSource = Math.random): Card[] {
   const shuffled = [...cards];
 
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     const cardI = shuffled[i];
     const cardJ = shuffled[j];
     if (cardI !== undefined && cardJ !== undefined) {
@@ -90,14 +93,18 @@ export interface DealResult {
 /**
  * Deal cards to players for May I?
  *
- * - Each player receives 11 cards
+ * - Each player receives 11 cards (or cardsPerHand, for custom contracts)
  * - Remaining cards form the stock pile
  * - Top card from stock starts the discard pile
  *
  * Does not mutate the original deck.
  */
-export function deal(deck: Card[], playerCount: number): DealResult {
-  const cardsNeeded = playerCount * CARDS_PER_HAND + 1; // +1 for initial discard
+export function deal(
+  deck: Card[],
+  playerCount: number,
+  cardsPerHand: number = CARDS_PER_HAND
+): DealResult {
+  const cardsNeeded = playerCount * cardsPerHand + 1; // +1 for initial discard
 
   if (deck.length < cardsNeeded) {
     throw new Error(
@@ -116,14 +123,14 @@ export function deal(deck: Card[], playerCount: number): DealResult {
     return card;
   };
 
-  // Deal 11 cards to each player
+  // Deal cardsPerHand cards to each player
   const hands: Card[][] = [];
   for (let p = 0; p < playerCount; p++) {
     hands.push([]);
   }
 
   // Deal one card at a time to each player (round-robin style)
-  for (let cardNum = 0; cardNum < CARDS_PER_HAND; cardNum++) {
+  for (let cardNum = 0; cardNum < cardsPerHand; cardNum++) {
     for (let p = 0; p < playerCount; p++) {
       const hand = hands[p];
       if (hand !== undefined) {
@@ -140,3 +147,19 @@ export function deal(deck: Card[], playerCount: number): DealResult {
 
   return { hands, stock, discard };
 }
+
+/**
+ * Create a fresh deck, shuffle it and deal it for a new round.
+ *
+ * With a seeded random source, the same deck options and player count
+ * always produce the same hands, stock and discard.
+ */
+export function dealNewRound(
+  deckOptions: DeckOptions,
+  playerCount: number,
+  random: RandomSource = Math.random,
+  cardsPerHand: number = CARDS_PER_HAND
+): DealResult {
+  const deck = createDeck(deckOptions);
+  return deal(shuffle(deck, random), playerCount, cardsPerHand);
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "bun:test";
+import {
+  createSeededRandom,
+  createRandomSource,
+  deriveSeed,
+  deriveReshuffleSeed,
+} from "./card.random";
+import { createDeck, shuffle, dealNewRound } from "./card.deck";
+
+describe("createSeededRandom", () => {
+  it("returns the same sequence for the same seed", () => {
+    const a = createSeededRandom("family-night");
+    const b = createSeededRandom("family-night");
+    const seqA = Array.from({ length: 20 }, () => a());
+    const seqB = Array.from({ length: 20 }, () => b());
+    expect(seqA).toEqual(seqB);
+  });
+
+  it("returns different sequences for different seeds", () => {
+    const a = createSeededRandom("seed-a");
+    const b = createSeededRandom("seed-b");
+    const seqA = Array.from({ length: 5 }, () => a());
+    const seqB = Array.from({ length: 5 }, () => b());
+    expect(seqA).not.toEqual(seqB);
+  });
+
+  it("returns values in [0, 1)", () => {
+    const random = createSeededRandom("range");
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe("createRandomSource", () => {
+  it("falls back to Math.random without a seed", () => {
+    expect(createRandomSource(null)).toBe(Math.random);
+    expect(createRandomSource(undefined)).toBe(Math.random);
+  });
+});
+
+describe("deriveSeed", () => {
+  it("joins the parent seed and parts", () => {
+    expect(deriveSeed("abc", "round", 3)).toBe("abc:round:3");
+  });
+
+  it("returns null for an unseeded parent", () => {
+    expect(deriveSeed(null, "round", 3)).toBeNull();
+    expect(deriveReshuffleSeed(null, "card-1", 40)).toBeNull();
+  });
+});
+
+describe("seeded shuffle and deal", () => {
+  it("shuffles identically for the same seed", () => {
+    const deck = createDeck({ deckCount: 2, jokerCount: 4 });
+    const first = shuffle(deck, createSeededRandom("x"));
+    const second = shuffle(deck, createSeededRandom("x"));
+    expect(first.map((c) => c.id)).toEqual(second.map((c) => c.id));
+  });
+
+  it("deals identical rounds for the same seed", () => {
+    const options = { deckCount: 2, jokerCount: 4 };
+    const first = dealNewRound(options, 4, createSeededRandom("deal"));
+    const second = dealNewRound(options, 4, createSeededRandom("deal"));
+    expect(first).toEqual(second);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Seeded randomness for May I? card game
+ *
+ * Shuffles, deals and stock reshuffles draw from a RandomSource. When a game
+ * is created with a seed, every round derives its own seed from the game seed
+ * so the same seed and player list always produce identical deals.
+ *
+ * Works in browser and Workers runtimes (no Node.js dependencies).
+ */
+
+/**
+ * A source of uniformly distributed numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hash a string seed into a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic random source from a string seed (mulberry32).
+ *
+ * Two sources created from the same seed return the same sequence.
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Create a random source for an optional seed.
+ * Falls back to Math.random when no seed is set (unseeded games).
+ */
+export function createRandomSource(seed: string | null | undefined): RandomSource {
+  return seed ? createSeededRandom(seed) : Math.random;
+}
+
+/**
+ * Derive a child seed from a parent seed and a path of parts.
+ * Returns null when there is no parent seed, so unseeded games stay unseeded.
+ *
+ * @example
+ * deriveSeed("family-night", "round", 3) // → "family-night:round:3"
+ */
+export function deriveSeed(
+  seed: string | null | undefined,
+  ...parts: Array<string | number>
+): string | null {
+  if (!seed) return null;
+  return [seed, ...parts].join(":");
+}
+
+/**
+ * Derive the seed for reshuffling the discard pile into the stock.
+ *
+ * Keyed by the exposed discard card and the number of cards being reshuffled,
+ * which together identify each reshuffle within a round without needing a
+ * counter shared between the round and turn machines.
+ */
+export function deriveReshuffleSeed(
+  roundSeed: string | null | undefined,
+  exposedDiscardId: string | undefined,
+  reshuffleCount: number
+): string | null {
+  return deriveSeed(roundSeed, "reshuffle", exposedDiscardId ?? "none", reshuffleCount);
+}
@@ -0,0 +1,192 @@
+/**
+ * Custom contract sequence tests
+ *
+ * A game can take its own ordered list of contracts. The list sets the
+ * number of rounds, the deal size per round and which rounds are final hands.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { createActor } from "xstate";
+import { gameMachine } from "./game.machine";
+import { turnMachine } from "./turn.machine";
+import { GameEngine } from "./game-engine";
+import { createContractSequence, type Contract, type ContractSpec } from "./contracts";
+import type { Card } from "../card/card.types";
+
+function card(id: string, rank: Card["rank"], suit: Card["suit"]): Card {
+  return { id, rank, suit };
+}
+
+const SEVEN_ROUNDS: ContractSpec[] = [
+  { sets: 2, runs: 0, cardsDealt: 8 },
+  { sets: 1, runs: 1 },
+  { sets: 0, runs: 2 },
+  { sets: 3, runs: 0 },
+  { sets: 2, runs: 1 },
+  { sets: 1, runs: 2 },
+  { sets: 3, runs: 1, cardsDealt: 12, mustUseAllCards: true },
+];
+
+describe("GameEngine with a custom contract sequence", () => {
+  it("deals the contract's deal size and exposes the sequence", () => {
+    const engine = GameEngine.createGame({
+      playerNames: ["Alice", "Bob", "Carol"],
+      seed: "seven-rounds",
+      contracts: SEVEN_ROUNDS,
+    });
+    const snapshot = engine.getSnapshot();
+
+    expect(snapshot.contracts).toHaveLength(7);
+    expect(snapshot.contract).toEqual({
+      roundNumber: 1,
+      sets: 2,
+      runs: 0,
+      cardsDealt: 8,
+      mustUseAllCards: false,
+    });
+    for (const player of snapshot.players) {
+      expect(player.hand).toHaveLength(8);
+    }
+    expect(engine.getPlayerView(snapshot.players[0]!.id).totalRounds).toBe(7);
+  });
+
+  it("can start at a round past 6", () => {
+    const engine = GameEngine.createGame({
+      playerNames: ["Alice", "Bob", "Carol"],
+      startingRound: 7,
+      contracts: SEVEN_ROUNDS,
+    });
+    const snapshot = engine.getSnapshot();
+
+    expect(snapshot.currentRound).toBe(7);
+    expect(snapshot.contract.mustUseAllCards).toBe(true);
+    expect(snapshot.players[0]!.hand).toHaveLength(12);
+  });
+
+  it("persists the sequence across toJSON/fromJSON", () => {
+    const engine = GameEngine.createGame({
+      playerNames: ["Alice", "Bob", "Carol"],
+      contracts: SEVEN_ROUNDS,
+    });
+    const restored = GameEngine.fromJSON(engine.toJSON());
+
+    expect(restored.getSnapshot().contracts).toEqual(engine.getSnapshot().contracts);
+  });
+
+  it("rejects a starting round outside the sequence", () => {
+    expect(() =>
+      GameEngine.createGame({
+        playerNames: ["Alice", "Bob", "Carol"],
+        startingRound: 3,
+        contracts: [{ sets: 2, runs: 0 }],
+      })
+    ).toThrow("Starting round must be between 1 and 1");
+  });
+
+  it("rejects a deal too large for the deck", () => {
+    expect(() =>
+      GameEngine.createGame({
+        playerNames: ["A", "B", "C", "D", "E"],
+        contracts: [{ sets: 2, runs: 0, cardsDealt: 22 }],
+      })
+    ).toThrow("not enough cards to deal 22 to 5 players");
+  });
+});
+
+describe("game machine end-of-game check", () => {
+  it("ends after the last contract instead of round 6", () => {
+    const actor = createActor(gameMachine, {
+      input: { startingRound: 1, contracts: createContractSequence(SEVEN_ROUNDS) },
+    });
+    actor.start();
+    for (const name of ["Alice", "Bob", "Carol"]) {
+      actor.send({ type: "ADD_PLAYER", name });
+    }
+    actor.send({ type: "START_GAME" });
+
+    for (let round = 1; round <= 6; round++) {
+      actor.send({
+        type: "ROUND_COMPLETE",
+        roundRecord: { roundNumber: round, winnerId: "player-0", scores: {} },
+      });
+    }
+    expect(actor.getSnapshot().value).toBe("playing");
+    expect(actor.getSnapshot().context.currentRound).toBe(7);
+
+    actor.send({
+      type: "ROUND_COMPLETE",
+      roundRecord: { roundNumber: 7, winnerId: "player-0", scores: {} },
+    });
+    expect(actor.getSnapshot().value).toBe("gameEnd");
+  });
+});
+
+describe("final hand as a contract property", () => {
+  const hand = [
+    card("9H", "9", "hearts"),
+    card("9D", "9", "diamonds"),
+    card("9C", "9", "clubs"),
+    card("5S", "5", "spades"),
+    card("5D", "5", "diamonds"),
+    card("5C", "5", "clubs"),
+    card("KH", "K", "hearts"),
+  ];
+  const layDown = {
+    type: "LAY_DOWN" as const,
+    melds: [
+      { type: "set" as const, cardIds: ["9H", "9D", "9C"] },
+      { type: "set" as const, cardIds: ["5S", "5D", "5C"] },
+    ],
+  };
+
+  function createTurnActor(roundNumber: number, contract: Contract) {
+    const actor = createActor(turnMachine, {
+      input: {
+        playerId: "player-1",
+        roundNumber,
+        contract,
+        hand,
+        stock: [card("3H", "3", "hearts")],
+        discard: [],
+        isDown: false,
+        table: [],
+      },
+    });
+    actor.start();
+    return actor;
+  }
+
+  it("requires all cards in an early round marked as a final hand", () => {
+    const contract: Contract = {
+      roundNumber: 1,
+      sets: 2,
+      runs: 0,
+      cardsDealt: 7,
+      mustUseAllCards: true,
+    };
+    const actor = createTurnActor(1, contract);
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send(layDown);
+
+    expect(actor.getSnapshot().context.isDown).toBe(false);
+    expect(actor.getSnapshot().context.lastError).toBe(
+      "Round 1 requires laying down ALL 8 cards at once"
+    );
+  });
+
+  it("allows a normal lay down in round 6 when it is not a final hand", () => {
+    const contract: Contract = {
+      roundNumber: 6,
+      sets: 2,
+      runs: 0,
+      cardsDealt: 7,
+      mustUseAllCards: false,
+    };
+    const actor = createTurnActor(6, contract);
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send(layDown);
+
+    expect(actor.getSnapshot().value).toBe("awaitingDiscard");
+    expect(actor.getSnapshot().context.isDown).toBe(true);
+  });
+});
@@ -1,5 +1,13 @@
 import { describe, it, expect, beforeEach } from "bun:test";
-import { CONTRACTS, getContractForRound, getMinimumCardsForContract, validateContractMelds } from "./contracts";
+import {
+  CONTRACTS,
+  createContractSequence,
+  describeContract,
+  getContractForRound,
+  getMinimumCardsForContract,
+  resolveContract,
+  validateContractMelds,
+} from "./contracts";
 import type { Meld } from "../meld/meld.types";
 import type { Card } from "../card/card.types";
 
@@ -109,6 +117,90 @@ describe("Contract definitions", () => {
       expect(getContractForRound(-1)).toBeNull();
       expect(getContractForRound(1.5)).toBeNull();
     });
+
+    it("reads from a custom contract sequence", () => {
+      const contracts = createContractSequence([
+        { sets: 2, runs: 0 },
+        { sets: 1, runs: 1 },
+        { sets: 0, runs: 2 },
+        { sets: 3, runs: 0 },
+        { sets: 2, runs: 1 },
+        { sets: 1, runs: 2 },
+        { sets: 3, runs: 1, cardsDealt: 12, mustUseAllCards: true },
+      ]);
+
+      expect(getContractForRound(7, contracts)).toEqual({
+        roundNumber: 7,
+        sets: 3,
+        runs: 1,
+        cardsDealt: 12,
+        mustUseAllCards: true,
+      });
+      expect(getContractForRound(8, contracts)).toBeNull();
+    });
+  });
+
+  describe("final hand", () => {
+    it("only round 6 requires using all cards by default", () => {
+      for (const key of [1, 2, 3, 4, 5] as const) {
+        expect(CONTRACTS[key].mustUseAllCards).toBe(false);
+      }
+      expect(CONTRACTS[6].mustUseAllCards).toBe(true);
+    });
+  });
+
+  describe("createContractSequence", () => {
+    it("numbers rounds in order and defaults deal size and final-hand rule", () => {
+      const contracts = createContractSequence([
+        { sets: 1, runs: 0, cardsDealt: 7 },
+        { sets: 0, runs: 1 },
+      ]);
+
+      expect(contracts).toEqual([
+        { roundNumber: 1, sets: 1, runs: 0, cardsDealt: 7, mustUseAllCards: false },
+        { roundNumber: 2, sets: 0, runs: 1, cardsDealt: 11, mustUseAllCards: false },
+      ]);
+    });
+
+    it("rejects an empty sequence", () => {
+      expect(() => createContractSequence([])).toThrow("at least one round");
+    });
+
+    it("rejects a contract with no melds", () => {
+      expect(() => createContractSequence([{ sets: 0, runs: 0 }])).toThrow(
+        "Round 1: contract requires at least one meld"
+      );
+    });
+
+    it("rejects fractional or negative counts", () => {
+      expect(() => createContractSequence([{ sets: 1.5, runs: 0 }])).toThrow("non-negative");
+      expect(() => createContractSequence([{ sets: 2, runs: -1 }])).toThrow("non-negative");
+    });
+
+    it("rejects a deal too small to meet the contract after drawing", () => {
+      // 1 set + 2 runs needs 11 cards; 10 dealt + 1 drawn is just enough
+      expect(() => createContractSequence([{ sets: 1, runs: 2, cardsDealt: 10 }])).not.toThrow();
+      expect(() => createContractSequence([{ sets: 1, runs: 2, cardsDealt: 9 }])).toThrow(
+        "Round 1: 9 cards dealt cannot meet the contract"
+      );
+    });
+  });
+
+  describe("resolveContract", () => {
+    it("fills in fields missing from contracts persisted before deal sizes", () => {
+      const contract = resolveContract({ roundNumber: 6, sets: 1, runs: 2 }, 6);
+
+      expect(contract).toEqual(CONTRACTS[6]);
+    });
+  });
+
+  describe("describeContract", () => {
+    it("joins sets and runs with pluralization", () => {
+      expect(describeContract(CONTRACTS[1])).toBe("2 sets");
+      expect(describeContract(CONTRACTS[2])).toBe("1 set + 1 run");
+      expect(describeContract(CONTRACTS[3])).toBe("2 runs");
+      expect(describeContract(CONTRACTS[6])).toBe("1 set + 2 runs");
+    });
   });
 
   describe("minimum cards required per contract", () => {
@@ -6,9 +6,14 @@
 
 import type { RoundNumber } from "./engine.types";
 import type { Meld } from "../meld/meld.types";
-import { isValidSet, isValidRun } from "../meld/meld.validation";
+import { isValidSet, isValidRun, type MeldValidationOptions } from "../meld/meld.validation";
 import { getRunBounds } from "../meld/meld.bounds";
 
+/**
+ * Cards dealt to each player per round under Grandma Jeanne's rules
+ */
+export const DEFAULT_CARDS_DEALT = 11;
+
 /**
  * A contract specifies the required melds to lay down in a round
  */
@@ -16,6 +21,25 @@ export interface Contract {
   roundNumber: RoundNumber;
   sets: number;
   runs: number;
+  /** Cards dealt to each player at the start of the round */
+  cardsDealt: number;
+  /**
+   * Final-hand rule: laying down must use every card in hand and goes out
+   * immediately, with no discard. Since nobody is down until someone wins,
+   * there is no laying off or Joker swapping in this round.
+   */
+  mustUseAllCards: boolean;
+}
+
+/**
+ * A contract as configured for a game, before round numbers are assigned.
+ * Deal size defaults to 11 cards and the final-hand rule defaults to off.
+ */
+export interface ContractSpec {
+  sets: number;
+  runs: number;
+  cardsDealt?: number;
+  mustUseAllCards?: boolean;
 }
 
 /**
@@ -29,26 +53,102 @@ export interface Contract {
  * - Round 5: 2 sets + 1 run
  * - Round 6: 1 set + 2 runs (no discard round)
  */
-export const CONTRACTS: Record<RoundNumber, Contract> = {
-  1: { roundNumber: 1, sets: 2, runs: 0 },
-  2: { roundNumber: 2, sets: 1, runs: 1 },
-  3: { roundNumber: 3, sets: 0, runs: 2 },
-  4: { roundNumber: 4, sets: 3, runs: 0 },
-  5: { roundNumber: 5, sets: 2, runs: 1 },
-  6: { roundNumber: 6, sets: 1, runs: 2 },
-};
+export const DEFAULT_CONTRACTS: Contract[] = [
+  { roundNumber: 1, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: false },
+  { roundNumber: 2, sets: 1, runs: 1, cardsDealt: 11, mustUseAllCards: false },
+  { roundNumber: 3, sets: 0, runs: 2, cardsDealt: 11, mustUseAllCards: false },
+  { roundNumber: 4, sets: 3, runs: 0, cardsDealt: 11, mustUseAllCards: false },
+  { roundNumber: 5, sets: 2, runs: 1, cardsDealt: 11, mustUseAllCards: false },
+  { roundNumber: 6, sets: 1, runs: 2, cardsDealt: 11, mustUseAllCards: true },
+];
+
+/**
+ * Default contracts keyed by round number
+ */
+export const CONTRACTS = Object.fromEntries(
+  DEFAULT_CONTRACTS.map((contract) => [contract.roundNumber, contract])
+) as Record<1 | 2 | 3 | 4 | 5 | 6, Contract>;
+
+/**
+ * Build a game's contract sequence from an ordered list of specs.
+ * Rounds are numbered from 1 in list order.
+ *
+ * @throws Error if the list is empty or a contract is malformed
+ */
+export function createContractSequence(specs: ContractSpec[]): Contract[] {
+  if (specs.length === 0) {
+    throw new Error("Contract sequence requires at least one round");
+  }
+
+  return specs.map((spec, index) => {
+    const roundNumber = index + 1;
+    const contract: Contract = {
+      roundNumber,
+      sets: spec.sets,
+      runs: spec.runs,
+      cardsDealt: spec.cardsDealt ?? DEFAULT_CARDS_DEALT,
+      mustUseAllCards: spec.mustUseAllCards ?? false,
+    };
+
+    const counts = [contract.sets, contract.runs, contract.cardsDealt];
+    if (!counts.every((n) => Number.isInteger(n) && n >= 0)) {
+      throw new Error(`Round ${roundNumber}: contract counts must be non-negative integers`);
+    }
+    if (contract.sets + contract.runs === 0) {
+      throw new Error(`Round ${roundNumber}: contract requires at least one meld`);
+    }
+    // Players hold cardsDealt + 1 cards after drawing
+    if (contract.cardsDealt + 1 < getMinimumCardsForContract(contract)) {
+      throw new Error(
+        `Round ${roundNumber}: ${contract.cardsDealt} cards dealt cannot meet the contract`
+      );
+    }
+
+    return contract;
+  });
+}
 
 /**
  * Get the contract for a specific round
  *
- * @param round - Round number (1-6)
+ * @param round - Round number (1 to the number of contracts)
+ * @param contracts - The game's contract sequence, defaults to the 6-round house rules
  * @returns The contract for that round, or null if invalid round
  */
-export function getContractForRound(round: number): Contract | null {
-  if (round < 1 || round > 6 || !Number.isInteger(round)) {
+export function getContractForRound(
+  round: number,
+  contracts: Contract[] = DEFAULT_CONTRACTS
+): Contract | null {
+  if (round < 1 || round > contracts.length || !Number.isInteger(round)) {
     return null;
   }
-  return CONTRACTS[round as RoundNumber];
+  return contracts[round - 1] ?? null;
+}
+
+/**
+ * Fill in contract fields from the house-rule default for the round.
+ * Contracts persisted before deal sizes and the final-hand rule existed
+ * only carry roundNumber, sets and runs.
+ */
+export function resolveContract(
+  contract: Partial<Contract> | null | undefined,
+  roundNumber: RoundNumber
+): Contract {
+  return { ...getContractForRound(roundNumber), ...contract } as Contract;
+}
+
+/**
+ * Describe a contract's melds, e.g. "1 set + 2 runs"
+ */
+export function describeContract(contract: Pick<Contract, "sets" | "runs">): string {
+  const parts: string[] = [];
+  if (contract.sets > 0) {
+    parts.push(`${contract.sets} set${contract.sets > 1 ? "s" : ""}`);
+  }
+  if (contract.runs > 0) {
+    parts.push(`${contract.runs} run${contract.runs > 1 ? "s" : ""}`);
+  }
+  return parts.join(" + ");
 }
 
 /**
@@ -57,7 +157,9 @@ export function getContractForRound(round: number): Contract | null {
  * Sets require minimum 3 cards each
  * Runs require minimum 4 cards each
  */
-export function getMinimumCardsForContract(contract: Contract): number {
+export function getMinimumCardsForContract(
+  contract: Pick<Contract, "sets" | "runs">
+): number {
   const setCards = contract.sets * 3;
   const runCards = contract.runs * 4;
   return setCards + runCards;
@@ -80,10 +182,12 @@ export interface ContractValidationResult {
  * - Each meld's declared type matches its actual cards
  *
  * Note: Individual meld validity (wild ratios, card counts) is also checked.
+ * The wild ratio check can be relaxed through options for house rule variants.
  */
 export function validateContractMelds(
   contract: Contract,
-  melds: Meld[]
+  melds: Meld[],
+  options: MeldValidationOptions = {}
 ): ContractValidationResult {
   const sets = melds.filter((m) => m.type === "set");
   const runs = melds.filter((m) => m.type === "run");
@@ -105,14 +209,14 @@ export function validateContractMelds(
   // Verify each meld's declared type matches its actual cards
   for (const meld of melds) {
     if (meld.type === "set") {
-      if (!isValidSet(meld.cards)) {
+      if (!isValidSet(meld.cards, options)) {
         return {
           valid: false,
           error: `Meld declared as set is invalid`,
         };
       }
     } else if (meld.type === "run") {
-      if (!isValidRun(meld.cards)) {
+      if (!isValidRun(meld.cards, options)) {
         return {
           valid: false,
           error: `Meld declared as run is invalid`,
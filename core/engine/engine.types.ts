@@ -73,6 +73,20 @@ export interface MayIResolution {
   outcome: "caller_won" | "blocked" | "current_player_claimed" | null;
 }
 
+/**
+ * A public event on the discard pile, remembered for the rest of the round.
+ *
+ * - took: drew the top discard on their turn
+ * - may_i: won the top discard with May I (as the caller or by blocking)
+ * - passed: drew from the stock or allowed a May I instead of taking it
+ * - discarded: ended their turn by discarding the card
+ */
+export interface DiscardPileEvent {
+  playerId: string;
+  card: Card;
+  action: "took" | "may_i" | "passed" | "discarded";
+}
+
 /**
  * Record of a completed round
  */
@@ -83,9 +97,10 @@ export interface RoundRecord {
 }
 
 /**
- * Valid round numbers in May I?
+ * Round numbers in May I? start at 1. How many rounds a game has comes from
+ * its contract sequence (6 under the house rules).
  */
-export type RoundNumber = 1 | 2 | 3 | 4 | 5 | 6;
+export type RoundNumber = number;
 
 /**
  * Complete game state
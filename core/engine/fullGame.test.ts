@@ -8,7 +8,7 @@ import { describe, it, expect } from "bun:test";
 import { createActor } from "xstate";
 import { gameMachine } from "./game.machine";
 import { roundMachine } from "./round.machine";
-import { CONTRACTS } from "./contracts";
+import { CONTRACTS, getContractForRound } from "./contracts";
 import type { RoundInput } from "./round.machine";
 import type { Player, RoundNumber } from "./engine.types";
 import {
@@ -151,7 +151,7 @@ describe("full game flow - setup to end", () => {
   describe("round 1 flow", () => {
     it("given: game in round 1, contract is 2 sets", () => {
       const actor = createGameWithPlayers(4);
-      expect(CONTRACTS[1]).toEqual({ roundNumber: 1, sets: 2, runs: 0 });
+      expect(CONTRACTS[1]).toEqual({ roundNumber: 1, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: false });
     });
 
     // Using predefinedState to test round completion via invoke
@@ -200,7 +200,7 @@ describe("full game flow - setup to end", () => {
       // Complete all 6 rounds
       for (let round = 1; round <= 6; round++) {
         // Verify contract for current round
-        expect(CONTRACTS[round as RoundNumber]).toBeDefined();
+        expect(getContractForRound(round)).not.toBeNull();
 
         actor.send({
           type: "ROUND_COMPLETE",
@@ -5,6 +5,8 @@
 import { describe, it, expect } from "bun:test";
 import type { GameSnapshot } from "./game-engine.types";
 import { getActionAvailabilityDetails } from "./game-engine.availability";
+import { DEFAULT_RULE_SET } from "./house-rules";
+import { DEFAULT_CONTRACTS } from "./contracts";
 
 function createTestSnapshot(overrides: Partial<GameSnapshot> = {}): GameSnapshot {
   const defaultPlayer = {
@@ -25,7 +27,11 @@ function createTestSnapshot(overrides: Partial<GameSnapshot> = {}): GameSnapshot
     lastDiscardedByPlayerId: null,
     discardClaimed: false,
     currentRound: 1,
-    contract: { roundNumber: 1, sets: 2, runs: 0 },
+    contract: { roundNumber: 1, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: false },
+    contracts: DEFAULT_CONTRACTS,
+    seed: null,
+    roundSeed: null,
+    rules: DEFAULT_RULE_SET,
     players: [defaultPlayer],
     dealerIndex: 0,
     currentPlayerIndex: 0,
@@ -33,6 +39,7 @@ function createTestSnapshot(overrides: Partial<GameSnapshot> = {}): GameSnapshot
     stock: [],
     discard: [],
     table: [],
+    discardHistory: [],
     hasDrawn: true,
     laidDownThisTurn: false,
     tookActionThisTurn: false,
@@ -78,6 +85,38 @@ describe("getActionAvailabilityDetails", () => {
     });
   });
 
+  it("follows house rule overrides for lay off and swap joker", () => {
+    const jokerCard = { id: "joker1", rank: "Joker" as const, suit: null };
+    const snapshot = createTestSnapshot({
+      players: [{ id: "player1", name: "Test", hand: [], isDown: true, totalScore: 0 }],
+      laidDownThisTurn: true,
+      hasDrawn: true,
+      rules: {
+        ...DEFAULT_RULE_SET,
+        allowLayOffOnLayDownTurn: true,
+        allowJokerSwapAfterDown: true,
+        allowJokerSwapFromSets: true,
+      },
+      table: [
+        {
+          id: "set1",
+          type: "set",
+          cards: [jokerCard, { id: "c1", rank: "5" as const, suit: "hearts" as const }],
+          ownerId: "player2",
+        },
+      ],
+    });
+
+    const { availableActions, unavailabilityHints } = getActionAvailabilityDetails(
+      snapshot,
+      "player1"
+    );
+
+    expect(availableActions.canLayOff).toBe(true);
+    expect(availableActions.canSwapJoker).toBe(true);
+    expect(unavailabilityHints).toEqual([]);
+  });
+
   it("returns draw-discard hint when down and awaiting draw with discard available", () => {
     const snapshot = createTestSnapshot({
       players: [{ id: "player1", name: "Test", hand: [], isDown: true, totalScore: 0 }],
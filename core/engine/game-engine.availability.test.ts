@@ -100,27 +100,27 @@ describe("getPlayersWhoCanCallMayI", () => {
 
 describe("getMeldPlaceholderCount", () => {
   it("returns 2 for Round 1 (2 sets)", () => {
-    expect(getMeldPlaceholderCount({ roundNumber: 1, sets: 2, runs: 0 })).toBe(2);
+    expect(getMeldPlaceholderCount({ roundNumber: 1, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: false })).toBe(2);
   });
 
   it("returns 2 for Round 2 (1 set + 1 run)", () => {
-    expect(getMeldPlaceholderCount({ roundNumber: 2, sets: 1, runs: 1 })).toBe(2);
+    expect(getMeldPlaceholderCount({ roundNumber: 2, sets: 1, runs: 1, cardsDealt: 11, mustUseAllCards: false })).toBe(2);
   });
 
   it("returns 2 for Round 3 (2 runs)", () => {
-    expect(getMeldPlaceholderCount({ roundNumber: 3, sets: 0, runs: 2 })).toBe(2);
+    expect(getMeldPlaceholderCount({ roundNumber: 3, sets: 0, runs: 2, cardsDealt: 11, mustUseAllCards: false })).toBe(2);
   });
 
   it("returns 3 for Round 4 (3 sets)", () => {
-    expect(getMeldPlaceholderCount({ roundNumber: 4, sets: 3, runs: 0 })).toBe(3);
+    expect(getMeldPlaceholderCount({ roundNumber: 4, sets: 3, runs: 0, cardsDealt: 11, mustUseAllCards: false })).toBe(3);
   });
 
   it("returns 3 for Round 5 (2 sets + 1 run)", () => {
-    expect(getMeldPlaceholderCount({ roundNumber: 5, sets: 2, runs: 1 })).toBe(3);
+    expect(getMeldPlaceholderCount({ roundNumber: 5, sets: 2, runs: 1, cardsDealt: 11, mustUseAllCards: false })).toBe(3);
   });
 
   it("returns 3 for Round 6 (1 set + 2 runs)", () => {
-    expect(getMeldPlaceholderCount({ roundNumber: 6, sets: 1, runs: 2 })).toBe(3);
+    expect(getMeldPlaceholderCount({ roundNumber: 6, sets: 1, runs: 2, cardsDealt: 11, mustUseAllCards: true })).toBe(3);
   });
 });
 
@@ -170,17 +170,17 @@ describe("canPlayerCallMayI", () => {
 
 describe("getLaydownCommandHint", () => {
   it("returns hint with 2 placeholders for 2-meld contracts", () => {
-    const hint = getLaydownCommandHint({ roundNumber: 1, sets: 2, runs: 0 });
+    const hint = getLaydownCommandHint({ roundNumber: 1, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: false });
     expect(hint).toBe('laydown "<meld1>" "<meld2>"');
   });
 
   it("returns hint with 3 placeholders for 3-meld contracts", () => {
-    const hint = getLaydownCommandHint({ roundNumber: 4, sets: 3, runs: 0 });
+    const hint = getLaydownCommandHint({ roundNumber: 4, sets: 3, runs: 0, cardsDealt: 11, mustUseAllCards: false });
     expect(hint).toBe('laydown "<meld1>" "<meld2>" "<meld3>"');
   });
 
   it("works for mixed contracts", () => {
-    const hint = getLaydownCommandHint({ roundNumber: 5, sets: 2, runs: 1 });
+    const hint = getLaydownCommandHint({ roundNumber: 5, sets: 2, runs: 1, cardsDealt: 11, mustUseAllCards: false });
     expect(hint).toBe('laydown "<meld1>" "<meld2>" "<meld3>"');
   });
 });
@@ -6,7 +6,8 @@
  */
 
 import type { GameSnapshot, UnavailabilityHint } from "./game-engine.types";
-import type { Contract } from "./contracts";
+import { resolveContract, type Contract } from "./contracts";
+import { resolveRuleSet } from "./house-rules";
 
 /**
  * Available actions for a player based on current game state.
@@ -21,9 +22,9 @@ export interface AvailableActions {
   canDrawFromDiscard: boolean;
   /** Can lay down contract melds */
   canLayDown: boolean;
-  /** Can lay off cards to existing melds (only when down, not in round 6) */
+  /** Can lay off cards to existing melds (only when down, not in a final hand) */
   canLayOff: boolean;
-  /** Can swap a joker from a run (only when not down, runs with jokers exist, not round 6) */
+  /** Can swap a joker from a run (only when not down, runs with jokers exist, not in a final hand; house rules may relax this) */
   canSwapJoker: boolean;
   /** Can discard a card */
   canDiscard: boolean;
@@ -193,12 +194,15 @@ export function getActionAvailabilityDetails(
   const player = snapshot.players.find((p) => p.id === playerId);
   const isDown = player?.isDown ?? false;
   const isYourTurn = snapshot.awaitingPlayerId === playerId;
-  const isRound6 = snapshot.currentRound === 6;
+  const isFinalHand = resolveContract(snapshot.contract, snapshot.currentRound).mustUseAllCards;
   const hasDrawn = snapshot.hasDrawn;
   const hasMeldsOnTable = snapshot.table.length > 0;
-  const hasRunWithJoker = snapshot.table.some(
+  // Snapshots stored before rule sets existed have no rules
+  const rules = resolveRuleSet(snapshot.rules);
+  const hasSwappableJoker = snapshot.table.some(
     (meld) =>
-      meld.type === "run" && meld.cards.some((c) => c.rank === "Joker")
+      (meld.type === "run" || rules.allowJokerSwapFromSets) &&
+      meld.cards.some((c) => c.rank === "Joker")
   );
   const hasDiscard = snapshot.discard.length > 0;
 
@@ -290,14 +294,22 @@ export function getActionAvailabilityDetails(
     case "AWAITING_ACTION":
       if (isDown) {
         // Down player: can lay off (if melds exist) and discard
-        // Lay off not available in round 6 (no melds until someone wins)
+        // Lay off not available in a final hand (no melds until someone wins)
         // IMPORTANT: Cannot lay off on the same turn you laid down (house rule)
-        if (!isRound6 && hasMeldsOnTable && !snapshot.laidDownThisTurn) {
+        const layOffBlockedThisTurn =
+          snapshot.laidDownThisTurn && !rules.allowLayOffOnLayDownTurn;
+        if (!isFinalHand && hasMeldsOnTable && !layOffBlockedThisTurn) {
           actions.canLayOff = true;
           setActionState("layOff", "available");
         }
         actions.canDiscard = true;
         setActionState("discard", "available");
+
+        // House rule variant: Joker swaps after laying down
+        if (!isFinalHand && hasSwappableJoker && rules.allowJokerSwapAfterDown) {
+          actions.canSwapJoker = true;
+          setActionState("swapJoker", "available");
+        }
       } else {
         // Not down: can lay down, swap joker (if applicable), discard
         actions.canLayDown = true;
@@ -305,9 +317,9 @@ export function getActionAvailabilityDetails(
         actions.canDiscard = true;
         setActionState("discard", "available");
 
-        // Joker swapping: only from runs, only when not down, not in round 6
+        // Joker swapping: only from runs, only when not down, not in a final hand
         // Per house rules: "Jokers can be swapped out of runs only, never out of sets"
-        if (!isRound6 && hasRunWithJoker) {
+        if (!isFinalHand && hasSwappableJoker) {
           actions.canSwapJoker = true;
           setActionState("swapJoker", "available");
         }
@@ -327,9 +339,9 @@ export function getActionAvailabilityDetails(
     player !== undefined;
 
   if (canShowHints) {
-    const canLayOffContext = !isRound6 && hasMeldsOnTable;
+    const canLayOffContext = !isFinalHand && hasMeldsOnTable;
     if (canLayOffContext) {
-      if (isDown && snapshot.laidDownThisTurn) {
+      if (isDown && snapshot.laidDownThisTurn && !rules.allowLayOffOnLayDownTurn) {
         setActionState("layOff", "unavailable", "Available next turn");
       } else if (!isDown && hasDrawn) {
         setActionState("layOff", "unavailable", "Lay down your contract first");
@@ -337,7 +349,7 @@ export function getActionAvailabilityDetails(
     }
 
     // Per house rules: "You may only swap Jokers if you have not laid down yet this hand"
-    if (!isRound6 && hasRunWithJoker && isDown) {
+    if (!isFinalHand && hasSwappableJoker && isDown && !rules.allowJokerSwapAfterDown) {
       setActionState("swapJoker", "unavailable", "Only before laying down");
     }
 
@@ -0,0 +1,174 @@
+/**
+ * Tests for domain event derivation (deriveDomainEvents and CommandOutcome.domainEvents)
+ */
+
+import { describe, it, expect } from "bun:test";
+import { GameEngine } from "./game-engine";
+import { deriveDomainEvents, type DomainEvent } from "./game-engine.events";
+import type { Card } from "../card/card.types";
+import type { GameSnapshot } from "./game-engine.types";
+
+function card(id: string, rank: Card["rank"], suit: Card["suit"]): Card {
+  return { id, rank, suit };
+}
+
+function createEngine() {
+  return GameEngine.createGame({
+    playerNames: ["Alice", "Bob", "Carol", "Dave"],
+    seed: "events-seed",
+  });
+}
+
+/** Draw from stock, skip, and discard the first card */
+function playTurn(engine: GameEngine): DomainEvent[] {
+  const playerId = engine.getAwaitingPlayerId();
+  const events = [
+    ...engine.dispatch({ type: "DRAW_FROM_STOCK", playerId }).domainEvents,
+    ...engine.dispatch({ type: "SKIP", playerId }).domainEvents,
+  ];
+  const hand = engine.getSnapshot().players.find((p) => p.id === playerId)!.hand;
+  events.push(
+    ...engine.dispatch({ type: "DISCARD", playerId, cardId: hand[0]!.id }).domainEvents
+  );
+  return events;
+}
+
+/** Replace a player's hand in a snapshot */
+function withHand(snapshot: GameSnapshot, playerId: string, hand: Card[]): GameSnapshot {
+  return {
+    ...snapshot,
+    players: snapshot.players.map((p) => (p.id === playerId ? { ...p, hand } : p)),
+  };
+}
+
+describe("CommandOutcome.domainEvents", () => {
+  it("describes a simple turn", () => {
+    const engine = createEngine();
+    const before = engine.getSnapshot();
+    const playerId = before.awaitingPlayerId;
+    const hand = before.players.find((p) => p.id === playerId)!.hand;
+
+    const events = playTurn(engine);
+
+    expect(events).toEqual([
+      { type: "CardDrawnFromStock", playerId, card: before.stock[0]! },
+      { type: "ActionSkipped", playerId },
+      { type: "CardDiscarded", playerId, card: hand[0]! },
+    ]);
+  });
+
+  it("is empty for rejected commands", () => {
+    const engine = createEngine();
+    const playerId = engine.getAwaitingPlayerId();
+
+    const outcome = engine.dispatch({ type: "SKIP", playerId });
+
+    expect(outcome.accepted).toBe(false);
+    expect(outcome.domainEvents).toEqual([]);
+  });
+
+  it("reports taking the top discard", () => {
+    const engine = createEngine();
+    playTurn(engine);
+    const topDiscard = engine.getSnapshot().discard[0]!;
+    const playerId = engine.getAwaitingPlayerId();
+
+    const outcome = engine.dispatch({ type: "DRAW_FROM_DISCARD", playerId });
+
+    expect(outcome.domainEvents).toEqual([{ type: "DiscardTaken", playerId, card: topDiscard }]);
+  });
+
+  it("reports a May I call, the allows and the resolution with its penalty card", () => {
+    const engine = createEngine();
+    const discarderId = engine.getAwaitingPlayerId();
+    playTurn(engine);
+
+    const snapshot = engine.getSnapshot();
+    const exposed = snapshot.discard[0]!;
+    const penaltyCard = snapshot.stock[0]!;
+    const caller = snapshot.players.find(
+      (p) => p.id !== snapshot.awaitingPlayerId && p.id !== discarderId
+    )!;
+
+    const events = [...engine.dispatch({ type: "CALL_MAY_I", playerId: caller.id }).domainEvents];
+    while (engine.getSnapshot().phase === "RESOLVING_MAY_I") {
+      const playerId = engine.getAwaitingPlayerId();
+      events.push(...engine.dispatch({ type: "ALLOW_MAY_I", playerId }).domainEvents);
+    }
+
+    expect(events[0]).toEqual({ type: "MayICalled", playerId: caller.id, card: exposed });
+    expect(events.filter((e) => e.type === "MayIAllowed").length).toBeGreaterThan(0);
+    expect(events.at(-1)).toEqual({
+      type: "MayIResolved",
+      winnerId: caller.id,
+      card: exposed,
+      penaltyCard,
+    });
+  });
+
+  it("reports a claim by the current player without a penalty card", () => {
+    const engine = createEngine();
+    const discarderId = engine.getAwaitingPlayerId();
+    playTurn(engine);
+
+    const snapshot = engine.getSnapshot();
+    const currentId = snapshot.awaitingPlayerId;
+    const exposed = snapshot.discard[0]!;
+    const caller = snapshot.players.find((p) => p.id !== currentId && p.id !== discarderId)!;
+
+    engine.dispatch({ type: "CALL_MAY_I", playerId: caller.id });
+    expect(engine.getAwaitingPlayerId()).toBe(currentId);
+    const outcome = engine.dispatch({ type: "CLAIM_MAY_I", playerId: currentId });
+
+    expect(outcome.domainEvents).toEqual([
+      { type: "MayIClaimed", playerId: currentId, card: exposed },
+      { type: "MayIResolved", winnerId: currentId, card: exposed, penaltyCard: null },
+    ]);
+  });
+});
+
+describe("deriveDomainEvents", () => {
+  it("reports a stock reshuffle before the draw it made possible", () => {
+    const before = createEngine().getSnapshot();
+    const playerId = before.awaitingPlayerId;
+    const top = card("top", "Q", "hearts");
+    const buried = [card("b1", "5", "clubs"), card("b2", "6", "clubs")];
+    const hand = before.players.find((p) => p.id === playerId)!.hand;
+
+    const emptyStock = { ...before, stock: [], discard: [top, ...buried] };
+    const after = withHand(
+      { ...emptyStock, stock: [buried[1]!], discard: [top], turnPhase: "AWAITING_ACTION" },
+      playerId,
+      [...hand, buried[0]!]
+    );
+
+    expect(deriveDomainEvents(emptyStock, after, { type: "DRAW_FROM_STOCK", playerId })).toEqual([
+      { type: "StockReshuffled", cardCount: 2 },
+      { type: "CardDrawnFromStock", playerId, card: buried[0]! },
+    ]);
+  });
+
+  it("reports the round ending after the discard that went out", () => {
+    const engine = createEngine();
+    const snapshot = engine.getSnapshot();
+    const playerId = snapshot.awaitingPlayerId;
+    const lastCard = card("last", "K", "spades");
+    const before = withHand(
+      { ...snapshot, turnPhase: "AWAITING_DISCARD" },
+      playerId,
+      [lastCard]
+    );
+    const after: GameSnapshot = {
+      ...snapshot,
+      currentRound: 2,
+      roundHistory: [{ roundNumber: 1, winnerId: playerId, scores: {} }],
+    };
+
+    expect(
+      deriveDomainEvents(before, after, { type: "DISCARD", playerId, cardId: lastCard.id })
+    ).toEqual([
+      { type: "CardDiscarded", playerId, card: lastCard },
+      { type: "RoundEnded", roundNumber: 1, winnerId: playerId },
+    ]);
+  });
+});
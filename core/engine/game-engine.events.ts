@@ -0,0 +1,257 @@
+/**
+ * Domain events for the GameEngine.
+ *
+ * Turns a command and the snapshots around it into typed events that say
+ * what happened in game terms ("Bob took 7♥ from the discard"). Activity
+ * logs, the CLI log and the LLM "recent actions" feed all render from these
+ * events instead of diffing snapshots themselves.
+ *
+ * Player IDs in events are engine IDs. Events carry the cards involved, so
+ * renderers must hide cards the viewer may not see (stock draws).
+ */
+
+import type { Card } from "../card/card.types";
+import type { Meld } from "../meld/meld.types";
+import type { GameSnapshot, JournalCommand } from "./game-engine.types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type DomainEvent =
+  | { type: "CardDrawnFromStock"; playerId: string; card: Card }
+  | { type: "DiscardTaken"; playerId: string; card: Card }
+  | { type: "ActionSkipped"; playerId: string }
+  | { type: "ContractLaidDown"; playerId: string; melds: Meld[] }
+  | {
+      type: "CardLaidOff";
+      playerId: string;
+      card: Card;
+      meldId: string;
+      position: "start" | "end";
+    }
+  | { type: "JokerSwapped"; playerId: string; meldId: string; joker: Card; card: Card }
+  | { type: "CardDiscarded"; playerId: string; card: Card }
+  | { type: "MayICalled"; playerId: string; card: Card }
+  | { type: "MayIAllowed"; playerId: string; card: Card }
+  | { type: "MayIClaimed"; playerId: string; card: Card }
+  | {
+      type: "MayIResolved";
+      winnerId: string;
+      card: Card;
+      /** Penalty card drawn from the stock (null when the current player took it) */
+      penaltyCard: Card | null;
+    }
+  | { type: "StockReshuffled"; cardCount: number }
+  | { type: "RoundEnded"; roundNumber: number; winnerId: string };
+
+export type DomainEventType = DomainEvent["type"];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Derivation
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Derive the domain events for one command.
+ *
+ * Returns an empty list when the command changed nothing (rejected commands).
+ * Events are in the order they happened: a reshuffle comes before the draw
+ * it made possible, and RoundEnded comes last.
+ */
+export function deriveDomainEvents(
+  before: GameSnapshot,
+  after: GameSnapshot,
+  command: JournalCommand
+): DomainEvent[] {
+  if (before.phase === "ROUND_END" || before.phase === "GAME_END") {
+    return [];
+  }
+
+  const roundEnded = hasRoundEnded(before, after);
+  const events: DomainEvent[] = [];
+
+  if (!roundEnded) {
+    const cardCount = reshuffledCardCount(before, after);
+    if (cardCount > 0) {
+      events.push({ type: "StockReshuffled", cardCount });
+    }
+  }
+
+  events.push(...deriveCommandEvents(before, after, command, roundEnded));
+
+  if (roundEnded) {
+    const record = after.roundHistory.find((r) => r.roundNumber === before.currentRound);
+    events.push({
+      type: "RoundEnded",
+      roundNumber: before.currentRound,
+      winnerId: record?.winnerId ?? command.playerId,
+    });
+  }
+
+  return events;
+}
+
+function deriveCommandEvents(
+  before: GameSnapshot,
+  after: GameSnapshot,
+  command: JournalCommand,
+  roundEnded: boolean
+): DomainEvent[] {
+  const { playerId } = command;
+  const beforeHand = findHand(before, playerId);
+  // Once the round ends, hands hold the next deal
+  const afterHand = roundEnded ? [] : findHand(after, playerId);
+
+  switch (command.type) {
+    case "DRAW_FROM_STOCK": {
+      if (before.phase !== "ROUND_ACTIVE") return [];
+      const drawn = newCards(beforeHand, afterHand);
+      if (drawn.length !== 1) return [];
+      return [{ type: "CardDrawnFromStock", playerId, card: drawn[0]! }];
+    }
+
+    case "DRAW_FROM_DISCARD": {
+      const card = before.discard[0];
+      if (!card || !afterHand.some((c) => c.id === card.id)) return [];
+      return [{ type: "DiscardTaken", playerId, card }];
+    }
+
+    case "SKIP": {
+      if (before.turnPhase !== "AWAITING_ACTION" || after.turnPhase !== "AWAITING_DISCARD") {
+        return [];
+      }
+      return [{ type: "ActionSkipped", playerId }];
+    }
+
+    case "LAY_DOWN": {
+      const wasDown = findPlayer(before, playerId)?.isDown ?? true;
+      const isDown = roundEnded || (findPlayer(after, playerId)?.isDown ?? false);
+      if (wasDown || !isDown) return [];
+      const beforeMeldIds = new Set(before.table.map((m) => m.id));
+      const melds = roundEnded
+        ? []
+        : after.table.filter((m) => m.ownerId === playerId && !beforeMeldIds.has(m.id));
+      return [{ type: "ContractLaidDown", playerId, melds }];
+    }
+
+    case "LAY_OFF": {
+      const card = beforeHand.find((c) => c.id === command.cardId);
+      if (!card || !(roundEnded || leftHand(card, afterHand))) return [];
+      return [
+        {
+          type: "CardLaidOff",
+          playerId,
+          card,
+          meldId: command.meldId,
+          position: command.position ?? "end",
+        },
+      ];
+    }
+
+    case "SWAP_JOKER": {
+      const card = beforeHand.find((c) => c.id === command.swapCardId);
+      const meld = before.table.find((m) => m.id === command.meldId);
+      const joker = meld?.cards.find((c) => c.id === command.jokerCardId);
+      if (!card || !joker || !afterHand.some((c) => c.id === joker.id)) return [];
+      return [{ type: "JokerSwapped", playerId, meldId: command.meldId, joker, card }];
+    }
+
+    case "DISCARD": {
+      const card = beforeHand.find((c) => c.id === command.cardId);
+      if (!card) return [];
+      if (!roundEnded && after.discard[0]?.id !== card.id) return [];
+      return [{ type: "CardDiscarded", playerId, card }];
+    }
+
+    case "CALL_MAY_I": {
+      const card = before.discard[0];
+      if (!card) return [];
+      const resolving = after.phase === "RESOLVING_MAY_I" && before.phase !== "RESOLVING_MAY_I";
+      const claimed = !after.discard.some((c) => c.id === card.id);
+      if (!resolving && !claimed) return [];
+      return [
+        { type: "MayICalled", playerId, card },
+        ...(claimed ? resolvedEvents(before, after, card) : []),
+      ];
+    }
+
+    case "ALLOW_MAY_I":
+    case "CLAIM_MAY_I": {
+      const card = before.mayIContext?.cardBeingClaimed;
+      if (!card || before.mayIContext?.playerBeingPrompted !== playerId) return [];
+      if (!hasMayIProgressed(before, after)) return [];
+      const type = command.type === "ALLOW_MAY_I" ? "MayIAllowed" : "MayIClaimed";
+      return [
+        { type, playerId, card },
+        ...(after.phase !== "RESOLVING_MAY_I" ? resolvedEvents(before, after, card) : []),
+      ];
+    }
+
+    case "REORDER_HAND":
+      return [];
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════════════
+
+function findPlayer(snapshot: GameSnapshot, playerId: string) {
+  return snapshot.players.find((p) => p.id === playerId);
+}
+
+function findHand(snapshot: GameSnapshot, playerId: string): Card[] {
+  return findPlayer(snapshot, playerId)?.hand ?? [];
+}
+
+function newCards(beforeHand: Card[], afterHand: Card[]): Card[] {
+  const beforeIds = new Set(beforeHand.map((c) => c.id));
+  return afterHand.filter((c) => !beforeIds.has(c.id));
+}
+
+function leftHand(card: Card, afterHand: Card[]): boolean {
+  return !afterHand.some((c) => c.id === card.id);
+}
+
+function hasRoundEnded(before: GameSnapshot, after: GameSnapshot): boolean {
+  return (
+    after.currentRound !== before.currentRound ||
+    after.phase === "ROUND_END" ||
+    after.phase === "GAME_END"
+  );
+}
+
+function hasMayIProgressed(before: GameSnapshot, after: GameSnapshot): boolean {
+  return (
+    after.phase !== before.phase ||
+    JSON.stringify(after.mayIContext) !== JSON.stringify(before.mayIContext)
+  );
+}
+
+/**
+ * Cards buried under the top discard that came back into play through a
+ * reshuffle (into the stock, or straight into the drawing player's hand).
+ *
+ * @returns How many cards were reshuffled, 0 if there was no reshuffle
+ */
+function reshuffledCardCount(before: GameSnapshot, after: GameSnapshot): number {
+  const buried = before.discard.slice(1);
+  if (buried.length === 0) return 0;
+
+  const inPlay = new Set(
+    [...after.stock, ...after.players.flatMap((p) => p.hand)].map((c) => c.id)
+  );
+  return buried.some((c) => inPlay.has(c.id)) ? buried.length : 0;
+}
+
+/**
+ * The May I resolved: find who ended up with the card and their penalty card.
+ */
+function resolvedEvents(before: GameSnapshot, after: GameSnapshot, card: Card): DomainEvent[] {
+  const winner = after.players.find((p) => p.hand.some((c) => c.id === card.id));
+  if (!winner) return [];
+
+  const gained = newCards(findHand(before, winner.id), winner.hand);
+  const penaltyCard = gained.find((c) => c.id !== card.id) ?? null;
+  return [{ type: "MayIResolved", winnerId: winner.id, card, penaltyCard }];
+}
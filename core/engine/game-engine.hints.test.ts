@@ -11,6 +11,8 @@
 import { describe, it, expect } from "bun:test";
 import type { GameSnapshot } from "./game-engine.types";
 import { getUnavailabilityHints } from "./game-engine.hints";
+import { DEFAULT_RULE_SET } from "./house-rules";
+import { DEFAULT_CONTRACTS } from "./contracts";
 
 /**
  * Create a minimal GameSnapshot for testing hints.
@@ -35,7 +37,11 @@ function createTestSnapshot(overrides: Partial<GameSnapshot> = {}): GameSnapshot
     lastDiscardedByPlayerId: null,
     discardClaimed: false,
     currentRound: 1,
-    contract: { roundNumber: 1, sets: 2, runs: 0 },
+    contract: { roundNumber: 1, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: false },
+    contracts: DEFAULT_CONTRACTS,
+    seed: null,
+    roundSeed: null,
+    rules: DEFAULT_RULE_SET,
     players: [defaultPlayer],
     dealerIndex: 0,
     currentPlayerIndex: 0,
@@ -43,6 +49,7 @@ function createTestSnapshot(overrides: Partial<GameSnapshot> = {}): GameSnapshot
     stock: [],
     discard: [],
     table: [],
+    discardHistory: [],
     hasDrawn: true,
     laidDownThisTurn: false,
     tookActionThisTurn: false,
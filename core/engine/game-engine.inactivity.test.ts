@@ -1,5 +1,6 @@
 import { describe, it, expect } from "bun:test";
 import type { PlayerView } from "./game-engine.types";
+import { DEFAULT_RULE_SET } from "./house-rules";
 import { getInactivityHintMessage } from "./game-engine.inactivity";
 
 function createTestView(overrides: Partial<PlayerView> = {}): PlayerView {
@@ -13,7 +14,9 @@ function createTestView(overrides: Partial<PlayerView> = {}): PlayerView {
     yourTotalScore: 0,
     opponents: [],
     currentRound: 1,
-    contract: { roundNumber: 1, sets: 2, runs: 0 },
+    totalRounds: 6,
+    contract: { roundNumber: 1, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: false },
+    rules: DEFAULT_RULE_SET,
     phase: "ROUND_ACTIVE",
     turnPhase: "AWAITING_ACTION",
     turnNumber: 1,
@@ -22,6 +25,7 @@ function createTestView(overrides: Partial<PlayerView> = {}): PlayerView {
     topDiscard: null,
     discardCount: 0,
     table: [],
+    cardKnowledge: { discardPile: [], opponents: [], unseen: [], unseenCount: 0 },
     roundHistory: [],
     mayIContext: null,
     availableActions: {
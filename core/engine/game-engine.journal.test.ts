@@ -0,0 +1,173 @@
+/**
+ * Tests for the GameEngine command journal and replay
+ */
+
+import { describe, it, expect } from "bun:test";
+import { GameEngine } from "./game-engine";
+import type { CreateGameOptions, GameSnapshot } from "./game-engine.types";
+
+const OPTIONS: CreateGameOptions = {
+  playerNames: ["Alice", "Bob", "Carol"],
+  gameId: "journal-game",
+  seed: "journal-seed",
+};
+
+/**
+ * Play simple turns: draw from stock, skip, discard the first card.
+ * Prompted May I players always allow.
+ */
+function playSteps(engine: GameEngine, steps: number): void {
+  for (let i = 0; i < steps; i++) {
+    const snapshot = engine.getSnapshot();
+    const playerId = snapshot.awaitingPlayerId;
+
+    if (snapshot.phase === "RESOLVING_MAY_I") {
+      engine.allowMayI(playerId);
+    } else if (snapshot.turnPhase === "AWAITING_DRAW") {
+      engine.drawFromStock(playerId);
+    } else if (snapshot.turnPhase === "AWAITING_ACTION") {
+      engine.skip(playerId);
+    } else {
+      const player = snapshot.players.find((p) => p.id === playerId)!;
+      engine.discard(playerId, player.hand[0]!.id);
+    }
+  }
+}
+
+/** Game state without wall-clock timestamps */
+function gameState(snapshot: GameSnapshot) {
+  const { createdAt: _createdAt, updatedAt: _updatedAt, ...state } = snapshot;
+  return state;
+}
+
+describe("GameEngine journal", () => {
+  it("records each command with its player, args, phase and drawn card", () => {
+    const engine = GameEngine.createGame(OPTIONS);
+    const before = engine.getSnapshot();
+    const playerId = before.awaitingPlayerId;
+    const topOfStock = before.stock[0]!;
+
+    engine.drawFromStock(playerId);
+    engine.skip(playerId);
+
+    const journal = engine.getJournal()!;
+    expect(journal.options).toMatchObject({ ...OPTIONS, startingRound: 1 });
+    expect(journal.entries).toHaveLength(2);
+    expect(journal.entries[0]).toMatchObject({
+      seq: 0,
+      command: { type: "DRAW_FROM_STOCK", playerId },
+      round: 1,
+      phase: "ROUND_ACTIVE",
+      turnPhase: "AWAITING_ACTION",
+      drawnCards: [topOfStock],
+    });
+    expect(journal.entries[1]).toMatchObject({
+      seq: 1,
+      command: { type: "SKIP", playerId },
+      turnPhase: "AWAITING_DISCARD",
+      drawnCards: [],
+    });
+  });
+
+  it("records ignored commands so replay sees the same sequence", () => {
+    const engine = GameEngine.createGame(OPTIONS);
+    const playerId = engine.getSnapshot().awaitingPlayerId;
+
+    engine.discard(playerId, "not-a-card");
+
+    const entries = engine.getJournal()!.entries;
+    expect(entries).toHaveLength(1);
+    expect(entries[0]!.turnPhase).toBe("AWAITING_DRAW");
+  });
+
+  it("records May I cards and penalty cards as drawn", () => {
+    const engine = GameEngine.createGame(OPTIONS);
+    const discarderId = engine.getAwaitingPlayerId();
+    playSteps(engine, 3); // first player draws, skips and discards
+
+    const snapshot = engine.getSnapshot();
+    const exposedDiscard = snapshot.discard[0]!;
+    const penaltyCard = snapshot.stock[0]!;
+    // Neither the discarder nor the next player (who can just take it)
+    const caller = snapshot.players.find(
+      (p) => p.id !== snapshot.awaitingPlayerId && p.id !== discarderId
+    )!;
+
+    engine.callMayI(caller.id);
+    while (engine.getSnapshot().phase === "RESOLVING_MAY_I") {
+      playSteps(engine, 1);
+    }
+
+    const entries = engine.getJournal()!.entries;
+    const granted = entries.find((e) => e.drawnCards.length > 0 && e.seq > 3);
+    expect(granted?.drawnCards.map((c) => c.id)).toEqual(
+      expect.arrayContaining([exposedDiscard.id, penaltyCard.id])
+    );
+  });
+
+  it("is null for games restored without a journal", () => {
+    const engine = GameEngine.createGame(OPTIONS);
+    const restored = GameEngine.fromJSON(engine.toJSON());
+
+    restored.drawFromStock(restored.getAwaitingPlayerId());
+    expect(restored.getJournal()).toBeNull();
+  });
+
+  it("keeps appending after a restore with its journal", () => {
+    const engine = GameEngine.createGame(OPTIONS);
+    playSteps(engine, 2);
+
+    const restored = GameEngine.fromJSON(
+      engine.toJSON(),
+      "journal-game",
+      undefined,
+      engine.getJournal()
+    );
+    playSteps(restored, 1);
+
+    expect(restored.getJournal()!.entries.map((e) => e.seq)).toEqual([0, 1, 2]);
+  });
+});
+
+describe("GameEngine.replay", () => {
+  it("rebuilds the game after any command", () => {
+    const engine = GameEngine.createGame(OPTIONS);
+    const states: ReturnType<typeof gameState>[] = [];
+    for (let i = 0; i < 40; i++) {
+      playSteps(engine, 1);
+      states.push(gameState(engine.getSnapshot()));
+    }
+
+    const { options, entries } = engine.getJournal()!;
+    for (const n of [1, 7, 20, 40]) {
+      const replayed = GameEngine.replay(options, entries.slice(0, n));
+      expect(gameState(replayed.getSnapshot())).toEqual(states[n - 1]!);
+    }
+  });
+
+  it("carries the original journal, timestamps included", () => {
+    const engine = GameEngine.createGame(OPTIONS);
+    playSteps(engine, 10);
+    const { options, entries } = engine.getJournal()!;
+
+    const replayed = GameEngine.replay(options, entries);
+
+    expect(replayed.getJournal()!.entries).toEqual(entries);
+  });
+
+  it("requires the original gameId and seed", () => {
+    expect(() => GameEngine.replay({ playerNames: OPTIONS.playerNames }, [])).toThrow(
+      "Replay requires the original gameId and seed"
+    );
+  });
+
+  it("throws when replay diverges from the journal", () => {
+    const engine = GameEngine.createGame(OPTIONS);
+    playSteps(engine, 3);
+    const { entries } = engine.getJournal()!;
+
+    expect(() => GameEngine.replay({ ...OPTIONS, seed: "other-seed" }, entries)).toThrow(
+      "Replay diverged at journal entry 0 (DRAW_FROM_STOCK)"
+    );
+  });
+});
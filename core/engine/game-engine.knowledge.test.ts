@@ -0,0 +1,142 @@
+/**
+ * Tests for public card knowledge (discard history and PlayerView.cardKnowledge)
+ */
+
+import { describe, it, expect } from "bun:test";
+import { GameEngine } from "./game-engine";
+import { buildCardKnowledge, getUnseenCount } from "./game-engine.knowledge";
+import type { GameSnapshot } from "./game-engine.types";
+
+function createEngine() {
+  return GameEngine.createGame({
+    playerNames: ["Alice", "Bob", "Carol"],
+    seed: "knowledge-seed",
+  });
+}
+
+function discardFirstCard(engine: GameEngine, playerId: string) {
+  const player = engine.getSnapshot().players.find((p) => p.id === playerId)!;
+  engine.discard(playerId, player.hand[0]!.id);
+  return player.hand[0]!;
+}
+
+/** Every unseen card is in the stock or an opponent's hand, and not known to be there */
+function expectUnseenAccountedFor(snapshot: GameSnapshot, viewerId: string) {
+  const knowledge = buildCardKnowledge(snapshot, viewerId);
+  const opponentCards = snapshot.players
+    .filter((p) => p.id !== viewerId)
+    .reduce((sum, p) => sum + p.hand.length, 0);
+  const known = knowledge.opponents.reduce((sum, o) => sum + o.knownInHand.length, 0);
+  expect(knowledge.unseenCount).toBe(snapshot.stock.length + opponentCards - known);
+}
+
+describe("discard history", () => {
+  it("records passes, takes and discards as they happen", () => {
+    const engine = createEngine();
+    const snapshot = engine.getSnapshot();
+    const first = snapshot.awaitingPlayerId;
+    const second = snapshot.players[(snapshot.currentPlayerIndex + 1) % 3]!.id;
+    const topDiscard = snapshot.discard[0]!;
+
+    engine.drawFromStock(first);
+    const discarded = discardFirstCard(engine, first);
+    engine.drawFromDiscard(second);
+
+    expect(engine.getSnapshot().discardHistory).toEqual([
+      { playerId: first, card: topDiscard, action: "passed" },
+      { playerId: first, card: discarded, action: "discarded" },
+      { playerId: second, card: discarded, action: "took" },
+    ]);
+  });
+
+  it("ignores rejected draws", () => {
+    const engine = createEngine();
+    const other = engine.getSnapshot().players.find((p) => p.id !== engine.getAwaitingPlayerId())!;
+
+    engine.drawFromDiscard(other.id);
+    engine.drawFromStock(other.id);
+
+    expect(engine.getSnapshot().discardHistory).toEqual([]);
+  });
+
+  it("records a May I win and the players who allowed it", () => {
+    const engine = createEngine();
+    const snapshot = engine.getSnapshot();
+    const current = snapshot.awaitingPlayerId;
+    const caller = snapshot.players[(snapshot.currentPlayerIndex + 2) % 3]!.id;
+    const between = snapshot.players[(snapshot.currentPlayerIndex + 1) % 3]!.id;
+    const card = snapshot.discard[0]!;
+
+    engine.callMayI(caller);
+    engine.allowMayI(current);
+    engine.allowMayI(between);
+
+    expect(engine.getSnapshot().discardHistory).toEqual([
+      { playerId: current, card, action: "passed" },
+      { playerId: between, card, action: "passed" },
+      { playerId: caller, card, action: "may_i" },
+    ]);
+  });
+
+  it("survives a restore and starts over each round", () => {
+    const engine = createEngine();
+    engine.drawFromStock(engine.getAwaitingPlayerId());
+
+    const restored = GameEngine.fromJSON(engine.toJSON());
+    expect(restored.getSnapshot().discardHistory).toEqual(engine.getSnapshot().discardHistory);
+
+    const next = GameEngine.createGame({
+      playerNames: ["Alice", "Bob", "Carol"],
+      seed: "knowledge-seed",
+      startingRound: 2,
+    });
+    expect(next.getSnapshot().discardHistory).toEqual([]);
+  });
+});
+
+describe("buildCardKnowledge", () => {
+  it("remembers what an opponent took until they play it", () => {
+    const engine = createEngine();
+    const snapshot = engine.getSnapshot();
+    const first = snapshot.awaitingPlayerId;
+    const second = snapshot.players[(snapshot.currentPlayerIndex + 1) % 3]!.id;
+    const viewer = snapshot.players[(snapshot.currentPlayerIndex + 2) % 3]!.id;
+
+    engine.drawFromStock(first);
+    const discarded = discardFirstCard(engine, first);
+    engine.drawFromDiscard(second);
+
+    let knowledge = engine.getPlayerView(viewer).cardKnowledge;
+    let opponent = knowledge.opponents.find((o) => o.playerId === second)!;
+    expect(opponent.tookFromDiscard).toEqual([discarded]);
+    expect(opponent.knownInHand).toEqual([discarded]);
+    expect(knowledge.opponents.find((o) => o.playerId === first)!.discarded).toEqual([discarded]);
+    expectUnseenAccountedFor(engine.getSnapshot(), viewer);
+
+    engine.discard(second, discarded.id);
+
+    knowledge = engine.getPlayerView(viewer).cardKnowledge;
+    opponent = knowledge.opponents.find((o) => o.playerId === second)!;
+    expect(opponent.tookFromDiscard).toEqual([discarded]);
+    expect(opponent.knownInHand).toEqual([]);
+    expect(knowledge.discardPile[0]).toEqual(discarded);
+    expectUnseenAccountedFor(engine.getSnapshot(), viewer);
+  });
+
+  it("counts every copy of a face the player cannot see", () => {
+    const engine = createEngine();
+    const snapshot = engine.getSnapshot();
+    const viewer = snapshot.players[0]!;
+    const knowledge = buildCardKnowledge(snapshot, viewer.id);
+
+    // Three players play with two decks
+    const card = viewer.hand[0]!;
+    const visible = [...viewer.hand, ...snapshot.discard].filter(
+      (c) => c.rank === card.rank && c.suit === card.suit
+    );
+    const copies = card.rank === "Joker" ? 4 : 2;
+    expect(getUnseenCount(knowledge, card)).toBe(copies - visible.length);
+    expect(knowledge.unseenCount).toBe(108 - viewer.hand.length - snapshot.discard.length);
+    expectUnseenAccountedFor(snapshot, viewer.id);
+  });
+});
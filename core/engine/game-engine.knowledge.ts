@@ -0,0 +1,110 @@
+/**
+ * Public card knowledge for the GameEngine.
+ *
+ * Everything that happens on the discard pile is public: who drew the top
+ * discard, who passed on it, who won it with May I, and what each player
+ * discarded. So is every meld. This module turns the round's discard history
+ * into what an attentive player remembers at the table: the cards each
+ * opponent picked up, which of those they must still hold, and how many
+ * copies of each card are still unseen.
+ *
+ * Only public facts go in. Hidden hands are never read, so a bot or LLM
+ * playing from this knowledge cannot cheat.
+ */
+
+import { createDeck } from "../card/card.deck";
+import type { Card } from "../card/card.types";
+import { getDeckConfig } from "./round.machine";
+import type {
+  CardKnowledge,
+  GameSnapshot,
+  OpponentCardKnowledge,
+  UnseenCardCount,
+} from "./game-engine.types";
+
+/**
+ * Build a player's public knowledge of the current round
+ */
+export function buildCardKnowledge(snapshot: GameSnapshot, playerId: string): CardKnowledge {
+  const opponents = snapshot.players
+    .filter((p) => p.id !== playerId)
+    .map((p) => buildOpponentKnowledge(snapshot, p.id));
+
+  const viewer = snapshot.players.find((p) => p.id === playerId);
+  const seen = [
+    ...(viewer?.hand ?? []),
+    ...snapshot.table.flatMap((m) => m.cards),
+    ...snapshot.discard,
+    ...opponents.flatMap((o) => o.knownInHand),
+  ];
+  const unseen = countUnseen(snapshot.players.length, seen);
+
+  return {
+    discardPile: [...snapshot.discard],
+    opponents,
+    unseen,
+    unseenCount: unseen.reduce((sum, u) => sum + u.count, 0),
+  };
+}
+
+/**
+ * Copies of the face still unseen (0 when every copy has been seen)
+ */
+export function getUnseenCount(knowledge: CardKnowledge, card: Pick<Card, "rank" | "suit">): number {
+  const face = faceKey(card);
+  return knowledge.unseen.find((u) => faceKey(u) === face)?.count ?? 0;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════════════════
+
+function buildOpponentKnowledge(snapshot: GameSnapshot, playerId: string): OpponentCardKnowledge {
+  const events = snapshot.discardHistory.filter((e) => e.playerId === playerId);
+  const cardsFor = (action: string) => events.filter((e) => e.action === action).map((e) => e.card);
+
+  // A picked-up card stays known until it is discarded or reaches the table
+  const held = new Map<string, Card>();
+  for (const event of events) {
+    if (event.action === "took" || event.action === "may_i") held.set(event.card.id, event.card);
+    if (event.action === "discarded") held.delete(event.card.id);
+  }
+  const onTable = new Set(snapshot.table.flatMap((m) => m.cards.map((c) => c.id)));
+
+  return {
+    playerId,
+    tookFromDiscard: cardsFor("took"),
+    wonByMayI: cardsFor("may_i"),
+    knownInHand: [...held.values()].filter((c) => !onTable.has(c.id)),
+    passed: cardsFor("passed"),
+    discarded: cardsFor("discarded"),
+  };
+}
+
+/**
+ * Count the faces of a full deck that are not among the seen cards
+ */
+function countUnseen(playerCount: number, seen: Card[]): UnseenCardCount[] {
+  const seenCounts = new Map<string, number>();
+  for (const card of seen) {
+    seenCounts.set(faceKey(card), (seenCounts.get(faceKey(card)) ?? 0) + 1);
+  }
+
+  const unseen = new Map<string, UnseenCardCount>();
+  for (const card of createDeck(getDeckConfig(playerCount))) {
+    const face = faceKey(card);
+    const seenLeft = seenCounts.get(face) ?? 0;
+    if (seenLeft > 0) {
+      seenCounts.set(face, seenLeft - 1);
+      continue;
+    }
+    const entry = unseen.get(face) ?? { rank: card.rank, suit: card.suit, count: 0 };
+    entry.count++;
+    unseen.set(face, entry);
+  }
+  return [...unseen.values()];
+}
+
+function faceKey(card: Pick<Card, "rank" | "suit">): string {
+  return `${card.rank}-${card.suit}`;
+}
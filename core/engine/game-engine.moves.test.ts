@@ -0,0 +1,199 @@
+/**
+ * Tests for legal move enumeration
+ */
+
+import { describe, it, expect } from "bun:test";
+import { GameEngine } from "./game-engine";
+import { enumerateLegalMoves, type LegalMove } from "./game-engine.moves";
+import type { Card } from "../card/card.types";
+import type { Meld } from "../meld/meld.types";
+import type { GameSnapshot } from "./game-engine.types";
+
+function card(id: string, rank: Card["rank"], suit: Card["suit"]): Card {
+  return { id, rank, suit };
+}
+
+function createEngine() {
+  return GameEngine.createGame({
+    playerNames: ["Alice", "Bob", "Carol", "Dave"],
+    seed: "moves-seed",
+  });
+}
+
+function types(moves: LegalMove[]) {
+  return [...new Set(moves.map((m) => m.type))];
+}
+
+/**
+ * The awaiting player has drawn and holds the given hand (down by default),
+ * with the given melds on the table
+ */
+function afterDrawWith(hand: Card[], table: Meld[], isDown = true): GameSnapshot {
+  const engine = createEngine();
+  const playerId = engine.getAwaitingPlayerId();
+  engine.drawFromStock(playerId);
+  const snapshot = engine.getSnapshot();
+  return {
+    ...snapshot,
+    table,
+    players: snapshot.players.map((p) => (p.id === playerId ? { ...p, hand, isDown } : p)),
+  };
+}
+
+const spadesRun: Meld = {
+  id: "meld-run",
+  type: "run",
+  ownerId: "player-1",
+  cards: [
+    card("5S", "5", "spades"),
+    card("6S", "6", "spades"),
+    card("JK1", "Joker", null),
+    card("8S", "8", "spades"),
+  ],
+};
+
+const ninesSet: Meld = {
+  id: "meld-set",
+  type: "set",
+  ownerId: "player-1",
+  cards: [card("9H", "9", "hearts"), card("9D", "9", "diamonds"), card("9C", "9", "clubs")],
+};
+
+describe("enumerateLegalMoves", () => {
+  it("offers both draws at the start of a turn and May I to the others", () => {
+    const engine = createEngine();
+    engine.drawFromStock(engine.getAwaitingPlayerId());
+    engine.skip(engine.getAwaitingPlayerId());
+    const discarder = engine.getSnapshot().players.find(
+      (p) => p.id === engine.getAwaitingPlayerId()
+    )!;
+    engine.discard(discarder.id, discarder.hand[0]!.id);
+
+    const snapshot = engine.getSnapshot();
+    const others = snapshot.players.filter(
+      (p) => p.id !== snapshot.awaitingPlayerId && p.id !== discarder.id
+    );
+
+    expect(enumerateLegalMoves(snapshot, snapshot.awaitingPlayerId)).toEqual([
+      { type: "DRAW_FROM_STOCK", playerId: snapshot.awaitingPlayerId },
+      { type: "DRAW_FROM_DISCARD", playerId: snapshot.awaitingPlayerId },
+    ]);
+    for (const other of others) {
+      expect(enumerateLegalMoves(snapshot, other.id)).toEqual([
+        { type: "CALL_MAY_I", playerId: other.id },
+      ]);
+    }
+    expect(enumerateLegalMoves(snapshot, discarder.id)).toEqual([]);
+  });
+
+  it("offers skip and every discard after drawing", () => {
+    const engine = createEngine();
+    const playerId = engine.getAwaitingPlayerId();
+    engine.drawFromStock(playerId);
+    const snapshot = engine.getSnapshot();
+    const hand = snapshot.players.find((p) => p.id === playerId)!.hand;
+
+    const moves = enumerateLegalMoves(snapshot, playerId);
+
+    expect(types(moves)).toEqual(["SKIP", "DISCARD"]);
+    expect(moves.filter((m) => m.type === "DISCARD")).toHaveLength(hand.length);
+  });
+
+  it("offers only allow and claim to the prompted player during a May I", () => {
+    const engine = createEngine();
+    const discarderId = engine.getAwaitingPlayerId();
+    engine.drawFromStock(discarderId);
+    engine.skip(discarderId);
+    const hand = engine.getSnapshot().players.find((p) => p.id === discarderId)!.hand;
+    engine.discard(discarderId, hand[0]!.id);
+    const snapshot = engine.getSnapshot();
+    const caller = snapshot.players.find(
+      (p) => p.id !== snapshot.awaitingPlayerId && p.id !== discarderId
+    )!;
+    engine.callMayI(caller.id);
+
+    const resolving = engine.getSnapshot();
+    const promptedId = resolving.mayIContext!.playerBeingPrompted!;
+
+    expect(enumerateLegalMoves(resolving, promptedId)).toEqual([
+      { type: "ALLOW_MAY_I", playerId: promptedId },
+      { type: "CLAIM_MAY_I", playerId: promptedId },
+    ]);
+    expect(enumerateLegalMoves(resolving, caller.id)).toEqual([]);
+  });
+
+  it("lists lay offs with their run position", () => {
+    const hand = [
+      card("4S", "4", "spades"),
+      card("9S", "9", "spades"),
+      card("9X", "9", "spades"),
+      card("2H", "2", "hearts"),
+      card("KD", "K", "diamonds"),
+    ];
+    const snapshot = afterDrawWith(hand, [spadesRun, ninesSet]);
+    const playerId = snapshot.awaitingPlayerId;
+
+    const layOffs = enumerateLegalMoves(snapshot, playerId).filter((m) => m.type === "LAY_OFF");
+
+    expect(layOffs).toEqual([
+      { type: "LAY_OFF", playerId, cardId: "4S", meldId: "meld-run", position: "start" },
+      { type: "LAY_OFF", playerId, cardId: "9S", meldId: "meld-run", position: "end" },
+      { type: "LAY_OFF", playerId, cardId: "9X", meldId: "meld-run", position: "end" },
+      { type: "LAY_OFF", playerId, cardId: "2H", meldId: "meld-run", position: "start" },
+      { type: "LAY_OFF", playerId, cardId: "2H", meldId: "meld-run", position: "end" },
+      { type: "LAY_OFF", playerId, cardId: "9S", meldId: "meld-set" },
+      { type: "LAY_OFF", playerId, cardId: "9X", meldId: "meld-set" },
+      { type: "LAY_OFF", playerId, cardId: "2H", meldId: "meld-set" },
+    ]);
+  });
+
+  it("lists no lay offs for a player who is not down", () => {
+    const hand = [card("9S", "9", "spades"), card("KD", "K", "diamonds")];
+    const snapshot = afterDrawWith(hand, [ninesSet], false);
+
+    expect(types(enumerateLegalMoves(snapshot, snapshot.awaitingPlayerId))).toEqual([
+      "SKIP",
+      "DISCARD",
+    ]);
+  });
+
+  it("lists Joker swaps only for the card the Joker stands for", () => {
+    const hand = [card("7S", "7", "spades"), card("7H", "7", "hearts"), card("KD", "K", "diamonds")];
+    const snapshot = afterDrawWith(hand, [spadesRun, ninesSet], false);
+    const playerId = snapshot.awaitingPlayerId;
+
+    const swaps = enumerateLegalMoves(snapshot, playerId).filter((m) => m.type === "SWAP_JOKER");
+
+    expect(swaps).toEqual([
+      { type: "SWAP_JOKER", playerId, meldId: "meld-run", jokerCardId: "JK1", swapCardId: "7S" },
+    ]);
+  });
+
+  it("returns nothing for an unknown player", () => {
+    expect(enumerateLegalMoves(createEngine().getSnapshot(), "nobody")).toEqual([]);
+  });
+
+  it("only lists moves the engine accepts during play", () => {
+    const engine = createEngine();
+
+    for (let step = 0; step < 60; step++) {
+      const snapshot = engine.getSnapshot();
+      if (snapshot.phase === "ROUND_END" || snapshot.phase === "GAME_END") break;
+
+      for (const player of snapshot.players) {
+        for (const move of enumerateLegalMoves(snapshot, player.id)) {
+          const copy = GameEngine.fromJSON(engine.toJSON());
+          expect({ move, accepted: copy.dispatch(move).accepted }).toEqual({
+            move,
+            accepted: true,
+          });
+          copy.stop();
+        }
+      }
+
+      // Advance with the first move of the awaiting player
+      const next = enumerateLegalMoves(snapshot, snapshot.awaitingPlayerId)[0]!;
+      engine.dispatch(next);
+    }
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Legal move enumeration for the GameEngine.
+ *
+ * Lists every concrete command a player could send right now. Each move is a
+ * JournalCommand that can be passed straight to GameEngine.dispatch. Candidates
+ * are checked with diagnoseCommand, which mirrors the machine guards, so the
+ * list agrees with what the engine would accept.
+ *
+ * Lay downs are not enumerated: the number of meld groupings grows
+ * combinatorially with hand size. Hand reorders are free actions, not moves.
+ */
+
+import type { Card } from "../card/card.types";
+import { isWild } from "../card/card.utils";
+import type { Meld } from "../meld/meld.types";
+import { resolveRunInsertPosition } from "./layoff";
+import { diagnoseCommand } from "./game-engine.outcome";
+import type { GameSnapshot, JournalCommand } from "./game-engine.types";
+
+/**
+ * A command that enumerateLegalMoves can return
+ */
+export type LegalMove = Exclude<JournalCommand, { type: "LAY_DOWN" | "REORDER_HAND" }>;
+
+/**
+ * Enumerate every legal move for a player in this snapshot.
+ *
+ * Order: draws, skip, lay offs, Joker swaps, discards, then May I.
+ * Lay offs to runs always carry an explicit position; a wild that fits
+ * both ends of a run yields one move per end.
+ *
+ * The player whose turn it is never gets CALL_MAY_I: on your own turn you
+ * take the discard by drawing it.
+ *
+ * @returns The legal moves (empty if the player has none or is not in the game)
+ */
+export function enumerateLegalMoves(snapshot: GameSnapshot, playerId: string): LegalMove[] {
+  const player = snapshot.players.find((p) => p.id === playerId);
+  if (!player) return [];
+
+  const candidates: LegalMove[] = [
+    { type: "DRAW_FROM_STOCK", playerId },
+    { type: "DRAW_FROM_DISCARD", playerId },
+    { type: "SKIP", playerId },
+    ...layOffCandidates(snapshot.table, player.hand, playerId),
+    ...jokerSwapCandidates(snapshot.table, player.hand, playerId),
+    ...player.hand.map((card): LegalMove => ({ type: "DISCARD", playerId, cardId: card.id })),
+    { type: "ALLOW_MAY_I", playerId },
+    { type: "CLAIM_MAY_I", playerId },
+  ];
+
+  const isYourTurn = snapshot.phase === "ROUND_ACTIVE" && snapshot.awaitingPlayerId === playerId;
+  if (!isYourTurn) {
+    candidates.push({ type: "CALL_MAY_I", playerId });
+  }
+
+  return candidates.filter((move) => diagnoseCommand(snapshot, move) === null);
+}
+
+function layOffCandidates(table: Meld[], hand: Card[], playerId: string): LegalMove[] {
+  return table.flatMap((meld) =>
+    hand.flatMap((card) =>
+      layOffPositions(card, meld).map(
+        (position): LegalMove => ({
+          type: "LAY_OFF",
+          playerId,
+          cardId: card.id,
+          meldId: meld.id,
+          ...(position ? { position } : {}),
+        })
+      )
+    )
+  );
+}
+
+/**
+ * Positions worth trying for a lay off. Sets take no position, a natural card
+ * fits at most one end of a run, and a wild may fit either end.
+ */
+function layOffPositions(card: Card, meld: Meld): ("start" | "end" | undefined)[] {
+  if (meld.type === "set") return [undefined];
+  if (isWild(card)) return ["start", "end"];
+  const position = resolveRunInsertPosition(card, meld);
+  return position ? [position] : [];
+}
+
+function jokerSwapCandidates(table: Meld[], hand: Card[], playerId: string): LegalMove[] {
+  return table.flatMap((meld) =>
+    meld.cards
+      .filter((c) => c.rank === "Joker")
+      .flatMap((joker) =>
+        hand.map(
+          (card): LegalMove => ({
+            type: "SWAP_JOKER",
+            playerId,
+            meldId: meld.id,
+            jokerCardId: joker.id,
+            swapCardId: card.id,
+          })
+        )
+      )
+  );
+}
@@ -0,0 +1,364 @@
+/**
+ * Tests for typed command outcomes (GameEngine.dispatch and diagnoseCommand)
+ */
+
+import { describe, it, expect } from "bun:test";
+import { GameEngine } from "./game-engine";
+import { diagnoseCommand } from "./game-engine.outcome";
+import { createSeededRandom } from "../card/card.random";
+import type { Card } from "../card/card.types";
+import type { CreateGameOptions, GameSnapshot, MeldSpec } from "./game-engine.types";
+import { randomCommand } from "./test.fixtures";
+
+function card(id: string, rank: Card["rank"], suit: Card["suit"]): Card {
+  return { id, rank, suit };
+}
+
+function createEngine(startingRound: 1 | 3 = 1) {
+  return GameEngine.createGame({
+    playerNames: ["Alice", "Bob", "Carol"],
+    startingRound,
+    seed: "outcome-seed",
+  });
+}
+
+/** A snapshot where the awaiting player has drawn and holds the given hand */
+function withHand(engine: GameEngine, hand: Card[]): GameSnapshot {
+  const playerId = engine.getAwaitingPlayerId();
+  engine.drawFromStock(playerId);
+  const snapshot = engine.getSnapshot();
+  return {
+    ...snapshot,
+    players: snapshot.players.map((p) => (p.id === playerId ? { ...p, hand } : p)),
+  };
+}
+
+describe("GameEngine.dispatch", () => {
+  it("accepts a valid command and returns its journal entry", () => {
+    const engine = createEngine();
+    const playerId = engine.getAwaitingPlayerId();
+
+    const outcome = engine.dispatch({ type: "DRAW_FROM_STOCK", playerId });
+
+    expect(outcome.accepted).toBe(true);
+    expect(outcome.errorCode).toBeNull();
+    expect(outcome.message).toBeNull();
+    expect(outcome.snapshot.turnPhase).toBe("AWAITING_ACTION");
+    expect(outcome.events).toHaveLength(1);
+    expect(outcome.events[0]!.command).toEqual({ type: "DRAW_FROM_STOCK", playerId });
+  });
+
+  it("rejects a turn command from another player with NOT_YOUR_TURN", () => {
+    const engine = createEngine();
+    const snapshot = engine.getSnapshot();
+    const other = snapshot.players.find((p) => p.id !== snapshot.awaitingPlayerId)!;
+
+    const outcome = engine.dispatch({ type: "DRAW_FROM_STOCK", playerId: other.id });
+
+    expect(outcome.accepted).toBe(false);
+    expect(outcome.errorCode).toBe("NOT_YOUR_TURN");
+    expect(outcome.snapshot.turnPhase).toBe("AWAITING_DRAW");
+  });
+
+  it("rejects discarding before drawing with MUST_DRAW_FIRST", () => {
+    const engine = createEngine();
+    const snapshot = engine.getSnapshot();
+    const player = snapshot.players.find((p) => p.id === snapshot.awaitingPlayerId)!;
+
+    const outcome = engine.dispatch({
+      type: "DISCARD",
+      playerId: player.id,
+      cardId: player.hand[0]!.id,
+    });
+
+    expect(outcome.errorCode).toBe("MUST_DRAW_FIRST");
+  });
+
+  it("rejects a second draw with ALREADY_DRAWN", () => {
+    const engine = createEngine();
+    const playerId = engine.getAwaitingPlayerId();
+    engine.drawFromStock(playerId);
+
+    const outcome = engine.dispatch({ type: "DRAW_FROM_DISCARD", playerId });
+
+    expect(outcome.errorCode).toBe("ALREADY_DRAWN");
+  });
+
+  it("uses the turn machine's message when it sets one", () => {
+    const engine = createEngine();
+    const playerId = engine.getAwaitingPlayerId();
+    engine.drawFromStock(playerId);
+
+    const outcome = engine.dispatch({
+      type: "LAY_DOWN",
+      playerId,
+      melds: [{ type: "set", cardIds: ["missing-card"] }],
+    });
+
+    expect(outcome.errorCode).toBe("CARD_NOT_IN_HAND");
+    expect(outcome.message).toBe("card not in hand");
+    expect(outcome.snapshot.lastError).toBe("card not in hand");
+  });
+
+  it("accepts reordering a hand into its current order", () => {
+    const engine = createEngine();
+    const snapshot = engine.getSnapshot();
+    const player = snapshot.players[0]!;
+
+    const outcome = engine.dispatch({
+      type: "REORDER_HAND",
+      playerId: player.id,
+      cardIds: player.hand.map((c) => c.id),
+    });
+
+    expect(outcome.accepted).toBe(true);
+  });
+
+  it("rejects a May I response when nothing is pending", () => {
+    const engine = createEngine();
+
+    const outcome = engine.dispatch({
+      type: "ALLOW_MAY_I",
+      playerId: engine.getAwaitingPlayerId(),
+    });
+
+    expect(outcome.errorCode).toBe("NO_MAY_I_PENDING");
+  });
+
+  it("rejects May I from the current player, who draws the discard instead", () => {
+    const engine = createEngine();
+    const playerId = engine.getAwaitingPlayerId();
+    const before = engine.getSnapshot();
+
+    const outcome = engine.dispatch({ type: "CALL_MAY_I", playerId });
+
+    expect(outcome.accepted).toBe(false);
+    expect(outcome.errorCode).toBe("MAY_I_NOT_ALLOWED");
+    expect(outcome.snapshot.discard).toEqual(before.discard);
+    expect(outcome.snapshot.players).toEqual(before.players);
+  });
+
+  it("rejects May I on a discard left behind by a rejected discard", () => {
+    const engine = createEngine();
+    const playerId = engine.getAwaitingPlayerId();
+    const caller = engine.getSnapshot().players.find((p) => p.id !== playerId)!;
+    engine.drawFromDiscard(playerId);
+
+    // The discard was claimed this turn; a rejected DISCARD must not reopen it
+    expect(engine.dispatch({ type: "DISCARD", playerId, cardId: "card-none" }).accepted).toBe(false);
+    const outcome = engine.dispatch({ type: "CALL_MAY_I", playerId: caller.id });
+
+    expect(outcome.accepted).toBe(false);
+    expect(outcome.snapshot.phase).toBe("ROUND_ACTIVE");
+  });
+
+  it("has no events for games restored without a journal", () => {
+    const restored = GameEngine.fromJSON(createEngine().toJSON());
+
+    const outcome = restored.dispatch({
+      type: "DRAW_FROM_STOCK",
+      playerId: restored.getAwaitingPlayerId(),
+    });
+
+    expect(outcome.accepted).toBe(true);
+    expect(outcome.events).toEqual([]);
+  });
+});
+
+describe("diagnoseCommand for LAY_DOWN", () => {
+  const extras = [card("KH", "K", "hearts"), card("3C", "3", "clubs")];
+
+  function layDown(snapshot: GameSnapshot, melds: MeldSpec[]) {
+    return diagnoseCommand(snapshot, {
+      type: "LAY_DOWN",
+      playerId: snapshot.awaitingPlayerId,
+      melds,
+    });
+  }
+
+  it("returns null for a lay down that meets the contract", () => {
+    const snapshot = withHand(createEngine(), [
+      card("9H", "9", "hearts"),
+      card("9D", "9", "diamonds"),
+      card("9C", "9", "clubs"),
+      card("5S", "5", "spades"),
+      card("5D", "5", "diamonds"),
+      card("2C", "2", "clubs"),
+      ...extras,
+    ]);
+
+    expect(
+      layDown(snapshot, [
+        { type: "set", cardIds: ["9H", "9D", "9C"] },
+        { type: "set", cardIds: ["5S", "5D", "2C"] },
+      ])
+    ).toBeNull();
+  });
+
+  it("reports CONTRACT_NOT_MET for the wrong number of melds", () => {
+    const snapshot = withHand(createEngine(), [
+      card("9H", "9", "hearts"),
+      card("9D", "9", "diamonds"),
+      card("9C", "9", "clubs"),
+      ...extras,
+    ]);
+
+    expect(layDown(snapshot, [{ type: "set", cardIds: ["9H", "9D", "9C"] }])).toEqual({
+      errorCode: "CONTRACT_NOT_MET",
+      message: "contract requires 2 set(s) and 0 run(s)",
+    });
+  });
+
+  it("reports WILDS_OUTNUMBER with the meld number", () => {
+    const snapshot = withHand(createEngine(), [
+      card("9H", "9", "hearts"),
+      card("9D", "9", "diamonds"),
+      card("9C", "9", "clubs"),
+      card("5S", "5", "spades"),
+      card("2D", "2", "diamonds"),
+      card("JK", "Joker", null),
+      ...extras,
+    ]);
+
+    expect(
+      layDown(snapshot, [
+        { type: "set", cardIds: ["9H", "9D", "9C"] },
+        { type: "set", cardIds: ["5S", "2D", "JK"] },
+      ])
+    ).toEqual({ errorCode: "WILDS_OUTNUMBER", message: "meld 2: wilds outnumber naturals" });
+  });
+
+  it("reports SET_RANK_MISMATCH for mixed ranks", () => {
+    const snapshot = withHand(createEngine(), [
+      card("9H", "9", "hearts"),
+      card("9D", "9", "diamonds"),
+      card("8C", "8", "clubs"),
+      card("5S", "5", "spades"),
+      card("5D", "5", "diamonds"),
+      card("5C", "5", "clubs"),
+      ...extras,
+    ]);
+
+    expect(
+      layDown(snapshot, [
+        { type: "set", cardIds: ["9H", "9D", "8C"] },
+        { type: "set", cardIds: ["5S", "5D", "5C"] },
+      ])?.errorCode
+    ).toBe("SET_RANK_MISMATCH");
+  });
+
+  it("reports RUN_NOT_CONSECUTIVE for a gap wilds cannot fill", () => {
+    const snapshot = withHand(createEngine(3), [
+      card("3S", "3", "spades"),
+      card("4S", "4", "spades"),
+      card("5S", "5", "spades"),
+      card("8S", "8", "spades"),
+      card("9H", "9", "hearts"),
+      card("10H", "10", "hearts"),
+      card("JH", "J", "hearts"),
+      card("QH", "Q", "hearts"),
+      ...extras,
+    ]);
+
+    expect(
+      layDown(snapshot, [
+        { type: "run", cardIds: ["3S", "4S", "5S", "8S"] },
+        { type: "run", cardIds: ["9H", "10H", "JH", "QH"] },
+      ])?.errorCode
+    ).toBe("RUN_NOT_CONSECUTIVE");
+  });
+
+  it("reports SAME_SUIT_RUN_GAP for two runs of a suit that are too close", () => {
+    const snapshot = withHand(createEngine(3), [
+      card("3S", "3", "spades"),
+      card("4S", "4", "spades"),
+      card("5S", "5", "spades"),
+      card("6S", "6", "spades"),
+      card("8S", "8", "spades"),
+      card("9S", "9", "spades"),
+      card("10S", "10", "spades"),
+      card("JS", "J", "spades"),
+      ...extras,
+    ]);
+
+    expect(
+      layDown(snapshot, [
+        { type: "run", cardIds: ["3S", "4S", "5S", "6S"] },
+        { type: "run", cardIds: ["8S", "9S", "10S", "JS"] },
+      ])?.errorCode
+    ).toBe("SAME_SUIT_RUN_GAP");
+  });
+
+  it("reports ALREADY_DOWN before checking the melds", () => {
+    const snapshot = withHand(createEngine(), extras);
+    const downSnapshot: GameSnapshot = {
+      ...snapshot,
+      players: snapshot.players.map((p) =>
+        p.id === snapshot.awaitingPlayerId ? { ...p, isDown: true } : p
+      ),
+    };
+
+    expect(layDown(downSnapshot, [])?.errorCode).toBe("ALREADY_DOWN");
+  });
+});
+
+describe("diagnoseCommand over random games", () => {
+  const SHORT_CONTRACTS = [
+    { sets: 1, runs: 0, cardsDealt: 7 },
+    { sets: 0, runs: 1, cardsDealt: 7 },
+    { sets: 1, runs: 1, cardsDealt: 8 },
+  ];
+
+  /** Find the first command where the diagnosis and the engine disagree */
+  function findDisagreement(options: CreateGameOptions, maxCommands: number) {
+    const engine = GameEngine.createGame({ gameId: "diagnose", ...options });
+    const random = createSeededRandom(`commands-${options.seed}`);
+
+    try {
+      for (let step = 0; step < maxCommands && engine.getSnapshot().phase !== "GAME_END"; step++) {
+        const snapshot = engine.getSnapshot();
+        const command = randomCommand(snapshot, random);
+        const diagnosis = diagnoseCommand(snapshot, command);
+        const { accepted } = engine.dispatch(command);
+
+        if (accepted !== (diagnosis === null)) return { step, command, accepted, diagnosis };
+      }
+      return null;
+    } finally {
+      engine.stop();
+    }
+  }
+
+  it("finds no rejection exactly when the engine accepts the command", () => {
+    for (const seed of ["diagnose-a", "diagnose-b", "diagnose-c"]) {
+      const options = { playerNames: ["A", "B", "C", "D"], seed, contracts: SHORT_CONTRACTS };
+      expect(findDisagreement(options, 3000)).toBeNull();
+    }
+  });
+
+  it("agrees with the engine in a final hand", () => {
+    const options = {
+      playerNames: ["A", "B", "C", "D", "E", "F"],
+      seed: "diagnose-final",
+      startingRound: 6 as const,
+    };
+    expect(findDisagreement(options, 300)).toBeNull();
+  });
+
+  it("agrees with the engine under relaxed house rules", () => {
+    const options = {
+      playerNames: ["A", "B", "C"],
+      seed: "diagnose-rules",
+      contracts: SHORT_CONTRACTS,
+      rules: {
+        allowLayOffOnLayDownTurn: true,
+        allowJokerSwapFromSets: true,
+        allowJokerSwapAfterDown: true,
+        allowGoOutWithoutDiscard: false,
+        enforceWildRatioOnLayDown: false,
+        mayIPenaltyCards: 2,
+      },
+    };
+    expect(findDisagreement(options, 3000)).toBeNull();
+  });
+});
@@ -0,0 +1,507 @@
+/**
+ * Typed command outcomes for the GameEngine.
+ *
+ * The machines silently ignore commands they reject, and `lastError` is a
+ * free-form string that only some rejections set. This module classifies a
+ * command from the snapshots around it and, when it was rejected, explains
+ * why with a stable error code that callers can branch on.
+ */
+
+import type { Card } from "../card/card.types";
+import type { Meld } from "../meld/meld.types";
+import { getRankValue, isWild } from "../card/card.utils";
+import { isValidRun, isValidSet, wildsOutnumberNaturals } from "../meld/meld.validation";
+import { canSwapJokerWithCard } from "../meld/meld.joker";
+import { buildMeldsFromProposals } from "./guards";
+import { canLayOffToRun, canLayOffToSet, resolveRunInsertPosition } from "./layoff";
+import { resolveContract, validateContractMelds, type Contract } from "./contracts";
+import { getLayDownValidationOptions, resolveRuleSet, type RuleSet } from "./house-rules";
+import { canCurrentPlayerClaimMayI, getMayICallBlock, type MayICallBlock } from "./mayI.rules";
+import { deriveDomainEvents } from "./game-engine.events";
+import type { GameSnapshot, JournalCommand, JournalEntry, CommandOutcome } from "./game-engine.types";
+
+/**
+ * Stable rejection reasons. New codes may be added; existing codes keep their meaning.
+ */
+export const COMMAND_ERROR_CODES = [
+  /** The round or game is over */
+  "GAME_NOT_ACTIVE",
+  /** A May I is being resolved, only the prompted player may respond */
+  "MAY_I_IN_PROGRESS",
+  /** The player is not in this game */
+  "PLAYER_NOT_FOUND",
+  /** Turn commands are only accepted from the player whose turn it is */
+  "NOT_YOUR_TURN",
+  /** Draw before laying down, laying off, swapping or discarding */
+  "MUST_DRAW_FIRST",
+  /** The player already drew this turn */
+  "ALREADY_DRAWN",
+  /** The player skipped or laid down and can only discard now */
+  "MUST_DISCARD",
+  "STOCK_EMPTY",
+  "DISCARD_EMPTY",
+  /** Down players can only draw from the stock */
+  "DOWN_MUST_DRAW_FROM_STOCK",
+  "CARD_NOT_IN_HAND",
+  "MELD_NOT_FOUND",
+  "ALREADY_DOWN",
+  /** Laying off requires being down */
+  "NOT_DOWN",
+  /** Laying off is not allowed on the turn the player laid down */
+  "LAID_DOWN_THIS_TURN",
+  /** Laying down in a final hand must use every card in hand */
+  "MUST_USE_ALL_CARDS",
+  /** Laying off and joker swaps are not allowed in a final hand */
+  "NOT_ALLOWED_IN_FINAL_HAND",
+  /** The play would leave no card to discard */
+  "MUST_KEEP_DISCARD",
+  /** Wrong number of sets or runs for the contract */
+  "CONTRACT_NOT_MET",
+  /** The same card is used in more than one meld */
+  "DUPLICATE_CARD",
+  "MELD_TOO_SHORT",
+  "WILDS_OUTNUMBER",
+  "SET_RANK_MISMATCH",
+  "RUN_MIXED_SUITS",
+  "RUN_NOT_CONSECUTIVE",
+  /** Two runs of the same suit need at least two cards between them */
+  "SAME_SUIT_RUN_GAP",
+  "INVALID_MELD",
+  "CARD_DOES_NOT_FIT",
+  /** Joker swaps are only allowed before laying down and only from runs (house rules may relax this) */
+  "JOKER_SWAP_NOT_ALLOWED",
+  "JOKER_NOT_IN_MELD",
+  /** The swap card is not the card the joker stands for */
+  "SWAP_CARD_MISMATCH",
+  /** The discard cannot be claimed with May I right now */
+  "MAY_I_NOT_ALLOWED",
+  "NO_MAY_I_PENDING",
+  /** Only the prompted player can allow or claim a May I */
+  "NOT_PROMPTED",
+  /** The new order must contain exactly the cards in hand */
+  "INVALID_HAND_ORDER",
+  /** The engine rejected the command for a reason not listed above */
+  "REJECTED",
+] as const;
+
+export type CommandErrorCode = (typeof COMMAND_ERROR_CODES)[number];
+
+/**
+ * Why a command would be rejected
+ */
+export interface CommandRejection {
+  errorCode: CommandErrorCode;
+  message: string;
+}
+
+function reject(errorCode: CommandErrorCode, message: string): CommandRejection {
+  return { errorCode, message };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Outcome
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * The parts of a snapshot that an accepted command changes. Rejected
+ * commands may still touch lastError, timestamps or bookkeeping flags.
+ */
+function progressKey(snapshot: GameSnapshot): string {
+  return JSON.stringify([
+    snapshot.phase,
+    snapshot.turnPhase,
+    snapshot.currentRound,
+    snapshot.awaitingPlayerId,
+    snapshot.players.map((p) => [p.id, p.isDown, p.hand.map((c) => c.id)]),
+    snapshot.stock.map((c) => c.id),
+    snapshot.discard.map((c) => c.id),
+    snapshot.table.map((m) => [m.id, m.cards.map((c) => c.id)]),
+    snapshot.mayIContext,
+  ]);
+}
+
+function isSameHandOrder(snapshot: GameSnapshot, command: JournalCommand): boolean {
+  if (command.type !== "REORDER_HAND") return false;
+  const player = snapshot.players.find((p) => p.id === command.playerId);
+  if (!player) return false;
+  return player.hand.map((c) => c.id).join(",") === command.cardIds.join(",");
+}
+
+/**
+ * Classify a command from the snapshots before and after it was sent.
+ *
+ * A command is accepted when it moved the game forward. Otherwise the
+ * rejection reason is diagnosed from the snapshot it was sent against.
+ * Reordering a hand into the order it already has is accepted as a no-op.
+ */
+export function getCommandOutcome(
+  before: GameSnapshot,
+  command: JournalCommand,
+  after: GameSnapshot,
+  events: JournalEntry[]
+): CommandOutcome {
+  if (progressKey(before) !== progressKey(after) || isSameHandOrder(before, command)) {
+    return {
+      accepted: true,
+      errorCode: null,
+      message: null,
+      snapshot: after,
+      events,
+      domainEvents: deriveDomainEvents(before, after, command),
+    };
+  }
+
+  const rejection = diagnoseCommand(before, command) ?? {
+    errorCode: "REJECTED",
+    message: "command was not accepted",
+  };
+  // The turn machine's own message is more specific when it set one for this command
+  const freshError = after.lastError !== before.lastError ? after.lastError : null;
+
+  return {
+    accepted: false,
+    errorCode: rejection.errorCode,
+    message: freshError ?? rejection.message,
+    snapshot: after,
+    events,
+    domainEvents: [],
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Diagnosis
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Explain why the machines would reject a command sent against this snapshot.
+ *
+ * Mirrors the turn and round machine guards, checking in the same order so
+ * the code matches the lastError the turn machine would set. Random-game tests
+ * check that it finds a rejection exactly when the engine rejects a command.
+ *
+ * @returns The rejection, or null if no rule blocks the command
+ */
+export function diagnoseCommand(
+  snapshot: GameSnapshot,
+  command: JournalCommand
+): CommandRejection | null {
+  if (snapshot.phase === "ROUND_END" || snapshot.phase === "GAME_END") {
+    return reject("GAME_NOT_ACTIVE", "the round is not in progress");
+  }
+
+  const player = snapshot.players.find((p) => p.id === command.playerId);
+  if (!player) {
+    return reject("PLAYER_NOT_FOUND", `player ${command.playerId} is not in this game`);
+  }
+
+  switch (command.type) {
+    case "CALL_MAY_I":
+      return diagnoseCallMayI(snapshot, command.playerId);
+    case "ALLOW_MAY_I":
+    case "CLAIM_MAY_I":
+      return diagnoseMayIResponse(snapshot, command.type, command.playerId);
+    case "REORDER_HAND":
+      return diagnoseReorder(snapshot, player.hand, command.cardIds);
+  }
+
+  if (snapshot.phase === "RESOLVING_MAY_I") {
+    return reject("MAY_I_IN_PROGRESS", "wait for the May I to be resolved");
+  }
+  if (snapshot.awaitingPlayerId !== command.playerId) {
+    return reject("NOT_YOUR_TURN", "it is not your turn");
+  }
+
+  const rules = resolveRuleSet(snapshot.rules);
+  const contract = resolveContract(snapshot.contract, snapshot.currentRound);
+
+  switch (command.type) {
+    case "DRAW_FROM_STOCK":
+      if (snapshot.turnPhase !== "AWAITING_DRAW") {
+        return reject("ALREADY_DRAWN", "you already drew this turn");
+      }
+      if (snapshot.stock.length === 0) {
+        return reject("STOCK_EMPTY", "stock is empty - reshuffle required");
+      }
+      return null;
+
+    case "DRAW_FROM_DISCARD":
+      if (snapshot.turnPhase !== "AWAITING_DRAW") {
+        return reject("ALREADY_DRAWN", "you already drew this turn");
+      }
+      if (player.isDown) {
+        return reject("DOWN_MUST_DRAW_FROM_STOCK", "down players must draw from the stock");
+      }
+      if (snapshot.discard.length === 0) {
+        return reject("DISCARD_EMPTY", "the discard pile is empty");
+      }
+      return null;
+
+    case "SKIP":
+      if (snapshot.turnPhase === "AWAITING_DRAW") {
+        return reject("MUST_DRAW_FIRST", "draw a card first");
+      }
+      if (snapshot.turnPhase === "AWAITING_DISCARD") {
+        return reject("MUST_DISCARD", "discard to end your turn");
+      }
+      return null;
+
+    case "DISCARD":
+      if (snapshot.turnPhase === "AWAITING_DRAW") {
+        return reject("MUST_DRAW_FIRST", "draw a card first");
+      }
+      if (!player.hand.some((c) => c.id === command.cardId)) {
+        return reject("CARD_NOT_IN_HAND", "card not in hand");
+      }
+      return null;
+
+    case "LAY_DOWN": {
+      const phaseRejection = diagnoseActionPhase(snapshot);
+      if (phaseRejection) return phaseRejection;
+      if (player.isDown) {
+        return reject("ALREADY_DOWN", "already laid down this round");
+      }
+
+      const usedCardIds = new Set(command.melds.flatMap((m) => m.cardIds));
+      if (contract.mustUseAllCards) {
+        if (usedCardIds.size !== player.hand.length) {
+          return reject(
+            "MUST_USE_ALL_CARDS",
+            `Round ${snapshot.currentRound} requires laying down ALL ${player.hand.length} cards at once`
+          );
+        }
+      } else if (!rules.allowGoOutWithoutDiscard && usedCardIds.size >= player.hand.length) {
+        return reject("MUST_KEEP_DISCARD", "must keep a card to discard");
+      }
+
+      const melds = buildMeldsFromProposals(command.melds, player.hand, player.id, rules);
+      if (!melds) {
+        return reject("CARD_NOT_IN_HAND", "card not in hand");
+      }
+
+      const setsProvided = melds.filter((m) => m.type === "set").length;
+      const runsProvided = melds.filter((m) => m.type === "run").length;
+      if (setsProvided !== contract.sets || runsProvided !== contract.runs) {
+        return reject(
+          "CONTRACT_NOT_MET",
+          `contract requires ${contract.sets} set(s) and ${contract.runs} run(s)`
+        );
+      }
+
+      return diagnoseContractMelds(melds, contract, rules);
+    }
+
+    case "LAY_OFF": {
+      if (snapshot.turnPhase === "AWAITING_DISCARD" && snapshot.laidDownThisTurn) {
+        return reject("LAID_DOWN_THIS_TURN", "cannot lay off on same turn as laying down");
+      }
+      const phaseRejection = diagnoseActionPhase(snapshot);
+      if (phaseRejection) return phaseRejection;
+      if (contract.mustUseAllCards) {
+        return reject(
+          "NOT_ALLOWED_IN_FINAL_HAND",
+          `laying off is not allowed in Round ${snapshot.currentRound}`
+        );
+      }
+      if (!player.isDown) {
+        return reject("NOT_DOWN", "must be down from a previous turn to lay off");
+      }
+      if (snapshot.laidDownThisTurn && !rules.allowLayOffOnLayDownTurn) {
+        return reject("LAID_DOWN_THIS_TURN", "cannot lay off on same turn as laying down");
+      }
+      if (!player.hand.some((c) => c.id === command.cardId)) {
+        return reject("CARD_NOT_IN_HAND", "card not in hand");
+      }
+      if (!rules.allowGoOutWithoutDiscard && player.hand.length <= 1) {
+        return reject("MUST_KEEP_DISCARD", "must keep a card to discard");
+      }
+      const meld = snapshot.table.find((m) => m.id === command.meldId);
+      if (!meld) {
+        return reject("MELD_NOT_FOUND", "meld not found");
+      }
+      const card = player.hand.find((c) => c.id === command.cardId)!;
+      if (!layOffFits(card, meld, command.position)) {
+        return reject("CARD_DOES_NOT_FIT", "card does not fit this meld");
+      }
+      return null;
+    }
+
+    case "SWAP_JOKER": {
+      const phaseRejection = diagnoseActionPhase(snapshot);
+      if (phaseRejection) return phaseRejection;
+      if (contract.mustUseAllCards) {
+        return reject(
+          "NOT_ALLOWED_IN_FINAL_HAND",
+          `joker swaps are not allowed in Round ${snapshot.currentRound}`
+        );
+      }
+      if (player.isDown && !rules.allowJokerSwapAfterDown) {
+        return reject("JOKER_SWAP_NOT_ALLOWED", "jokers can only be swapped before laying down");
+      }
+      const meld = snapshot.table.find((m) => m.id === command.meldId);
+      if (!meld) {
+        return reject("MELD_NOT_FOUND", "meld not found");
+      }
+      if (meld.type !== "run" && !rules.allowJokerSwapFromSets) {
+        return reject("JOKER_SWAP_NOT_ALLOWED", "jokers can only be swapped out of runs");
+      }
+      const joker = meld.cards.find((c) => c.id === command.jokerCardId);
+      if (!joker || joker.rank !== "Joker") {
+        return reject("JOKER_NOT_IN_MELD", "joker not found in this meld");
+      }
+      const swapCard = player.hand.find((c) => c.id === command.swapCardId);
+      if (!swapCard) {
+        return reject("CARD_NOT_IN_HAND", "card not in hand");
+      }
+      const swapOptions = { allowSetSwaps: rules.allowJokerSwapFromSets };
+      if (!canSwapJokerWithCard(meld, joker, swapCard, swapOptions)) {
+        return reject("SWAP_CARD_MISMATCH", "card does not match the joker's position");
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Same check as the turn machine's canLayOff guard once preconditions pass
+ */
+function layOffFits(card: Card, meld: Meld, position: "start" | "end" | undefined): boolean {
+  if (meld.type === "set") {
+    return canLayOffToSet(card, meld);
+  }
+  if (!canLayOffToRun(card, meld)) return false;
+  return position === undefined || resolveRunInsertPosition(card, meld, position) !== null;
+}
+
+/**
+ * Laying down, laying off and swapping happen after drawing and before
+ * skipping to the discard
+ */
+function diagnoseActionPhase(snapshot: GameSnapshot): CommandRejection | null {
+  if (snapshot.turnPhase === "AWAITING_DRAW") {
+    return reject("MUST_DRAW_FIRST", "draw a card first");
+  }
+  if (snapshot.turnPhase === "AWAITING_DISCARD") {
+    return reject("MUST_DISCARD", "discard to end your turn");
+  }
+  return null;
+}
+
+const MAY_I_CALL_REJECTIONS: Record<MayICallBlock, CommandRejection> = {
+  DISCARD_EMPTY: reject("DISCARD_EMPTY", "the discard pile is empty"),
+  DISCARD_CLAIMED: reject("MAY_I_NOT_ALLOWED", "the discard was already claimed this turn"),
+  NOT_IN_GAME: reject("PLAYER_NOT_FOUND", "player is not in this game"),
+  CALLER_DOWN: reject("MAY_I_NOT_ALLOWED", "down players cannot call May I"),
+  OWN_DISCARD: reject("MAY_I_NOT_ALLOWED", "you cannot claim your own discard"),
+  CURRENT_PLAYER: reject("MAY_I_NOT_ALLOWED", "draw from the discard to take it on your turn"),
+};
+
+function diagnoseCallMayI(snapshot: GameSnapshot, playerId: string): CommandRejection | null {
+  if (snapshot.phase === "RESOLVING_MAY_I") {
+    return reject("MAY_I_IN_PROGRESS", "a May I is already being resolved");
+  }
+  const block = getMayICallBlock(snapshot, playerId);
+  return block ? { ...MAY_I_CALL_REJECTIONS[block] } : null;
+}
+
+function diagnoseMayIResponse(
+  snapshot: GameSnapshot,
+  type: "ALLOW_MAY_I" | "CLAIM_MAY_I",
+  playerId: string
+): CommandRejection | null {
+  if (snapshot.phase !== "RESOLVING_MAY_I") {
+    return reject("NO_MAY_I_PENDING", "there is no May I to respond to");
+  }
+  // The current player may take the card as their draw without being prompted
+  const hasDrawnFromStock = snapshot.turnPhase !== "AWAITING_DRAW";
+  if (type === "CLAIM_MAY_I" && canCurrentPlayerClaimMayI(snapshot, playerId, hasDrawnFromStock)) {
+    return null;
+  }
+  if (snapshot.mayIContext?.playerBeingPrompted !== playerId) {
+    return reject("NOT_PROMPTED", "you are not being asked about this May I");
+  }
+  return null;
+}
+
+function diagnoseReorder(
+  snapshot: GameSnapshot,
+  hand: Card[],
+  cardIds: string[]
+): CommandRejection | null {
+  if (snapshot.phase === "RESOLVING_MAY_I") {
+    return reject("MAY_I_IN_PROGRESS", "wait for the May I to be resolved");
+  }
+  if (cardIds.length !== hand.length) {
+    return reject("INVALID_HAND_ORDER", "card count mismatch");
+  }
+  const handIds = new Set(hand.map((c) => c.id));
+  if (cardIds.some((id) => !handIds.has(id))) {
+    return reject("INVALID_HAND_ORDER", "card not in hand");
+  }
+  if (new Set(cardIds).size !== cardIds.length) {
+    return reject("INVALID_HAND_ORDER", "card missing from new order");
+  }
+  return null;
+}
+
+/**
+ * Find the first invalid meld, then check rules that span melds
+ */
+function diagnoseContractMelds(
+  melds: Meld[],
+  contract: Contract,
+  rules: RuleSet
+): CommandRejection | null {
+  const options = getLayDownValidationOptions(rules);
+
+  for (let i = 0; i < melds.length; i++) {
+    const meld = melds[i]!;
+    const rejection = diagnoseMeld(meld, !options.allowWildsToOutnumberNaturals);
+    if (rejection) {
+      return reject(rejection.errorCode, `meld ${i + 1}: ${rejection.message}`);
+    }
+  }
+
+  const cardIds = melds.flatMap((m) => m.cards.map((c) => c.id));
+  if (new Set(cardIds).size !== cardIds.length) {
+    return reject("DUPLICATE_CARD", "a card is used in more than one meld");
+  }
+
+  const result = validateContractMelds(contract, melds, options);
+  if (!result.valid) {
+    return reject("SAME_SUIT_RUN_GAP", result.error ?? "runs of the same suit are too close");
+  }
+  return null;
+}
+
+function diagnoseMeld(meld: Meld, enforceWildRatio: boolean): CommandRejection | null {
+  const options = { allowWildsToOutnumberNaturals: !enforceWildRatio };
+  const valid =
+    meld.type === "set" ? isValidSet(meld.cards, options) : isValidRun(meld.cards, options);
+  if (valid) return null;
+
+  const minimum = meld.type === "set" ? 3 : 4;
+  if (meld.cards.length < minimum) {
+    return reject("MELD_TOO_SHORT", `a ${meld.type} needs at least ${minimum} cards`);
+  }
+  if (enforceWildRatio && wildsOutnumberNaturals(meld.cards)) {
+    return reject("WILDS_OUTNUMBER", "wilds outnumber naturals");
+  }
+
+  const naturals = meld.cards.filter((c) => !isWild(c));
+  if (meld.type === "set") {
+    if (new Set(naturals.map((c) => c.rank)).size > 1) {
+      return reject("SET_RANK_MISMATCH", "a set must be all one rank");
+    }
+    return reject("INVALID_MELD", "not a valid set");
+  }
+
+  if (new Set(naturals.map((c) => c.suit)).size > 1) {
+    return reject("RUN_MIXED_SUITS", "a run must be all one suit");
+  }
+  const values = naturals.map((c) => getRankValue(c.rank) ?? 0);
+  const span = Math.max(...values) - Math.min(...values) + 1;
+  if (new Set(values).size !== values.length || span > meld.cards.length) {
+    return reject("RUN_NOT_CONSECUTIVE", "a run must be consecutive cards");
+  }
+  return reject("INVALID_MELD", "not a valid run");
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "bun:test";
+import { createSeededRandom } from "../card/card.random";
+import { GameEngine } from "./game-engine";
+import { reduceGame, toGameSnapshot, type ReducerState } from "./game-engine.reducer";
+import type { CreateGameOptions } from "./game-engine.types";
+import { randomCommand } from "./test.fixtures";
+
+const SHORT_CONTRACTS = [
+  { sets: 1, runs: 0, cardsDealt: 7 },
+  { sets: 0, runs: 1, cardsDealt: 7 },
+  { sets: 1, runs: 1, cardsDealt: 8 },
+];
+
+/**
+ * Play the same random commands through the engine and the reducer,
+ * checking after every command that they agree
+ */
+function playDifferential(options: CreateGameOptions, maxCommands: number): ReducerState {
+  const engine = GameEngine.createGame({ gameId: "differential", ...options });
+  const random = createSeededRandom(`commands-${options.seed}`);
+  let state = engine.toReducerState();
+
+  for (let i = 0; i < maxCommands && state.phase !== "GAME_END"; i++) {
+    const command = randomCommand(engine.getSnapshot(), random);
+    engine.dispatch(command);
+    state = reduceGame(state, command);
+
+    const expected = engine.toReducerState();
+    if (!Bun.deepEquals(state, expected)) {
+      // Fail with a readable diff of the first divergence
+      expect({ command, step: i, state }).toEqual({ command, step: i, state: expected });
+    }
+  }
+
+  engine.stop();
+  return state;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Tests
+// ═══════════════════════════════════════════════════════════════════════════
+
+describe("reduceGame", () => {
+  it("agrees with the engine over random games to the end", () => {
+    for (const seed of ["diff-a", "diff-b", "diff-c"]) {
+      const state = playDifferential(
+        { playerNames: ["A", "B", "C", "D"], seed, contracts: SHORT_CONTRACTS },
+        3000
+      );
+      expect(state.phase).toBe("GAME_END");
+      expect(state.roundHistory).toHaveLength(3);
+    }
+  });
+
+  it("agrees with the engine in a final hand with many players", () => {
+    playDifferential(
+      { playerNames: ["A", "B", "C", "D", "E", "F"], seed: "diff-final", startingRound: 6 },
+      600
+    );
+  });
+
+  it("agrees with the engine under relaxed house rules", () => {
+    const state = playDifferential(
+      {
+        playerNames: ["A", "B", "C"],
+        seed: "diff-rules",
+        contracts: SHORT_CONTRACTS,
+        rules: {
+          allowLayOffOnLayDownTurn: true,
+          allowJokerSwapFromSets: true,
+          allowJokerSwapAfterDown: true,
+          allowGoOutWithoutDiscard: false,
+          enforceWildRatioOnLayDown: false,
+          mayIPenaltyCards: 2,
+        },
+      },
+      3000
+    );
+    expect(state.phase).toBe("GAME_END");
+  });
+
+  it("returns the same state for a command that changes nothing", () => {
+    const engine = GameEngine.createGame({ playerNames: ["A", "B", "C"], seed: "same" });
+    const state = engine.toReducerState();
+    const waiting = state.players[(state.currentPlayerIndex + 1) % 3]!.id;
+
+    expect(reduceGame(state, { type: "SKIP", playerId: waiting })).toBe(state);
+    expect(reduceGame(state, { type: "ALLOW_MAY_I", playerId: waiting })).toBe(state);
+  });
+
+  it("does not mutate the state it is given", () => {
+    const engine = GameEngine.createGame({ playerNames: ["A", "B", "C"], seed: "pure" });
+    const state = engine.toReducerState();
+    const before = structuredClone(state);
+    const playerId = state.players[state.currentPlayerIndex]!.id;
+
+    const next = reduceGame(state, { type: "DRAW_FROM_STOCK", playerId });
+
+    expect(state).toEqual(before);
+    expect(next.turnPhase).toBe("AWAITING_ACTION");
+  });
+});
+
+describe("GameEngine reducer state", () => {
+  it("builds the engine's snapshot from the exported state", () => {
+    const engine = GameEngine.createGame({ playerNames: ["A", "B", "C"], seed: "export" });
+    engine.drawFromStock(engine.getAwaitingPlayerId());
+
+    const { updatedAt: _expected, ...expected } = engine.getSnapshot();
+    const { updatedAt: _actual, ...actual } = toGameSnapshot(
+      engine.toReducerState(),
+      expected.gameId,
+      expected.createdAt
+    );
+    expect(actual).toEqual(expected);
+  });
+
+  it("continues a simulated game in the engine", () => {
+    const options = { playerNames: ["A", "B", "C"], seed: "import", contracts: SHORT_CONTRACTS };
+    const random = createSeededRandom("import-commands");
+    let state = GameEngine.createGame(options).toReducerState();
+    for (let i = 0; i < 60; i++) {
+      state = reduceGame(state, randomCommand(toGameSnapshot(state, "sim"), random));
+    }
+
+    const engine = GameEngine.fromReducerState(state, "sim");
+    expect(engine.toReducerState()).toEqual(state);
+
+    for (let i = 0; i < 200 && state.phase !== "GAME_END"; i++) {
+      const command = randomCommand(engine.getSnapshot(), random);
+      engine.dispatch(command);
+      state = reduceGame(state, command);
+      expect(engine.toReducerState()).toEqual(state);
+    }
+  });
+
+  it("imports a pending May I and a finished game", () => {
+    const engine = GameEngine.createGame({ playerNames: ["A", "B", "C"], seed: "pending" });
+    const state = engine.toReducerState();
+    const current = state.players[state.currentPlayerIndex]!;
+    const caller = state.players[(state.currentPlayerIndex + 1) % 3]!;
+
+    const pending = reduceGame(state, { type: "CALL_MAY_I", playerId: caller.id });
+    expect(pending.phase).toBe("RESOLVING_MAY_I");
+    const restored = GameEngine.fromReducerState(pending);
+    expect(restored.getAwaitingPlayerId()).toBe(current.id);
+    expect(restored.dispatch({ type: "ALLOW_MAY_I", playerId: current.id }).accepted).toBe(true);
+    expect(restored.toReducerState()).toEqual(
+      reduceGame(pending, { type: "ALLOW_MAY_I", playerId: current.id })
+    );
+
+    const finished = playDifferential(
+      { playerNames: ["A", "B", "C"], seed: "finished", contracts: SHORT_CONTRACTS.slice(0, 1) },
+      1000
+    );
+    expect(finished.phase).toBe("GAME_END");
+    expect(GameEngine.fromReducerState(finished).toReducerState()).toEqual(finished);
+  });
+});
@@ -0,0 +1,838 @@
+/**
+ * Pure reducer for fast game simulation.
+ *
+ * Every GameEngine command goes through the game, round and turn actors and
+ * their persisted snapshots. That suits live play, but search bots and
+ * tournaments need millions of moves. This module plays the same rules as a
+ * plain `(state, command) => state` function over a compact state.
+ *
+ * The reducer mirrors the machines guard for guard, including the
+ * bookkeeping they update on commands they reject (lastError, discardClaimed
+ * and the draw-from-stock flag). Differential tests check it against the
+ * engine over random games. Rounds deal from the game seed like the engine,
+ * so an unseeded game cannot be reproduced here.
+ *
+ * Use GameEngine.toReducerState and GameEngine.fromReducerState to move a
+ * game between the two.
+ */
+
+import type { Card } from "../card/card.types";
+import type { Meld } from "../meld/meld.types";
+import { dealNewRound, shuffle } from "../card/card.deck";
+import { createRandomSource, deriveReshuffleSeed, deriveSeed } from "../card/card.random";
+import { canSwapJokerWithCard } from "../meld/meld.joker";
+import { normalizeRunCards } from "../meld/run.normalizer";
+import { calculateHandScore } from "../scoring/scoring";
+import type { DiscardPileEvent, Player, RoundNumber, RoundRecord } from "./engine.types";
+import { getContractForRound, type Contract } from "./contracts";
+import { getLayDownValidationOptions, type RuleSet } from "./house-rules";
+import { buildMeldsFromProposals, meetsContract, validMelds, type MeldProposal } from "./guards";
+import {
+  canLayOffCard,
+  canLayOffToRun,
+  canLayOffToSet,
+  resolveRunInsertPosition,
+} from "./layoff";
+import { reorderHand } from "./hand.reordering";
+import { canCurrentPlayerClaimMayI, getMayICallBlock } from "./mayI.rules";
+import { getDeckConfig } from "./round.machine";
+import { getLayDownError, getLayOffError, type TurnErrorContext } from "./turn.machine";
+import type {
+  EnginePhase,
+  GameSnapshot,
+  JournalCommand,
+  MayIContext,
+  TurnPhase,
+} from "./game-engine.types";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// State
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Everything the rules need to play on, with nothing derived or duplicated.
+ *
+ * Rounds advance inside reduceGame, so the phase is never ROUND_END.
+ */
+export interface ReducerState {
+  phase: EnginePhase;
+  /** Turn phase of the current player, also while a May I is being resolved */
+  turnPhase: TurnPhase;
+  currentRound: RoundNumber;
+  contracts: Contract[];
+  rules: RuleSet;
+  seed: string | null;
+  roundSeed: string | null;
+
+  /** Players with their current hands, in seat order */
+  players: Player[];
+  dealerIndex: number;
+  currentPlayerIndex: number;
+  turnNumber: number;
+
+  stock: Card[];
+  /** Top card first */
+  discard: Card[];
+  table: Meld[];
+  discardHistory: DiscardPileEvent[];
+
+  lastDiscardedByPlayerId: string | null;
+  discardClaimed: boolean;
+  /** The current player drew from the stock and loses May I priority */
+  currentPlayerHasDrawnFromStock: boolean;
+
+  hasDrawn: boolean;
+  laidDownThisTurn: boolean;
+  tookActionThisTurn: boolean;
+
+  /** Pending May I, only while phase is RESOLVING_MAY_I */
+  mayIContext: MayIContext | null;
+  roundHistory: RoundRecord[];
+  lastError: string | null;
+}
+
+/**
+ * Take the reducer state from an engine snapshot.
+ *
+ * Snapshots do not record whether the current player drew from the stock,
+ * which decides their May I priority, so the caller passes it in.
+ */
+export function fromGameSnapshot(
+  snapshot: GameSnapshot,
+  currentPlayerHasDrawnFromStock = false
+): ReducerState {
+  return {
+    phase: snapshot.phase,
+    turnPhase: snapshot.turnPhase,
+    currentRound: snapshot.currentRound,
+    contracts: snapshot.contracts,
+    rules: snapshot.rules,
+    seed: snapshot.seed,
+    roundSeed: snapshot.roundSeed,
+    players: snapshot.players,
+    dealerIndex: snapshot.dealerIndex,
+    currentPlayerIndex: snapshot.currentPlayerIndex,
+    turnNumber: snapshot.turnNumber,
+    stock: snapshot.stock,
+    discard: snapshot.discard,
+    table: snapshot.table,
+    discardHistory: snapshot.discardHistory,
+    lastDiscardedByPlayerId: snapshot.lastDiscardedByPlayerId,
+    discardClaimed: snapshot.discardClaimed,
+    currentPlayerHasDrawnFromStock,
+    hasDrawn: snapshot.hasDrawn,
+    laidDownThisTurn: snapshot.laidDownThisTurn,
+    tookActionThisTurn: snapshot.tookActionThisTurn,
+    mayIContext: snapshot.mayIContext,
+    roundHistory: snapshot.roundHistory,
+    lastError: snapshot.lastError,
+  };
+}
+
+/**
+ * Build the engine snapshot for a reducer state, e.g. to list legal moves
+ * or build a player view during a simulation
+ */
+export function toGameSnapshot(
+  state: ReducerState,
+  gameId: string,
+  createdAt: string = new Date().toISOString()
+): GameSnapshot {
+  const prompted = state.mayIContext?.playerBeingPrompted;
+  const awaitingPlayerId =
+    state.phase === "RESOLVING_MAY_I" && prompted
+      ? prompted
+      : (state.players[state.currentPlayerIndex]?.id ?? "");
+
+  return {
+    version: "3.0",
+    gameId,
+    lastError: state.lastError,
+    phase: state.phase,
+    turnPhase: state.turnPhase,
+    turnNumber: state.turnNumber,
+    lastDiscardedByPlayerId: state.lastDiscardedByPlayerId,
+    discardClaimed: state.discardClaimed,
+    currentRound: state.currentRound,
+    contract: getContractForRound(state.currentRound, state.contracts)!,
+    contracts: state.contracts,
+    seed: state.seed,
+    roundSeed: state.roundSeed,
+    rules: state.rules,
+    players: state.players,
+    dealerIndex: state.dealerIndex,
+    currentPlayerIndex: state.currentPlayerIndex,
+    awaitingPlayerId,
+    stock: state.stock,
+    discard: state.discard,
+    table: state.table,
+    discardHistory: state.discardHistory,
+    hasDrawn: state.hasDrawn,
+    laidDownThisTurn: state.laidDownThisTurn,
+    tookActionThisTurn: state.tookActionThisTurn,
+    mayIContext: state.mayIContext,
+    roundHistory: state.roundHistory,
+    createdAt,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Reducer
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Apply a command the way GameEngine.dispatch would.
+ *
+ * Never mutates its input. A command that changes nothing returns the same
+ * state object; one the engine rejects may still set lastError or the May I
+ * bookkeeping, exactly as the machines do.
+ */
+export function reduceGame(state: ReducerState, command: JournalCommand): ReducerState {
+  if (state.phase !== "ROUND_ACTIVE" && state.phase !== "RESOLVING_MAY_I") {
+    return state;
+  }
+
+  switch (command.type) {
+    case "CALL_MAY_I":
+      return callMayI(state, command.playerId);
+    case "ALLOW_MAY_I":
+      return allowMayI(state, command.playerId);
+    case "CLAIM_MAY_I":
+      return claimMayI(state, command.playerId);
+    case "REORDER_HAND":
+      return reorderPlayerHand(state, command.playerId, command.cardIds);
+  }
+
+  // The turn waits while a May I is being resolved
+  if (state.phase === "RESOLVING_MAY_I") {
+    return state;
+  }
+
+  // The round records these before the turn decides whether to accept them
+  let next = state;
+  if (command.type === "DRAW_FROM_STOCK" && !state.currentPlayerHasDrawnFromStock) {
+    next = { ...state, currentPlayerHasDrawnFromStock: true };
+  } else if (command.type === "DRAW_FROM_DISCARD" && !state.discardClaimed) {
+    next = { ...state, discardClaimed: true };
+  }
+
+  const step = reduceTurn(next, command);
+  if (step.ended === "wentOut") return endRound(step.state);
+  if (step.ended === "turnComplete") return advanceTurn(step.state);
+  return step.state;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Turn
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface TurnStep {
+  state: ReducerState;
+  /** How the turn ended, null while it goes on */
+  ended: "turnComplete" | "wentOut" | null;
+}
+
+function reduceTurn(state: ReducerState, command: JournalCommand): TurnStep {
+  const player = state.players[state.currentPlayerIndex]!;
+  const isTurnPlayer = command.playerId === player.id;
+  const stay = (next: ReducerState = state): TurnStep => ({ state: next, ended: null });
+
+  if (state.turnPhase === "AWAITING_DRAW") {
+    if (command.type === "DRAW_FROM_STOCK" && isTurnPlayer) {
+      if (state.stock.length === 0) {
+        return stay(withLastError(state, "stock is empty - reshuffle required"));
+      }
+      return stay(drawFromStock(state, player));
+    }
+    if (command.type === "DRAW_FROM_DISCARD" && isTurnPlayer) {
+      const card = state.discard[0];
+      if (player.isDown || !card) return stay();
+      const took = recordDiscardEvent(state, { playerId: player.id, card, action: "took" });
+      return stay(drawFromDiscard(took, player));
+    }
+    return stay();
+  }
+
+  if (command.type === "DISCARD") {
+    if (!isTurnPlayer || !player.hand.some((c) => c.id === command.cardId)) return stay();
+    return discardCard(state, player, command.cardId);
+  }
+  if (state.turnPhase !== "AWAITING_ACTION") {
+    return stay();
+  }
+
+  const contract = getContractForRound(state.currentRound, state.contracts)!;
+
+  switch (command.type) {
+    case "SKIP":
+      if (!isTurnPlayer) return stay();
+      return stay({ ...state, turnPhase: "AWAITING_DISCARD", lastError: null });
+
+    case "LAY_DOWN": {
+      if (!isTurnPlayer) return stay();
+      const goesOut = canLayDownAndGoOut(state, player, contract, command.melds);
+      if (goesOut || canLayDown(state, player, contract, command.melds)) {
+        const next = layDown(state, player, command.melds);
+        if (goesOut) return { state: next, ended: "wentOut" };
+        if (state.rules.allowLayOffOnLayDownTurn) return checkHandEmpty(next);
+        return stay({ ...next, turnPhase: "AWAITING_DISCARD" });
+      }
+      return stay(
+        withLastError(state, getLayDownError(errorContext(state, player), command.melds))
+      );
+    }
+
+    case "LAY_OFF": {
+      if (!isTurnPlayer) return stay();
+      if (!canLayOff(state, player, contract, command.cardId, command.meldId, command.position)) {
+        const error = getLayOffError(errorContext(state, player), command.cardId, command.meldId);
+        return stay(withLastError(state, error));
+      }
+      return checkHandEmpty(
+        layOff(state, player, command.cardId, command.meldId, command.position)
+      );
+    }
+
+    case "SWAP_JOKER": {
+      if (!isTurnPlayer) return stay();
+      const meld = state.table.find((m) => m.id === command.meldId);
+      const joker = meld?.cards.find((c) => c.id === command.jokerCardId);
+      const swapCard = player.hand.find((c) => c.id === command.swapCardId);
+      if (!meld || !joker || !swapCard) return stay();
+      if (!canSwapJoker(state, player, contract, meld, joker, swapCard)) return stay();
+      return stay(swapJoker(state, player, meld, joker, swapCard));
+    }
+
+    default:
+      return stay();
+  }
+}
+
+/**
+ * A lay down or lay off that empties the hand goes out at once
+ */
+function checkHandEmpty(state: ReducerState): TurnStep {
+  const hand = state.players[state.currentPlayerIndex]!.hand;
+  return { state, ended: hand.length === 0 ? "wentOut" : null };
+}
+
+function withLastError(state: ReducerState, lastError: string | null): ReducerState {
+  return state.lastError === lastError ? state : { ...state, lastError };
+}
+
+function errorContext(state: ReducerState, player: Player): TurnErrorContext {
+  return {
+    hand: player.hand,
+    isDown: player.isDown,
+    laidDownThisTurn: state.laidDownThisTurn,
+    table: state.table,
+    roundNumber: state.currentRound,
+    contract: getContractForRound(state.currentRound, state.contracts)!,
+    rules: state.rules,
+  };
+}
+
+function recordDiscardEvent(state: ReducerState, ...events: DiscardPileEvent[]): ReducerState {
+  return { ...state, discardHistory: [...state.discardHistory, ...events] };
+}
+
+function updatePlayer(state: ReducerState, playerId: string, changes: Partial<Player>): Player[] {
+  return state.players.map((p) => (p.id === playerId ? { ...p, ...changes } : p));
+}
+
+// ─────────────────────────────────────────────────────────────────────────
+// Guards (same checks as the turn machine's)
+// ─────────────────────────────────────────────────────────────────────────
+
+function meldsMeetContract(
+  state: ReducerState,
+  player: Player,
+  contract: Contract,
+  proposals: MeldProposal[]
+): boolean {
+  const melds = buildMeldsFromProposals(proposals, player.hand, player.id, state.rules);
+  if (!melds) return false;
+  return validMelds(melds, state.rules) && meetsContract(contract, melds, state.rules);
+}
+
+function canLayDownAndGoOut(
+  state: ReducerState,
+  player: Player,
+  contract: Contract,
+  proposals: MeldProposal[]
+): boolean {
+  if (player.isDown) return false;
+  if (!contract.mustUseAllCards && !state.rules.allowGoOutWithoutDiscard) return false;
+  const usedCardIds = new Set(proposals.flatMap((m) => m.cardIds));
+  if (usedCardIds.size !== player.hand.length) return false;
+  return meldsMeetContract(state, player, contract, proposals);
+}
+
+function canLayDown(
+  state: ReducerState,
+  player: Player,
+  contract: Contract,
+  proposals: MeldProposal[]
+): boolean {
+  if (contract.mustUseAllCards || player.isDown) return false;
+  const usedCardIds = new Set(proposals.flatMap((m) => m.cardIds));
+  if (!state.rules.allowGoOutWithoutDiscard && usedCardIds.size >= player.hand.length) {
+    return false;
+  }
+  return meldsMeetContract(state, player, contract, proposals);
+}
+
+function canLayOff(
+  state: ReducerState,
+  player: Player,
+  contract: Contract,
+  cardId: string,
+  meldId: string,
+  position: "start" | "end" | undefined
+): boolean {
+  if (contract.mustUseAllCards) return false;
+  const layOffContext = {
+    isDown: player.isDown,
+    laidDownThisTurn: state.laidDownThisTurn,
+    hasDrawn: state.hasDrawn,
+  };
+  if (!canLayOffCard(layOffContext, state.rules)) return false;
+  if (!state.rules.allowGoOutWithoutDiscard && player.hand.length <= 1) return false;
+
+  const card = player.hand.find((c) => c.id === cardId);
+  const meld = state.table.find((m) => m.id === meldId);
+  if (!card || !meld) return false;
+
+  if (meld.type === "set") return canLayOffToSet(card, meld);
+  if (!canLayOffToRun(card, meld)) return false;
+  return position === undefined || resolveRunInsertPosition(card, meld, position) !== null;
+}
+
+function canSwapJoker(
+  state: ReducerState,
+  player: Player,
+  contract: Contract,
+  meld: Meld,
+  joker: Card,
+  swapCard: Card
+): boolean {
+  if (contract.mustUseAllCards) return false;
+  if (player.isDown && !state.rules.allowJokerSwapAfterDown) return false;
+  if (meld.type !== "run" && !state.rules.allowJokerSwapFromSets) return false;
+  if (joker.rank !== "Joker") return false;
+  return canSwapJokerWithCard(meld, joker, swapCard, {
+    allowSetSwaps: state.rules.allowJokerSwapFromSets,
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────
+// Actions
+// ─────────────────────────────────────────────────────────────────────────
+
+function drawFromStock(state: ReducerState, player: Player): ReducerState {
+  // Passing on the top discard is public, unless a down player could not take it
+  const passed = state.discard[0];
+  const { discardHistory } =
+    passed && !player.isDown
+      ? recordDiscardEvent(state, { playerId: player.id, card: passed, action: "passed" })
+      : state;
+
+  let stock = state.stock.slice(1);
+  let discard = state.discard;
+  // The stock is never left empty while the discard can replenish it
+  if (stock.length === 0 && discard.length > 1) {
+    ({ stock, discard } = reshuffleDiscard(state.roundSeed, discard));
+  }
+
+  return {
+    ...state,
+    discardHistory,
+    players: updatePlayer(state, player.id, { hand: [...player.hand, state.stock[0]!] }),
+    stock,
+    discard,
+    turnPhase: "AWAITING_ACTION",
+    hasDrawn: true,
+    lastError: null,
+  };
+}
+
+function drawFromDiscard(state: ReducerState, player: Player): ReducerState {
+  return {
+    ...state,
+    players: updatePlayer(state, player.id, { hand: [...player.hand, state.discard[0]!] }),
+    discard: state.discard.slice(1),
+    turnPhase: "AWAITING_ACTION",
+    hasDrawn: true,
+    lastError: null,
+  };
+}
+
+function discardCard(state: ReducerState, player: Player, cardId: string): TurnStep {
+  const card = player.hand.find((c) => c.id === cardId)!;
+  return {
+    state: {
+      ...state,
+      players: updatePlayer(state, player.id, {
+        hand: player.hand.filter((c) => c.id !== cardId),
+      }),
+      discard: [card, ...state.discard],
+      lastError: null,
+    },
+    ended: player.hand.length === 1 ? "wentOut" : "turnComplete",
+  };
+}
+
+function layDown(state: ReducerState, player: Player, proposals: MeldProposal[]): ReducerState {
+  const usedCardIds = new Set(proposals.flatMap((m) => m.cardIds));
+  const melds = proposals.map((proposal, i): Meld => {
+    let cards = proposal.cardIds
+      .map((id) => player.hand.find((c) => c.id === id))
+      .filter((c): c is Card => c !== undefined);
+    if (proposal.type === "run") {
+      const normalized = normalizeRunCards(cards, getLayDownValidationOptions(state.rules));
+      if (normalized.success) cards = normalized.cards;
+    }
+    return {
+      id: `meld-${player.id}-${state.table.length + i}`,
+      type: proposal.type,
+      cards,
+      ownerId: player.id,
+    };
+  });
+
+  return {
+    ...state,
+    players: updatePlayer(state, player.id, {
+      hand: player.hand.filter((c) => !usedCardIds.has(c.id)),
+      isDown: true,
+    }),
+    table: [...state.table, ...melds],
+    laidDownThisTurn: true,
+    tookActionThisTurn: true,
+    lastError: null,
+  };
+}
+
+function layOff(
+  state: ReducerState,
+  player: Player,
+  cardId: string,
+  meldId: string,
+  position: "start" | "end" | undefined
+): ReducerState {
+  const card = player.hand.find((c) => c.id === cardId)!;
+  const table = state.table.map((meld) => {
+    if (meld.id !== meldId) return meld;
+    if (meld.type === "run" && resolveRunInsertPosition(card, meld, position) === "start") {
+      return { ...meld, cards: [card, ...meld.cards] };
+    }
+    return { ...meld, cards: [...meld.cards, card] };
+  });
+
+  return {
+    ...state,
+    players: updatePlayer(state, player.id, { hand: player.hand.filter((c) => c.id !== cardId) }),
+    table,
+    tookActionThisTurn: true,
+    lastError: null,
+  };
+}
+
+function swapJoker(
+  state: ReducerState,
+  player: Player,
+  meld: Meld,
+  joker: Card,
+  swapCard: Card
+): ReducerState {
+  const cards = meld.cards.map((c) => (c.id === joker.id ? swapCard : c));
+  return {
+    ...state,
+    players: updatePlayer(state, player.id, {
+      hand: [...player.hand.filter((c) => c.id !== swapCard.id), joker],
+    }),
+    table: state.table.map((m) => (m.id === meld.id ? { ...m, cards } : m)),
+    tookActionThisTurn: true,
+    lastError: null,
+  };
+}
+
+/**
+ * Shuffle all but the exposed discard into the stock
+ */
+function reshuffleDiscard(
+  roundSeed: string | null,
+  discard: Card[]
+): { stock: Card[]; discard: Card[] } {
+  const top = discard[0];
+  const cardsToReshuffle = discard.slice(1);
+  const seed = deriveReshuffleSeed(roundSeed, top?.id, cardsToReshuffle.length);
+  return {
+    stock: shuffle(cardsToReshuffle, createRandomSource(seed)),
+    discard: top ? [top] : [],
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Round and Game
+// ═══════════════════════════════════════════════════════════════════════════
+
+function newTurn(state: ReducerState): ReducerState {
+  return {
+    ...state,
+    phase: "ROUND_ACTIVE",
+    turnPhase: "AWAITING_DRAW",
+    discardClaimed: false,
+    currentPlayerHasDrawnFromStock: false,
+    hasDrawn: false,
+    laidDownThisTurn: false,
+    tookActionThisTurn: false,
+    mayIContext: null,
+    lastError: null,
+  };
+}
+
+function advanceTurn(state: ReducerState): ReducerState {
+  const playerId = state.players[state.currentPlayerIndex]!.id;
+  const discarded = recordDiscardEvent(state, {
+    playerId,
+    card: state.discard[0]!,
+    action: "discarded",
+  });
+
+  return newTurn({
+    ...discarded,
+    lastDiscardedByPlayerId: playerId,
+    currentPlayerIndex: (state.currentPlayerIndex + 1) % state.players.length,
+    turnNumber: state.turnNumber + 1,
+  });
+}
+
+/**
+ * The current player went out: score the round, then deal the next one or
+ * end the game
+ */
+function endRound(state: ReducerState): ReducerState {
+  const winnerId = state.players[state.currentPlayerIndex]!.id;
+  const scores = Object.fromEntries(
+    state.players.map((p) => [p.id, p.id === winnerId ? 0 : calculateHandScore(p.hand)])
+  );
+  const players = state.players.map((p) => ({
+    ...p,
+    hand: [],
+    isDown: false,
+    totalScore: p.totalScore + (scores[p.id] || 0),
+  }));
+  const roundHistory = [
+    ...state.roundHistory,
+    { roundNumber: state.currentRound, scores, winnerId },
+  ];
+
+  if (state.currentRound >= state.contracts.length) {
+    return {
+      ...newTurn({ ...state, players, roundHistory }),
+      phase: "GAME_END",
+      roundSeed: null,
+      currentPlayerIndex: 0,
+      turnNumber: 1,
+      stock: [],
+      discard: [],
+      table: [],
+      discardHistory: [],
+      lastDiscardedByPlayerId: null,
+    };
+  }
+
+  return dealRound({
+    ...state,
+    players,
+    roundHistory,
+    currentRound: state.currentRound + 1,
+    dealerIndex: (state.dealerIndex + 1) % state.players.length,
+  });
+}
+
+function dealRound(state: ReducerState): ReducerState {
+  const roundSeed = deriveSeed(state.seed, "round", state.currentRound);
+  const contract = getContractForRound(state.currentRound, state.contracts)!;
+  const playerCount = state.players.length;
+  const dealt = dealNewRound(
+    getDeckConfig(playerCount),
+    playerCount,
+    createRandomSource(roundSeed),
+    contract.cardsDealt
+  );
+
+  return newTurn({
+    ...state,
+    roundSeed,
+    players: state.players.map((p, i) => ({ ...p, hand: dealt.hands[i]!, isDown: false })),
+    currentPlayerIndex: (state.dealerIndex + 1) % playerCount,
+    turnNumber: 1,
+    stock: dealt.stock,
+    discard: dealt.discard,
+    table: [],
+    discardHistory: [],
+    lastDiscardedByPlayerId: null,
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// May I
+// ═══════════════════════════════════════════════════════════════════════════
+
+function callMayI(state: ReducerState, playerId: string): ReducerState {
+  if (state.phase !== "ROUND_ACTIVE") return state;
+  if (getMayICallBlock(state, playerId) !== null) return state;
+
+  const callerIndex = state.players.findIndex((p) => p.id === playerId);
+
+  // Players between the current player and the caller get to answer first
+  const playersToCheck: string[] = [];
+  for (let i = 0; i < state.players.length; i++) {
+    const index = (state.currentPlayerIndex + i) % state.players.length;
+    if (index === callerIndex) break;
+    const player = state.players[index]!;
+    if (player.isDown) continue;
+    if (index === state.currentPlayerIndex && state.currentPlayerHasDrawnFromStock) continue;
+    playersToCheck.push(player.id);
+  }
+
+  const mayIContext: MayIContext = {
+    originalCaller: playerId,
+    cardBeingClaimed: state.discard[0]!,
+    playersToCheck,
+    currentPromptIndex: 0,
+    playerBeingPrompted: playersToCheck[0] ?? null,
+    playersWhoAllowed: [],
+    winner: null,
+    outcome: null,
+  };
+
+  if (playersToCheck.length === 0) {
+    return grantMayI(state, { ...mayIContext, winner: playerId, outcome: "caller_won" });
+  }
+  return { ...state, phase: "RESOLVING_MAY_I", mayIContext };
+}
+
+function allowMayI(state: ReducerState, playerId: string): ReducerState {
+  const mayI = state.mayIContext;
+  if (state.phase !== "RESOLVING_MAY_I" || !mayI) return state;
+  if (mayI.playerBeingPrompted !== playerId) return state;
+
+  const currentPromptIndex = mayI.currentPromptIndex + 1;
+  const next: MayIContext = {
+    ...mayI,
+    playersWhoAllowed: [...mayI.playersWhoAllowed, playerId],
+    currentPromptIndex,
+    playerBeingPrompted: mayI.playersToCheck[currentPromptIndex] ?? null,
+  };
+
+  if (currentPromptIndex >= mayI.playersToCheck.length) {
+    return grantMayI(state, {
+      ...next,
+      winner: mayI.originalCaller,
+      outcome: "caller_won",
+      playerBeingPrompted: null,
+    });
+  }
+  return { ...state, mayIContext: next };
+}
+
+function claimMayI(state: ReducerState, playerId: string): ReducerState {
+  const mayI = state.mayIContext;
+  if (state.phase !== "RESOLVING_MAY_I" || !mayI) return state;
+
+  // The current player may take the card as their draw at any point, penalty free.
+  // They have not drawn yet: drawing from the discard would have ended the May I.
+  const current = state.players[state.currentPlayerIndex]!;
+  if (canCurrentPlayerClaimMayI(state, playerId, state.currentPlayerHasDrawnFromStock)) {
+    return grantMayI(drawFromDiscard(state, current), {
+      ...mayI,
+      winner: playerId,
+      outcome: "current_player_claimed",
+      playerBeingPrompted: null,
+    });
+  }
+
+  if (mayI.playerBeingPrompted !== playerId) return state;
+  return grantMayI(state, {
+    ...mayI,
+    winner: playerId,
+    outcome: "blocked",
+    playerBeingPrompted: null,
+  });
+}
+
+/**
+ * Give the claimed card to the winner, plus penalty cards unless the current
+ * player claimed it as their draw
+ */
+function grantMayI(state: ReducerState, resolution: MayIContext): ReducerState {
+  const claimed = resolution.cardBeingClaimed;
+  let discard = state.discard.filter((c) => c.id !== claimed.id);
+  let stock = state.stock.filter((c) => c.id !== claimed.id);
+  let players = state.players;
+
+  if (resolution.outcome !== "current_player_claimed") {
+    const replenish = () => {
+      if (stock.length === 0 && discard.length > 1) {
+        ({ stock, discard } = reshuffleDiscard(state.roundSeed, discard));
+      }
+    };
+
+    const cards = [claimed];
+    for (let i = 0; i < state.rules.mayIPenaltyCards; i++) {
+      replenish();
+      const penaltyCard = stock[0];
+      if (!penaltyCard) break;
+      cards.push(penaltyCard);
+      stock = stock.slice(1);
+    }
+    replenish();
+
+    players = players.map((p) =>
+      p.id === resolution.winner ? { ...p, hand: [...p.hand, ...cards] } : p
+    );
+  }
+
+  const { discardHistory } = recordDiscardEvent(
+    state,
+    ...resolution.playersWhoAllowed.map((playerId): DiscardPileEvent => ({
+      playerId,
+      card: claimed,
+      action: "passed",
+    })),
+    {
+      playerId: resolution.winner!,
+      card: claimed,
+      action: resolution.outcome === "current_player_claimed" ? "took" : "may_i",
+    }
+  );
+
+  return {
+    ...state,
+    discardHistory,
+    phase: "ROUND_ACTIVE",
+    players,
+    stock,
+    discard,
+    discardClaimed: true,
+    mayIContext: null,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Free Actions
+// ═══════════════════════════════════════════════════════════════════════════
+
+function reorderPlayerHand(state: ReducerState, playerId: string, cardIds: string[]): ReducerState {
+  if (state.phase !== "ROUND_ACTIVE") return state;
+  const player = state.players.find((p) => p.id === playerId);
+  if (!player) return state;
+
+  const result = reorderHand(player.hand, cardIds);
+  if (!result.success) return state;
+  return { ...state, players: updatePlayer(state, playerId, { hand: result.hand }) };
+}
@@ -0,0 +1,87 @@
+/**
+ * Tests for seeded (deterministic) dealing and reshuffling in GameEngine
+ */
+
+import { describe, it, expect } from "bun:test";
+import { GameEngine } from "./game-engine";
+import type { GameSnapshot } from "./game-engine.types";
+
+const PLAYERS = ["Alice", "Bob", "Carol"];
+
+function dealSignature(snapshot: GameSnapshot) {
+  return {
+    hands: snapshot.players.map((p) => p.hand.map((c) => c.id)),
+    stock: snapshot.stock.map((c) => c.id),
+    discard: snapshot.discard.map((c) => c.id),
+  };
+}
+
+/** Every player draws from stock and discards their first card */
+function playStockTurns(engine: GameEngine, turns: number): void {
+  for (let i = 0; i < turns; i++) {
+    const snapshot = engine.getSnapshot();
+    const playerId = snapshot.awaitingPlayerId;
+    const afterDraw = engine.drawFromStock(playerId);
+    const player = afterDraw.players.find((p) => p.id === playerId)!;
+    engine.discard(playerId, player.hand[0]!.id);
+  }
+}
+
+describe("GameEngine seeded dealing", () => {
+  it("deals identical hands for the same seed and players", () => {
+    const a = GameEngine.createGame({ playerNames: PLAYERS, seed: "tournament-1" });
+    const b = GameEngine.createGame({ playerNames: PLAYERS, seed: "tournament-1" });
+
+    expect(dealSignature(a.getSnapshot())).toEqual(dealSignature(b.getSnapshot()));
+  });
+
+  it("deals different hands for different seeds", () => {
+    const a = GameEngine.createGame({ playerNames: PLAYERS, seed: "seed-a" });
+    const b = GameEngine.createGame({ playerNames: PLAYERS, seed: "seed-b" });
+
+    expect(dealSignature(a.getSnapshot())).not.toEqual(dealSignature(b.getSnapshot()));
+  });
+
+  it("stores the game seed and the derived round seed in the snapshot", () => {
+    const engine = GameEngine.createGame({
+      playerNames: PLAYERS,
+      seed: "bug-report",
+      startingRound: 3,
+    });
+
+    const snapshot = engine.getSnapshot();
+    expect(snapshot.seed).toBe("bug-report");
+    expect(snapshot.roundSeed).toBe("bug-report:round:3");
+  });
+
+  it("generates a seed when none is given so any game can be reproduced", () => {
+    const engine = GameEngine.createGame({ playerNames: PLAYERS });
+    const snapshot = engine.getSnapshot();
+    expect(snapshot.seed).toEqual(expect.any(String));
+
+    const replay = GameEngine.createGame({ playerNames: PLAYERS, seed: snapshot.seed! });
+    expect(dealSignature(replay.getSnapshot())).toEqual(dealSignature(snapshot));
+  });
+
+  it("reshuffles the stock identically for the same seed", () => {
+    const a = GameEngine.createGame({ playerNames: PLAYERS, seed: "reshuffle" });
+    const b = GameEngine.createGame({ playerNames: PLAYERS, seed: "reshuffle" });
+
+    // 108 - 33 dealt - 1 discard = 74 stock cards; play past depletion
+    playStockTurns(a, 80);
+    playStockTurns(b, 80);
+
+    expect(dealSignature(a.getSnapshot())).toEqual(dealSignature(b.getSnapshot()));
+  });
+
+  it("keeps reshuffles deterministic across persistence round-trips", () => {
+    const live = GameEngine.createGame({ playerNames: PLAYERS, seed: "persisted" });
+    playStockTurns(live, 40);
+
+    const restored = GameEngine.fromJSON(live.toJSON());
+    playStockTurns(live, 40);
+    playStockTurns(restored, 40);
+
+    expect(dealSignature(restored.getSnapshot())).toEqual(dealSignature(live.getSnapshot()));
+  });
+});
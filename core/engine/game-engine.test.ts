@@ -66,6 +66,8 @@ describe("GameEngine", () => {
         roundNumber: 1,
         sets: 2,
         runs: 0,
+        cardsDealt: 11,
+        mustUseAllCards: false,
       });
     });
 
@@ -81,6 +83,8 @@ describe("GameEngine", () => {
         roundNumber: 6,
         sets: 1,
         runs: 2,
+        cardsDealt: 11,
+        mustUseAllCards: true,
       });
     });
 
@@ -152,6 +156,20 @@ describe("GameEngine", () => {
       expect(snapshot.awaitingPlayerId).toBe(snapshot.players[1]!.id);
     });
 
+    it("starts with the given dealer and rejects one outside the table", () => {
+      const engine = GameEngine.createGame({
+        playerNames: ["Alice", "Bob", "Carol"],
+        dealerIndex: 2,
+      });
+
+      const snapshot = engine.getSnapshot();
+      expect(snapshot.dealerIndex).toBe(2);
+      expect(snapshot.currentPlayerIndex).toBe(0); // Left of dealer wraps around
+      expect(() =>
+        GameEngine.createGame({ playerNames: ["Alice", "Bob", "Carol"], dealerIndex: 3 })
+      ).toThrow("Dealer index must be between 0 and 2");
+    });
+
     it("uses provided gameId when specified", () => {
       const engine = GameEngine.createGame({
         playerNames: ["Alice", "Bob", "Carol"],
@@ -489,7 +507,53 @@ describe("GameEngine", () => {
         roundNumber: 4,
         sets: 3,
         runs: 0,
+        cardsDealt: 11,
+        mustUseAllCards: false,
+      });
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // getSpectatorView (Information Hiding)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  describe("getSpectatorView", () => {
+    it("lists every player in turn order with hand counts but no hands", () => {
+      const engine = GameEngine.createGame({
+        playerNames: ["Alice", "Bob", "Carol"],
+        dealerIndex: 0,
       });
+
+      const view = engine.getSpectatorView();
+
+      expect(view.players.map((p) => p.name)).toEqual(["Alice", "Bob", "Carol"]);
+      for (const player of view.players) {
+        expect(player.handCount).toBe(11);
+        expect((player as unknown as { hand?: unknown }).hand).toBeUndefined();
+      }
+      expect(view.players[0]!.isDealer).toBe(true);
+      expect(view.players[1]!.isCurrentPlayer).toBe(true);
+      expect(Object.keys(view)).not.toContain("yourHand");
+      expect(Object.keys(view)).not.toContain("cardKnowledge");
+    });
+
+    it("shows public game state correctly", () => {
+      const engine = GameEngine.createGame({
+        playerNames: ["Alice", "Bob", "Carol"],
+      });
+
+      const snapshot = engine.getSnapshot();
+      const view = engine.getSpectatorView();
+
+      expect(view.gameId).toBe(snapshot.gameId);
+      expect(view.currentRound).toBe(1);
+      expect(view.phase).toBe("ROUND_ACTIVE");
+      expect(view.turnPhase).toBe("AWAITING_DRAW");
+      expect(view.awaitingPlayerId).toBe(snapshot.awaitingPlayerId);
+      expect(view.stockCount).toBe(snapshot.stock.length);
+      expect(view.discardCount).toBe(1);
+      expect(view.topDiscard).toEqual(snapshot.discard[0] ?? null);
+      expect(view.table).toEqual([]);
     });
   });
 
@@ -6,31 +6,51 @@
  *
  * 1. ID-based commands (not position-based)
  * 2. Full serialization/hydration support
- * 3. PlayerView with per-player information hiding
+ * 3. PlayerView with per-player information hiding (and a hand-free SpectatorView)
  * 4. Zero Node.js dependencies (runs on Cloudflare Workers)
+ * 5. An append-only command journal that can replay the game
  *
  * All game logic lives in the XState machines - this is just a wrapper.
  */
 
 import { createActor, type Snapshot } from "xstate";
 import { gameMachine, type GameContext, type GameEvent } from "./game.machine";
-import { CONTRACTS, getContractForRound } from "./contracts";
+import {
+  DEFAULT_CONTRACTS,
+  createContractSequence,
+  getContractForRound,
+} from "./contracts";
+import { resolveRuleSet } from "./house-rules";
+import { getDeckConfig, type RoundContext as RoundMachineContext } from "./round.machine";
+import type { TurnContext as TurnMachineContext } from "./turn.machine";
 import type { Card } from "../card/card.types";
 import type { Meld } from "../meld/meld.types";
-import type { MayIResolution, Player, RoundNumber, RoundRecord } from "./engine.types";
+import type {
+  DiscardPileEvent,
+  MayIResolution,
+  Player,
+  RoundNumber,
+  RoundRecord,
+} from "./engine.types";
 import type {
   GameSnapshot,
   PlayerView,
-  OpponentInfo,
+  SpectatorView,
   CommandResult,
+  CommandOutcome,
   MeldSpec,
   CreateGameOptions,
   EnginePhase,
   TurnPhase,
   MayIContext,
+  GameJournal,
+  JournalCommand,
+  JournalEntry,
 } from "./game-engine.types";
 import type { Contract } from "./contracts";
-import { getActionAvailabilityDetails } from "./game-engine.availability";
+import { createPlayerView, createSpectatorView } from "./game-engine.view";
+import { getCommandOutcome } from "./game-engine.outcome";
+import { fromGameSnapshot, type ReducerState } from "./game-engine.reducer";
 
 /**
  * Type for XState's persisted snapshot structure
@@ -88,6 +108,9 @@ interface RoundContext {
   lastDiscardedByPlayerId: string | null;
   mayIResolution: MayIResolution | null;
   discardClaimed: boolean;
+  currentPlayerHasDrawnFromStock?: boolean;
+  discardHistory?: DiscardPileEvent[];
+  seed?: string | null;
 }
 
 interface TurnContext {
@@ -105,6 +128,167 @@ interface TurnContext {
 
 // Note: MayIWindowContext removed - May I is now handled at round level
 
+/**
+ * Translate a journal command into the game machine event
+ */
+function toGameEvent(command: JournalCommand): GameEvent {
+  switch (command.type) {
+    case "SKIP":
+      return { type: "SKIP_LAY_DOWN", playerId: command.playerId };
+    case "LAY_DOWN":
+      return { type: "LAY_DOWN", playerId: command.playerId, melds: command.melds };
+    case "REORDER_HAND":
+      return { type: "REORDER_HAND", playerId: command.playerId, newOrder: command.cardIds };
+    default:
+      return command;
+  }
+}
+
+const TURN_STATES: Record<TurnPhase, string> = {
+  AWAITING_DRAW: "awaitingDraw",
+  AWAITING_ACTION: "drawn",
+  AWAITING_DISCARD: "awaitingDiscard",
+};
+
+/**
+ * Rebuild the game, round and turn actor snapshots for a reducer state.
+ *
+ * Between commands the round's copies of the piles and of the current
+ * player's hand only matter where they agree with the turn's, so both
+ * machines get the same cards.
+ */
+function toPersistedSnapshot(state: ReducerState): PersistedSnapshot {
+  const gameContext: GameContext = {
+    gameId: "",
+    players: state.players.map((p) => ({ ...p, hand: [], isDown: false })),
+    currentRound: state.currentRound,
+    dealerIndex: state.dealerIndex,
+    roundHistory: state.roundHistory,
+    winners: [],
+    lastError: null,
+    seed: state.seed,
+    rules: state.rules,
+    contracts: state.contracts,
+  };
+
+  if (state.phase === "GAME_END") {
+    const minScore = Math.min(...state.players.map((p) => p.totalScore));
+    const winners = state.players.filter((p) => p.totalScore === minScore).map((p) => p.id);
+    return {
+      status: "done",
+      output: {
+        finalScores: Object.fromEntries(state.players.map((p) => [p.id, p.totalScore])),
+        winners,
+        roundHistory: state.roundHistory,
+      },
+      value: "gameEnd",
+      historyValue: {},
+      context: { ...gameContext, winners },
+      children: {},
+    } as unknown as PersistedSnapshot;
+  }
+
+  const current = state.players[state.currentPlayerIndex]!;
+  const contract = getContractForRound(state.currentRound, state.contracts)!;
+
+  const turnContext: TurnMachineContext = {
+    playerId: current.id,
+    hand: current.hand,
+    stock: state.stock,
+    discard: state.discard,
+    hasDrawn: state.hasDrawn,
+    roundNumber: state.currentRound,
+    contract,
+    isDown: current.isDown,
+    laidDownThisTurn: state.laidDownThisTurn,
+    tookActionThisTurn: state.tookActionThisTurn,
+    table: state.table,
+    lastError: state.lastError,
+    playerOrder: state.players.map((p) => p.id),
+    playerDownStatus: Object.fromEntries(state.players.map((p) => [p.id, p.isDown])),
+    lastDiscardedByPlayerId: state.lastDiscardedByPlayerId,
+    seed: state.roundSeed,
+    rules: state.rules,
+  };
+
+  const roundContext: RoundMachineContext = {
+    roundNumber: state.currentRound,
+    contract,
+    players: state.players,
+    currentPlayerIndex: state.currentPlayerIndex,
+    dealerIndex: state.dealerIndex,
+    stock: state.stock,
+    discard: state.discard,
+    table: state.table,
+    winnerPlayerId: null,
+    turnNumber: state.turnNumber,
+    lastDiscardedByPlayerId: state.lastDiscardedByPlayerId,
+    predefinedState: null,
+    mayIResolution: state.mayIContext,
+    discardClaimed: state.discardClaimed,
+    currentPlayerHasDrawnFromStock: state.currentPlayerHasDrawnFromStock,
+    discardHistory: state.discardHistory,
+    seed: state.roundSeed,
+    rules: state.rules,
+  };
+
+  const activeState =
+    state.phase === "RESOLVING_MAY_I" ? { resolvingMayI: "waitingForResponse" } : "playing";
+
+  return {
+    status: "active",
+    value: "playing",
+    historyValue: {},
+    context: gameContext,
+    children: {
+      round: {
+        snapshot: {
+          status: "active",
+          value: { active: activeState },
+          historyValue: {},
+          context: roundContext,
+          children: {
+            turn: {
+              snapshot: {
+                status: "active",
+                value: TURN_STATES[state.turnPhase],
+                historyValue: {},
+                context: turnContext,
+                children: {},
+              },
+              src: "turnMachine",
+              syncSnapshot: false,
+            },
+          },
+        },
+        src: "roundMachine",
+        syncSnapshot: false,
+      },
+    },
+  } as unknown as PersistedSnapshot;
+}
+
+/**
+ * Cards that moved from the stock or discard pile into any hand between two
+ * snapshots. A new deal is not a draw, so nothing is reported across rounds.
+ */
+function findDrawnCards(before: GameSnapshot, after: GameSnapshot): Card[] {
+  if (before.currentRound !== after.currentRound) {
+    return [];
+  }
+
+  const pileIds = new Set([...before.stock, ...before.discard].map((c) => c.id));
+  const drawn: Card[] = [];
+  for (const player of after.players) {
+    for (const card of player.hand) {
+      if (pileIds.has(card.id)) {
+        drawn.push(card);
+      }
+    }
+  }
+  return drawn;
+}
+
 /**
  * GameEngine - Thin wrapper around XState actor
  *
@@ -129,15 +313,19 @@ export class GameEngine {
   private actor: ReturnType<typeof createActor<typeof gameMachine>>;
   private gameId: string;
   private createdAt: string;
+  /** Command journal, null for games restored without one (nothing to replay from) */
+  private journal: GameJournal | null;
 
   private constructor(
     actor: ReturnType<typeof createActor<typeof gameMachine>>,
     gameId: string,
-    createdAt: string
+    createdAt: string,
+    journal: GameJournal | null = null
   ) {
     this.actor = actor;
     this.gameId = gameId;
     this.createdAt = createdAt;
+    this.journal = journal;
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -152,15 +340,40 @@ export class GameEngine {
       playerNames,
       startingRound = 1,
       gameId = crypto.randomUUID(),
+      seed = crypto.randomUUID(),
+      rules,
+      dealerIndex = 0,
     } = options;
 
     if (playerNames.length < 3 || playerNames.length > 8) {
       throw new Error("Game requires 3-8 players");
     }
 
+    if (!Number.isInteger(dealerIndex) || dealerIndex < 0 || dealerIndex >= playerNames.length) {
+      throw new Error(`Dealer index must be between 0 and ${playerNames.length - 1}`);
+    }
+
+    const contracts = options.contracts
+      ? createContractSequence(options.contracts)
+      : DEFAULT_CONTRACTS;
+
+    if (!getContractForRound(startingRound, contracts)) {
+      throw new Error(`Starting round must be between 1 and ${contracts.length}`);
+    }
+
+    const { deckCount, jokerCount } = getDeckConfig(playerNames.length);
+    const deckSize = deckCount * 52 + jokerCount;
+    for (const contract of contracts) {
+      if (playerNames.length * contract.cardsDealt + 1 > deckSize) {
+        throw new Error(
+          `Round ${contract.roundNumber}: not enough cards to deal ${contract.cardsDealt} to ${playerNames.length} players`
+        );
+      }
+    }
+
     // Create actor with starting round input
     const actor = createActor(gameMachine, {
-      input: { startingRound: startingRound as RoundNumber },
+      input: { startingRound: startingRound as RoundNumber, dealerIndex, seed, rules, contracts },
     });
     actor.start();
 
@@ -172,8 +385,14 @@ export class GameEngine {
     // Start game
     actor.send({ type: "START_GAME" });
 
+    // Record the resolved options so the journal can be replayed
+    const journal: GameJournal = {
+      options: { ...options, startingRound, gameId, seed },
+      entries: [],
+    };
+
     const now = new Date().toISOString();
-    return new GameEngine(actor, gameId, now);
+    return new GameEngine(actor, gameId, now, journal);
   }
 
   /**
@@ -184,7 +403,8 @@ export class GameEngine {
   static fromPersistedSnapshot(
     persistedSnapshot: PersistedSnapshot,
     gameId: string = crypto.randomUUID(),
-    createdAt: string = new Date().toISOString()
+    createdAt: string = new Date().toISOString(),
+    journal: GameJournal | null = null
   ): GameEngine {
     // When restoring from snapshot, input is required but ignored (snapshot state takes precedence)
     const actor = createActor(gameMachine, {
@@ -193,15 +413,67 @@ export class GameEngine {
     });
     actor.start();
 
-    return new GameEngine(actor, gameId, createdAt);
+    return new GameEngine(actor, gameId, createdAt, journal);
   }
 
   /**
    * Restore from a JSON string (convenience method)
    */
-  static fromJSON(json: string, gameId?: string, createdAt?: string): GameEngine {
+  static fromJSON(
+    json: string,
+    gameId?: string,
+    createdAt?: string,
+    journal?: GameJournal | null
+  ): GameEngine {
     const persistedSnapshot = JSON.parse(json);
-    return GameEngine.fromPersistedSnapshot(persistedSnapshot, gameId, createdAt);
+    return GameEngine.fromPersistedSnapshot(persistedSnapshot, gameId, createdAt, journal);
+  }
+
+  /**
+   * Restore a game from a reducer state, e.g. to continue a simulated game
+   * with the machines. Like a persisted snapshot, it has no journal.
+   */
+  static fromReducerState(
+    state: ReducerState,
+    gameId: string = crypto.randomUUID(),
+    createdAt: string = new Date().toISOString()
+  ): GameEngine {
+    return GameEngine.fromPersistedSnapshot(toPersistedSnapshot(state), gameId, createdAt);
+  }
+
+  /**
+   * Rebuild a game by replaying its journal from the creation options.
+   *
+   * Pass a prefix of the journal (e.g. `entries.slice(0, n)`) to rebuild the
+   * game as it stood after any command.
+   *
+   * @throws Error if a replayed command no longer produces the recorded phase
+   *   or draws (the options or engine rules differ from the original game)
+   */
+  static replay(initialOptions: CreateGameOptions, journal: JournalEntry[]): GameEngine {
+    if (!initialOptions.seed || !initialOptions.gameId) {
+      throw new Error("Replay requires the original gameId and seed");
+    }
+
+    const engine = GameEngine.createGame(initialOptions);
+
+    for (const recorded of journal) {
+      engine.execute(recorded.command, recorded.executedAt);
+      const replayed = engine.journal!.entries.at(-1)!;
+
+      const drawnIds = (entry: JournalEntry) => entry.drawnCards.map((c) => c.id).join(",");
+      if (
+        replayed.phase !== recorded.phase ||
+        replayed.turnPhase !== recorded.turnPhase ||
+        drawnIds(replayed) !== drawnIds(recorded)
+      ) {
+        throw new Error(
+          `Replay diverged at journal entry ${recorded.seq} (${recorded.command.type})`
+        );
+      }
+    }
+
+    return engine;
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -225,6 +497,14 @@ export class GameEngine {
     return JSON.stringify(this.getPersistedSnapshot());
   }
 
+  /**
+   * Get the command journal (null when the game was restored without one)
+   */
+  getJournal(): GameJournal | null {
+    if (!this.journal) return null;
+    return { options: this.journal.options, entries: [...this.journal.entries] };
+  }
+
   /**
    * Get our custom GameSnapshot format (extracted from XState state)
    */
@@ -232,58 +512,32 @@ export class GameEngine {
     return this.extractGameSnapshot();
   }
 
+  /**
+   * Export the game for the pure reducer (see game-engine.reducer.ts)
+   */
+  toReducerState(): ReducerState {
+    const persistedSnapshot = this.actor.getPersistedSnapshot() as any;
+    const roundContext = persistedSnapshot.children?.round?.snapshot?.context as
+      | RoundContext
+      | undefined;
+    return fromGameSnapshot(
+      this.getSnapshot(),
+      roundContext?.currentPlayerHasDrawnFromStock ?? false
+    );
+  }
+
   /**
    * Get a player-specific view (hides other players' hands)
    */
   getPlayerView(playerId: string): PlayerView {
-    const snapshot = this.getSnapshot();
-    const player = snapshot.players.find((p) => p.id === playerId);
-    if (!player) {
-      throw new Error("Player not found");
-    }
-
-    const opponents: OpponentInfo[] = snapshot.players
-      .filter((p) => p.id !== playerId)
-      .map((p) => ({
-        id: p.id,
-        name: p.name,
-        avatarId: p.avatarId,
-        handCount: p.hand.length,
-        isDown: p.isDown,
-        totalScore: p.totalScore,
-        isDealer: snapshot.players[snapshot.dealerIndex]?.id === p.id,
-        isCurrentPlayer: snapshot.players[snapshot.currentPlayerIndex]?.id === p.id,
-      }));
-
-    const actionAvailability = getActionAvailabilityDetails(snapshot, playerId);
+    return createPlayerView(this.getSnapshot(), playerId);
+  }
 
-    return {
-      gameId: snapshot.gameId,
-      viewingPlayerId: playerId,
-      yourName: player.name,
-      yourAvatarId: player.avatarId,
-      yourHand: [...player.hand],
-      isYourTurn: snapshot.awaitingPlayerId === playerId,
-      youAreDown: player.isDown,
-      yourTotalScore: player.totalScore,
-      opponents,
-      currentRound: snapshot.currentRound,
-      contract: snapshot.contract,
-      phase: snapshot.phase,
-      turnPhase: snapshot.turnPhase,
-      turnNumber: snapshot.turnNumber,
-      awaitingPlayerId: snapshot.awaitingPlayerId,
-      stockCount: snapshot.stock.length,
-      topDiscard: snapshot.discard[0] ?? null,
-      discardCount: snapshot.discard.length,
-      table: [...snapshot.table],
-      roundHistory: [...snapshot.roundHistory],
-      mayIContext: snapshot.mayIContext ? { ...snapshot.mayIContext } : null,
-      availableActions: actionAvailability.availableActions,
-      actionStates: actionAvailability.actionStates,
-      unavailabilityHints: actionAvailability.unavailabilityHints,
-      turnOrder: snapshot.players.map((p) => p.id),
-    };
+  /**
+   * Get the public view for spectators (hides every hand)
+   */
+  getSpectatorView(): SpectatorView {
+    return createSpectatorView(this.getSnapshot());
   }
 
   /**
@@ -320,81 +574,112 @@ export class GameEngine {
   // ═══════════════════════════════════════════════════════════════════════════
   // Commands - All return the current snapshot. The state tells the story.
   // XState guards handle validation. Invalid events are silently ignored.
-  // Compare before/after snapshots if you need to detect success/failure.
+  // Use dispatch() to find out whether a command was accepted, and why not.
+  // Every command is appended to the journal, accepted or not.
   // ═══════════════════════════════════════════════════════════════════════════
 
+  /**
+   * Send any command and get a typed outcome.
+   *
+   * Unlike the snapshot-returning commands below, the outcome says whether
+   * the command was accepted, with a stable error code when it was not.
+   */
+  dispatch(command: JournalCommand): CommandOutcome {
+    const before = this.getSnapshot();
+    const journalLength = this.journal?.entries.length ?? 0;
+    const after = this.execute(command);
+    const events = this.journal ? this.journal.entries.slice(journalLength) : [];
+    return getCommandOutcome(before, command, after, events);
+  }
+
   /** Draw from stock. In May I window, this acts as "pass". */
   drawFromStock(playerId: string): CommandResult {
-    this.actor.send({ type: "DRAW_FROM_STOCK", playerId });
-    return this.getSnapshot();
+    return this.execute({ type: "DRAW_FROM_STOCK", playerId });
   }
 
   /** Draw from discard pile */
   drawFromDiscard(playerId: string): CommandResult {
-    this.actor.send({ type: "DRAW_FROM_DISCARD", playerId });
-    return this.getSnapshot();
+    return this.execute({ type: "DRAW_FROM_DISCARD", playerId });
   }
 
   /** Skip laying down/off and proceed to discard phase */
   skip(playerId: string): CommandResult {
-    this.actor.send({ type: "SKIP_LAY_DOWN", playerId });
-    return this.getSnapshot();
+    return this.execute({ type: "SKIP", playerId });
   }
 
   /** Lay down melds to meet the contract */
   layDown(playerId: string, meldSpecs: MeldSpec[]): CommandResult {
-    const melds = meldSpecs.map((spec) => ({ type: spec.type, cardIds: spec.cardIds }));
-    this.actor.send({ type: "LAY_DOWN", playerId, melds });
-    return this.getSnapshot();
+    const melds = meldSpecs.map((spec) => ({ type: spec.type, cardIds: [...spec.cardIds] }));
+    return this.execute({ type: "LAY_DOWN", playerId, melds });
   }
 
   /** Lay off a card onto an existing meld */
   layOff(playerId: string, cardId: string, meldId: string, position?: "start" | "end"): CommandResult {
-    this.actor.send({ type: "LAY_OFF", playerId, cardId, meldId, position });
-    return this.getSnapshot();
+    return this.execute({ type: "LAY_OFF", playerId, cardId, meldId, position });
   }
 
   /** Swap a joker from a run with a card from hand */
   swap(playerId: string, meldId: string, jokerCardId: string, swapCardId: string): CommandResult {
-    this.actor.send({ type: "SWAP_JOKER", playerId, jokerCardId, meldId, swapCardId });
-    return this.getSnapshot();
+    return this.execute({ type: "SWAP_JOKER", playerId, meldId, jokerCardId, swapCardId });
   }
 
   /** Discard a card from hand */
   discard(playerId: string, cardId: string): CommandResult {
-    this.actor.send({ type: "DISCARD", playerId, cardId });
-    return this.getSnapshot();
+    return this.execute({ type: "DISCARD", playerId, cardId });
   }
 
   /** Call May I to claim the discarded card (starts resolution) */
   callMayI(playerId: string): CommandResult {
-    this.actor.send({ type: "CALL_MAY_I", playerId });
-    return this.getSnapshot();
+    return this.execute({ type: "CALL_MAY_I", playerId });
   }
 
   /** Allow the May I caller to have the card (when prompted during resolution) */
   allowMayI(playerId: string): CommandResult {
-    this.actor.send({ type: "ALLOW_MAY_I", playerId });
-    return this.getSnapshot();
+    return this.execute({ type: "ALLOW_MAY_I", playerId });
   }
 
   /** Claim the card yourself, blocking the original caller (when prompted during resolution) */
   claimMayI(playerId: string): CommandResult {
-    this.actor.send({ type: "CLAIM_MAY_I", playerId });
-    return this.getSnapshot();
+    return this.execute({ type: "CLAIM_MAY_I", playerId });
   }
 
 
   /** Reorder cards in hand (free action, can be called anytime during player's turn) */
   reorderHand(playerId: string, newCardOrder: string[]): CommandResult {
-    this.actor.send({ type: "REORDER_HAND", playerId, newOrder: newCardOrder });
-    return this.getSnapshot();
+    return this.execute({ type: "REORDER_HAND", playerId, cardIds: [...newCardOrder] });
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
   // Private Helpers
   // ═══════════════════════════════════════════════════════════════════════════
 
+  /**
+   * Send a command to the machines and append it to the journal
+   */
+  private execute(
+    command: JournalCommand,
+    executedAt: string = new Date().toISOString()
+  ): CommandResult {
+    const before = this.journal ? this.getSnapshot() : null;
+
+    this.actor.send(toGameEvent(command));
+    const after = this.getSnapshot();
+
+    if (this.journal && before) {
+      this.journal.entries.push({
+        seq: this.journal.entries.length,
+        command,
+        round: before.currentRound,
+        phase: after.phase,
+        turnPhase: after.turnPhase,
+        drawnCards: findDrawnCards(before, after),
+        executedAt,
+      });
+    }
+
+    return after;
+  }
+
   /**
    * Extract GameSnapshot from XState's internal state
    */
@@ -489,6 +774,8 @@ export class GameEngine {
     }
 
     const currentRound = (context.currentRound ?? 1) as RoundNumber;
+    // Persisted games from before contract sequences use the 6-round default
+    const contracts = context.contracts ?? DEFAULT_CONTRACTS;
 
     const roundStock = roundContext?.stock ?? [];
     const roundDiscard = roundContext?.discard ?? [];
@@ -555,7 +842,13 @@ export class GameEngine {
       lastDiscardedByPlayerId: roundContext?.lastDiscardedByPlayerId ?? null,
       discardClaimed: roundContext?.discardClaimed ?? false,
       currentRound,
-      contract: getContractForRound(currentRound)!,
+      contract: getContractForRound(currentRound, contracts)!,
+      contracts,
+      // Persisted games from before seeding have no seed in context
+      seed: context.seed ?? null,
+      roundSeed: roundContext?.seed ?? null,
+      // Persisted games from before rule sets use Grandma Jeanne's rules
+      rules: resolveRuleSet(context.rules),
       players: updatedPlayers,
       dealerIndex,
       currentPlayerIndex,
@@ -564,6 +857,8 @@ export class GameEngine {
       stock,
       discard,
       table,
+      // Persisted rounds from before the history have none
+      discardHistory: roundContext?.discardHistory ?? [],
       hasDrawn: turnContext?.hasDrawn ?? false,
       laidDownThisTurn: turnContext?.laidDownThisTurn ?? false,
       tookActionThisTurn: turnContext?.tookActionThisTurn ?? false,
@@ -5,14 +5,17 @@
  * that can run on Cloudflare Workers (no Node.js dependencies).
  */
 
-import type { Card } from "../card/card.types";
+import type { Card, Rank, Suit } from "../card/card.types";
 import type { Meld } from "../meld/meld.types";
-import type { Player, RoundNumber, RoundRecord } from "./engine.types";
-import type { Contract } from "./contracts";
+import type { DiscardPileEvent, Player, RoundNumber, RoundRecord } from "./engine.types";
+import type { Contract, ContractSpec } from "./contracts";
+import type { RuleSet } from "./house-rules";
 import type {
   ActionAvailabilityState,
   AvailableActions,
 } from "./game-engine.availability";
+import type { CommandErrorCode } from "./game-engine.outcome";
+import type { DomainEvent } from "./game-engine.events";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Phase Types
@@ -122,12 +125,24 @@ export interface GameSnapshot {
   // Round State
   // ─────────────────────────────────────────────────────────────────────────
 
-  /** Current round (1-6) */
+  /** Current round (1 to contracts.length) */
   currentRound: RoundNumber;
 
   /** Contract for current round */
   contract: Contract;
 
+  /** The game's contract sequence, one per round */
+  contracts: Contract[];
+
+  /** Game seed used for dealing (null for games created before seeding) */
+  seed: string | null;
+
+  /** Seed derived for the current round's deal and reshuffles */
+  roundSeed: string | null;
+
+  /** House rules in effect for this game */
+  rules: RuleSet;
+
   // ─────────────────────────────────────────────────────────────────────────
   // Players
   // ─────────────────────────────────────────────────────────────────────────
@@ -157,6 +172,9 @@ export interface GameSnapshot {
   /** Melds on the table */
   table: Meld[];
 
+  /** Public takes, passes and discards of the current round, oldest first */
+  discardHistory: DiscardPileEvent[];
+
   // ─────────────────────────────────────────────────────────────────────────
   // Turn State
   // ─────────────────────────────────────────────────────────────────────────
@@ -228,6 +246,60 @@ export interface OpponentInfo {
   isCurrentPlayer: boolean;
 }
 
+/**
+ * What the table has seen of one opponent's play this round
+ */
+export interface OpponentCardKnowledge {
+  /** Player ID */
+  playerId: string;
+
+  /** Top discards they drew on their turn, oldest first */
+  tookFromDiscard: Card[];
+
+  /** Discards they won with May I, oldest first */
+  wonByMayI: Card[];
+
+  /** Taken or won cards they have not laid down or discarded since */
+  knownInHand: Card[];
+
+  /** Top discards they passed on by drawing from the stock or allowing a May I */
+  passed: Card[];
+
+  /** Cards they discarded, oldest first */
+  discarded: Card[];
+}
+
+/**
+ * Copies of one card face the viewer has not seen
+ */
+export interface UnseenCardCount {
+  rank: Rank;
+  /** null for Jokers */
+  suit: Suit | null;
+  count: number;
+}
+
+/**
+ * Public card knowledge for the round: what a player who remembers every
+ * discard, pickup, May I and meld knows about the cards they cannot see
+ */
+export interface CardKnowledge {
+  /** The whole discard pile, top card first */
+  discardPile: Card[];
+
+  /** One entry per opponent, in seat order */
+  opponents: OpponentCardKnowledge[];
+
+  /**
+   * Card faces with copies still unseen (in the stock, or in opponents' hands
+   * but not known to be there), in deck order
+   */
+  unseen: UnseenCardCount[];
+
+  /** Total unseen cards */
+  unseenCount: number;
+}
+
 /**
  * Per-player view of the game state
  *
@@ -274,12 +346,18 @@ export interface PlayerView {
   // Public Game State
   // ─────────────────────────────────────────────────────────────────────────
 
-  /** Current round (1-6) */
+  /** Current round (1 to totalRounds) */
   currentRound: RoundNumber;
 
+  /** Number of rounds in this game's contract sequence */
+  totalRounds: number;
+
   /** Contract for this round */
   contract: Contract;
 
+  /** House rules in effect for this game */
+  rules: RuleSet;
+
   /** High-level game phase */
   phase: EnginePhase;
 
@@ -308,6 +386,9 @@ export interface PlayerView {
   /** All melds on the table */
   table: Meld[];
 
+  /** Public knowledge of this round's cards (pickups, passes, unseen cards) */
+  cardKnowledge: CardKnowledge;
+
   // ─────────────────────────────────────────────────────────────────────────
   // Scores and History
   // ─────────────────────────────────────────────────────────────────────────
@@ -343,6 +424,77 @@ export interface PlayerView {
   turnOrder: string[];
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// SpectatorView (Public Only)
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * View of the game for someone watching without a seat
+ *
+ * Only what every player at the table can see: no hands, not even one.
+ */
+export interface SpectatorView {
+  /** Game identifier */
+  gameId: string;
+
+  /** Every player in turn order (only handCount, NOT cards!) */
+  players: OpponentInfo[];
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Public Game State
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /** Current round (1 to totalRounds) */
+  currentRound: RoundNumber;
+
+  /** Number of rounds in this game's contract sequence */
+  totalRounds: number;
+
+  /** Contract for this round */
+  contract: Contract;
+
+  /** House rules in effect for this game */
+  rules: RuleSet;
+
+  /** High-level game phase */
+  phase: EnginePhase;
+
+  /** Turn phase within round */
+  turnPhase: TurnPhase;
+
+  /** Current turn number */
+  turnNumber: number;
+
+  /** Which player the game is waiting on */
+  awaitingPlayerId: string;
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Card Zones (Public)
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /** Number of cards in stock (not the actual cards) */
+  stockCount: number;
+
+  /** Top card of discard pile (null if empty) */
+  topDiscard: Card | null;
+
+  /** Number of cards in discard pile */
+  discardCount: number;
+
+  /** All melds on the table */
+  table: Meld[];
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Scores and History
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /** Completed round records */
+  roundHistory: RoundRecord[];
+
+  /** May I window context (if active) */
+  mayIContext: MayIContext | null;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Command Types
 // ═══════════════════════════════════════════════════════════════════════════
@@ -355,10 +507,34 @@ export interface PlayerView {
  * - If you tried to discard and turnPhase is still AWAITING_DISCARD, it failed
  *
  * XState guards handle all validation. Events that don't match current state
- * are silently ignored. Compare before/after snapshots if you need to detect.
+ * are silently ignored. Use GameEngine.dispatch for a CommandOutcome that
+ * says whether the command was accepted, and why not.
  */
 export type CommandResult = GameSnapshot;
 
+/**
+ * Result of dispatching a command, with a typed rejection reason
+ */
+export interface CommandOutcome {
+  /** True if the command moved the game forward */
+  accepted: boolean;
+
+  /** Why the command was rejected (null when accepted) */
+  errorCode: CommandErrorCode | null;
+
+  /** Human-readable rejection reason (null when accepted) */
+  message: string | null;
+
+  /** The current state after the command */
+  snapshot: GameSnapshot;
+
+  /** Journal entries the command appended (empty for games without a journal) */
+  events: JournalEntry[];
+
+  /** What happened in game terms (empty when rejected) */
+  domainEvents: DomainEvent[];
+}
+
 /**
  * Specification for a meld to lay down (ID-based)
  *
@@ -383,15 +559,100 @@ export interface CreateGameOptions {
   /** Player names (3-8 players) */
   playerNames: string[];
 
-  /** Starting round (1-6), defaults to 1 */
+  /** Starting round (1 to the number of contracts), defaults to 1 */
   startingRound?: RoundNumber;
 
   /** Explicit game ID (for testing), defaults to crypto.randomUUID() */
   gameId?: string;
 
-  /** Explicit dealer index (for testing), defaults to 0 */
+  /** Dealer for the starting round (e.g., rotated between games of a match), defaults to 0 */
   dealerIndex?: number;
 
-  /** Seed for deterministic shuffling (for testing) */
+  /**
+   * Seed for deterministic shuffling and dealing, defaults to a random UUID.
+   * The same seed and player list always produce identical deals.
+   */
   seed?: string;
+
+  /** House rule overrides, defaults to Grandma Jeanne's rules */
+  rules?: Partial<RuleSet>;
+
+  /**
+   * Ordered contract list, one per round, defaults to the 6 house-rule
+   * contracts. The list length sets the number of rounds.
+   */
+  contracts?: ContractSpec[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Journal Types
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A command as sent to the engine, with its player and arguments
+ */
+export type JournalCommand =
+  | { type: "DRAW_FROM_STOCK"; playerId: string }
+  | { type: "DRAW_FROM_DISCARD"; playerId: string }
+  | { type: "SKIP"; playerId: string }
+  | { type: "LAY_DOWN"; playerId: string; melds: MeldSpec[] }
+  | {
+      type: "LAY_OFF";
+      playerId: string;
+      cardId: string;
+      meldId: string;
+      position?: "start" | "end";
+    }
+  | {
+      type: "SWAP_JOKER";
+      playerId: string;
+      meldId: string;
+      jokerCardId: string;
+      swapCardId: string;
+    }
+  | { type: "DISCARD"; playerId: string; cardId: string }
+  | { type: "CALL_MAY_I"; playerId: string }
+  | { type: "ALLOW_MAY_I"; playerId: string }
+  | { type: "CLAIM_MAY_I"; playerId: string }
+  | { type: "REORDER_HAND"; playerId: string; cardIds: string[] };
+
+/**
+ * One append-only journal record, written after each command.
+ *
+ * Every command is recorded, including ones the machines ignored, so
+ * replaying the journal reproduces the game exactly.
+ */
+export interface JournalEntry {
+  /** Position in the journal, starting at 0 */
+  seq: number;
+
+  /** The command and its arguments */
+  command: JournalCommand;
+
+  /** Round the command was sent in */
+  round: RoundNumber;
+
+  /** Game phase after the command */
+  phase: EnginePhase;
+
+  /** Turn phase after the command */
+  turnPhase: TurnPhase;
+
+  /**
+   * Cards that moved from the stock or discard pile into a hand,
+   * e.g. the drawn card, or a May I card plus its penalty cards
+   */
+  drawnCards: Card[];
+
+  /** When the command was executed */
+  executedAt: string;
+}
+
+/**
+ * Everything needed to rebuild a game: the resolved creation options
+ * (with gameId and seed filled in) and the command journal
+ */
+export interface GameJournal {
+  options: CreateGameOptions;
+  entries: JournalEntry[];
 }
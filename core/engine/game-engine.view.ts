@@ -0,0 +1,108 @@
+/**
+ * Player and spectator views for the GameEngine.
+ *
+ * Builds what one player is allowed to see from a full snapshot: their own
+ * hand, opponents' hand counts, the public state of the table and what the
+ * round's discards have revealed. Anything that should not reach a player
+ * (or a bot playing as them) is left out. Spectators get only the public
+ * part, with every hand hidden.
+ */
+
+import { getActionAvailabilityDetails } from "./game-engine.availability";
+import { buildCardKnowledge } from "./game-engine.knowledge";
+import type { Player } from "./engine.types";
+import type {
+  GameSnapshot,
+  OpponentInfo,
+  PlayerView,
+  SpectatorView,
+} from "./game-engine.types";
+
+/**
+ * What anyone at the table can see about a player (hand count, not cards)
+ */
+function toPublicPlayerInfo(snapshot: GameSnapshot, player: Player): OpponentInfo {
+  return {
+    id: player.id,
+    name: player.name,
+    avatarId: player.avatarId,
+    handCount: player.hand.length,
+    isDown: player.isDown,
+    totalScore: player.totalScore,
+    isDealer: snapshot.players[snapshot.dealerIndex]?.id === player.id,
+    isCurrentPlayer: snapshot.players[snapshot.currentPlayerIndex]?.id === player.id,
+  };
+}
+
+/**
+ * Build a player's view of a snapshot (hides other players' hands)
+ *
+ * @throws Error if the player is not in the game
+ */
+export function createPlayerView(snapshot: GameSnapshot, playerId: string): PlayerView {
+  const player = snapshot.players.find((p) => p.id === playerId);
+  if (!player) {
+    throw new Error("Player not found");
+  }
+
+  const opponents = snapshot.players
+    .filter((p) => p.id !== playerId)
+    .map((p) => toPublicPlayerInfo(snapshot, p));
+
+  const actionAvailability = getActionAvailabilityDetails(snapshot, playerId);
+
+  return {
+    gameId: snapshot.gameId,
+    viewingPlayerId: playerId,
+    yourName: player.name,
+    yourAvatarId: player.avatarId,
+    yourHand: [...player.hand],
+    isYourTurn: snapshot.awaitingPlayerId === playerId,
+    youAreDown: player.isDown,
+    yourTotalScore: player.totalScore,
+    opponents,
+    currentRound: snapshot.currentRound,
+    totalRounds: snapshot.contracts.length,
+    contract: snapshot.contract,
+    rules: snapshot.rules,
+    phase: snapshot.phase,
+    turnPhase: snapshot.turnPhase,
+    turnNumber: snapshot.turnNumber,
+    awaitingPlayerId: snapshot.awaitingPlayerId,
+    stockCount: snapshot.stock.length,
+    topDiscard: snapshot.discard[0] ?? null,
+    discardCount: snapshot.discard.length,
+    table: [...snapshot.table],
+    cardKnowledge: buildCardKnowledge(snapshot, playerId),
+    roundHistory: [...snapshot.roundHistory],
+    mayIContext: snapshot.mayIContext ? { ...snapshot.mayIContext } : null,
+    availableActions: actionAvailability.availableActions,
+    actionStates: actionAvailability.actionStates,
+    unavailabilityHints: actionAvailability.unavailabilityHints,
+    turnOrder: snapshot.players.map((p) => p.id),
+  };
+}
+
+/**
+ * Build a spectator's view of a snapshot (hides every hand)
+ */
+export function createSpectatorView(snapshot: GameSnapshot): SpectatorView {
+  return {
+    gameId: snapshot.gameId,
+    players: snapshot.players.map((p) => toPublicPlayerInfo(snapshot, p)),
+    currentRound: snapshot.currentRound,
+    totalRounds: snapshot.contracts.length,
+    contract: snapshot.contract,
+    rules: snapshot.rules,
+    phase: snapshot.phase,
+    turnPhase: snapshot.turnPhase,
+    turnNumber: snapshot.turnNumber,
+    awaitingPlayerId: snapshot.awaitingPlayerId,
+    stockCount: snapshot.stock.length,
+    topDiscard: snapshot.discard[0] ?? null,
+    discardCount: snapshot.discard.length,
+    table: [...snapshot.table],
+    roundHistory: [...snapshot.roundHistory],
+    mayIContext: snapshot.mayIContext ? { ...snapshot.mayIContext } : null,
+  };
+}
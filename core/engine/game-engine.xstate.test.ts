@@ -73,6 +73,8 @@ describe("GameEngine (XState-backed)", () => {
         roundNumber: 1,
         sets: 2,
         runs: 0,
+        cardsDealt: 11,
+        mustUseAllCards: false,
       });
     });
 
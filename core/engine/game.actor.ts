@@ -10,6 +10,8 @@ import { gameMachine, type GameContext, type GameEvent } from "./game.machine";
 import type { RoundNumber, Player } from "./engine.types";
 import type { Card } from "../card/card.types";
 import type { Meld } from "../meld/meld.types";
+import { DEFAULT_RULE_SET } from "./house-rules";
+import { DEFAULT_CONTRACTS } from "./contracts";
 
 /**
  * Internal types for accessing persisted snapshot hierarchy.
@@ -316,6 +318,9 @@ export function restoreGameActor(
     roundHistory: state.roundHistory,
     winners: [],
     lastError: null,
+    seed: null,
+    rules: DEFAULT_RULE_SET,
+    contracts: DEFAULT_CONTRACTS,
   };
 
   // XState expects specific literal types for status
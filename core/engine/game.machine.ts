@@ -10,6 +10,9 @@
 import { setup, assign, sendTo } from "xstate";
 import type { Player, RoundRecord, RoundNumber } from "./engine.types";
 import { roundMachine, type RoundInput, type RoundOutput } from "./round.machine";
+import { deriveSeed } from "../card/card.random";
+import { resolveRuleSet, type RuleSet } from "./house-rules";
+import { DEFAULT_CONTRACTS, getContractForRound, type Contract } from "./contracts";
 
 /**
  * Events that need to be forwarded to child round actor
@@ -30,10 +33,12 @@ type ForwardedEvent =
   | { type: "REORDER_HAND"; playerId?: string; newOrder: string[] };
 
 /**
- * Internal round number that allows 7 to signal game over
- * (RoundNumber type is 1-6, but we need to check currentRound > 6)
+ * Contract sequence for a game context.
+ * Games persisted before contract sequences existed use the 6-round default.
  */
-type GameRoundNumber = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+function getGameContracts(context: GameContext): Contract[] {
+  return context.contracts ?? DEFAULT_CONTRACTS;
+}
 
 /**
  * Context for the GameMachine
@@ -41,12 +46,19 @@ type GameRoundNumber = 1 | 2 | 3 | 4 | 5 | 6 | 7;
 export interface GameContext {
   gameId: string;
   players: Player[];
-  currentRound: GameRoundNumber;
+  /** Current round; one past the last contract signals game over */
+  currentRound: RoundNumber;
   dealerIndex: number;
   roundHistory: RoundRecord[];
   winners: string[]; // Player IDs of winners (determined at game end)
   /** Error message from last failed operation */
   lastError: string | null;
+  /** Game seed; each round derives its own seed from it (null when unseeded) */
+  seed: string | null;
+  /** House rules for this game */
+  rules: RuleSet;
+  /** Ordered contracts, one per round */
+  contracts: Contract[];
 }
 
 /**
@@ -82,6 +94,14 @@ export interface GameOutput {
  */
 export interface GameInput {
   startingRound?: RoundNumber;
+  /** Dealer for the starting round, defaults to 0 */
+  dealerIndex?: number;
+  /** Seed for deterministic dealing and reshuffles */
+  seed?: string;
+  /** House rule overrides; unspecified rules use Grandma Jeanne's defaults */
+  rules?: Partial<RuleSet>;
+  /** Contract sequence, defaults to the 6 house-rule contracts */
+  contracts?: Contract[];
 }
 
 export const gameMachine = setup({
@@ -97,8 +117,8 @@ export const gameMachine = setup({
   guards: {
     hasMinPlayers: ({ context }) => context.players.length >= 3,
     hasMaxPlayers: ({ context }) => context.players.length >= 8,
-    // Check if we just finished round 6 (game has 6 rounds)
-    isGameOver: ({ context }) => context.currentRound >= 6,
+    // Check if we just finished the last round of the contract sequence
+    isGameOver: ({ context }) => context.currentRound >= getGameContracts(context).length,
   },
   actions: {
     addPlayer: assign({
@@ -126,8 +146,8 @@ export const gameMachine = setup({
     incrementRound: assign({
       currentRound: ({ context }) => {
         const nextRound = context.currentRound + 1;
-        // Cap at 7 to signal game over (checked by isGameOver guard)
-        return (nextRound <= 7 ? nextRound : 7) as GameRoundNumber;
+        // Cap one past the last round to signal game over (checked by isGameOver guard)
+        return Math.min(nextRound, getGameContracts(context).length + 1);
       },
     }),
     advanceDealer: assign({
@@ -158,11 +178,14 @@ export const gameMachine = setup({
   context: ({ input }) => ({
     gameId: "",
     players: [],
-    currentRound: (input?.startingRound ?? 1) as GameRoundNumber,
-    dealerIndex: 0,
+    currentRound: input?.startingRound ?? 1,
+    dealerIndex: input?.dealerIndex ?? 0,
     roundHistory: [],
     winners: [],
     lastError: null,
+    seed: input?.seed ?? null,
+    rules: resolveRuleSet(input?.rules),
+    contracts: input?.contracts ?? DEFAULT_CONTRACTS,
   }),
   output: ({ context }) => ({
     finalScores: Object.fromEntries(context.players.map((p) => [p.id, p.totalScore])),
@@ -194,9 +217,12 @@ export const gameMachine = setup({
         id: "round",
         src: "roundMachine",
         input: ({ context }): RoundInput => ({
-          roundNumber: context.currentRound as RoundNumber,
+          roundNumber: context.currentRound,
+          contract: getContractForRound(context.currentRound, getGameContracts(context))!,
           players: context.players,
           dealerIndex: context.dealerIndex,
+          seed: deriveSeed(context.seed, "round", context.currentRound),
+          rules: context.rules,
         }),
         onDone: {
           target: "roundEnd",
@@ -3,7 +3,7 @@ import { createActor } from "xstate";
 import {
   checkGoingOut,
   canGoOut,
-  isRound6LastCardBlock,
+  isFinalHandLastCardBlock,
   getGoingOutScore,
 } from "./goingOut";
 import { turnMachine } from "./turn.machine";
@@ -13,6 +13,7 @@ import type { Card } from "../card/card.types";
 import type { Meld } from "../meld/meld.types";
 import type { RoundNumber, Player } from "./engine.types";
 import { createCanGoOutState } from "./test.fixtures";
+import { CONTRACTS, createContractSequence } from "./contracts";
 
 function card(rank: Card["rank"], suit: Card["suit"]): Card {
   return { id: `${rank}-${suit}-${Math.random()}`, rank, suit };
@@ -210,19 +211,29 @@ describe("going out - general rules", () => {
 
     it("rounds 1-5: discard last card OR lay off last card(s)", () => {
       // In rounds 1-5, can go out via either method
-      for (const round of [1, 2, 3, 4, 5] as RoundNumber[]) {
+      for (const round of [1, 2, 3, 4, 5] as const) {
         // Not blocked for discarding last card
-        expect(isRound6LastCardBlock(round, 1)).toBe(false);
+        expect(isFinalHandLastCardBlock(CONTRACTS[round], 1)).toBe(false);
       }
     });
 
     it("round 6: MUST lay off last card(s), cannot discard to go out", () => {
       // In round 6, discarding last card is blocked
-      expect(isRound6LastCardBlock(6, 1)).toBe(true);
+      expect(isFinalHandLastCardBlock(CONTRACTS[6], 1)).toBe(true);
 
       // But discarding with 2+ cards is fine
-      expect(isRound6LastCardBlock(6, 2)).toBe(false);
-      expect(isRound6LastCardBlock(6, 3)).toBe(false);
+      expect(isFinalHandLastCardBlock(CONTRACTS[6], 2)).toBe(false);
+      expect(isFinalHandLastCardBlock(CONTRACTS[6], 3)).toBe(false);
+    });
+
+    it("follows the final-hand rule of the contract, not the round number", () => {
+      const [shortFinalHand] = createContractSequence([
+        { sets: 1, runs: 0, mustUseAllCards: true },
+      ]);
+      expect(isFinalHandLastCardBlock(shortFinalHand!, 1)).toBe(true);
+
+      const sixth = createContractSequence(Array(6).fill({ sets: 2, runs: 0 }))[5];
+      expect(isFinalHandLastCardBlock(sixth!, 1)).toBe(false);
     });
 
     it("exception: go out on same turn as laying down", () => {
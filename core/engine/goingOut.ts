@@ -8,6 +8,7 @@
 
 import type { Card } from "../card/card.types";
 import type { RoundNumber } from "./engine.types";
+import type { Contract } from "./contracts";
 
 /**
  * Context needed to check if a player can go out
@@ -69,18 +70,18 @@ export function canGoOut(context: GoingOutContext): boolean {
 }
 
 /**
- * In Round 6, players cannot discard their last card to go out.
- * They must lay off all remaining cards instead.
+ * In the final hand (a contract with mustUseAllCards), players cannot
+ * discard their last card to go out. They must lay off all remaining cards instead.
  *
- * @param roundNumber - The current round number
+ * @param contract - The current round's contract
  * @param handSize - Number of cards in hand
- * @returns true if discarding last card is blocked in round 6
+ * @returns true if discarding the last card is blocked
  */
-export function isRound6LastCardBlock(
-  roundNumber: RoundNumber,
+export function isFinalHandLastCardBlock(
+  contract: Pick<Contract, "mustUseAllCards">,
   handSize: number
 ): boolean {
-  return roundNumber === 6 && handSize === 1;
+  return contract.mustUseAllCards && handSize === 1;
 }
 
 /**
@@ -7,9 +7,10 @@
 import type { Card } from "../card/card.types";
 import type { Meld } from "../meld/meld.types";
 import type { RoundNumber } from "./engine.types";
-import { CONTRACTS, validateContractMelds } from "./contracts";
+import { getContractForRound, validateContractMelds, type Contract } from "./contracts";
 import { isValidSet, isValidRun, countWildsAndNaturals } from "../meld/meld.validation";
 import { normalizeRunCards } from "../meld/run.normalizer";
+import { DEFAULT_RULE_SET, getLayDownValidationOptions, type RuleSet } from "./house-rules";
 
 /**
  * Context needed for guard evaluation
@@ -19,6 +20,10 @@ export interface GuardContext {
   hand: Card[];
   roundNumber: RoundNumber;
   playerId: string;
+  /** Contract for the round, defaults to the house-rule contract for roundNumber */
+  contract?: Contract;
+  /** House rules, defaults to Grandma Jeanne's rules */
+  rules?: RuleSet;
 }
 
 /**
@@ -37,26 +42,31 @@ export function notDownYet(isDown: boolean): boolean {
 }
 
 /**
- * Validates that the proposed melds meet the contract requirements for the round
+ * Validates that the proposed melds meet the contract requirements for the round.
+ * Accepts either a round number (house-rule contract) or the round's contract.
  */
 export function meetsContract(
-  roundNumber: RoundNumber,
-  melds: Meld[]
+  roundOrContract: RoundNumber | Contract,
+  melds: Meld[],
+  rules: RuleSet = DEFAULT_RULE_SET
 ): boolean {
-  const contract = CONTRACTS[roundNumber];
-  const result = validateContractMelds(contract, melds);
+  const contract =
+    typeof roundOrContract === "number" ? getContractForRound(roundOrContract) : roundOrContract;
+  if (!contract) return false;
+  const result = validateContractMelds(contract, melds, getLayDownValidationOptions(rules));
   return result.valid;
 }
 
 /**
  * Validates that all proposed melds are individually valid (correct type and structure)
  */
-export function validMelds(melds: Meld[]): boolean {
+export function validMelds(melds: Meld[], rules: RuleSet = DEFAULT_RULE_SET): boolean {
+  const options = getLayDownValidationOptions(rules);
   for (const meld of melds) {
-    if (meld.type === "set" && !isValidSet(meld.cards)) {
+    if (meld.type === "set" && !isValidSet(meld.cards, options)) {
       return false;
     }
-    if (meld.type === "run" && !isValidRun(meld.cards)) {
+    if (meld.type === "run" && !isValidRun(meld.cards, options)) {
       return false;
     }
   }
@@ -84,7 +94,8 @@ export function wildsNotOutnumbered(melds: Meld[]): boolean {
 export function buildMeldsFromProposals(
   proposals: MeldProposal[],
   hand: Card[],
-  playerId: string
+  playerId: string,
+  rules: RuleSet = DEFAULT_RULE_SET
 ): Meld[] | null {
   const melds: Meld[] = [];
 
@@ -100,7 +111,7 @@ export function buildMeldsFromProposals(
     // For runs, normalize card order (allows selection in any order)
     let finalCards = cards;
     if (proposal.type === "run") {
-      const normalized = normalizeRunCards(cards);
+      const normalized = normalizeRunCards(cards, getLayDownValidationOptions(rules));
       if (normalized.success) {
         finalCards = normalized.cards;
       }
@@ -123,7 +134,7 @@ export function buildMeldsFromProposals(
  * - Player has not laid down yet this round
  * - All cards are in the player's hand
  * - All melds are valid (correct structure)
- * - Wild cards don't outnumber naturals in any meld
+ * - Wild cards don't outnumber naturals in any meld (when the rules enforce it)
  * - Melds meet the contract requirements for the round
  */
 export function canLayDown(
@@ -135,24 +146,26 @@ export function canLayDown(
     return false;
   }
 
+  const rules = context.rules ?? DEFAULT_RULE_SET;
+
   // Build melds from proposals
-  const melds = buildMeldsFromProposals(proposals, context.hand, context.playerId);
+  const melds = buildMeldsFromProposals(proposals, context.hand, context.playerId, rules);
   if (!melds) {
     return false; // Some card not in hand
   }
 
   // Validate individual melds
-  if (!validMelds(melds)) {
+  if (!validMelds(melds, rules)) {
     return false;
   }
 
   // Validate wild card ratios (already checked in validMelds through isValidSet/isValidRun, but explicit check here)
-  if (!wildsNotOutnumbered(melds)) {
+  if (rules.enforceWildRatioOnLayDown && !wildsNotOutnumbered(melds)) {
     return false;
   }
 
   // Validate contract requirements
-  if (!meetsContract(context.roundNumber, melds)) {
+  if (!meetsContract(context.contract ?? context.roundNumber, melds, rules)) {
     return false;
   }
 
@@ -0,0 +1,59 @@
+/**
+ * House rule configuration for May I? card game
+ *
+ * Families play May I? with different house rules. A RuleSet captures the
+ * rules that vary between tables; the turn and round machines read every
+ * guard from it. Grandma Jeanne's rules (docs/house-rules.md) are the default.
+ */
+
+import type { MeldValidationOptions } from "../meld/meld.validation";
+
+/**
+ * Configurable house rules for a game
+ */
+export interface RuleSet {
+  /** Wilds may not outnumber naturals in melds laid down for the contract */
+  enforceWildRatioOnLayDown: boolean;
+  /** Players may lay off on the same turn they lay down their contract */
+  allowLayOffOnLayDownTurn: boolean;
+  /** Jokers may be swapped out of sets as well as runs */
+  allowJokerSwapFromSets: boolean;
+  /** Players who are already down may still swap Jokers */
+  allowJokerSwapAfterDown: boolean;
+  /** Penalty cards drawn from stock by a May I winner (on top of the discard) */
+  mayIPenaltyCards: number;
+  /**
+   * Players may go out by melding their last card instead of discarding it.
+   * Does not apply to the final round, where laying down always means going out.
+   */
+  allowGoOutWithoutDiscard: boolean;
+}
+
+/**
+ * Grandma Jeanne's house rules (docs/house-rules.md)
+ */
+export const DEFAULT_RULE_SET: RuleSet = {
+  enforceWildRatioOnLayDown: true,
+  allowLayOffOnLayDownTurn: false,
+  allowJokerSwapFromSets: false,
+  allowJokerSwapAfterDown: false,
+  mayIPenaltyCards: 1,
+  allowGoOutWithoutDiscard: true,
+};
+
+/**
+ * Fill in any missing rules with the defaults.
+ *
+ * Accepts partial overrides from CreateGameOptions, and undefined for games
+ * persisted before rule sets existed.
+ */
+export function resolveRuleSet(rules?: Partial<RuleSet> | null): RuleSet {
+  return { ...DEFAULT_RULE_SET, ...(rules ?? {}) };
+}
+
+/**
+ * Meld validation options for laying down a contract under these rules
+ */
+export function getLayDownValidationOptions(rules: RuleSet): MeldValidationOptions {
+  return { allowWildsToOutnumberNaturals: !rules.enforceWildRatioOnLayDown };
+}
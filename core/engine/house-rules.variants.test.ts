@@ -0,0 +1,360 @@
+/**
+ * House rule variants (RuleSet) tests
+ *
+ * Grandma Jeanne's rules are the default. Each test checks that the default
+ * behavior holds and that the matching RuleSet override changes it.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { createActor } from "xstate";
+import { turnMachine, type TurnInput } from "./turn.machine";
+import { roundMachine, type RoundInput } from "./round.machine";
+import { GameEngine } from "./game-engine";
+import { DEFAULT_RULE_SET, resolveRuleSet, type RuleSet } from "./house-rules";
+import type { Card } from "../card/card.types";
+import type { Meld } from "../meld/meld.types";
+import type { Player } from "./engine.types";
+
+function card(id: string, rank: Card["rank"], suit: Card["suit"]): Card {
+  return { id, rank, suit };
+}
+
+function joker(id: string): Card {
+  return { id, rank: "Joker", suit: null };
+}
+
+function createTurnActor(input: Omit<TurnInput, "playerId" | "roundNumber">, rules?: Partial<RuleSet>) {
+  const actor = createActor(turnMachine, {
+    input: {
+      playerId: "player-1",
+      roundNumber: 1,
+      ...input,
+      rules: rules ? resolveRuleSet(rules) : undefined,
+    },
+  });
+  actor.start();
+  return actor;
+}
+
+function createTestPlayers(count: number): Player[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `player-${i}`,
+    name: `Player ${i}`,
+    hand: [],
+    isDown: false,
+    totalScore: 0,
+  }));
+}
+
+describe("resolveRuleSet", () => {
+  it("defaults to Grandma Jeanne's rules", () => {
+    expect(resolveRuleSet()).toEqual(DEFAULT_RULE_SET);
+    expect(resolveRuleSet(null)).toEqual(DEFAULT_RULE_SET);
+  });
+
+  it("overrides only the rules provided", () => {
+    const rules = resolveRuleSet({ mayIPenaltyCards: 2 });
+    expect(rules.mayIPenaltyCards).toBe(2);
+    expect(rules.enforceWildRatioOnLayDown).toBe(true);
+    expect(rules.allowLayOffOnLayDownTurn).toBe(false);
+  });
+});
+
+describe("GameEngine rules", () => {
+  it("snapshot carries the default rules when none are given", () => {
+    const engine = GameEngine.createGame({ playerNames: ["Alice", "Bob", "Carol"] });
+    expect(engine.getSnapshot().rules).toEqual(DEFAULT_RULE_SET);
+  });
+
+  it("persists rule overrides across toJSON/fromJSON", () => {
+    const engine = GameEngine.createGame({
+      playerNames: ["Alice", "Bob", "Carol"],
+      rules: { allowJokerSwapFromSets: true, mayIPenaltyCards: 0 },
+    });
+    const restored = GameEngine.fromJSON(engine.toJSON());
+    const rules = restored.getSnapshot().rules;
+    expect(rules.allowJokerSwapFromSets).toBe(true);
+    expect(rules.mayIPenaltyCards).toBe(0);
+    expect(rules.enforceWildRatioOnLayDown).toBe(true);
+  });
+});
+
+describe("enforceWildRatioOnLayDown", () => {
+  const input = () => ({
+    hand: [
+      card("9H", "9", "hearts"),
+      joker("J1"),
+      card("2C", "2", "clubs"),
+      card("5S", "5", "spades"),
+      card("5D", "5", "diamonds"),
+      card("5C", "5", "clubs"),
+      card("KH", "K", "hearts"),
+    ],
+    stock: [card("3H", "3", "hearts")],
+    discard: [],
+    isDown: false,
+    table: [],
+  });
+  const layDown = {
+    type: "LAY_DOWN" as const,
+    melds: [
+      { type: "set" as const, cardIds: ["9H", "J1", "2C"] },
+      { type: "set" as const, cardIds: ["5S", "5D", "5C"] },
+    ],
+  };
+
+  it("rejects wilds outnumbering naturals by default", () => {
+    const actor = createTurnActor(input());
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send(layDown);
+    expect(actor.getSnapshot().context.isDown).toBe(false);
+    expect(actor.getSnapshot().context.lastError).toBe("meld 1 is not a valid set");
+  });
+
+  it("allows wilds to outnumber naturals when the rule is off", () => {
+    const actor = createTurnActor(input(), { enforceWildRatioOnLayDown: false });
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send(layDown);
+    expect(actor.getSnapshot().value).toBe("awaitingDiscard");
+    expect(actor.getSnapshot().context.isDown).toBe(true);
+  });
+});
+
+describe("allowLayOffOnLayDownTurn", () => {
+  const input = () => ({
+    hand: [
+      card("9H", "9", "hearts"),
+      card("9D", "9", "diamonds"),
+      card("9C", "9", "clubs"),
+      card("5S", "5", "spades"),
+      card("5D", "5", "diamonds"),
+      card("5C", "5", "clubs"),
+      card("9S", "9", "spades"),
+      card("KH", "K", "hearts"),
+    ],
+    stock: [card("3H", "3", "hearts")],
+    discard: [],
+    isDown: false,
+    table: [],
+  });
+  const layDown = {
+    type: "LAY_DOWN" as const,
+    melds: [
+      { type: "set" as const, cardIds: ["9H", "9D", "9C"] },
+      { type: "set" as const, cardIds: ["5S", "5D", "5C"] },
+    ],
+  };
+  const layOff = { type: "LAY_OFF" as const, cardId: "9S", meldId: "meld-player-1-0" };
+
+  it("blocks lay off on the lay down turn by default", () => {
+    const actor = createTurnActor(input());
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send(layDown);
+    actor.send(layOff);
+    expect(actor.getSnapshot().value).toBe("awaitingDiscard");
+    expect(actor.getSnapshot().context.hand.map((c) => c.id)).toContain("9S");
+  });
+
+  it("allows lay off right after laying down when the rule is on", () => {
+    const actor = createTurnActor(input(), { allowLayOffOnLayDownTurn: true });
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send(layDown);
+    expect(actor.getSnapshot().value).toBe("drawn");
+    actor.send(layOff);
+    const { hand, table } = actor.getSnapshot().context;
+    expect(hand.map((c) => c.id)).toEqual(["KH", "3H"]);
+    expect(table[0]!.cards.map((c) => c.id)).toContain("9S");
+  });
+});
+
+describe("Joker swap rules", () => {
+  const setMeld: Meld = {
+    id: "meld-set",
+    type: "set",
+    cards: [card("7H", "7", "hearts"), card("7D", "7", "diamonds"), joker("J1")],
+    ownerId: "player-2",
+  };
+  const runMeld: Meld = {
+    id: "meld-run",
+    type: "run",
+    cards: [
+      card("5H", "5", "hearts"),
+      card("6H", "6", "hearts"),
+      joker("J2"),
+      card("8H", "8", "hearts"),
+    ],
+    ownerId: "player-2",
+  };
+
+  it("blocks swapping a Joker out of a set by default", () => {
+    const actor = createTurnActor({
+      hand: [card("7S", "7", "spades"), card("KH", "K", "hearts")],
+      stock: [card("3H", "3", "hearts")],
+      discard: [],
+      isDown: false,
+      table: [setMeld],
+    });
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send({ type: "SWAP_JOKER", jokerCardId: "J1", meldId: "meld-set", swapCardId: "7S" });
+    expect(actor.getSnapshot().context.hand.map((c) => c.id)).toContain("7S");
+  });
+
+  it("swaps a Joker out of a set with any suit of the set's rank when allowed", () => {
+    const actor = createTurnActor(
+      {
+        hand: [card("7S", "7", "spades"), card("KH", "K", "hearts")],
+        stock: [card("3H", "3", "hearts")],
+        discard: [],
+        isDown: false,
+        table: [setMeld],
+      },
+      { allowJokerSwapFromSets: true }
+    );
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send({ type: "SWAP_JOKER", jokerCardId: "J1", meldId: "meld-set", swapCardId: "7S" });
+    const { hand, table } = actor.getSnapshot().context;
+    expect(hand.map((c) => c.id)).toContain("J1");
+    expect(table[0]!.cards.map((c) => c.id)).toEqual(["7H", "7D", "7S"]);
+  });
+
+  it("blocks swapping after laying down by default", () => {
+    const actor = createTurnActor({
+      hand: [card("7H", "7", "hearts"), card("KH", "K", "hearts")],
+      stock: [card("3H", "3", "hearts")],
+      discard: [],
+      isDown: true,
+      table: [runMeld],
+    });
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send({ type: "SWAP_JOKER", jokerCardId: "J2", meldId: "meld-run", swapCardId: "7H" });
+    expect(actor.getSnapshot().context.hand.map((c) => c.id)).toContain("7H");
+  });
+
+  it("allows swapping after laying down when the rule is on", () => {
+    const actor = createTurnActor(
+      {
+        hand: [card("7H", "7", "hearts"), card("KH", "K", "hearts")],
+        stock: [card("3H", "3", "hearts")],
+        discard: [],
+        isDown: true,
+        table: [runMeld],
+      },
+      { allowJokerSwapAfterDown: true }
+    );
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send({ type: "SWAP_JOKER", jokerCardId: "J2", meldId: "meld-run", swapCardId: "7H" });
+    const { hand, table } = actor.getSnapshot().context;
+    expect(hand.map((c) => c.id)).toContain("J2");
+    expect(table[0]!.cards.map((c) => c.id)).toEqual(["5H", "6H", "7H", "8H"]);
+  });
+});
+
+describe("allowGoOutWithoutDiscard", () => {
+  const nines: Meld = {
+    id: "meld-nines",
+    type: "set",
+    cards: [card("9H", "9", "hearts"), card("9D", "9", "diamonds"), card("9C", "9", "clubs")],
+    ownerId: "player-1",
+  };
+  const input = () => ({
+    hand: [card("9S", "9", "spades")],
+    stock: [card("9S2", "9", "spades")],
+    discard: [],
+    isDown: true,
+    table: [nines],
+  });
+
+  it("goes out by laying off the last card by default", () => {
+    const actor = createTurnActor(input());
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send({ type: "LAY_OFF", cardId: "9S", meldId: "meld-nines" });
+    actor.send({ type: "LAY_OFF", cardId: "9S2", meldId: "meld-nines" });
+    expect(actor.getSnapshot().value).toBe("wentOut");
+  });
+
+  it("requires the last card to be discarded when the rule is off", () => {
+    const actor = createTurnActor(input(), { allowGoOutWithoutDiscard: false });
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send({ type: "LAY_OFF", cardId: "9S", meldId: "meld-nines" });
+    actor.send({ type: "LAY_OFF", cardId: "9S2", meldId: "meld-nines" });
+    expect(actor.getSnapshot().value).toBe("drawn");
+    expect(actor.getSnapshot().context.lastError).toBe("must keep a card to discard");
+
+    actor.send({ type: "DISCARD", cardId: "9S2" });
+    expect(actor.getSnapshot().value).toBe("wentOut");
+  });
+
+  it("rejects laying down every card when the rule is off", () => {
+    const actor = createTurnActor(
+      {
+        hand: [
+          card("9H", "9", "hearts"),
+          card("9D", "9", "diamonds"),
+          card("9C", "9", "clubs"),
+          card("5S", "5", "spades"),
+          card("5D", "5", "diamonds"),
+        ],
+        stock: [card("5C", "5", "clubs")],
+        discard: [],
+        isDown: false,
+        table: [],
+      },
+      { allowGoOutWithoutDiscard: false }
+    );
+    actor.send({ type: "DRAW_FROM_STOCK" });
+    actor.send({
+      type: "LAY_DOWN",
+      melds: [
+        { type: "set", cardIds: ["9H", "9D", "9C"] },
+        { type: "set", cardIds: ["5S", "5D", "5C"] },
+      ],
+    });
+    expect(actor.getSnapshot().context.isDown).toBe(false);
+    expect(actor.getSnapshot().context.lastError).toBe("must keep a card to discard");
+  });
+});
+
+describe("mayIPenaltyCards", () => {
+  function runMayI(rules?: Partial<RuleSet>) {
+    const input: RoundInput = {
+      roundNumber: 1,
+      players: createTestPlayers(3),
+      dealerIndex: 0,
+      rules: rules ? resolveRuleSet(rules) : undefined,
+      predefinedState: {
+        hands: [
+          [card("p0-1", "5", "hearts")],
+          [card("p1-1", "5", "diamonds")],
+          [card("p2-1", "5", "clubs")],
+        ],
+        stock: [
+          card("stock-1", "A", "hearts"),
+          card("stock-2", "A", "diamonds"),
+          card("stock-3", "A", "clubs"),
+        ],
+        discard: [card("discard-K", "K", "spades")],
+        playerDownStatus: [false, false, false],
+      },
+    };
+    const actor = createActor(roundMachine, { input });
+    actor.start();
+    actor.send({ type: "CALL_MAY_I", playerId: "player-2" });
+    actor.send({ type: "ALLOW_MAY_I", playerId: "player-1" });
+    const winner = actor.getSnapshot().context.players.find((p) => p.id === "player-2")!;
+    return winner.hand.map((c) => c.id);
+  }
+
+  it("draws one penalty card by default", () => {
+    expect(runMayI()).toEqual(["p2-1", "discard-K", "stock-1"]);
+  });
+
+  it("draws the configured number of penalty cards", () => {
+    expect(runMayI({ mayIPenaltyCards: 2 })).toEqual([
+      "p2-1",
+      "discard-K",
+      "stock-1",
+      "stock-2",
+    ]);
+    expect(runMayI({ mayIPenaltyCards: 0 })).toEqual(["p2-1", "discard-K"]);
+  });
+});
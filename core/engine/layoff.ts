@@ -10,6 +10,7 @@ import type { Card } from "../card/card.types";
 import type { Meld } from "../meld/meld.types";
 import { isWild, getRankValue } from "../card/card.utils";
 import { getRunBounds } from "../meld/meld.bounds";
+import { DEFAULT_RULE_SET, type RuleSet } from "./house-rules";
 
 /**
  * Result of validating card ownership for lay off.
@@ -66,20 +67,25 @@ export interface LayOffContext {
  *
  * Preconditions for laying off:
  * 1. Player must be down (isDown: true) - have laid down their contract
- * 2. Player must NOT have laid down this turn (laidDownThisTurn: false)
+ * 2. Player must NOT have laid down this turn (laidDownThisTurn: false),
+ *    unless the house rules allow laying off on the lay down turn
  * 3. Player must have drawn a card (hasDrawn: true)
  *
  * @param context - The player's current state
+ * @param rules - House rules, defaults to Grandma Jeanne's rules
  * @returns true if the player can lay off, false otherwise
  */
-export function canLayOffCard(context: LayOffContext): boolean {
-  // Must be down from a previous turn
+export function canLayOffCard(
+  context: LayOffContext,
+  rules: RuleSet = DEFAULT_RULE_SET
+): boolean {
+  // Must be down (from a previous turn, under the default rules)
   if (!context.isDown) {
     return false;
   }
 
   // Cannot lay off on the same turn as laying down
-  if (context.laidDownThisTurn) {
+  if (context.laidDownThisTurn && !rules.allowLayOffOnLayDownTurn) {
     return false;
   }
 
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "bun:test";
+import { canCurrentPlayerClaimMayI, getMayICallBlock, type MayIRuleState } from "./mayI.rules";
+
+function createState(overrides: Partial<MayIRuleState> = {}): MayIRuleState {
+  return {
+    players: [
+      { id: "p0", isDown: false },
+      { id: "p1", isDown: false },
+      { id: "p2", isDown: false },
+    ],
+    currentPlayerIndex: 1,
+    discard: ["K-hearts"],
+    discardClaimed: false,
+    lastDiscardedByPlayerId: "p0",
+    ...overrides,
+  };
+}
+
+describe("getMayICallBlock", () => {
+  it("lets a player who is not down call May I on someone else's discard", () => {
+    expect(getMayICallBlock(createState(), "p2")).toBeNull();
+  });
+
+  it("blocks May I when there is nothing to claim", () => {
+    expect(getMayICallBlock(createState({ discard: [] }), "p2")).toBe("DISCARD_EMPTY");
+    expect(getMayICallBlock(createState({ discardClaimed: true }), "p2")).toBe("DISCARD_CLAIMED");
+  });
+
+  it("blocks May I from down players and players not in the game", () => {
+    const state = createState({
+      players: [
+        { id: "p0", isDown: false },
+        { id: "p1", isDown: false },
+        { id: "p2", isDown: true },
+      ],
+    });
+
+    expect(getMayICallBlock(state, "p2")).toBe("CALLER_DOWN");
+    expect(getMayICallBlock(state, "p9")).toBe("NOT_IN_GAME");
+  });
+
+  it("blocks May I on your own discard", () => {
+    expect(getMayICallBlock(createState(), "p0")).toBe("OWN_DISCARD");
+  });
+
+  it("blocks May I from the current player, who draws the discard instead", () => {
+    expect(getMayICallBlock(createState(), "p1")).toBe("CURRENT_PLAYER");
+  });
+});
+
+describe("canCurrentPlayerClaimMayI", () => {
+  it("lets the current player take the card before drawing", () => {
+    expect(canCurrentPlayerClaimMayI(createState(), "p1", false)).toBe(true);
+  });
+
+  it("refuses once the current player has drawn from the stock", () => {
+    expect(canCurrentPlayerClaimMayI(createState(), "p1", true)).toBe(false);
+  });
+
+  it("refuses a current player who is down, since they cannot draw the discard", () => {
+    const state = createState({
+      players: [
+        { id: "p0", isDown: false },
+        { id: "p1", isDown: true },
+        { id: "p2", isDown: false },
+      ],
+    });
+
+    expect(canCurrentPlayerClaimMayI(state, "p1", false)).toBe(false);
+  });
+
+  it("refuses anyone but the current player", () => {
+    expect(canCurrentPlayerClaimMayI(createState(), "p2", false)).toBe(false);
+  });
+});
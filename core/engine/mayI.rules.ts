@@ -0,0 +1,70 @@
+/**
+ * May I rules shared by the round machine, the pure reducer and the
+ * command diagnostics
+ *
+ * Each of those keeps the round in its own shape, so the rules take only the
+ * fields they need. Checks on May I resolution already being in progress stay
+ * with the callers, which track it differently.
+ */
+
+/**
+ * Round state the May I rules read
+ */
+export interface MayIRuleState {
+  players: ReadonlyArray<{ id: string; isDown: boolean }>;
+  currentPlayerIndex: number;
+  discard: readonly unknown[];
+  /** Whether the exposed discard has been claimed this turn */
+  discardClaimed: boolean;
+  lastDiscardedByPlayerId: string | null;
+}
+
+/**
+ * Why a player may not call May I right now
+ */
+export type MayICallBlock =
+  | "DISCARD_EMPTY"
+  | "DISCARD_CLAIMED"
+  | "NOT_IN_GAME"
+  | "CALLER_DOWN"
+  | "OWN_DISCARD"
+  | "CURRENT_PLAYER";
+
+/**
+ * Check whether a player may call May I on the exposed discard,
+ * or null when they may
+ */
+export function getMayICallBlock(state: MayIRuleState, playerId: string): MayICallBlock | null {
+  if (state.discard.length === 0) return "DISCARD_EMPTY";
+  if (state.discardClaimed) return "DISCARD_CLAIMED";
+
+  const player = state.players.find((p) => p.id === playerId);
+  if (!player) return "NOT_IN_GAME";
+  if (player.isDown) return "CALLER_DOWN";
+  if (state.lastDiscardedByPlayerId === playerId) return "OWN_DISCARD";
+
+  // The current player takes the discard by drawing it
+  if (state.players[state.currentPlayerIndex]?.id === playerId) return "CURRENT_PLAYER";
+
+  return null;
+}
+
+/**
+ * Whether the current player may take a May I card as their draw
+ *
+ * Down players cannot draw from the discard, so they cannot claim it either,
+ * and a player who already drew from the stock has had their draw.
+ */
+export function canCurrentPlayerClaimMayI(
+  state: Pick<MayIRuleState, "players" | "currentPlayerIndex">,
+  playerId: string,
+  hasDrawnFromStock: boolean
+): boolean {
+  const currentPlayer = state.players[state.currentPlayerIndex];
+  return (
+    currentPlayer !== undefined &&
+    currentPlayer.id === playerId &&
+    !currentPlayer.isDown &&
+    !hasDrawnFromStock
+  );
+}
@@ -209,4 +209,23 @@ describe("Out-of-turn reorder race conditions", () => {
     expect(snapshot.players.find((p) => p.id === player2.id)!.hand.map((c) => c.id)).toEqual(player2NewOrder);
     expect(snapshot.players.find((p) => p.id === player3.id)!.hand.map((c) => c.id)).toEqual(player3NewOrder);
   });
+
+  it("out-of-turn reorder after a stock draw keeps the drawn card out of the stock", () => {
+    const engine = GameEngine.createGame({
+      playerNames: ["Player1", "Player2", "Player3"],
+      seed: "reorder-stock",
+    });
+
+    const currentPlayerId = engine.getAwaitingPlayerId();
+    engine.drawFromStock(currentPlayerId);
+    const afterDraw = engine.getSnapshot();
+    const drawn = afterDraw.players.find((p) => p.id === currentPlayerId)!.hand.at(-1)!;
+
+    const other = afterDraw.players.find((p) => p.id !== currentPlayerId)!;
+    engine.reorderHand(other.id, other.hand.map((c) => c.id).reverse());
+
+    const snapshot = engine.getSnapshot();
+    expect(snapshot.stock).toHaveLength(afterDraw.stock.length);
+    expect(snapshot.stock.some((c) => c.id === drawn.id)).toBe(false);
+  });
 });
@@ -13,13 +13,22 @@
 import { setup, assign, sendTo, raise } from "xstate";
 import type { Card } from "../card/card.types";
 import type { Meld } from "../meld/meld.types";
-import type { Player, RoundRecord, RoundNumber, MayIResolution } from "./engine.types";
+import type {
+  DiscardPileEvent,
+  MayIResolution,
+  Player,
+  RoundNumber,
+  RoundRecord,
+} from "./engine.types";
 import type { Contract } from "./contracts";
-import { CONTRACTS } from "./contracts";
-import { createDeck, shuffle, deal } from "../card/card.deck";
+import { getContractForRound, resolveContract } from "./contracts";
+import { shuffle, dealNewRound } from "../card/card.deck";
+import { createRandomSource, deriveReshuffleSeed } from "../card/card.random";
+import { resolveRuleSet, type RuleSet } from "./house-rules";
 import { turnMachine, type TurnInput, type TurnOutput, type TurnContext as TurnMachineContext } from "./turn.machine";
 import { calculateHandScore } from "../scoring/scoring";
 import { reorderHand as reorderHandUtil } from "./hand.reordering";
+import { canCurrentPlayerClaimMayI, getMayICallBlock } from "./mayI.rules";
 
 /**
  * Events that need to be forwarded to child turn actor
@@ -64,6 +73,15 @@ export interface RoundInput {
    * When provided, bypasses random dealing and uses this exact state.
    */
   predefinedState?: PredefinedRoundState;
+  /**
+   * Seed for this round's deal and stock reshuffles.
+   * When omitted, dealing uses Math.random.
+   */
+  seed?: string | null;
+  /** House rules for the game. Defaults to Grandma Jeanne's rules. */
+  rules?: RuleSet;
+  /** Contract for this round. Defaults to the house-rule contract for roundNumber. */
+  contract?: Contract;
 }
 
 /**
@@ -91,6 +109,12 @@ export interface RoundContext {
   discardClaimed: boolean;
   /** Whether the current player has drawn from stock (loses May I priority) */
   currentPlayerHasDrawnFromStock: boolean;
+  /** Public takes, passes and discards of this round, oldest first */
+  discardHistory: DiscardPileEvent[];
+  /** Seed for this round's deal and reshuffles (null when unseeded) */
+  seed: string | null;
+  /** House rules for the game */
+  rules: RuleSet;
 }
 
 /**
@@ -154,6 +178,34 @@ function getPlayersAheadOfCaller(
   return result;
 }
 
+/**
+ * The turn machine's context while it waits for the player's draw
+ * (any player when none is given), null otherwise
+ */
+function getTurnAwaitingDraw(
+  self: { getSnapshot: () => unknown },
+  playerId: string | undefined
+): TurnMachineContext | null {
+  const snapshot = self.getSnapshot() as {
+    children?: { turn?: { getSnapshot: () => { value?: unknown; context?: TurnMachineContext } } };
+  };
+  const turn = snapshot.children?.turn?.getSnapshot();
+  if (!turn?.context || turn.value !== "awaitingDraw") return null;
+  if (playerId !== undefined && playerId !== turn.context.playerId) return null;
+  return turn.context;
+}
+
+/**
+ * The round's discard history with the events added
+ * (rounds persisted before the history existed start with none)
+ */
+function recordDiscardEvent(
+  context: RoundContext,
+  ...events: DiscardPileEvent[]
+): DiscardPileEvent[] {
+  return [...(context.discardHistory ?? []), ...events];
+}
+
 export const roundMachine = setup({
   types: {
     context: {} as RoundContext,
@@ -169,28 +221,11 @@ export const roundMachine = setup({
 
     canCallMayI: ({ context, event }) => {
       if (event.type !== "CALL_MAY_I") return false;
-      const playerId = event.playerId;
 
       // Can't call May I if resolution in progress
       if (context.mayIResolution !== null) return false;
 
-      // Can't call May I if discard already claimed this turn
-      if (context.discardClaimed) return false;
-
-      // Can't call May I if no discard to claim
-      if (context.discard.length === 0) return false;
-
-      // Find the player
-      const player = context.players.find((p) => p.id === playerId);
-      if (!player) return false;
-
-      // Down players can't call May I
-      if (player.isDown) return false;
-
-      // Can't claim your own discard
-      if (context.lastDiscardedByPlayerId === playerId) return false;
-
-      return true;
+      return getMayICallBlock(context, event.playerId) === null;
     },
 
     isPlayerBeingPrompted: ({ context, event }) => {
@@ -211,9 +246,17 @@ export const roundMachine = setup({
 
     isCurrentPlayerClaiming: ({ context, event }) => {
       if (!context.mayIResolution) return false;
-      if (!("playerId" in event)) return false;
-      const currentPlayer = context.players[context.currentPlayerIndex];
-      return currentPlayer?.id === event.playerId && !context.currentPlayerHasDrawnFromStock;
+      if (!("playerId" in event) || !event.playerId) return false;
+      return canCurrentPlayerClaimMayI(
+        context,
+        event.playerId,
+        context.currentPlayerHasDrawnFromStock
+      );
+    },
+
+    isCurrentPlayerReordering: ({ context, event }) => {
+      if (event.type !== "REORDER_HAND") return false;
+      return context.players[context.currentPlayerIndex]?.id === event.playerId;
     },
 
     canReorderPlayerHand: ({ context, event }) => {
@@ -255,12 +298,15 @@ export const roundMachine = setup({
         };
       }
 
-      // Normal random dealing
+      // Normal random dealing (deterministic when the round is seeded)
       const playerCount = context.players.length;
       const deckConfig = getDeckConfig(playerCount);
-      const deck = createDeck(deckConfig);
-      const shuffledDeck = shuffle(deck);
-      const dealResult = deal(shuffledDeck, playerCount);
+      const dealResult = dealNewRound(
+        deckConfig,
+        playerCount,
+        createRandomSource(context.seed),
+        resolveContract(context.contract, context.roundNumber).cardsDealt
+      );
 
       // Update players with their dealt hands
       const playersWithHands = context.players.map((player, index) => ({
@@ -289,7 +335,12 @@ export const roundMachine = setup({
       // Discard pile is stored with the top card at index 0.
       const topDiscard = context.discard[0];
       const cardsToReshuffle = context.discard.slice(1);
-      const newStock = shuffle(cardsToReshuffle);
+      const reshuffleSeed = deriveReshuffleSeed(
+        context.seed,
+        topDiscard?.id,
+        cardsToReshuffle.length
+      );
+      const newStock = shuffle(cardsToReshuffle, createRandomSource(reshuffleSeed));
 
       return {
         stock: newStock,
@@ -301,6 +352,26 @@ export const roundMachine = setup({
       currentPlayerHasDrawnFromStock: true,
     }),
 
+    // Draws are recorded here, before the turn machine applies them, so these
+    // repeat the turn machine's draw guards against its current context
+    recordDiscardPassed: assign(({ context, event, self }) => {
+      if (event.type !== "DRAW_FROM_STOCK") return {};
+      const turn = getTurnAwaitingDraw(self, event.playerId);
+      const card = turn?.discard[0];
+      if (!turn || !card || turn.isDown || turn.stock.length === 0) return {};
+      const passed: DiscardPileEvent = { playerId: turn.playerId, card, action: "passed" };
+      return { discardHistory: recordDiscardEvent(context, passed) };
+    }),
+
+    recordDiscardTaken: assign(({ context, event, self }) => {
+      if (event.type !== "DRAW_FROM_DISCARD") return {};
+      const turn = getTurnAwaitingDraw(self, event.playerId);
+      const card = turn?.discard[0];
+      if (!turn || !card || turn.isDown) return {};
+      const took: DiscardPileEvent = { playerId: turn.playerId, card, action: "took" };
+      return { discardHistory: recordDiscardEvent(context, took) };
+    }),
+
     initializeMayIResolution: assign(({ context, event }) => {
       if (event.type !== "CALL_MAY_I") return {};
 
@@ -389,7 +460,7 @@ export const roundMachine = setup({
       if (!context.mayIResolution?.winner) return {};
 
       const resolution = context.mayIResolution;
-      const winnerId = resolution.winner;
+      const winnerId = context.mayIResolution.winner;
       const cardBeingClaimed = resolution.cardBeingClaimed;
       const isCurrentPlayerClaim = resolution.outcome === "current_player_claimed";
       const claimedCardId = cardBeingClaimed.id;
@@ -421,32 +492,53 @@ export const roundMachine = setup({
         if (currentDiscard.length <= 1) return { stock: currentStock, discard: currentDiscard };
         const topDiscard = currentDiscard[0];
         const cardsToReshuffle = currentDiscard.slice(1);
+        const reshuffleSeed = deriveReshuffleSeed(
+          context.seed,
+          topDiscard?.id,
+          cardsToReshuffle.length
+        );
         return {
-          stock: shuffle(cardsToReshuffle),
+          stock: shuffle(cardsToReshuffle, createRandomSource(reshuffleSeed)),
           discard: topDiscard ? [topDiscard] : [],
         };
       };
 
-      // Determine penalty card for non-current-player winners
-      let penaltyCard: Card | null = null;
+      // Determine penalty cards for non-current-player winners
+      const penaltyCards: Card[] = [];
       if (!isCurrentPlayerClaim) {
-        // If stock is empty, auto-replenish from discard first (house rules)
-        ({ stock, discard } = replenishStockIfEmpty(stock, discard));
+        const { mayIPenaltyCards } = resolveRuleSet(context.rules);
+        for (let i = 0; i < mayIPenaltyCards; i++) {
+          // If stock is empty, auto-replenish from discard first (house rules)
+          ({ stock, discard } = replenishStockIfEmpty(stock, discard));
 
-        penaltyCard = stock[0] ?? null;
-        if (penaltyCard) {
+          const penaltyCard = stock[0];
+          if (!penaltyCard) break;
+          penaltyCards.push(penaltyCard);
           stock = stock.slice(1);
-          // If that was the last stock card, auto-replenish again
-          ({ stock, discard } = replenishStockIfEmpty(stock, discard));
         }
+        // If that was the last stock card, auto-replenish again
+        ({ stock, discard } = replenishStockIfEmpty(stock, discard));
       }
 
       const cardsToAdd: Card[] = [];
       if (!isCurrentPlayerClaim) {
-        cardsToAdd.push(cardBeingClaimed);
-        if (penaltyCard) cardsToAdd.push(penaltyCard);
+        cardsToAdd.push(cardBeingClaimed, ...penaltyCards);
       }
 
+      const discardHistory = recordDiscardEvent(
+        context,
+        ...resolution.playersWhoAllowed.map((playerId): DiscardPileEvent => ({
+          playerId,
+          card: cardBeingClaimed,
+          action: "passed",
+        })),
+        {
+          playerId: winnerId,
+          card: cardBeingClaimed,
+          action: isCurrentPlayerClaim ? "took" : "may_i",
+        }
+      );
+
       return {
         players: context.players.map((player) => {
           if (player.id === winnerId && cardsToAdd.length > 0) {
@@ -457,6 +549,7 @@ export const roundMachine = setup({
         stock,
         discard,
         discardClaimed: true,
+        discardHistory,
       };
     }),
 
@@ -464,10 +557,6 @@ export const roundMachine = setup({
       mayIResolution: null,
     }),
 
-    resetDiscardClaimed: assign({
-      discardClaimed: false,
-    }),
-
     syncTurnPiles: sendTo("turn", ({ context }) => ({
       type: "SYNC_PILES",
       stock: context.stock,
@@ -508,45 +597,25 @@ export const roundMachine = setup({
       };
     }),
 
+    // Only sent for the current player's reorders. An invalid order syncs the
+    // unchanged hand: syncing the round's piles instead would undo the turn's draws.
     syncTurnHand: sendTo("turn", ({ context, event, self }) => {
-      if (event.type !== "REORDER_HAND") {
-        // Return no-op - shouldn't happen but type-safe
-        return { type: "SYNC_PILES" as const, stock: context.stock, discard: context.discard };
+      const player = context.players[context.currentPlayerIndex];
+      let hand = player?.hand ?? [];
+
+      // The turn context hand is authoritative for the current player after a draw
+      const snapshot = self.getSnapshot() as { children?: { turn?: { getSnapshot: () => { context?: { hand?: Card[] } } } } };
+      const turnHand = snapshot?.children?.turn?.getSnapshot()?.context?.hand;
+      if (turnHand) {
+        hand = turnHand;
       }
 
-      const playerId = event.playerId;
-      const currentPlayer = context.players[context.currentPlayerIndex];
-
-      // Only sync if reorder is for the current player (turn actor exists for them)
-      if (currentPlayer?.id === playerId) {
-        // Get effective hand - use turn context for current player (has drawn card)
-        const playerIndex = context.players.findIndex((p) => p.id === playerId);
-        if (playerIndex !== -1) {
-          const player = context.players[playerIndex]!;
-          let hand = player.hand;
-
-          // Try to get turn context hand (authoritative for current player after draw)
-          if (self) {
-            const snapshot = self.getSnapshot() as { children?: { turn?: { getSnapshot: () => { context?: { hand?: Card[] } } } } };
-            const turnActor = snapshot?.children?.turn;
-            if (turnActor) {
-              const turnSnapshot = turnActor.getSnapshot();
-              if (turnSnapshot?.context?.hand) {
-                hand = turnSnapshot.context.hand;
-              }
-            }
-          }
-
-          // Validate using the same utility function
-          const result = reorderHandUtil(hand, event.newOrder);
-          if (result.success) {
-            return { type: "SYNC_HAND" as const, hand: result.hand };
-          }
-        }
+      if (event.type !== "REORDER_HAND") {
+        return { type: "SYNC_HAND" as const, hand };
       }
 
-      // Not current player or invalid - return no-op sync
-      return { type: "SYNC_PILES" as const, stock: context.stock, discard: context.discard };
+      const result = reorderHandUtil(hand, event.newOrder);
+      return { type: "SYNC_HAND" as const, hand: result.success ? result.hand : hand };
     }),
   },
 }).createMachine({
@@ -554,7 +623,7 @@ export const roundMachine = setup({
   initial: "dealing",
   context: ({ input }) => ({
     roundNumber: input.roundNumber,
-    contract: CONTRACTS[input.roundNumber],
+    contract: input.contract ?? getContractForRound(input.roundNumber)!,
     players: input.players.map((p) => ({
       ...p,
       hand: [],
@@ -572,6 +641,9 @@ export const roundMachine = setup({
     mayIResolution: null,
     discardClaimed: false,
     currentPlayerHasDrawnFromStock: false,
+    discardHistory: [],
+    seed: input.seed ?? null,
+    rules: resolveRuleSet(input.rules),
   }),
   output: ({ context }) => ({
     roundRecord: {
@@ -605,6 +677,7 @@ export const roundMachine = setup({
             stock: context.stock,
             discard: context.discard,
             roundNumber: context.roundNumber,
+            contract: resolveContract(context.contract, context.roundNumber),
             isDown: currentPlayer.isDown,
             table: context.table,
             // May I support (still needed for some turn logic)
@@ -613,6 +686,8 @@ export const roundMachine = setup({
               context.players.map((p) => [p.id, p.isDown])
             ),
             lastDiscardedByPlayerId: context.lastDiscardedByPlayerId ?? undefined,
+            seed: context.seed ?? null,
+            rules: resolveRuleSet(context.rules),
           };
         },
         onDone: [
@@ -666,6 +741,17 @@ export const roundMachine = setup({
                   discard: output.discard,
                   table: output.table,
                   lastDiscardedByPlayerId: output.playerId,
+                  // A turn only completes with a discard
+                  discardHistory: recordDiscardEvent(
+                    context,
+                    ...output.discard.slice(0, 1).map(
+                      (card): DiscardPileEvent => ({
+                        playerId: output.playerId,
+                        card,
+                        action: "discarded",
+                      })
+                    )
+                  ),
                 };
               }),
               "advanceTurn",
@@ -686,6 +772,7 @@ export const roundMachine = setup({
             DRAW_FROM_STOCK: {
               actions: [
                 "trackDrawFromStock",
+                "recordDiscardPassed",
                 sendTo("turn", ({ event }) => event),
               ],
             },
@@ -693,6 +780,7 @@ export const roundMachine = setup({
             DRAW_FROM_DISCARD: {
               actions: [
                 assign({ discardClaimed: true }),
+                "recordDiscardTaken",
                 sendTo("turn", ({ event }) => event),
               ],
             },
@@ -700,19 +788,23 @@ export const roundMachine = setup({
             SKIP_LAY_DOWN: { actions: sendTo("turn", ({ event }) => event) },
             LAY_DOWN: { actions: sendTo("turn", ({ event }) => event) },
             LAY_OFF: { actions: sendTo("turn", ({ event }) => event) },
-            DISCARD: {
-              actions: [
-                "resetDiscardClaimed",
-                sendTo("turn", ({ event }) => event),
-              ],
-            },
+            // discardClaimed resets when the turn advances, not on a DISCARD the
+            // turn machine may reject
+            DISCARD: { actions: sendTo("turn", ({ event }) => event) },
             PASS_MAY_I: { actions: sendTo("turn", ({ event }) => event) },
             SWAP_JOKER: { actions: sendTo("turn", ({ event }) => event) },
             // REORDER_HAND is handled at round level so any player can reorder anytime
-            REORDER_HAND: {
-              guard: "canReorderPlayerHand",
-              actions: ["reorderPlayerHand", "syncTurnHand"],
-            },
+            REORDER_HAND: [
+              {
+                // The turn machine holds the current player's hand
+                guard: "isCurrentPlayerReordering",
+                actions: ["reorderPlayerHand", "syncTurnHand"],
+              },
+              {
+                guard: "canReorderPlayerHand",
+                actions: "reorderPlayerHand",
+              },
+            ],
             RESHUFFLE_STOCK: {
               guard: "stockEmpty",
               actions: "reshuffleStock",
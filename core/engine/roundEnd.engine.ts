@@ -3,6 +3,7 @@ import type { Meld } from "../meld/meld.types";
 import type { RoundNumber, RoundRecord } from "./engine.types";
 import { calculateRoundScores, updateTotalScores, determineWinner, type Scores } from "./scoring.engine";
 import { createDeck, shuffle, deal } from "../card/card.deck";
+import { DEFAULT_CONTRACTS } from "./contracts";
 
 /**
  * Player data needed for round end processing
@@ -21,6 +22,8 @@ export interface RoundEndInput {
   players: PlayerForRoundEnd[];
   previousRoundHistory: RoundRecord[];
   previousTotalScores: Scores;
+  /** Number of rounds in the game's contract sequence, defaults to 6 */
+  totalRounds?: number;
 }
 
 /**
@@ -45,7 +48,14 @@ export interface RoundEndResult {
  * 6. Determines next action (next round or game end)
  */
 export function processRoundEnd(input: RoundEndInput): RoundEndResult {
-  const { roundNumber, winnerId, players, previousRoundHistory, previousTotalScores } = input;
+  const {
+    roundNumber,
+    winnerId,
+    players,
+    previousRoundHistory,
+    previousTotalScores,
+    totalRounds = DEFAULT_CONTRACTS.length,
+  } = input;
 
   // Calculate round scores for all players
   const roundScores = calculateRoundScores(players, winnerId);
@@ -64,7 +74,7 @@ export function processRoundEnd(input: RoundEndInput): RoundEndResult {
   const updatedRoundHistory = [...previousRoundHistory, roundRecord];
 
   // Determine next action
-  const nextAction = roundNumber >= 6 ? "gameEnd" : "nextRound";
+  const nextAction = roundNumber >= totalRounds ? "gameEnd" : "nextRound";
 
   return {
     roundRecord,
@@ -227,12 +227,12 @@ describe("round transition", () => {
 
   describe("contract progression", () => {
     it("round 1: 2 sets, round 2: 1 set + 1 run, round 3: 2 runs, round 4: 3 sets, round 5: 2 sets + 1 run, round 6: 1 set + 2 runs", () => {
-      expect(CONTRACTS[1]).toEqual({ roundNumber: 1, sets: 2, runs: 0 });
-      expect(CONTRACTS[2]).toEqual({ roundNumber: 2, sets: 1, runs: 1 });
-      expect(CONTRACTS[3]).toEqual({ roundNumber: 3, sets: 0, runs: 2 });
-      expect(CONTRACTS[4]).toEqual({ roundNumber: 4, sets: 3, runs: 0 });
-      expect(CONTRACTS[5]).toEqual({ roundNumber: 5, sets: 2, runs: 1 });
-      expect(CONTRACTS[6]).toEqual({ roundNumber: 6, sets: 1, runs: 2 });
+      expect(CONTRACTS[1]).toEqual({ roundNumber: 1, sets: 2, runs: 0, cardsDealt: 11, mustUseAllCards: false });
+      expect(CONTRACTS[2]).toEqual({ roundNumber: 2, sets: 1, runs: 1, cardsDealt: 11, mustUseAllCards: false });
+      expect(CONTRACTS[3]).toEqual({ roundNumber: 3, sets: 0, runs: 2, cardsDealt: 11, mustUseAllCards: false });
+      expect(CONTRACTS[4]).toEqual({ roundNumber: 4, sets: 3, runs: 0, cardsDealt: 11, mustUseAllCards: false });
+      expect(CONTRACTS[5]).toEqual({ roundNumber: 5, sets: 2, runs: 1, cardsDealt: 11, mustUseAllCards: false });
+      expect(CONTRACTS[6]).toEqual({ roundNumber: 6, sets: 1, runs: 2, cardsDealt: 11, mustUseAllCards: true });
     });
   });
 
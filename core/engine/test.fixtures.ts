@@ -9,6 +9,11 @@ import type { Card, Suit } from "../card/card.types";
 import type { Meld } from "../meld/meld.types";
 import type { PredefinedRoundState } from "./round.machine";
 import { createDeck, shuffle, deal } from "../card/card.deck";
+import type { RandomSource } from "../card/card.random";
+import { solveContract } from "../meld/meld.solver";
+import { enumerateLegalMoves } from "./game-engine.moves";
+import { getLayDownValidationOptions } from "./house-rules";
+import type { GameSnapshot, JournalCommand } from "./game-engine.types";
 
 /**
  * Creates cards with deterministic IDs for testing
@@ -484,3 +489,99 @@ export function createMeldProposal(
 ): { type: "set" | "run"; cardIds: string[] } {
   return { type, cardIds };
 }
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Random play
+// ═══════════════════════════════════════════════════════════════════════════
+
+function pick<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)]!;
+}
+
+function shuffled<T>(items: T[], random: RandomSource): T[] {
+  return [...items]
+    .map((item) => ({ item, key: random() }))
+    .sort((a, b) => a.key - b.key)
+    .map((entry) => entry.item);
+}
+
+/**
+ * Mostly legal moves that push the game forward, mixed with out-of-turn May I
+ * calls, hand reorders and arbitrary commands the engine should reject
+ */
+export function randomCommand(snapshot: GameSnapshot, random: RandomSource): JournalCommand {
+  const roll = random();
+  if (roll < 0.15) return arbitraryCommand(snapshot, random);
+
+  const other = pick(snapshot.players, random);
+  if (roll < 0.2) {
+    const cardIds = shuffled(other.hand, random).map((c) => c.id);
+    return { type: "REORDER_HAND", playerId: other.id, cardIds };
+  }
+  if (roll < 0.3) {
+    const call = enumerateLegalMoves(snapshot, other.id).find((m) => m.type === "CALL_MAY_I");
+    if (call) return call;
+  }
+
+  const player = snapshot.players.find((p) => p.id === snapshot.awaitingPlayerId)!;
+  const canLayDown = snapshot.phase === "ROUND_ACTIVE" && snapshot.turnPhase === "AWAITING_ACTION";
+  if (canLayDown && !player.isDown) {
+    const [solution] = solveContract(player.hand, snapshot.contract, {
+      ...getLayDownValidationOptions(snapshot.rules),
+      keepCardToDiscard: !snapshot.rules.allowGoOutWithoutDiscard,
+    });
+    if (solution) return { type: "LAY_DOWN", playerId: player.id, melds: solution.melds };
+  }
+
+  const moves = enumerateLegalMoves(snapshot, player.id);
+  const layOffs = moves.filter((m) => m.type === "LAY_OFF" || m.type === "SWAP_JOKER");
+  if (layOffs.length > 0 && random() < 0.8) return pick(layOffs, random);
+  // Nothing legal, e.g. the stock and discard have both run dry
+  if (moves.length === 0) return arbitraryCommand(snapshot, random);
+  return pick(moves, random);
+}
+
+function arbitraryCommand(snapshot: GameSnapshot, random: RandomSource): JournalCommand {
+  const player = pick(snapshot.players, random);
+  const playerId = random() < 0.05 ? "nobody" : player.id;
+  const cards: Card[] = [
+    ...player.hand,
+    ...snapshot.discard.slice(0, 1),
+    ...snapshot.stock.slice(0, 1),
+  ];
+  const cardId = cards.length > 0 ? pick(cards, random).id : "card-none";
+  const meld = snapshot.table.length > 0 ? pick(snapshot.table, random) : null;
+  const meldId = meld?.id ?? "meld-none";
+
+  const kinds = ["draw", "discard", "skip", "layDown", "layOff", "swap", "mayI", "reorder"];
+  switch (pick(kinds, random)) {
+    case "draw":
+      return { type: random() < 0.5 ? "DRAW_FROM_STOCK" : "DRAW_FROM_DISCARD", playerId };
+    case "discard":
+      return { type: "DISCARD", playerId, cardId };
+    case "skip":
+      return { type: "SKIP", playerId };
+    case "layDown": {
+      const size = 3 + Math.floor(random() * 3);
+      const cardIds = shuffled(player.hand, random).slice(0, size).map((c) => c.id);
+      const type = random() < 0.5 ? "set" : "run";
+      return { type: "LAY_DOWN", playerId, melds: [{ type, cardIds }] };
+    }
+    case "layOff":
+      const position = pick([undefined, "start", "end"] as const, random);
+      return { type: "LAY_OFF", playerId, cardId, meldId, position };
+    case "swap": {
+      const jokerCardId = meld ? pick(meld.cards, random).id : "card-none";
+      return { type: "SWAP_JOKER", playerId, meldId, jokerCardId, swapCardId: cardId };
+    }
+    case "mayI":
+      const type = pick(["CALL_MAY_I", "ALLOW_MAY_I", "CLAIM_MAY_I"] as const, random);
+      return { type, playerId };
+    default: {
+      const cardIds = shuffled(player.hand, random).map((c) => c.id);
+      // Half of these leave a card out and should be rejected
+      const partial = random() < 0.5;
+      return { type: "REORDER_HAND", playerId, cardIds: partial ? cardIds.slice(1) : cardIds };
+    }
+  }
+}
@@ -8,13 +8,14 @@
  * during a turn, and resolution is handled by the round machine.
  */
 
-import { setup, assign } from "xstate";
+import { setup, assign, and } from "xstate";
 import type { Card } from "../card/card.types";
 import type { Meld } from "../meld/meld.types";
 import type { RoundNumber } from "./engine.types";
-import { CONTRACTS } from "./contracts";
+import { resolveContract, type Contract } from "./contracts";
 import { isValidSet, isValidRun } from "../meld/meld.validation";
 import { shuffle } from "../card/card.deck";
+import { createRandomSource, deriveReshuffleSeed } from "../card/card.random";
 import {
   buildMeldsFromProposals,
   meetsContract,
@@ -31,6 +32,7 @@ import {
 } from "./layoff";
 import { canSwapJokerWithCard } from "../meld/meld.joker";
 import { normalizeRunCards } from "../meld/run.normalizer";
+import { resolveRuleSet, getLayDownValidationOptions, type RuleSet } from "./house-rules";
 // Note: May I is now handled at the round level, not turn level
 // The mayIWindow.machine.ts will be removed
 
@@ -39,6 +41,14 @@ import { normalizeRunCards } from "../meld/run.normalizer";
  */
 export type MeldProposal = GuardMeldProposal;
 
+/**
+ * Contract for the turn. Turns persisted before contracts were passed in
+ * fall back to the house-rule contract for the round.
+ */
+function getTurnContract(context: Pick<TurnContext, "contract" | "roundNumber">): Contract {
+  return resolveContract(context.contract, context.roundNumber);
+}
+
 /**
  * Context for the TurnMachine
  */
@@ -49,6 +59,8 @@ export interface TurnContext {
   discard: Card[];
   hasDrawn: boolean;
   roundNumber: RoundNumber;
+  /** Contract for this round */
+  contract: Contract;
   isDown: boolean;
   laidDownThisTurn: boolean;
   /** True if player took a meaningful action this turn (lay down, lay off, swap joker) */
@@ -64,6 +76,10 @@ export interface TurnContext {
   playerDownStatus: Record<string, boolean>;
   /** Who discarded the top card of the discard pile (previous player) */
   lastDiscardedByPlayerId: string | null;
+  /** Round seed for deterministic stock reshuffles (null when unseeded) */
+  seed: string | null;
+  /** House rules for the game */
+  rules: RuleSet;
 }
 
 /**
@@ -91,6 +107,8 @@ export interface TurnInput {
   stock: Card[];
   discard: Card[];
   roundNumber: RoundNumber;
+  /** Contract for this round. Defaults to the house-rule contract for roundNumber. */
+  contract?: Contract;
   isDown: boolean;
   laidDownThisTurn?: boolean;
   table: Meld[];
@@ -100,6 +118,10 @@ export interface TurnInput {
   playerDownStatus?: Record<string, boolean>;
   /** Who discarded the top card of the discard pile (previous player). Used to prevent calling May I on your own discard. */
   lastDiscardedByPlayerId?: string;
+  /** Round seed for deterministic stock reshuffles. Defaults to null (Math.random). */
+  seed?: string | null;
+  /** House rules for the game. Defaults to Grandma Jeanne's rules. */
+  rules?: RuleSet;
 }
 
 /**
@@ -125,6 +147,88 @@ export interface TurnOutput {
   handUpdates?: Record<string, HandUpdate>;
 }
 
+/**
+ * Turn state the lay down and lay off error messages are based on
+ */
+export type TurnErrorContext = Pick<
+  TurnContext,
+  "hand" | "isDown" | "laidDownThisTurn" | "table" | "roundNumber" | "contract" | "rules"
+>;
+
+/**
+ * Explain why the current player's LAY_DOWN was rejected
+ */
+export function getLayDownError(context: TurnErrorContext, melds: MeldProposal[]): string {
+  if (context.isDown) return "already laid down this round";
+
+  const rules = resolveRuleSet(context.rules);
+  const contract = getTurnContract(context);
+  const usedCardIds = new Set(melds.flatMap((m) => m.cardIds));
+
+  // Final hand: must use ALL cards
+  if (contract.mustUseAllCards) {
+    if (usedCardIds.size !== context.hand.length) {
+      return `Round ${context.roundNumber} requires laying down ALL ${context.hand.length} cards at once`;
+    }
+  } else if (!rules.allowGoOutWithoutDiscard && usedCardIds.size >= context.hand.length) {
+    return "must keep a card to discard";
+  }
+
+  // Check card ownership
+  for (const proposal of melds) {
+    for (const cardId of proposal.cardIds) {
+      if (!context.hand.find((c) => c.id === cardId)) {
+        return "card not in hand";
+      }
+    }
+  }
+  // Check contract
+  const setsNeeded = contract.sets;
+  const runsNeeded = contract.runs;
+  const setsProvided = melds.filter((m) => m.type === "set").length;
+  const runsProvided = melds.filter((m) => m.type === "run").length;
+  if (setsProvided !== setsNeeded || runsProvided !== runsNeeded) {
+    return `contract requires ${setsNeeded} set(s) and ${runsNeeded} run(s)`;
+  }
+  // Check which specific meld is invalid
+  const validationOptions = getLayDownValidationOptions(rules);
+  for (let i = 0; i < melds.length; i++) {
+    const proposal = melds[i]!;
+    const cards = proposal.cardIds
+      .map((id) => context.hand.find((c) => c.id === id))
+      .filter((c): c is Card => c !== undefined);
+    if (proposal.type === "set" && !isValidSet(cards, validationOptions)) {
+      return `meld ${i + 1} is not a valid set`;
+    }
+    if (proposal.type === "run" && !isValidRun(cards, validationOptions)) {
+      return `meld ${i + 1} is not a valid run`;
+    }
+  }
+  return "invalid melds";
+}
+
+/**
+ * Explain why the current player's LAY_OFF was rejected
+ */
+export function getLayOffError(context: TurnErrorContext, cardId: string, meldId: string): string {
+  if (getTurnContract(context).mustUseAllCards) {
+    return `laying off is not allowed in Round ${context.roundNumber}`;
+  }
+  const rules = resolveRuleSet(context.rules);
+  if (!context.isDown) return "must be down from a previous turn to lay off";
+  if (context.laidDownThisTurn && !rules.allowLayOffOnLayDownTurn) {
+    return "cannot lay off on same turn as laying down";
+  }
+  if (!context.hand.find((c) => c.id === cardId)) return "card not in hand";
+  if (!rules.allowGoOutWithoutDiscard && context.hand.length <= 1) {
+    return "must keep a card to discard";
+  }
+  if (!context.table.find((m) => m.id === meldId)) return "meld not found";
+  // Card doesn't fit the meld (wrong rank for set, or doesn't extend run)
+  // Note: Wild ratio is NOT enforced during layoff per house rules
+  return "card does not fit this meld";
+}
+
 export const turnMachine = setup({
   types: {
     context: {} as TurnContext,
@@ -175,8 +279,8 @@ export const turnMachine = setup({
       if (event.playerId !== undefined && event.playerId !== context.playerId) return false;
       // Card must be in hand
       if (!context.hand.some((card) => card.id === event.cardId)) return false;
-      // Note: In Round 6, players in awaitingDiscard are never "down"
-      // because laying down = going out. No special Round 6 logic needed here.
+      // Note: In a final hand (mustUseAllCards), players in awaitingDiscard are
+      // never "down" because laying down = going out. No special logic needed here.
       return true;
     },
     canLayDown: ({ context, event }) => {
@@ -184,16 +288,28 @@ export const turnMachine = setup({
       // Must be current player (when provided)
       if (event.playerId !== undefined && event.playerId !== context.playerId) return false;
 
-      // Round 6: must use ALL cards (handled by canLayDownAndGoOut, not here)
-      if (context.roundNumber === 6) return false;
+      // Final hand: must use ALL cards (handled by canLayDownAndGoOut, not here)
+      const contract = getTurnContract(context);
+      if (contract.mustUseAllCards) return false;
 
       // Cannot lay down if already down this round
       if (context.isDown) return false;
 
-      const melds = buildMeldsFromProposals(event.melds, context.hand, context.playerId);
+      // Without going out by melding, a card must be left to discard
+      const rules = resolveRuleSet(context.rules);
+      const usedCardIds = new Set(event.melds.flatMap((m) => m.cardIds));
+      if (!rules.allowGoOutWithoutDiscard && usedCardIds.size >= context.hand.length) {
+        return false;
+      }
+
+      const melds = buildMeldsFromProposals(event.melds, context.hand, context.playerId, rules);
       if (!melds) return false; // Some card not in hand
-      if (!validMelds(melds)) return false;
-      return meetsContract(context.roundNumber, melds);
+      if (!validMelds(melds, rules)) return false;
+      return meetsContract(contract, melds, rules);
+    },
+    // House rule: players may lay off on the same turn they lay down
+    allowsLayOffOnLayDownTurn: ({ context }) => {
+      return resolveRuleSet(context.rules).allowLayOffOnLayDownTurn;
     },
     // canLayDown AND laying down uses all cards in hand
     canLayDownAndGoOut: ({ context, event }) => {
@@ -204,30 +320,39 @@ export const turnMachine = setup({
       // Cannot lay down if already down this round
       if (context.isDown) return false;
 
+      // Going out by melding every card (a final hand always works this way)
+      const rules = resolveRuleSet(context.rules);
+      const contract = getTurnContract(context);
+      if (!contract.mustUseAllCards && !rules.allowGoOutWithoutDiscard) return false;
+
       // Check if all cards in hand are used in melds
       const usedCardIds = new Set(event.melds.flatMap((m) => m.cardIds));
       if (usedCardIds.size !== context.hand.length) return false;
 
-      const melds = buildMeldsFromProposals(event.melds, context.hand, context.playerId);
+      const melds = buildMeldsFromProposals(event.melds, context.hand, context.playerId, rules);
       if (!melds) return false; // Some card not in hand
-      if (!validMelds(melds)) return false;
-      return meetsContract(context.roundNumber, melds);
+      if (!validMelds(melds, rules)) return false;
+      return meetsContract(contract, melds, rules);
     },
     canLayOff: ({ context, event }) => {
       if (event.type !== "LAY_OFF") return false;
       // Must be current player (when provided)
       if (event.playerId !== undefined && event.playerId !== context.playerId) return false;
 
-      // Round 6: laying off is not allowed (no melds on table until someone wins)
-      if (context.roundNumber === 6) return false;
+      // Final hand: laying off is not allowed (no melds on table until someone wins)
+      if (getTurnContract(context).mustUseAllCards) return false;
 
       // Check player state preconditions
+      const rules = resolveRuleSet(context.rules);
       const layOffContext = {
         isDown: context.isDown,
         laidDownThisTurn: context.laidDownThisTurn,
         hasDrawn: context.hasDrawn,
       };
-      if (!canLayOffCard(layOffContext)) return false;
+      if (!canLayOffCard(layOffContext, rules)) return false;
+
+      // Without going out by melding, the last card must be discarded
+      if (!rules.allowGoOutWithoutDiscard && context.hand.length <= 1) return false;
 
       // Validate card ownership
       const cardOwnership = validateCardOwnership(event.cardId, context.hand);
@@ -270,9 +395,9 @@ export const turnMachine = setup({
     handIsEmpty: ({ context }) => {
       return context.hand.length === 0;
     },
-    // Check if it's round 6
-    isRound6: ({ context }) => {
-      return context.roundNumber === 6;
+    // Check if this is a final hand (laying down must use every card)
+    isFinalHand: ({ context }) => {
+      return getTurnContract(context).mustUseAllCards;
     },
     // Check if player can swap a Joker from a meld
     canSwapJoker: ({ context, event }) => {
@@ -280,18 +405,19 @@ export const turnMachine = setup({
       // Must be current player (when provided)
       if (event.playerId !== undefined && event.playerId !== context.playerId) return false;
 
-      // Round 6: swapping is not allowed (no melds on table)
-      if (context.roundNumber === 6) return false;
+      // Final hand: swapping is not allowed (no melds on table)
+      if (getTurnContract(context).mustUseAllCards) return false;
 
       // Player must not be down yet (per house rules)
-      if (context.isDown) return false;
+      const rules = resolveRuleSet(context.rules);
+      if (context.isDown && !rules.allowJokerSwapAfterDown) return false;
 
       // Find the meld
       const meld = context.table.find((m) => m.id === event.meldId);
       if (!meld) return false;
 
-      // Meld must be a run (not a set)
-      if (meld.type !== "run") return false;
+      // Meld must be a run (not a set), unless the house rules allow set swaps
+      if (meld.type !== "run" && !rules.allowJokerSwapFromSets) return false;
 
       // Find the joker card in the meld
       const jokerCard = meld.cards.find((c) => c.id === event.jokerCardId);
@@ -305,7 +431,9 @@ export const turnMachine = setup({
       if (!swapCard) return false;
 
       // Check if swap is valid using the meld.joker utility
-      return canSwapJokerWithCard(meld, jokerCard, swapCard);
+      return canSwapJokerWithCard(meld, jokerCard, swapCard, {
+        allowSetSwaps: rules.allowJokerSwapFromSets,
+      });
     },
     // Check if hand can be reordered (free action)
     canReorderHand: ({ context, event }) => {
@@ -335,47 +463,7 @@ export const turnMachine = setup({
         if (event.playerId !== undefined && event.playerId !== context.playerId) {
           return context.lastError;
         }
-        if (context.isDown) return "already laid down this round";
-
-        // Round 6: must use ALL cards
-        if (context.roundNumber === 6) {
-          const usedCardIds = new Set(event.melds.flatMap((m) => m.cardIds));
-          if (usedCardIds.size !== context.hand.length) {
-            return `Round 6 requires laying down ALL ${context.hand.length} cards at once`;
-          }
-        }
-
-        // Check card ownership
-        for (const proposal of event.melds) {
-          for (const cardId of proposal.cardIds) {
-            if (!context.hand.find((c) => c.id === cardId)) {
-              return "card not in hand";
-            }
-          }
-        }
-        // Check contract
-        const contract = CONTRACTS[context.roundNumber];
-        const setsNeeded = contract.sets;
-        const runsNeeded = contract.runs;
-        const setsProvided = event.melds.filter((m) => m.type === "set").length;
-        const runsProvided = event.melds.filter((m) => m.type === "run").length;
-        if (setsProvided !== setsNeeded || runsProvided !== runsNeeded) {
-          return `contract requires ${setsNeeded} set(s) and ${runsNeeded} run(s)`;
-        }
-        // Check which specific meld is invalid
-        for (let i = 0; i < event.melds.length; i++) {
-          const proposal = event.melds[i]!;
-          const cards = proposal.cardIds
-            .map((id) => context.hand.find((c) => c.id === id))
-            .filter((c): c is Card => c !== undefined);
-          if (proposal.type === "set" && !isValidSet(cards)) {
-            return `meld ${i + 1} is not a valid set`;
-          }
-          if (proposal.type === "run" && !isValidRun(cards)) {
-            return `meld ${i + 1} is not a valid run`;
-          }
-        }
-        return "invalid melds";
+        return getLayDownError(context, event.melds);
       },
     }),
     setLayOffError: assign({
@@ -384,14 +472,7 @@ export const turnMachine = setup({
         if (event.playerId !== undefined && event.playerId !== context.playerId) {
           return context.lastError;
         }
-        if (context.roundNumber === 6) return "laying off is not allowed in Round 6";
-        if (!context.isDown) return "must be down from a previous turn to lay off";
-        if (context.laidDownThisTurn) return "cannot lay off on same turn as laying down";
-        if (!context.hand.find((c) => c.id === event.cardId)) return "card not in hand";
-        if (!context.table.find((m) => m.id === event.meldId)) return "meld not found";
-        // Card doesn't fit the meld (wrong rank for set, or doesn't extend run)
-        // Note: Wild ratio is NOT enforced during layoff per house rules
-        return "card does not fit this meld";
+        return getLayOffError(context, event.cardId, event.meldId);
       },
     }),
     setStockEmptyError: assign({
@@ -411,7 +492,12 @@ export const turnMachine = setup({
       if (stock.length === 0 && discard.length > 1) {
         const topDiscard = discard[0];
         const cardsToReshuffle = discard.slice(1);
-        stock = shuffle(cardsToReshuffle);
+        const reshuffleSeed = deriveReshuffleSeed(
+          context.seed,
+          topDiscard?.id,
+          cardsToReshuffle.length
+        );
+        stock = shuffle(cardsToReshuffle, createRandomSource(reshuffleSeed));
         discard = topDiscard ? [topDiscard] : [];
       }
 
@@ -467,7 +553,10 @@ export const turnMachine = setup({
 
           // For runs, normalize card order (allows selection in any order)
           if (proposal.type === "run") {
-            const normalized = normalizeRunCards(cards);
+            const normalized = normalizeRunCards(
+              cards,
+              getLayDownValidationOptions(resolveRuleSet(context.rules))
+            );
             if (normalized.success) {
               cards = normalized.cards;
             }
@@ -614,6 +703,7 @@ export const turnMachine = setup({
     discard: input.discard,
     hasDrawn: false,
     roundNumber: input.roundNumber,
+    contract: resolveContract(input.contract, input.roundNumber),
     isDown: input.isDown,
     laidDownThisTurn: input.laidDownThisTurn ?? false,
     tookActionThisTurn: false,
@@ -622,6 +712,8 @@ export const turnMachine = setup({
     playerOrder: input.playerOrder ?? [],
     playerDownStatus: input.playerDownStatus ?? {},
     lastDiscardedByPlayerId: input.lastDiscardedByPlayerId ?? null,
+    seed: input.seed ?? null,
+    rules: resolveRuleSet(input.rules),
   }),
   output: ({ context }): TurnOutput => {
     // Note: May I handUpdates are now handled at round level
@@ -674,14 +766,20 @@ export const turnMachine = setup({
         LAY_DOWN: [
           {
             // If laying down uses all cards and is valid, go out immediately
-            // In Round 6, this is the ONLY way to lay down (must use all cards)
+            // In a final hand, this is the ONLY way to lay down (must use all cards)
             guard: "canLayDownAndGoOut",
             target: "wentOut",
             actions: ["layDown", "clearError"],
           },
           {
-            // Rounds 1-5: lay down contract, then go to discard phase
-            // Round 6 is blocked here - must use all cards via canLayDownAndGoOut
+            // House rule variant: stay in drawn state so the player can lay off
+            guard: and(["allowsLayOffOnLayDownTurn", "canLayDown"]),
+            target: "drawn",
+            actions: ["layDown", "clearError"],
+          },
+          {
+            // Lay down contract, then go to discard phase
+            // Final hands are blocked here - must use all cards via canLayDownAndGoOut
             guard: "canLayDown",
             target: "awaitingDiscard",
             actions: ["layDown", "clearError"],
@@ -732,8 +830,8 @@ export const turnMachine = setup({
         DISCARD: [
           {
             // If discarding last card, go out
-            // Note: In Round 6, you can never be "down" without going out,
-            // so players in awaitingDiscard are never down in Round 6
+            // Note: In a final hand, you can never be "down" without going out,
+            // so players in awaitingDiscard are never down in a final hand
             guard: "willGoOutAfterDiscard",
             target: "wentOut",
             actions: ["discardCard", "clearError"],
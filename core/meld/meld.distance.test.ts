@@ -0,0 +1,203 @@
+/**
+ * Tests for meld.distance.ts - how far a hand is from its contract
+ */
+
+import { describe, it, expect } from "bun:test";
+import type { Card } from "../card/card.types";
+import { CONTRACTS } from "../engine/contracts";
+import { evaluateContractDistance } from "./meld.distance";
+
+// Helper to create a card (id defaults to rank-suit)
+function card(rank: Card["rank"], suit: Card["suit"], id?: string): Card {
+  return { id: id ?? `${rank}-${suit}`, rank, suit };
+}
+
+function ids(cards: Card[]): string[] {
+  return cards.map((c) => c.id);
+}
+
+describe("evaluateContractDistance", () => {
+  it("is zero for a hand that can lay down", () => {
+    const hand = [
+      card("7", "hearts"),
+      card("7", "clubs"),
+      card("7", "spades"),
+      card("K", "hearts"),
+      card("K", "diamonds"),
+      card("2", "clubs"),
+      card("4", "diamonds"),
+    ];
+
+    const distance = evaluateContractDistance(hand, CONTRACTS[1]);
+
+    expect(distance.cardsNeeded).toBe(0);
+    expect(distance.partials.map((p) => p.missing)).toEqual([0, 0]);
+    expect(distance.partials.every((p) => p.outs.length === 0)).toBe(true);
+    expect(ids(distance.deadWeight)).toEqual(["4-diamonds"]);
+  });
+
+  it("names the ranks that would complete partial sets", () => {
+    const hand = [
+      card("7", "hearts"),
+      card("7", "clubs"),
+      card("K", "hearts"),
+      card("K", "diamonds"),
+      card("4", "diamonds"),
+      card("9", "spades"),
+    ];
+
+    const distance = evaluateContractDistance(hand, CONTRACTS[1]);
+
+    expect(distance.cardsNeeded).toBe(2);
+    expect(distance.partials.map((p) => p.outs)).toEqual([
+      [{ rank: "7", suit: null }],
+      [{ rank: "K", suit: null }],
+    ]);
+    expect(distance.partials.every((p) => p.acceptsWild)).toBe(true);
+    expect(ids(distance.deadWeight)).toEqual(["4-diamonds", "9-spades"]);
+  });
+
+  it("names the exact cards missing from a partial run", () => {
+    const hand = [
+      card("5", "hearts"),
+      card("6", "hearts"),
+      card("8", "hearts"),
+      card("J", "clubs"),
+      card("J", "spades"),
+      card("J", "diamonds"),
+    ];
+
+    const distance = evaluateContractDistance(hand, CONTRACTS[2]);
+    const run = distance.partials.find((p) => p.type === "run")!;
+
+    expect(distance.cardsNeeded).toBe(1);
+    expect(ids(run.cards)).toEqual(["5-hearts", "6-hearts", "8-hearts"]);
+    expect(run.outs).toEqual([{ rank: "7", suit: "hearts" }]);
+    expect(run.window).toEqual({ lowValue: 5, highValue: 8, suit: "hearts" });
+  });
+
+  it("fills partials with wilds but never more wilds than naturals", () => {
+    const hand = [
+      card("7", "hearts"),
+      card("K", "hearts"),
+      card("K", "diamonds"),
+      card("2", "clubs"),
+      card("Joker", null, "JK1"),
+    ];
+
+    const distance = evaluateContractDistance(hand, CONTRACTS[1]);
+
+    // Kings + one wild is complete; the lone 7 takes one wild and still needs a 7
+    expect(distance.cardsNeeded).toBe(1);
+    expect(distance.partials.map((p) => p.missing).sort()).toEqual([0, 1]);
+    const sevens = distance.partials.find((p) => p.cards.some((c) => c.rank === "7"))!;
+    expect(sevens.acceptsWild).toBe(false);
+    expect(sevens.outs).toEqual([{ rank: "7", suit: null }]);
+
+  });
+
+  it("lets wilds outnumber naturals when the rules allow it", () => {
+    const hand = [
+      card("7", "hearts"),
+      card("7", "clubs"),
+      card("7", "diamonds"),
+      card("K", "hearts"),
+      card("2", "clubs"),
+      card("Joker", null, "JK1"),
+    ];
+
+    expect(evaluateContractDistance(hand, CONTRACTS[1]).cardsNeeded).toBe(1);
+    const relaxed = evaluateContractDistance(hand, CONTRACTS[1], {
+      allowWildsToOutnumberNaturals: true,
+    });
+    expect(relaxed.cardsNeeded).toBe(0);
+  });
+
+  it("counts duplicate cards from multiple decks once per meld slot", () => {
+    const hand = [
+      card("9", "hearts", "9H-a"),
+      card("9", "hearts", "9H-b"),
+      card("9", "hearts", "9H-c"),
+      card("9", "diamonds"),
+      card("9", "clubs"),
+      card("9", "spades"),
+    ];
+
+    const distance = evaluateContractDistance(hand, CONTRACTS[1]);
+
+    expect(distance.cardsNeeded).toBe(0);
+    expect(distance.partials.map((p) => p.cards.length)).toEqual([3, 3]);
+  });
+
+  it("keeps same-suit run windows apart", () => {
+    const hand = [
+      card("3", "spades"),
+      card("4", "spades"),
+      card("5", "spades"),
+      card("6", "spades"),
+      card("8", "spades"),
+      card("9", "spades"),
+      card("10", "spades"),
+    ];
+
+    const distance = evaluateContractDistance(hand, CONTRACTS[3]);
+
+    // 3-6 and 8-J are too close, so the second run has to start at 9
+    expect(distance.cardsNeeded).toBe(2);
+    expect(distance.partials.map((p) => p.window!.lowValue)).toEqual([3, 9]);
+    expect(distance.partials[1]!.outs).toEqual([
+      { rank: "J", suit: "spades" },
+      { rank: "Q", suit: "spades" },
+    ]);
+  });
+
+  it("treats cards that extend a partial as useful", () => {
+    const hand = [
+      card("5", "hearts"),
+      card("6", "hearts"),
+      card("7", "hearts"),
+      card("8", "hearts"),
+      card("9", "hearts"),
+      card("Q", "clubs"),
+      card("Q", "spades"),
+      card("Q", "diamonds"),
+      card("Q", "hearts"),
+    ];
+
+    const distance = evaluateContractDistance(hand, CONTRACTS[2]);
+
+    expect(distance.cardsNeeded).toBe(0);
+    expect(distance.deadWeight).toEqual([]);
+  });
+
+  it("needs every dead card replaced in the final hand", () => {
+    const hand = [
+      card("7", "hearts"),
+      card("7", "clubs"),
+      card("7", "diamonds"),
+      card("3", "spades"),
+      card("4", "spades"),
+      card("5", "spades"),
+      card("6", "spades"),
+      card("8", "hearts"),
+      card("9", "hearts"),
+      card("10", "hearts"),
+      card("J", "hearts"),
+      card("K", "clubs"),
+      card("A", "diamonds"),
+    ];
+
+    const distance = evaluateContractDistance(hand, CONTRACTS[6]);
+
+    expect(distance.partials.map((p) => p.missing)).toEqual([0, 0, 0]);
+    expect(ids(distance.deadWeight)).toEqual(["K-clubs", "A-diamonds"]);
+    expect(distance.cardsNeeded).toBe(2);
+  });
+
+  it("reports a whole contract missing for an empty hand", () => {
+    const distance = evaluateContractDistance([], CONTRACTS[5]);
+
+    expect(distance.cardsNeeded).toBe(10);
+    expect(distance.partials.map((p) => p.type)).toEqual(["set", "set", "run"]);
+  });
+});
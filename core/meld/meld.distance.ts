@@ -0,0 +1,343 @@
+/**
+ * Distance to contract for May I? card game
+ *
+ * Measures how far a hand is from laying down its contract: how many cards
+ * it still needs, which partial sets and runs those cards would complete
+ * (the "outs"), and which cards are dead weight. Where the solver answers
+ * "can I lay down?", this answers "how close am I, and what am I waiting for?"
+ *
+ * Partial melds are counted at their minimum size (3-card sets, 4-card runs).
+ * Wilds in hand fill the partials, but never more wilds than naturals in a
+ * partial unless the rules allow wilds to outnumber naturals.
+ */
+
+import type { Card, Rank, Suit } from "../card/card.types";
+import { isWild, getRankValue } from "../card/card.utils";
+import type { Contract } from "../engine/contracts";
+import type { RunBounds } from "./meld.bounds";
+import {
+  cardsForKeys,
+  countKeys,
+  createCardPool,
+  restoreKeys,
+  subMultisets,
+  takeKeys,
+  type CardPool,
+} from "./meld.pool";
+import { countWildsAndNaturals, type MeldValidationOptions } from "./meld.validation";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A card that would help a partial meld. A null suit means any suit.
+ */
+export interface CardNeed {
+  rank: Rank;
+  suit: Suit | null;
+}
+
+/**
+ * A set or run the hand is building toward
+ */
+export interface PartialMeld {
+  type: "set" | "run";
+  /** Cards from hand in this partial (naturals first, then wilds) */
+  cards: Card[];
+  /** Cards still needed to reach the minimum meld size */
+  missing: number;
+  /** Natural cards that would fill a missing spot (empty when complete) */
+  outs: CardNeed[];
+  /** Whether a wild drawn now could fill a missing spot */
+  acceptsWild: boolean;
+  /** For runs, the 4-card window the run is built in */
+  window?: RunBounds;
+}
+
+/**
+ * How far a hand is from its contract
+ */
+export interface ContractDistance {
+  /**
+   * Cards still needed to lay down (0 = the melds are complete). In a final
+   * hand every dead card must also be swapped out, one per turn, so this is
+   * at least the number of dead cards there.
+   */
+  cardsNeeded: number;
+  /** One partial per required meld: sets first, then runs */
+  partials: PartialMeld[];
+  /** Naturals that neither belong to nor extend any partial */
+  deadWeight: Card[];
+}
+
+/** A candidate partial as a multiset of card keys */
+interface CandidatePartial {
+  type: "set" | "run";
+  keys: string[];
+  rank?: Rank;
+  window?: RunBounds;
+}
+
+const SUITS: Suit[] = ["hearts", "diamonds", "clubs", "spades"];
+const RUN_RANKS: Rank[] = ["3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K", "A"];
+const MIN_SET_SIZE = 3;
+const MIN_RUN_SIZE = 4;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Evaluation
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Evaluate how many cards a hand is away from meeting a contract.
+ *
+ * Picks the partial melds that leave the fewest cards missing (ties go to
+ * the grouping that uses more naturals). Same-suit run windows keep the
+ * 2-card gap the contract requires.
+ */
+export function evaluateContractDistance(
+  hand: Card[],
+  contract: Contract,
+  options: MeldValidationOptions = {}
+): ContractDistance {
+  const pool = createCardPool(hand);
+  const counts = countKeys(pool);
+  const wildCount = hand.filter(isWild).length;
+  const setCandidates = buildSetCandidates(pool);
+  const runCandidates = buildRunCandidates(pool);
+
+  const slots: CandidatePartial[][] = [
+    ...Array.from({ length: contract.sets }, () => setCandidates),
+    ...Array.from({ length: contract.runs }, () => runCandidates),
+  ];
+
+  const best = { chosen: [] as CandidatePartial[], missing: Infinity, naturals: -1 };
+  const chosen: CandidatePartial[] = [];
+
+  const search = (slot: number, minIndex: number) => {
+    if (slot === slots.length) {
+      const missing = countMissing(chosen, wildCount, options);
+      const naturals = chosen.reduce((sum, c) => sum + c.keys.length, 0);
+      if (missing < best.missing || (missing === best.missing && naturals > best.naturals)) {
+        Object.assign(best, { chosen: [...chosen], missing, naturals });
+      }
+      return;
+    }
+
+    const candidates = slots[slot]!;
+    for (let i = minIndex; i < candidates.length; i++) {
+      const candidate = candidates[i]!;
+      if (!fitsRunGap(candidate, chosen) || !takeKeys(counts, candidate.keys)) continue;
+      chosen.push(candidate);
+      // Same-type slots pick candidates in order so each grouping is tried once
+      const nextMinIndex = slots[slot + 1] === candidates ? i : 0;
+      search(slot + 1, nextMinIndex);
+      chosen.pop();
+      restoreKeys(counts, candidate.keys);
+    }
+  };
+  search(0, 0);
+
+  const partials = buildPartials(best.chosen, pool, hand.filter(isWild), options);
+  const deadWeight = findDeadWeight(hand, partials);
+  const missing = partials.reduce((sum, p) => sum + p.missing, 0);
+
+  return {
+    cardsNeeded: contract.mustUseAllCards ? Math.max(missing, deadWeight.length) : missing,
+    partials,
+    deadWeight,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Candidates
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Partial sets: up to 3 naturals of one rank, in every suit mix, plus an
+ * empty set for a hand with too few ranks to go around.
+ */
+function buildSetCandidates(pool: CardPool): CandidatePartial[] {
+  const candidates: CandidatePartial[] = [];
+  const keysByRank = new Map<Rank, string[]>();
+  for (const [key, cards] of pool) {
+    const card = cards[0]!;
+    if (isWild(card)) continue;
+    keysByRank.set(card.rank, [...(keysByRank.get(card.rank) ?? []), key]);
+  }
+
+  for (const [rank, keys] of keysByRank) {
+    for (const naturals of subMultisets(keys, pool)) {
+      if (naturals.length > 0 && naturals.length <= MIN_SET_SIZE) {
+        candidates.push({ type: "set", keys: naturals, rank });
+      }
+    }
+  }
+
+  candidates.push({ type: "set", keys: [] });
+  return candidates;
+}
+
+/**
+ * Partial runs: every 4-card window of a suit holding at least one natural,
+ * plus an empty run.
+ */
+function buildRunCandidates(pool: CardPool): CandidatePartial[] {
+  const candidates: CandidatePartial[] = [];
+
+  for (const suit of SUITS) {
+    for (let low = 0; low + MIN_RUN_SIZE <= RUN_RANKS.length; low++) {
+      const ranks = RUN_RANKS.slice(low, low + MIN_RUN_SIZE);
+      const keys = ranks.map((rank) => `${rank}-${suit}`).filter((key) => pool.has(key));
+      if (keys.length === 0) continue;
+      candidates.push({
+        type: "run",
+        keys,
+        window: {
+          lowValue: getRankValue(ranks[0]!)!,
+          highValue: getRankValue(ranks.at(-1)!)!,
+          suit,
+        },
+      });
+    }
+  }
+
+  candidates.push({ type: "run", keys: [] });
+  return candidates;
+}
+
+/**
+ * Same-suit runs need at least 2 ranks between them (see validateContractMelds)
+ */
+function fitsRunGap(candidate: CandidatePartial, chosen: CandidatePartial[]): boolean {
+  const window = candidate.window;
+  if (!window) return true;
+
+  return chosen.every((other) => {
+    if (!other.window || other.window.suit !== window.suit) return true;
+    const [lower, upper] =
+      other.window.lowValue < window.lowValue ? [other.window, window] : [window, other.window];
+    return upper.lowValue - lower.highValue - 1 >= 2;
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Partials
+// ═══════════════════════════════════════════════════════════════════════════
+
+function minimumSize(type: "set" | "run"): number {
+  return type === "set" ? MIN_SET_SIZE : MIN_RUN_SIZE;
+}
+
+/**
+ * How many wilds a partial can take: one per missing spot, and no more
+ * than its naturals unless wilds may outnumber naturals.
+ */
+function wildCapacity(naturals: number, missing: number, options: MeldValidationOptions): number {
+  return options.allowWildsToOutnumberNaturals ? missing : Math.min(missing, naturals);
+}
+
+function countMissing(
+  chosen: CandidatePartial[],
+  wildCount: number,
+  options: MeldValidationOptions
+): number {
+  let missing = 0;
+  let capacity = 0;
+  for (const candidate of chosen) {
+    const gap = minimumSize(candidate.type) - candidate.keys.length;
+    missing += gap;
+    capacity += wildCapacity(candidate.keys.length, gap, options);
+  }
+  return missing - Math.min(wildCount, capacity);
+}
+
+/**
+ * Hand out concrete cards and wilds to the chosen partials and list their outs
+ */
+function buildPartials(
+  chosen: CandidatePartial[],
+  pool: CardPool,
+  wilds: Card[],
+  options: MeldValidationOptions
+): PartialMeld[] {
+  const next = new Map<string, number>();
+  const unusedWilds = [...wilds];
+
+  return chosen.map((candidate) => {
+    const naturals = cardsForKeys(candidate.keys, pool, next);
+
+    const gap = minimumSize(candidate.type) - naturals.length;
+    const capacity = wildCapacity(naturals.length, gap, options);
+    const cards = [...naturals, ...unusedWilds.splice(0, capacity)];
+    const { wilds: wildsUsed } = countWildsAndNaturals(cards);
+    const missing = gap - wildsUsed;
+
+    return {
+      type: candidate.type,
+      cards,
+      missing,
+      outs: missing > 0 ? listOuts(candidate, naturals) : [],
+      acceptsWild: wildsUsed < wildCapacity(naturals.length, gap, options),
+      ...(candidate.window ? { window: candidate.window } : {}),
+    };
+  });
+}
+
+function listOuts(candidate: CandidatePartial, naturals: Card[]): CardNeed[] {
+  if (candidate.type === "set") {
+    return candidate.rank ? [{ rank: candidate.rank, suit: null }] : [];
+  }
+
+  const window = candidate.window;
+  if (!window) return [];
+  const held = new Set(naturals.map((c) => c.rank));
+  return RUN_RANKS.filter((rank) => {
+    const value = getRankValue(rank)!;
+    return value >= window.lowValue && value <= window.highValue && !held.has(rank);
+  }).map((rank) => ({ rank, suit: window.suit }));
+}
+
+/**
+ * Naturals outside the partials that do not extend one: a set takes more of
+ * its rank, a run takes its suit in or next to its window (chaining outward).
+ */
+function findDeadWeight(hand: Card[], partials: PartialMeld[]): Card[] {
+  const used = new Set(partials.flatMap((p) => p.cards.map((c) => c.id)));
+  const leftover = hand.filter((c) => !used.has(c.id) && !isWild(c));
+  const setRanks = new Set(
+    partials.filter((p) => p.type === "set").flatMap((p) => naturalRanks(p.cards))
+  );
+
+  const extending = new Set<string>();
+  for (const partial of partials) {
+    const window = partial.window;
+    if (!window) continue;
+    const held = new Set(naturalRanks(partial.cards));
+    let low = window.lowValue;
+    let high = window.highValue;
+    let grew = true;
+    while (grew) {
+      grew = false;
+      for (const card of leftover) {
+        const value = getRankValue(card.rank);
+        if (card.suit !== window.suit || value === null || extending.has(card.id)) continue;
+        const inWindow =
+          value >= window.lowValue && value <= window.highValue && !held.has(card.rank);
+        if (inWindow || value === low - 1 || value === high + 1) {
+          extending.add(card.id);
+          held.add(card.rank);
+          low = Math.min(low, value);
+          high = Math.max(high, value);
+          grew = true;
+        }
+      }
+    }
+  }
+
+  return leftover.filter((c) => !setRanks.has(c.rank) && !extending.has(c.id));
+}
+
+function naturalRanks(cards: Card[]): Rank[] {
+  return cards.filter((c) => !isWild(c)).map((c) => c.rank);
+}
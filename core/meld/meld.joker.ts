@@ -83,20 +83,60 @@ export function identifyJokerPositions(meld: Meld): WildPosition[] {
   return positions;
 }
 
+/**
+ * Options for Joker swapping (house rule variants)
+ */
+export interface JokerSwapOptions {
+  /** Allow swapping Jokers out of sets as well as runs. Defaults to false. */
+  allowSetSwaps?: boolean;
+}
+
+/**
+ * Check if a natural card can swap for a Joker in a set.
+ *
+ * In a set the Joker stands in for the set's rank, so any natural card of
+ * that rank (any suit) can take its place.
+ */
+export function canSwapJokerFromSet(
+  meld: Meld,
+  jokerCard: Card,
+  swapCard: Card
+): boolean {
+  if (meld.type !== "set") {
+    return false;
+  }
+
+  if (jokerCard.rank !== "Joker" || isWild(swapCard)) {
+    return false;
+  }
+
+  if (!meld.cards.some((c) => c.id === jokerCard.id)) {
+    return false;
+  }
+
+  const natural = meld.cards.find((c) => !isWild(c));
+  return natural !== undefined && swapCard.rank === natural.rank;
+}
+
 /**
  * Check if a natural card can swap for a Joker in a meld.
  *
  * Rules:
  * - Only Jokers can be swapped (not 2s)
- * - Only from runs (not sets)
+ * - Only from runs (not sets), unless options allow set swaps
  * - The natural card must match the Joker's acting rank and suit
  * - The swap card cannot be wild
  */
 export function canSwapJokerWithCard(
   meld: Meld,
   jokerCard: Card,
-  swapCard: Card
+  swapCard: Card,
+  options: JokerSwapOptions = {}
 ): boolean {
+  if (meld.type === "set" && options.allowSetSwaps) {
+    return canSwapJokerFromSet(meld, jokerCard, swapCard);
+  }
+
   // Only runs allow joker swapping
   if (meld.type !== "run") {
     return false;
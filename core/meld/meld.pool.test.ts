@@ -0,0 +1,87 @@
+/**
+ * Tests for meld.pool.ts - grouping identical cards for meld searches
+ */
+
+import { describe, it, expect } from "bun:test";
+import type { Card } from "../card/card.types";
+import {
+  cardKey,
+  cardsForKeys,
+  countKeys,
+  createCardPool,
+  restoreKeys,
+  subMultisets,
+  takeKeys,
+} from "./meld.pool";
+
+function card(rank: Card["rank"], suit: Card["suit"], id: string): Card {
+  return { id, rank, suit };
+}
+
+const hand = [
+  card("7", "hearts", "7H-a"),
+  card("7", "hearts", "7H-b"),
+  card("7", "clubs", "7C"),
+  card("2", "spades", "2S"),
+  card("2", "hearts", "2H"),
+  card("Joker", null, "JK1"),
+];
+
+describe("cardKey", () => {
+  it("shares a key between identical naturals and between all 2s", () => {
+    expect(cardKey(hand[0]!)).toBe(cardKey(hand[1]!));
+    expect(cardKey(hand[0]!)).not.toBe(cardKey(hand[2]!));
+    expect(cardKey(hand[3]!)).toBe(cardKey(hand[4]!));
+    expect(cardKey(hand[3]!)).not.toBe(cardKey(hand[5]!));
+  });
+});
+
+describe("createCardPool", () => {
+  it("groups cards by key in hand order", () => {
+    const pool = createCardPool(hand);
+
+    expect([...pool.keys()]).toEqual(["7-hearts", "7-clubs", "2", "Joker"]);
+    expect(pool.get("7-hearts")!.map((c) => c.id)).toEqual(["7H-a", "7H-b"]);
+  });
+});
+
+describe("subMultisets", () => {
+  it("lists every sub-multiset up to the cards held", () => {
+    const pool = createCardPool(hand);
+
+    expect(subMultisets(["7-hearts", "7-clubs"], pool)).toEqual([
+      [],
+      ["7-clubs"],
+      ["7-hearts"],
+      ["7-hearts", "7-clubs"],
+      ["7-hearts", "7-hearts"],
+      ["7-hearts", "7-hearts", "7-clubs"],
+    ]);
+  });
+});
+
+describe("cardsForKeys", () => {
+  it("hands out distinct cards for repeated keys", () => {
+    const pool = createCardPool(hand);
+
+    expect(cardsForKeys(["7-hearts", "7-hearts", "2"], pool).map((c) => c.id)).toEqual([
+      "7H-a",
+      "7H-b",
+      "2S",
+    ]);
+  });
+});
+
+describe("takeKeys / restoreKeys", () => {
+  it("tracks what has been used and refuses to overdraw", () => {
+    const counts = countKeys(createCardPool(hand));
+
+    expect(takeKeys(counts, ["7-hearts", "7-hearts"])).toBe(true);
+    expect(takeKeys(counts, ["7-clubs", "7-hearts"])).toBe(false);
+    // A failed take leaves counts unchanged
+    expect(counts.get("7-clubs")).toBe(1);
+
+    restoreKeys(counts, ["7-hearts"]);
+    expect(counts.get("7-hearts")).toBe(1);
+  });
+});
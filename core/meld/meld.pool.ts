@@ -0,0 +1,89 @@
+/**
+ * Card pools for meld searches
+ *
+ * Groups a hand by card key so searches treat identical cards as one:
+ * two 7♥ from different decks share a key, and so do all 2s (a 2's suit
+ * plays no part in any meld). Jokers keep their own key, since only a
+ * Joker can be swapped out of a run.
+ */
+
+import type { Card } from "../card/card.types";
+import { isWild } from "../card/card.utils";
+
+/** Cards in a hand grouped by key, in hand order */
+export type CardPool = Map<string, Card[]>;
+
+export function cardKey(card: Card): string {
+  return isWild(card) ? card.rank : `${card.rank}-${card.suit}`;
+}
+
+export function createCardPool(hand: Card[]): CardPool {
+  const pool: CardPool = new Map();
+  for (const card of hand) {
+    const key = cardKey(card);
+    pool.set(key, [...(pool.get(key) ?? []), card]);
+  }
+  return pool;
+}
+
+/**
+ * How many cards of each key are in the pool, for tracking what a search
+ * has used with takeKeys/restoreKeys
+ */
+export function countKeys(pool: CardPool): Map<string, number> {
+  return new Map([...pool].map(([key, cards]) => [key, cards.length]));
+}
+
+/**
+ * All sub-multisets of the given keys, bounded by how many of each the pool holds
+ */
+export function subMultisets(keys: string[], pool: CardPool): string[][] {
+  let results: string[][] = [[]];
+  for (const key of keys) {
+    const available = pool.get(key)?.length ?? 0;
+    results = results.flatMap((partial) =>
+      Array.from({ length: available + 1 }, (_, n) => [...partial, ...Array(n).fill(key)])
+    );
+  }
+  return results;
+}
+
+/**
+ * Concrete cards for a key multiset, taking each key's cards in hand order.
+ * Pass the same `next` map across calls to keep handing out fresh cards.
+ */
+export function cardsForKeys(
+  keys: string[],
+  pool: CardPool,
+  next = new Map<string, number>()
+): Card[] {
+  return keys.map((key) => {
+    const position = next.get(key) ?? 0;
+    next.set(key, position + 1);
+    return pool.get(key)![position]!;
+  });
+}
+
+/**
+ * Use one card of each key. Leaves counts unchanged and returns false if
+ * any key has run out.
+ */
+export function takeKeys(counts: Map<string, number>, keys: string[]): boolean {
+  const taken: string[] = [];
+  for (const key of keys) {
+    const left = counts.get(key) ?? 0;
+    if (left === 0) {
+      restoreKeys(counts, taken);
+      return false;
+    }
+    counts.set(key, left - 1);
+    taken.push(key);
+  }
+  return true;
+}
+
+export function restoreKeys(counts: Map<string, number>, keys: string[]): void {
+  for (const key of keys) {
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Tests for meld.solver.ts - finding every lay down that meets a contract
+ */
+
+import { describe, it, expect } from "bun:test";
+import type { Card } from "../card/card.types";
+import { CONTRACTS, validateContractMelds } from "../engine/contracts";
+import type { Meld } from "./meld.types";
+import { solveContract, type ContractSolution } from "./meld.solver";
+
+// Helper to create a card (id defaults to rank-suit)
+function card(rank: Card["rank"], suit: Card["suit"], id?: string): Card {
+  return { id: id ?? `${rank}-${suit}`, rank, suit };
+}
+
+/** Cards of one suit, by rank */
+function suited(suit: Card["suit"], ...ranks: Card["rank"][]): Card[] {
+  return ranks.map((rank) => card(rank, suit));
+}
+
+/** Each meld's card IDs, sorted, for order-free comparisons */
+function meldIds(solution: ContractSolution): string[] {
+  return solution.melds.map((m) => `${m.type}:${[...m.cardIds].sort().join(",")}`).sort();
+}
+
+/** The solution's melds as Meld objects, cards in the order the solver gave */
+function toMelds(solution: ContractSolution, hand: Card[]): Meld[] {
+  return solution.melds.map((spec, i) => ({
+    id: `meld-${i}`,
+    type: spec.type,
+    cards: spec.cardIds.map((id) => hand.find((c) => c.id === id)!),
+    ownerId: "p1",
+  }));
+}
+
+describe("solveContract", () => {
+  it("finds two sets and ranks the lay down leaving the fewest points first", () => {
+    const hand = [
+      card("7", "hearts"),
+      card("7", "clubs"),
+      card("7", "spades"),
+      card("K", "hearts"),
+      card("K", "diamonds"),
+      card("K", "clubs"),
+      card("K", "spades"),
+      card("4", "diamonds"),
+    ];
+
+    const solutions = solveContract(hand, CONTRACTS[1]);
+
+    expect(solutions[0]!.remaining.map((c) => c.id)).toEqual(["4-diamonds"]);
+    expect(solutions[0]!.pointsLeft).toBe(4);
+    // Any three of the four Kings also make a set
+    expect(solutions).toHaveLength(5);
+    const points = solutions.map((s) => s.pointsLeft);
+    expect(points).toEqual([...points].sort((a, b) => a - b));
+  });
+
+  it("returns nothing when the hand cannot make the contract", () => {
+    const hand = [
+      card("7", "hearts"),
+      card("7", "clubs"),
+      card("K", "hearts"),
+      card("K", "diamonds"),
+      card("4", "diamonds"),
+    ];
+
+    expect(solveContract(hand, CONTRACTS[1])).toEqual([]);
+  });
+
+  it("returns nothing for an empty hand", () => {
+    expect(solveContract([], CONTRACTS[2])).toEqual([]);
+  });
+
+  it("fills sets with wilds", () => {
+    const hand = [
+      card("7", "hearts"),
+      card("7", "clubs"),
+      card("K", "hearts"),
+      card("K", "diamonds"),
+      card("2", "spades"),
+      card("Joker", null, "JK1"),
+      card("4", "diamonds"),
+    ];
+
+    expect(solveContract(hand, CONTRACTS[1]).map(meldIds)).toEqual(
+      expect.arrayContaining([
+        ["set:2-spades,7-clubs,7-hearts", "set:JK1,K-diamonds,K-hearts"],
+        ["set:2-spades,K-diamonds,K-hearts", "set:7-clubs,7-hearts,JK1"],
+      ])
+    );
+  });
+
+  it("does not let wilds outnumber naturals unless the rules allow it", () => {
+    const hand = [
+      card("7", "hearts"),
+      card("7", "clubs"),
+      card("7", "diamonds"),
+      card("K", "hearts"),
+      card("2", "spades"),
+      card("Joker", null, "JK1"),
+    ];
+
+    expect(solveContract(hand, CONTRACTS[1])).toEqual([]);
+
+    const relaxed = solveContract(hand, CONTRACTS[1], { allowWildsToOutnumberNaturals: true });
+    expect(relaxed.map(meldIds)).toContainEqual([
+      "set:2-spades,JK1,K-hearts",
+      "set:7-clubs,7-diamonds,7-hearts",
+    ]);
+  });
+
+  it("treats duplicate cards from multiple decks as one", () => {
+    const hand = [
+      card("9", "hearts", "9H-a"),
+      card("9", "hearts", "9H-b"),
+      card("9", "diamonds"),
+      card("9", "clubs"),
+      card("5", "clubs"),
+      card("5", "spades"),
+      card("5", "diamonds"),
+    ];
+
+    const solutions = solveContract(hand, CONTRACTS[1]);
+
+    // Nines: both hearts + diamond, both hearts + club, one heart + diamond + club, all four
+    expect(solutions).toHaveLength(4);
+    const leftovers = solutions.map((s) =>
+      s.remaining
+        .map((c) => `${c.rank}-${c.suit}`)
+        .sort()
+        .join(",")
+    );
+    expect(new Set(leftovers).size).toBe(4);
+  });
+
+  it("builds runs with wilds filling gaps", () => {
+    const hand = [
+      ...suited("hearts", "5", "6", "8"),
+      card("2", "clubs"),
+      ...suited("spades", "3", "4", "5", "6"),
+      card("K", "diamonds"),
+    ];
+
+    const solutions = solveContract(hand, CONTRACTS[3]);
+
+    expect(solutions.map(meldIds)).toContainEqual([
+      "run:2-clubs,5-hearts,6-hearts,8-hearts",
+      "run:3-spades,4-spades,5-spades,6-spades",
+    ]);
+    const heartsRun = solutions[0]!.melds.find((m) => m.cardIds.includes("5-hearts"))!;
+    expect(heartsRun.cardIds).toEqual(["5-hearts", "6-hearts", "2-clubs", "8-hearts"]);
+  });
+
+  it("enforces the same-suit run gap rule", () => {
+    const tooClose = [...suited("spades", "3", "4", "5", "6", "8", "9", "10", "J")];
+    expect(solveContract(tooClose, CONTRACTS[3])).toEqual([]);
+
+    const farEnough = [...suited("spades", "3", "4", "5", "6", "9", "10", "J", "Q")];
+    expect(solveContract(farEnough, CONTRACTS[3]).map(meldIds)).toEqual([
+      [
+        "run:10-spades,9-spades,J-spades,Q-spades",
+        "run:3-spades,4-spades,5-spades,6-spades",
+      ],
+    ]);
+  });
+
+  it("only returns lay downs that use every card in the final hand", () => {
+    const hand = [
+      card("7", "hearts"),
+      card("7", "clubs"),
+      card("7", "diamonds"),
+      ...suited("spades", "3", "4", "5", "6"),
+      ...suited("hearts", "8", "9", "10", "J"),
+    ];
+
+    const solutions = solveContract(hand, CONTRACTS[6]);
+
+    expect(solutions).toHaveLength(1);
+    expect(solutions[0]!.remaining).toEqual([]);
+    expect(solveContract([...hand, card("4", "diamonds")], CONTRACTS[6])).toEqual([]);
+  });
+
+  it("keeps a card to discard when asked", () => {
+    const hand = [
+      ...["hearts", "clubs", "spades"].map((suit) => card("7", suit as Card["suit"])),
+      ...["hearts", "clubs", "spades"].map((suit) => card("K", suit as Card["suit"])),
+    ];
+
+    expect(solveContract(hand, CONTRACTS[1])).toHaveLength(1);
+    expect(solveContract(hand, CONTRACTS[1], { keepCardToDiscard: true })).toEqual([]);
+  });
+
+  it("only returns lay downs that pass contract validation as given", () => {
+    const hand = [
+      ...suited("hearts", "4", "5", "7", "8"),
+      card("Joker", null, "JK1"),
+      card("2", "diamonds"),
+      card("9", "clubs"),
+      card("9", "spades"),
+      card("9", "hearts"),
+      card("Q", "clubs"),
+      card("Q", "diamonds"),
+      card("Q", "hearts"),
+    ];
+
+    const solutions = solveContract(hand, CONTRACTS[5]);
+
+    expect(solutions.length).toBeGreaterThan(0);
+    for (const solution of solutions) {
+      expect(validateContractMelds(CONTRACTS[5], toMelds(solution, hand))).toEqual({
+        valid: true,
+      });
+      const used = solution.melds.flatMap((m) => m.cardIds);
+      expect(used.length + solution.remaining.length).toBe(hand.length);
+    }
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Contract solver for May I? card game
+ *
+ * Finds every way a hand can be laid down to satisfy a contract, as the
+ * MeldSpec[] a LAY_DOWN command takes. Solutions are checked with the same
+ * validation the engine uses (normalizeRunCards + validateContractMelds), so
+ * wild ratios and the same-suit run gap rule hold for every result.
+ *
+ * Identical cards are interchangeable (see meld.pool): two 7♥ from different
+ * decks, or any two 2s, never produce separate solutions. Results are ranked by the points
+ * left in hand, lowest first.
+ */
+
+import type { Card, Suit } from "../card/card.types";
+import { isWild, getPointValue, getRankValue } from "../card/card.utils";
+import type { Contract } from "../engine/contracts";
+import { validateContractMelds } from "../engine/contracts";
+import type { MeldSpec } from "../engine/game-engine.types";
+import type { Meld } from "./meld.types";
+import { isValidRun, isValidSet, type MeldValidationOptions } from "./meld.validation";
+import {
+  cardKey,
+  cardsForKeys,
+  countKeys,
+  createCardPool,
+  restoreKeys,
+  subMultisets,
+  takeKeys,
+  type CardPool,
+} from "./meld.pool";
+import { normalizeRunCards } from "./run.normalizer";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Types
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Options for solving a contract
+ */
+export interface ContractSolverOptions extends MeldValidationOptions {
+  /**
+   * Leave at least one card in hand to discard (rules where players may not
+   * go out by melding their last card). Ignored when the contract must use
+   * every card.
+   */
+  keepCardToDiscard?: boolean;
+}
+
+/**
+ * One way to lay down the contract
+ */
+export interface ContractSolution {
+  /** Melds to lay down; run card IDs are in run order */
+  melds: MeldSpec[];
+  /** Cards left in hand after laying down */
+  remaining: Card[];
+  /** Point value of the remaining cards */
+  pointsLeft: number;
+}
+
+/** A candidate meld as a multiset of card keys */
+interface CandidateMeld {
+  type: "set" | "run";
+  keys: string[];
+}
+
+const SUITS: Suit[] = ["hearts", "diamonds", "clubs", "spades"];
+const WILD_KEYS = ["2", "Joker"] as const;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Solver
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Find all valid lay downs of a hand for a contract.
+ *
+ * Melds may be longer than the minimum, so a hand can have several solutions
+ * that differ only in which extra cards are melded. With mustUseAllCards
+ * (final hand) only solutions that leave no cards are returned.
+ *
+ * @returns Solutions ranked by points left in hand, then cards left
+ *   (empty if the hand cannot make the contract)
+ */
+export function solveContract(
+  hand: Card[],
+  contract: Contract,
+  options: ContractSolverOptions = {}
+): ContractSolution[] {
+  const pool = createCardPool(hand);
+  const counts = countKeys(pool);
+  const setCandidates = buildSetCandidates(pool, options);
+  const runCandidates = buildRunCandidates(pool, options);
+
+  const slots: CandidateMeld[][] = [
+    ...Array.from({ length: contract.sets }, () => setCandidates),
+    ...Array.from({ length: contract.runs }, () => runCandidates),
+  ];
+
+  const solutions: ContractSolution[] = [];
+  const chosen: CandidateMeld[] = [];
+
+  const search = (slot: number, minIndex: number) => {
+    if (slot === slots.length) {
+      const solution = buildSolution(chosen, pool, hand, contract, options);
+      if (solution) solutions.push(solution);
+      return;
+    }
+
+    const candidates = slots[slot]!;
+    for (let i = minIndex; i < candidates.length; i++) {
+      const candidate = candidates[i]!;
+      if (!takeKeys(counts, candidate.keys)) continue;
+      chosen.push(candidate);
+      // Same-type slots pick candidates in order so each grouping appears once
+      const nextMinIndex = slots[slot + 1] === candidates ? i : 0;
+      search(slot + 1, nextMinIndex);
+      chosen.pop();
+      restoreKeys(counts, candidate.keys);
+    }
+  };
+
+  if (slots.length > 0) {
+    search(0, 0);
+  }
+
+  return solutions.sort(
+    (a, b) => a.pointsLeft - b.pointsLeft || a.remaining.length - b.remaining.length
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Candidates
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Every set that can be built from the hand: any mix of naturals of one rank
+ * plus enough wilds to reach 3 cards (and optionally more).
+ */
+function buildSetCandidates(
+  pool: CardPool,
+  options: MeldValidationOptions
+): CandidateMeld[] {
+  const candidates: CandidateMeld[] = [];
+  const naturalsByRank = new Map<string, string[]>();
+  for (const key of pool.keys()) {
+    const card = pool.get(key)![0]!;
+    if (isWild(card)) continue;
+    const keys = naturalsByRank.get(card.rank) ?? [];
+    keys.push(key);
+    naturalsByRank.set(card.rank, keys);
+  }
+
+  for (const keys of naturalsByRank.values()) {
+    for (const naturals of subMultisets(keys, pool)) {
+      if (naturals.length === 0) continue;
+      for (const wilds of wildCombinations(pool)) {
+        const meldKeys = [...naturals, ...wilds];
+        if (isValidSet(cardsForKeys(meldKeys, pool), options)) {
+          candidates.push({ type: "set", keys: meldKeys });
+        }
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Every run that can be built from the hand: distinct naturals of one suit
+ * plus wilds filling the gaps and, optionally, extending the ends.
+ */
+function buildRunCandidates(
+  pool: CardPool,
+  options: MeldValidationOptions
+): CandidateMeld[] {
+  const candidates: CandidateMeld[] = [];
+  const wildCount = WILD_KEYS.reduce((sum, key) => sum + (pool.get(key)?.length ?? 0), 0);
+
+  for (const suit of SUITS) {
+    const naturals = [...pool.keys()]
+      .map((key) => pool.get(key)![0]!)
+      .filter((card) => !isWild(card) && card.suit === suit)
+      .sort((a, b) => getRankValue(a.rank)! - getRankValue(b.rank)!);
+
+    const chosen: Card[] = [];
+    const extend = (from: number, gaps: number) => {
+      if (chosen.length > 0) {
+        for (const wilds of wildCombinations(pool)) {
+          if (wilds.length < gaps) continue;
+          const meldKeys = [...chosen.map(cardKey), ...wilds];
+          const normalized = normalizeRunCards(cardsForKeys(meldKeys, pool), options);
+          if (normalized.success && isValidRun(normalized.cards, options)) {
+            candidates.push({ type: "run", keys: meldKeys });
+          }
+        }
+      }
+
+      for (let i = from; i < naturals.length; i++) {
+        const last = chosen.at(-1);
+        const gap = last ? getRankValue(naturals[i]!.rank)! - getRankValue(last.rank)! - 1 : 0;
+        // Naturals are sorted, so later ones only widen the gap
+        if (gaps + gap > wildCount) break;
+        chosen.push(naturals[i]!);
+        extend(i + 1, gaps + gap);
+        chosen.pop();
+      }
+    };
+    extend(0, 0);
+  }
+
+  return candidates;
+}
+
+/**
+ * All combinations of wilds in the hand (2s and Jokers counted separately,
+ * since a Joker in a run can later be swapped out and a 2 cannot)
+ */
+function wildCombinations(pool: CardPool): string[][] {
+  return subMultisets(
+    WILD_KEYS.filter((key) => pool.has(key)),
+    pool
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Solutions
+// ═══════════════════════════════════════════════════════════════════════════
+
+function buildSolution(
+  chosen: CandidateMeld[],
+  pool: CardPool,
+  hand: Card[],
+  contract: Contract,
+  options: ContractSolverOptions
+): ContractSolution | null {
+  const usedCount = chosen.reduce((sum, meld) => sum + meld.keys.length, 0);
+  const leftCount = hand.length - usedCount;
+  if (contract.mustUseAllCards) {
+    if (leftCount !== 0) return null;
+  } else if (options.keepCardToDiscard && leftCount < 1) {
+    return null;
+  }
+
+  // Hand out concrete cards for each key, in hand order
+  const next = new Map<string, number>();
+  const melds: Meld[] = chosen.map((candidate, index) => {
+    const cards = cardsForKeys(candidate.keys, pool, next);
+    const ordered = candidate.type === "run" ? normalizeRunCards(cards, options).cards : cards;
+    return { id: `solver-meld-${index}`, type: candidate.type, cards: ordered, ownerId: "" };
+  });
+
+  if (!validateContractMelds(contract, melds, options).valid) {
+    return null;
+  }
+
+  const usedIds = new Set(melds.flatMap((m) => m.cards.map((c) => c.id)));
+  const remaining = hand.filter((c) => !usedIds.has(c.id));
+  return {
+    melds: melds.map((m) => ({ type: m.type, cardIds: m.cards.map((c) => c.id) })),
+    remaining,
+    pointsLeft: remaining.reduce((sum, c) => sum + getPointValue(c), 0),
+  };
+}
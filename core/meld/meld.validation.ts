@@ -35,24 +35,35 @@ export function wildsOutnumberNaturals(cards: Card[]): boolean {
   return wilds > naturals;
 }
 
+/**
+ * Options for validating a meld
+ */
+export interface MeldValidationOptions {
+  /** Skip the wild ratio check (house rule variant). Defaults to false. */
+  allowWildsToOutnumberNaturals?: boolean;
+}
+
 /**
  * Validate a set (group) of cards.
  *
  * A valid set requires:
  * - At least 3 cards
  * - All natural cards must be the same rank
- * - Wilds cannot outnumber naturals
+ * - Wilds cannot outnumber naturals (unless options allow it)
  *
  * Note: Duplicate suits are allowed (multi-deck game)
  */
-export function isValidSet(cards: Card[]): boolean {
+export function isValidSet(
+  cards: Card[],
+  options: MeldValidationOptions = {}
+): boolean {
   // Must have at least 3 cards
   if (cards.length < 3) {
     return false;
   }
 
   // Check wild ratio
-  if (wildsOutnumberNaturals(cards)) {
+  if (!options.allowWildsToOutnumberNaturals && wildsOutnumberNaturals(cards)) {
     return false;
   }
 
@@ -87,20 +98,23 @@ export function isValidSet(cards: Card[]): boolean {
  * - All natural cards must be the same suit
  * - Cards form a consecutive sequence (3-4-5-6... up to ...Q-K-A)
  * - Wilds can fill gaps but cannot extend below 3 or above A
- * - Wilds cannot outnumber naturals
+ * - Wilds cannot outnumber naturals (unless options allow it)
  * - Cards must be in sequence order (position matters)
  *
  * Run sequence: 3, 4, 5, 6, 7, 8, 9, 10, J, Q, K, A
  * (2 is wild, not part of sequence; A is high only)
  */
-export function isValidRun(cards: Card[]): boolean {
+export function isValidRun(
+  cards: Card[],
+  options: MeldValidationOptions = {}
+): boolean {
   // Must have at least 4 cards
   if (cards.length < 4) {
     return false;
   }
 
   // Check wild ratio
-  if (wildsOutnumberNaturals(cards)) {
+  if (!options.allowWildsToOutnumberNaturals && wildsOutnumberNaturals(cards)) {
     return false;
   }
 
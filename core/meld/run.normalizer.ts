@@ -15,6 +15,7 @@
 
 import type { Card, Suit } from "../card/card.types";
 import { isWild, getRankValue } from "../card/card.utils";
+import type { MeldValidationOptions } from "./meld.validation";
 
 /**
  * Result of run normalization attempt
@@ -39,9 +40,13 @@ interface PositionedNatural {
  * to fill gaps.
  *
  * @param cards - Cards to normalize (in any order)
+ * @param options - Validation options (e.g. relaxed wild ratio)
  * @returns Result with normalized cards or failure reason
  */
-export function normalizeRunCards(cards: Card[]): RunNormalizationResult {
+export function normalizeRunCards(
+  cards: Card[],
+  options: MeldValidationOptions = {}
+): RunNormalizationResult {
   // Minimum run length is 4
   if (cards.length < 4) {
     return {
@@ -94,7 +99,7 @@ export function normalizeRunCards(cards: Card[]): RunNormalizationResult {
   }
 
   // Check wild ratio (wilds cannot outnumber naturals)
-  if (wilds.length > naturals.length) {
+  if (!options.allowWildsToOutnumberNaturals && wilds.length > naturals.length) {
     return {
       success: false,
       cards,
@@ -4,14 +4,17 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./app/workers/app");
-		durableNamespaces: "MayIRoom";
+		durableNamespaces: "MayIRoom" | "PlayerStatsStore" | "SkillRatingsStore";
 	}
 	interface Env {
 		OPENAI_API_KEY: string;
 		ANTHROPIC_API_KEY: string;
 		GOOGLE_GENERATIVE_AI_API_KEY: string;
 		XAI_API_KEY: string;
+		SEAT_TOKEN_SECRET: string;
 		MayIRoom: DurableObjectNamespace<import("./app/workers/app").MayIRoom>;
+		PlayerStats: DurableObjectNamespace<import("./app/workers/app").PlayerStatsStore>;
+		SkillRatings: DurableObjectNamespace<import("./app/workers/app").SkillRatingsStore>;
 	}
 }
 interface Env extends Cloudflare.Env {}